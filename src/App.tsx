@@ -23,6 +23,9 @@ import LoginPage from '@/pages/LoginPage.tsx';
 import RegisterPage from '@/pages/RegisterPage.tsx';
 import CorretorPage from '@/pages/CorretorPage.tsx';
 import ProductDetailsPage from '@/pages/ProductDetailsPage.tsx';
+import OrderTrackingPage from '@/pages/OrderTrackingPage.tsx';
+import SharedCartPage from '@/pages/SharedCartPage.tsx';
+import QuotePage from '@/pages/QuotePage.tsx';
 import HelpCenterPage from '@/pages/HelpCenterPage.tsx';
 import HelpCategoryPage from '@/pages/HelpCategoryPage.tsx';
 import HelpArticlePage from '@/pages/HelpArticlePage.tsx';
@@ -36,6 +39,15 @@ import EditProductPage from '@/pages/dashboard/EditProductPage.tsx';
 import TrackingSettingsPage from '@/pages/dashboard/TrackingSettingsPage.tsx';
 import CategoriesPage from '@/pages/dashboard/CategoriesPage.tsx';
 import ReferralPage from '@/pages/dashboard/ReferralPage.tsx';
+import OrdersPage from '@/pages/dashboard/OrdersPage.tsx';
+import OrderPrintPage from '@/pages/dashboard/OrderPrintPage.tsx';
+import CouponsPage from '@/pages/dashboard/CouponsPage.tsx';
+import PromotionsPage from '@/pages/dashboard/PromotionsPage.tsx';
+import PriceListsPage from '@/pages/dashboard/PriceListsPage.tsx';
+import TierGroupsPage from '@/pages/dashboard/TierGroupsPage.tsx';
+import TierTemplatesPage from '@/pages/dashboard/TierTemplatesPage.tsx';
+import AbandonedCartsPage from '@/pages/dashboard/AbandonedCartsPage.tsx';
+import QuotesPage from '@/pages/dashboard/QuotesPage.tsx';
 
 // Admin Pages
 import AdminDashboardPage from '@/pages/admin/AdminDashboardPage.tsx';
@@ -154,6 +166,9 @@ function AppContent() {
           {/* Corretor Public Profile Routes */}
           <Route path="/:slug" element={<CorretorPage />} />
           <Route path="/:slug/produtos/:productId" element={<ProductDetailsPage />} />
+          <Route path="/:slug/pedido/:code" element={<OrderTrackingPage />} />
+          <Route path="/:slug/carrinho/:code" element={<SharedCartPage />} />
+          <Route path="/:slug/orcamento/:code" element={<QuotePage />} />
         </Route>
 
         {/* Protected Dashboard Routes */}
@@ -162,11 +177,22 @@ function AppContent() {
             <Route path="/dashboard" element={<DashboardPage />} />
             <Route path="/dashboard/settings" element={<SettingsPage />} />
             <Route path="/dashboard/listings" element={<ListingsPage />} />
+            <Route path="/dashboard/orders" element={<OrdersPage />} />
+            <Route path="/dashboard/coupons" element={<CouponsPage />} />
+            <Route path="/dashboard/promotions" element={<PromotionsPage />} />
+            <Route path="/dashboard/price-lists" element={<PriceListsPage />} />
+            <Route path="/dashboard/tier-groups" element={<TierGroupsPage />} />
+            <Route path="/dashboard/tier-templates" element={<TierTemplatesPage />} />
+            <Route path="/dashboard/abandoned-carts" element={<AbandonedCartsPage />} />
+            <Route path="/dashboard/quotes" element={<QuotesPage />} />
             <Route path="/dashboard/products/new" element={<CreateProductPage />} />
             <Route path="/dashboard/products/:id/edit" element={<EditProductPage />} />
             <Route path="/dashboard/categories" element={<CategoriesPage />} />
             <Route path="/dashboard/referral" element={<ReferralPage />} />
           </Route>
+
+          {/* Printable pages, without the dashboard chrome */}
+          <Route path="/dashboard/orders/:orderId/print" element={<OrderPrintPage />} />
         </Route>
 
         {/* Protected Admin Routes */}
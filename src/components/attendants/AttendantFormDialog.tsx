@@ -0,0 +1,295 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Loader2, Headset } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { PhoneInput } from '@/components/ui/phone-input';
+import { CategorySelector } from '@/components/ui/category-selector';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  DEFAULT_WORKING_HOURS,
+  WEEKDAY_LABELS,
+  parseTimeToMinutes,
+  type StoreAttendantInput,
+} from '@/lib/attendantUtils';
+import type { StoreAttendant } from '@/types';
+
+// Monday first, as sellers usually think of the week
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const workingDaySchema = z.object({
+  enabled: z.boolean(),
+  start: z.string(),
+  end: z.string(),
+});
+
+const attendantSchema = z.object({
+  name: z.string().trim().min(1, 'Informe o nome do atendente'),
+  whatsapp: z.string().refine(
+    (value) => value.replace(/\D/g, '').length >= 10,
+    'Informe o WhatsApp com DDD'
+  ),
+  categories: z.array(z.string()).default([]),
+  always_available: z.boolean(),
+  working_days: z.array(workingDaySchema).length(7),
+  is_active: z.boolean().default(true),
+}).refine(
+  (data) => data.always_available || data.working_days.some(day => day.enabled),
+  { message: 'Selecione ao menos um dia de atendimento', path: ['working_days'] }
+).refine(
+  (data) => data.always_available || data.working_days.every(day =>
+    !day.enabled || parseTimeToMinutes(day.end) > parseTimeToMinutes(day.start)
+  ),
+  { message: 'O horário final deve ser depois do inicial', path: ['working_days'] }
+);
+
+type AttendantFormData = z.infer<typeof attendantSchema>;
+
+interface AttendantFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  attendant?: StoreAttendant | null;
+  userId?: string;
+  nextDisplayOrder: number;
+  onSave: (attendant: StoreAttendantInput, attendantId?: string) => Promise<boolean>;
+}
+
+const getDefaultValues = (attendant?: StoreAttendant | null): AttendantFormData => {
+  const workingHours = attendant ? attendant.working_hours : DEFAULT_WORKING_HOURS;
+
+  return {
+    name: attendant?.name || '',
+    whatsapp: attendant?.whatsapp || '',
+    categories: attendant?.categories || [],
+    always_available: !!attendant && attendant.working_hours.length === 0,
+    // Indexed by weekday (0 = Sunday)
+    working_days: WEEKDAY_LABELS.map((_, day) => {
+      const hours = workingHours.find(item => item.day === day);
+      return {
+        enabled: !!hours,
+        start: hours?.start || '08:00',
+        end: hours?.end || '18:00',
+      };
+    }),
+    is_active: attendant?.is_active ?? true,
+  };
+};
+
+export default function AttendantFormDialog({
+  open,
+  onOpenChange,
+  attendant,
+  userId,
+  nextDisplayOrder,
+  onSave
+}: AttendantFormDialogProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<AttendantFormData>({
+    resolver: zodResolver(attendantSchema),
+    defaultValues: getDefaultValues(attendant),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues(attendant));
+    }
+  }, [open, attendant, form]);
+
+  const alwaysAvailable = form.watch('always_available');
+  const workingDays = form.watch('working_days');
+
+  const handleSubmit = async (data: AttendantFormData) => {
+    setSaving(true);
+
+    const success = await onSave({
+      name: data.name.trim(),
+      whatsapp: data.whatsapp.replace(/\D/g, ''),
+      categories: data.categories,
+      working_hours: data.always_available
+        ? []
+        : data.working_days.flatMap((day, index) =>
+            day.enabled ? [{ day: index, start: day.start, end: day.end }] : []
+          ),
+      is_active: data.is_active,
+      display_order: attendant?.display_order ?? nextDisplayOrder,
+    }, attendant?.id);
+
+    setSaving(false);
+
+    if (success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Headset className="h-5 w-5" />
+            {attendant ? 'Editar Atendente' : 'Novo Atendente'}
+          </DialogTitle>
+          <DialogDescription>
+            Os clientes são direcionados para o WhatsApp deste atendente conforme as regras de atendimento
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Ana - Vendas" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="whatsapp"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>WhatsApp</FormLabel>
+                  <FormControl>
+                    <PhoneInput {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="categories"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Categorias</FormLabel>
+                  <CategorySelector value={field.value} onChange={field.onChange} userId={userId} />
+                  <FormDescription>
+                    Usadas quando o atendimento por categoria está ativo. Deixe vazio para atender todas
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="always_available"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Sempre disponível</FormLabel>
+                    <FormDescription>Ignora o horário de atendimento</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {!alwaysAvailable && (
+              <FormField
+                control={form.control}
+                name="working_days"
+                render={() => (
+                  <FormItem>
+                    <FormLabel>Horário de atendimento</FormLabel>
+                    <div className="space-y-2">
+                      {WEEK_ORDER.map((day) => (
+                        <div key={day} className="flex items-center gap-3">
+                          <label className="flex w-28 items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={workingDays[day]?.enabled}
+                              onCheckedChange={(checked) =>
+                                form.setValue(`working_days.${day}.enabled`, !!checked, { shouldValidate: true })
+                              }
+                            />
+                            {WEEKDAY_LABELS[day]}
+                          </label>
+                          <Input
+                            type="time"
+                            className="w-28"
+                            disabled={!workingDays[day]?.enabled}
+                            {...form.register(`working_days.${day}.start`)}
+                          />
+                          <span className="text-sm text-muted-foreground">às</span>
+                          <Input
+                            type="time"
+                            className="w-28"
+                            disabled={!workingDays[day]?.enabled}
+                            {...form.register(`working_days.${day}.end`)}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Atendente ativo</FormLabel>
+                    <FormDescription>Atendentes inativos não recebem novos contatos</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saving}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar Atendente
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { X, Plus, Minus, Trash2, ShoppingCart, MessageCircle, Edit3, Palette, Ruler, TrendingDown, Package, ChevronDown, ChevronUp } from 'lucide-react';
+import { useState, useEffect, useMemo, useRef, type MouseEvent } from 'react';
+import { X, Plus, Minus, Trash2, ShoppingCart, MessageCircle, Edit3, Palette, Ruler, TrendingDown, Package, ChevronDown, ChevronUp, Ticket, Loader2, Truck, Store, AlertCircle, Share2, Copy, ArrowLeft, ClipboardList, QrCode } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
@@ -19,13 +19,57 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { toast } from 'sonner';
 import { useCart } from '@/contexts/CartContext';
 import { formatCurrencyI18n, generateWhatsAppMessage, useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { generateWhatsAppUrl } from '@/lib/utils';
 import { trackWhatsAppClick } from '@/lib/tracking';
-import type { User, PriceTier } from '@/types';
+import { useStoreAttendant } from '@/hooks/useStoreAttendant';
+import type { User, PriceTier, WholesaleSettings, CheckoutSettings, CheckoutCustomer, StorePixSettings, WhatsAppMessageTemplates, QuoteSettings, InstallmentSettings } from '@/types';
 import { generateCartOrderMessage } from '@/lib/cartUtils';
+import { createOrderFromCart, createPendingOrderReference, type CreateOrderResult } from '@/lib/orderUtils';
+import { validateCoupon, buildCouponLines } from '@/lib/couponUtils';
+import { createSharedCart, generateSharedCartUrl } from '@/lib/sharedCartUtils';
+import {
+  fetchCheckoutSettings,
+  isCheckoutFormEnabled,
+  validateCheckoutCustomer,
+  buildCheckoutCustomer,
+  hasCustomerData,
+  type CheckoutFieldErrors,
+} from '@/lib/checkoutUtils';
+import { lookupCep } from '@/lib/cepRegions';
+import { fetchStorePixSettings, generateOrderPixPayload, isStorePixEnabled } from '@/lib/pixUtils';
+import { fetchWhatsAppMessageTemplates, getCustomMessageTemplate } from '@/lib/messageTemplateUtils';
+import { markAbandonedCartConverted, saveAbandonedCart } from '@/lib/abandonedCartUtils';
+import {
+  fetchQuoteSettings,
+  isQuoteCart,
+  createQuoteFromCart,
+  createPendingQuoteReference,
+  generateQuoteRequestMessage,
+  QUOTE_PRICE_LABEL,
+} from '@/lib/quoteUtils';
+import {
+  fetchWholesaleSettings,
+  validateWholesaleRules,
+  getProductQuantityRules,
+  hasQuantityRules,
+  formatQuantityRules,
+} from '@/lib/wholesaleUtils';
+import {
+  fetchShippingConfig,
+  calculateShippingOptions,
+  getShippingOptionDetails,
+  formatCep,
+  normalizeCep,
+  isValidCep,
+  type ShippingConfig,
+} from '@/lib/shippingUtils';
 import { fetchProductPriceTiers, calculateApplicablePrice } from '@/lib/tieredPricingUtils';
+import { applyPriceListToTiers } from '@/lib/priceListUtils';
+import { getTierQuantity } from '@/lib/tierGroupUtils';
+import { calculateInstallmentPlans, fetchInstallmentSettings, formatInstallmentPlan } from '@/lib/installmentUtils';
 import { supabase } from '@/lib/supabase';
 import {
   Tooltip,
@@ -34,6 +78,10 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import TieredPricingIndicator from '@/components/product/TieredPricingIndicator';
+import CheckoutForm from '@/components/corretor/CheckoutForm';
+import PixPaymentCard from '@/components/corretor/PixPaymentCard';
+
+const ABANDONED_CART_SAVE_DELAY = 1500;
 
 interface CartModalProps {
   open: boolean;
@@ -50,13 +98,96 @@ export default function CartModal({
   currency = 'BRL',
   language = 'pt-BR'
 }: CartModalProps) {
-  const { cart, updateVariantQuantity, removeCartVariant, clearCart, updateVariantNotes, updateVariantOptions, removeDistribution } = useCart();
+  const { cart, updateVariantQuantity, removeCartVariant, clearCart, updateVariantNotes, updateVariantOptions, removeDistribution, applyCoupon, removeCoupon, setShipping, refreshCartPrices, refreshCoupon, tierGroups } = useCart();
   const { t } = useTranslation(language);
   const [sendingOrder, setSendingOrder] = useState(false);
+  const [refreshingPrices, setRefreshingPrices] = useState(false);
   const [editingNotes, setEditingNotes] = useState<string | null>(null);
   const [editingVariant, setEditingVariant] = useState<string | null>(null);
   const [productTiers, setProductTiers] = useState<Map<string, { tiers: PriceTier[], hasTieredPricing: boolean }>>(new Map());
   const [expandedDistributions, setExpandedDistributions] = useState<Set<string>>(new Set());
+  const [orderReference, setOrderReference] = useState(() => createPendingOrderReference());
+  const [couponCode, setCouponCode] = useState('');
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const [shippingConfig, setShippingConfig] = useState<ShippingConfig | null>(null);
+  const [wholesaleSettings, setWholesaleSettings] = useState<WholesaleSettings | null>(null);
+  const [sharingCart, setSharingCart] = useState(false);
+  const [sharedCartUrl, setSharedCartUrl] = useState<string | null>(null);
+  const [checkoutSettings, setCheckoutSettings] = useState<CheckoutSettings | null>(null);
+  const [checkoutStep, setCheckoutStep] = useState<'cart' | 'checkout'>('cart');
+  const [customer, setCustomer] = useState<CheckoutCustomer>({});
+  const [checkoutErrors, setCheckoutErrors] = useState<CheckoutFieldErrors>({});
+  const [pixSettings, setPixSettings] = useState<StorePixSettings | null>(null);
+  const [showPix, setShowPix] = useState(false);
+  const [messageTemplates, setMessageTemplates] = useState<WhatsAppMessageTemplates | null>(null);
+  const [quoteSettings, setQuoteSettings] = useState<QuoteSettings | null>(null);
+  const [quoteReference, setQuoteReference] = useState(() => createPendingQuoteReference());
+  const [installmentSettings, setInstallmentSettings] = useState<InstallmentSettings | null>(null);
+  const [selectedInstallments, setSelectedInstallments] = useState(1);
+  // Pending abandoned cart save, and whether a non-empty cart was saved
+  const abandonedCartSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const abandonedCartSavedRef = useRef(false);
+
+  // Number of the attendant that receives the order (store number when routing is off)
+  const cartCategories = [
+    ...cart.items.flatMap(item => item.category || []),
+    ...cart.distributions.flatMap(dist => dist.product.category || []),
+  ];
+  const { attendant, whatsapp: orderWhatsApp } = useStoreAttendant(corretor, cartCategories, open);
+
+  // A cart with any product sold by quote is sent as a quote request, without prices
+  const isQuote = isQuoteCart(cart.items, cart.distributions, quoteSettings);
+
+  // Wholesale minimums that must be met before the order can be sent; the
+  // minimum value cannot be checked before the seller prices a quote
+  const wholesaleViolations = validateWholesaleRules(
+    cart.items,
+    cart.distributions,
+    isQuote && wholesaleSettings ? { ...wholesaleSettings, min_order_value: null } : wholesaleSettings,
+    cart.subtotal
+  );
+
+  const shippingEnabled = !!shippingConfig?.settings?.is_enabled;
+
+  // The checkout form is an extra step between the cart and the WhatsApp redirect
+  const checkoutEnabled = isCheckoutFormEnabled(checkoutSettings);
+  const isCheckoutStep = checkoutEnabled && checkoutStep === 'checkout';
+  const checkoutCustomer = checkoutSettings && checkoutEnabled
+    ? buildCheckoutCustomer(customer, checkoutSettings)
+    : undefined;
+
+  // PIX is BRL only, and is left out when the customer chose another payment method
+  const pixPayload = useMemo(() => {
+    if (isQuote || !isStorePixEnabled(pixSettings) || currency !== 'BRL' || cart.total <= 0) return null;
+    if (checkoutCustomer?.payment_method && checkoutCustomer.payment_method !== 'pix') return null;
+    return generateOrderPixPayload(pixSettings, cart.total, orderReference.code);
+  }, [isQuote, pixSettings, currency, cart.total, checkoutCustomer?.payment_method, orderReference.code]);
+
+  // Installments only make sense for credit card payments
+  const installmentPlans = useMemo(() => {
+    if (isQuote) return [];
+    if (checkoutCustomer?.payment_method && checkoutCustomer.payment_method !== 'cartao_credito') return [];
+    return calculateInstallmentPlans(cart.total, installmentSettings);
+  }, [isQuote, checkoutCustomer?.payment_method, cart.total, installmentSettings]);
+
+  // Falls back to a single payment when the chosen plan is no longer available
+  const selectedInstallmentPlan = installmentPlans.find(plan => plan.installments === selectedInstallments && plan.installments > 1);
+
+  // Free shipping is checked against the value after the coupon discount
+  const shippingOptions = useMemo(() => {
+    if (!shippingConfig || !shippingEnabled || !isValidCep(cart.shippingCep || '')) return [];
+    return calculateShippingOptions(
+      cart.shippingCep || '',
+      shippingConfig.rules,
+      shippingConfig.settings,
+      cart.subtotal - cart.discount
+    );
+  }, [shippingConfig, shippingEnabled, cart.shippingCep, cart.subtotal, cart.discount]);
+
+  // Reason the applied coupon no longer gives a discount (e.g. cart below the minimum)
+  const couponWarning = cart.coupon && cart.discount === 0
+    ? validateCoupon(cart.coupon, buildCouponLines(cart.items, cart.distributions)).error
+    : undefined;
 
   useEffect(() => {
     const loadTieredPricing = async () => {
@@ -70,7 +201,7 @@ export default function CartModal({
           .single();
 
         if (product?.has_tiered_pricing) {
-          const tiers = await fetchProductPriceTiers(item.id);
+          const tiers = applyPriceListToTiers(await fetchProductPriceTiers(item.id), item.price_list_factor);
           tiersMap.set(item.id, { tiers, hasTieredPricing: true });
         } else {
           tiersMap.set(item.id, { tiers: [], hasTieredPricing: false });
@@ -85,6 +216,60 @@ export default function CartModal({
     }
   }, [cart.items.map(i => `${i.id}-${i.quantity}`).join(',')]);
 
+  useEffect(() => {
+    if (!open || !corretor.id) return;
+
+    fetchShippingConfig(corretor.id).then(setShippingConfig);
+    fetchWholesaleSettings(corretor.id).then(setWholesaleSettings);
+    fetchCheckoutSettings(corretor.id).then(setCheckoutSettings);
+    fetchStorePixSettings(corretor.id).then(setPixSettings);
+    fetchWhatsAppMessageTemplates(corretor.id).then(setMessageTemplates);
+    fetchQuoteSettings(corretor.id).then(setQuoteSettings);
+    fetchInstallmentSettings(corretor.id).then(setInstallmentSettings);
+  }, [open, corretor.id]);
+
+  useEffect(() => {
+    if (!open) {
+      setCheckoutStep('cart');
+      setShowPix(false);
+    }
+  }, [open]);
+
+  // Promotions may have ended and the coupon may no longer be valid since the
+  // items were added, so both are checked again before the order can be sent
+  useEffect(() => {
+    if (!open) return;
+
+    let active = true;
+    setRefreshingPrices(true);
+    Promise.all([refreshCartPrices(), refreshCoupon(corretor.id)])
+      .then(([changed]) => {
+        if (active && changed) {
+          toast.warning('Alguns preços mudaram desde que os produtos foram adicionados. Confira o carrinho.');
+        }
+      })
+      .finally(() => {
+        if (active) setRefreshingPrices(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [open, corretor.id, refreshCartPrices, refreshCoupon]);
+
+  // Keep the selected option in sync with the current cart (price changes when
+  // the free shipping threshold is crossed, option disappears when the CEP changes)
+  useEffect(() => {
+    if (!shippingConfig || !cart.shipping) return;
+
+    const current = shippingOptions.find(option => option.id === cart.shipping?.id);
+    if (!current) {
+      setShipping(null);
+    } else if (current !== cart.shipping && current.price !== cart.shipping.price) {
+      setShipping(current);
+    }
+  }, [shippingConfig, cart.shipping, shippingOptions, setShipping]);
+
   const generateOrderMessage = () => {
     return generateCartOrderMessage(
       cart.items,
@@ -93,31 +278,249 @@ export default function CartModal({
       corretor.slug || '',
       currency,
       language,
-      cart.distributions
+      cart.distributions,
+      {
+        orderCode: orderReference.code,
+        subtotal: cart.subtotal,
+        coupon: cart.coupon && cart.discount > 0 ? { code: cart.coupon.code, discount: cart.discount } : undefined,
+        shipping: cart.shipping
+          ? {
+              label: cart.shipping.label,
+              price: cart.shipping.price,
+              cep: cart.shipping.type === 'delivery' ? formatCep(cart.shippingCep || '') : undefined,
+              details: getShippingOptionDetails(cart.shipping),
+            }
+          : undefined,
+        customer: checkoutCustomer,
+        pixPayload: pixPayload || undefined,
+        installment: selectedInstallmentPlan ? formatInstallmentPlan(selectedInstallmentPlan, currency, language) : undefined,
+        template: getCustomMessageTemplate(messageTemplates, 'cart_order'),
+        distributionTemplate: getCustomMessageTemplate(messageTemplates, 'distribution'),
+      }
+    );
+  };
+
+  const generateQuoteMessage = () => {
+    return generateQuoteRequestMessage(
+      cart.items,
+      cart.distributions,
+      corretor.name,
+      corretor.slug || '',
+      quoteReference.code,
+      language,
+      checkoutCustomer
     );
   };
 
-  const handleSendOrder = async () => {
+  const handleStartCheckout = () => {
+    // Start the address with the CEP already used for the shipping quote
+    if (!customer.address?.cep && cart.shipping?.type === 'delivery' && cart.shippingCep) {
+      const found = lookupCep(cart.shippingCep);
+      setCustomer({
+        ...customer,
+        address: {
+          cep: cart.shippingCep,
+          street: '',
+          number: '',
+          city: found?.city || '',
+          state: found?.state || '',
+        },
+      });
+    }
+
+    setCheckoutErrors({});
+    setCheckoutStep('checkout');
+  };
+
+  const handleApplyCoupon = async () => {
+    if (!couponCode.trim()) return;
+
+    setApplyingCoupon(true);
+    const applied = await applyCoupon(corretor.id, couponCode);
+    setApplyingCoupon(false);
+
+    if (applied) {
+      setCouponCode('');
+    }
+  };
+
+  const handleShareCart = async () => {
+    if (!corretor.slug) return;
+
+    setSharingCart(true);
+    const code = await createSharedCart(corretor.id, cart.items, cart.distributions);
+    setSharingCart(false);
+
+    if (!code) {
+      toast.error('Erro ao compartilhar carrinho');
+      return;
+    }
+
+    const url = generateSharedCartUrl(corretor.slug, code);
+    setSharedCartUrl(url);
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link do carrinho copiado!');
+    } catch {
+      // Clipboard may be blocked; the link is still shown for manual copy
+    }
+  };
+
+  const copySharedCartUrl = async () => {
+    if (!sharedCartUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(sharedCartUrl);
+      toast.success('Link do carrinho copiado!');
+    } catch {
+      toast.error('Erro ao copiar link');
+    }
+  };
+
+  // The link is a snapshot, so it no longer matches once the cart changes
+  useEffect(() => {
+    setSharedCartUrl(null);
+  }, [cart.items, cart.distributions]);
+
+  // Cart activity is saved for the seller's abandoned cart list, with the
+  // contact once the visitor types it in the checkout form; debounced so
+  // typing and quantity changes are batched
+  useEffect(() => {
+    const isEmpty = cart.items.length === 0 && cart.distributions.length === 0;
+    if (!corretor.id || (isEmpty && !abandonedCartSavedRef.current)) return;
+
+    const contact = { name: customer.name, phone: customer.phone };
+    abandonedCartSaveRef.current = setTimeout(() => {
+      abandonedCartSaveRef.current = null;
+      abandonedCartSavedRef.current = !isEmpty;
+      saveAbandonedCart(corretor.id, contact, cart.items, cart.distributions);
+    }, ABANDONED_CART_SAVE_DELAY);
+
+    return () => {
+      if (abandonedCartSaveRef.current) clearTimeout(abandonedCartSaveRef.current);
+      abandonedCartSaveRef.current = null;
+    };
+  }, [corretor.id, customer.name, customer.phone, cart.items, cart.distributions]);
+
+  // Called from the WhatsApp link click. WhatsApp is only opened once the
+  // order (or the quote request) is stored, so its tracking link never points
+  // to an order that does not exist
+  const handleSendOrder = async (event: MouseEvent<HTMLAnchorElement>) => {
+    event.preventDefault();
     if (cart.items.length === 0 && cart.distributions.length === 0) return;
-    
+    if (wholesaleViolations.length > 0) return;
+
+    // The prices are still being checked again
+    if (refreshingPrices || sendingOrder) return;
+
+    if (isCheckoutStep && checkoutSettings) {
+      const errors = validateCheckoutCustomer(customer, checkoutSettings);
+      setCheckoutErrors(errors);
+
+      if (Object.keys(errors).length > 0) {
+        toast.error('Preencha os dados destacados para enviar o pedido');
+        return;
+      }
+    }
+
+    // Opened before any await so the browser does not block the popup
+    const whatsappWindow = window.open('', '_blank');
+    const message = isQuote ? generateQuoteMessage() : generateOrderMessage();
+
+    // A save still waiting for the debounce would reopen the converted cart
+    if (abandonedCartSaveRef.current) {
+      clearTimeout(abandonedCartSaveRef.current);
+      abandonedCartSaveRef.current = null;
+    }
+
     try {
       setSendingOrder(true);
-      
-      const orderMessage = generateOrderMessage();
-      const whatsappUrl = generateWhatsAppUrl(corretor.whatsapp || '', orderMessage);
-      
-      // Track the order as a WhatsApp lead
-      await trackWhatsAppClick('storefront', 'product', 'cart_checkout');
-      
-      // Open WhatsApp
-      window.open(whatsappUrl, '_blank');
-      
+
+      // Persist the order (or the quote request) before anything is sent
+      const result: CreateOrderResult = isQuote
+        ? { created: await createQuoteFromCart({
+            quoteId: quoteReference.quoteId,
+            code: quoteReference.code,
+            sellerId: corretor.id,
+            items: cart.items,
+            distributions: cart.distributions,
+            customer: checkoutCustomer,
+            currency,
+            language,
+          }) }
+        : await createOrderFromCart({
+            orderId: orderReference.orderId,
+            code: orderReference.code,
+            sellerId: corretor.id,
+            items: cart.items,
+            distributions: cart.distributions,
+            total: cart.total,
+            couponCode: cart.discount > 0 ? cart.coupon?.code : undefined,
+            discount: cart.discount,
+            shippingMethod: cart.shipping?.label,
+            shippingCost: cart.shipping?.price,
+            shippingCep: cart.shipping?.type === 'delivery' ? cart.shippingCep : undefined,
+            customer: checkoutCustomer,
+            currency,
+            language,
+            message,
+          });
+
+      if (!result.created) {
+        whatsappWindow?.close();
+        // The coupon was refused by the store, show why and reload it in the cart
+        if (result.couponError) {
+          toast.error(result.couponError);
+          await refreshCoupon(corretor.id);
+          return;
+        }
+        toast.error(isQuote
+          ? 'Não foi possível enviar o pedido de orçamento. Tente novamente.'
+          : 'Não foi possível registrar o pedido. Tente novamente.');
+        return;
+      }
+
+      abandonedCartSavedRef.current = false;
+
+      // Track it as a WhatsApp lead
+      await Promise.all([
+        markAbandonedCartConverted(corretor.id),
+        trackWhatsAppClick(
+          'storefront',
+          'product',
+          'cart_checkout',
+          hasCustomerData(checkoutCustomer)
+            ? {
+                name: checkoutCustomer.name,
+                phone: checkoutCustomer.phone,
+                message: isQuote ? `Orçamento ${quoteReference.code}` : `Pedido ${orderReference.code}`,
+              }
+            : undefined,
+          attendant?.id
+        ),
+      ]);
+
+      const whatsappUrl = generateWhatsAppUrl(orderWhatsApp || '', message);
+      if (whatsappWindow) {
+        whatsappWindow.location.href = whatsappUrl;
+      } else {
+        window.location.href = whatsappUrl;
+      }
+
       // Clear cart after sending
-      clearCart();
-      onOpenChange(false);
+      setTimeout(() => {
+        clearCart();
+        setOrderReference(createPendingOrderReference());
+        setQuoteReference(createPendingQuoteReference());
+        setCustomer({});
+        onOpenChange(false);
+      }, 100);
       
     } catch (error) {
       console.error('Error sending order:', error);
+      whatsappWindow?.close();
+      toast.error('Erro ao enviar o pedido');
     } finally {
       setSendingOrder(false);
     }
@@ -163,6 +566,8 @@ export default function CartModal({
           <DialogDescription>
             {cart.items.length === 0 && cart.distributions.length === 0
               ? 'Seu carrinho está vazio'
+              : isCheckoutStep
+              ? 'Preencha seus dados para enviar o pedido'
               : `${cart.itemCount} ${cart.itemCount === 1 ? 'item' : 'itens'} no carrinho`
             }
           </DialogDescription>
@@ -178,460 +583,727 @@ export default function CartModal({
         ) : (
           <>
             {/* Cart Items */}
-            <div className="flex-1 overflow-y-auto space-y-3 max-h-[400px]">
-              {/* Distribution Groups */}
-              {cart.distributions.map((dist) => {
-                const isExpanded = expandedDistributions.has(dist.distribution.id);
-                const totalPrice = dist.distribution.applied_tier_price * dist.distribution.total_quantity;
-
-                return (
-                  <div key={dist.distribution.id} className="border rounded-lg overflow-hidden">
-                    {/* Distribution Header */}
-                    <div
-                      className="flex gap-3 p-3 bg-blue-50 dark:bg-blue-950 border-b cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-900 transition-colors"
-                      onClick={() => {
-                        setExpandedDistributions(prev => {
-                          const newSet = new Set(prev);
-                          if (newSet.has(dist.distribution.id)) {
-                            newSet.delete(dist.distribution.id);
-                          } else {
-                            newSet.add(dist.distribution.id);
-                          }
-                          return newSet;
-                        });
-                      }}
-                    >
-                      <div className="w-16 h-16 bg-white rounded-lg overflow-hidden border border-gray-200 shadow-sm flex-shrink-0">
-                        <img
-                          src={dist.product.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
-                          alt={dist.product.title}
-                          className="w-full h-full object-cover"
-                        />
-                      </div>
+            {isCheckoutStep ? (
+              <div className="flex-1 overflow-y-auto max-h-[400px] px-1">
+                <CheckoutForm
+                  settings={checkoutSettings}
+                  value={customer}
+                  onChange={setCustomer}
+                  errors={checkoutErrors}
+                />
+              </div>
+            ) : (
+              <div className="flex-1 overflow-y-auto space-y-3 max-h-[400px]">
+                {/* Distribution Groups */}
+                {cart.distributions.map((dist) => {
+                  const isExpanded = expandedDistributions.has(dist.distribution.id);
+                  const totalPrice = dist.distribution.applied_tier_price * dist.distribution.total_quantity;
 
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-start justify-between mb-1">
-                          <h4 className="font-medium text-sm line-clamp-2">
-                            {dist.product.title}
-                          </h4>
-                          {isExpanded ? (
-                            <ChevronUp className="h-4 w-4 flex-shrink-0 ml-2" />
-                          ) : (
-                            <ChevronDown className="h-4 w-4 flex-shrink-0 ml-2" />
-                          )}
+                  return (
+                    <div key={dist.distribution.id} className="border rounded-lg overflow-hidden">
+                      {/* Distribution Header */}
+                      <div
+                        className="flex gap-3 p-3 bg-blue-50 dark:bg-blue-950 border-b cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-900 transition-colors"
+                        onClick={() => {
+                          setExpandedDistributions(prev => {
+                            const newSet = new Set(prev);
+                            if (newSet.has(dist.distribution.id)) {
+                              newSet.delete(dist.distribution.id);
+                            } else {
+                              newSet.add(dist.distribution.id);
+                            }
+                            return newSet;
+                          });
+                        }}
+                      >
+                        <div className="w-16 h-16 bg-white rounded-lg overflow-hidden border border-gray-200 shadow-sm flex-shrink-0">
+                          <img
+                            src={dist.product.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                            alt={dist.product.title}
+                            className="w-full h-full object-cover"
+                          />
                         </div>
 
-                        <div className="flex items-center gap-2 mb-2">
-                          <Badge className="bg-blue-600 text-white text-xs">
-                            <Package className="h-3 w-3 mr-1" />
-                            Distribuição
-                          </Badge>
-                          <Badge variant="outline" className="text-xs">
-                            {dist.distribution.total_quantity} unidades
-                          </Badge>
-                          <Badge variant="outline" className="text-xs">
-                            {dist.items.length} variações
-                          </Badge>
-                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-start justify-between mb-1">
+                            <h4 className="font-medium text-sm line-clamp-2">
+                              {dist.product.title}
+                            </h4>
+                            {isExpanded ? (
+                              <ChevronUp className="h-4 w-4 flex-shrink-0 ml-2" />
+                            ) : (
+                              <ChevronDown className="h-4 w-4 flex-shrink-0 ml-2" />
+                            )}
+                          </div>
 
-                        <div className="flex items-center justify-between">
-                          <div className="text-sm text-primary font-semibold">
-                            {formatCurrencyI18n(dist.distribution.applied_tier_price, currency, language)} / un
+                          <div className="flex items-center gap-2 mb-2">
+                            <Badge className="bg-blue-600 text-white text-xs">
+                              <Package className="h-3 w-3 mr-1" />
+                              Distribuição
+                            </Badge>
+                            <Badge variant="outline" className="text-xs">
+                              {dist.distribution.total_quantity} unidades
+                            </Badge>
+                            <Badge variant="outline" className="text-xs">
+                              {dist.items.length} variações
+                            </Badge>
                           </div>
-                          <div className="text-sm font-semibold">
-                            {formatCurrencyI18n(totalPrice, currency, language)}
+
+                          <div className="flex items-center justify-between">
+                            <div className="text-sm text-primary font-semibold">
+                              {isQuote ? QUOTE_PRICE_LABEL : `${formatCurrencyI18n(dist.distribution.applied_tier_price, currency, language)} / un`}
+                            </div>
+                            {!isQuote && (
+                              <div className="text-sm font-semibold">
+                                {formatCurrencyI18n(totalPrice, currency, language)}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
-                    </div>
 
-                    {/* Distribution Items (Expanded) */}
-                    {isExpanded && (
-                      <div className="p-3 space-y-2 bg-gray-50 dark:bg-gray-900">
-                        {dist.items.map((item) => (
-                          <div key={item.id} className="flex items-center gap-2 text-xs">
-                            <div className="flex-1 flex items-center gap-2">
-                              {item.color && (
-                                <div className="flex items-center gap-1">
-                                  <Palette className="h-3 w-3 text-muted-foreground" />
-                                  <span className="capitalize">{item.color}</span>
-                                </div>
-                              )}
-                              {item.size && (
-                                <div className="flex items-center gap-1">
-                                  <Ruler className="h-3 w-3 text-muted-foreground" />
-                                  <span>{item.size}</span>
-                                </div>
-                              )}
+                      {/* Distribution Items (Expanded) */}
+                      {isExpanded && (
+                        <div className="p-3 space-y-2 bg-gray-50 dark:bg-gray-900">
+                          {dist.items.map((item) => (
+                            <div key={item.id} className="flex items-center gap-2 text-xs">
+                              <div className="flex-1 flex items-center gap-2">
+                                {item.color && (
+                                  <div className="flex items-center gap-1">
+                                    <Palette className="h-3 w-3 text-muted-foreground" />
+                                    <span className="capitalize">{item.color}</span>
+                                  </div>
+                                )}
+                                {item.size && (
+                                  <div className="flex items-center gap-1">
+                                    <Ruler className="h-3 w-3 text-muted-foreground" />
+                                    <span>{item.size}</span>
+                                  </div>
+                                )}
+                              </div>
+                              <Badge variant="secondary" className="text-xs">
+                                {item.quantity}x
+                              </Badge>
                             </div>
-                            <Badge variant="secondary" className="text-xs">
-                              {item.quantity}x
-                            </Badge>
-                          </div>
-                        ))}
+                          ))}
 
-                        <Separator className="my-2" />
+                          <Separator className="my-2" />
 
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          className="w-full text-xs h-8"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            removeDistribution(dist.distribution.id);
-                          }}
-                        >
-                          <Trash2 className="h-3 w-3 mr-1" />
-                          Remover Distribuição
-                        </Button>
-                      </div>
-                    )}
-                  </div>
-                );
-              })}
-
-              {/* Regular Cart Items */}
-              {cart.items.map((item) => {
-                const tierInfo = productTiers.get(item.id);
-                const hasTieredPricing = item.has_tiered_pricing || tierInfo?.hasTieredPricing || false;
-                const tiers = tierInfo?.tiers || [];
-
-                // Use the stored applied tier price if available
-                let price = item.applied_tier_price || item.discounted_price || item.price;
-                let itemTotal = price * item.quantity;
-                let pricingInfo = null;
-
-                // Recalculate if tiered pricing is enabled and we have tiers
-                if (hasTieredPricing && tiers.length > 0) {
-                  const result = calculateApplicablePrice(
-                    item.quantity,
-                    tiers,
-                    item.price,
-                    item.discounted_price
-                  );
-                  price = result.unitPrice;
-                  itemTotal = result.totalPrice;
-                  pricingInfo = result;
-                }
-
-                return (
-                  <div key={item.id} className="flex gap-3 p-3 border rounded-lg">
-                    {/* Product Image */}
-                    <div className="w-16 h-16 bg-white rounded-lg overflow-hidden border border-gray-200 shadow-sm flex-shrink-0">
-                      <img
-                        src={item.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
-                        alt={item.title}
-                        className="w-full h-full object-cover"
-                      />
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            className="w-full text-xs h-8"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              removeDistribution(dist.distribution.id);
+                            }}
+                          >
+                            <Trash2 className="h-3 w-3 mr-1" />
+                            Remover Distribuição
+                          </Button>
+                        </div>
+                      )}
                     </div>
+                  );
+                })}
+
+                {/* Regular Cart Items */}
+                {cart.items.map((item) => {
+                  const tierInfo = productTiers.get(item.id);
+                  const hasTieredPricing = item.has_tiered_pricing || tierInfo?.hasTieredPricing || false;
+                  const tiers = tierInfo?.tiers || [];
+                  const quantityRules = getProductQuantityRules(item);
+                  const tierQuantity = getTierQuantity(item, item.quantity, tierGroups, cart.items, cart.distributions);
+
+                  // Use the stored applied tier price if available
+                  let price = item.applied_tier_price || item.discounted_price || item.price;
+                  let itemTotal = price * item.quantity;
+                  let pricingInfo = null;
 
-                    {/* Product Info */}
-                    <div className="flex-1 min-w-0">
-                      <h4 className="font-medium text-sm line-clamp-2 mb-1">
-                        {item.title}
-                      </h4>
-                      
-                      <div className="space-y-1 mb-2">
-                        <div className="flex items-center gap-2">
-                          <div className="text-sm text-primary font-semibold">
-                            {item.is_starting_price ? t('product.starting_from') + ' ' : ''}
-                            {formatCurrencyI18n(price, currency, language)}
+                  // Recalculate if tiered pricing is enabled and we have tiers
+                  if (hasTieredPricing && tiers.length > 0) {
+                    const result = calculateApplicablePrice(
+                      tierQuantity.quantity,
+                      tiers,
+                      item.price,
+                      item.discounted_price
+                    );
+                    price = result.unitPrice;
+                    itemTotal = result.unitPrice * item.quantity;
+                    // The tier may come from the whole group, savings are for this line only
+                    pricingInfo = {
+                      ...result,
+                      savings: ((item.discounted_price || item.price) - result.unitPrice) * item.quantity,
+                    };
+                  }
+
+                  return (
+                    <div key={item.id} className="flex gap-3 p-3 border rounded-lg">
+                      {/* Product Image */}
+                      <div className="w-16 h-16 bg-white rounded-lg overflow-hidden border border-gray-200 shadow-sm flex-shrink-0">
+                        <img
+                          src={item.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                          alt={item.title}
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
+
+                      {/* Product Info */}
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium text-sm line-clamp-2 mb-1">
+                          {item.title}
+                        </h4>
+                        
+                        <div className="space-y-1 mb-2">
+                          <div className="flex items-center gap-2">
+                            <div className="text-sm text-primary font-semibold">
+                              {isQuote ? QUOTE_PRICE_LABEL : (
+                                <>
+                                  {item.is_starting_price ? t('product.starting_from') + ' ' : ''}
+                                  {formatCurrencyI18n(price, currency, language)}
+                                </>
+                              )}
+                            </div>
+                            {hasTieredPricing && !isQuote && (
+                              <TooltipProvider>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Badge className="bg-blue-600 text-white text-xs cursor-help">
+                                      <TrendingDown className="h-3 w-3 mr-1" />
+                                      Preço Escalonado
+                                    </Badge>
+                                  </TooltipTrigger>
+                                  <TooltipContent>
+                                    <p className="text-xs">Preço calculado por quantidade</p>
+                                  </TooltipContent>
+                                </Tooltip>
+                              </TooltipProvider>
+                            )}
                           </div>
-                          {hasTieredPricing && (
-                            <TooltipProvider>
-                              <Tooltip>
-                                <TooltipTrigger asChild>
-                                  <Badge className="bg-blue-600 text-white text-xs cursor-help">
-                                    <TrendingDown className="h-3 w-3 mr-1" />
-                                    Preço Escalonado
-                                  </Badge>
-                                </TooltipTrigger>
-                                <TooltipContent>
-                                  <p className="text-xs">Preço calculado por quantidade</p>
-                                </TooltipContent>
-                              </Tooltip>
-                            </TooltipProvider>
+
+                          {hasQuantityRules(quantityRules) && (
+                            <div className="text-xs text-muted-foreground">
+                              {formatQuantityRules(quantityRules)}
+                            </div>
+                          )}
+
+                          {tierQuantity.group && hasTieredPricing && !isQuote && (
+                            <div className="text-xs text-muted-foreground">
+                              Preço pelo total de {tierQuantity.quantity} peças de {tierQuantity.group.name}
+                            </div>
                           )}
                         </div>
 
-                      </div>
+                        {pricingInfo && (pricingInfo.savings > 0 || (pricingInfo.nextTier && pricingInfo.unitsToNextTier > 0)) && (
+                          <div className="mb-2">
+                            <TieredPricingIndicator
+                              currentQuantity={tierQuantity.quantity}
+                              nextTierQuantity={pricingInfo.nextTier?.min_quantity || 0}
+                              nextTierSavings={pricingInfo.nextTierSavings}
+                              appliedTierSavings={pricingInfo.savings}
+                              groupName={tierQuantity.group?.name}
+                              currency={currency}
+                              language={language}
+                            />
+                          </div>
+                        )}
 
-                      {pricingInfo && (pricingInfo.savings > 0 || (pricingInfo.nextTier && pricingInfo.unitsToNextTier > 0)) && (
-                        <div className="mb-2">
-                          <TieredPricingIndicator
-                            currentQuantity={item.quantity}
-                            nextTierQuantity={pricingInfo.nextTier?.quantity || 0}
-                            nextTierSavings={pricingInfo.nextTierSavings}
-                            appliedTierSavings={pricingInfo.savings}
-                            currency={currency}
-                            language={language}
-                          />
-                        </div>
-                      )}
+                        {/* Selected Variant Display */}
+                        {(item.selectedColor || item.selectedSize) && (
+                          <div className="mb-2">
+                            {editingVariant === item.variantId ? (
+                              <div className="space-y-2">
+                                {/* Color Selection */}
+                                {item.availableColors && item.availableColors.length > 0 && (
+                                  <div className="space-y-1">
+                                    <Label className="text-xs">Cor</Label>
+                                    <Select
+                                      value={item.selectedColor || ''}
+                                      onValueChange={(value) => {
+                                        updateVariantOptions(item.variantId!, value || undefined, item.selectedSize);
+                                        setEditingVariant(null);
+                                      }}
+                                    >
+                                      <SelectTrigger className="h-8 text-xs">
+                                        <SelectValue placeholder="Selecionar cor">
+                                          {item.selectedColor && (
+                                            <div className="flex items-center gap-2">
+                                              <div 
+                                                className="w-3 h-3 rounded-full border border-gray-300"
+                                                style={{ backgroundColor: getColorValue(item.selectedColor) }}
+                                              />
+                                              <span className="capitalize">{item.selectedColor}</span>
+                                            </div>
+                                          )}
+                                        </SelectValue>
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {item.availableColors.map((color) => (
+                                          <SelectItem key={color} value={color}>
+                                            <div className="flex items-center gap-2">
+                                              <div 
+                                                className="w-3 h-3 rounded-full border border-gray-300"
+                                                style={{ backgroundColor: getColorValue(color) }}
+                                              />
+                                              <span className="capitalize">{color}</span>
+                                            </div>
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                )}
 
-                      {/* Selected Variant Display */}
-                      {(item.selectedColor || item.selectedSize) && (
+                                {/* Size Selection */}
+                                {item.availableSizes && item.availableSizes.length > 0 && (
+                                  <div className="space-y-1">
+                                    <Label className="text-xs">Tamanho</Label>
+                                    <Select
+                                      value={item.selectedSize || ''}
+                                      onValueChange={(value) => {
+                                        updateVariantOptions(item.variantId!, item.selectedColor, value || undefined);
+                                        setEditingVariant(null);
+                                      }}
+                                    >
+                                      <SelectTrigger className="h-8 text-xs">
+                                        <SelectValue placeholder="Selecionar tamanho">
+                                          {item.selectedSize && (
+                                            <div className="flex items-center gap-2">
+                                              <span className="font-medium">{item.selectedSize}</span>
+                                              {(() => {
+                                                const numericSize = parseInt(item.selectedSize);
+                                                if (!isNaN(numericSize) && numericSize >= 17 && numericSize <= 43) {
+                                                  return null;
+                                                } else if (['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(item.selectedSize)) {
+                                                  return <Badge variant="outline" className="text-xs">Vestuário</Badge>;
+                                                } else {
+                                                  return <Badge variant="outline" className="text-xs">Personalizado</Badge>;
+                                                }
+                                              })()}
+                                            </div>
+                                          )}
+                                        </SelectValue>
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {item.availableSizes.map((size) => {
+                                          const numericSize = parseInt(size);
+                                          const isShoeSize = !isNaN(numericSize) && numericSize >= 17 && numericSize <= 43;
+                                          const isApparelSize = ['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(size);
+                                          
+                                          return (
+                                          <SelectItem key={size} value={size}>
+                                            <div className="flex items-center gap-2">
+                                              <span className="font-medium">{size}</span>
+                                              {isShoeSize && (
+                                                null
+                                              )}
+                                              {isApparelSize && (
+                                                <Badge variant="outline" className="text-xs">Vestuário</Badge>
+                                              )}
+                                              {!isShoeSize && !isApparelSize && (
+                                                <Badge variant="outline" className="text-xs">Personalizado</Badge>
+                                              )}
+                                            </div>
+                                          </SelectItem>
+                                          );
+                                        })}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                )}
+                              </div>
+                            ) : (
+                              <div 
+                                className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer hover:text-foreground transition-colors"
+                                onClick={() => setEditingVariant(item.variantId!)}
+                              >
+                                {item.selectedColor && (
+                                  <div className="flex items-center gap-1">
+                                    <Palette className="h-3 w-3" />
+                                    <div 
+                                      className="w-3 h-3 rounded-full border border-gray-300"
+                                      style={{ backgroundColor: getColorValue(item.selectedColor) }}
+                                    />
+                                    <span className="capitalize">{item.selectedColor}</span>
+                                  </div>
+                                )}
+                                {item.selectedSize && (
+                                  <div className="flex items-center gap-1">
+                                    <Ruler className="h-3 w-3" />
+                                    <span>{item.selectedSize}</span>
+                                  </div>
+                                )}
+                                <Edit3 className="h-3 w-3 ml-1" />
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        {/* Notes Section */}
                         <div className="mb-2">
-                          {editingVariant === item.variantId ? (
+                          {editingNotes === item.variantId ? (
                             <div className="space-y-2">
-                              {/* Color Selection */}
-                              {item.availableColors && item.availableColors.length > 0 && (
-                                <div className="space-y-1">
-                                  <Label className="text-xs">Cor</Label>
-                                  <Select
-                                    value={item.selectedColor || ''}
-                                    onValueChange={(value) => {
-                                      updateVariantOptions(item.variantId!, value || undefined, item.selectedSize);
-                                      setEditingVariant(null);
-                                    }}
-                                  >
-                                    <SelectTrigger className="h-8 text-xs">
-                                      <SelectValue placeholder="Selecionar cor">
-                                        {item.selectedColor && (
-                                          <div className="flex items-center gap-2">
-                                            <div 
-                                              className="w-3 h-3 rounded-full border border-gray-300"
-                                              style={{ backgroundColor: getColorValue(item.selectedColor) }}
-                                            />
-                                            <span className="capitalize">{item.selectedColor}</span>
-                                          </div>
-                                        )}
-                                      </SelectValue>
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                      {item.availableColors.map((color) => (
-                                        <SelectItem key={color} value={color}>
-                                          <div className="flex items-center gap-2">
-                                            <div 
-                                              className="w-3 h-3 rounded-full border border-gray-300"
-                                              style={{ backgroundColor: getColorValue(color) }}
-                                            />
-                                            <span className="capitalize">{color}</span>
-                                          </div>
-                                        </SelectItem>
-                                      ))}
-                                    </SelectContent>
-                                  </Select>
-                                </div>
-                              )}
-
-                              {/* Size Selection */}
-                              {item.availableSizes && item.availableSizes.length > 0 && (
-                                <div className="space-y-1">
-                                  <Label className="text-xs">Tamanho</Label>
-                                  <Select
-                                    value={item.selectedSize || ''}
-                                    onValueChange={(value) => {
-                                      updateVariantOptions(item.variantId!, item.selectedColor, value || undefined);
-                                      setEditingVariant(null);
-                                    }}
-                                  >
-                                    <SelectTrigger className="h-8 text-xs">
-                                      <SelectValue placeholder="Selecionar tamanho">
-                                        {item.selectedSize && (
-                                          <div className="flex items-center gap-2">
-                                            <span className="font-medium">{item.selectedSize}</span>
-                                            {(() => {
-                                              const numericSize = parseInt(item.selectedSize);
-                                              if (!isNaN(numericSize) && numericSize >= 17 && numericSize <= 43) {
-                                                return null;
-                                              } else if (['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(item.selectedSize)) {
-                                                return <Badge variant="outline" className="text-xs">Vestuário</Badge>;
-                                              } else {
-                                                return <Badge variant="outline" className="text-xs">Personalizado</Badge>;
-                                              }
-                                            })()}
-                                          </div>
-                                        )}
-                                      </SelectValue>
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                      {item.availableSizes.map((size) => {
-                                        const numericSize = parseInt(size);
-                                        const isShoeSize = !isNaN(numericSize) && numericSize >= 17 && numericSize <= 43;
-                                        const isApparelSize = ['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(size);
-                                        
-                                        return (
-                                        <SelectItem key={size} value={size}>
-                                          <div className="flex items-center gap-2">
-                                            <span className="font-medium">{size}</span>
-                                            {isShoeSize && (
-                                              null
-                                            )}
-                                            {isApparelSize && (
-                                              <Badge variant="outline" className="text-xs">Vestuário</Badge>
-                                            )}
-                                            {!isShoeSize && !isApparelSize && (
-                                              <Badge variant="outline" className="text-xs">Personalizado</Badge>
-                                            )}
-                                          </div>
-                                        </SelectItem>
-                                        );
-                                      })}
-                                    </SelectContent>
-                                  </Select>
-                                </div>
-                              )}
+                              <Label className="text-xs">Observação (cor, tamanho, etc.)</Label>
+                              <Input
+                                placeholder="Ex: Cor preta, tamanho M"
+                                defaultValue={item.notes || ''}
+                                className="text-xs h-8"
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') {
+                                    const input = e.target as HTMLInputElement;
+                                    updateVariantNotes(item.variantId!, input.value);
+                                    setEditingNotes(null);
+                                  }
+                                  if (e.key === 'Escape') {
+                                    setEditingNotes(null);
+                                  }
+                                }}
+                                onBlur={(e) => {
+                                  updateVariantNotes(item.variantId!, e.target.value);
+                                  setEditingNotes(null);
+                                }}
+                                autoFocus
+                              />
                             </div>
                           ) : (
                             <div 
-                              className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer hover:text-foreground transition-colors"
-                              onClick={() => setEditingVariant(item.variantId!)}
+                              className="text-xs text-muted-foreground cursor-pointer hover:text-foreground transition-colors min-h-[16px] flex items-center gap-1"
+                              onClick={() => setEditingNotes(item.variantId!)}
                             >
-                              {item.selectedColor && (
-                                <div className="flex items-center gap-1">
-                                  <Palette className="h-3 w-3" />
-                                  <div 
-                                    className="w-3 h-3 rounded-full border border-gray-300"
-                                    style={{ backgroundColor: getColorValue(item.selectedColor) }}
-                                  />
-                                  <span className="capitalize">{item.selectedColor}</span>
-                                </div>
-                              )}
-                              {item.selectedSize && (
-                                <div className="flex items-center gap-1">
-                                  <Ruler className="h-3 w-3" />
-                                  <span>{item.selectedSize}</span>
-                                </div>
-                              )}
-                              <Edit3 className="h-3 w-3 ml-1" />
+                              <Edit3 className="h-3 w-3" />
+                              {item.notes ? item.notes : 'Adicionar observação'}
                             </div>
                           )}
                         </div>
-                      )}
 
-                      {/* Notes Section */}
-                      <div className="mb-2">
-                        {editingNotes === item.variantId ? (
-                          <div className="space-y-2">
-                            <Label className="text-xs">Observação (cor, tamanho, etc.)</Label>
-                            <Input
-                              placeholder="Ex: Cor preta, tamanho M"
-                              defaultValue={item.notes || ''}
-                              className="text-xs h-8"
-                              onKeyDown={(e) => {
-                                if (e.key === 'Enter') {
-                                  const input = e.target as HTMLInputElement;
-                                  updateVariantNotes(item.variantId!, input.value);
-                                  setEditingNotes(null);
-                                }
-                                if (e.key === 'Escape') {
-                                  setEditingNotes(null);
-                                }
-                              }}
-                              onBlur={(e) => {
-                                updateVariantNotes(item.variantId!, e.target.value);
-                                setEditingNotes(null);
-                              }}
-                              autoFocus
-                            />
-                          </div>
-                        ) : (
-                          <div 
-                            className="text-xs text-muted-foreground cursor-pointer hover:text-foreground transition-colors min-h-[16px] flex items-center gap-1"
-                            onClick={() => setEditingNotes(item.variantId!)}
-                          >
-                            <Edit3 className="h-3 w-3" />
-                            {item.notes ? item.notes : 'Adicionar observação'}
+                        {/* Quantity Controls */}
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-8 w-8 p-0"
+                              onClick={() => updateVariantQuantity(item.variantId!, item.quantity - quantityRules.multiple)}
+                            >
+                              <Minus className="h-3 w-3" />
+                            </Button>
+                            <span className="text-sm font-medium w-8 text-center">
+                              {item.quantity}
+                            </span>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-8 w-8 p-0"
+                              onClick={() => updateVariantQuantity(item.variantId!, item.quantity + quantityRules.multiple)}
+                            >
+                              <Plus className="h-3 w-3" />
+                            </Button>
                           </div>
-                        )}
-                      </div>
 
-                      {/* Quantity Controls */}
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="h-8 w-8 p-0"
-                            onClick={() => updateVariantQuantity(item.variantId!, item.quantity - 1)}
-                          >
-                            <Minus className="h-3 w-3" />
-                          </Button>
-                          <span className="text-sm font-medium w-8 text-center">
-                            {item.quantity}
-                          </span>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="h-8 w-8 p-0"
-                            onClick={() => updateVariantQuantity(item.variantId!, item.quantity + 1)}
-                          >
-                            <Plus className="h-3 w-3" />
-                          </Button>
-                        </div>
-
-                        <div className="flex items-center gap-2">
-                          <span className="text-sm font-semibold">
-                            {formatCurrencyI18n(itemTotal, currency, language)}
-                          </span>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            className="h-8 w-8 p-0 text-destructive hover:text-destructive"
-                            onClick={() => removeCartVariant(item.variantId!)}
-                          >
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
+                          <div className="flex items-center gap-2">
+                            {!isQuote && (
+                              <span className="text-sm font-semibold">
+                                {formatCurrencyI18n(itemTotal, currency, language)}
+                              </span>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                              onClick={() => removeCartVariant(item.variantId!)}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                );
-              })}
-            </div>
+                  );
+                })}
+              </div>
+            )}
 
             <Separator />
 
             {/* Cart Summary */}
             <div className="space-y-4">
+              {!isCheckoutStep && !isQuote && (
+                <>
+                  {/* Coupon */}
+                  {cart.coupon ? (
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between p-2 border rounded-lg bg-green-50 dark:bg-green-950">
+                        <div className="flex items-center gap-2 text-sm">
+                          <Ticket className="h-4 w-4 text-green-600" />
+                          <span className="font-medium">{cart.coupon.code}</span>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0"
+                          onClick={removeCoupon}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {couponWarning && (
+                        <p className="text-xs text-destructive">{couponWarning}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Cupom de desconto"
+                        value={couponCode}
+                        onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => e.key === 'Enter' && handleApplyCoupon()}
+                        className="h-9"
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-9"
+                        onClick={handleApplyCoupon}
+                        disabled={!couponCode.trim() || applyingCoupon}
+                      >
+                        {applyingCoupon ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Aplicar'}
+                      </Button>
+                    </div>
+                  )}
+
+                  {/* Shipping */}
+                  {shippingEnabled && (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Truck className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                        <Input
+                          placeholder="CEP para calcular o frete"
+                          inputMode="numeric"
+                          value={formatCep(cart.shippingCep || '')}
+                          onChange={(e) => setShipping(null, normalizeCep(e.target.value))}
+                          className="h-9"
+                        />
+                      </div>
+
+                      {isValidCep(cart.shippingCep || '') && (
+                        shippingOptions.length === 0 ? (
+                          <p className="text-xs text-muted-foreground">
+                            Nenhuma opção de entrega para este CEP. Combine o frete com o vendedor.
+                          </p>
+                        ) : (
+                          <div className="space-y-1">
+                            {shippingOptions.map((option) => {
+                              const isSelected = cart.shipping?.id === option.id;
+                              const details = getShippingOptionDetails(option);
+
+                              return (
+                                <button
+                                  key={option.id}
+                                  type="button"
+                                  onClick={() => setShipping(isSelected ? null : option)}
+                                  className={`w-full flex items-center justify-between gap-2 p-2 border rounded-lg text-left text-sm transition-colors ${
+                                    isSelected ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+                                  }`}
+                                >
+                                  <div className="flex items-center gap-2 min-w-0">
+                                    {option.type === 'pickup' ? (
+                                      <Store className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                                    ) : (
+                                      <Truck className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                                    )}
+                                    <div className="min-w-0">
+                                      <div className="font-medium">{option.label}</div>
+                                      {details && (
+                                        <div className="text-xs text-muted-foreground truncate">{details}</div>
+                                      )}
+                                    </div>
+                                  </div>
+                                  <span className={`font-semibold flex-shrink-0 ${option.price === 0 ? 'text-green-600' : ''}`}>
+                                    {option.price === 0 ? 'Grátis' : formatCurrencyI18n(option.price, currency, language)}
+                                  </span>
+                                </button>
+                              );
+                            })}
+                          </div>
+                        )
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+
+              {!isQuote && (cart.discount > 0 || cart.shipping) && (
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Subtotal:</span>
+                    <span>{formatCurrencyI18n(cart.subtotal, currency, language)}</span>
+                  </div>
+                  {cart.discount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Desconto:</span>
+                      <span>-{formatCurrencyI18n(cart.discount, currency, language)}</span>
+                    </div>
+                  )}
+                  {cart.shipping && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Frete ({cart.shipping.label}):</span>
+                      <span>
+                        {cart.shipping.price === 0 ? 'Grátis' : formatCurrencyI18n(cart.shipping.price, currency, language)}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="flex justify-between items-center">
                 <span className="text-lg font-semibold">Total:</span>
                 <span className="text-xl font-bold text-primary">
-                  {formatCurrencyI18n(cart.total, currency, language)}
+                  {isQuote ? QUOTE_PRICE_LABEL : formatCurrencyI18n(cart.total, currency, language)}
                 </span>
               </div>
 
+              {installmentPlans.length > 1 && (
+                <div className="space-y-1">
+                  <Label htmlFor="cart-installments" className="text-sm">Parcelamento</Label>
+                  <Select
+                    value={String(selectedInstallmentPlan?.installments ?? 1)}
+                    onValueChange={(value) => setSelectedInstallments(Number(value))}
+                  >
+                    <SelectTrigger id="cart-installments" className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {installmentPlans.map((plan) => (
+                        <SelectItem key={plan.installments} value={String(plan.installments)}>
+                          {plan.installments === 1
+                            ? `À vista ${formatCurrencyI18n(plan.total, currency, language)}`
+                            : `${formatInstallmentPlan(plan, currency, language)} (${formatCurrencyI18n(plan.total, currency, language)})`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {isQuote && (
+                <p className="text-xs text-muted-foreground">
+                  Os preços e condições serão enviados pelo vendedor em resposta ao seu orçamento.
+                </p>
+              )}
+
+              {/* PIX */}
+              {pixPayload && pixSettings && wholesaleViolations.length === 0 && (
+                showPix ? (
+                  <PixPaymentCard
+                    payload={pixPayload}
+                    formattedAmount={formatCurrencyI18n(cart.total, currency, language)}
+                    merchantName={pixSettings.merchant_name}
+                  />
+                ) : (
+                  <Button variant="outline" size="sm" className="w-full" onClick={() => setShowPix(true)}>
+                    <QrCode className="h-4 w-4 mr-2" />
+                    Pagar com PIX
+                  </Button>
+                )
+              )}
+
+              {wholesaleViolations.length > 0 && (
+                <div className="p-3 border border-amber-200 rounded-lg bg-amber-50 dark:bg-amber-950 dark:border-amber-900 space-y-1">
+                  <div className="flex items-center gap-2 text-sm font-medium text-amber-800 dark:text-amber-200">
+                    <AlertCircle className="h-4 w-4" />
+                    Para enviar o pedido:
+                  </div>
+                  <ul className="text-xs text-amber-800 dark:text-amber-200 space-y-0.5 list-disc pl-5">
+                    {wholesaleViolations.map((violation) => (
+                      <li key={violation.message}>{violation.message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Share Cart */}
+              {corretor.slug && !isCheckoutStep && (
+                sharedCartUrl ? (
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 truncate text-xs bg-muted px-2 py-1.5 rounded">{sharedCartUrl}</code>
+                    <Button size="sm" variant="outline" className="h-8" onClick={copySharedCartUrl}>
+                      <Copy className="h-3 w-3 mr-1" />
+                      Copiar
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full"
+                    onClick={handleShareCart}
+                    disabled={sharingCart}
+                  >
+                    {sharingCart ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Share2 className="h-4 w-4 mr-2" />
+                    )}
+                    Compartilhar carrinho
+                  </Button>
+                )
+              )}
+
               {/* Action Buttons */}
               <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  onClick={clearCart}
-                  className="flex-1"
-                >
-                  Limpar Carrinho
-                </Button>
+                {isCheckoutStep ? (
+                  <Button
+                    variant="outline"
+                    onClick={() => setCheckoutStep('cart')}
+                    className="flex-1"
+                  >
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Voltar
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    onClick={clearCart}
+                    className="flex-1"
+                  >
+                    Limpar Carrinho
+                  </Button>
+                )}
                 
-                {corretor.whatsapp && (
+                {orderWhatsApp && wholesaleViolations.length > 0 && (
+                  <Button disabled className="flex-1">
+                    <MessageCircle className="h-4 w-4 mr-2" />
+                    {isQuote ? 'Solicitar Orçamento' : 'Enviar Pedido'}
+                  </Button>
+                )}
+
+                {orderWhatsApp && wholesaleViolations.length === 0 && checkoutEnabled && !isCheckoutStep && (
+                  <Button className="flex-1" onClick={handleStartCheckout}>
+                    <ClipboardList className="h-4 w-4 mr-2" />
+                    Continuar
+                  </Button>
+                )}
+
+                {orderWhatsApp && wholesaleViolations.length === 0 && (!checkoutEnabled || isCheckoutStep) && (
                   <Button
-                    onClick={handleSendOrder}
-                    disabled={sendingOrder}
+                    disabled={sendingOrder || refreshingPrices}
                     className="flex-1"
                    asChild
                   >
                     <a
-                      href={generateWhatsAppUrl(corretor.whatsapp || '', generateOrderMessage())}
+                      href={generateWhatsAppUrl(orderWhatsApp || '', isQuote ? generateQuoteMessage() : generateOrderMessage())}
                       target="_blank"
                       rel="noopener noreferrer"
-                      onClick={async (e) => {
-                        // Track the order as a WhatsApp lead
-                        await trackWhatsAppClick('storefront', 'product', 'cart_checkout');
-                        
-                        // Clear cart after sending
-                        setTimeout(() => {
-                          clearCart();
-                          onOpenChange(false);
-                        }, 100);
-                      }}
+                      onClick={handleSendOrder}
                     >
                       <MessageCircle className="h-4 w-4 mr-2" />
-                      Enviar Pedido
+                      {isQuote ? 'Solicitar Orçamento' : 'Enviar Pedido'}
                     </a>
                   </Button>
                 )}
               </div>
 
-              {!corretor.whatsapp && (
+              {!orderWhatsApp && (
                 <p className="text-xs text-muted-foreground text-center">
                   WhatsApp não configurado para este vendedor
                 </p>
@@ -0,0 +1,225 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PhoneInput } from '@/components/ui/phone-input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BRAZILIAN_STATES, lookupCep } from '@/lib/cepRegions';
+import { formatCep } from '@/lib/shippingUtils';
+import {
+  formatCpf,
+  PAYMENT_METHOD_LABELS,
+  type CheckoutFieldErrors,
+  type CheckoutSettingsInput,
+} from '@/lib/checkoutUtils';
+import type { CheckoutCustomer, CustomerAddress, PaymentMethod } from '@/types';
+
+interface CheckoutFormProps {
+  settings: CheckoutSettingsInput;
+  value: CheckoutCustomer;
+  onChange: (value: CheckoutCustomer) => void;
+  errors: CheckoutFieldErrors;
+}
+
+const EMPTY_ADDRESS: CustomerAddress = {
+  cep: '',
+  street: '',
+  number: '',
+  complement: '',
+  neighborhood: '',
+  city: '',
+  state: '',
+};
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-destructive">{message}</p>;
+}
+
+export default function CheckoutForm({ settings, value, onChange, errors }: CheckoutFormProps) {
+  const address = value.address || EMPTY_ADDRESS;
+
+  const updateAddress = (changes: Partial<CustomerAddress>) => {
+    onChange({ ...value, address: { ...address, ...changes } });
+  };
+
+  // Fill state and city from the local CEP dataset; streets are typed by the customer
+  const handleCepChange = (cep: string) => {
+    const found = lookupCep(cep);
+    updateAddress({
+      cep,
+      ...(found && {
+        state: found.state,
+        city: found.city || (address.state === found.state ? address.city : ''),
+      }),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {settings.collect_name && (
+        <div className="space-y-1">
+          <Label htmlFor="checkout-name">Nome completo</Label>
+          <Input
+            id="checkout-name"
+            autoComplete="name"
+            value={value.name || ''}
+            onChange={(e) => onChange({ ...value, name: e.target.value })}
+          />
+          <FieldError message={errors.name} />
+        </div>
+      )}
+
+      {settings.collect_phone && (
+        <div className="space-y-1">
+          <Label htmlFor="checkout-phone">Telefone / WhatsApp</Label>
+          <PhoneInput
+            id="checkout-phone"
+            autoComplete="tel"
+            value={value.phone || ''}
+            onChange={(phone) => onChange({ ...value, phone })}
+          />
+          <FieldError message={errors.phone} />
+        </div>
+      )}
+
+      {settings.collect_cpf && (
+        <div className="space-y-1">
+          <Label htmlFor="checkout-cpf">CPF</Label>
+          <Input
+            id="checkout-cpf"
+            inputMode="numeric"
+            placeholder="000.000.000-00"
+            value={formatCpf(value.cpf || '')}
+            onChange={(e) => onChange({ ...value, cpf: e.target.value })}
+          />
+          <FieldError message={errors.cpf} />
+        </div>
+      )}
+
+      {settings.collect_address && (
+        <div className="space-y-3 pt-1">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="checkout-cep">CEP</Label>
+              <Input
+                id="checkout-cep"
+                inputMode="numeric"
+                autoComplete="postal-code"
+                placeholder="00000-000"
+                value={formatCep(address.cep)}
+                onChange={(e) => handleCepChange(e.target.value)}
+              />
+              <FieldError message={errors.cep} />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="checkout-city">Cidade</Label>
+              <Input
+                id="checkout-city"
+                autoComplete="address-level2"
+                value={address.city}
+                onChange={(e) => updateAddress({ city: e.target.value })}
+              />
+              <FieldError message={errors.city} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label>Estado</Label>
+              <Select value={address.state} onValueChange={(state) => updateAddress({ state })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="UF" />
+                </SelectTrigger>
+                <SelectContent>
+                  {BRAZILIAN_STATES.map((state) => (
+                    <SelectItem key={state} value={state}>{state}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={errors.state} />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="checkout-neighborhood">Bairro</Label>
+              <Input
+                id="checkout-neighborhood"
+                value={address.neighborhood || ''}
+                onChange={(e) => updateAddress({ neighborhood: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="checkout-street">Rua</Label>
+              <Input
+                id="checkout-street"
+                autoComplete="address-line1"
+                value={address.street}
+                onChange={(e) => updateAddress({ street: e.target.value })}
+              />
+              <FieldError message={errors.street} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="checkout-number">Número</Label>
+              <Input
+                id="checkout-number"
+                value={address.number}
+                onChange={(e) => updateAddress({ number: e.target.value })}
+              />
+              <FieldError message={errors.number} />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="checkout-complement">Complemento (opcional)</Label>
+            <Input
+              id="checkout-complement"
+              autoComplete="address-line2"
+              value={address.complement || ''}
+              onChange={(e) => updateAddress({ complement: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      {settings.collect_payment_method && settings.payment_methods.length > 0 && (
+        <div className="space-y-1">
+          <Label>Forma de pagamento</Label>
+          <Select
+            value={value.payment_method || ''}
+            onValueChange={(method) => onChange({ ...value, payment_method: method as PaymentMethod })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Escolha uma opção" />
+            </SelectTrigger>
+            <SelectContent>
+              {settings.payment_methods.map((method) => (
+                <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FieldError message={errors.payment_method} />
+        </div>
+      )}
+
+      {settings.collect_delivery_notes && (
+        <div className="space-y-1">
+          <Label htmlFor="checkout-notes">Observações de entrega (opcional)</Label>
+          <Textarea
+            id="checkout-notes"
+            placeholder="Ex: entregar após as 14h, portão azul"
+            className="min-h-[60px]"
+            value={value.delivery_notes || ''}
+            onChange={(e) => onChange({ ...value, delivery_notes: e.target.value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
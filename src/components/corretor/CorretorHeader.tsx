@@ -7,6 +7,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { getInitials, generateWhatsAppUrl, formatWhatsAppForDisplay } from '@/lib/utils';
 import type { User } from '@/types';
 import { trackWhatsAppClick, STOREFRONT_UUID } from '@/lib/tracking';
+import { useStoreAttendant } from '@/hooks/useStoreAttendant';
 import { useTranslation, generateWhatsAppMessage, type SupportedLanguage } from '@/lib/i18n';
 import { useCart } from '@/contexts/CartContext';
 import { useState } from 'react';
@@ -34,7 +35,8 @@ export default function CorretorHeader({ corretor, language = 'pt-BR', currency
 
   // Generate WhatsApp URL using the centralized function
   const whatsappMessage = generateWhatsAppMessage(language, corretor.name);
-  const whatsappUrl = corretor.whatsapp ? generateWhatsAppUrl(corretor.whatsapp, whatsappMessage) : '';
+  const { attendant, whatsapp } = useStoreAttendant(corretor);
+  const whatsappUrl = whatsapp ? generateWhatsAppUrl(whatsapp, whatsappMessage) : '';
 
   console.log('CorretorHeader - corretor.whatsapp:', corretor.whatsapp);
   console.log('CorretorHeader - generated URL:', whatsappUrl);
@@ -43,7 +45,7 @@ export default function CorretorHeader({ corretor, language = 'pt-BR', currency
 
   const handleWhatsAppClick = async () => {
     // Track the WhatsApp click as a lead for the general storefront
-    await trackWhatsAppClick(STOREFRONT_UUID, 'product', 'header_social');
+    await trackWhatsAppClick(STOREFRONT_UUID, 'product', 'header_social', undefined, attendant?.id);
   };
 
   const getRoleLabel = () => {
@@ -127,7 +129,7 @@ export default function CorretorHeader({ corretor, language = 'pt-BR', currency
               </Button>
             )}
             
-            {corretor.whatsapp && whatsappUrl !== '#' && (
+            {whatsapp && whatsappUrl !== '#' && (
               <Button 
                 size="icon" 
                 variant="outline"
@@ -0,0 +1,43 @@
+import { QRCodeSVG } from 'qrcode.react';
+import { Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+
+interface PixPaymentCardProps {
+  payload: string;
+  formattedAmount: string;
+  merchantName: string;
+}
+
+export default function PixPaymentCard({ payload, formattedAmount, merchantName }: PixPaymentCardProps) {
+  const copyPayload = async () => {
+    try {
+      await navigator.clipboard.writeText(payload);
+      toast.success('Código PIX copiado!');
+    } catch {
+      toast.error('Erro ao copiar código');
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 border rounded-lg">
+      <div className="flex justify-center">
+        <div className="bg-white p-2 rounded-lg">
+          <QRCodeSVG value={payload} size={160} />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground text-center">
+        {formattedAmount} para {merchantName}. Escaneie o QR code ou copie o código no app do seu banco.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <code className="flex-1 truncate text-xs bg-muted px-2 py-1.5 rounded">{payload}</code>
+        <Button size="sm" variant="outline" className="h-8" onClick={copyPayload}>
+          <Copy className="h-3 w-3 mr-1" />
+          Copiar
+        </Button>
+      </div>
+    </div>
+  );
+}
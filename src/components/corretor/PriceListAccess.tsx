@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { BadgePercent, Clock, KeyRound, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PhoneInput } from '@/components/ui/phone-input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatCnpj, isValidCnpj, type PriceListAccessRequest } from '@/lib/priceListUtils';
+import type { PriceListCustomerStatus, StorefrontPriceList } from '@/types';
+
+interface PriceListAccessProps {
+  available: boolean;
+  status: PriceListCustomerStatus | null;
+  priceList: StorefrontPriceList | null;
+  onUnlockWithCode: (code: string) => Promise<boolean>;
+  onRequestAccess: (request: PriceListAccessRequest) => Promise<boolean>;
+  onLeave: () => void;
+}
+
+const EMPTY_REQUEST: PriceListAccessRequest = {
+  name: '',
+  companyName: '',
+  cnpj: '',
+  phone: '',
+  email: '',
+};
+
+export default function PriceListAccess({
+  available,
+  status,
+  priceList,
+  onUnlockWithCode,
+  onRequestAccess,
+  onLeave
+}: PriceListAccessProps) {
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState('');
+  const [request, setRequest] = useState<PriceListAccessRequest>(EMPTY_REQUEST);
+  const [cnpjError, setCnpjError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  if (!available && !priceList) return null;
+
+  const handleUnlock = async () => {
+    setSubmitting(true);
+    const success = await onUnlockWithCode(code);
+    setSubmitting(false);
+
+    if (success) {
+      setCode('');
+      setOpen(false);
+    }
+  };
+
+  const handleRequest = async () => {
+    if (!isValidCnpj(request.cnpj)) {
+      setCnpjError('CNPJ inválido');
+      return;
+    }
+
+    setCnpjError('');
+    setSubmitting(true);
+    const success = await onRequestAccess(request);
+    setSubmitting(false);
+
+    if (success) {
+      setRequest(EMPTY_REQUEST);
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 pt-3">
+      {priceList ? (
+        <div className="flex items-center justify-between gap-2 rounded-lg border border-primary/20 bg-primary/5 px-3 py-2 text-sm">
+          <span className="flex items-center gap-2">
+            <BadgePercent className="h-4 w-4 text-primary flex-shrink-0" />
+            Você está vendo os preços da tabela <strong>{priceList.name}</strong>
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onLeave}>
+            <X className="h-4 w-4 mr-1" />
+            Sair
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 rounded-lg border px-3 py-2 text-sm">
+          <span className="flex items-center gap-2 text-muted-foreground">
+            {status === 'pendente' ? (
+              <>
+                <Clock className="h-4 w-4 flex-shrink-0" />
+                Seu cadastro está em análise. Os preços especiais aparecem assim que o vendedor aprovar.
+              </>
+            ) : status === 'recusado' ? (
+              <>
+                <BadgePercent className="h-4 w-4 flex-shrink-0" />
+                Seu cadastro não foi aprovado. Fale com o vendedor ou use um código de acesso.
+              </>
+            ) : (
+              <>
+                <BadgePercent className="h-4 w-4 flex-shrink-0" />
+                Revendedor ou atacadista? Acesse a tabela de preços especiais.
+              </>
+            )}
+          </span>
+          <Button variant="outline" size="sm" className="h-8" onClick={() => setOpen(true)}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            {status === 'pendente' ? 'Tenho um código' : 'Acessar tabela'}
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Tabela de preços especiais</DialogTitle>
+            <DialogDescription>
+              Informe o código recebido do vendedor ou cadastre sua empresa para aprovação
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs defaultValue="code">
+            <TabsList className="w-full">
+              <TabsTrigger value="code" className="flex-1">Código de acesso</TabsTrigger>
+              <TabsTrigger value="register" className="flex-1" disabled={status === 'pendente'}>
+                Cadastro com CNPJ
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="code" className="space-y-3 pt-2">
+              <div className="space-y-1">
+                <Label htmlFor="price-list-code">Código</Label>
+                <Input
+                  id="price-list-code"
+                  placeholder="Ex: ATACADO2024"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.toUpperCase())}
+                  onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                />
+              </div>
+              <Button className="w-full" onClick={handleUnlock} disabled={!code.trim() || submitting}>
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Liberar preços
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="register" className="space-y-3 pt-2">
+              <div className="space-y-1">
+                <Label htmlFor="price-list-name">Seu nome</Label>
+                <Input
+                  id="price-list-name"
+                  autoComplete="name"
+                  value={request.name}
+                  onChange={(e) => setRequest({ ...request, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="price-list-company">Razão social / Nome da loja</Label>
+                <Input
+                  id="price-list-company"
+                  autoComplete="organization"
+                  value={request.companyName}
+                  onChange={(e) => setRequest({ ...request, companyName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="price-list-cnpj">CNPJ</Label>
+                <Input
+                  id="price-list-cnpj"
+                  inputMode="numeric"
+                  placeholder="00.000.000/0000-00"
+                  value={formatCnpj(request.cnpj)}
+                  onChange={(e) => setRequest({ ...request, cnpj: e.target.value })}
+                />
+                {cnpjError && <p className="text-xs text-destructive">{cnpjError}</p>}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="price-list-phone">Telefone / WhatsApp</Label>
+                <PhoneInput
+                  id="price-list-phone"
+                  autoComplete="tel"
+                  value={request.phone}
+                  onChange={(phone) => setRequest({ ...request, phone })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="price-list-email">E-mail (opcional)</Label>
+                <Input
+                  id="price-list-email"
+                  type="email"
+                  autoComplete="email"
+                  value={request.email}
+                  onChange={(e) => setRequest({ ...request, email: e.target.value })}
+                />
+              </div>
+              <Button
+                className="w-full"
+                onClick={handleRequest}
+                disabled={!request.name.trim() || !request.cnpj || submitting}
+              >
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Enviar cadastro
+              </Button>
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { Loader2, Ticket } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { CategorySelector } from '@/components/ui/category-selector';
+import { ProductSelector } from '@/components/ui/product-selector';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { COUPON_DISCOUNT_TYPE_LABELS, normalizeCouponCode, type CouponInput } from '@/lib/couponUtils';
+import type { Coupon } from '@/types';
+
+const couponSchema = z.object({
+  code: z.string()
+    .trim()
+    .min(3, 'O código deve ter pelo menos 3 caracteres')
+    .max(30, 'O código deve ter no máximo 30 caracteres')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Use apenas letras, números, hífen e sublinhado'),
+  description: z.string().optional(),
+  discount_type: z.enum(['percentage', 'fixed']),
+  discount_value: z.coerce.number().positive('O desconto deve ser maior que zero'),
+  min_order_value: z.coerce.number().min(0).optional(),
+  category_restrictions: z.array(z.string()).default([]),
+  product_restrictions: z.array(z.string()).default([]),
+  starts_at: z.string().optional(),
+  expires_at: z.string().optional(),
+  usage_limit: z.coerce.number().int('O limite deve ser um número inteiro').min(0).optional(),
+  is_active: z.boolean().default(true),
+}).refine(
+  (data) => data.discount_type !== 'percentage' || data.discount_value <= 100,
+  { message: 'A porcentagem deve ser no máximo 100%', path: ['discount_value'] }
+).refine(
+  (data) => !data.starts_at || !data.expires_at || data.expires_at >= data.starts_at,
+  { message: 'A data final deve ser posterior à data inicial', path: ['expires_at'] }
+);
+
+type CouponFormData = z.infer<typeof couponSchema>;
+
+interface CouponFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  coupon?: Coupon | null;
+  userId?: string;
+  onSave: (coupon: CouponInput, couponId?: string) => Promise<boolean>;
+}
+
+const toDateInput = (value?: string | null) => (value ? format(new Date(value), 'yyyy-MM-dd') : '');
+
+const getDefaultValues = (coupon?: Coupon | null): CouponFormData => ({
+  code: coupon?.code || '',
+  description: coupon?.description || '',
+  discount_type: coupon?.discount_type || 'percentage',
+  discount_value: coupon?.discount_value || 10,
+  min_order_value: coupon?.min_order_value ?? undefined,
+  category_restrictions: coupon?.category_restrictions || [],
+  product_restrictions: coupon?.product_restrictions || [],
+  starts_at: toDateInput(coupon?.starts_at),
+  expires_at: toDateInput(coupon?.expires_at),
+  usage_limit: coupon?.usage_limit ?? undefined,
+  is_active: coupon?.is_active ?? true,
+});
+
+export default function CouponFormDialog({
+  open,
+  onOpenChange,
+  coupon,
+  userId,
+  onSave
+}: CouponFormDialogProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<CouponFormData>({
+    resolver: zodResolver(couponSchema),
+    defaultValues: getDefaultValues(coupon),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues(coupon));
+    }
+  }, [open, coupon, form]);
+
+  const discountType = form.watch('discount_type');
+
+  const handleSubmit = async (data: CouponFormData) => {
+    setSaving(true);
+
+    const success = await onSave({
+      code: normalizeCouponCode(data.code),
+      description: data.description?.trim() || null,
+      discount_type: data.discount_type,
+      discount_value: data.discount_value,
+      min_order_value: data.min_order_value || null,
+      category_restrictions: data.category_restrictions,
+      product_restrictions: data.product_restrictions,
+      // Dates are picked as whole days in the seller's timezone
+      starts_at: data.starts_at ? new Date(`${data.starts_at}T00:00:00`).toISOString() : null,
+      expires_at: data.expires_at ? new Date(`${data.expires_at}T23:59:59`).toISOString() : null,
+      usage_limit: data.usage_limit || null,
+      is_active: data.is_active,
+    }, coupon?.id);
+
+    setSaving(false);
+
+    if (success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ticket className="h-5 w-5" />
+            {coupon ? 'Editar Cupom' : 'Novo Cupom'}
+          </DialogTitle>
+          <DialogDescription>
+            Os clientes informam o código no carrinho da vitrine para receber o desconto
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Código</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Ex: BEMVINDO10"
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descrição (opcional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Campanha de boas-vindas" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discount_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de desconto</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(COUPON_DISCOUNT_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="discount_value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{discountType === 'percentage' ? 'Desconto (%)' : 'Desconto (R$)'}</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="min_order_value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pedido mínimo (R$)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Sem mínimo"
+                        {...field}
+                        value={field.value ?? ''}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="usage_limit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Limite de usos</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="1"
+                        placeholder="Ilimitado"
+                        {...field}
+                        value={field.value ?? ''}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="starts_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Válido a partir de</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="expires_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Válido até</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="category_restrictions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Categorias</FormLabel>
+                  <CategorySelector value={field.value} onChange={field.onChange} userId={userId} />
+                  <FormDescription>
+                    Deixe categorias e produtos vazios para aplicar o cupom ao carrinho inteiro
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="product_restrictions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Produtos</FormLabel>
+                  <ProductSelector value={field.value} onChange={field.onChange} userId={userId} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Cupom ativo</FormLabel>
+                    <FormDescription>Cupons inativos não são aceitos no carrinho</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saving}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar Cupom
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,298 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Plus, Pencil, Trash2, Headset } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAttendants } from '@/hooks/useAttendants';
+import { formatPhone } from '@/lib/utils';
+import {
+  ATTENDANT_TIMEZONES,
+  DEFAULT_ATTENDANT_TIMEZONE,
+  formatWorkingHours,
+} from '@/lib/attendantUtils';
+import AttendantFormDialog from '@/components/attendants/AttendantFormDialog';
+import type { StoreAttendant } from '@/types';
+
+export default function AttendantsSettingsContent() {
+  const { user } = useAuth();
+  const {
+    settings,
+    attendants,
+    leadCounts,
+    leadCountDays,
+    loading,
+    updateSettings,
+    upsertAttendant,
+    toggleAttendant,
+    removeAttendant,
+  } = useAttendants(user?.id);
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [routeByCategory, setRouteByCategory] = useState(false);
+  const [routeByBusinessHours, setRouteByBusinessHours] = useState(false);
+  const [timezone, setTimezone] = useState(DEFAULT_ATTENDANT_TIMEZONE);
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingAttendant, setEditingAttendant] = useState<StoreAttendant | null>(null);
+  const [attendantToDelete, setAttendantToDelete] = useState<StoreAttendant | null>(null);
+
+  useEffect(() => {
+    setIsEnabled(settings?.is_enabled ?? false);
+    setRouteByCategory(settings?.route_by_category ?? false);
+    setRouteByBusinessHours(settings?.route_by_business_hours ?? false);
+    setTimezone(settings?.timezone || DEFAULT_ATTENDANT_TIMEZONE);
+  }, [settings]);
+
+  const handleSaveSettings = async () => {
+    setSaving(true);
+    await updateSettings({
+      is_enabled: isEnabled,
+      route_by_category: routeByCategory,
+      route_by_business_hours: routeByBusinessHours,
+      timezone,
+    });
+    setSaving(false);
+  };
+
+  const openCreateForm = () => {
+    setEditingAttendant(null);
+    setFormOpen(true);
+  };
+
+  const openEditForm = (attendant: StoreAttendant) => {
+    setEditingAttendant(attendant);
+    setFormOpen(true);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!attendantToDelete) return;
+    await removeAttendant(attendantToDelete.id);
+    setAttendantToDelete(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Routing Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Distribuição de atendimento</CardTitle>
+          <CardDescription>
+            Os botões de WhatsApp da vitrine direcionam cada cliente para um dos atendentes, em rodízio
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="attendants-enabled">Distribuir entre atendentes</Label>
+              <p className="text-sm text-muted-foreground">
+                Quando desativado, todos os contatos vão para o WhatsApp do seu perfil
+              </p>
+            </div>
+            <Switch id="attendants-enabled" checked={isEnabled} onCheckedChange={setIsEnabled} />
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="route-by-category">Atendimento por categoria</Label>
+              <p className="text-sm text-muted-foreground">
+                Prioriza os atendentes das categorias do produto ou do carrinho
+              </p>
+            </div>
+            <Switch id="route-by-category" checked={routeByCategory} onCheckedChange={setRouteByCategory} />
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="route-by-business-hours">Respeitar horário de atendimento</Label>
+              <p className="text-sm text-muted-foreground">
+                Prioriza quem está em horário de trabalho. Fora do horário de todos, o rodízio continua normalmente
+              </p>
+            </div>
+            <Switch id="route-by-business-hours" checked={routeByBusinessHours} onCheckedChange={setRouteByBusinessHours} />
+          </div>
+
+          {routeByBusinessHours && (
+            <div className="space-y-2">
+              <Label>Fuso horário</Label>
+              <Select value={timezone} onValueChange={setTimezone}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ATTENDANT_TIMEZONES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={handleSaveSettings} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {saving ? 'Salvando...' : 'Salvar Configurações'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Attendants */}
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Atendentes</CardTitle>
+            <CardDescription>
+              Contatos recebidos por cada atendente nos últimos {leadCountDays} dias
+            </CardDescription>
+          </div>
+          <Button onClick={openCreateForm}>
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Atendente
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {attendants.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <Headset className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold">Nenhum atendente cadastrado</h3>
+              <p className="text-muted-foreground max-w-md">
+                Cadastre os vendedores da sua equipe para dividir os contatos do WhatsApp.
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>WhatsApp</TableHead>
+                  <TableHead>Categorias</TableHead>
+                  <TableHead>Horário</TableHead>
+                  <TableHead className="text-center">Contatos</TableHead>
+                  <TableHead className="text-center">Ativo</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attendants.map((attendant) => (
+                  <TableRow key={attendant.id}>
+                    <TableCell className="font-medium">{attendant.name}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatPhone(attendant.whatsapp)}</TableCell>
+                    <TableCell>
+                      {attendant.categories.length > 0 ? (
+                        <div className="flex flex-wrap gap-1">
+                          {attendant.categories.map((category) => (
+                            <Badge key={category} variant="secondary">{category}</Badge>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Todas</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatWorkingHours(attendant.working_hours)}</TableCell>
+                    <TableCell className="text-center">{leadCounts[attendant.id] || 0}</TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={attendant.is_active}
+                        onCheckedChange={(checked) => toggleAttendant(attendant.id, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => openEditForm(attendant)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          onClick={() => setAttendantToDelete(attendant)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AttendantFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        attendant={editingAttendant}
+        userId={user?.id}
+        nextDisplayOrder={attendants.length}
+        onSave={upsertAttendant}
+      />
+
+      <AlertDialog open={!!attendantToDelete} onOpenChange={(open) => !open && setAttendantToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir atendente</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir {attendantToDelete?.name}? Os contatos já recebidos continuam registrados, mas deixam de contar para este atendente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
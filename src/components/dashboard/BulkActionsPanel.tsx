@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Trash2, Eye, EyeOff, Edit3, X, Tag, ImageIcon } from 'lucide-react';
+import { Trash2, Eye, EyeOff, Edit3, X, Tag, ImageIcon, Timer, DollarSign, ListOrdered } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -25,29 +25,52 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import PromotionFormDialog from '@/components/promotions/PromotionFormDialog';
+import { BulkPriceAdjustmentDialog } from '@/components/dashboard/BulkPriceAdjustmentDialog';
 import { supabase } from '@/lib/supabase';
 import { getCroppedImg } from '@/lib/image';
+import type { PromotionInput } from '@/lib/promotionUtils';
+import type { PriceAdjustment, ProductPriceAdjustment } from '@/lib/priceAdjustmentUtils';
+import { fetchTierTemplates, TIER_TEMPLATE_PRICING_LABELS } from '@/lib/tierTemplateUtils';
+import type { TierTemplate } from '@/types';
 
 interface BulkActionsPanelProps {
   selectedCount: number;
+  selectedProductIds: string[];
   onClearSelection: () => void;
   onBulkVisibilityToggle: (visible: boolean) => Promise<void>;
   onBulkCategoryChange: (categories: string[]) => Promise<void>;
   onBulkBrandChange: (brand: string) => Promise<void>;
   onBulkDelete: () => Promise<void>;
   onBulkImageCompression: () => Promise<void>;
+  onBulkPromotionCreate: (promotion: PromotionInput) => Promise<boolean>;
+  onBulkPriceAdjustmentPreview: (adjustment: PriceAdjustment) => Promise<ProductPriceAdjustment[]>;
+  onBulkPriceAdjustment: (adjustments: ProductPriceAdjustment[]) => Promise<boolean>;
+  onBulkTierTemplateApply: (template: TierTemplate) => Promise<boolean>;
   loading: boolean;
   userId?: string;
 }
 
 export function BulkActionsPanel({
   selectedCount,
+  selectedProductIds,
   onClearSelection,
   onBulkVisibilityToggle,
   onBulkCategoryChange,
   onBulkBrandChange,
   onBulkDelete,
   onBulkImageCompression,
+  onBulkPromotionCreate,
+  onBulkPriceAdjustmentPreview,
+  onBulkPriceAdjustment,
+  onBulkTierTemplateApply,
   loading,
   userId
 }: BulkActionsPanelProps) {
@@ -56,6 +79,11 @@ export function BulkActionsPanel({
   const [newBrand, setNewBrand] = useState<string>('');
   const [showCategoryDialog, setShowCategoryDialog] = useState(false);
   const [showBrandDialog, setShowBrandDialog] = useState(false);
+  const [showPromotionDialog, setShowPromotionDialog] = useState(false);
+  const [showPriceDialog, setShowPriceDialog] = useState(false);
+  const [showTierTemplateDialog, setShowTierTemplateDialog] = useState(false);
+  const [tierTemplates, setTierTemplates] = useState<TierTemplate[]>([]);
+  const [selectedTierTemplateId, setSelectedTierTemplateId] = useState('');
 
   useEffect(() => {
     if (userId) {
@@ -63,6 +91,12 @@ export function BulkActionsPanel({
     }
   }, [userId]);
 
+  useEffect(() => {
+    if (userId && showTierTemplateDialog) {
+      fetchTierTemplates(userId).then(setTierTemplates);
+    }
+  }, [userId, showTierTemplateDialog]);
+
   const fetchCategories = async () => {
     try {
       const { data, error } = await supabase
@@ -93,6 +127,17 @@ export function BulkActionsPanel({
     setNewBrand('');
     setShowBrandDialog(false);
   };
+
+  const handleTierTemplateApply = async () => {
+    const template = tierTemplates.find(t => t.id === selectedTierTemplateId);
+    if (!template) return;
+
+    const success = await onBulkTierTemplateApply(template);
+    if (success) {
+      setSelectedTierTemplateId('');
+      setShowTierTemplateDialog(false);
+    }
+  };
   if (selectedCount === 0) return null;
 
   return (
@@ -243,6 +288,114 @@ export function BulkActionsPanel({
             </Dialog>
             <Separator orientation="vertical" className="h-6" />
 
+            {/* Price Adjustment */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowPriceDialog(true)}
+              disabled={loading}
+              className="flex items-center gap-2"
+            >
+              <DollarSign className="h-4 w-4" />
+              Reajustar Preços
+            </Button>
+            <BulkPriceAdjustmentDialog
+              open={showPriceDialog}
+              onOpenChange={setShowPriceDialog}
+              selectedCount={selectedCount}
+              onPreview={onBulkPriceAdjustmentPreview}
+              onApply={onBulkPriceAdjustment}
+              loading={loading}
+            />
+
+            {/* Tier Template */}
+            <Dialog open={showTierTemplateDialog} onOpenChange={setShowTierTemplateDialog}>
+              <DialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={loading}
+                  className="flex items-center gap-2"
+                >
+                  <ListOrdered className="h-4 w-4" />
+                  Aplicar Modelo de Faixas
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Aplicar Modelo de Faixas</DialogTitle>
+                  <DialogDescription>
+                    Os {selectedCount} produtos selecionados passam a usar as faixas do modelo e
+                    acompanham as alterações feitas nele. As faixas atuais serão substituídas.
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                  {tierTemplates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      Nenhum modelo cadastrado. Crie um em Modelos de Faixas.
+                    </p>
+                  ) : (
+                    <Select value={selectedTierTemplateId} onValueChange={setSelectedTierTemplateId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione um modelo" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tierTemplates.map(template => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name} ({TIER_TEMPLATE_PRICING_LABELS[template.pricing_type]})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  <p className="text-sm text-muted-foreground">
+                    Nos modelos com desconto, o preço base de cada produto é o preço atual ou o da primeira faixa.
+                  </p>
+
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setShowTierTemplateDialog(false);
+                        setSelectedTierTemplateId('');
+                      }}
+                    >
+                      Cancelar
+                    </Button>
+                    <Button
+                      onClick={handleTierTemplateApply}
+                      disabled={!selectedTierTemplateId || loading}
+                    >
+                      Aplicar Modelo
+                    </Button>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+
+            {/* Scheduled Promotion */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowPromotionDialog(true)}
+              disabled={loading}
+              className="flex items-center gap-2"
+            >
+              <Timer className="h-4 w-4" />
+              Criar Promoção
+            </Button>
+            <PromotionFormDialog
+              open={showPromotionDialog}
+              onOpenChange={setShowPromotionDialog}
+              initialProductIds={selectedProductIds}
+              userId={userId}
+              onSave={onBulkPromotionCreate}
+            />
+
+            <Separator orientation="vertical" className="h-6" />
+
             {/* Image Compression */}
             <Button
               variant="outline"
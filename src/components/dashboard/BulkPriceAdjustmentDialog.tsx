@@ -0,0 +1,292 @@
+import { useEffect, useState } from 'react';
+import { ArrowRight, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  PRICE_ROUNDING_OPTIONS,
+  type PriceAdjustment,
+  type PriceAdjustmentMode,
+  type PriceChange,
+  type PriceRounding,
+  type ProductPriceAdjustment,
+} from '@/lib/priceAdjustmentUtils';
+
+interface BulkPriceAdjustmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedCount: number;
+  onPreview: (adjustment: PriceAdjustment) => Promise<ProductPriceAdjustment[]>;
+  onApply: (adjustments: ProductPriceAdjustment[]) => Promise<boolean>;
+  loading: boolean;
+}
+
+function PriceChangeLabel({ change }: { change?: PriceChange }) {
+  if (!change) return <span className="text-muted-foreground">—</span>;
+
+  return (
+    <span className="inline-flex items-center gap-1 whitespace-nowrap">
+      <span className="text-muted-foreground line-through">{formatCurrency(change.before)}</span>
+      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+      <span className={change.after > change.before ? 'text-red-600' : 'text-green-600'}>
+        {formatCurrency(change.after)}
+      </span>
+    </span>
+  );
+}
+
+export function BulkPriceAdjustmentDialog({
+  open,
+  onOpenChange,
+  selectedCount,
+  onPreview,
+  onApply,
+  loading
+}: BulkPriceAdjustmentDialogProps) {
+  const [direction, setDirection] = useState<'increase' | 'decrease'>('increase');
+  const [mode, setMode] = useState<PriceAdjustmentMode>('percentage');
+  const [value, setValue] = useState('');
+  const [rounding, setRounding] = useState<PriceRounding>('none');
+  const [applyToDiscountedPrice, setApplyToDiscountedPrice] = useState(true);
+  const [applyToTiers, setApplyToTiers] = useState(true);
+  const [preview, setPreview] = useState<ProductPriceAdjustment[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setValue('');
+      setPreview(null);
+    }
+  }, [open]);
+
+  const amount = Number(value);
+  const canPreview = Number.isFinite(amount) && amount > 0 && !(mode === 'percentage' && direction === 'decrease' && amount >= 100);
+
+  const handlePreview = async () => {
+    if (!canPreview) return;
+
+    setPreviewing(true);
+    try {
+      setPreview(await onPreview({
+        mode,
+        value: direction === 'increase' ? amount : -amount,
+        rounding,
+        applyToDiscountedPrice,
+        applyToTiers,
+      }));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  // Products flagged by the preview are listed but never saved
+  const applicable = preview?.filter(change => !change.issue) ?? [];
+  const blockedCount = (preview?.length ?? 0) - applicable.length;
+
+  const handleApply = async () => {
+    if (applicable.length === 0) return;
+
+    const applied = await onApply(applicable);
+    if (applied) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Reajustar Preços em Massa</DialogTitle>
+          <DialogDescription>
+            Aumente ou reduza os preços dos {selectedCount} produtos selecionados.
+            Confira a prévia antes de aplicar.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview === null ? (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Reajuste</Label>
+                <Select value={direction} onValueChange={(v) => setDirection(v as 'increase' | 'decrease')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="increase">Aumentar</SelectItem>
+                    <SelectItem value="decrease">Reduzir</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select value={mode} onValueChange={(v) => setMode(v as PriceAdjustmentMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Porcentagem (%)</SelectItem>
+                    <SelectItem value="fixed">Valor fixo (R$)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price-adjustment-value">
+                  {mode === 'percentage' ? 'Porcentagem' : 'Valor'}
+                </Label>
+                <Input
+                  id="price-adjustment-value"
+                  type="number"
+                  min="0"
+                  step={mode === 'percentage' ? '0.1' : '0.01'}
+                  placeholder={mode === 'percentage' ? '10' : '5,00'}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Arredondamento</Label>
+              <Select value={rounding} onValueChange={(v) => setRounding(v as PriceRounding)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRICE_ROUNDING_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="price-adjustment-discounted"
+                  checked={applyToDiscountedPrice}
+                  onCheckedChange={(checked) => setApplyToDiscountedPrice(checked === true)}
+                />
+                <Label htmlFor="price-adjustment-discounted" className="font-normal">
+                  Reajustar também os preços promocionais
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="price-adjustment-tiers"
+                  checked={applyToTiers}
+                  onCheckedChange={(checked) => setApplyToTiers(checked === true)}
+                />
+                <Label htmlFor="price-adjustment-tiers" className="font-normal">
+                  Reajustar também as faixas de preço por quantidade
+                </Label>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button onClick={handlePreview} disabled={!canPreview || previewing}>
+                {previewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Ver Prévia
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {preview.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">
+                Nenhum preço muda com este reajuste.
+              </p>
+            ) : (
+              <div className="max-h-[50vh] overflow-y-auto rounded-lg border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Produto</TableHead>
+                      <TableHead>Preço</TableHead>
+                      <TableHead>Promocional</TableHead>
+                      <TableHead>Faixas</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.map((change) => (
+                      <TableRow key={change.productId} className={cn(change.issue && 'bg-destructive/5')}>
+                        <TableCell className="font-medium">
+                          {change.title}
+                          {change.issue && (
+                            <p className="text-xs font-normal text-destructive">{change.issue}</p>
+                          )}
+                        </TableCell>
+                        <TableCell><PriceChangeLabel change={change.price} /></TableCell>
+                        <TableCell><PriceChangeLabel change={change.discounted_price} /></TableCell>
+                        <TableCell className="text-sm">
+                          {change.tiers.length === 0 ? (
+                            <span className="text-muted-foreground">—</span>
+                          ) : (
+                            <div className="space-y-1">
+                              {change.tiers.map((tier) => (
+                                <div key={tier.tierId} className="flex items-center gap-2">
+                                  <span className="text-muted-foreground">{tier.min_quantity}+</span>
+                                  <PriceChangeLabel change={tier.unit_price ?? tier.discounted_unit_price} />
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {blockedCount > 0 && (
+              <p className="text-sm text-destructive">
+                {blockedCount} produto{blockedCount !== 1 ? 's' : ''} não {blockedCount !== 1 ? 'serão reajustados' : 'será reajustado'} porque o preço ficaria inválido
+              </p>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={loading}>
+                Voltar
+              </Button>
+              <Button onClick={handleApply} disabled={applicable.length === 0 || loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Aplicar em {applicable.length} produto{applicable.length !== 1 ? 's' : ''}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
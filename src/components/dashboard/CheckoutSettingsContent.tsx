@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_CHECKOUT_SETTINGS,
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_LABELS,
+  fetchCheckoutSettings,
+  saveCheckoutSettings,
+  type CheckoutSettingsInput,
+} from '@/lib/checkoutUtils';
+import type { PaymentMethod } from '@/types';
+
+type CollectField =
+  | 'collect_name'
+  | 'collect_phone'
+  | 'collect_cpf'
+  | 'collect_address'
+  | 'collect_payment_method'
+  | 'collect_delivery_notes';
+
+const COLLECT_FIELDS: Array<{ key: CollectField; label: string; description: string }> = [
+  { key: 'collect_name', label: 'Nome', description: 'Nome completo do cliente' },
+  { key: 'collect_phone', label: 'Telefone', description: 'Telefone ou WhatsApp com DDD' },
+  { key: 'collect_cpf', label: 'CPF', description: 'Útil para emissão de nota fiscal' },
+  { key: 'collect_address', label: 'Endereço', description: 'Cidade e estado são preenchidos a partir do CEP' },
+  { key: 'collect_payment_method', label: 'Forma de pagamento', description: 'O cliente escolhe entre as opções abaixo' },
+  { key: 'collect_delivery_notes', label: 'Observações de entrega', description: 'Campo livre e opcional' },
+];
+
+export default function CheckoutSettingsContent() {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [settings, setSettings] = useState<CheckoutSettingsInput>(DEFAULT_CHECKOUT_SETTINGS);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadSettings = async () => {
+      const data = await fetchCheckoutSettings(user.id);
+      if (data) {
+        setSettings({
+          is_enabled: data.is_enabled,
+          collect_name: data.collect_name,
+          collect_phone: data.collect_phone,
+          collect_cpf: data.collect_cpf,
+          collect_address: data.collect_address,
+          collect_payment_method: data.collect_payment_method,
+          collect_delivery_notes: data.collect_delivery_notes,
+          payment_methods: data.payment_methods,
+        });
+      }
+      setLoading(false);
+    };
+
+    loadSettings();
+  }, [user?.id]);
+
+  const togglePaymentMethod = (method: PaymentMethod, checked: boolean) => {
+    setSettings((current) => ({
+      ...current,
+      payment_methods: checked
+        ? PAYMENT_METHODS.filter(item => item === method || current.payment_methods.includes(item))
+        : current.payment_methods.filter(item => item !== method),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    if (settings.collect_payment_method && settings.payment_methods.length === 0) {
+      toast.error('Escolha ao menos uma forma de pagamento');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveCheckoutSettings(user.id, settings);
+      toast.success('Configurações salvas com sucesso');
+    } catch (error) {
+      console.error('Error saving checkout settings:', error);
+      toast.error('Erro ao salvar configurações');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Dados do cliente no pedido</CardTitle>
+          <CardDescription>
+            Antes de enviar o pedido pelo WhatsApp, o cliente preenche um formulário com os dados escolhidos.
+            As respostas ficam salvas no pedido e seguem na mensagem.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="checkout-enabled">Pedir dados antes de enviar o pedido</Label>
+              <p className="text-sm text-muted-foreground">
+                Quando desativado, o pedido vai direto para o WhatsApp
+              </p>
+            </div>
+            <Switch
+              id="checkout-enabled"
+              checked={settings.is_enabled}
+              onCheckedChange={(checked) => setSettings({ ...settings, is_enabled: checked })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Campos do formulário</Label>
+            {COLLECT_FIELDS.map((field) => (
+              <div key={field.key} className="flex items-start gap-3">
+                <Checkbox
+                  id={field.key}
+                  checked={settings[field.key]}
+                  onCheckedChange={(checked) => setSettings({ ...settings, [field.key]: checked === true })}
+                  disabled={!settings.is_enabled}
+                />
+                <div className="space-y-0.5">
+                  <Label htmlFor={field.key} className="font-normal">{field.label}</Label>
+                  <p className="text-xs text-muted-foreground">{field.description}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {settings.collect_payment_method && (
+            <div className="space-y-3">
+              <Label>Formas de pagamento aceitas</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {PAYMENT_METHODS.map((method) => (
+                  <div key={method} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`payment-${method}`}
+                      checked={settings.payment_methods.includes(method)}
+                      onCheckedChange={(checked) => togglePaymentMethod(method, checked === true)}
+                      disabled={!settings.is_enabled}
+                    />
+                    <Label htmlFor={`payment-${method}`} className="font-normal">
+                      {PAYMENT_METHOD_LABELS[method]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {saving ? 'Salvando...' : 'Salvar Configurações'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -12,7 +12,15 @@ import {
   Settings,
   FolderTree,
   Gift,
-  HelpCircle
+  HelpCircle,
+  ClipboardList,
+  Ticket,
+  ShoppingCart,
+  FileText,
+  Timer,
+  BadgePercent,
+  Layers,
+  ListOrdered
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -34,6 +42,14 @@ export default function DashboardSidebar() {
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
     { name: 'Categorias', href: '/dashboard/categories', icon: FolderTree },
     { name: 'Produtos', href: '/dashboard/listings', icon: Package },
+    { name: 'Pedidos', href: '/dashboard/orders', icon: ClipboardList },
+    { name: 'Orçamentos', href: '/dashboard/quotes', icon: FileText },
+    { name: 'Carrinhos Abandonados', href: '/dashboard/abandoned-carts', icon: ShoppingCart },
+    { name: 'Cupons', href: '/dashboard/coupons', icon: Ticket },
+    { name: 'Promoções', href: '/dashboard/promotions', icon: Timer },
+    { name: 'Tabelas de Preço', href: '/dashboard/price-lists', icon: BadgePercent },
+    { name: 'Grupos de Quantidade', href: '/dashboard/tier-groups', icon: Layers },
+    { name: 'Modelos de Faixas', href: '/dashboard/tier-templates', icon: ListOrdered },
     { name: 'Indique e Ganhe', href: '/dashboard/referral', icon: Gift },
     { name: 'Configurações', href: '/dashboard/settings', icon: Settings },
     { name: 'Central de Ajuda', href: '/help', icon: HelpCircle },
@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/contexts/AuthContext';
+import InstallmentTable from '@/components/product/InstallmentTable';
+import {
+  DEFAULT_INSTALLMENT_SETTINGS,
+  MAX_INSTALLMENTS_LIMIT,
+  fetchInstallmentSettings,
+  saveInstallmentSettings,
+} from '@/lib/installmentUtils';
+import type { InstallmentSettings } from '@/types';
+
+const PREVIEW_AMOUNT = 100;
+
+const clampInstallments = (value: string, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.floor(Number(value)) || min));
+
+export default function InstallmentSettingsContent() {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isEnabled, setIsEnabled] = useState(DEFAULT_INSTALLMENT_SETTINGS.is_enabled);
+  const [maxInstallments, setMaxInstallments] = useState(String(DEFAULT_INSTALLMENT_SETTINGS.max_installments));
+  const [interestFreeInstallments, setInterestFreeInstallments] = useState(
+    String(DEFAULT_INSTALLMENT_SETTINGS.interest_free_installments)
+  );
+  const [minInstallmentValue, setMinInstallmentValue] = useState(String(DEFAULT_INSTALLMENT_SETTINGS.min_installment_value));
+  const [interestRates, setInterestRates] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadSettings = async () => {
+      const settings = await fetchInstallmentSettings(user.id);
+      if (settings) {
+        setIsEnabled(settings.is_enabled);
+        setMaxInstallments(String(settings.max_installments));
+        setInterestFreeInstallments(String(settings.interest_free_installments));
+        setMinInstallmentValue(String(settings.min_installment_value));
+        setInterestRates(Object.fromEntries(
+          Object.entries(settings.interest_rates).map(([installments, rate]) => [installments, String(rate)])
+        ));
+      }
+      setLoading(false);
+    };
+
+    loadSettings();
+  }, [user?.id]);
+
+  const max = clampInstallments(maxInstallments, 1, MAX_INSTALLMENTS_LIMIT);
+  const interestFree = clampInstallments(interestFreeInstallments, 1, max);
+  const installmentsWithInterest = Array.from({ length: max - interestFree }, (_, index) => interestFree + index + 1);
+
+  const settings: InstallmentSettings = {
+    user_id: user?.id || '',
+    is_enabled: true,
+    max_installments: max,
+    interest_free_installments: interestFree,
+    min_installment_value: Math.max(0, Number(minInstallmentValue) || 0),
+    // Only rates of installment counts that can charge interest are kept
+    interest_rates: Object.fromEntries(
+      installmentsWithInterest
+        .map(installments => [String(installments), Math.max(0, Number(interestRates[installments]) || 0)] as const)
+        .filter(([, rate]) => rate > 0)
+    ),
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    try {
+      setSaving(true);
+      await saveInstallmentSettings(user.id, {
+        is_enabled: isEnabled,
+        max_installments: settings.max_installments,
+        interest_free_installments: settings.interest_free_installments,
+        min_installment_value: settings.min_installment_value,
+        interest_rates: settings.interest_rates,
+      });
+      toast.success('Configurações salvas com sucesso');
+    } catch (error) {
+      console.error('Error saving installment settings:', error);
+      toast.error('Erro ao salvar configurações');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Parcelamento</CardTitle>
+        <CardDescription>
+          A vitrine calcula as parcelas de cada produto e do carrinho, como "10x de R$ 39,90 sem juros".
+          O plano escolhido pelo cliente vai junto na mensagem do pedido.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="installments-enabled">Mostrar parcelamento</Label>
+            <p className="text-sm text-muted-foreground">
+              Exibe as parcelas nos produtos e no carrinho
+            </p>
+          </div>
+          <Switch id="installments-enabled" checked={isEnabled} onCheckedChange={setIsEnabled} />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="installments-max">Máximo de parcelas</Label>
+            <Input
+              id="installments-max"
+              type="number"
+              min="1"
+              max={MAX_INSTALLMENTS_LIMIT}
+              step="1"
+              value={maxInstallments}
+              onChange={(e) => setMaxInstallments(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="installments-free">Sem juros até</Label>
+            <Input
+              id="installments-free"
+              type="number"
+              min="1"
+              max={max}
+              step="1"
+              value={interestFreeInstallments}
+              onChange={(e) => setInterestFreeInstallments(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="installments-min">Parcela mínima (R$)</Label>
+            <Input
+              id="installments-min"
+              type="number"
+              min="0"
+              step="0.01"
+              value={minInstallmentValue}
+              onChange={(e) => setMinInstallmentValue(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {installmentsWithInterest.length > 0 && (
+          <div className="space-y-2">
+            <Label>Juros ao mês por número de parcelas (%)</Label>
+            <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+              {installmentsWithInterest.map(installments => (
+                <div key={installments} className="space-y-1">
+                  <span className="text-xs text-muted-foreground">{installments}x</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="0"
+                    aria-label={`Juros em ${installments}x`}
+                    value={interestRates[installments] ?? ''}
+                    onChange={(e) => setInterestRates(prev => ({ ...prev, [installments]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Parcelas sem taxa informada aparecem sem juros. As parcelas com juros seguem a tabela Price.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Exemplo para um produto de R$ 100,00</Label>
+          <InstallmentTable amount={PREVIEW_AMOUNT} settings={settings} className="max-w-md" />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {saving ? 'Salvando...' : 'Salvar Configurações'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
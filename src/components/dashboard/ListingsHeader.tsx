@@ -1,5 +1,5 @@
 import { Link } from 'react-router-dom';
-import { Plus, ArrowUpDown, CheckSquare, Square } from 'lucide-react';
+import { Plus, ArrowUpDown, CheckSquare, Square, FileSpreadsheet, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 
@@ -11,6 +11,8 @@ interface ListingsHeaderProps {
   filteredProductsLength: number;
   onToggleReorderMode: () => void;
   onSelectAll: (checked: boolean) => void;
+  onImport: () => void;
+  onExport: () => void;
 }
 
 export function ListingsHeader({
@@ -21,6 +23,8 @@ export function ListingsHeader({
   filteredProductsLength,
   onToggleReorderMode,
   onSelectAll,
+  onImport,
+  onExport,
 }: ListingsHeaderProps) {
   return (
     <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
@@ -53,6 +57,16 @@ export function ListingsHeader({
           </Button>
         )}
         
+        <Button variant="outline" onClick={onImport} className="w-full sm:w-auto">
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Importar Planilha
+        </Button>
+
+        <Button variant="outline" onClick={onExport} className="w-full sm:w-auto">
+          <Download className="w-4 h-4 mr-2" />
+          Exportar
+        </Button>
+
         <Link to="/dashboard/products/new" className="w-full sm:w-auto">
           <Button className="w-full sm:w-auto">
             <Plus className="w-4 h-4 mr-2" />
@@ -1,4 +1,6 @@
+import { Undo2 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 
 interface ListingsStatusBarProps {
@@ -7,6 +9,8 @@ interface ListingsStatusBarProps {
   selectedCount: number;
   allSelected?: boolean;
   onSelectAll?: (checked: boolean) => void;
+  onUndoPriceAdjustment?: () => void;
+  undoDisabled?: boolean;
 }
 
 export function ListingsStatusBar({
@@ -14,7 +18,9 @@ export function ListingsStatusBar({
   filteredCount,
   selectedCount,
   allSelected = false,
-  onSelectAll
+  onSelectAll,
+  onUndoPriceAdjustment,
+  undoDisabled = false
 }: ListingsStatusBarProps) {
   return (
     <div className="mb-4 flex items-center justify-between">
@@ -44,6 +50,19 @@ export function ListingsStatusBar({
           </Badge>
         )}
       </div>
+
+      {onUndoPriceAdjustment && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onUndoPriceAdjustment}
+          disabled={undoDisabled}
+          className="flex items-center gap-2"
+        >
+          <Undo2 className="h-4 w-4" />
+          Desfazer reajuste de preços
+        </Button>
+      )}
     </div>
   );
 }
\ No newline at end of file
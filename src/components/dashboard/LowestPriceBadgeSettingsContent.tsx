@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchLowestPriceBadgeEnabled, saveLowestPriceBadgeEnabled } from '@/lib/priceHistoryUtils';
+
+export default function LowestPriceBadgeSettingsContent() {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isEnabled, setIsEnabled] = useState(false);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadSettings = async () => {
+      setIsEnabled(await fetchLowestPriceBadgeEnabled(user.id));
+      setLoading(false);
+    };
+
+    loadSettings();
+  }, [user?.id]);
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    try {
+      setSaving(true);
+      await saveLowestPriceBadgeEnabled(user.id, isEnabled);
+      toast.success('Configurações salvas com sucesso');
+    } catch (error) {
+      console.error('Error saving lowest price badge setting:', error);
+      toast.error('Erro ao salvar configurações');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[120px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Selo de Menor Preço</CardTitle>
+        <CardDescription>
+          Destaca os produtos que baixaram de preço e estão com o menor valor dos últimos 30 dias.
+          O cálculo usa o histórico de preços de cada produto.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="lowest-price-badge">Mostrar "Menor preço dos últimos 30 dias"</Label>
+            <p className="text-sm text-muted-foreground">
+              Exibe o selo nos cards e na página do produto
+            </p>
+          </div>
+          <Switch id="lowest-price-badge" checked={isEnabled} onCheckedChange={setIsEnabled} />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {saving ? 'Salvando...' : 'Salvar Configurações'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
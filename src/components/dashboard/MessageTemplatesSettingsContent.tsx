@@ -0,0 +1,322 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, RotateCcw } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/contexts/AuthContext';
+import { generateWhatsAppMessage } from '@/lib/i18n';
+import { generateCartOrderMessage, getStorefrontBaseUrl } from '@/lib/cartUtils';
+import {
+  DEFAULT_MESSAGE_TEMPLATES,
+  MESSAGE_TEMPLATE_LABELS,
+  MESSAGE_TEMPLATE_MAX_LENGTH,
+  MESSAGE_TEMPLATE_PLACEHOLDERS,
+  fetchWhatsAppMessageTemplates,
+  getCustomMessageTemplate,
+  renderMessageTemplate,
+  saveWhatsAppMessageTemplates,
+  type MessageTemplateType,
+} from '@/lib/messageTemplateUtils';
+import type { CartDistribution, CartItem } from '@/types';
+
+const TEMPLATE_TYPES = Object.keys(MESSAGE_TEMPLATE_LABELS) as MessageTemplateType[];
+
+const TEMPLATE_DESCRIPTIONS: Record<MessageTemplateType, string> = {
+  cart_order: 'Mensagem enviada quando o cliente finaliza o carrinho.',
+  product_inquiry: 'Mensagem do botão "Falar no WhatsApp" na página do produto.',
+  distribution: 'Bloco de cada distribuição de variações dentro de {itens} no pedido.',
+};
+
+type TemplateState = Record<MessageTemplateType, { enabled: boolean; text: string }>;
+
+const INITIAL_STATE: TemplateState = {
+  cart_order: { enabled: false, text: '' },
+  product_inquiry: { enabled: false, text: '' },
+  distribution: { enabled: false, text: '' },
+};
+
+// Sample cart used by the preview
+const SAMPLE_ITEMS: CartItem[] = [
+  {
+    id: 'sample-item',
+    title: 'Camiseta Básica',
+    price: 49.9,
+    quantity: 2,
+    selectedColor: 'Preto',
+    selectedSize: 'M',
+  },
+];
+
+const SAMPLE_DISTRIBUTIONS: CartDistribution[] = [
+  {
+    product: {
+      id: 'sample-product',
+      user_id: '',
+      title: 'Calça Jeans',
+      description: '',
+      status: 'disponivel',
+      category: [],
+      condition: 'novo',
+      created_at: '',
+    },
+    distribution: {
+      id: 'sample-distribution',
+      user_id: '',
+      product_id: 'sample-product',
+      total_quantity: 6,
+      applied_tier_price: 89.9,
+    },
+    items: [
+      { id: 'sample-1', distribution_id: 'sample-distribution', color: 'Azul', size: '38', quantity: 3 },
+      { id: 'sample-2', distribution_id: 'sample-distribution', color: 'Azul', size: '40', quantity: 3 },
+    ],
+  },
+];
+
+export default function MessageTemplatesSettingsContent() {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [activeType, setActiveType] = useState<MessageTemplateType>('cart_order');
+  const [templates, setTemplates] = useState<TemplateState>(INITIAL_STATE);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadTemplates = async () => {
+      const data = await fetchWhatsAppMessageTemplates(user.id);
+
+      setTemplates(TEMPLATE_TYPES.reduce((state, type) => {
+        const text = getCustomMessageTemplate(data, type);
+        return { ...state, [type]: { enabled: !!text, text: text || '' } };
+      }, INITIAL_STATE));
+      setLoading(false);
+    };
+
+    loadTemplates();
+  }, [user?.id]);
+
+  const active = templates[activeType];
+
+  const updateTemplate = (type: MessageTemplateType, changes: Partial<TemplateState[MessageTemplateType]>) => {
+    setTemplates((current) => ({ ...current, [type]: { ...current[type], ...changes } }));
+  };
+
+  const handleToggle = (enabled: boolean) => {
+    // Start from the default wording so the seller only edits what they want
+    updateTemplate(activeType, {
+      enabled,
+      text: enabled && !active.text.trim() ? DEFAULT_MESSAGE_TEMPLATES[activeType] : active.text,
+    });
+  };
+
+  const insertPlaceholder = (key: string) => {
+    const placeholder = `{${key}}`;
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? active.text.length;
+    const end = textarea?.selectionEnd ?? active.text.length;
+
+    updateTemplate(activeType, {
+      text: active.text.slice(0, start) + placeholder + active.text.slice(end),
+    });
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const preview = useMemo(() => {
+    const sellerName = user?.name || 'Minha Loja';
+    const slug = user?.slug || 'minhaloja';
+    const customTemplate = (type: MessageTemplateType) =>
+      templates[type].enabled ? templates[type].text.trim() || undefined : undefined;
+
+    if (activeType === 'product_inquiry') {
+      const template = customTemplate('product_inquiry');
+      const imageUrl = `${getStorefrontBaseUrl()}/exemplo/camiseta.jpg`;
+
+      return template
+        ? renderMessageTemplate(template, {
+            vendedor: sellerName,
+            produto: 'Camiseta Básica',
+            referencia: 'a1b2c3d4',
+            link_produto: `${getStorefrontBaseUrl()}/${slug}/produtos/a1b2c3d4`,
+            imagem: imageUrl,
+          })
+        : `${generateWhatsAppMessage('pt-BR', sellerName, 'Camiseta Básica', 'a1b2c3d4')}\n\nImagem do produto: ${imageUrl}`;
+    }
+
+    return generateCartOrderMessage(
+      SAMPLE_ITEMS,
+      632.2,
+      sellerName,
+      slug,
+      'BRL',
+      'pt-BR',
+      SAMPLE_DISTRIBUTIONS,
+      {
+        orderCode: 'K7M2P9',
+        subtotal: 639.2,
+        coupon: { code: 'BEMVINDO', discount: 27 },
+        shipping: { label: 'PAC', price: 20 },
+        customer: { name: 'Maria Souza', phone: '11987654321' },
+        template: customTemplate('cart_order'),
+        distributionTemplate: customTemplate('distribution'),
+      }
+    );
+  }, [activeType, templates, user?.name, user?.slug]);
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    const tooLong = TEMPLATE_TYPES.find(type => templates[type].text.length > MESSAGE_TEMPLATE_MAX_LENGTH);
+    if (tooLong) {
+      toast.error(`A mensagem "${MESSAGE_TEMPLATE_LABELS[tooLong]}" passa de ${MESSAGE_TEMPLATE_MAX_LENGTH} caracteres`);
+      return;
+    }
+
+    const valueOf = (type: MessageTemplateType) =>
+      templates[type].enabled ? templates[type].text.trim() || null : null;
+
+    try {
+      setSaving(true);
+      await saveWhatsAppMessageTemplates(user.id, {
+        cart_order_template: valueOf('cart_order'),
+        product_inquiry_template: valueOf('product_inquiry'),
+        distribution_template: valueOf('distribution'),
+      });
+      toast.success('Mensagens salvas com sucesso');
+    } catch (error) {
+      console.error('Error saving WhatsApp message templates:', error);
+      toast.error('Erro ao salvar mensagens');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Mensagens do WhatsApp</CardTitle>
+        <CardDescription>
+          Escreva as mensagens com o tom da sua marca. Os campos entre chaves são preenchidos
+          automaticamente; linhas com campos vazios (como o cupom, quando não há) são omitidas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {TEMPLATE_TYPES.map((type) => (
+            <Button
+              key={type}
+              size="sm"
+              variant={activeType === type ? 'default' : 'outline'}
+              onClick={() => setActiveType(type)}
+            >
+              {MESSAGE_TEMPLATE_LABELS[type]}
+              {templates[type].enabled && (
+                <Badge variant="secondary" className="ml-2">Personalizada</Badge>
+              )}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="template-enabled">Usar mensagem personalizada</Label>
+            <p className="text-sm text-muted-foreground">{TEMPLATE_DESCRIPTIONS[activeType]}</p>
+          </div>
+          <Switch id="template-enabled" checked={active.enabled} onCheckedChange={handleToggle} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            {active.enabled ? (
+              <>
+                <Textarea
+                  ref={textareaRef}
+                  rows={16}
+                  className="font-mono text-sm"
+                  value={active.text}
+                  maxLength={MESSAGE_TEMPLATE_MAX_LENGTH}
+                  onChange={(e) => updateTemplate(activeType, { text: e.target.value })}
+                />
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{active.text.length}/{MESSAGE_TEMPLATE_MAX_LENGTH} caracteres</span>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => updateTemplate(activeType, { text: DEFAULT_MESSAGE_TEMPLATES[activeType] })}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Restaurar padrão
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Campos disponíveis</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {MESSAGE_TEMPLATE_PLACEHOLDERS[activeType].map((placeholder) => (
+                      <Button
+                        key={placeholder.key}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="h-auto py-1 font-mono text-xs"
+                        title={placeholder.description}
+                        onClick={() => insertPlaceholder(placeholder.key)}
+                      >
+                        {`{${placeholder.key}}`}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            ) : (
+              <p className="rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
+                A mensagem padrão é usada, traduzida para o idioma da vitrine.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pré-visualização</Label>
+            <div className="rounded-lg bg-[#e5ddd5] p-4 dark:bg-muted">
+              <div className="ml-auto max-w-[95%] whitespace-pre-wrap break-words rounded-lg bg-[#dcf8c6] p-3 text-sm text-gray-900 shadow-sm">
+                {preview}
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Exemplo com dados fictícios</p>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {saving ? 'Salvando...' : 'Salvar Mensagens'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { validatePixKey } from '@/lib/referralUtils';
+import {
+  PIX_KEY_TYPE_LABELS,
+  PIX_MERCHANT_CITY_MAX_LENGTH,
+  PIX_MERCHANT_NAME_MAX_LENGTH,
+  fetchLatestUserPixKey,
+  fetchStorePixSettings,
+  saveStorePixSettings,
+  sanitizePixText,
+  type PixKeyType,
+} from '@/lib/pixUtils';
+import type { UserPixKey } from '@/types';
+
+export default function PixSettingsContent() {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [pixKeyType, setPixKeyType] = useState<PixKeyType>('cpf');
+  const [pixKey, setPixKey] = useState('');
+  const [merchantName, setMerchantName] = useState('');
+  const [merchantCity, setMerchantCity] = useState('');
+  const [referralKey, setReferralKey] = useState<UserPixKey | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadSettings = async () => {
+      const [settings, latestKey] = await Promise.all([
+        fetchStorePixSettings(user.id),
+        fetchLatestUserPixKey(user.id),
+      ]);
+
+      if (settings) {
+        setIsEnabled(settings.is_enabled);
+        setPixKeyType(settings.pix_key_type);
+        setPixKey(settings.pix_key);
+        setMerchantName(settings.merchant_name);
+        setMerchantCity(settings.merchant_city);
+      } else {
+        setMerchantName(sanitizePixText(user.name || '', PIX_MERCHANT_NAME_MAX_LENGTH));
+      }
+
+      setReferralKey(latestKey);
+      setLoading(false);
+    };
+
+    loadSettings();
+  }, [user?.id, user?.name]);
+
+  const applyReferralKey = () => {
+    if (!referralKey) return;
+
+    setPixKeyType(referralKey.pix_key_type);
+    setPixKey(referralKey.pix_key);
+    setMerchantName(sanitizePixText(referralKey.holder_name, PIX_MERCHANT_NAME_MAX_LENGTH));
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    if (!validatePixKey(pixKey, pixKeyType)) {
+      toast.error('Chave PIX inválida para o tipo selecionado');
+      return;
+    }
+
+    const name = sanitizePixText(merchantName, PIX_MERCHANT_NAME_MAX_LENGTH);
+    const city = sanitizePixText(merchantCity, PIX_MERCHANT_CITY_MAX_LENGTH);
+
+    if (!name || !city) {
+      toast.error('Informe o nome do recebedor e a cidade');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveStorePixSettings(user.id, {
+        is_enabled: isEnabled,
+        pix_key: pixKey.trim(),
+        pix_key_type: pixKeyType,
+        merchant_name: name,
+        merchant_city: city,
+      });
+      setMerchantName(name);
+      setMerchantCity(city);
+      toast.success('Configurações salvas com sucesso');
+    } catch (error) {
+      console.error('Error saving store PIX settings:', error);
+      toast.error('Erro ao salvar configurações');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pagamento via PIX</CardTitle>
+        <CardDescription>
+          O carrinho mostra um QR code e o código PIX copia e cola com o valor exato do pedido.
+          O pagamento cai direto na sua conta; confira o recebimento no app do seu banco.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="pix-enabled">Mostrar PIX no carrinho</Label>
+            <p className="text-sm text-muted-foreground">
+              O código também é enviado na mensagem do pedido
+            </p>
+          </div>
+          <Switch id="pix-enabled" checked={isEnabled} onCheckedChange={setIsEnabled} />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Tipo de Chave</Label>
+            <Select value={pixKeyType} onValueChange={(value) => setPixKeyType(value as PixKeyType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PIX_KEY_TYPE_LABELS) as PixKeyType[]).map((type) => (
+                  <SelectItem key={type} value={type}>{PIX_KEY_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="store-pix-key">Chave PIX</Label>
+            <Input
+              id="store-pix-key"
+              value={pixKey}
+              onChange={(e) => setPixKey(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {referralKey && referralKey.pix_key !== pixKey && (
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={applyReferralKey}>
+            Usar a chave cadastrada em Indicações ({PIX_KEY_TYPE_LABELS[referralKey.pix_key_type]})
+          </Button>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="pix-merchant-name">Nome do recebedor</Label>
+            <Input
+              id="pix-merchant-name"
+              maxLength={PIX_MERCHANT_NAME_MAX_LENGTH}
+              value={merchantName}
+              onChange={(e) => setMerchantName(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Até {PIX_MERCHANT_NAME_MAX_LENGTH} caracteres, sem acentos
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pix-merchant-city">Cidade</Label>
+            <Input
+              id="pix-merchant-city"
+              maxLength={PIX_MERCHANT_CITY_MAX_LENGTH}
+              value={merchantCity}
+              onChange={(e) => setMerchantCity(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Até {PIX_MERCHANT_CITY_MAX_LENGTH} caracteres, sem acentos
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {saving ? 'Salvando...' : 'Salvar Configurações'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
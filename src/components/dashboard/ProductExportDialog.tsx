@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  downloadProductExport,
+  fetchProductsForExport,
+  PRODUCT_EXPORT_FORMAT_LABELS,
+  type ProductExportFormat,
+} from '@/lib/productExportUtils';
+
+type ExportScope = 'all' | 'filtered' | 'selected';
+
+interface ProductExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId?: string;
+  allProductIds: string[];
+  filteredProductIds: string[];
+  selectedProductIds: string[];
+}
+
+export function ProductExportDialog({
+  open,
+  onOpenChange,
+  userId,
+  allProductIds,
+  filteredProductIds,
+  selectedProductIds,
+}: ProductExportDialogProps) {
+  const [scope, setScope] = useState<ExportScope>('all');
+  const [format, setFormat] = useState<ProductExportFormat>('xlsx');
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setScope(selectedProductIds.length > 0 ? 'selected' : 'all');
+    }
+  }, [open, selectedProductIds.length]);
+
+  const productIdsByScope: Record<ExportScope, string[]> = {
+    all: allProductIds,
+    filtered: filteredProductIds,
+    selected: selectedProductIds,
+  };
+  const productIds = productIdsByScope[scope];
+
+  const handleExport = async () => {
+    if (!userId || productIds.length === 0) return;
+
+    setExporting(true);
+    try {
+      const products = await fetchProductsForExport(userId, productIds);
+      downloadProductExport(products, format);
+      toast.success(`${products.length} produto(s) exportado(s)`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error exporting products:', error);
+      toast.error('Erro ao exportar produtos');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Exportar Produtos</DialogTitle>
+          <DialogDescription>
+            Baixe o catálogo para backup, para enviar a clientes ou para editar em uma planilha e importar de volta
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Produtos</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as ExportScope)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os produtos ({allProductIds.length})</SelectItem>
+                <SelectItem value="filtered">Filtro atual ({filteredProductIds.length})</SelectItem>
+                <SelectItem value="selected" disabled={selectedProductIds.length === 0}>
+                  Selecionados ({selectedProductIds.length})
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Formato</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ProductExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PRODUCT_EXPORT_FORMAT_LABELS) as ProductExportFormat[]).map(option => (
+                  <SelectItem key={option} value={option}>
+                    {PRODUCT_EXPORT_FORMAT_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {format !== 'json' && (
+              <p className="text-sm text-muted-foreground">
+                As colunas seguem o modelo da importação por planilha
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>
+            Cancelar
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || productIds.length === 0}>
+            {exporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Exportar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,396 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Download, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { downloadCsv, parseSpreadsheetFile, type SpreadsheetData } from '@/lib/spreadsheetUtils';
+import {
+  buildImportErrorReport,
+  fetchListingCapacity,
+  guessProductImportMapping,
+  importProducts,
+  PRODUCT_IMPORT_FIELDS,
+  validateProductImportRows,
+  type ListingCapacity,
+  type ProductImportField,
+  type ProductImportMapping,
+  type ProductImportRow,
+} from '@/lib/productImportUtils';
+
+type ImportStep = 'upload' | 'mapping' | 'review' | 'importing' | 'done';
+
+// Radix Select does not accept empty values
+const UNMAPPED = '__none__';
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId?: string;
+  onImported: () => Promise<void> | void;
+}
+
+export function ProductImportDialog({
+  open,
+  onOpenChange,
+  userId,
+  onImported,
+}: ProductImportDialogProps) {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [spreadsheet, setSpreadsheet] = useState<SpreadsheetData | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [mapping, setMapping] = useState<ProductImportMapping>({});
+  const [capacity, setCapacity] = useState<ListingCapacity | null>(null);
+  const [reading, setReading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [failedRows, setFailedRows] = useState<ProductImportRow[]>([]);
+  const [pendingRows, setPendingRows] = useState<ProductImportRow[]>([]);
+  const [importedCount, setImportedCount] = useState(0);
+
+  useEffect(() => {
+    if (open) {
+      setStep('upload');
+      setSpreadsheet(null);
+      setFileName('');
+      setImageFiles([]);
+      setMapping({});
+      setProgress(0);
+      setFailedRows([]);
+      setPendingRows([]);
+      setImportedCount(0);
+    }
+  }, [open]);
+
+  const remainingListings = capacity?.limit != null ? Math.max(0, capacity.limit - capacity.used) : null;
+
+  const validatedRows = useMemo(
+    () => step === 'review' && spreadsheet
+      ? validateProductImportRows(spreadsheet, mapping, imageFiles, remainingListings)
+      : [],
+    [step, spreadsheet, mapping, imageFiles, remainingListings]
+  );
+  const validRows = validatedRows.filter(row => row.product);
+  const rejectedRows = validatedRows.filter(row => !row.product);
+
+  const missingRequired = PRODUCT_IMPORT_FIELDS.filter(
+    definition => definition.required && mapping[definition.field] === undefined
+  );
+
+  const handleFileChange = async (file?: File) => {
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const data = await parseSpreadsheetFile(file);
+      setSpreadsheet(data);
+      setFileName(file.name);
+      setMapping(guessProductImportMapping(data.headers));
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao ler a planilha');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ProductImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === UNMAPPED) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleReview = async () => {
+    if (!userId) return;
+
+    try {
+      setCapacity(await fetchListingCapacity(userId));
+      setStep('review');
+    } catch (error) {
+      console.error('Error checking listing limit:', error);
+      toast.error('Erro ao verificar o limite de anúncios');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!userId || validRows.length === 0) return;
+
+    setStep('importing');
+    setProgress(0);
+    try {
+      const result = await importProducts(userId, validRows, imageFiles, (done, total) => {
+        setProgress(Math.round((done / total) * 100));
+      });
+
+      setFailedRows([...rejectedRows, ...result.failedRows]);
+      setPendingRows(result.pendingRows);
+      // Products created with pending details are listed separately
+      setImportedCount(result.createdCount - result.pendingRows.length);
+      setStep('done');
+      await onImported();
+      toast.success('Importação concluída');
+    } catch (error) {
+      console.error('Error importing products:', error);
+      toast.error('Erro ao importar produtos');
+      setStep('review');
+    }
+  };
+
+  const handleDownloadErrors = (rows: ProductImportRow[]) => {
+    if (!spreadsheet) return;
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    downloadCsv(`${baseName}-erros.csv`, buildImportErrorReport(spreadsheet.headers, rows));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => step !== 'importing' && onOpenChange(value)}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar Produtos</DialogTitle>
+          <DialogDescription>
+            Cadastre vários produtos de uma vez a partir de uma planilha CSV ou XLSX
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">Planilha *</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                disabled={reading}
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+              />
+              {spreadsheet && (
+                <p className="text-sm text-muted-foreground">
+                  {fileName}: {spreadsheet.rows.length} linha(s) e {spreadsheet.headers.length} coluna(s)
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-images">Imagens (opcional)</Label>
+              <Input
+                id="import-images"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => setImageFiles(Array.from(e.target.files || []))}
+              />
+              <p className="text-sm text-muted-foreground">
+                Envie aqui as imagens citadas pelo nome do arquivo na planilha. Links de imagens não precisam ser enviados.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {step === 'mapping' && spreadsheet && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Indique qual coluna da planilha corresponde a cada informação do produto
+            </p>
+            {PRODUCT_IMPORT_FIELDS.map(definition => (
+              <div key={definition.field} className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:items-center">
+                <div>
+                  <Label>{definition.label}{definition.required ? ' *' : ''}</Label>
+                  {definition.hint && (
+                    <p className="text-xs text-muted-foreground">{definition.hint}</p>
+                  )}
+                </div>
+                <Select
+                  value={mapping[definition.field] !== undefined ? String(mapping[definition.field]) : UNMAPPED}
+                  onValueChange={(value) => handleMappingChange(definition.field, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Não importar</SelectItem>
+                    {spreadsheet.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="rounded-lg border p-3">
+                <p className="text-sm text-muted-foreground">Prontos para importar</p>
+                <p className="text-2xl font-bold text-green-600">{validRows.length}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-sm text-muted-foreground">Com erros</p>
+                <p className="text-2xl font-bold text-destructive">{rejectedRows.length}</p>
+              </div>
+            </div>
+
+            {remainingListings !== null && (
+              <p className="text-sm text-muted-foreground">
+                Seu plano permite mais {remainingListings} anúncio(s)
+              </p>
+            )}
+
+            {rejectedRows.length > 0 && (
+              <>
+                <div className="rounded-md border max-h-64 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Linha</TableHead>
+                        <TableHead>Erros</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rejectedRows.map(row => (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell>{row.rowNumber}</TableCell>
+                          <TableCell className="text-sm">{row.errors.join(' • ')}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={() => handleDownloadErrors(rejectedRows)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Baixar relatório de erros
+                </Button>
+              </>
+            )}
+
+            <p className="text-sm text-muted-foreground">
+              Nenhum produto foi criado ainda. As linhas com erros serão ignoradas.
+            </p>
+          </div>
+        )}
+
+        {step === 'importing' && (
+          <div className="space-y-3 py-4">
+            <div className="flex items-center gap-2 text-sm">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Importando produtos... {progress}%
+            </div>
+            <Progress value={progress} />
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-4">
+            <Alert>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>
+                {importedCount} produto(s) importado(s) com sucesso
+              </AlertDescription>
+            </Alert>
+            {pendingRows.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription className="space-y-2">
+                  <p>
+                    {pendingRows.length} produto(s) criado(s) com pendências. Complete-os pela edição do
+                    produto, sem importar as linhas de novo.
+                  </p>
+                  <ul className="list-disc pl-4 text-sm text-muted-foreground">
+                    {pendingRows.map(row => (
+                      <li key={row.rowNumber}>
+                        Linha {row.rowNumber}: {row.product?.title} ({row.errors.join('; ')})
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+            {failedRows.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <span>{failedRows.length} linha(s) com erros</span>
+                  <Button type="button" variant="outline" size="sm" onClick={() => handleDownloadErrors(failedRows)}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Baixar relatório de erros
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'upload' && (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button onClick={() => setStep('mapping')} disabled={!spreadsheet || reading}>
+                {reading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Continuar
+              </Button>
+            </>
+          )}
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')}>
+                Voltar
+              </Button>
+              <Button onClick={handleReview} disabled={missingRequired.length > 0}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Validar planilha
+              </Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')}>
+                Voltar
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                Importar {validRows.length} produto(s)
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={() => onOpenChange(false)}>
+              Fechar
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_QUOTE_VALIDITY_DAYS, fetchQuoteSettings, saveQuoteSettings } from '@/lib/quoteUtils';
+
+export default function QuoteSettingsContent() {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [validityDays, setValidityDays] = useState(String(DEFAULT_QUOTE_VALIDITY_DAYS));
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadSettings = async () => {
+      const settings = await fetchQuoteSettings(user.id);
+      setIsEnabled(settings?.is_enabled ?? false);
+      setValidityDays(String(settings?.default_validity_days ?? DEFAULT_QUOTE_VALIDITY_DAYS));
+      setLoading(false);
+    };
+
+    loadSettings();
+  }, [user?.id]);
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    try {
+      setSaving(true);
+      await saveQuoteSettings(user.id, {
+        is_enabled: isEnabled,
+        default_validity_days: Math.max(1, Math.floor(Number(validityDays)) || DEFAULT_QUOTE_VALIDITY_DAYS),
+      });
+      toast.success('Configurações salvas com sucesso');
+    } catch (error) {
+      console.error('Error saving quote settings:', error);
+      toast.error('Erro ao salvar configurações');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Orçamentos</CardTitle>
+        <CardDescription>
+          Produtos sob consulta não mostram preço: o carrinho vira uma solicitação de orçamento,
+          que você responde em Orçamentos com o preço de cada item.
+          Para colocar só alguns produtos sob consulta, use a opção no cadastro do produto.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="quote-enabled">Loja inteira sob consulta</Label>
+            <p className="text-sm text-muted-foreground">
+              Esconde os preços de todos os produtos da vitrine
+            </p>
+          </div>
+          <Switch id="quote-enabled" checked={isEnabled} onCheckedChange={setIsEnabled} />
+        </div>
+
+        <div className="space-y-2 sm:max-w-xs">
+          <Label htmlFor="quote-validity">Validade padrão do orçamento (dias)</Label>
+          <Input
+            id="quote-validity"
+            type="number"
+            min="1"
+            step="1"
+            value={validityDays}
+            onChange={(e) => setValidityDays(e.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">
+            Sugerida ao responder; pode ser alterada em cada orçamento
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {saving ? 'Salvando...' : 'Salvar Configurações'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
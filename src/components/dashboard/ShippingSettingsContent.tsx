@@ -0,0 +1,269 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Plus, Pencil, Trash2, Truck } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useShippingConfig } from '@/hooks/useShippingConfig';
+import { formatCurrency } from '@/lib/utils';
+import { formatDeliveryTime, formatShippingRuleCoverage } from '@/lib/shippingUtils';
+import ShippingRuleFormDialog from '@/components/shipping/ShippingRuleFormDialog';
+import type { ShippingRule } from '@/types';
+
+export default function ShippingSettingsContent() {
+  const { user } = useAuth();
+  const { settings, rules, loading, updateSettings, upsertRule, toggleRule, removeRule } = useShippingConfig(user?.id);
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [freeShippingThreshold, setFreeShippingThreshold] = useState('');
+  const [localPickupEnabled, setLocalPickupEnabled] = useState(false);
+  const [localPickupAddress, setLocalPickupAddress] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<ShippingRule | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<ShippingRule | null>(null);
+
+  useEffect(() => {
+    setIsEnabled(settings?.is_enabled ?? false);
+    setFreeShippingThreshold(settings?.free_shipping_threshold != null ? String(settings.free_shipping_threshold) : '');
+    setLocalPickupEnabled(settings?.local_pickup_enabled ?? false);
+    setLocalPickupAddress(settings?.local_pickup_address || '');
+  }, [settings]);
+
+  const handleSaveSettings = async () => {
+    setSaving(true);
+    await updateSettings({
+      is_enabled: isEnabled,
+      free_shipping_threshold: freeShippingThreshold !== '' ? Math.max(0, Number(freeShippingThreshold)) : null,
+      local_pickup_enabled: localPickupEnabled,
+      local_pickup_address: localPickupAddress.trim() || null,
+    });
+    setSaving(false);
+  };
+
+  const openCreateForm = () => {
+    setEditingRule(null);
+    setFormOpen(true);
+  };
+
+  const openEditForm = (rule: ShippingRule) => {
+    setEditingRule(rule);
+    setFormOpen(true);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!ruleToDelete) return;
+    await removeRule(ruleToDelete.id);
+    setRuleToDelete(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* General Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Frete no carrinho</CardTitle>
+          <CardDescription>
+            O cliente informa o CEP no carrinho e escolhe uma das opções de entrega
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="shipping-enabled">Calcular frete por CEP</Label>
+              <p className="text-sm text-muted-foreground">
+                Quando desativado, o frete continua sendo combinado pelo WhatsApp
+              </p>
+            </div>
+            <Switch id="shipping-enabled" checked={isEnabled} onCheckedChange={setIsEnabled} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="free-shipping-threshold">Frete grátis a partir de (R$)</Label>
+            <Input
+              id="free-shipping-threshold"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Sem frete grátis"
+              value={freeShippingThreshold}
+              onChange={(e) => setFreeShippingThreshold(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Considera o valor dos produtos após o desconto de cupons
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="local-pickup-enabled">Retirada no local</Label>
+              <p className="text-sm text-muted-foreground">
+                Oferece a opção de retirar o pedido sem custo
+              </p>
+            </div>
+            <Switch id="local-pickup-enabled" checked={localPickupEnabled} onCheckedChange={setLocalPickupEnabled} />
+          </div>
+
+          {localPickupEnabled && (
+            <div className="space-y-2">
+              <Label htmlFor="local-pickup-address">Endereço para retirada</Label>
+              <Textarea
+                id="local-pickup-address"
+                placeholder="Ex: Rua das Flores, 123 - Centro. Seg a Sex, 9h às 18h"
+                value={localPickupAddress}
+                onChange={(e) => setLocalPickupAddress(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={handleSaveSettings} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {saving ? 'Salvando...' : 'Salvar Configurações'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Shipping Rules */}
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Regras de frete</CardTitle>
+            <CardDescription>
+              Valores e prazos por início de CEP ou faixa de CEP
+            </CardDescription>
+          </div>
+          <Button onClick={openCreateForm}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nova Regra
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <Truck className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold">Nenhuma regra cadastrada</h3>
+              <p className="text-muted-foreground max-w-md">
+                Cadastre as regiões que você atende para o cliente ver o frete no carrinho.
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>CEPs</TableHead>
+                  <TableHead>Valor</TableHead>
+                  <TableHead>Prazo</TableHead>
+                  <TableHead className="text-center">Ativa</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell className="text-sm font-mono">{formatShippingRuleCoverage(rule)}</TableCell>
+                    <TableCell>{rule.price > 0 ? formatCurrency(rule.price) : 'Grátis'}</TableCell>
+                    <TableCell className="text-sm">
+                      {formatDeliveryTime(rule.delivery_days_min, rule.delivery_days_max) || '-'}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(checked) => toggleRule(rule.id, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => openEditForm(rule)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          onClick={() => setRuleToDelete(rule)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ShippingRuleFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        rule={editingRule}
+        nextDisplayOrder={rules.length}
+        onSave={upsertRule}
+      />
+
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir regra de frete</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir a regra {ruleToDelete?.name}? Pedidos anteriores continuam registrando o frete escolhido.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
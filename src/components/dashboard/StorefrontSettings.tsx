@@ -3,7 +3,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import StorefrontFiltersManager from '@/components/dashboard/StorefrontFiltersManager';
 import CategoryDisplaySettings from '@/components/dashboard/CategoryDisplaySettings';
+import LowestPriceBadgeSettingsContent from '@/components/dashboard/LowestPriceBadgeSettingsContent';
 import TrackingSettingsContent from '@/components/dashboard/TrackingSettingsContent';
+import ShippingSettingsContent from '@/components/dashboard/ShippingSettingsContent';
+import WholesaleSettingsContent from '@/components/dashboard/WholesaleSettingsContent';
+import QuoteSettingsContent from '@/components/dashboard/QuoteSettingsContent';
+import CheckoutSettingsContent from '@/components/dashboard/CheckoutSettingsContent';
+import PixSettingsContent from '@/components/dashboard/PixSettingsContent';
+import InstallmentSettingsContent from '@/components/dashboard/InstallmentSettingsContent';
+import MessageTemplatesSettingsContent from '@/components/dashboard/MessageTemplatesSettingsContent';
+import AttendantsSettingsContent from '@/components/dashboard/AttendantsSettingsContent';
 import { useAuth } from '@/contexts/AuthContext';
 
 export function StorefrontSettings() {
@@ -13,7 +22,7 @@ export function StorefrontSettings() {
   return (
     <div className="space-y-6">
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-3 h-auto gap-1">
+        <TabsList className="grid w-full grid-cols-4 sm:grid-cols-8 h-auto gap-1">
           <TabsTrigger value="filters" className="text-xs sm:text-sm py-2 sm:py-2.5">
             Filtros
           </TabsTrigger>
@@ -23,19 +32,58 @@ export function StorefrontSettings() {
           <TabsTrigger value="tracking" className="text-xs sm:text-sm py-2 sm:py-2.5">
             Rastreamento
           </TabsTrigger>
+          <TabsTrigger value="shipping" className="text-xs sm:text-sm py-2 sm:py-2.5">
+            Frete
+          </TabsTrigger>
+          <TabsTrigger value="wholesale" className="text-xs sm:text-sm py-2 sm:py-2.5">
+            Atacado
+          </TabsTrigger>
+          <TabsTrigger value="checkout" className="text-xs sm:text-sm py-2 sm:py-2.5">
+            Checkout
+          </TabsTrigger>
+          <TabsTrigger value="messages" className="text-xs sm:text-sm py-2 sm:py-2.5">
+            Mensagens
+          </TabsTrigger>
+          <TabsTrigger value="attendants" className="text-xs sm:text-sm py-2 sm:py-2.5">
+            Atendentes
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="filters" className="mt-4 sm:mt-6">
           <StorefrontFiltersManager />
         </TabsContent>
 
-        <TabsContent value="organization" className="mt-4 sm:mt-6">
+        <TabsContent value="organization" className="mt-4 sm:mt-6 space-y-6">
           <CategoryDisplaySettings />
+          <LowestPriceBadgeSettingsContent />
         </TabsContent>
 
         <TabsContent value="tracking" className="mt-4 sm:mt-6">
           <TrackingSettingsContent />
         </TabsContent>
+
+        <TabsContent value="shipping" className="mt-4 sm:mt-6">
+          <ShippingSettingsContent />
+        </TabsContent>
+
+        <TabsContent value="wholesale" className="mt-4 sm:mt-6 space-y-6">
+          <WholesaleSettingsContent />
+          <QuoteSettingsContent />
+        </TabsContent>
+
+        <TabsContent value="checkout" className="mt-4 sm:mt-6 space-y-6">
+          <CheckoutSettingsContent />
+          <PixSettingsContent />
+          <InstallmentSettingsContent />
+        </TabsContent>
+
+        <TabsContent value="messages" className="mt-4 sm:mt-6">
+          <MessageTemplatesSettingsContent />
+        </TabsContent>
+
+        <TabsContent value="attendants" className="mt-4 sm:mt-6">
+          <AttendantsSettingsContent />
+        </TabsContent>
       </Tabs>
     </div>
   );
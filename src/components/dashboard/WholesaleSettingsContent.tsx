@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchWholesaleSettings, saveWholesaleSettings } from '@/lib/wholesaleUtils';
+
+export default function WholesaleSettingsContent() {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [minOrderValue, setMinOrderValue] = useState('');
+  const [minOrderQuantity, setMinOrderQuantity] = useState('');
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadSettings = async () => {
+      const settings = await fetchWholesaleSettings(user.id);
+      setMinOrderValue(settings?.min_order_value != null ? String(settings.min_order_value) : '');
+      setMinOrderQuantity(settings?.min_order_quantity != null ? String(settings.min_order_quantity) : '');
+      setLoading(false);
+    };
+
+    loadSettings();
+  }, [user?.id]);
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    try {
+      setSaving(true);
+      await saveWholesaleSettings(user.id, {
+        min_order_value: minOrderValue !== '' && Number(minOrderValue) > 0 ? Number(minOrderValue) : null,
+        min_order_quantity: minOrderQuantity !== '' && Number(minOrderQuantity) > 0
+          ? Math.floor(Number(minOrderQuantity))
+          : null,
+      });
+      toast.success('Configurações salvas com sucesso');
+    } catch (error) {
+      console.error('Error saving wholesale settings:', error);
+      toast.error('Erro ao salvar configurações');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Pedido mínimo</CardTitle>
+          <CardDescription>
+            O botão de enviar pedido só é liberado quando o carrinho atinge estes valores.
+            Quantidade mínima e múltiplos por produto são definidos no cadastro de cada produto.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="min-order-value">Valor mínimo do pedido (R$)</Label>
+              <Input
+                id="min-order-value"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Sem mínimo"
+                value={minOrderValue}
+                onChange={(e) => setMinOrderValue(e.target.value)}
+              />
+              <p className="text-sm text-muted-foreground">
+                Valor dos produtos, antes de cupons e frete
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="min-order-quantity">Quantidade mínima de peças</Label>
+              <Input
+                id="min-order-quantity"
+                type="number"
+                min="1"
+                step="1"
+                placeholder="Sem mínimo"
+                value={minOrderQuantity}
+                onChange={(e) => setMinOrderQuantity(e.target.value)}
+              />
+              <p className="text-sm text-muted-foreground">
+                Total de unidades no carrinho, somando todos os produtos
+              </p>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {saving ? 'Salvando...' : 'Salvar Configurações'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,13 +1,20 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Phone, Copy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { formatPhone, generateWhatsAppUrl, getInitials, formatWhatsAppForDisplay } from '@/lib/utils';
 import { toast } from 'sonner';
-import type { User } from '@/types';
+import type { User, WhatsAppMessageTemplates } from '@/types';
 import { trackWhatsAppClick } from '@/lib/tracking';
+import { useStoreAttendant } from '@/hooks/useStoreAttendant';
 import { useTranslation, generateWhatsAppMessage, type SupportedLanguage } from '@/lib/i18n';
+import { getStorefrontBaseUrl } from '@/lib/cartUtils';
+import {
+  fetchWhatsAppMessageTemplates,
+  getCustomMessageTemplate,
+  renderMessageTemplate,
+} from '@/lib/messageTemplateUtils';
 
 interface ContactSidebarProps {
   corretor: User;
@@ -16,6 +23,8 @@ interface ContactSidebarProps {
   itemType: 'imóvel' | 'veículo' | 'produto';
   createdAt: string;
   itemImageUrl?: string;
+  /** Product categories, used by the attendant routing rules */
+  itemCategories?: string[];
   language?: SupportedLanguage;
 }
 
@@ -26,18 +35,36 @@ export default function ContactSidebar({
   itemType, 
   createdAt,
   itemImageUrl,
+  itemCategories,
   language = 'pt-BR'
 }: ContactSidebarProps) {
   const { t } = useTranslation(language);
+  const [messageTemplates, setMessageTemplates] = useState<WhatsAppMessageTemplates | null>(null);
+
+  useEffect(() => {
+    if (!corretor.id) return;
+    fetchWhatsAppMessageTemplates(corretor.id).then(setMessageTemplates);
+  }, [corretor.id]);
+
+  const inquiryTemplate = getCustomMessageTemplate(messageTemplates, 'product_inquiry');
+
+  const whatsappMessage = inquiryTemplate
+    ? renderMessageTemplate(inquiryTemplate, {
+        vendedor: corretor.name,
+        produto: itemTitle,
+        referencia: itemId.substring(0, 8),
+        link_produto: corretor.slug ? `${getStorefrontBaseUrl()}/${corretor.slug}/produtos/${itemId}` : window.location.href,
+        imagem: itemImageUrl,
+      })
+    : generateWhatsAppMessage(
+        language,
+        corretor.name,
+        itemTitle,
+        itemId
+      ) + (itemImageUrl ? `\n\nImagem do produto: ${itemImageUrl}` : '');
   
-  const whatsappMessage = generateWhatsAppMessage(
-    language,
-    corretor.name,
-    itemTitle,
-    itemId
-  ) + (itemImageUrl ? `\n\nImagem do produto: ${itemImageUrl}` : '');
-  
-  const whatsappUrl = corretor.whatsapp ? generateWhatsAppUrl(corretor.whatsapp, whatsappMessage) : '';
+  const { attendant, whatsapp } = useStoreAttendant(corretor, itemCategories);
+  const whatsappUrl = whatsapp ? generateWhatsAppUrl(whatsapp, whatsappMessage) : '';
 
   console.log('ContactSidebar - corretor.whatsapp:', corretor.whatsapp);
   console.log('ContactSidebar - generated URL:', whatsappUrl);
@@ -46,7 +73,7 @@ export default function ContactSidebar({
 
   const handleWhatsAppClick = async () => {
     // Track the WhatsApp click as a lead
-    await trackWhatsAppClick(itemId, 'product', 'contact_sidebar');
+    await trackWhatsAppClick(itemId, 'product', 'contact_sidebar', undefined, attendant?.id);
   };
 
   const copyToClipboard = async (text: string) => {
@@ -123,7 +150,7 @@ export default function ContactSidebar({
             </Button>
           )}
 
-          {corretor.whatsapp && whatsappUrl !== '#' && (
+          {whatsapp && whatsappUrl !== '#' && (
             <Button 
               className="w-full" 
               variant="outline"
@@ -0,0 +1,322 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Package, Palette, Ruler, Copy, Loader2, Printer, ClipboardList } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { ORDER_STATUS_FLOW, ORDER_STATUS_LABELS, generateOrderTrackingUrl } from '@/lib/orderUtils';
+import { formatCep } from '@/lib/shippingUtils';
+import { formatCpf, formatCustomerAddress, PAYMENT_METHOD_LABELS } from '@/lib/checkoutUtils';
+import { formatPhone } from '@/lib/utils';
+import { getOrderPrintPath } from '@/lib/orderPrintUtils';
+import { formatVariantLabel } from '@/lib/distributionUtils';
+import { formatKitComponentLabel } from '@/lib/kitUtils';
+import OrderStatusBadge from '@/components/orders/OrderStatusBadge';
+import OrderStatusTimeline from '@/components/orders/OrderStatusTimeline';
+import type { Order, OrderStatus } from '@/types';
+
+interface OrderDetailsDialogProps {
+  order: Order | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeSlug?: string;
+  onStatusChange?: (orderId: string, status: OrderStatus, note?: string) => Promise<boolean>;
+}
+
+export default function OrderDetailsDialog({
+  order,
+  open,
+  onOpenChange,
+  storeSlug,
+  onStatusChange
+}: OrderDetailsDialogProps) {
+  const [newStatus, setNewStatus] = useState<OrderStatus | ''>('');
+  const [statusNote, setStatusNote] = useState('');
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+
+  useEffect(() => {
+    setNewStatus('');
+    setStatusNote('');
+  }, [order?.id]);
+
+  if (!order) return null;
+
+  const trackingUrl = storeSlug ? generateOrderTrackingUrl(storeSlug, order.code) : '';
+
+  const handleStatusUpdate = async () => {
+    if (!onStatusChange || !newStatus) return;
+
+    setUpdatingStatus(true);
+    const success = await onStatusChange(order.id, newStatus, statusNote);
+    setUpdatingStatus(false);
+
+    if (success) {
+      setNewStatus('');
+      setStatusNote('');
+    }
+  };
+
+  const copyTrackingUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(trackingUrl);
+      toast.success('Link de acompanhamento copiado!');
+    } catch {
+      toast.error('Erro ao copiar link');
+    }
+  };
+
+  const currency = (order.currency || 'BRL') as SupportedCurrency;
+  const language = (order.language || 'pt-BR') as SupportedLanguage;
+  const formatPrice = (value: number) => formatCurrencyI18n(value, currency, language);
+  const hasCustomer = !!(
+    order.customer_name ||
+    order.customer_phone ||
+    order.customer_cpf ||
+    order.customer_address ||
+    order.payment_method ||
+    order.delivery_notes
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            Pedido {order.code}
+            <OrderStatusBadge status={order.status} />
+          </DialogTitle>
+          <DialogDescription>
+            Recebido em {format(new Date(order.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {/* Status Workflow */}
+          {onStatusChange && (
+            <div className="space-y-3 p-3 border rounded-lg">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Alterar status</Label>
+                  <Select value={newStatus} onValueChange={(value) => setNewStatus(value as OrderStatus)}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Selecionar status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ORDER_STATUS_FLOW.filter(status => status !== order.status).map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {ORDER_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-end">
+                  <Button
+                    className="w-full h-9"
+                    onClick={handleStatusUpdate}
+                    disabled={!newStatus || updatingStatus}
+                  >
+                    {updatingStatus && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Atualizar Status
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Observação (opcional, visível para o cliente)</Label>
+                <Textarea
+                  value={statusNote}
+                  onChange={(e) => setStatusNote(e.target.value)}
+                  placeholder="Ex: Enviado pelos Correios, código de rastreio BR123456789"
+                  className="min-h-[60px] text-sm"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" variant="outline" asChild>
+              <a href={getOrderPrintPath(order.id, 'customer')} target="_blank" rel="noopener noreferrer">
+                <Printer className="h-3 w-3 mr-1" />
+                Imprimir pedido
+              </a>
+            </Button>
+            <Button size="sm" variant="outline" asChild>
+              <a href={getOrderPrintPath(order.id, 'picking')} target="_blank" rel="noopener noreferrer">
+                <ClipboardList className="h-3 w-3 mr-1" />
+                Romaneio
+              </a>
+            </Button>
+          </div>
+
+          {trackingUrl && (
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate text-xs bg-muted px-2 py-1.5 rounded">{trackingUrl}</code>
+              <Button size="sm" variant="outline" className="h-8" onClick={copyTrackingUrl}>
+                <Copy className="h-3 w-3 mr-1" />
+                Copiar
+              </Button>
+            </div>
+          )}
+
+          {hasCustomer && (
+            <div className="space-y-1 p-3 border rounded-lg text-sm">
+              <h4 className="font-semibold">Cliente</h4>
+              {order.customer_name && <p>{order.customer_name}</p>}
+              {order.customer_phone && (
+                <p className="text-muted-foreground">Telefone: {formatPhone(order.customer_phone)}</p>
+              )}
+              {order.customer_cpf && (
+                <p className="text-muted-foreground">CPF: {formatCpf(order.customer_cpf)}</p>
+              )}
+              {order.customer_address && (
+                <p className="text-muted-foreground">Endereço: {formatCustomerAddress(order.customer_address)}</p>
+              )}
+              {order.payment_method && (
+                <p className="text-muted-foreground">
+                  Pagamento: {PAYMENT_METHOD_LABELS[order.payment_method] || order.payment_method}
+                </p>
+              )}
+              {order.delivery_notes && (
+                <p className="text-muted-foreground">Entrega: {order.delivery_notes}</p>
+              )}
+            </div>
+          )}
+
+          {(order.items || []).map((item) => {
+            const unitPrice = item.applied_tier_price || item.unit_price;
+
+            return (
+              <div key={item.id} className="flex gap-3 p-3 border rounded-lg">
+                <div className="w-14 h-14 bg-white rounded-lg overflow-hidden border border-gray-200 flex-shrink-0">
+                  <img
+                    src={item.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                    alt={item.title}
+                    className="w-full h-full object-cover"
+                  />
+                </div>
+
+                <div className="flex-1 min-w-0 space-y-1">
+                  <h4 className="font-medium text-sm line-clamp-2">{item.title}</h4>
+
+                  {item.item_type === 'distribution' && (
+                    <Badge className="bg-blue-600 text-white text-xs">
+                      <Package className="h-3 w-3 mr-1" />
+                      Distribuição
+                    </Badge>
+                  )}
+
+                  {(item.color || item.size) && (
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      {item.color && (
+                        <span className="flex items-center gap-1 capitalize">
+                          <Palette className="h-3 w-3" />
+                          {item.color}
+                        </span>
+                      )}
+                      {item.size && (
+                        <span className="flex items-center gap-1">
+                          <Ruler className="h-3 w-3" />
+                          {item.size}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  {item.sku && (
+                    <p className="text-xs text-muted-foreground">SKU: {item.sku}</p>
+                  )}
+
+                  {item.distribution_items && item.distribution_items.length > 0 && (
+                    <div className="space-y-0.5 text-xs text-muted-foreground">
+                      {item.distribution_items.map((variant, index) => (
+                        <div key={index}>
+                          • {variant.quantity}x {formatVariantLabel(variant, ' • ') || 'Padrão'}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {item.kit_components && item.kit_components.length > 0 && (
+                    <div className="space-y-0.5 text-xs text-muted-foreground">
+                      {item.kit_components.map((component, index) => (
+                        <div key={index}>• {formatKitComponentLabel(component)}</div>
+                      ))}
+                    </div>
+                  )}
+
+                  {item.notes && (
+                    <p className="text-xs text-muted-foreground">Obs.: {item.notes}</p>
+                  )}
+
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {item.quantity} x {formatPrice(unitPrice)}
+                      {item.applied_tier_price && item.applied_tier_price < item.unit_price && (
+                        <Badge variant="outline" className="ml-2 text-xs">Preço escalonado</Badge>
+                      )}
+                    </span>
+                    <span className="font-semibold">{formatPrice(item.subtotal)}</span>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="space-y-2 pt-2">
+            <h4 className="text-sm font-semibold">Histórico</h4>
+            <OrderStatusTimeline history={order.status_history || []} />
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>Itens</span>
+            <span>{order.item_count}</span>
+          </div>
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>Subtotal</span>
+            <span>{formatPrice(order.subtotal)}</span>
+          </div>
+          {!!order.discount_amount && (
+            <div className="flex justify-between text-sm text-green-600">
+              <span>Cupom {order.coupon_code}</span>
+              <span>-{formatPrice(order.discount_amount)}</span>
+            </div>
+          )}
+          {order.shipping_method && (
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>Frete ({order.shipping_method}){order.shipping_cep ? ` • CEP ${formatCep(order.shipping_cep)}` : ''}</span>
+              <span>{order.shipping_cost ? formatPrice(order.shipping_cost) : 'Grátis'}</span>
+            </div>
+          )}
+          <div className="flex justify-between items-center">
+            <span className="font-semibold">Total</span>
+            <span className="text-lg font-bold text-primary">{formatPrice(order.total)}</span>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
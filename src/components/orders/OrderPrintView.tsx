@@ -0,0 +1,219 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { ORDER_STATUS_LABELS } from '@/lib/orderUtils';
+import { formatCep } from '@/lib/shippingUtils';
+import { formatCpf, formatCustomerAddress, PAYMENT_METHOD_LABELS } from '@/lib/checkoutUtils';
+import { formatVariantLabel } from '@/lib/distributionUtils';
+import { buildPickingList, expandOrderItemVariants, type OrderPrintLayout } from '@/lib/orderPrintUtils';
+import { formatPhone } from '@/lib/utils';
+import type { Order, User } from '@/types';
+
+interface OrderPrintViewProps {
+  order: Order;
+  layout: OrderPrintLayout;
+  seller?: Pick<User, 'name' | 'whatsapp' | 'email'> | null;
+}
+
+export default function OrderPrintView({ order, layout, seller }: OrderPrintViewProps) {
+  const currency = (order.currency || 'BRL') as SupportedCurrency;
+  const language = (order.language || 'pt-BR') as SupportedLanguage;
+  const formatPrice = (value: number) => formatCurrencyI18n(value, currency, language);
+  const items = order.items || [];
+  const createdAt = format(new Date(order.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+
+  const customerLines = [
+    order.customer_name,
+    order.customer_phone ? `Telefone: ${formatPhone(order.customer_phone)}` : '',
+    order.customer_cpf ? `CPF: ${formatCpf(order.customer_cpf)}` : '',
+    order.customer_address ? formatCustomerAddress(order.customer_address) : '',
+    order.payment_method ? `Pagamento: ${PAYMENT_METHOD_LABELS[order.payment_method] || order.payment_method}` : '',
+    order.delivery_notes ? `Entrega: ${order.delivery_notes}` : '',
+  ].filter(Boolean);
+
+  const header = (
+    <div className="flex items-start justify-between gap-4 border-b border-gray-300 pb-4">
+      <div>
+        <h1 className="text-2xl font-bold">
+          {layout === 'picking' ? 'Romaneio de separação' : 'Pedido'} {order.code}
+        </h1>
+        <p className="text-sm text-gray-600">
+          {createdAt} • {ORDER_STATUS_LABELS[order.status]}
+        </p>
+      </div>
+      {seller && (
+        <div className="text-right text-sm">
+          <p className="font-semibold">{seller.name}</p>
+          {seller.whatsapp && <p className="text-gray-600">{formatPhone(seller.whatsapp)}</p>}
+          {seller.email && <p className="text-gray-600">{seller.email}</p>}
+        </div>
+      )}
+    </div>
+  );
+
+  const customerSection = (customerLines.length > 0 || order.shipping_method) && (
+    <div className="grid grid-cols-2 gap-4 text-sm">
+      {customerLines.length > 0 && (
+        <div>
+          <h2 className="font-semibold mb-1">Cliente</h2>
+          {customerLines.map((line) => (
+            <p key={line}>{line}</p>
+          ))}
+        </div>
+      )}
+      {order.shipping_method && (
+        <div>
+          <h2 className="font-semibold mb-1">Entrega</h2>
+          <p>{order.shipping_method}</p>
+          {order.shipping_cep && <p>CEP {formatCep(order.shipping_cep)}</p>}
+        </div>
+      )}
+    </div>
+  );
+
+  if (layout === 'picking') {
+    const pickingList = buildPickingList(items);
+    const totalPieces = pickingList.reduce((sum, line) => sum + line.quantity, 0);
+
+    return (
+      <div className="space-y-6 text-gray-900">
+        {header}
+        {customerSection}
+
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="border-b-2 border-gray-400 text-left">
+              <th className="py-2 w-8"></th>
+              <th className="py-2 w-14"></th>
+              <th className="py-2">Produto</th>
+              <th className="py-2">Cor</th>
+              <th className="py-2">Tamanho</th>
+              <th className="py-2 text-right">Qtd.</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pickingList.map((line) => (
+              <tr key={line.key} className="border-b border-gray-200 break-inside-avoid">
+                <td className="py-2 align-top">
+                  <div className="h-4 w-4 border-2 border-gray-500 rounded-sm" />
+                </td>
+                <td className="py-2 align-top">
+                  {line.imageUrl && (
+                    <img src={line.imageUrl} alt={line.title} className="h-12 w-12 object-cover rounded border" />
+                  )}
+                </td>
+                <td className="py-2 align-top">
+                  <p className="font-medium">{line.title}</p>
+                  {line.sku && <p className="text-xs text-gray-600">SKU: {line.sku}</p>}
+                  {line.notes.map((note) => (
+                    <p key={note} className="text-xs text-gray-600">Obs.: {note}</p>
+                  ))}
+                </td>
+                <td className="py-2 align-top capitalize">{line.color || '-'}</td>
+                <td className="py-2 align-top">{line.size || '-'}</td>
+                <td className="py-2 align-top text-right text-base font-bold">{line.quantity}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td colSpan={5} className="py-2 text-right font-semibold">Total de peças</td>
+              <td className="py-2 text-right text-base font-bold">{totalPieces}</td>
+            </tr>
+          </tfoot>
+        </table>
+
+        <div className="grid grid-cols-2 gap-8 pt-10 text-sm">
+          <div className="border-t border-gray-400 pt-1 text-center">Separado por</div>
+          <div className="border-t border-gray-400 pt-1 text-center">Conferido por</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 text-gray-900">
+      {header}
+      {customerSection}
+
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="border-b-2 border-gray-400 text-left">
+            <th className="py-2 w-16"></th>
+            <th className="py-2">Produto</th>
+            <th className="py-2 text-right">Qtd.</th>
+            <th className="py-2 text-right">Preço unit.</th>
+            <th className="py-2 text-right">Subtotal</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item) => {
+            const unitPrice = item.applied_tier_price || item.unit_price;
+            const variants = expandOrderItemVariants(item).filter((variant) => formatVariantLabel(variant));
+
+            return (
+              <tr key={item.id} className="border-b border-gray-200 break-inside-avoid">
+                <td className="py-2 align-top">
+                  {item.featured_image_url && (
+                    <img src={item.featured_image_url} alt={item.title} className="h-14 w-14 object-cover rounded border" />
+                  )}
+                </td>
+                <td className="py-2 align-top">
+                  <p className="font-medium">{item.title}</p>
+                  {item.item_type === 'distribution'
+                    ? variants.map((variant, index) => (
+                        <p key={index} className="text-xs text-gray-600 capitalize">
+                          {variant.quantity}x {formatVariantLabel(variant, ' • ')}
+                        </p>
+                      ))
+                    : variants.length > 0 && (
+                        <p className="text-xs text-gray-600 capitalize">{formatVariantLabel(variants[0], ' • ')}</p>
+                      )}
+                  {item.sku && <p className="text-xs text-gray-600">SKU: {item.sku}</p>}
+                  {item.notes && <p className="text-xs text-gray-600">Obs.: {item.notes}</p>}
+                </td>
+                <td className="py-2 align-top text-right">{item.quantity}</td>
+                <td className="py-2 align-top text-right">
+                  {formatPrice(unitPrice)}
+                  {item.applied_tier_price && item.applied_tier_price < item.unit_price && (
+                    <p className="text-xs text-gray-500">
+                      Preço escalonado (de <span className="line-through">{formatPrice(item.unit_price)}</span>)
+                    </p>
+                  )}
+                </td>
+                <td className="py-2 align-top text-right font-medium">{formatPrice(item.subtotal)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="ml-auto w-full max-w-xs space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span>Itens</span>
+          <span>{order.item_count}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Subtotal</span>
+          <span>{formatPrice(order.subtotal)}</span>
+        </div>
+        {!!order.discount_amount && (
+          <div className="flex justify-between">
+            <span>Cupom {order.coupon_code}</span>
+            <span>-{formatPrice(order.discount_amount)}</span>
+          </div>
+        )}
+        {order.shipping_method && (
+          <div className="flex justify-between">
+            <span>Frete ({order.shipping_method})</span>
+            <span>{order.shipping_cost ? formatPrice(order.shipping_cost) : 'Grátis'}</span>
+          </div>
+        )}
+        <div className="flex justify-between border-t border-gray-300 pt-1 text-base font-bold">
+          <span>Total</span>
+          <span>{formatPrice(order.total)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
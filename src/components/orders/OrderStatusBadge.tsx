@@ -0,0 +1,17 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { ORDER_STATUS_COLORS, ORDER_STATUS_LABELS } from '@/lib/orderUtils';
+import type { OrderStatus } from '@/types';
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+  className?: string;
+}
+
+export default function OrderStatusBadge({ status, className }: OrderStatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn('border-transparent', ORDER_STATUS_COLORS[status], className)}>
+      {ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,55 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+import { ORDER_STATUS_LABELS } from '@/lib/orderUtils';
+import type { OrderStatusHistoryEntry } from '@/types';
+
+interface OrderStatusTimelineProps {
+  history: OrderStatusHistoryEntry[];
+}
+
+export default function OrderStatusTimeline({ history }: OrderStatusTimelineProps) {
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">Nenhuma atualização registrada.</p>
+    );
+  }
+
+  // Most recent change first
+  const entries = [...history].reverse();
+
+  return (
+    <ol className="space-y-4">
+      {entries.map((entry, index) => (
+        <li key={entry.id} className="flex gap-3">
+          <div className="flex flex-col items-center">
+            <span
+              className={cn(
+                'mt-1 h-3 w-3 rounded-full border-2',
+                index === 0
+                  ? entry.status === 'cancelado'
+                    ? 'border-red-600 bg-red-600'
+                    : 'border-primary bg-primary'
+                  : 'border-muted-foreground/40 bg-background'
+              )}
+            />
+            {index < entries.length - 1 && (
+              <span className="w-px flex-1 bg-border mt-1" />
+            )}
+          </div>
+          <div className="pb-1">
+            <p className={cn('text-sm font-medium', index > 0 && 'text-muted-foreground')}>
+              {ORDER_STATUS_LABELS[entry.status]}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {format(new Date(entry.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+            </p>
+            {entry.note && (
+              <p className="text-sm mt-1">{entry.note}</p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
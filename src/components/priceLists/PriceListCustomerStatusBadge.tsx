@@ -0,0 +1,17 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { PRICE_LIST_CUSTOMER_STATUS_COLORS, PRICE_LIST_CUSTOMER_STATUS_LABELS } from '@/lib/priceListUtils';
+import type { PriceListCustomerStatus } from '@/types';
+
+interface PriceListCustomerStatusBadgeProps {
+  status: PriceListCustomerStatus;
+  className?: string;
+}
+
+export default function PriceListCustomerStatusBadge({ status, className }: PriceListCustomerStatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn('border-transparent', PRICE_LIST_CUSTOMER_STATUS_COLORS[status], className)}>
+      {PRICE_LIST_CUSTOMER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
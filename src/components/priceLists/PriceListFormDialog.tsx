@@ -0,0 +1,297 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { BadgePercent, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ProductSelector } from '@/components/ui/product-selector';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { formatCurrency } from '@/lib/utils';
+import {
+  fetchPriceListProducts,
+  type PriceListInput,
+  type PriceListProduct,
+} from '@/lib/priceListUtils';
+import type { PriceList, PriceListItem } from '@/types';
+
+const priceListSchema = z.object({
+  name: z.string().trim().min(1, 'Informe o nome da tabela'),
+  description: z.string().optional(),
+  adjustment_percentage: z.coerce
+    .number()
+    .gt(-100, 'O desconto deve ser menor que 100%')
+    .max(1000, 'O acréscimo deve ser no máximo 1000%'),
+  access_code: z.string().trim().max(30, 'O código deve ter no máximo 30 caracteres').optional(),
+  is_active: z.boolean().default(true),
+});
+
+type PriceListFormData = z.infer<typeof priceListSchema>;
+
+interface PriceListFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  priceList?: PriceList | null;
+  userId?: string;
+  onSave: (priceList: PriceListInput, items: PriceListItem[], priceListId?: string) => Promise<boolean>;
+}
+
+const getDefaultValues = (priceList?: PriceList | null): PriceListFormData => ({
+  name: priceList?.name || '',
+  description: priceList?.description || '',
+  adjustment_percentage: priceList?.adjustment_percentage ?? 0,
+  access_code: priceList?.access_code || '',
+  is_active: priceList?.is_active ?? true,
+});
+
+const getItemPrices = (priceList?: PriceList | null): Record<string, string> =>
+  Object.fromEntries((priceList?.items || []).map(item => [item.product_id, String(item.price)]));
+
+export default function PriceListFormDialog({
+  open,
+  onOpenChange,
+  priceList,
+  userId,
+  onSave
+}: PriceListFormDialogProps) {
+  const [saving, setSaving] = useState(false);
+  const [products, setProducts] = useState<PriceListProduct[]>([]);
+  const [itemPrices, setItemPrices] = useState<Record<string, string>>({});
+
+  const form = useForm<PriceListFormData>({
+    resolver: zodResolver(priceListSchema),
+    defaultValues: getDefaultValues(priceList),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues(priceList));
+      setItemPrices(getItemPrices(priceList));
+    }
+  }, [open, priceList, form]);
+
+  useEffect(() => {
+    if (open && userId) {
+      fetchPriceListProducts(userId).then(setProducts);
+    }
+  }, [open, userId]);
+
+  const productById = new Map(products.map(product => [product.id, product]));
+  const selectedProductIds = Object.keys(itemPrices);
+
+  const handleProductsChange = (productIds: string[]) => {
+    setItemPrices(prev => Object.fromEntries(
+      productIds.map(productId => [
+        productId,
+        prev[productId] ?? String(productById.get(productId)?.price || '')
+      ])
+    ));
+  };
+
+  const removeProduct = (productId: string) => {
+    handleProductsChange(selectedProductIds.filter(id => id !== productId));
+  };
+
+  const handleSubmit = async (data: PriceListFormData) => {
+    const items: PriceListItem[] = Object.entries(itemPrices)
+      .map(([productId, price]) => ({ product_id: productId, price: Number(price) }))
+      .filter(item => item.price > 0);
+
+    setSaving(true);
+
+    const success = await onSave({
+      name: data.name.trim(),
+      description: data.description?.trim() || null,
+      adjustment_percentage: data.adjustment_percentage,
+      access_code: data.access_code?.trim().toUpperCase() || null,
+      is_active: data.is_active,
+    }, items, priceList?.id);
+
+    setSaving(false);
+
+    if (success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BadgePercent className="h-5 w-5" />
+            {priceList ? 'Editar Tabela de Preço' : 'Nova Tabela de Preço'}
+          </DialogTitle>
+          <DialogDescription>
+            Clientes com o código de acesso ou com cadastro aprovado veem estes preços na vitrine e no carrinho
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Atacado" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descrição (opcional)</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Ex: Lojistas com pedido mínimo de 10 peças" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="adjustment_percentage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ajuste (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} />
+                    </FormControl>
+                    <FormDescription>Use -20 para 20% de desconto</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="access_code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Código de acesso</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Ex: ATACADO2024"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      />
+                    </FormControl>
+                    <FormDescription>Deixe vazio para liberar só por cadastro</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Preços por produto</Label>
+              <ProductSelector value={selectedProductIds} onChange={handleProductsChange} userId={userId} />
+              <p className="text-sm text-muted-foreground">
+                Produtos sem preço próprio seguem o ajuste percentual. Preços por quantidade acompanham a mesma proporção.
+              </p>
+
+              {selectedProductIds.length > 0 && (
+                <div className="space-y-2 rounded-lg border p-3">
+                  {selectedProductIds.map(productId => {
+                    const product = productById.get(productId);
+
+                    return (
+                      <div key={productId} className="flex items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">{product?.title || 'Produto'}</p>
+                          {product && product.price > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Preço normal: {formatCurrency(product.price)}
+                            </p>
+                          )}
+                        </div>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className="w-28"
+                          aria-label={`Preço de ${product?.title || 'produto'}`}
+                          value={itemPrices[productId]}
+                          onChange={(e) => setItemPrices(prev => ({ ...prev, [productId]: e.target.value }))}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 flex-shrink-0"
+                          onClick={() => removeProduct(productId)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Tabela ativa</FormLabel>
+                    <FormDescription>Tabelas inativas deixam de ser oferecidas na vitrine</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saving}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar Tabela
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
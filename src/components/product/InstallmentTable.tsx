@@ -0,0 +1,53 @@
+import { cn } from '@/lib/utils';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { calculateInstallmentPlans, formatInstallmentPlan } from '@/lib/installmentUtils';
+import type { InstallmentSettings } from '@/types';
+
+interface InstallmentTableProps {
+  amount: number;
+  settings: InstallmentSettings | null | undefined;
+  currency?: SupportedCurrency;
+  language?: SupportedLanguage;
+  className?: string;
+}
+
+export default function InstallmentTable({
+  amount,
+  settings,
+  currency = 'BRL',
+  language = 'pt-BR',
+  className,
+}: InstallmentTableProps) {
+  const plans = calculateInstallmentPlans(amount, settings);
+  if (plans.length === 0) return null;
+
+  return (
+    <div className={cn('overflow-x-auto rounded-lg border', className)}>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b bg-muted/50">
+            <th className="text-left py-2 px-3 font-semibold">Parcelas</th>
+            <th className="text-right py-2 px-3 font-semibold">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plans.map((plan) => (
+            <tr key={plan.installments} className="border-b last:border-0">
+              <td className={cn('py-2 px-3', plan.interestFree && 'text-green-700 dark:text-green-400')}>
+                {formatInstallmentPlan(plan, currency, language)}
+                {!plan.interestFree && (
+                  <span className="text-xs text-muted-foreground ml-1">
+                    ({plan.monthlyRate.toLocaleString(language, { maximumFractionDigits: 2 })}% a.m.)
+                  </span>
+                )}
+              </td>
+              <td className="py-2 px-3 text-right">
+                {formatCurrencyI18n(plan.total, currency, language)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
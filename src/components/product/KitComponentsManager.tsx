@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrency } from '@/lib/utils';
+import {
+  calculateKitPrice,
+  fetchKitComponentCandidates,
+  getKitItemUnitPrice,
+} from '@/lib/kitUtils';
+import type { Product, ProductKitItem } from '@/types';
+
+// Radix Select does not accept empty values
+const CUSTOMER_CHOICE = '__customer__';
+
+interface KitComponentsManagerProps {
+  userId?: string;
+  kitId?: string;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  items: ProductKitItem[];
+  onChange: (items: ProductKitItem[]) => void;
+  /** Discount over the sum of the items, null when the kit has its own price */
+  discountPercent: number | null;
+  onDiscountPercentChange: (discountPercent: number | null) => void;
+}
+
+export function KitComponentsManager({
+  userId,
+  kitId,
+  enabled,
+  onEnabledChange,
+  items,
+  onChange,
+  discountPercent,
+  onDiscountPercentChange,
+}: KitComponentsManagerProps) {
+  const [candidates, setCandidates] = useState<Product[]>([]);
+  const [selectedProductId, setSelectedProductId] = useState('');
+
+  useEffect(() => {
+    if (!userId || !enabled) return;
+
+    const loadCandidates = async () => {
+      setCandidates(await fetchKitComponentCandidates(userId, kitId));
+    };
+
+    loadCandidates();
+  }, [userId, kitId, enabled]);
+
+  const updateItem = (index: number, changes: Partial<ProductKitItem>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleAddItem = () => {
+    const component = candidates.find(candidate => candidate.id === selectedProductId);
+    if (!component) return;
+
+    onChange([...items, { component_id: component.id, quantity: 1, component }]);
+    setSelectedProductId('');
+  };
+
+  const kitPrice = calculateKitPrice(items, discountPercent ?? 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="is-kit">Este produto é um kit</Label>
+          <p className="text-sm text-muted-foreground">
+            Monte o produto a partir de outros produtos da loja. O pedido lista cada item e baixa o estoque de cada um
+          </p>
+        </div>
+        <Switch
+          id="is-kit"
+          checked={enabled}
+          onCheckedChange={onEnabledChange}
+        />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={selectedProductId} onValueChange={setSelectedProductId}>
+              <SelectTrigger className="sm:flex-1">
+                <SelectValue placeholder="Selecione um produto" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="secondary" disabled={!selectedProductId} onClick={handleAddItem}>
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar ao kit
+            </Button>
+          </div>
+
+          {items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nenhum item no kit. Adicione os produtos que o compõem.
+            </p>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Produto</TableHead>
+                    <TableHead className="w-24">Qtd.</TableHead>
+                    <TableHead>Cor</TableHead>
+                    <TableHead>Tamanho</TableHead>
+                    <TableHead className="text-right">Subtotal</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item, index) => {
+                    const colors = item.component?.colors || [];
+                    const sizes = item.component?.sizes || [];
+
+                    return (
+                      <TableRow key={`${item.component_id}-${index}`}>
+                        <TableCell className="font-medium">{item.component?.title || 'Produto'}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={1}
+                            value={item.quantity}
+                            onChange={(e) => updateItem(index, { quantity: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {colors.length > 0 ? (
+                            <Select
+                              value={item.color || CUSTOMER_CHOICE}
+                              onValueChange={(value) => updateItem(index, { color: value === CUSTOMER_CHOICE ? null : value })}
+                            >
+                              <SelectTrigger className="min-w-32">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={CUSTOMER_CHOICE}>Cliente escolhe</SelectItem>
+                                {colors.map(color => (
+                                  <SelectItem key={color} value={color}>{color}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {sizes.length > 0 ? (
+                            <Select
+                              value={item.size || CUSTOMER_CHOICE}
+                              onValueChange={(value) => updateItem(index, { size: value === CUSTOMER_CHOICE ? null : value })}
+                            >
+                              <SelectTrigger className="min-w-32">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={CUSTOMER_CHOICE}>Cliente escolhe</SelectItem>
+                                {sizes.map(size => (
+                                  <SelectItem key={size} value={size}>{size}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(getKitItemUnitPrice(item.component) * item.quantity)}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                            onClick={() => onChange(items.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="kit-discount-mode">Preço calculado pelos itens</Label>
+                <p className="text-sm text-muted-foreground">
+                  Desligado, o kit usa o preço informado em Preços
+                </p>
+              </div>
+              <Switch
+                id="kit-discount-mode"
+                checked={discountPercent !== null}
+                onCheckedChange={(checked) => onDiscountPercentChange(checked ? 0 : null)}
+              />
+            </div>
+
+            {discountPercent !== null && (
+              <div className="space-y-2">
+                <Label htmlFor="kit-discount-percent">Desconto sobre os itens (%)</Label>
+                <Input
+                  id="kit-discount-percent"
+                  type="number"
+                  min={0}
+                  max={99}
+                  step="0.01"
+                  className="max-w-32"
+                  value={discountPercent}
+                  onChange={(e) => onDiscountPercentChange(Math.min(99, Math.max(0, parseFloat(e.target.value) || 0)))}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Soma dos itens: {formatCurrency(kitPrice.price)}
+                  {kitPrice.discounted_price !== null && (
+                    <> • Preço do kit: <strong>{formatCurrency(kitPrice.discounted_price)}</strong></>
+                  )}
+                </p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { Package } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { getColorValue } from '@/lib/utils';
+import { formatVariantLabel } from '@/lib/distributionUtils';
+import { buildVariantStockMap, isColorInStock, isSizeInStock } from '@/lib/inventoryUtils';
+import type { KitSelectionSlot, KitVariantSelection } from '@/lib/kitUtils';
+
+interface KitComponentsSelectorProps {
+  slots: KitSelectionSlot[];
+  selections: Record<string, KitVariantSelection>;
+  onSelectionChange: (slotKey: string, selection: KitVariantSelection) => void;
+}
+
+const LIGHT_COLORS = ['branco', 'amarelo', 'bege', 'off-white', 'creme'];
+
+export default function KitComponentsSelector({
+  slots,
+  selections,
+  onSelectionChange
+}: KitComponentsSelectorProps) {
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold">Itens do kit</h3>
+      {slots.map((slot) => {
+        const component = slot.item.component;
+        const selection = selections[slot.key] || {};
+        const stockMap = component?.track_inventory ? buildVariantStockMap(component.variant_stock || []) : null;
+        const fixedVariant = formatVariantLabel({ color: slot.item.color || undefined, size: slot.item.size || undefined }, ' • ');
+
+        return (
+          <div key={slot.key} className="rounded-lg border p-3 space-y-3">
+            <div className="flex items-center gap-3">
+              {component?.featured_image_url ? (
+                <img
+                  src={component.featured_image_url}
+                  alt={component.title}
+                  className="h-12 w-12 rounded-md object-cover border"
+                  loading="lazy"
+                />
+              ) : (
+                <div className="h-12 w-12 rounded-md border flex items-center justify-center bg-muted">
+                  <Package className="h-5 w-5 text-muted-foreground" />
+                </div>
+              )}
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {slot.quantity}x {component?.title || 'Produto'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {slot.unit !== null
+                    ? `Unidade ${slot.unit} de ${slot.item.quantity}`
+                    : fixedVariant || 'Sem variações'}
+                  {slot.unit !== null && fixedVariant ? ` • ${fixedVariant}` : ''}
+                </p>
+              </div>
+            </div>
+
+            {slot.colors.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Cor *</Label>
+                <div className="flex flex-wrap gap-2">
+                  {slot.colors.map((color) => {
+                    const isSelected = selection.color === color;
+                    const isOutOfStock = !!stockMap && !isColorInStock(stockMap, color, slot.item.size || selection.size);
+
+                    return (
+                      <button
+                        key={color}
+                        type="button"
+                        disabled={isOutOfStock}
+                        onClick={() => onSelectionChange(slot.key, { ...selection, color: isSelected ? undefined : color })}
+                        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all ${
+                          isSelected
+                            ? 'border-primary bg-primary/10 text-primary'
+                            : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
+                        } ${isOutOfStock ? 'opacity-40 line-through cursor-not-allowed' : ''}`}
+                      >
+                        <div
+                          className={`w-4 h-4 rounded-full border ${LIGHT_COLORS.includes(color.toLowerCase()) ? 'border-gray-400' : 'border-gray-300'} shadow-sm`}
+                          style={{ backgroundColor: getColorValue(color) }}
+                        />
+                        <span className="text-sm capitalize">{color}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {slot.sizes.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Tamanho *</Label>
+                <div className="flex flex-wrap gap-2">
+                  {slot.sizes.map((size) => {
+                    const isSelected = selection.size === size;
+                    const isOutOfStock = !!stockMap && !isSizeInStock(stockMap, size, slot.item.color || selection.color);
+
+                    return (
+                      <button
+                        key={size}
+                        type="button"
+                        disabled={isOutOfStock}
+                        onClick={() => onSelectionChange(slot.key, { ...selection, size: isSelected ? undefined : size })}
+                        className={`flex items-center justify-center min-w-12 h-10 px-2 border rounded-lg transition-all text-sm font-medium ${
+                          isSelected
+                            ? 'border-primary bg-primary text-primary-foreground'
+                            : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
+                        } ${isOutOfStock ? 'opacity-40 line-through cursor-not-allowed' : ''}`}
+                      >
+                        {size}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowRight, History } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatCurrency } from '@/lib/utils';
+import { fetchProductPriceHistory } from '@/lib/priceHistoryUtils';
+import type { ProductPriceHistoryEntry } from '@/types';
+
+interface PriceHistoryTimelineProps {
+  productId: string;
+  /** Owner of the product, shown as "Você" in the timeline */
+  userId?: string;
+}
+
+const formatValue = (value?: number | null) =>
+  value === null || value === undefined ? '—' : formatCurrency(value);
+
+function ValueChange({ label, before, after }: { label: string; before?: number | null; after?: number | null }) {
+  if ((before ?? null) === (after ?? null)) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-sm">
+      <span className="text-muted-foreground">{label}:</span>
+      <span className="text-muted-foreground">{formatValue(before)}</span>
+      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+      <span className="font-medium">{formatValue(after)}</span>
+    </div>
+  );
+}
+
+const getEntryTitle = (entry: ProductPriceHistoryEntry) => {
+  if (!entry.price_tier_id) {
+    return entry.old_price === null && entry.old_discounted_price === null ? 'Preço inicial' : 'Preço do produto';
+  }
+
+  const tier = `Faixa a partir de ${entry.min_quantity ?? '?'} un.`;
+  if (entry.new_price === null && entry.new_discounted_price === null) return `${tier} removida`;
+  if (entry.old_price === null && entry.old_discounted_price === null) return `${tier} criada`;
+  return tier;
+};
+
+const getAuthor = (entry: ProductPriceHistoryEntry, userId?: string) => {
+  if (!entry.changed_by) return 'Sistema';
+  if (entry.changed_by === userId) return 'Você';
+  return entry.changed_by_user?.name || 'Administrador';
+};
+
+export default function PriceHistoryTimeline({ productId, userId }: PriceHistoryTimelineProps) {
+  const [entries, setEntries] = useState<ProductPriceHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      setEntries(await fetchProductPriceHistory(productId));
+      setLoading(false);
+    };
+
+    loadHistory();
+  }, [productId]);
+
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-12 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-6 text-center text-muted-foreground">
+        <History className="h-8 w-8 mb-2" />
+        <p className="text-sm">Nenhuma alteração de preço registrada</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l ml-2 space-y-4">
+      {entries.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+          <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+            <span className="text-sm font-medium">{getEntryTitle(entry)}</span>
+            <span className="text-xs text-muted-foreground">
+              {format(new Date(entry.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })} • {getAuthor(entry, userId)}
+            </span>
+          </div>
+          <ValueChange label="Preço" before={entry.old_price} after={entry.new_price} />
+          <ValueChange label="Promocional" before={entry.old_discounted_price} after={entry.new_discounted_price} />
+        </li>
+      ))}
+    </ol>
+  );
+}
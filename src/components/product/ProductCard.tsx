@@ -1,5 +1,5 @@
 import React from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { ShoppingCart } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
@@ -7,25 +7,32 @@ import { Badge } from '@/components/ui/badge';
 import { formatCurrencyI18n, useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { useCart } from '@/contexts/CartContext';
 import ProductVariantModal from './ProductVariantModal';
-import type { Product } from '@/types';
+import PromotionCountdown from './PromotionCountdown';
+import type { InstallmentSettings, Product } from '@/types';
 import { useState, useEffect } from 'react';
 import { fetchProductPriceTiers, getMinimumPriceFromTiers, getFirstTierPrices } from '@/lib/tieredPricingUtils';
 import { supabase } from '@/lib/supabase';
+import { QUOTE_PRICE_LABEL } from '@/lib/quoteUtils';
+import { applyPriceListToTiers } from '@/lib/priceListUtils';
+import { formatInstallmentPlan, getFeaturedInstallmentPlan } from '@/lib/installmentUtils';
 
 interface ProductCardProps {
   product: Product;
   corretorSlug: string;
   currency?: SupportedCurrency;
   language?: SupportedLanguage;
+  installmentSettings?: InstallmentSettings | null;
 }
 
 export function ProductCard({
   product,
   corretorSlug,
   currency = 'BRL',
-  language = 'pt-BR'
+  language = 'pt-BR',
+  installmentSettings
 }: ProductCardProps) {
   const { t } = useTranslation(language);
+  const navigate = useNavigate();
   const { addToCart, isInCart, getItemQuantity } = useCart();
   const [showVariantModal, setShowVariantModal] = useState(false);
   const [minimumTieredPrice, setMinimumTieredPrice] = useState<number | null>(null);
@@ -37,6 +44,7 @@ export function ProductCard({
     if (product.has_tiered_pricing) {
       setLoadingTiers(true);
       fetchProductPriceTiers(product.id)
+        .then(fetchedTiers => applyPriceListToTiers(fetchedTiers, product.price_list_factor))
         .then(tiers => {
           const minPrice = getMinimumPriceFromTiers(tiers);
           const firstTierData = getFirstTierPrices(tiers);
@@ -46,7 +54,7 @@ export function ProductCard({
         .catch(err => console.error('Error loading price tiers:', err))
         .finally(() => setLoadingTiers(false));
     }
-  }, [product.id, product.has_tiered_pricing]);
+  }, [product.id, product.has_tiered_pricing, product.price_list_factor]);
 
   useEffect(() => {
     const ensureFeaturedImage = async () => {
@@ -80,7 +88,12 @@ export function ProductCard({
   const isTieredPricing = product.has_tiered_pricing && effectiveMinPrice !== null && effectiveMinPrice > 0;
 
   const isAvailable = product.status === 'disponivel';
-  const hasPrice = (displayPrice && displayPrice > 0) || (product.has_tiered_pricing && minimumTieredPrice && minimumTieredPrice > 0);
+  const isQuote = !!product.quote_only;
+  const hasPrice = isQuote || (displayPrice && displayPrice > 0) || (product.has_tiered_pricing && minimumTieredPrice && minimumTieredPrice > 0);
+  // Tiered prices depend on the quantity, so only fixed prices get an installment line
+  const installmentPlan = !isQuote && !isTieredPricing && displayPrice
+    ? getFeaturedInstallmentPlan(displayPrice, installmentSettings)
+    : null;
   
   // More robust checking for colors and sizes with debug logging
   const hasColors = product.colors && 
@@ -114,6 +127,12 @@ export function ProductCard({
     e.preventDefault();
     e.stopPropagation();
 
+    // The pieces of a kit are chosen on the product page
+    if (product.product_type === 'kit') {
+      navigate(`/${corretorSlug}/produtos/${product.id}`);
+      return;
+    }
+
     // If product has options (colors/sizes) OR tiered pricing, show variant modal
     if (isAvailable && hasPrice && (hasOptions || product.has_tiered_pricing)) {
       setShowVariantModal(true);
@@ -163,13 +182,34 @@ export function ProductCard({
               />
             </div>
             
+            {/* Promotion Countdown - Top Left */}
+            {!isQuote && hasDiscount && product.promotion_ends_at && (
+              <div className="absolute top-3 left-3 md:top-5 md:left-5">
+                <PromotionCountdown
+                  endsAt={product.promotion_ends_at}
+                  language={language}
+                  className="text-[10px] md:text-xs px-1.5 md:px-2 py-0.5 md:py-1"
+                />
+              </div>
+            )}
+
             {/* Badges - Top Right */}
             <div className="absolute top-3 right-3 md:top-5 md:right-5 flex flex-col gap-1.5">
-              {(hasDiscount && discountPercentage || (isTieredPricing && firstTierPrices?.discountPercentage)) && (
+              {!isQuote && (hasDiscount && discountPercentage || (isTieredPricing && firstTierPrices?.discountPercentage)) && (
                 <Badge className="bg-green-600 hover:bg-green-700 text-white border-transparent text-[10px] md:text-xs px-1.5 md:px-2 py-0.5 md:py-1">
                   -{firstTierPrices?.discountPercentage || discountPercentage}%
                 </Badge>
               )}
+              {product.product_type === 'kit' && (
+                <Badge variant="secondary" className="text-[10px] md:text-xs px-1.5 md:px-2 py-0.5 md:py-1">
+                  Kit
+                </Badge>
+              )}
+              {!isQuote && product.is_lowest_price && (
+                <Badge className="bg-blue-600 hover:bg-blue-700 text-white border-transparent text-[10px] md:text-xs px-1.5 md:px-2 py-0.5 md:py-1">
+                  Menor preço em 30 dias
+                </Badge>
+              )}
             </div>
           </div>
 
@@ -181,7 +221,11 @@ export function ProductCard({
             
             <div className="mt-auto">
               {/* Price Display */}
-              {loadingTiers && product.has_tiered_pricing ? (
+              {isQuote ? (
+                <div className="text-sm md:text-lg font-bold text-primary">
+                  {QUOTE_PRICE_LABEL}
+                </div>
+              ) : loadingTiers && product.has_tiered_pricing ? (
                 <div className="text-sm md:text-lg font-bold text-muted-foreground animate-pulse">
                   Carregando preços...
                 </div>
@@ -226,6 +270,13 @@ export function ProductCard({
                 </div>
               ) : null}
 
+              {/* Installment Plan */}
+              {installmentPlan && (
+                <div className="text-[10px] md:text-xs text-muted-foreground mt-0.5">
+                  {formatInstallmentPlan(installmentPlan, currency, language)}
+                </div>
+              )}
+
               {/* Short Description */}
               {product.short_description && (
                 <p className="text-xs text-muted-foreground mt-2 line-clamp-1 md:line-clamp-2">
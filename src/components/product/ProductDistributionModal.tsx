@@ -7,7 +7,9 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { CircleAlert as AlertCircle, Check, Plus, X, Package } from 'lucide-react';
 import type { Product, PriceTier } from '@/types';
 import { fetchProductPriceTiers, calculateApplicablePrice } from '@/lib/tieredPricingUtils';
+import { applyPriceListToTiers } from '@/lib/priceListUtils';
 import { validateDistribution } from '@/lib/distributionUtils';
+import { useVariantStock } from '@/hooks/useVariantStock';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 
@@ -42,6 +44,11 @@ export function ProductDistributionModal({
 
   const hasColors = product.colors && product.colors.length > 0;
   const hasSizes = product.sizes && product.sizes.length > 0;
+  const { getStock, isColorAvailable, isSizeAvailable } = useVariantStock(product.id, open);
+
+  const newVariantStock = (!hasColors || newColor) && (!hasSizes || newSize)
+    ? getStock(newColor || undefined, newSize || undefined)
+    : null;
 
   useEffect(() => {
     if (open && product.has_tiered_pricing) {
@@ -53,7 +60,7 @@ export function ProductDistributionModal({
     setLoading(true);
     try {
       const fetchedTiers = await fetchProductPriceTiers(product.id);
-      setTiers(fetchedTiers);
+      setTiers(applyPriceListToTiers(fetchedTiers, product.price_list_factor));
     } catch (error) {
       console.error('Error loading tiers:', error);
     } finally {
@@ -76,21 +83,42 @@ export function ProductDistributionModal({
     ? calculateApplicablePrice(effectiveTotalQuantity, tiers, product.price || 0, product.discounted_price)
     : null;
 
+  // Block combinations above the available stock
+  const stockErrors = items
+    .filter(item => {
+      const stock = getStock(item.color, item.size);
+      return stock !== null && item.quantity > stock;
+    })
+    .map(item => {
+      const stock = getStock(item.color, item.size) || 0;
+      const label = [item.color, item.size].filter(Boolean).join(' / ') || product.title;
+      return stock === 0
+        ? `${label} está sem estoque`
+        : `Apenas ${stock} ${stock === 1 ? 'unidade disponível' : 'unidades disponíveis'} de ${label}`;
+    });
+
   // Validação adaptada para preço escalonado
-  const validation = hasTieredPricing
+  const distributionValidation = hasTieredPricing
     ? {
         isValid: items.length > 0 && distributedSum > 0 && items.every(item => item.quantity > 0),
         errors: items.length === 0 ? ['Adicione pelo menos uma variação'] :
                 distributedSum === 0 ? ['A quantidade total deve ser maior que zero'] :
                 items.some(item => item.quantity <= 0) ? ['Todas as quantidades devem ser maiores que zero'] : [],
-        warnings: []
+        warnings: [] as string[]
       }
     : validateDistribution(totalQuantity, items);
 
+  const validation = {
+    ...distributionValidation,
+    isValid: distributionValidation.isValid && stockErrors.length === 0,
+    errors: [...distributionValidation.errors, ...stockErrors],
+  };
+
   const addItem = () => {
     if (newQuantity <= 0) return;
     if (hasColors && !newColor) return;
     if (hasSizes && !newSize) return;
+    if (newVariantStock !== null && newQuantity > newVariantStock) return;
 
     const isDuplicate = items.some(
       item => item.color === newColor && item.size === newSize
@@ -238,9 +266,14 @@ export function ProductDistributionModal({
                     className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
                   >
                     <option value="">Selecione</option>
-                    {product.colors?.map(color => (
-                      <option key={color} value={color}>{color}</option>
-                    ))}
+                    {product.colors?.map(color => {
+                      const isOutOfStock = !isColorAvailable(color, newSize || undefined);
+                      return (
+                        <option key={color} value={color} disabled={isOutOfStock}>
+                          {color}{isOutOfStock ? ' (Esgotado)' : ''}
+                        </option>
+                      );
+                    })}
                   </select>
                 </div>
               )}
@@ -255,9 +288,14 @@ export function ProductDistributionModal({
                     className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
                   >
                     <option value="">Selecione</option>
-                    {product.sizes?.map(size => (
-                      <option key={size} value={size}>{size}</option>
-                    ))}
+                    {product.sizes?.map(size => {
+                      const isOutOfStock = !isSizeAvailable(size, newColor || undefined);
+                      return (
+                        <option key={size} value={size} disabled={isOutOfStock}>
+                          {size}{isOutOfStock ? ' (Esgotado)' : ''}
+                        </option>
+                      );
+                    })}
                   </select>
                 </div>
               )}
@@ -268,8 +306,12 @@ export function ProductDistributionModal({
                   id="new-quantity"
                   type="number"
                   min="1"
+                  max={newVariantStock ?? undefined}
                   value={newQuantity}
-                  onChange={(e) => setNewQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+                  onChange={(e) => {
+                    const quantity = Math.max(1, parseInt(e.target.value) || 1);
+                    setNewQuantity(newVariantStock !== null ? Math.min(quantity, Math.max(newVariantStock, 1)) : quantity);
+                  }}
                   className="h-9"
                 />
               </div>
@@ -282,7 +324,8 @@ export function ProductDistributionModal({
                   disabled={
                     (hasColors && !newColor) ||
                     (hasSizes && !newSize) ||
-                    newQuantity <= 0
+                    newQuantity <= 0 ||
+                    newVariantStock === 0
                   }
                   className="h-9 w-9"
                 >
@@ -18,12 +18,16 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { useCart } from '@/contexts/CartContext';
+import { useVariantStock } from '@/hooks/useVariantStock';
 import { formatCurrencyI18n, useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { toast } from 'sonner';
 import { getColorValue } from '@/lib/utils';
 import type { Product, PriceTier } from '@/types';
 import { fetchProductPriceTiers, calculateApplicablePrice, formatPriceTierRange } from '@/lib/tieredPricingUtils';
+import { applyPriceListToTiers } from '@/lib/priceListUtils';
 import { supabase } from '@/lib/supabase';
+import { QUOTE_PRICE_LABEL } from '@/lib/quoteUtils';
+import { getVariantImageUrl, getVariantPricing } from '@/lib/variantUtils';
 import TieredPricingIndicator from '@/components/product/TieredPricingIndicator';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 
@@ -63,6 +67,7 @@ export default function ProductVariantModal({
   const [selectedSize, setSelectedSize] = useState<string | undefined>();
   const { addToCart, hasVariant, getVariantQuantity } = useCart();
   const { t } = useTranslation(language);
+  const { getStock, isColorAvailable, isSizeAvailable } = useVariantStock(product.id, open);
 
   useEffect(() => {
     const loadTieredPricing = async () => {
@@ -77,7 +82,7 @@ export default function ProductVariantModal({
           .single();
 
         if (productData?.has_tiered_pricing) {
-          const tiers = await fetchProductPriceTiers(product.id);
+          const tiers = applyPriceListToTiers(await fetchProductPriceTiers(product.id), product.price_list_factor);
           setPriceTiers(tiers);
           setHasTieredPricing(true);
 
@@ -97,7 +102,7 @@ export default function ProductVariantModal({
     if (open) {
       loadTieredPricing();
     }
-  }, [product.id, open]);
+  }, [product.id, product.price_list_factor, open]);
 
   // More robust checking for colors and sizes
   const hasColors = Boolean(
@@ -206,6 +211,16 @@ export default function ProductVariantModal({
       return;
     }
 
+    const availableStock = getStock(newItemColor, newItemSize);
+    if (availableStock !== null && newItemQuantity > availableStock) {
+      toast.error(
+        availableStock === 0
+          ? 'Esta combinação está sem estoque'
+          : `Apenas ${availableStock} ${availableStock === 1 ? 'unidade disponível' : 'unidades disponíveis'} desta combinação`
+      );
+      return;
+    }
+
     // Check for duplicate
     const isDuplicate = distributionItems.some(
       item => item.color === newItemColor && item.size === newItemSize
@@ -280,10 +295,24 @@ export default function ProductVariantModal({
   // Can add to cart if distribution is complete (when in distribution mode) or no options
   const canAddToCart = distributionMode ? isDistributionComplete : true;
 
+  // Quote products show no price until the seller answers
+  const isQuote = !!product.quote_only;
+
+  // Variants may have their own price, SKU and photo
+  const variantPricing = getVariantPricing(product, selectedColor, selectedSize);
+  const variantImageUrl = getVariantImageUrl(product, selectedColor, selectedSize);
+  const getUnitPrice = (color?: string, size?: string) => {
+    const pricing = getVariantPricing(product, color, size);
+    return pricing.discounted_price || pricing.price;
+  };
+
   // Calculate price with tiered pricing if applicable
-  let price = product.discounted_price || product.price;
+  let price = variantPricing.discounted_price || variantPricing.price;
   let displayPrice = price;
-  let totalPrice = price * quantity;
+  let totalPrice = distributionMode && hasOptions
+    ? distributionItems.reduce((sum, item) => sum + getUnitPrice(item.color, item.size) * item.quantity, 0) +
+      Math.max(remainingQuantity, 0) * price
+    : price * quantity;
   let pricingInfo = null;
 
   if (hasTieredPricing && priceTiers.length > 0) {
@@ -330,16 +359,23 @@ export default function ProductVariantModal({
           <div className="flex gap-4">
             <div className="w-20 h-20 bg-white rounded-lg overflow-hidden border border-gray-200 shadow-sm flex-shrink-0">
               <img
-                src={product.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                src={variantImageUrl || product.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
                 alt={product.title}
                 className="w-full h-full object-cover"
               />
             </div>
             <div className="flex-1">
               <div className="text-lg font-bold text-primary">
-                {(product.is_starting_price || hasTieredPricing) ? t('product.starting_from') + ' ' : ''}
-                {formatCurrencyI18n(displayPrice, currency, language)}
+                {isQuote ? QUOTE_PRICE_LABEL : (
+                  <>
+                    {(product.is_starting_price || hasTieredPricing) ? t('product.starting_from') + ' ' : ''}
+                    {formatCurrencyI18n(displayPrice, currency, language)}
+                  </>
+                )}
               </div>
+              {variantPricing.sku && !distributionMode && (
+                <p className="text-xs text-muted-foreground mt-1">SKU: {variantPricing.sku}</p>
+              )}
               {product.short_description && (
                 <p className="text-sm text-muted-foreground mt-1">
                   {product.short_description}
@@ -378,7 +414,7 @@ export default function ProductVariantModal({
           )}
 
           {/* Tiered Pricing Info */}
-          {hasTieredPricing && pricingInfo && (
+          {hasTieredPricing && pricingInfo && !isQuote && (
             <TieredPricingIndicator
               currentQuantity={quantity}
               nextTierQuantity={pricingInfo.nextTier?.quantity || 0}
@@ -390,7 +426,7 @@ export default function ProductVariantModal({
           )}
 
           {/* Quick Tier Selector */}
-          {hasTieredPricing && priceTiers.length > 0 && (
+          {hasTieredPricing && priceTiers.length > 0 && !isQuote && (
             <Card className="border-blue-200 dark:border-blue-800">
               <CardHeader className="pb-3">
                 <CardTitle className="text-sm flex items-center gap-2">
@@ -480,17 +516,23 @@ export default function ProductVariantModal({
                           </SelectValue>
                         </SelectTrigger>
                         <SelectContent>
-                          {product.colors!.map((color: string) => (
-                            <SelectItem key={color} value={color}>
-                              <div className="flex items-center gap-2">
-                                <div
-                                  className="w-3 h-3 rounded-full border border-gray-300"
-                                  style={{ backgroundColor: getColorValue(color) }}
-                                />
-                                <span className="capitalize text-xs">{color}</span>
-                              </div>
-                            </SelectItem>
-                          ))}
+                          {product.colors!.map((color: string) => {
+                            const isOutOfStock = !isColorAvailable(color, newItemSize);
+                            return (
+                              <SelectItem key={color} value={color} disabled={isOutOfStock}>
+                                <div className="flex items-center gap-2">
+                                  <div
+                                    className="w-3 h-3 rounded-full border border-gray-300"
+                                    style={{ backgroundColor: getColorValue(color) }}
+                                  />
+                                  <span className="capitalize text-xs">{color}</span>
+                                  {isOutOfStock && (
+                                    <Badge variant="outline" className="text-xs">Esgotado</Badge>
+                                  )}
+                                </div>
+                              </SelectItem>
+                            );
+                          })}
                         </SelectContent>
                       </Select>
                     )}
@@ -509,11 +551,17 @@ export default function ProductVariantModal({
                             const { apparelSizes, shoeSizes } = separateSizes(product.sizes!);
                             const sortedApparelSizes = sortSizes(apparelSizes, false);
                             const sortedShoeSizes = sortSizes(shoeSizes, true);
-                            return [...sortedApparelSizes, ...sortedShoeSizes].map((size: string) => (
-                              <SelectItem key={size} value={size}>
-                                <span className="text-xs">{size}</span>
-                              </SelectItem>
-                            ));
+                            return [...sortedApparelSizes, ...sortedShoeSizes].map((size: string) => {
+                              const isOutOfStock = !isSizeAvailable(size, newItemColor);
+                              return (
+                                <SelectItem key={size} value={size} disabled={isOutOfStock}>
+                                  <span className="text-xs">{size}</span>
+                                  {isOutOfStock && (
+                                    <Badge variant="outline" className="text-xs ml-2">Esgotado</Badge>
+                                  )}
+                                </SelectItem>
+                              );
+                            });
                           })()}
                         </SelectContent>
                       </Select>
@@ -661,14 +709,18 @@ export default function ProductVariantModal({
                 <SelectContent>
                   {product.colors!.map((color: string) => {
                     const colorValue = getColorValue(color);
+                    const isOutOfStock = !isColorAvailable(color, selectedSize);
                     return (
-                      <SelectItem key={color} value={color}>
+                      <SelectItem key={color} value={color} disabled={isOutOfStock}>
                         <div className="flex items-center gap-2">
                           <div 
                             className="w-4 h-4 rounded-full border border-gray-300 shadow-sm"
                             style={{ backgroundColor: colorValue }}
                           />
                           <span className="capitalize">{color}</span>
+                          {isOutOfStock && (
+                            <Badge variant="outline" className="text-xs">Esgotado</Badge>
+                          )}
                         </div>
                       </SelectItem>
                     );
@@ -715,9 +767,10 @@ export default function ProductVariantModal({
                       const numericSize = parseInt(size);
                       const isShoeSize = !isNaN(numericSize) && numericSize >= 17 && numericSize <= 43;
                       const isApparelSize = ['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(size);
+                      const isOutOfStock = !isSizeAvailable(size, selectedColor);
                       
                       return (
-                        <SelectItem key={size} value={size}>
+                        <SelectItem key={size} value={size} disabled={isOutOfStock}>
                           <div className="flex items-center gap-2">
                             <span className="font-medium">{size}</span>
                             {isShoeSize && (
@@ -729,6 +782,9 @@ export default function ProductVariantModal({
                             {!isShoeSize && !isApparelSize && (
                               <Badge variant="outline" className="text-xs">Personalizado</Badge>
                             )}
+                            {isOutOfStock && (
+                              <Badge variant="outline" className="text-xs">Esgotado</Badge>
+                            )}
                           </div>
                         </SelectItem>
                       );
@@ -744,7 +800,7 @@ export default function ProductVariantModal({
           <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
             <span className="font-medium">Total:</span>
             <span className="text-lg font-bold text-primary">
-              {formatCurrencyI18n(totalPrice, currency, language)}
+              {isQuote ? QUOTE_PRICE_LABEL : formatCurrencyI18n(totalPrice, currency, language)}
             </span>
           </div>
 
@@ -6,8 +6,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { useCart } from '@/contexts/CartContext';
+import { useVariantStock } from '@/hooks/useVariantStock';
 import { formatCurrencyI18n, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { getColorValue } from '@/lib/utils';
+import { getVariantImageUrl, getVariantPricing } from '@/lib/variantUtils';
 import type { Product } from '@/types';
 
 interface ProductVariantSelectorProps {
@@ -26,6 +28,7 @@ export default function ProductVariantSelector({
   const { addToCart, hasVariant, getVariantQuantity, updateVariantQuantity } = useCart();
 
   const isAvailable = product.status === 'disponivel';
+  const { trackInventory, getStock, isColorAvailable, isSizeAvailable } = useVariantStock(product.id, isAvailable);
   const hasPrice = product.price && product.price > 0;
   const hasColors = product.colors && product.colors.length > 0;
   const hasSizes = product.sizes && product.sizes.length > 0;
@@ -66,6 +69,10 @@ export default function ProductVariantSelector({
 
   const currentVariantQuantity = getVariantQuantity(product.id, selectedColor, selectedSize);
   const inCart = hasVariant(product.id, selectedColor, selectedSize);
+  const selectionComplete = (!hasColors || !!selectedColor) && (!hasSizes || !!selectedSize);
+  const selectedStock = selectionComplete ? getStock(selectedColor, selectedSize) : null;
+  const variantPricing = getVariantPricing(product, selectedColor, selectedSize);
+  const variantImageUrl = getVariantImageUrl(product, selectedColor, selectedSize);
 
   const handleAddToCart = () => {
     if (isAvailable && hasPrice) {
@@ -100,17 +107,19 @@ export default function ProductVariantSelector({
                 const colorValue = getColorValue(color);
                 const isLightColor = ['branco', 'amarelo', 'bege', 'off-white', 'creme'].includes(color.toLowerCase());
                 const isSelected = selectedColor === color;
+                const isOutOfStock = !isColorAvailable(color, selectedSize);
 
                 return (
                   <button
                     key={color}
                     type="button"
+                    disabled={isOutOfStock}
                     onClick={() => setSelectedColor(isSelected ? undefined : color)}
                     className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-all ${
                       isSelected 
                         ? 'border-primary bg-primary/10 text-primary' 
                         : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
-                    }`}
+                    } ${isOutOfStock ? 'opacity-40 line-through cursor-not-allowed' : ''}`}
                   >
                     <div 
                       className={`w-4 h-4 rounded-full border ${isLightColor ? 'border-gray-400' : 'border-gray-300'} shadow-sm`}
@@ -146,16 +155,18 @@ export default function ProductVariantSelector({
                       <div className="flex flex-wrap gap-2">
                         {sortedApparelSizes.map((size: string) => {
                           const isSelected = selectedSize === size;
+                          const isOutOfStock = !isSizeAvailable(size, selectedColor);
                           return (
                             <button
                               key={size}
                               type="button"
+                              disabled={isOutOfStock}
                               onClick={() => setSelectedSize(isSelected ? undefined : size)}
                               className={`flex items-center justify-center w-12 h-10 border rounded-lg transition-all text-sm font-medium ${
                                 isSelected 
                                   ? 'border-primary bg-primary text-primary-foreground' 
                                   : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
-                              }`}
+                              } ${isOutOfStock ? 'opacity-40 line-through cursor-not-allowed' : ''}`}
                             >
                               {size}
                             </button>
@@ -172,16 +183,18 @@ export default function ProductVariantSelector({
                       <div className="flex flex-wrap gap-2">
                         {sortedShoeSizes.map((size: string) => {
                           const isSelected = selectedSize === size;
+                          const isOutOfStock = !isSizeAvailable(size, selectedColor);
                           return (
                             <button
                               key={size}
                               type="button"
+                              disabled={isOutOfStock}
                               onClick={() => setSelectedSize(isSelected ? undefined : size)}
                               className={`flex items-center justify-center w-12 h-10 border rounded-lg transition-all text-sm font-medium ${
                                 isSelected 
                                   ? 'border-primary bg-primary text-primary-foreground' 
                                   : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
-                              }`}
+                              } ${isOutOfStock ? 'opacity-40 line-through cursor-not-allowed' : ''}`}
                             >
                               {size}
                             </button>
@@ -199,6 +212,36 @@ export default function ProductVariantSelector({
             )}
           </div>
         )}
+
+        {/* Stock */}
+        {trackInventory && selectedStock !== null && (
+          <Badge variant={selectedStock > 0 ? 'secondary' : 'destructive'}>
+            {selectedStock > 0
+              ? `${selectedStock} ${selectedStock === 1 ? 'unidade disponível' : 'unidades disponíveis'}`
+              : 'Esgotado'}
+          </Badge>
+        )}
+
+        {/* Price, SKU and photo of the chosen variant */}
+        {hasOptions && selectionComplete && (
+          <div className="flex items-center gap-3">
+            {variantImageUrl && (
+              <img
+                src={variantImageUrl}
+                alt={[product.title, selectedColor, selectedSize].filter(Boolean).join(' - ')}
+                className="w-16 h-16 rounded-lg object-cover border"
+              />
+            )}
+            <div>
+              <p className="text-lg font-bold text-primary">
+                {formatCurrencyI18n(variantPricing.discounted_price || variantPricing.price, currency, language)}
+              </p>
+              {variantPricing.sku && (
+                <p className="text-xs text-muted-foreground">SKU: {variantPricing.sku}</p>
+              )}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,193 @@
+import { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn, formatCurrency } from '@/lib/utils';
+import { formatVariantLabel } from '@/lib/distributionUtils';
+import { buildProductVariantMatrix } from '@/lib/variantUtils';
+import type { ProductVariant } from '@/types';
+
+// Radix Select does not accept empty values
+const PRODUCT_IMAGE = '__product__';
+
+interface ProductVariantsManagerProps {
+  colors: string[];
+  sizes: string[];
+  variants: ProductVariant[];
+  onChange: (variants: ProductVariant[]) => void;
+  /** Saved product images, new uploads can only be chosen after saving */
+  images: Array<{ id: string; url: string }>;
+  basePrice?: number;
+  hasTieredPricing?: boolean;
+}
+
+export function ProductVariantsManager({
+  colors,
+  sizes,
+  variants,
+  onChange,
+  images,
+  basePrice,
+  hasTieredPricing = false,
+}: ProductVariantsManagerProps) {
+  // Always render the current color×size grid, even if options changed since the last save
+  const matrix = useMemo(
+    () => buildProductVariantMatrix(colors, sizes, variants),
+    [colors, sizes, variants]
+  );
+
+  // SKUs typed in more than one combination, they cannot be saved
+  const duplicateSkus = useMemo(() => {
+    const counts = new Map<string, number>();
+    matrix.forEach(variant => {
+      const sku = variant.sku?.trim().toUpperCase();
+      if (sku) counts.set(sku, (counts.get(sku) || 0) + 1);
+    });
+    return new Set(Array.from(counts.entries()).filter(([, count]) => count > 1).map(([sku]) => sku));
+  }, [matrix]);
+
+  const updateVariant = (color: string, size: string, changes: Partial<ProductVariant>) => {
+    onChange(
+      matrix.map(variant =>
+        variant.color === color && variant.size === size
+          ? { ...variant, ...changes }
+          : variant
+      )
+    );
+  };
+
+  const isDuplicateSku = (variant: ProductVariant) =>
+    duplicateSkus.has(variant.sku?.trim().toUpperCase() || '');
+
+  const parseOptionalNumber = (value: string) => {
+    const parsed = parseFloat(value.replace(',', '.'));
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Informe o que muda em cada combinação de cor e tamanho. Campos vazios usam os dados do produto.
+      </p>
+
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variação</TableHead>
+              <TableHead>SKU</TableHead>
+              <TableHead>Código de barras</TableHead>
+              <TableHead>Preço (R$)</TableHead>
+              <TableHead>Peso (kg)</TableHead>
+              <TableHead>Foto</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {matrix.map(variant => (
+              <TableRow key={`${variant.color}::${variant.size}`}>
+                <TableCell className="font-medium capitalize whitespace-nowrap">
+                  {formatVariantLabel(variant, ' • ') || 'Padrão'}
+                </TableCell>
+                <TableCell>
+                  <Input
+                    className={cn('min-w-28', isDuplicateSku(variant) && 'border-destructive')}
+                    aria-invalid={isDuplicateSku(variant)}
+                    value={variant.sku || ''}
+                    onChange={(e) => updateVariant(variant.color, variant.size, { sku: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    className="min-w-32"
+                    inputMode="numeric"
+                    value={variant.barcode || ''}
+                    onChange={(e) => updateVariant(variant.color, variant.size, { barcode: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className="min-w-24"
+                    disabled={hasTieredPricing}
+                    placeholder={basePrice ? formatCurrency(basePrice) : undefined}
+                    value={variant.price ?? ''}
+                    onChange={(e) => updateVariant(variant.color, variant.size, {
+                      price: parseOptionalNumber(e.target.value) || null,
+                    })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.001"
+                    className="min-w-20"
+                    value={variant.weight ?? ''}
+                    onChange={(e) => updateVariant(variant.color, variant.size, {
+                      weight: parseOptionalNumber(e.target.value),
+                    })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={variant.image_id || PRODUCT_IMAGE}
+                    onValueChange={(value) => updateVariant(variant.color, variant.size, {
+                      image_id: value === PRODUCT_IMAGE ? null : value,
+                    })}
+                    disabled={images.length === 0}
+                  >
+                    <SelectTrigger className="min-w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={PRODUCT_IMAGE}>Foto do produto</SelectItem>
+                      {images.map((image, index) => (
+                        <SelectItem key={image.id} value={image.id}>
+                          <div className="flex items-center gap-2">
+                            <img src={image.url} alt="" className="h-6 w-6 rounded object-cover" />
+                            <span>Foto {index + 1}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {duplicateSkus.size > 0 && (
+        <p className="text-sm text-destructive">
+          Cada SKU só pode ser usado em uma variação
+        </p>
+      )}
+      {hasTieredPricing && (
+        <p className="text-sm text-muted-foreground">
+          Produtos com preço por quantidade usam a tabela de faixas para todas as variações
+        </p>
+      )}
+      {images.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          As fotos das variações podem ser escolhidas entre as imagens já salvas do produto
+        </p>
+      )}
+    </div>
+  );
+}
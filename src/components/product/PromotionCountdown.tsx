@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useTranslation, type SupportedLanguage } from '@/lib/i18n';
+import { formatPromotionCountdown, getPromotionCountdown } from '@/lib/promotionUtils';
+
+interface PromotionCountdownProps {
+  endsAt: string;
+  language?: SupportedLanguage;
+  className?: string;
+}
+
+export default function PromotionCountdown({ endsAt, language = 'pt-BR', className }: PromotionCountdownProps) {
+  const { t } = useTranslation(language);
+  const [countdown, setCountdown] = useState(() => getPromotionCountdown(endsAt));
+
+  useEffect(() => {
+    setCountdown(getPromotionCountdown(endsAt));
+
+    const interval = setInterval(() => {
+      const next = getPromotionCountdown(endsAt);
+      setCountdown(next);
+      if (!next) clearInterval(interval);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  if (!countdown) return null;
+
+  return (
+    <Badge className={cn('bg-red-600 hover:bg-red-700 text-white border-transparent tabular-nums', className)}>
+      <Timer className="h-3 w-3 mr-1" />
+      {t('product.promotion_ends_in')} {formatPromotionCountdown(countdown)}
+    </Badge>
+  );
+}
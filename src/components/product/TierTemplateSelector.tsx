@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ListOrdered, Unlink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { CurrencyInput } from '@/components/ui/currency-input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  buildTiersFromTemplate,
+  fetchTierTemplates,
+  TIER_TEMPLATE_PRICING_LABELS,
+} from '@/lib/tierTemplateUtils';
+import type { PriceTier, TierTemplate } from '@/types';
+
+interface TierTemplateSelectorProps {
+  userId?: string;
+  /** Template the product is linked to, null when the tiers are edited by hand */
+  templateId: string | null;
+  basePrice: number | null;
+  tiers: PriceTier[];
+  onApply: (template: TierTemplate, basePrice: number | null, tiers: PriceTier[]) => void;
+  onDetach: () => void;
+}
+
+export function TierTemplateSelector({
+  userId,
+  templateId,
+  basePrice,
+  tiers,
+  onApply,
+  onDetach,
+}: TierTemplateSelectorProps) {
+  const [templates, setTemplates] = useState<TierTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [draftBasePrice, setDraftBasePrice] = useState<number>(basePrice ?? tiers[0]?.unit_price ?? 0);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const loadTemplates = async () => {
+      setTemplates(await fetchTierTemplates(userId));
+    };
+
+    loadTemplates();
+  }, [userId]);
+
+  const linkedTemplate = templates.find(template => template.id === templateId);
+  const selectedTemplate = templates.find(template => template.id === selectedTemplateId);
+
+  const applyTemplate = (template: TierTemplate, price: number) => {
+    const templateBasePrice = template.pricing_type === 'percentage' ? price : null;
+    onApply(template, templateBasePrice, buildTiersFromTemplate(template, price));
+  };
+
+  if (templateId) {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <ListOrdered className="h-4 w-4" />
+          <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <span>
+              Faixas do modelo <strong>{linkedTemplate?.name || '...'}</strong>. Elas são atualizadas
+              sempre que o modelo mudar; editar uma faixa desvincula o produto.
+            </span>
+            <Button type="button" variant="outline" size="sm" onClick={onDetach}>
+              <Unlink className="h-4 w-4 mr-2" />
+              Desvincular
+            </Button>
+          </AlertDescription>
+        </Alert>
+
+        {linkedTemplate?.pricing_type === 'percentage' && (
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="tier-base-price">Preço base</Label>
+            <CurrencyInput
+              id="tier-base-price"
+              value={basePrice ?? 0}
+              onChange={(value) => applyTemplate(linkedTemplate, value)}
+              placeholder="R$ 0,00"
+            />
+            <p className="text-sm text-muted-foreground">
+              Os descontos do modelo são calculados sobre este valor
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (templates.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Usa as mesmas faixas em vários produtos?{' '}
+        <Link to="/dashboard/tier-templates" className="text-primary underline-offset-4 hover:underline">
+          Crie um modelo de faixas
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <Label>Usar modelo de faixas</Label>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={selectedTemplateId} onValueChange={setSelectedTemplateId}>
+          <SelectTrigger className="sm:w-64">
+            <SelectValue placeholder="Selecione um modelo" />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map(template => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selectedTemplate?.pricing_type === 'percentage' && (
+          <CurrencyInput
+            aria-label="Preço base"
+            className="sm:w-40"
+            value={draftBasePrice}
+            onChange={setDraftBasePrice}
+            placeholder="Preço base"
+          />
+        )}
+        <Button
+          type="button"
+          variant="secondary"
+          disabled={!selectedTemplate || (selectedTemplate.pricing_type === 'percentage' && draftBasePrice <= 0)}
+          onClick={() => selectedTemplate && applyTemplate(selectedTemplate, draftBasePrice)}
+        >
+          Aplicar
+        </Button>
+      </div>
+      {selectedTemplate && (
+        <p className="text-sm text-muted-foreground">
+          {TIER_TEMPLATE_PRICING_LABELS[selectedTemplate.pricing_type]}. As faixas atuais serão substituídas.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ interface TieredPricingIndicatorProps {
   nextTierQuantity: number;
   nextTierSavings: number;
   appliedTierSavings: number;
+  // Set when the quantity comes from a mix-and-match tier group
+  groupName?: string;
   currency?: SupportedCurrency;
   language?: SupportedLanguage;
   className?: string;
@@ -19,6 +21,7 @@ export default function TieredPricingIndicator({
   nextTierQuantity,
   nextTierSavings,
   appliedTierSavings,
+  groupName,
   currency = 'BRL',
   language = 'pt-BR',
   className = '',
@@ -72,7 +75,9 @@ export default function TieredPricingIndicator({
               <p className="text-sm text-blue-800 dark:text-blue-200">
                 <span className="font-semibold">Dica:</span> Adicione mais{' '}
                 <Badge className="bg-blue-600 text-white mx-1">{unitsToNext}</Badge>
-                {unitsToNext === 1 ? 'unidade' : 'unidades'} para economizar{' '}
+                {groupName
+                  ? `${unitsToNext === 1 ? 'peça' : 'peças'} de ${groupName} (qualquer combinação)`
+                  : (unitsToNext === 1 ? 'unidade' : 'unidades')} para economizar{' '}
                 <span className="font-bold">
                   {formatCurrencyI18n(nextTierSavings, currency, language)}
                 </span>
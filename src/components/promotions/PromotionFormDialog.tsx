@@ -0,0 +1,287 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { addDays, format } from 'date-fns';
+import { Loader2, Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { CategorySelector } from '@/components/ui/category-selector';
+import { ProductSelector } from '@/components/ui/product-selector';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PROMOTION_DISCOUNT_TYPE_LABELS, type PromotionInput } from '@/lib/promotionUtils';
+import type { Promotion } from '@/types';
+
+const promotionSchema = z.object({
+  name: z.string().trim().min(1, 'Informe o nome da promoção'),
+  discount_type: z.enum(['percentage', 'fixed']),
+  discount_value: z.coerce.number().positive('O desconto deve ser maior que zero'),
+  categories: z.array(z.string()).default([]),
+  product_ids: z.array(z.string()).default([]),
+  starts_at: z.string().min(1, 'Informe o início da promoção'),
+  ends_at: z.string().min(1, 'Informe o fim da promoção'),
+  is_active: z.boolean().default(true),
+}).refine(
+  (data) => data.discount_type !== 'percentage' || data.discount_value <= 100,
+  { message: 'A porcentagem deve ser no máximo 100%', path: ['discount_value'] }
+).refine(
+  (data) => data.ends_at > data.starts_at,
+  { message: 'O fim deve ser posterior ao início', path: ['ends_at'] }
+);
+
+type PromotionFormData = z.infer<typeof promotionSchema>;
+
+interface PromotionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  promotion?: Promotion | null;
+  // Products preselected for a new promotion (e.g. from a bulk selection)
+  initialProductIds?: string[];
+  userId?: string;
+  onSave: (promotion: PromotionInput, promotionId?: string) => Promise<boolean>;
+}
+
+const toDateTimeInput = (value: Date | string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+const getDefaultValues = (promotion?: Promotion | null, initialProductIds?: string[]): PromotionFormData => ({
+  name: promotion?.name || '',
+  discount_type: promotion?.discount_type || 'percentage',
+  discount_value: promotion?.discount_value || 10,
+  categories: promotion?.categories || [],
+  product_ids: promotion?.product_ids || initialProductIds || [],
+  starts_at: toDateTimeInput(promotion?.starts_at || new Date()),
+  ends_at: toDateTimeInput(promotion?.ends_at || addDays(new Date(), 7)),
+  is_active: promotion?.is_active ?? true,
+});
+
+export default function PromotionFormDialog({
+  open,
+  onOpenChange,
+  promotion,
+  initialProductIds,
+  userId,
+  onSave
+}: PromotionFormDialogProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<PromotionFormData>({
+    resolver: zodResolver(promotionSchema),
+    defaultValues: getDefaultValues(promotion, initialProductIds),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues(promotion, initialProductIds));
+    }
+  }, [open, promotion, initialProductIds, form]);
+
+  const discountType = form.watch('discount_type');
+
+  const handleSubmit = async (data: PromotionFormData) => {
+    setSaving(true);
+
+    const success = await onSave({
+      name: data.name.trim(),
+      discount_type: data.discount_type,
+      discount_value: data.discount_value,
+      categories: data.categories,
+      product_ids: data.product_ids,
+      // Times are picked in the seller's timezone
+      starts_at: new Date(data.starts_at).toISOString(),
+      ends_at: new Date(data.ends_at).toISOString(),
+      is_active: data.is_active,
+    }, promotion?.id);
+
+    setSaving(false);
+
+    if (success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            {promotion ? 'Editar Promoção' : 'Nova Promoção'}
+          </DialogTitle>
+          <DialogDescription>
+            O preço promocional entra e sai da vitrine sozinho nas datas escolhidas, com contagem regressiva para os clientes
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Black Friday" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discount_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de desconto</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(PROMOTION_DISCOUNT_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="discount_value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{discountType === 'percentage' ? 'Desconto (%)' : 'Desconto (R$)'}</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="starts_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Início</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="ends_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fim</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="categories"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Categorias</FormLabel>
+                  <CategorySelector value={field.value} onChange={field.onChange} userId={userId} />
+                  <FormDescription>
+                    Deixe categorias e produtos vazios para aplicar a promoção à loja inteira.
+                    Produtos com preço por quantidade ou sob consulta mantêm seus preços.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="product_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Produtos</FormLabel>
+                  <ProductSelector value={field.value} onChange={field.onChange} userId={userId} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Promoção ativa</FormLabel>
+                    <FormDescription>Desative para pausar a promoção sem perder o agendamento</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saving}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar Promoção
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,19 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { PROMOTION_STATUS_COLORS, PROMOTION_STATUS_LABELS, getPromotionStatus } from '@/lib/promotionUtils';
+import type { Promotion } from '@/types';
+
+interface PromotionStatusBadgeProps {
+  promotion: Promotion;
+  className?: string;
+}
+
+export default function PromotionStatusBadge({ promotion, className }: PromotionStatusBadgeProps) {
+  const status = getPromotionStatus(promotion);
+
+  return (
+    <Badge variant="outline" className={cn('border-transparent', PROMOTION_STATUS_COLORS[status], className)}>
+      {PROMOTION_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
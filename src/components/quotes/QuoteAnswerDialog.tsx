@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { FileText, Package, Palette, Ruler, Loader2, MessageCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { formatCpf, formatCustomerAddress, PAYMENT_METHOD_LABELS } from '@/lib/checkoutUtils';
+import { formatPhone } from '@/lib/utils';
+import { formatVariantLabel } from '@/lib/distributionUtils';
+import { formatQuoteDate, getDefaultValidUntil, getTodayDateString, type QuoteAnswer } from '@/lib/quoteUtils';
+import QuoteStatusBadge from '@/components/quotes/QuoteStatusBadge';
+import type { Quote } from '@/types';
+
+interface QuoteAnswerDialogProps {
+  quote: Quote | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  validityDays: number;
+  onAnswer: (quote: Quote, answer: QuoteAnswer) => Promise<boolean>;
+}
+
+export default function QuoteAnswerDialog({
+  quote,
+  open,
+  onOpenChange,
+  validityDays,
+  onAnswer
+}: QuoteAnswerDialogProps) {
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [validUntil, setValidUntil] = useState('');
+  const [sellerNotes, setSellerNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!quote || !open) return;
+
+    setPrices(Object.fromEntries((quote.items || []).map(item => [
+      item.id,
+      item.unit_price != null ? String(item.unit_price) : '',
+    ])));
+    // An expired answer is renewed from today
+    setValidUntil(
+      quote.valid_until && quote.valid_until >= getTodayDateString()
+        ? quote.valid_until
+        : getDefaultValidUntil(validityDays)
+    );
+    setSellerNotes(quote.seller_notes || '');
+  }, [quote, open, validityDays]);
+
+  if (!quote) return null;
+
+  const items = quote.items || [];
+  const canAnswer = quote.status === 'pendente' || quote.status === 'respondido';
+  const currency = (quote.currency || 'BRL') as SupportedCurrency;
+  const language = (quote.language || 'pt-BR') as SupportedLanguage;
+  const formatPrice = (value: number) => formatCurrencyI18n(value, currency, language);
+  const getPrice = (itemId: string) => Math.max(0, Number(prices[itemId]) || 0);
+  const total = items.reduce((sum, item) => sum + getPrice(item.id) * item.quantity, 0);
+  const isComplete = items.length > 0 && items.every(item => prices[item.id] !== '' && getPrice(item.id) > 0);
+  const hasCustomer = !!(
+    quote.customer_name ||
+    quote.customer_phone ||
+    quote.customer_cpf ||
+    quote.customer_address ||
+    quote.payment_method ||
+    quote.delivery_notes
+  );
+
+  const handleSubmit = async () => {
+    if (!isComplete || !validUntil) return;
+
+    setSaving(true);
+    const success = await onAnswer(quote, {
+      prices: Object.fromEntries(items.map(item => [item.id, getPrice(item.id)])),
+      validUntil,
+      sellerNotes,
+    });
+    setSaving(false);
+
+    if (success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Orçamento {quote.code}
+            <QuoteStatusBadge quote={quote} />
+          </DialogTitle>
+          <DialogDescription>
+            Recebido em {format(new Date(quote.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {hasCustomer && (
+            <div className="space-y-1 p-3 border rounded-lg text-sm">
+              <h4 className="font-semibold">Cliente</h4>
+              {quote.customer_name && <p>{quote.customer_name}</p>}
+              {quote.customer_phone && (
+                <p className="text-muted-foreground">Telefone: {formatPhone(quote.customer_phone)}</p>
+              )}
+              {quote.customer_cpf && (
+                <p className="text-muted-foreground">CPF: {formatCpf(quote.customer_cpf)}</p>
+              )}
+              {quote.customer_address && (
+                <p className="text-muted-foreground">Endereço: {formatCustomerAddress(quote.customer_address)}</p>
+              )}
+              {quote.payment_method && (
+                <p className="text-muted-foreground">
+                  Pagamento: {PAYMENT_METHOD_LABELS[quote.payment_method] || quote.payment_method}
+                </p>
+              )}
+              {quote.delivery_notes && (
+                <p className="text-muted-foreground">Entrega: {quote.delivery_notes}</p>
+              )}
+            </div>
+          )}
+
+          {items.map((item) => (
+            <div key={item.id} className="flex gap-3 p-3 border rounded-lg">
+              <div className="w-14 h-14 bg-white rounded-lg overflow-hidden border border-gray-200 flex-shrink-0">
+                <img
+                  src={item.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                  alt={item.title}
+                  className="w-full h-full object-cover"
+                />
+              </div>
+
+              <div className="flex-1 min-w-0 space-y-1">
+                <h4 className="font-medium text-sm line-clamp-2">{item.title}</h4>
+
+                {item.item_type === 'distribution' && (
+                  <Badge className="bg-blue-600 text-white text-xs">
+                    <Package className="h-3 w-3 mr-1" />
+                    Distribuição
+                  </Badge>
+                )}
+
+                {(item.color || item.size) && (
+                  <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                    {item.color && (
+                      <span className="flex items-center gap-1 capitalize">
+                        <Palette className="h-3 w-3" />
+                        {item.color}
+                      </span>
+                    )}
+                    {item.size && (
+                      <span className="flex items-center gap-1">
+                        <Ruler className="h-3 w-3" />
+                        {item.size}
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {item.distribution_items && item.distribution_items.length > 0 && (
+                  <div className="space-y-0.5 text-xs text-muted-foreground">
+                    {item.distribution_items.map((variant, index) => (
+                      <div key={index}>
+                        • {variant.quantity}x {formatVariantLabel(variant, ' • ') || 'Padrão'}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {item.notes && (
+                  <p className="text-xs text-muted-foreground">Obs.: {item.notes}</p>
+                )}
+
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  {canAnswer ? (
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground">{item.quantity} x</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Preço unitário"
+                        value={prices[item.id] ?? ''}
+                        onChange={(e) => setPrices(prev => ({ ...prev, [item.id]: e.target.value }))}
+                        className="h-8 w-32"
+                      />
+                    </div>
+                  ) : (
+                    <span className="text-muted-foreground">
+                      {item.quantity} x {item.unit_price != null ? formatPrice(item.unit_price) : '-'}
+                    </span>
+                  )}
+                  <span className="font-semibold">
+                    {formatPrice(canAnswer ? getPrice(item.id) * item.quantity : item.subtotal || 0)}
+                  </span>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
+            <span className="font-medium">Total:</span>
+            <span className="text-lg font-bold text-primary">
+              {formatPrice(canAnswer ? total : quote.total || 0)}
+            </span>
+          </div>
+
+          {canAnswer ? (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="quote-valid-until" className="text-xs">Válido até</Label>
+                <Input
+                  id="quote-valid-until"
+                  type="date"
+                  min={getTodayDateString()}
+                  value={validUntil}
+                  onChange={(e) => setValidUntil(e.target.value)}
+                  className="h-9"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quote-seller-notes" className="text-xs">Condições (opcional, visível para o cliente)</Label>
+                <Textarea
+                  id="quote-seller-notes"
+                  value={sellerNotes}
+                  onChange={(e) => setSellerNotes(e.target.value)}
+                  placeholder="Ex: Frete grátis acima de 50 peças, pagamento em até 3x no boleto"
+                  className="min-h-[60px] text-sm"
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-1 text-sm text-muted-foreground">
+              {quote.valid_until && <p>Válido até {formatQuoteDate(quote.valid_until)}</p>}
+              {quote.seller_notes && <p>Condições: {quote.seller_notes}</p>}
+              {quote.accepted_at && (
+                <p>Aceito em {format(new Date(quote.accepted_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {canAnswer && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSubmit} disabled={!isComplete || !validUntil || saving}>
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <MessageCircle className="h-4 w-4 mr-2" />
+              )}
+              {quote.customer_phone ? 'Responder no WhatsApp' : 'Salvar Resposta'}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
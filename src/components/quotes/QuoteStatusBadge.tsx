@@ -0,0 +1,19 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { QUOTE_STATUS_COLORS, QUOTE_STATUS_LABELS, getQuoteDisplayStatus } from '@/lib/quoteUtils';
+import type { Quote } from '@/types';
+
+interface QuoteStatusBadgeProps {
+  quote: Pick<Quote, 'status' | 'valid_until'>;
+  className?: string;
+}
+
+export default function QuoteStatusBadge({ quote, className }: QuoteStatusBadgeProps) {
+  const status = getQuoteDisplayStatus(quote);
+
+  return (
+    <Badge variant="outline" className={cn('border-transparent', QUOTE_STATUS_COLORS[status], className)}>
+      {QUOTE_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,352 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Loader2, Truck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  SHIPPING_MATCH_TYPE_LABELS,
+  formatCep,
+  normalizeCep,
+  type ShippingRuleInput,
+} from '@/lib/shippingUtils';
+import type { ShippingRule } from '@/types';
+
+// Empty inputs mean "not informed"; 0 days is a valid same-day delivery
+const optionalDays = z.preprocess(
+  (value) => (value === '' || value == null ? undefined : value),
+  z.coerce.number().int('Use um número inteiro de dias').min(0).optional()
+);
+
+const shippingRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Informe o nome da região'),
+  match_type: z.enum(['prefix', 'range']),
+  cep_prefix: z.string().optional(),
+  cep_start: z.string().optional(),
+  cep_end: z.string().optional(),
+  price: z.coerce.number().min(0, 'O valor não pode ser negativo'),
+  delivery_days_min: optionalDays,
+  delivery_days_max: optionalDays,
+  is_active: z.boolean().default(true),
+}).refine(
+  (data) => data.match_type !== 'prefix' || /^\d{1,8}$/.test(normalizeCep(data.cep_prefix || '')),
+  { message: 'Informe de 1 a 8 dígitos iniciais do CEP', path: ['cep_prefix'] }
+).refine(
+  (data) => data.match_type !== 'range' || normalizeCep(data.cep_start || '').length === 8,
+  { message: 'CEP inicial inválido', path: ['cep_start'] }
+).refine(
+  (data) => data.match_type !== 'range' || normalizeCep(data.cep_end || '').length === 8,
+  { message: 'CEP final inválido', path: ['cep_end'] }
+).refine(
+  (data) => data.match_type !== 'range' || normalizeCep(data.cep_end || '') >= normalizeCep(data.cep_start || ''),
+  { message: 'O CEP final deve ser maior que o inicial', path: ['cep_end'] }
+).refine(
+  (data) => data.delivery_days_min == null || data.delivery_days_max == null ||
+    data.delivery_days_max >= data.delivery_days_min,
+  { message: 'O prazo máximo deve ser maior que o mínimo', path: ['delivery_days_max'] }
+);
+
+type ShippingRuleFormData = z.infer<typeof shippingRuleSchema>;
+
+interface ShippingRuleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule?: ShippingRule | null;
+  nextDisplayOrder: number;
+  onSave: (rule: ShippingRuleInput, ruleId?: string) => Promise<boolean>;
+}
+
+const getDefaultValues = (rule?: ShippingRule | null): ShippingRuleFormData => ({
+  name: rule?.name || '',
+  match_type: rule?.match_type || 'prefix',
+  cep_prefix: rule?.cep_prefix || '',
+  cep_start: formatCep(rule?.cep_start || ''),
+  cep_end: formatCep(rule?.cep_end || ''),
+  price: rule?.price ?? 0,
+  delivery_days_min: rule?.delivery_days_min ?? undefined,
+  delivery_days_max: rule?.delivery_days_max ?? undefined,
+  is_active: rule?.is_active ?? true,
+});
+
+export default function ShippingRuleFormDialog({
+  open,
+  onOpenChange,
+  rule,
+  nextDisplayOrder,
+  onSave
+}: ShippingRuleFormDialogProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<ShippingRuleFormData>({
+    resolver: zodResolver(shippingRuleSchema),
+    defaultValues: getDefaultValues(rule),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues(rule));
+    }
+  }, [open, rule, form]);
+
+  const matchType = form.watch('match_type');
+
+  const handleSubmit = async (data: ShippingRuleFormData) => {
+    setSaving(true);
+
+    const success = await onSave({
+      name: data.name.trim(),
+      match_type: data.match_type,
+      cep_prefix: data.match_type === 'prefix' ? normalizeCep(data.cep_prefix || '') : null,
+      cep_start: data.match_type === 'range' ? normalizeCep(data.cep_start || '') : null,
+      cep_end: data.match_type === 'range' ? normalizeCep(data.cep_end || '') : null,
+      price: data.price,
+      delivery_days_min: data.delivery_days_min ?? null,
+      delivery_days_max: data.delivery_days_max ?? null,
+      is_active: data.is_active,
+      display_order: rule?.display_order ?? nextDisplayOrder,
+    }, rule?.id);
+
+    setSaving(false);
+
+    if (success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            {rule ? 'Editar Regra de Frete' : 'Nova Regra de Frete'}
+          </DialogTitle>
+          <DialogDescription>
+            O cliente vê esta opção no carrinho quando o CEP informado está na região
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Capital, Interior SP, Motoboy" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="match_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Região</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(SHIPPING_MATCH_TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {matchType === 'prefix' ? (
+              <FormField
+                control={form.control}
+                name="cep_prefix"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Início do CEP</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Ex: 01"
+                        inputMode="numeric"
+                        {...field}
+                        onChange={(e) => field.onChange(normalizeCep(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Todos os CEPs que começam com estes dígitos
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="cep_start"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>CEP inicial</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="00000-000"
+                          inputMode="numeric"
+                          {...field}
+                          onChange={(e) => field.onChange(formatCep(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="cep_end"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>CEP final</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="99999-999"
+                          inputMode="numeric"
+                          {...field}
+                          onChange={(e) => field.onChange(formatCep(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="price"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Valor do frete (R$)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" step="0.01" {...field} />
+                  </FormControl>
+                  <FormDescription>Use 0 para frete grátis nesta região</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="delivery_days_min"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prazo mínimo (dias úteis)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="1"
+                        placeholder="Opcional"
+                        {...field}
+                        value={field.value ?? ''}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="delivery_days_max"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prazo máximo (dias úteis)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="1"
+                        placeholder="Opcional"
+                        {...field}
+                        value={field.value ?? ''}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Regra ativa</FormLabel>
+                    <FormDescription>Regras inativas não aparecem no carrinho</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saving}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar Regra
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
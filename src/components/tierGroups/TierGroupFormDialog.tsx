@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Layers, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { CategorySelector } from '@/components/ui/category-selector';
+import { ProductSelector } from '@/components/ui/product-selector';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import type { TierGroupInput } from '@/lib/tierGroupUtils';
+import type { TierGroup } from '@/types';
+
+const tierGroupSchema = z.object({
+  name: z.string().trim().min(1, 'Informe o nome do grupo'),
+  categories: z.array(z.string()).default([]),
+  product_ids: z.array(z.string()).default([]),
+  is_active: z.boolean().default(true),
+}).refine(
+  (data) => data.categories.length > 0 || data.product_ids.length > 0,
+  { message: 'Escolha ao menos uma categoria ou um produto', path: ['product_ids'] }
+);
+
+type TierGroupFormData = z.infer<typeof tierGroupSchema>;
+
+interface TierGroupFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group?: TierGroup | null;
+  userId?: string;
+  onSave: (group: TierGroupInput, groupId?: string) => Promise<boolean>;
+}
+
+const getDefaultValues = (group?: TierGroup | null): TierGroupFormData => ({
+  name: group?.name || '',
+  categories: group?.categories || [],
+  product_ids: group?.product_ids || [],
+  is_active: group?.is_active ?? true,
+});
+
+export default function TierGroupFormDialog({
+  open,
+  onOpenChange,
+  group,
+  userId,
+  onSave
+}: TierGroupFormDialogProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<TierGroupFormData>({
+    resolver: zodResolver(tierGroupSchema),
+    defaultValues: getDefaultValues(group),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues(group));
+    }
+  }, [open, group, form]);
+
+  const handleSubmit = async (data: TierGroupFormData) => {
+    setSaving(true);
+
+    const success = await onSave({
+      name: data.name.trim(),
+      categories: data.categories,
+      product_ids: data.product_ids,
+      is_active: data.is_active,
+    }, group?.id);
+
+    setSaving(false);
+
+    if (success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            {group ? 'Editar Grupo' : 'Novo Grupo'}
+          </DialogTitle>
+          <DialogDescription>
+            As quantidades dos produtos do grupo são somadas no carrinho para alcançar as faixas de preço por quantidade
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Camisetas" {...field} />
+                  </FormControl>
+                  <FormDescription>Aparece para o cliente no carrinho</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="categories"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Categorias</FormLabel>
+                  <CategorySelector value={field.value} onChange={field.onChange} userId={userId} />
+                  <FormDescription>
+                    Todos os produtos destas categorias entram no grupo
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="product_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Produtos</FormLabel>
+                  <ProductSelector value={field.value} onChange={field.onChange} userId={userId} />
+                  <FormDescription>
+                    Cada produto continua usando as próprias faixas de preço por quantidade
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Grupo ativo</FormLabel>
+                    <FormDescription>Desative para voltar a contar cada produto separadamente</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saving}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar Grupo
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { ListOrdered, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { TIER_TEMPLATE_PRICING_LABELS, type TierTemplateInput } from '@/lib/tierTemplateUtils';
+import type { TierTemplate, TierTemplatePricingType } from '@/types';
+
+const tierTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Informe o nome do modelo'),
+  pricing_type: z.enum(['fixed', 'percentage']),
+  tiers: z.array(z.object({
+    min_quantity: z.coerce.number().int('Use números inteiros').min(1, 'Mínimo de 1 unidade'),
+    value: z.coerce.number().min(0, 'Informe um valor positivo'),
+  })).min(1, 'Adicione ao menos uma faixa'),
+}).superRefine((data, ctx) => {
+  const quantities = data.tiers.map(tier => tier.min_quantity);
+  if (new Set(quantities).size !== quantities.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Cada faixa precisa de uma quantidade mínima diferente', path: ['tiers'] });
+  }
+  if (data.pricing_type === 'percentage' && data.tiers.some(tier => tier.value >= 100)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'O desconto precisa ser menor que 100%', path: ['tiers'] });
+  }
+});
+
+type TierTemplateFormData = z.infer<typeof tierTemplateSchema>;
+
+interface TierTemplateFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template?: TierTemplate | null;
+  onSave: (template: TierTemplateInput, templateId?: string) => Promise<boolean>;
+}
+
+const getDefaultValues = (template?: TierTemplate | null): TierTemplateFormData => ({
+  name: template?.name || '',
+  pricing_type: template?.pricing_type || 'percentage',
+  tiers: template?.tiers.length
+    ? template.tiers
+    : [{ min_quantity: 1, value: 0 }, { min_quantity: 10, value: 10 }],
+});
+
+export default function TierTemplateFormDialog({
+  open,
+  onOpenChange,
+  template,
+  onSave
+}: TierTemplateFormDialogProps) {
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<TierTemplateFormData>({
+    resolver: zodResolver(tierTemplateSchema),
+    defaultValues: getDefaultValues(template),
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'tiers' });
+  const pricingType = form.watch('pricing_type');
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues(template));
+    }
+  }, [open, template, form]);
+
+  const handleAddTier = () => {
+    const tiers = form.getValues('tiers');
+    const lastQuantity = Math.max(0, ...tiers.map(tier => Number(tier.min_quantity) || 0));
+    append({ min_quantity: lastQuantity + 10, value: 0 });
+  };
+
+  const handleSubmit = async (data: TierTemplateFormData) => {
+    setSaving(true);
+
+    const success = await onSave({
+      name: data.name.trim(),
+      pricing_type: data.pricing_type,
+      tiers: data.tiers,
+    }, template?.id);
+
+    setSaving(false);
+
+    if (success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" />
+            {template ? 'Editar Modelo' : 'Novo Modelo'}
+          </DialogTitle>
+          <DialogDescription>
+            Faixas de preço por quantidade reutilizáveis. Os produtos vinculados são atualizados quando o modelo muda.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Atacado camisetas" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="pricing_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tipo de preço</FormLabel>
+                  <Select value={field.value} onValueChange={(value) => field.onChange(value as TierTemplatePricingType)}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(Object.keys(TIER_TEMPLATE_PRICING_LABELS) as TierTemplatePricingType[]).map(type => (
+                        <SelectItem key={type} value={type}>
+                          {TIER_TEMPLATE_PRICING_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {field.value === 'percentage'
+                      ? 'Cada faixa dá um desconto sobre o preço base informado em cada produto'
+                      : 'Todos os produtos vinculados usam os mesmos preços por unidade'}
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-sm font-medium">
+                <span>A partir de (un.)</span>
+                <span>{pricingType === 'percentage' ? 'Desconto (%)' : 'Preço por unidade (R$)'}</span>
+                <span className="w-8" />
+              </div>
+              {fields.map((field, index) => (
+                <div key={field.id} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    aria-label="Quantidade mínima"
+                    {...form.register(`tiers.${index}.min_quantity`)}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    aria-label={pricingType === 'percentage' ? 'Desconto' : 'Preço por unidade'}
+                    {...form.register(`tiers.${index}.value`)}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-9 w-8 p-0 text-destructive hover:text-destructive"
+                    onClick={() => remove(index)}
+                    disabled={fields.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {form.formState.errors.tiers && (
+                <p className="text-sm font-medium text-destructive">
+                  {form.formState.errors.tiers.message ||
+                    form.formState.errors.tiers.root?.message ||
+                    'Confira as quantidades e os valores das faixas'}
+                </p>
+              )}
+              <Button type="button" variant="outline" size="sm" onClick={handleAddTier}>
+                <Plus className="h-4 w-4 mr-2" />
+                Adicionar Faixa
+              </Button>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saving}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar Modelo
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+} from '@/components/ui/command';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/lib/supabase';
+import { cn } from '@/lib/utils';
+
+interface ProductOption {
+  id: string;
+  title: string;
+}
+
+interface ProductSelectorProps {
+  value: string[];
+  onChange: (productIds: string[]) => void;
+  userId?: string;
+}
+
+export function ProductSelector({ value = [], onChange, userId }: ProductSelectorProps) {
+  const [open, setOpen] = useState(false);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchProducts = async () => {
+      if (!userId) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('products')
+          .select('id, title')
+          .eq('user_id', userId)
+          .order('title');
+
+        if (error) throw error;
+
+        setProducts(data || []);
+      } catch (error) {
+        console.error('Error fetching products:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProducts();
+  }, [userId]);
+
+  const handleSelect = (productId: string) => {
+    if (value.includes(productId)) {
+      onChange(value.filter((id) => id !== productId));
+    } else {
+      onChange([...value, productId]);
+    }
+  };
+
+  const handleRemove = (productId: string) => {
+    onChange(value.filter((id) => id !== productId));
+  };
+
+  const getProductTitle = (productId: string) =>
+    products.find((product) => product.id === productId)?.title || 'Produto removido';
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between"
+          >
+            {value.length > 0
+              ? `${value.length} produto${value.length > 1 ? 's' : ''} selecionado${value.length > 1 ? 's' : ''}`
+              : 'Selecione produtos...'}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-full p-0">
+          <Command>
+            <CommandInput placeholder="Buscar produto..." />
+            <CommandEmpty>
+              {loading ? 'Carregando...' : 'Nenhum produto encontrado.'}
+            </CommandEmpty>
+            <CommandGroup className="max-h-64 overflow-auto">
+              {products.map((product) => (
+                <CommandItem
+                  key={product.id}
+                  value={`${product.title} ${product.id}`}
+                  onSelect={() => handleSelect(product.id)}
+                >
+                  <Check
+                    className={cn(
+                      'mr-2 h-4 w-4',
+                      value.includes(product.id) ? 'opacity-100' : 'opacity-0'
+                    )}
+                  />
+                  <span className="line-clamp-1">{product.title}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((productId) => (
+            <Badge
+              key={productId}
+              variant="secondary"
+              className="px-2 py-1"
+            >
+              <span className="max-w-[200px] truncate">{getProductTitle(productId)}</span>
+              <button
+                type="button"
+                onClick={() => handleRemove(productId)}
+                className="ml-2 hover:text-destructive"
+              >
+                ×
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Package } from 'lucide-react';
+import { buildVariantStockMatrix, getTotalStock } from '@/lib/inventoryUtils';
+import type { ProductVariantStock } from '@/types';
+
+interface VariantStockManagerProps {
+  colors: string[];
+  sizes: string[];
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  stock: ProductVariantStock[];
+  onChange: (stock: ProductVariantStock[]) => void;
+}
+
+export function VariantStockManager({
+  colors,
+  sizes,
+  enabled,
+  onEnabledChange,
+  stock,
+  onChange,
+}: VariantStockManagerProps) {
+  // Always render the current color×size grid, even if options changed since the last save
+  const matrix = useMemo(
+    () => buildVariantStockMatrix(colors, sizes, stock),
+    [colors, sizes, stock]
+  );
+
+  const totalStock = getTotalStock(matrix);
+  const hasSizes = sizes.length > 0;
+  const hasColors = colors.length > 0;
+
+  const handleQuantityChange = (color: string, size: string, value: string) => {
+    const quantity = Math.max(0, parseInt(value, 10) || 0);
+    onChange(
+      matrix.map(entry =>
+        entry.color === color && entry.size === size
+          ? { ...entry, quantity }
+          : entry
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="track-inventory">Controlar estoque por variação</Label>
+          <p className="text-sm text-muted-foreground">
+            O produto será marcado como vendido automaticamente quando todas as variações esgotarem
+          </p>
+        </div>
+        <Switch
+          id="track-inventory"
+          checked={enabled}
+          onCheckedChange={onEnabledChange}
+        />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{hasColors ? 'Cor' : 'Produto'}</TableHead>
+                  {hasSizes ? (
+                    sizes.map(size => (
+                      <TableHead key={size} className="text-center">{size}</TableHead>
+                    ))
+                  ) : (
+                    <TableHead className="text-center">Quantidade</TableHead>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(hasColors ? colors : ['']).map(color => (
+                  <TableRow key={color || 'default'}>
+                    <TableCell className="font-medium capitalize">{color || 'Padrão'}</TableCell>
+                    {(hasSizes ? sizes : ['']).map(size => {
+                      const entry = matrix.find(item => item.color === color && item.size === size);
+                      const quantity = entry?.quantity ?? 0;
+
+                      return (
+                        <TableCell key={size || 'default'} className="text-center">
+                          <Input
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={quantity}
+                            onChange={(e) => handleQuantityChange(color, size, e.target.value)}
+                            className={`w-20 mx-auto text-center ${quantity === 0 ? 'border-destructive/50' : ''}`}
+                          />
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Package className="h-4 w-4" />
+            <span>Total em estoque:</span>
+            <Badge variant={totalStock > 0 ? 'secondary' : 'destructive'}>
+              {totalStock} {totalStock === 1 ? 'unidade' : 'unidades'}
+            </Badge>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,22 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
 import { toast } from 'sonner';
-import type { CartItem, CartState, Product, PriceTier, VariantDistribution, DistributionItem, CartDistribution } from '@/types';
+import type { CartItem, CartState, KitComponent, Product, PriceTier, VariantDistribution, DistributionItem, CartDistribution, ShippingOption, StorefrontPriceList, TierGroup } from '@/types';
 import { fetchProductPriceTiers, calculateApplicablePrice } from '@/lib/tieredPricingUtils';
 import { createDistribution, updateDistribution, deleteDistribution, fetchUserDistributions } from '@/lib/distributionUtils';
+import { fetchInventoryForProducts, buildVariantStockMap, getAvailableStock, type ProductInventory } from '@/lib/inventoryUtils';
+import { fetchStorefrontCoupon, validateCoupon, calculateCouponDiscount, buildCouponLines } from '@/lib/couponUtils';
+import { getProductQuantityRules, getProductCartQuantity, getQuantityRuleMessage } from '@/lib/wholesaleUtils';
+import { applyPriceListToTiers, repriceCartItems } from '@/lib/priceListUtils';
+import { fetchTierGroupsForProducts, getTierQuantity } from '@/lib/tierGroupUtils';
+import { getVariantPricing } from '@/lib/variantUtils';
+import { refreshCartPromotionPrices } from '@/lib/promotionUtils';
+import type { SharedCartReview } from '@/lib/sharedCartUtils';
 import { supabase } from '@/lib/supabase';
 
 interface CartContextType {
   cart: CartState;
   addToCart: (product: Product, selectedColor?: string, selectedSize?: string, quantity?: number, appliedTierPrice?: number) => void;
+  addKitToCart: (product: Product, components: KitComponent[], quantity?: number) => void;
   removeFromCart: (productId: string) => void;
   removeCartVariant: (variantId: string) => void;
   updateQuantity: (productId: string, quantity: number) => void;
@@ -17,6 +26,7 @@ interface CartContextType {
   hasVariant: (productId: string, color?: string, size?: string) => boolean;
   getItemQuantity: (productId: string) => number;
   getVariantQuantity: (productId: string, color?: string, size?: string) => number;
+  getVariantStock: (productId: string, color?: string, size?: string) => number | null;
   updateItemNotes: (productId: string, notes: string) => void;
   updateVariantNotes: (variantId: string, notes: string) => void;
   updateVariantOptions: (variantId: string, color?: string, size?: string) => void;
@@ -26,21 +36,132 @@ interface CartContextType {
   updateDistributionItems: (distributionId: string, items: Array<{ color?: string; size?: string; quantity: number }>) => Promise<boolean>;
   loadDistributions: () => Promise<void>;
   getDistributions: () => CartDistribution[];
+  applyCoupon: (sellerId: string, code: string) => Promise<boolean>;
+  removeCoupon: () => void;
+  setShipping: (option: ShippingOption | null, cep?: string) => void;
+  loadSharedCart: (review: SharedCartReview) => Promise<void>;
+  applyPriceListToCart: (priceList: StorefrontPriceList | null) => void;
+  refreshCartPrices: () => Promise<boolean>;
+  refreshCoupon: (sellerId: string) => Promise<void>;
+  tierGroups: TierGroup[];
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 const STORAGE_KEY = 'vitrineturbo_cart';
 
+const getStockErrorMessage = (title: string, available: number, color?: string, size?: string) => {
+  const variantText = [color, size].filter(Boolean).join(', ');
+  const label = `${title}${variantText ? ` (${variantText})` : ''}`;
+  return available > 0
+    ? `Apenas ${available} ${available === 1 ? 'unidade disponível' : 'unidades disponíveis'} de ${label}`
+    : `${label} está sem estoque`;
+};
+
+const isSameVariant = (color?: string, size?: string, otherColor?: string, otherSize?: string) =>
+  (color || '') === (otherColor || '') && (size || '') === (otherSize || '');
+
+// Units of a product variant already in the cart, as a line, as a kit piece
+// or in a distribution
+const getVariantCartQuantity = (
+  productId: string,
+  color: string | undefined,
+  size: string | undefined,
+  items: CartItem[],
+  distributions: CartDistribution[],
+  ignoreVariantId?: string
+): number => {
+  const itemsQuantity = items
+    .filter(item => item.variantId !== ignoreVariantId)
+    .reduce((sum, item) => {
+      if (item.id === productId && isSameVariant(item.selectedColor, item.selectedSize, color, size)) {
+        return sum + item.quantity;
+      }
+      const piece = item.kit_components?.find(c =>
+        c.product_id === productId && isSameVariant(c.color, c.size, color, size)
+      );
+      return piece ? sum + piece.quantity * item.quantity : sum;
+    }, 0);
+
+  const distributionsQuantity = distributions
+    .filter(dist => dist.product.id === productId)
+    .flatMap(dist => dist.items)
+    .filter(item => isSameVariant(item.color, item.size, color, size))
+    .reduce((sum, item) => sum + item.quantity, 0);
+
+  return itemsQuantity + distributionsQuantity;
+};
+
 export function CartProvider({ children }: { children: ReactNode }) {
   const [cart, setCart] = useState<CartState>({
     items: [],
     distributions: [],
+    subtotal: 0,
+    discount: 0,
+    coupon: null,
+    shipping: null,
+    shippingCep: '',
     total: 0,
     itemCount: 0,
   });
   const [tiersCache, setTiersCache] = useState<Map<string, PriceTier[]>>(new Map());
   const [productsCache, setProductsCache] = useState<Map<string, Product>>(new Map());
+  const [inventoryCache, setInventoryCache] = useState<Map<string, ProductInventory>>(new Map());
+  const [tierGroups, setTierGroups] = useState<TierGroup[]>([]);
+  // Latest cart for async work started by an effect, which must not write back a stale snapshot
+  const cartRef = useRef(cart);
+
+  useEffect(() => {
+    cartRef.current = cart;
+  }, [cart]);
+
+  // Reprice the lines with the current promotions, a stored cart may hold the
+  // price of a promotion that already ended. Resolves whether a price changed.
+  const refreshCartPrices = useCallback(async (items: CartItem[] = cartRef.current.items): Promise<boolean> => {
+    if (items.length === 0) return false;
+
+    const refreshed = await refreshCartPromotionPrices(items);
+    const changed = new Map(
+      refreshed
+        .filter((item, index) =>
+          item.price !== items[index].price || item.discounted_price !== items[index].discounted_price
+        )
+        .map(item => [item.variantId || item.id, item])
+    );
+    if (changed.size === 0) return false;
+
+    setCart(prev => ({
+      ...prev,
+      items: prev.items.map(item => {
+        const update = changed.get(item.variantId || item.id);
+        return update
+          ? {
+              ...item,
+              price: update.price,
+              discounted_price: update.discounted_price,
+              product_price: update.product_price,
+              product_discounted_price: update.product_discounted_price,
+              variants: update.variants,
+              price_list_factor: update.price_list_factor,
+            }
+          : item;
+      }),
+    }));
+    return true;
+  }, []);
+
+  // Reload the applied coupon, the copy stored with the cart may have been
+  // deactivated, expired or used up since it was applied
+  const refreshCoupon = useCallback(async (sellerId: string) => {
+    const current = cartRef.current.coupon;
+    if (!current) return;
+
+    const coupon = await fetchStorefrontCoupon(sellerId, current.code);
+    setCart(prev => (prev.coupon?.code === current.code ? { ...prev, coupon } : prev));
+    if (!coupon) {
+      toast.error(`O cupom ${current.code} não está mais disponível`);
+    }
+  }, []);
 
   // Load cart from localStorage on mount
   useEffect(() => {
@@ -48,19 +169,26 @@ export function CartProvider({ children }: { children: ReactNode }) {
       const savedCart = localStorage.getItem(STORAGE_KEY);
       if (savedCart) {
         const parsedCart = JSON.parse(savedCart);
+        const items: CartItem[] = parsedCart.items || [];
         // Ensure cart has required fields with defaults
         setCart({
-          items: parsedCart.items || [],
+          items,
           distributions: parsedCart.distributions || [],
+          subtotal: parsedCart.subtotal || parsedCart.total || 0,
+          discount: parsedCart.discount || 0,
+          coupon: parsedCart.coupon || null,
+          shipping: parsedCart.shipping || null,
+          shippingCep: parsedCart.shippingCep || '',
           total: parsedCart.total || 0,
           itemCount: parsedCart.itemCount || 0,
         });
+        refreshCartPrices(items);
       }
     } catch (error) {
       console.error('Error loading cart from localStorage:', error);
       localStorage.removeItem(STORAGE_KEY);
     }
-  }, []);
+  }, [refreshCartPrices]);
 
   // Save cart to localStorage whenever it changes
   useEffect(() => {
@@ -78,20 +206,29 @@ export function CartProvider({ children }: { children: ReactNode }) {
       const distributionCount = (cart.distributions || []).reduce((sum, dist) => sum + dist.distribution.total_quantity, 0);
       const totalCount = itemCount + distributionCount;
 
-      let total = 0;
+      let subtotal = 0;
 
       for (const item of (cart.items || [])) {
-        const effectivePrice = item.applied_tier_price || item.discounted_price || item.price;
-        total += effectivePrice * item.quantity;
+        // Quote products have no price until the seller answers
+        const effectivePrice = item.applied_tier_price || item.discounted_price || item.price || 0;
+        subtotal += effectivePrice * item.quantity;
       }
 
       for (const dist of (cart.distributions || [])) {
-        total += dist.distribution.applied_tier_price * dist.distribution.total_quantity;
+        subtotal += dist.distribution.applied_tier_price * dist.distribution.total_quantity;
       }
 
-      if (cart.total !== total || cart.itemCount !== totalCount) {
+      // Coupon discount is applied on top of tiered prices
+      const discount = cart.coupon
+        ? calculateCouponDiscount(cart.coupon, buildCouponLines(cart.items || [], cart.distributions || []))
+        : 0;
+      const total = Math.max(0, subtotal - discount) + (cart.shipping?.price || 0);
+
+      if (cart.total !== total || cart.subtotal !== subtotal || cart.discount !== discount || cart.itemCount !== totalCount) {
         setCart(prev => ({
           ...prev,
+          subtotal,
+          discount,
           total,
           itemCount: totalCount,
         }));
@@ -99,21 +236,144 @@ export function CartProvider({ children }: { children: ReactNode }) {
     };
 
     calculateTotals();
-  }, [cart.items, cart.distributions]);
+  }, [cart.items, cart.distributions, cart.coupon, cart.shipping]);
 
   const generateVariantId = (productId: string, color?: string, size?: string) => {
     return `${productId}-${color || 'no-color'}-${size || 'no-size'}`;
   };
 
+  // Kits with different pieces chosen are separate cart lines
+  const generateKitVariantId = (productId: string, components: KitComponent[]) => {
+    const pieces = components.map(c => `${c.product_id}:${c.color || ''}:${c.size || ''}:${c.quantity}`);
+    return `${productId}-kit-${pieces.join('|')}`;
+  };
+
+  // Units available for a variant, or null when the product does not track inventory
+  const getVariantStock = useCallback((productId: string, color?: string, size?: string, product?: Product): number | null => {
+    const inventory = inventoryCache.get(productId) ||
+      (product?.track_inventory !== undefined
+        ? { trackInventory: product.track_inventory, stock: product.variant_stock || [] }
+        : undefined);
+
+    if (!inventory || !inventory.trackInventory) return null;
+    return getAvailableStock(buildVariantStockMap(inventory.stock), color, size);
+  }, [inventoryCache]);
+
+  const createCartItem = (
+    product: Product,
+    selectedColor?: string,
+    selectedSize?: string,
+    quantity: number = 1,
+    appliedTierPrice?: number,
+    notes: string = '',
+    kitComponents?: KitComponent[]
+  ): CartItem => {
+    // Kits are priced as a whole, other products may have a price and SKU per variant
+    const hasVariants = !kitComponents?.length && !!product.variants?.length;
+    const pricing = hasVariants
+      ? getVariantPricing(product, selectedColor, selectedSize)
+      : { price: product.price, discounted_price: product.discounted_price, sku: undefined };
+
+    // For tiered pricing products without base price, use applied tier price as base price
+    const effectivePrice = product.has_tiered_pricing && appliedTierPrice && (!pricing.price || pricing.price === 0)
+      ? appliedTierPrice
+      : pricing.price;
+
+    return {
+      id: product.id,
+      variantId: kitComponents?.length
+        ? generateKitVariantId(product.id, kitComponents)
+        : generateVariantId(product.id, selectedColor, selectedSize),
+      title: product.title,
+      price: effectivePrice,
+      discounted_price: pricing.discounted_price,
+      quantity: quantity,
+      featured_image_url: product.featured_image_url,
+      short_description: product.short_description,
+      is_starting_price: product.is_starting_price,
+      notes,
+      selectedColor,
+      selectedSize,
+      availableColors: product.colors,
+      availableSizes: product.sizes,
+      has_tiered_pricing: product.has_tiered_pricing,
+      applied_tier_price: appliedTierPrice,
+      category: product.category,
+      min_quantity: product.min_quantity,
+      quantity_multiple: product.quantity_multiple,
+      quote_only: product.quote_only,
+      price_list_factor: product.price_list_factor,
+      kit_components: kitComponents,
+      sku: pricing.sku,
+      variants: hasVariants ? product.variants : undefined,
+      product_price: hasVariants ? product.price : undefined,
+      product_discounted_price: hasVariants ? product.discounted_price : undefined,
+    };
+  };
+
+  // Stock error for the first piece of a kit that is not available, counting
+  // the units already in the cart as regular items, inside other kits or in
+  // distributions
+  const getKitStockError = (
+    components: KitComponent[],
+    kitQuantity: number,
+    items: CartItem[],
+    distributions: CartDistribution[],
+    ignoreVariantId?: string,
+    kitProduct?: Product
+  ): string | null => {
+    for (const component of components) {
+      const componentProduct = kitProduct?.kit_items?.find(item => item.component_id === component.product_id)?.component;
+      const available = getVariantStock(component.product_id, component.color, component.size, componentProduct);
+      if (available === null) continue;
+
+      const inCart = getVariantCartQuantity(
+        component.product_id,
+        component.color,
+        component.size,
+        items,
+        distributions,
+        ignoreVariantId
+      );
+
+      if (inCart + component.quantity * kitQuantity > available) {
+        return getStockErrorMessage(component.title, available, component.color, component.size);
+      }
+    }
+
+    return null;
+  };
+
+  // Tell the customer what is still missing when a product has wholesale quantity rules
+  const notifyQuantityRules = (product: Product, items: CartItem[], distributions: CartDistribution[]) => {
+    const message = getQuantityRuleMessage(
+      product.title,
+      getProductCartQuantity(product.id, items, distributions),
+      getProductQuantityRules(product)
+    );
+    if (message) {
+      toast.info(message);
+    }
+  };
+
   const addToCart = (product: Product, selectedColor?: string, selectedSize?: string, quantity: number = 1, appliedTierPrice?: number) => {
-    // Check if product has a price (either base price or tiered price)
-    const hasValidPrice = (product.price && product.price > 0) || (product.has_tiered_pricing && appliedTierPrice && appliedTierPrice > 0);
+    // Check if product has a price (either base price, variant price or tiered price)
+    const variantPrice = getVariantPricing(product, selectedColor, selectedSize).price;
+    const hasValidPrice = (variantPrice && variantPrice > 0) || (product.has_tiered_pricing && appliedTierPrice && appliedTierPrice > 0);
 
-    if (!hasValidPrice) {
+    if (!hasValidPrice && !product.quote_only) {
       toast.error('Este produto não pode ser adicionado ao carrinho pois não possui preço definido.');
       return;
     }
 
+    // Refuse quantities above the available stock
+    const available = getVariantStock(product.id, selectedColor, selectedSize, product);
+    const inCart = getVariantCartQuantity(product.id, selectedColor, selectedSize, cart.items, cart.distributions);
+    if (available !== null && inCart + quantity > available) {
+      toast.error(getStockErrorMessage(product.title, available, selectedColor, selectedSize));
+      return;
+    }
+
     const variantId = generateVariantId(product.id, selectedColor, selectedSize);
 
     setCart(prev => {
@@ -127,47 +387,63 @@ export function CartProvider({ children }: { children: ReactNode }) {
                 ...item,
                 quantity: item.quantity + quantity,
                 applied_tier_price: appliedTierPrice || item.applied_tier_price,
-                has_tiered_pricing: product.has_tiered_pricing || item.has_tiered_pricing
+                has_tiered_pricing: product.has_tiered_pricing || item.has_tiered_pricing,
+                min_quantity: product.min_quantity,
+                quantity_multiple: product.quantity_multiple,
               }
             : item
         );
 
         const variantText = [selectedColor, selectedSize].filter(Boolean).join(', ');
         toast.success(`Quantidade atualizada: ${product.title}${variantText ? ` (${variantText})` : ''}`);
+        notifyQuantityRules(product, updatedItems, prev.distributions);
         return { ...prev, items: updatedItems };
       } else {
         // Add new item to cart
-        // For tiered pricing products without base price, use applied tier price as base price
-        const effectivePrice = product.has_tiered_pricing && appliedTierPrice && (!product.price || product.price === 0)
-          ? appliedTierPrice
-          : product.price;
-
-        const newItem: CartItem = {
-          id: product.id,
-          variantId,
-          title: product.title,
-          price: effectivePrice,
-          discounted_price: product.discounted_price,
-          quantity: quantity,
-          featured_image_url: product.featured_image_url,
-          short_description: product.short_description,
-          is_starting_price: product.is_starting_price,
-          notes: '',
-          selectedColor,
-          selectedSize,
-          availableColors: product.colors,
-          availableSizes: product.sizes,
-          has_tiered_pricing: product.has_tiered_pricing,
-          applied_tier_price: appliedTierPrice,
-        };
+        const newItem = createCartItem(product, selectedColor, selectedSize, quantity, appliedTierPrice);
 
         const variantText = [selectedColor, selectedSize].filter(Boolean).join(', ');
         toast.success(`Adicionado ao carrinho: ${product.title}${variantText ? ` (${variantText})` : ''}`);
+        notifyQuantityRules(product, [...prev.items, newItem], prev.distributions);
         return { ...prev, items: [...prev.items, newItem] };
       }
     });
   };
 
+  const addKitToCart = (product: Product, components: KitComponent[], quantity: number = 1) => {
+    if ((!product.price || product.price <= 0) && !product.quote_only) {
+      toast.error('Este produto não pode ser adicionado ao carrinho pois não possui preço definido.');
+      return;
+    }
+
+    const stockError = getKitStockError(components, quantity, cart.items, cart.distributions, undefined, product);
+    if (stockError) {
+      toast.error(stockError);
+      return;
+    }
+
+    const variantId = generateKitVariantId(product.id, components);
+
+    setCart(prev => {
+      const existingItem = prev.items.find(item => item.variantId === variantId);
+
+      if (existingItem) {
+        toast.success(`Quantidade atualizada: ${product.title}`);
+        return {
+          ...prev,
+          items: prev.items.map(item =>
+            item.variantId === variantId ? { ...item, quantity: item.quantity + quantity } : item
+          ),
+        };
+      }
+
+      const newItem = createCartItem(product, undefined, undefined, quantity, undefined, '', components);
+      toast.success(`Adicionado ao carrinho: ${product.title}`);
+      notifyQuantityRules(product, [...prev.items, newItem], prev.distributions);
+      return { ...prev, items: [...prev.items, newItem] };
+    });
+  };
+
   const removeFromCart = (productId: string) => {
     setCart(prev => {
       const item = prev.items.find(item => item.id === productId);
@@ -218,6 +494,33 @@ export function CartProvider({ children }: { children: ReactNode }) {
       return;
     }
 
+    const item = cart.items.find(item => item.variantId === variantId);
+    if (item?.kit_components?.length && quantity > item.quantity) {
+      const stockError = getKitStockError(item.kit_components, quantity, cart.items, cart.distributions, variantId);
+      if (stockError) {
+        toast.error(stockError);
+        return;
+      }
+    }
+
+    if (item) {
+      // Other lines, kits and distributions take units of the same variant too
+      const available = getVariantStock(item.id, item.selectedColor, item.selectedSize);
+      const inCart = getVariantCartQuantity(item.id, item.selectedColor, item.selectedSize, cart.items, cart.distributions, variantId);
+      if (available !== null && quantity > item.quantity && inCart + quantity > available) {
+        toast.error(getStockErrorMessage(item.title, available, item.selectedColor, item.selectedSize));
+        return;
+      }
+
+      // Do not let a decrease go below the product minimum; removing the line is still allowed
+      const { minQuantity } = getProductQuantityRules(item);
+      const productQuantity = getProductCartQuantity(item.id, cart.items, cart.distributions) - item.quantity + quantity;
+      if (quantity < item.quantity && productQuantity < minQuantity) {
+        toast.error(`A quantidade mínima de ${item.title} é ${minQuantity} unidades. Para retirar o produto, use o botão remover.`);
+        return;
+      }
+    }
+
     setCart(prev => ({
       ...prev,
       items: prev.items.map(item =>
@@ -231,12 +534,77 @@ export function CartProvider({ children }: { children: ReactNode }) {
     setCart({
       items: [],
       distributions: [],
+      subtotal: 0,
+      discount: 0,
+      coupon: null,
+      shipping: null,
+      shippingCep: cart.shippingCep,
       total: 0,
       itemCount: 0,
     });
     toast.success('Carrinho limpo');
   };
 
+  const applyCoupon = async (sellerId: string, code: string): Promise<boolean> => {
+    if (!code.trim()) return false;
+
+    const coupon = await fetchStorefrontCoupon(sellerId, code);
+    if (!coupon) {
+      toast.error('Cupom inválido ou inativo');
+      return false;
+    }
+
+    const validation = validateCoupon(coupon, buildCouponLines(cart.items, cart.distributions));
+    if (!validation.valid) {
+      toast.error(validation.error);
+      return false;
+    }
+
+    setCart(prev => ({ ...prev, coupon }));
+    toast.success(`Cupom ${coupon.code} aplicado`);
+    return true;
+  };
+
+  const removeCoupon = () => {
+    setCart(prev => ({ ...prev, coupon: null }));
+  };
+
+  const setShipping = useCallback((option: ShippingOption | null, cep?: string) => {
+    setCart(prev => {
+      const shippingCep = cep ?? prev.shippingCep;
+      if (prev.shipping === option && prev.shippingCep === shippingCep) return prev;
+      return { ...prev, shipping: option, shippingCep };
+    });
+  }, []);
+
+  // Replace the cart with a reviewed shared cart. Distributions are stored in
+  // the database, so the current ones are deleted and the shared ones recreated.
+  const loadSharedCart = async (review: SharedCartReview) => {
+    await Promise.all(cart.distributions.map(dist => deleteDistribution(dist.distribution.id)));
+
+    setCart(prev => ({
+      ...prev,
+      items: review.items.map(item =>
+        createCartItem(item.product, item.color, item.size, item.quantity, item.appliedTierPrice, item.notes, item.kitComponents)
+      ),
+      distributions: [],
+      coupon: null,
+      shipping: null,
+    }));
+
+    for (const dist of review.distributions) {
+      await addDistribution(dist.product, dist.totalQuantity, dist.items);
+    }
+  };
+
+  // Move the items to the prices of the price list unlocked on the storefront
+  const applyPriceListToCart = useCallback((priceList: StorefrontPriceList | null) => {
+    setCart(prev => {
+      const items = repriceCartItems(prev.items || [], priceList);
+      return items.every((item, index) => item === prev.items[index]) ? prev : { ...prev, items };
+    });
+  }, []);
+
   const isInCart = (productId: string): boolean => {
     return cart.items.some(item => item.id === productId);
   };
@@ -281,6 +649,16 @@ export function CartProvider({ children }: { children: ReactNode }) {
   };
 
   const updateVariantOptions = (variantId: string, color?: string, size?: string) => {
+    const currentItem = cart.items.find(item => item.variantId === variantId);
+    if (currentItem) {
+      const available = getVariantStock(currentItem.id, color, size);
+      const alreadyInCart = getVariantCartQuantity(currentItem.id, color, size, cart.items, cart.distributions, variantId);
+      if (available !== null && alreadyInCart + currentItem.quantity > available) {
+        toast.error(getStockErrorMessage(currentItem.title, available, color, size));
+        return;
+      }
+    }
+
     setCart(prev => {
       const item = prev.items.find(item => item.variantId === variantId);
       if (!item) return prev;
@@ -303,11 +681,26 @@ export function CartProvider({ children }: { children: ReactNode }) {
         toast.success('Variações combinadas no carrinho');
         return { ...prev, items: updatedItems };
       } else {
-        // Update the variant options
+        // Update the variant options, with the price and SKU of the new variant
+        const pricing = item.variants
+          ? getVariantPricing({
+              price: item.product_price ?? item.price,
+              discounted_price: item.product_discounted_price,
+              has_tiered_pricing: item.has_tiered_pricing,
+              variants: item.variants,
+            }, color, size)
+          : null;
+
         const updatedItems = prev.items.map(item =>
           item.variantId === variantId
             ? { 
                 ...item, 
+                ...(pricing && { sku: pricing.sku }),
+                // Tiered lines keep their price, it depends on the quantity
+                ...(pricing && !item.has_tiered_pricing && {
+                  price: pricing.price,
+                  discounted_price: pricing.discounted_price,
+                }),
                 variantId: newVariantId,
                 selectedColor: color,
                 selectedSize: size
@@ -320,55 +713,191 @@ export function CartProvider({ children }: { children: ReactNode }) {
     });
   };
 
-  const recalculateTieredPrices = async () => {
+  const recalculateTieredPrices = useCallback(async () => {
+    const { items, distributions } = cartRef.current;
+
     // Recalculate prices for products with tiered pricing
-    const updatedItems = await Promise.all(
-      cart.items.map(async (item) => {
-        if (!item.has_tiered_pricing) return item;
+    const itemPrices = new Map<string, { quantity: number; price: number }>();
+    await Promise.all(
+      items.map(async (item) => {
+        if (!item.has_tiered_pricing) return;
 
         try {
-          const tiers = await fetchProductPriceTiers(item.id);
-          if (tiers.length === 0) return item;
+          const tiers = applyPriceListToTiers(await fetchProductPriceTiers(item.id), item.price_list_factor);
+          if (tiers.length === 0) return;
 
+          // Products in a tier group are priced by the combined quantity of the group
+          const { quantity } = getTierQuantity(item, item.quantity, tierGroups, items, distributions);
           const result = calculateApplicablePrice(
-            item.quantity,
+            quantity,
             tiers,
             item.price,
             item.discounted_price
           );
 
-          return {
-            ...item,
-            applied_tier_price: result.unitPrice,
-          };
+          itemPrices.set(item.variantId || item.id, { quantity: item.quantity, price: result.unitPrice });
         } catch (error) {
           console.error('Error recalculating tiered price:', error);
-          return item;
         }
       })
     );
 
-    setCart(prev => ({
-      ...prev,
-      items: updatedItems,
-    }));
-  };
+    const distributionPrices = new Map<string, { quantity: number; price: number }>();
+    await Promise.all(
+      distributions.map(async (dist) => {
+        const { quantity, group } = getTierQuantity(
+          dist.product,
+          dist.distribution.total_quantity,
+          tierGroups,
+          items,
+          distributions
+        );
+        if (!group) return;
+
+        try {
+          const tiers = applyPriceListToTiers(await fetchProductPriceTiers(dist.product.id), dist.product.price_list_factor);
+          if (tiers.length === 0) return;
+
+          const result = calculateApplicablePrice(
+            quantity,
+            tiers,
+            dist.product.price || 0,
+            dist.product.discounted_price
+          );
 
-  // Recalculate tiered prices whenever quantities change
+          distributionPrices.set(dist.distribution.id, {
+            quantity: dist.distribution.total_quantity,
+            price: result.unitPrice,
+          });
+        } catch (error) {
+          console.error('Error recalculating tiered price:', error);
+        }
+      })
+    );
+
+    // Merge into the current cart; lines changed or removed meanwhile are left
+    // alone, the next recalculation prices them
+    setCart(prev => {
+      let changed = false;
+
+      const updatedItems = prev.items.map(item => {
+        const update = itemPrices.get(item.variantId || item.id);
+        if (!update || update.quantity !== item.quantity || update.price === item.applied_tier_price) return item;
+        changed = true;
+        return { ...item, applied_tier_price: update.price };
+      });
+
+      const updatedDistributions = prev.distributions.map(dist => {
+        const update = distributionPrices.get(dist.distribution.id);
+        if (
+          !update ||
+          update.quantity !== dist.distribution.total_quantity ||
+          update.price === dist.distribution.applied_tier_price
+        ) return dist;
+        changed = true;
+        return { ...dist, distribution: { ...dist.distribution, applied_tier_price: update.price } };
+      });
+
+      return changed ? { ...prev, items: updatedItems, distributions: updatedDistributions } : prev;
+    });
+  }, [tierGroups]);
+
+  // Products in the cart (kit pieces included), as a stable key for the effects below
+  const cartProductIdsKey = useMemo(() => Array.from(new Set([
+    ...cart.items.map(item => item.id),
+    ...cart.items.flatMap(item => (item.kit_components || []).map(component => component.product_id)),
+    ...cart.distributions.map(dist => dist.product.id),
+  ])).sort().join(','), [cart.items, cart.distributions]);
+
+  // Tier groups only change with the products in the cart, not with quantities
+  useEffect(() => {
+    let active = true;
+
+    fetchTierGroupsForProducts(cartProductIdsKey ? cartProductIdsKey.split(',') : []).then(groups => {
+      if (active) setTierGroups(groups);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [cartProductIdsKey]);
+
+  const hasTieredLines = cart.items.some(item => item.has_tiered_pricing) || cart.distributions.length > 0;
+  const tierQuantitiesKey = useMemo(() => [
+    ...cart.items.map(item => `${item.variantId || item.id}-${item.quantity}`),
+    ...cart.distributions.map(dist => `${dist.distribution.id}-${dist.distribution.total_quantity}`),
+  ].join(','), [cart.items, cart.distributions]);
+
+  // Recalculate tiered prices whenever quantities or tier groups change
   useEffect(() => {
-    const hasTieredProducts = cart.items.some(item => item.has_tiered_pricing);
-    if (hasTieredProducts) {
+    if (hasTieredLines) {
       recalculateTieredPrices();
     }
-  }, [cart.items.map(item => `${item.id}-${item.quantity}`).join(',')]);
+  }, [hasTieredLines, tierQuantitiesKey, recalculateTieredPrices]);
+
+  // Load inventory of products in the cart that are not cached yet
+  useEffect(() => {
+    const productIds = (cartProductIdsKey ? cartProductIdsKey.split(',') : [])
+      .filter(id => !inventoryCache.has(id));
+
+    if (productIds.length === 0) return;
+
+    fetchInventoryForProducts(productIds).then(inventory => {
+      setInventoryCache(prev => {
+        const next = new Map(prev);
+        productIds.forEach(id => {
+          next.set(id, inventory.get(id) || { trackInventory: false, stock: [] });
+        });
+        return next;
+      });
+    });
+  }, [cartProductIdsKey, inventoryCache]);
+
+  // Clamp quantities that are above the stock loaded for saved carts
+  useEffect(() => {
+    const exceeding = cart.items.filter(item => {
+      const available = getVariantStock(item.id, item.selectedColor, item.selectedSize);
+      return available !== null && item.quantity > available;
+    });
+
+    if (exceeding.length === 0) return;
+
+    setCart(prev => ({
+      ...prev,
+      items: prev.items
+        .map(item => {
+          const available = getVariantStock(item.id, item.selectedColor, item.selectedSize);
+          return available !== null && item.quantity > available
+            ? { ...item, quantity: available }
+            : item;
+        })
+        .filter(item => item.quantity > 0),
+    }));
+
+    exceeding.forEach(item => {
+      const available = getVariantStock(item.id, item.selectedColor, item.selectedSize) || 0;
+      toast.warning(`Estoque atualizado: ${getStockErrorMessage(item.title, available, item.selectedColor, item.selectedSize)}`);
+    });
+  }, [cart.items, getVariantStock]);
 
   const addDistribution = async (
     product: Product,
     totalQuantity: number,
     items: Array<{ color?: string; size?: string; quantity: number }>
   ): Promise<boolean> => {
+    const unavailableItem = items.find(item => {
+      const available = getVariantStock(product.id, item.color, item.size, product);
+      return available !== null && item.quantity > available;
+    });
+
+    if (unavailableItem) {
+      const available = getVariantStock(product.id, unavailableItem.color, unavailableItem.size, product) || 0;
+      toast.error(getStockErrorMessage(product.title, available, unavailableItem.color, unavailableItem.size));
+      return false;
+    }
+
     try {
-      const tiers = await fetchProductPriceTiers(product.id);
+      const tiers = applyPriceListToTiers(await fetchProductPriceTiers(product.id), product.price_list_factor);
       const basePrice = product.price || 0;
       const discountedPrice = product.discounted_price;
 
@@ -422,7 +951,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
       const dist = cart.distributions.find(d => d.distribution.id === distributionId);
       if (!dist) return false;
 
-      const tiers = await fetchProductPriceTiers(dist.product.id);
+      const tiers = applyPriceListToTiers(await fetchProductPriceTiers(dist.product.id), dist.product.price_list_factor);
       const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0);
 
       const success = await updateDistribution(
@@ -507,6 +1036,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
   const value = {
     cart,
     addToCart,
+    addKitToCart,
     removeFromCart,
     removeCartVariant,
     updateQuantity,
@@ -516,6 +1046,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
     hasVariant,
     getItemQuantity,
     getVariantQuantity,
+    getVariantStock,
     updateItemNotes,
     updateVariantNotes,
     updateVariantOptions,
@@ -525,6 +1056,14 @@ export function CartProvider({ children }: { children: ReactNode }) {
     updateDistributionItems,
     loadDistributions,
     getDistributions,
+    applyCoupon,
+    removeCoupon,
+    setShipping,
+    loadSharedCart,
+    applyPriceListToCart,
+    refreshCartPrices,
+    refreshCoupon,
+    tierGroups,
   };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  fetchAbandonedCarts,
+  markAbandonedCartContacted,
+  deleteAbandonedCart,
+  generateAbandonedCartFollowUpMessage,
+} from '@/lib/abandonedCartUtils';
+import { createSharedCartFromSnapshot, generateSharedCartUrl } from '@/lib/sharedCartUtils';
+import { generateWhatsAppUrl } from '@/lib/utils';
+import type { AbandonedCart, AbandonedCartStatus, User } from '@/types';
+
+interface UseAbandonedCartsReturn {
+  carts: AbandonedCart[];
+  loading: boolean;
+  error: string | null;
+  refreshCarts: () => Promise<void>;
+  sendFollowUp: (cart: AbandonedCart) => Promise<boolean>;
+  removeCart: (cartId: string) => Promise<boolean>;
+}
+
+export function useAbandonedCarts(
+  seller: Pick<User, 'id' | 'name' | 'slug'> | null | undefined,
+  status: AbandonedCartStatus = 'open'
+): UseAbandonedCartsReturn {
+  const [carts, setCarts] = useState<AbandonedCart[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const userId = seller?.id;
+
+  const loadCarts = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setCarts(await fetchAbandonedCarts(userId, status));
+    } catch (err) {
+      console.error('Error loading abandoned carts:', err);
+      setError('Erro ao carregar carrinhos abandonados');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, status]);
+
+  useEffect(() => {
+    loadCarts();
+  }, [loadCarts]);
+
+  const sendFollowUp = useCallback(async (cart: AbandonedCart): Promise<boolean> => {
+    if (!seller?.id || !seller.slug || !cart.customer_phone) return false;
+
+    // Opened before any await so the browser does not block the popup
+    const whatsappWindow = window.open('', '_blank');
+
+    const code = await createSharedCartFromSnapshot(seller.id, cart);
+    if (!code) {
+      whatsappWindow?.close();
+      toast.error('Erro ao gerar o link do carrinho');
+      return false;
+    }
+
+    const message = generateAbandonedCartFollowUpMessage(
+      cart,
+      seller.name,
+      generateSharedCartUrl(seller.slug, code)
+    );
+    const whatsappUrl = generateWhatsAppUrl(cart.customer_phone, message);
+
+    if (whatsappWindow) {
+      whatsappWindow.location.href = whatsappUrl;
+    } else {
+      window.location.href = whatsappUrl;
+    }
+
+    const contactedAt = await markAbandonedCartContacted(cart.id);
+    if (contactedAt) {
+      setCarts(prev => prev.map(item =>
+        item.id === cart.id ? { ...item, contacted_at: contactedAt } : item
+      ));
+    }
+
+    return true;
+  }, [seller?.id, seller?.name, seller?.slug]);
+
+  const removeCart = useCallback(async (cartId: string): Promise<boolean> => {
+    const success = await deleteAbandonedCart(cartId);
+
+    if (success) {
+      setCarts(prev => prev.filter(cart => cart.id !== cartId));
+      toast.success('Carrinho excluído com sucesso');
+    } else {
+      toast.error('Erro ao excluir carrinho');
+    }
+
+    return success;
+  }, []);
+
+  return {
+    carts,
+    loading,
+    error,
+    refreshCarts: loadCarts,
+    sendFollowUp,
+    removeCart,
+  };
+}
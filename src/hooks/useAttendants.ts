@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  fetchAttendantConfig,
+  fetchAttendantLeadCounts,
+  saveAttendantRoutingSettings,
+  saveStoreAttendant,
+  setStoreAttendantActive,
+  deleteStoreAttendant,
+  type AttendantRoutingSettingsInput,
+  type StoreAttendantInput,
+} from '@/lib/attendantUtils';
+import type { AttendantRoutingSettings, StoreAttendant } from '@/types';
+
+const LEAD_COUNT_DAYS = 30;
+
+interface UseAttendantsReturn {
+  settings: AttendantRoutingSettings | null;
+  attendants: StoreAttendant[];
+  /** WhatsApp leads per attendant in the last LEAD_COUNT_DAYS days */
+  leadCounts: Record<string, number>;
+  leadCountDays: number;
+  loading: boolean;
+  error: string | null;
+  refreshAttendants: () => Promise<void>;
+  updateSettings: (settings: AttendantRoutingSettingsInput) => Promise<boolean>;
+  upsertAttendant: (attendant: StoreAttendantInput, attendantId?: string) => Promise<boolean>;
+  toggleAttendant: (attendantId: string, isActive: boolean) => Promise<boolean>;
+  removeAttendant: (attendantId: string) => Promise<boolean>;
+}
+
+const sortAttendants = (attendants: StoreAttendant[]) =>
+  [...attendants].sort((a, b) => a.display_order - b.display_order);
+
+export function useAttendants(userId?: string): UseAttendantsReturn {
+  const [settings, setSettings] = useState<AttendantRoutingSettings | null>(null);
+  const [attendants, setAttendants] = useState<StoreAttendant[]>([]);
+  const [leadCounts, setLeadCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAttendants = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const since = new Date();
+      since.setDate(since.getDate() - LEAD_COUNT_DAYS);
+
+      const [config, counts] = await Promise.all([
+        fetchAttendantConfig(userId),
+        fetchAttendantLeadCounts(since),
+      ]);
+      setSettings(config.settings);
+      setAttendants(config.attendants);
+      setLeadCounts(counts);
+    } catch (err) {
+      console.error('Error loading attendants:', err);
+      setError('Erro ao carregar atendentes');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadAttendants();
+  }, [loadAttendants]);
+
+  const updateSettings = useCallback(async (input: AttendantRoutingSettingsInput): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      setSettings(await saveAttendantRoutingSettings(userId, input));
+      toast.success('Configurações de atendimento salvas com sucesso');
+      return true;
+    } catch {
+      toast.error('Erro ao salvar configurações de atendimento');
+      return false;
+    }
+  }, [userId]);
+
+  const upsertAttendant = useCallback(async (attendant: StoreAttendantInput, attendantId?: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      const saved = await saveStoreAttendant(userId, attendant, attendantId);
+
+      setAttendants(prev => sortAttendants(attendantId
+        ? prev.map(item => (item.id === attendantId ? saved : item))
+        : [...prev, saved]));
+
+      toast.success(attendantId ? 'Atendente atualizado com sucesso' : 'Atendente cadastrado com sucesso');
+      return true;
+    } catch {
+      toast.error('Erro ao salvar atendente');
+      return false;
+    }
+  }, [userId]);
+
+  const toggleAttendant = useCallback(async (attendantId: string, isActive: boolean): Promise<boolean> => {
+    const success = await setStoreAttendantActive(attendantId, isActive);
+
+    if (success) {
+      setAttendants(prev => prev.map(attendant =>
+        attendant.id === attendantId ? { ...attendant, is_active: isActive } : attendant
+      ));
+    } else {
+      toast.error('Erro ao atualizar atendente');
+    }
+
+    return success;
+  }, []);
+
+  const removeAttendant = useCallback(async (attendantId: string): Promise<boolean> => {
+    const success = await deleteStoreAttendant(attendantId);
+
+    if (success) {
+      setAttendants(prev => prev.filter(attendant => attendant.id !== attendantId));
+      toast.success('Atendente excluído com sucesso');
+    } else {
+      toast.error('Erro ao excluir atendente');
+    }
+
+    return success;
+  }, []);
+
+  return {
+    settings,
+    attendants,
+    leadCounts,
+    leadCountDays: LEAD_COUNT_DAYS,
+    loading,
+    error,
+    refreshAttendants: loadAttendants,
+    updateSettings,
+    upsertAttendant,
+    toggleAttendant,
+    removeAttendant,
+  };
+}
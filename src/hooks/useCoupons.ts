@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  fetchUserCoupons,
+  saveCoupon,
+  setCouponActive,
+  deleteCoupon,
+  type CouponInput,
+} from '@/lib/couponUtils';
+import type { Coupon } from '@/types';
+
+interface UseCouponsReturn {
+  coupons: Coupon[];
+  loading: boolean;
+  error: string | null;
+  refreshCoupons: () => Promise<void>;
+  upsertCoupon: (coupon: CouponInput, couponId?: string) => Promise<boolean>;
+  toggleCoupon: (couponId: string, isActive: boolean) => Promise<boolean>;
+  removeCoupon: (couponId: string) => Promise<boolean>;
+}
+
+export function useCoupons(userId?: string): UseCouponsReturn {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCoupons = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setCoupons(await fetchUserCoupons(userId));
+    } catch (err) {
+      console.error('Error loading coupons:', err);
+      setError('Erro ao carregar cupons');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadCoupons();
+  }, [loadCoupons]);
+
+  const upsertCoupon = useCallback(async (coupon: CouponInput, couponId?: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      const saved = await saveCoupon(userId, coupon, couponId);
+
+      setCoupons(prev => couponId
+        ? prev.map(item => (item.id === couponId ? saved : item))
+        : [saved, ...prev]);
+
+      toast.success(couponId ? 'Cupom atualizado com sucesso' : 'Cupom criado com sucesso');
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Erro ao salvar cupom');
+      return false;
+    }
+  }, [userId]);
+
+  const toggleCoupon = useCallback(async (couponId: string, isActive: boolean): Promise<boolean> => {
+    const success = await setCouponActive(couponId, isActive);
+
+    if (success) {
+      setCoupons(prev => prev.map(coupon =>
+        coupon.id === couponId ? { ...coupon, is_active: isActive } : coupon
+      ));
+    } else {
+      toast.error('Erro ao atualizar cupom');
+    }
+
+    return success;
+  }, []);
+
+  const removeCoupon = useCallback(async (couponId: string): Promise<boolean> => {
+    const success = await deleteCoupon(couponId);
+
+    if (success) {
+      setCoupons(prev => prev.filter(coupon => coupon.id !== couponId));
+      toast.success('Cupom excluído com sucesso');
+    } else {
+      toast.error('Erro ao excluir cupom');
+    }
+
+    return success;
+  }, []);
+
+  return {
+    coupons,
+    loading,
+    error,
+    refreshCoupons: loadCoupons,
+    upsertCoupon,
+    toggleCoupon,
+    removeCoupon,
+  };
+}
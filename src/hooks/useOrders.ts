@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { subDays, startOfDay } from 'date-fns';
+import { fetchUserOrders, deleteOrder, updateOrderStatus, ORDER_STATUS_LABELS } from '@/lib/orderUtils';
+import type { Order, OrderStatus } from '@/types';
+
+export type OrderPeriodFilter = 'todos' | 'hoje' | '7dias' | '30dias';
+
+interface UseOrdersReturn {
+  orders: Order[];
+  loading: boolean;
+  error: string | null;
+  searchQuery: string;
+  setSearchQuery: (query: string) => void;
+  periodFilter: OrderPeriodFilter;
+  setPeriodFilter: (period: OrderPeriodFilter) => void;
+  statusFilter: OrderStatus | 'todos';
+  setStatusFilter: (status: OrderStatus | 'todos') => void;
+  refreshOrders: () => Promise<void>;
+  changeOrderStatus: (orderId: string, status: OrderStatus, note?: string) => Promise<boolean>;
+  removeOrder: (orderId: string) => Promise<boolean>;
+}
+
+const getPeriodStartDate = (period: OrderPeriodFilter): string | undefined => {
+  const now = new Date();
+  switch (period) {
+    case 'hoje':
+      return startOfDay(now).toISOString();
+    case '7dias':
+      return startOfDay(subDays(now, 7)).toISOString();
+    case '30dias':
+      return startOfDay(subDays(now, 30)).toISOString();
+    default:
+      return undefined;
+  }
+};
+
+export function useOrders(userId?: string): UseOrdersReturn {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [periodFilter, setPeriodFilter] = useState<OrderPeriodFilter>('todos');
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | 'todos'>('todos');
+
+  const loadOrders = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await fetchUserOrders(userId, {
+        search: searchQuery,
+        startDate: getPeriodStartDate(periodFilter),
+        status: statusFilter === 'todos' ? undefined : statusFilter,
+      });
+
+      setOrders(data);
+    } catch (err) {
+      console.error('Error loading orders:', err);
+      setError('Erro ao carregar pedidos');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, searchQuery, periodFilter, statusFilter]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const changeOrderStatus = useCallback(async (
+    orderId: string,
+    status: OrderStatus,
+    note?: string
+  ): Promise<boolean> => {
+    const success = await updateOrderStatus(orderId, status, note);
+
+    if (!success) {
+      toast.error('Erro ao atualizar status do pedido');
+      return false;
+    }
+
+    const now = new Date().toISOString();
+
+    setOrders(prev => prev.map(order => {
+      if (order.id !== orderId) return order;
+      return {
+        ...order,
+        status,
+        updated_at: now,
+        status_history: [
+          ...(order.status_history || []),
+          { id: `${orderId}-${now}`, order_id: orderId, status, note: note?.trim() || null, created_at: now },
+        ],
+      };
+    }));
+
+    toast.success(`Pedido marcado como "${ORDER_STATUS_LABELS[status]}"`);
+    return true;
+  }, []);
+
+  const removeOrder = useCallback(async (orderId: string): Promise<boolean> => {
+    const success = await deleteOrder(orderId);
+
+    if (success) {
+      setOrders(prev => prev.filter(order => order.id !== orderId));
+      toast.success('Pedido excluído com sucesso');
+    } else {
+      toast.error('Erro ao excluir pedido');
+    }
+
+    return success;
+  }, []);
+
+  return {
+    orders,
+    loading,
+    error,
+    searchQuery,
+    setSearchQuery,
+    periodFilter,
+    setPeriodFilter,
+    statusFilter,
+    setStatusFilter,
+    refreshOrders: loadOrders,
+    changeOrderStatus,
+    removeOrder,
+  };
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  fetchUserPriceLists,
+  fetchPriceListCustomers,
+  savePriceList,
+  setPriceListActive,
+  deletePriceList,
+  reviewPriceListCustomer,
+  deletePriceListCustomer,
+  type PriceListInput,
+} from '@/lib/priceListUtils';
+import type { PriceList, PriceListCustomer, PriceListCustomerStatus, PriceListItem } from '@/types';
+
+interface UsePriceListsReturn {
+  priceLists: PriceList[];
+  customers: PriceListCustomer[];
+  loading: boolean;
+  error: string | null;
+  refreshPriceLists: () => Promise<void>;
+  upsertPriceList: (priceList: PriceListInput, items: PriceListItem[], priceListId?: string) => Promise<boolean>;
+  togglePriceList: (priceListId: string, isActive: boolean) => Promise<boolean>;
+  removePriceList: (priceListId: string) => Promise<boolean>;
+  reviewCustomer: (
+    customerId: string,
+    status: Exclude<PriceListCustomerStatus, 'pendente'>,
+    priceListId: string | null
+  ) => Promise<boolean>;
+  removeCustomer: (customerId: string) => Promise<boolean>;
+}
+
+export function usePriceLists(userId?: string): UsePriceListsReturn {
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [customers, setCustomers] = useState<PriceListCustomer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPriceLists = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [lists, customerData] = await Promise.all([
+        fetchUserPriceLists(userId),
+        fetchPriceListCustomers(userId),
+      ]);
+
+      setPriceLists(lists);
+      setCustomers(customerData);
+    } catch (err) {
+      console.error('Error loading price lists:', err);
+      setError('Erro ao carregar tabelas de preço');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadPriceLists();
+  }, [loadPriceLists]);
+
+  const upsertPriceList = useCallback(async (
+    priceList: PriceListInput,
+    items: PriceListItem[],
+    priceListId?: string
+  ): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      const saved = await savePriceList(userId, priceList, items, priceListId);
+
+      setPriceLists(prev => priceListId
+        ? prev.map(item => (item.id === priceListId ? saved : item))
+        : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+
+      toast.success(priceListId ? 'Tabela atualizada com sucesso' : 'Tabela criada com sucesso');
+      return true;
+    } catch (err) {
+      const message = err instanceof Error && err.message === 'Access code already exists'
+        ? 'Já existe uma tabela com este código de acesso'
+        : 'Erro ao salvar tabela de preço';
+      toast.error(message);
+      return false;
+    }
+  }, [userId]);
+
+  const togglePriceList = useCallback(async (priceListId: string, isActive: boolean): Promise<boolean> => {
+    const success = await setPriceListActive(priceListId, isActive);
+
+    if (success) {
+      setPriceLists(prev => prev.map(priceList =>
+        priceList.id === priceListId ? { ...priceList, is_active: isActive } : priceList
+      ));
+    } else {
+      toast.error('Erro ao atualizar tabela de preço');
+    }
+
+    return success;
+  }, []);
+
+  const removePriceList = useCallback(async (priceListId: string): Promise<boolean> => {
+    const success = await deletePriceList(priceListId);
+
+    if (success) {
+      setPriceLists(prev => prev.filter(priceList => priceList.id !== priceListId));
+      setCustomers(prev => prev.map(customer =>
+        customer.price_list_id === priceListId ? { ...customer, price_list_id: null } : customer
+      ));
+      toast.success('Tabela excluída com sucesso');
+    } else {
+      toast.error('Erro ao excluir tabela de preço');
+    }
+
+    return success;
+  }, []);
+
+  const reviewCustomer = useCallback(async (
+    customerId: string,
+    status: Exclude<PriceListCustomerStatus, 'pendente'>,
+    priceListId: string | null
+  ): Promise<boolean> => {
+    const success = await reviewPriceListCustomer(customerId, status, priceListId);
+
+    if (success) {
+      setCustomers(prev => prev.map(customer =>
+        customer.id === customerId ? { ...customer, status, price_list_id: priceListId } : customer
+      ));
+      toast.success(status === 'aprovado' ? 'Cliente aprovado' : 'Cadastro recusado');
+    } else {
+      toast.error('Erro ao atualizar cadastro');
+    }
+
+    return success;
+  }, []);
+
+  const removeCustomer = useCallback(async (customerId: string): Promise<boolean> => {
+    const success = await deletePriceListCustomer(customerId);
+
+    if (success) {
+      setCustomers(prev => prev.filter(customer => customer.id !== customerId));
+      toast.success('Cadastro excluído com sucesso');
+    } else {
+      toast.error('Erro ao excluir cadastro');
+    }
+
+    return success;
+  }, []);
+
+  return {
+    priceLists,
+    customers,
+    loading,
+    error,
+    refreshPriceLists: loadPriceLists,
+    upsertPriceList,
+    togglePriceList,
+    removePriceList,
+    reviewCustomer,
+    removeCustomer,
+  };
+}
@@ -1,15 +1,21 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/lib/supabase';
 import { db } from '@/lib/db';
-import type { Product, CategoryDisplaySetting } from '@/types';
+import type { Product, CategoryDisplaySetting, InstallmentSettings, Promotion, QuoteSettings, StorefrontPriceList } from '@/types';
 import { logCategoryOperation, sanitizeCategoryName } from '@/lib/categoryUtils';
 import { type SupportedLanguage } from '@/lib/i18n';
 import { loadSizeTypeMapping, type SizeTypeMapping } from '@/lib/sizeTypeUtils';
 import { autoPopulateSizesForUser } from '@/lib/autoPopulateSizes';
+import { applyQuoteSettings, fetchQuoteSettings } from '@/lib/quoteUtils';
+import { applyPromotions, fetchActivePromotions } from '@/lib/promotionUtils';
+import { applyPriceList } from '@/lib/priceListUtils';
+import { fetchInstallmentSettings } from '@/lib/installmentUtils';
+import { applyLowestPriceBadges, fetchLowestProductPrices } from '@/lib/priceHistoryUtils';
 
 interface UseProductDataProps {
   userId: string;
   language?: SupportedLanguage;
+  priceList?: StorefrontPriceList | null;
 }
 
 interface UseProductDataReturn {
@@ -20,6 +26,7 @@ interface UseProductDataReturn {
   error: string | null;
   refetch: () => Promise<void>;
   sizeTypeMapping: SizeTypeMapping;
+  installmentSettings: InstallmentSettings | null;
 }
 
 /**
@@ -27,9 +34,13 @@ interface UseProductDataReturn {
  */
 export function useProductData({ 
   userId, 
-  language = 'pt-BR'
+  language = 'pt-BR',
+  priceList = null
 }: UseProductDataProps): UseProductDataReturn {
-  const [allProducts, setAllProducts] = useState<Product[]>([]);
+  const [loadedProducts, setLoadedProducts] = useState<Product[]>([]);
+  const [quoteSettings, setQuoteSettings] = useState<QuoteSettings | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [installmentSettings, setInstallmentSettings] = useState<InstallmentSettings | null>(null);
   const [categorySettings, setCategorySettings] = useState<CategoryDisplaySetting[]>([]);
   const [settings, setSettings] = useState<any>(null);
   const [loading, setLoading] = useState(true);
@@ -65,7 +76,8 @@ export function useProductData({
         priceRange: {
           minPrice: 10,
           maxPrice: 5000
-        }
+        },
+        showLowestPriceBadge: false
       };
 
       let categoryDisplaySettings: CategoryDisplaySetting[] = [];
@@ -77,7 +89,8 @@ export function useProductData({
             ...effectiveSettings,
             ...storefrontSettings.settings.filters,
             itemsPerPage: storefrontSettings.settings.itemsPerPage || 24,
-            priceRange: storefrontSettings.settings.priceRange || effectiveSettings.priceRange
+            priceRange: storefrontSettings.settings.priceRange || effectiveSettings.priceRange,
+            showLowestPriceBadge: storefrontSettings.settings.showLowestPriceBadge ?? false
           });
         } else {
           Object.assign(effectiveSettings, {
@@ -133,7 +146,12 @@ export function useProductData({
           sizes,
           display_order,
           external_checkout_url,
-          has_tiered_pricing
+          has_tiered_pricing,
+          min_quantity,
+          quantity_multiple,
+          quote_only,
+          product_type,
+          variants:product_variants(color, size, sku, price, image_id, image:product_images(url))
         `)
         .eq('user_id', userId)
         .eq('is_visible_on_storefront', true)
@@ -301,10 +319,13 @@ export function useProductData({
       setLoading(true);
       setError(null);
 
-      const [products, settingsData, sizeMapping] = await Promise.all([
+      const [products, settingsData, sizeMapping, quoteSettingsData, activePromotions, installmentSettingsData] = await Promise.all([
         loadAllProducts(userId),
         loadStorefrontSettings(userId),
-        loadSizeTypeMapping(userId)
+        loadSizeTypeMapping(userId),
+        fetchQuoteSettings(userId),
+        fetchActivePromotions(userId),
+        fetchInstallmentSettings(userId)
       ]);
 
       const syncedCategorySettings = await syncCategorySettings(
@@ -313,7 +334,14 @@ export function useProductData({
         userId
       );
 
-      setAllProducts(products);
+      const lowestPrices = settingsData.effectiveSettings.showLowestPriceBadge
+        ? await fetchLowestProductPrices(products.map(product => product.id))
+        : [];
+
+      setLoadedProducts(applyLowestPriceBadges(products, lowestPrices));
+      setQuoteSettings(quoteSettingsData);
+      setPromotions(activePromotions);
+      setInstallmentSettings(installmentSettingsData);
       setSettings(settingsData.effectiveSettings);
       setCategorySettings(syncedCategorySettings);
       setSizeTypeMapping(sizeMapping);
@@ -331,7 +359,7 @@ export function useProductData({
   };
 
   const refetch = async () => {
-    setAllProducts([]);
+    setLoadedProducts([]);
     await fetchData();
   };
 
@@ -341,6 +369,15 @@ export function useProductData({
     }
   }, [userId]);
 
+  // Prices are derived so an unlocked price list applies without reloading
+  const allProducts = useMemo(
+    () => applyPromotions(
+      applyQuoteSettings(applyPriceList(loadedProducts, priceList), quoteSettings),
+      promotions
+    ),
+    [loadedProducts, priceList, quoteSettings, promotions]
+  );
+
   return {
     allProducts,
     categorySettings,
@@ -349,5 +386,6 @@ export function useProductData({
     error,
     refetch,
     sizeTypeMapping,
+    installmentSettings,
   };
 }
\ No newline at end of file
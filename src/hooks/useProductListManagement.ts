@@ -3,8 +3,17 @@ import { toast } from 'sonner';
 import { supabase } from '@/lib/supabase';
 import { syncUserCategoriesWithStorefrontSettings } from '@/lib/utils';
 import { db } from '@/lib/db';
-import type { Product } from '@/types';
+import type { Product, TierTemplate } from '@/types';
 import { getCroppedImg } from '@/lib/image';
+import { savePromotion, type PromotionInput } from '@/lib/promotionUtils';
+import {
+  applyPriceAdjustments,
+  buildPriceAdjustmentPreview,
+  fetchPriceTiersForProducts,
+  type PriceAdjustment,
+  type ProductPriceAdjustment,
+} from '@/lib/priceAdjustmentUtils';
+import { applyTierTemplateToProducts, getTierTemplateBasePrice } from '@/lib/tierTemplateUtils';
 
 interface UseProductListManagementProps {
   userId?: string;
@@ -39,6 +48,12 @@ interface UseProductListManagementReturn {
   handleBulkBrandChange: (newBrand: string) => Promise<void>;
   handleBulkDelete: () => Promise<void>;
   handleBulkImageCompression: () => Promise<void>;
+  handleBulkPromotionCreate: (promotion: PromotionInput) => Promise<boolean>;
+  previewBulkPriceAdjustment: (adjustment: PriceAdjustment) => Promise<ProductPriceAdjustment[]>;
+  handleBulkPriceAdjustment: (adjustments: ProductPriceAdjustment[]) => Promise<boolean>;
+  canUndoPriceAdjustment: boolean;
+  handleUndoPriceAdjustment: () => Promise<void>;
+  handleBulkTierTemplateApply: (template: TierTemplate) => Promise<boolean>;
   handleDragEnd: (result: any) => Promise<void>;
   refreshProducts: () => Promise<void>;
 }
@@ -56,6 +71,7 @@ export function useProductListManagement({ userId }: UseProductListManagementPro
   const [isReorderModeActive, setIsReorderModeActive] = useState(false);
   const [selectedProducts, setSelectedProducts] = useState<Set<string>>(new Set());
   const [bulkActionLoading, setBulkActionLoading] = useState(false);
+  const [lastPriceAdjustment, setLastPriceAdjustment] = useState<ProductPriceAdjustment[] | null>(null);
 
   // Derived states
   const canReorder = categoryFilter !== 'todas' && filteredProducts.length > 1;
@@ -353,6 +369,180 @@ export function useProductListManagement({ userId }: UseProductListManagementPro
     }
   };
 
+  // Bulk promotion for the selected products
+  const handleBulkPromotionCreate = async (promotion: PromotionInput): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      setBulkActionLoading(true);
+      await savePromotion(userId, promotion);
+
+      setSelectedProducts(new Set());
+      toast.success(`Promoção agendada para ${promotion.product_ids.length} produtos`);
+      return true;
+    } catch (error) {
+      console.error('Error creating bulk promotion:', error);
+      toast.error('Erro ao criar promoção');
+      return false;
+    } finally {
+      setBulkActionLoading(false);
+    }
+  };
+
+  // Replace the prices in local state with the adjusted or previous values,
+  // undoing keeps the prices edited since the adjustment
+  const updateLocalPrices = (adjustments: ProductPriceAdjustment[], direction: 'apply' | 'undo') => {
+    const pick = (current: number | undefined, change: { before: number; after: number }) => {
+      if (direction === 'apply') return change.after;
+      return current === change.after ? change.before : current;
+    };
+
+    setProducts(prev => prev.map(product => {
+      const adjustment = adjustments.find(a => a.productId === product.id);
+      if (!adjustment) return product;
+
+      return {
+        ...product,
+        price: adjustment.price ? pick(product.price, adjustment.price) : product.price,
+        discounted_price: adjustment.discounted_price
+          ? pick(product.discounted_price, adjustment.discounted_price)
+          : product.discounted_price,
+      };
+    }));
+  };
+
+  // Bulk price adjustment preview, nothing is saved yet
+  const previewBulkPriceAdjustment = async (adjustment: PriceAdjustment): Promise<ProductPriceAdjustment[]> => {
+    const selectedIds = Array.from(selectedProducts);
+    const selected = products.filter(product => selectedIds.includes(product.id));
+    const tiers = adjustment.applyToTiers ? await fetchPriceTiersForProducts(selectedIds) : [];
+
+    return buildPriceAdjustmentPreview(selected, tiers, adjustment);
+  };
+
+  // Undo a bulk price adjustment, restoring the previous prices that were not changed since
+  const undoPriceAdjustment = async (adjustments: ProductPriceAdjustment[]) => {
+    if (!userId) return;
+
+    try {
+      setBulkActionLoading(true);
+      const { failedCount } = await applyPriceAdjustments(userId, adjustments, 'undo');
+
+      if (failedCount > 0) {
+        // Undoing again is safe, prices already reverted no longer match
+        toast.error('Alguns preços não foram restaurados. Tente desfazer novamente.');
+        await refreshProducts();
+        return;
+      }
+
+      updateLocalPrices(adjustments, 'undo');
+      setLastPriceAdjustment(null);
+      toast.success('Reajuste de preços desfeito');
+    } catch (error) {
+      console.error('Error undoing price adjustment:', error);
+      toast.error('Erro ao desfazer reajuste de preços');
+    } finally {
+      setBulkActionLoading(false);
+    }
+  };
+
+  const handleUndoPriceAdjustment = async () => {
+    if (lastPriceAdjustment) {
+      await undoPriceAdjustment(lastPriceAdjustment);
+    }
+  };
+
+  // Bulk price adjustment
+  const handleBulkPriceAdjustment = async (preview: ProductPriceAdjustment[]): Promise<boolean> => {
+    const adjustments = preview.filter(adjustment => !adjustment.issue);
+    if (!userId || adjustments.length === 0) return false;
+
+    try {
+      setBulkActionLoading(true);
+      const { applied, failedCount } = await applyPriceAdjustments(userId, adjustments);
+
+      // Whatever was written can be undone, even when other updates failed
+      if (applied.length > 0) {
+        updateLocalPrices(applied, 'apply');
+        setLastPriceAdjustment(applied);
+      }
+      const undoAction = {
+        label: 'Desfazer',
+        onClick: () => undoPriceAdjustment(applied),
+      };
+
+      if (failedCount > 0) {
+        toast.error(
+          applied.length > 0
+            ? `Alguns preços não foram reajustados. ${applied.length} produto(s) foram alterados.`
+            : 'Erro ao reajustar preços',
+          applied.length > 0 ? { duration: 10000, action: undoAction } : undefined
+        );
+        await refreshProducts();
+        return false;
+      }
+
+      setSelectedProducts(new Set());
+      toast.success(`Preços reajustados em ${applied.length} produtos`, {
+        duration: 10000,
+        action: undoAction,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error applying bulk price adjustment:', error);
+      toast.error('Erro ao reajustar preços');
+      await refreshProducts();
+      return false;
+    } finally {
+      setBulkActionLoading(false);
+    }
+  };
+
+  // Bulk tier template, linking the selected products to it
+  const handleBulkTierTemplateApply = async (template: TierTemplate): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      setBulkActionLoading(true);
+      const selectedIds = Array.from(selectedProducts);
+      const selected = products.filter(product => selectedIds.includes(product.id));
+      const tiers = await fetchPriceTiersForProducts(selectedIds);
+
+      const basePrices: Record<string, number> = {};
+      selected.forEach(product => {
+        basePrices[product.id] = getTierTemplateBasePrice(product, tiers);
+      });
+
+      // Percentage templates need a price to discount from
+      const skipped = template.pricing_type === 'percentage'
+        ? selected.filter(product => !basePrices[product.id])
+        : [];
+      skipped.forEach(product => delete basePrices[product.id]);
+
+      const appliedCount = Object.keys(basePrices).length;
+      if (appliedCount === 0) {
+        toast.error('Os produtos selecionados não têm preço base para calcular os descontos');
+        return false;
+      }
+
+      await applyTierTemplateToProducts(userId, template.id, basePrices);
+      await refreshProducts();
+      setSelectedProducts(new Set());
+
+      toast.success(`Modelo "${template.name}" aplicado a ${appliedCount} produto${appliedCount > 1 ? 's' : ''}`);
+      if (skipped.length > 0) {
+        toast.warning(`${skipped.length} produto${skipped.length > 1 ? 's' : ''} sem preço ficaram de fora`);
+      }
+      return true;
+    } catch (error) {
+      console.error('Error applying tier template:', error);
+      toast.error('Erro ao aplicar modelo de faixas');
+      return false;
+    } finally {
+      setBulkActionLoading(false);
+    }
+  };
+
   // Bulk image compression
   const handleBulkImageCompression = async () => {
     try {
@@ -687,6 +877,12 @@ export function useProductListManagement({ userId }: UseProductListManagementPro
     handleBulkBrandChange,
     handleBulkDelete,
     handleBulkImageCompression,
+    handleBulkPromotionCreate,
+    previewBulkPriceAdjustment,
+    handleBulkPriceAdjustment,
+    canUndoPriceAdjustment: !!lastPriceAdjustment,
+    handleUndoPriceAdjustment,
+    handleBulkTierTemplateApply,
     handleDragEnd,
     refreshProducts,
   };
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  fetchUserPromotions,
+  savePromotion,
+  setPromotionActive,
+  deletePromotion,
+  type PromotionInput,
+} from '@/lib/promotionUtils';
+import type { Promotion } from '@/types';
+
+interface UsePromotionsReturn {
+  promotions: Promotion[];
+  loading: boolean;
+  error: string | null;
+  refreshPromotions: () => Promise<void>;
+  upsertPromotion: (promotion: PromotionInput, promotionId?: string) => Promise<boolean>;
+  togglePromotion: (promotionId: string, isActive: boolean) => Promise<boolean>;
+  removePromotion: (promotionId: string) => Promise<boolean>;
+}
+
+export function usePromotions(userId?: string): UsePromotionsReturn {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPromotions = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setPromotions(await fetchUserPromotions(userId));
+    } catch (err) {
+      console.error('Error loading promotions:', err);
+      setError('Erro ao carregar promoções');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  const upsertPromotion = useCallback(async (promotion: PromotionInput, promotionId?: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      const saved = await savePromotion(userId, promotion, promotionId);
+
+      setPromotions(prev => promotionId
+        ? prev.map(item => (item.id === promotionId ? saved : item))
+        : [saved, ...prev]);
+
+      toast.success(promotionId ? 'Promoção atualizada com sucesso' : 'Promoção criada com sucesso');
+      return true;
+    } catch {
+      toast.error('Erro ao salvar promoção');
+      return false;
+    }
+  }, [userId]);
+
+  const togglePromotion = useCallback(async (promotionId: string, isActive: boolean): Promise<boolean> => {
+    const success = await setPromotionActive(promotionId, isActive);
+
+    if (success) {
+      setPromotions(prev => prev.map(promotion =>
+        promotion.id === promotionId ? { ...promotion, is_active: isActive } : promotion
+      ));
+    } else {
+      toast.error('Erro ao atualizar promoção');
+    }
+
+    return success;
+  }, []);
+
+  const removePromotion = useCallback(async (promotionId: string): Promise<boolean> => {
+    const success = await deletePromotion(promotionId);
+
+    if (success) {
+      setPromotions(prev => prev.filter(promotion => promotion.id !== promotionId));
+      toast.success('Promoção excluída com sucesso');
+    } else {
+      toast.error('Erro ao excluir promoção');
+    }
+
+    return success;
+  }, []);
+
+  return {
+    promotions,
+    loading,
+    error,
+    refreshPromotions: loadPromotions,
+    upsertPromotion,
+    togglePromotion,
+    removePromotion,
+  };
+}
@@ -0,0 +1,154 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  fetchUserQuotes,
+  fetchQuoteSettings,
+  answerQuote,
+  declineQuote,
+  deleteQuote,
+  generateQuoteAnswerMessage,
+  generateQuoteUrl,
+  DEFAULT_QUOTE_VALIDITY_DAYS,
+  type QuoteAnswer,
+} from '@/lib/quoteUtils';
+import { generateWhatsAppUrl } from '@/lib/utils';
+import type { Quote, QuoteStatus, User } from '@/types';
+
+interface UseQuotesReturn {
+  quotes: Quote[];
+  loading: boolean;
+  error: string | null;
+  validityDays: number;
+  refreshQuotes: () => Promise<void>;
+  respondQuote: (quote: Quote, answer: QuoteAnswer) => Promise<boolean>;
+  sendQuote: (quote: Quote) => void;
+  rejectQuote: (quoteId: string) => Promise<boolean>;
+  removeQuote: (quoteId: string) => Promise<boolean>;
+}
+
+export function useQuotes(
+  seller: Pick<User, 'id' | 'name' | 'slug'> | null | undefined,
+  status?: QuoteStatus
+): UseQuotesReturn {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [validityDays, setValidityDays] = useState(DEFAULT_QUOTE_VALIDITY_DAYS);
+  const userId = seller?.id;
+
+  const loadQuotes = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [data, settings] = await Promise.all([
+        fetchUserQuotes(userId, status),
+        fetchQuoteSettings(userId),
+      ]);
+
+      setQuotes(data);
+      setValidityDays(settings?.default_validity_days || DEFAULT_QUOTE_VALIDITY_DAYS);
+    } catch (err) {
+      console.error('Error loading quotes:', err);
+      setError('Erro ao carregar orçamentos');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, status]);
+
+  useEffect(() => {
+    loadQuotes();
+  }, [loadQuotes]);
+
+  const getAnswerWhatsAppUrl = useCallback((quote: Quote): string | null => {
+    if (!seller?.slug || !quote.customer_phone) return null;
+
+    const message = generateQuoteAnswerMessage(
+      quote,
+      seller.name,
+      generateQuoteUrl(seller.slug, quote.code)
+    );
+    return generateWhatsAppUrl(quote.customer_phone, message);
+  }, [seller?.name, seller?.slug]);
+
+  const respondQuote = useCallback(async (quote: Quote, answer: QuoteAnswer): Promise<boolean> => {
+    // Opened before any await so the browser does not block the popup
+    const whatsappWindow = quote.customer_phone && seller?.slug ? window.open('', '_blank') : null;
+
+    let answered: Quote;
+    try {
+      answered = await answerQuote(quote, answer);
+    } catch (err) {
+      console.error('Error answering quote:', err);
+      whatsappWindow?.close();
+      toast.error('Erro ao responder orçamento');
+      return false;
+    }
+
+    setQuotes(prev => prev.map(item => item.id === quote.id ? answered : item));
+    toast.success('Orçamento respondido');
+
+    const whatsappUrl = getAnswerWhatsAppUrl(answered);
+    if (whatsappUrl) {
+      if (whatsappWindow) {
+        whatsappWindow.location.href = whatsappUrl;
+      } else {
+        window.location.href = whatsappUrl;
+      }
+    }
+
+    return true;
+  }, [seller?.slug, getAnswerWhatsAppUrl]);
+
+  const sendQuote = useCallback((quote: Quote) => {
+    const whatsappUrl = getAnswerWhatsAppUrl(quote);
+    if (whatsappUrl) {
+      window.open(whatsappUrl, '_blank');
+    }
+  }, [getAnswerWhatsAppUrl]);
+
+  const rejectQuote = useCallback(async (quoteId: string): Promise<boolean> => {
+    const success = await declineQuote(quoteId);
+
+    if (success) {
+      setQuotes(prev => prev.map(quote =>
+        quote.id === quoteId ? { ...quote, status: 'recusado' } : quote
+      ));
+      toast.success('Orçamento recusado');
+    } else {
+      toast.error('Erro ao recusar orçamento');
+    }
+
+    return success;
+  }, []);
+
+  const removeQuote = useCallback(async (quoteId: string): Promise<boolean> => {
+    const success = await deleteQuote(quoteId);
+
+    if (success) {
+      setQuotes(prev => prev.filter(quote => quote.id !== quoteId));
+      toast.success('Orçamento excluído com sucesso');
+    } else {
+      toast.error('Erro ao excluir orçamento');
+    }
+
+    return success;
+  }, []);
+
+  return {
+    quotes,
+    loading,
+    error,
+    validityDays,
+    refreshQuotes: loadQuotes,
+    respondQuote,
+    sendQuote,
+    rejectQuote,
+    removeQuote,
+  };
+}
@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  fetchShippingConfig,
+  saveShippingSettings,
+  saveShippingRule,
+  setShippingRuleActive,
+  deleteShippingRule,
+  type ShippingRuleInput,
+  type ShippingSettingsInput,
+} from '@/lib/shippingUtils';
+import type { ShippingRule, ShippingSettings } from '@/types';
+
+interface UseShippingConfigReturn {
+  settings: ShippingSettings | null;
+  rules: ShippingRule[];
+  loading: boolean;
+  error: string | null;
+  refreshConfig: () => Promise<void>;
+  updateSettings: (settings: ShippingSettingsInput) => Promise<boolean>;
+  upsertRule: (rule: ShippingRuleInput, ruleId?: string) => Promise<boolean>;
+  toggleRule: (ruleId: string, isActive: boolean) => Promise<boolean>;
+  removeRule: (ruleId: string) => Promise<boolean>;
+}
+
+const sortRules = (rules: ShippingRule[]) =>
+  [...rules].sort((a, b) => a.display_order - b.display_order);
+
+export function useShippingConfig(userId?: string): UseShippingConfigReturn {
+  const [settings, setSettings] = useState<ShippingSettings | null>(null);
+  const [rules, setRules] = useState<ShippingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConfig = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const config = await fetchShippingConfig(userId);
+      setSettings(config.settings);
+      setRules(config.rules);
+    } catch (err) {
+      console.error('Error loading shipping config:', err);
+      setError('Erro ao carregar configurações de frete');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  const updateSettings = useCallback(async (input: ShippingSettingsInput): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      setSettings(await saveShippingSettings(userId, input));
+      toast.success('Configurações de frete salvas com sucesso');
+      return true;
+    } catch {
+      toast.error('Erro ao salvar configurações de frete');
+      return false;
+    }
+  }, [userId]);
+
+  const upsertRule = useCallback(async (rule: ShippingRuleInput, ruleId?: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      const saved = await saveShippingRule(userId, rule, ruleId);
+
+      setRules(prev => sortRules(ruleId
+        ? prev.map(item => (item.id === ruleId ? saved : item))
+        : [...prev, saved]));
+
+      toast.success(ruleId ? 'Regra de frete atualizada com sucesso' : 'Regra de frete criada com sucesso');
+      return true;
+    } catch {
+      toast.error('Erro ao salvar regra de frete');
+      return false;
+    }
+  }, [userId]);
+
+  const toggleRule = useCallback(async (ruleId: string, isActive: boolean): Promise<boolean> => {
+    const success = await setShippingRuleActive(ruleId, isActive);
+
+    if (success) {
+      setRules(prev => prev.map(rule =>
+        rule.id === ruleId ? { ...rule, is_active: isActive } : rule
+      ));
+    } else {
+      toast.error('Erro ao atualizar regra de frete');
+    }
+
+    return success;
+  }, []);
+
+  const removeRule = useCallback(async (ruleId: string): Promise<boolean> => {
+    const success = await deleteShippingRule(ruleId);
+
+    if (success) {
+      setRules(prev => prev.filter(rule => rule.id !== ruleId));
+      toast.success('Regra de frete excluída com sucesso');
+    } else {
+      toast.error('Erro ao excluir regra de frete');
+    }
+
+    return success;
+  }, []);
+
+  return {
+    settings,
+    rules,
+    loading,
+    error,
+    refreshConfig: loadConfig,
+    updateSettings,
+    upsertRule,
+    toggleRule,
+    removeRule,
+  };
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { resolveStoreAttendant } from '@/lib/attendantUtils';
+import type { StoreAttendant, User } from '@/types';
+
+interface UseStoreAttendantReturn {
+  /** Attendant chosen by the routing rules, null when routing is disabled */
+  attendant: StoreAttendant | null;
+  /** Number the WhatsApp links should use */
+  whatsapp?: string;
+}
+
+/**
+ * WhatsApp number of a storefront contact, following the attendant routing
+ * rules of the seller and falling back to the store number
+ */
+export function useStoreAttendant(
+  seller: Pick<User, 'id' | 'whatsapp'>,
+  categories: string[] = [],
+  enabled: boolean = true
+): UseStoreAttendantReturn {
+  const [attendant, setAttendant] = useState<StoreAttendant | null>(null);
+  const categoriesKey = Array.from(new Set(categories)).sort().join('|');
+
+  useEffect(() => {
+    if (!enabled || !seller.id) return;
+
+    let cancelled = false;
+
+    resolveStoreAttendant(seller.id, categoriesKey ? categoriesKey.split('|') : [])
+      .then((resolved) => {
+        if (!cancelled) setAttendant(resolved);
+      })
+      .catch((error) => console.error('Error resolving store attendant:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [seller.id, categoriesKey, enabled]);
+
+  return {
+    attendant,
+    whatsapp: attendant?.whatsapp || seller.whatsapp,
+  };
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useCart } from '@/contexts/CartContext';
+import {
+  fetchStorefrontPriceList,
+  getStoredPriceListAccess,
+  requestPriceListAccess,
+  storePriceListAccess,
+  type PriceListAccessRequest,
+  type StorefrontPriceListState,
+} from '@/lib/priceListUtils';
+
+interface UseStorefrontPriceListReturn extends StorefrontPriceListState {
+  loading: boolean;
+  unlockWithCode: (code: string) => Promise<boolean>;
+  requestAccess: (request: PriceListAccessRequest) => Promise<boolean>;
+  leavePriceList: () => void;
+}
+
+/**
+ * Price list unlocked by the visitor of a storefront, kept in this browser
+ */
+export function useStorefrontPriceList(sellerId?: string): UseStorefrontPriceListReturn {
+  const { applyPriceListToCart } = useCart();
+  const [state, setState] = useState<StorefrontPriceListState>({
+    available: false,
+    status: null,
+    priceList: null,
+  });
+  const [loading, setLoading] = useState(true);
+
+  const loadPriceList = useCallback(async () => {
+    if (!sellerId) return;
+
+    setLoading(true);
+    setState(await fetchStorefrontPriceList(sellerId));
+    setLoading(false);
+  }, [sellerId]);
+
+  useEffect(() => {
+    loadPriceList();
+  }, [loadPriceList]);
+
+  // Items already in the cart follow the list being shown
+  useEffect(() => {
+    if (!loading) {
+      applyPriceListToCart(state.priceList);
+    }
+  }, [loading, state.priceList, applyPriceListToCart]);
+
+  const unlockWithCode = useCallback(async (code: string): Promise<boolean> => {
+    if (!sellerId || !code.trim()) return false;
+
+    const access = { ...getStoredPriceListAccess(sellerId), accessCode: code.trim() };
+    const result = await fetchStorefrontPriceList(sellerId, access);
+
+    if (!result.priceList) {
+      toast.error('Código de acesso inválido');
+      return false;
+    }
+
+    storePriceListAccess(sellerId, access);
+    setState(result);
+    toast.success(`Tabela ${result.priceList.name} liberada`);
+    return true;
+  }, [sellerId]);
+
+  const requestAccess = useCallback(async (request: PriceListAccessRequest): Promise<boolean> => {
+    if (!sellerId) return false;
+
+    const accessToken = await requestPriceListAccess(sellerId, request);
+    if (!accessToken) {
+      toast.error('Não foi possível enviar o cadastro');
+      return false;
+    }
+
+    storePriceListAccess(sellerId, { accessToken });
+    setState(prev => ({ ...prev, status: 'pendente', priceList: null }));
+    toast.success('Cadastro enviado! Os preços aparecem assim que o vendedor aprovar.');
+    return true;
+  }, [sellerId]);
+
+  const leavePriceList = useCallback(() => {
+    if (!sellerId) return;
+
+    storePriceListAccess(sellerId, null);
+    setState(prev => ({ ...prev, status: null, priceList: null }));
+  }, [sellerId]);
+
+  return {
+    ...state,
+    loading,
+    unlockWithCode,
+    requestAccess,
+    leavePriceList,
+  };
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  fetchUserTierGroups,
+  saveTierGroup,
+  setTierGroupActive,
+  deleteTierGroup,
+  type TierGroupInput,
+} from '@/lib/tierGroupUtils';
+import type { TierGroup } from '@/types';
+
+interface UseTierGroupsReturn {
+  tierGroups: TierGroup[];
+  loading: boolean;
+  error: string | null;
+  refreshTierGroups: () => Promise<void>;
+  upsertTierGroup: (group: TierGroupInput, groupId?: string) => Promise<boolean>;
+  toggleTierGroup: (groupId: string, isActive: boolean) => Promise<boolean>;
+  removeTierGroup: (groupId: string) => Promise<boolean>;
+}
+
+export function useTierGroups(userId?: string): UseTierGroupsReturn {
+  const [tierGroups, setTierGroups] = useState<TierGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTierGroups = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setTierGroups(await fetchUserTierGroups(userId));
+    } catch (err) {
+      console.error('Error loading tier groups:', err);
+      setError('Erro ao carregar grupos de quantidade');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadTierGroups();
+  }, [loadTierGroups]);
+
+  const upsertTierGroup = useCallback(async (group: TierGroupInput, groupId?: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      const saved = await saveTierGroup(userId, group, groupId);
+
+      setTierGroups(prev => groupId
+        ? prev.map(item => (item.id === groupId ? saved : item))
+        : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+
+      toast.success(groupId ? 'Grupo atualizado com sucesso' : 'Grupo criado com sucesso');
+      return true;
+    } catch {
+      toast.error('Erro ao salvar grupo');
+      return false;
+    }
+  }, [userId]);
+
+  const toggleTierGroup = useCallback(async (groupId: string, isActive: boolean): Promise<boolean> => {
+    const success = await setTierGroupActive(groupId, isActive);
+
+    if (success) {
+      setTierGroups(prev => prev.map(group =>
+        group.id === groupId ? { ...group, is_active: isActive } : group
+      ));
+    } else {
+      toast.error('Erro ao atualizar grupo');
+    }
+
+    return success;
+  }, []);
+
+  const removeTierGroup = useCallback(async (groupId: string): Promise<boolean> => {
+    const success = await deleteTierGroup(groupId);
+
+    if (success) {
+      setTierGroups(prev => prev.filter(group => group.id !== groupId));
+      toast.success('Grupo excluído com sucesso');
+    } else {
+      toast.error('Erro ao excluir grupo');
+    }
+
+    return success;
+  }, []);
+
+  return {
+    tierGroups,
+    loading,
+    error,
+    refreshTierGroups: loadTierGroups,
+    upsertTierGroup,
+    toggleTierGroup,
+    removeTierGroup,
+  };
+}
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  fetchTierTemplates,
+  saveTierTemplate,
+  deleteTierTemplate,
+  type TierTemplateInput,
+} from '@/lib/tierTemplateUtils';
+import type { TierTemplate } from '@/types';
+
+interface UseTierTemplatesReturn {
+  tierTemplates: TierTemplate[];
+  loading: boolean;
+  error: string | null;
+  refreshTierTemplates: () => Promise<void>;
+  upsertTierTemplate: (template: TierTemplateInput, templateId?: string) => Promise<boolean>;
+  removeTierTemplate: (templateId: string) => Promise<boolean>;
+}
+
+export function useTierTemplates(userId?: string): UseTierTemplatesReturn {
+  const [tierTemplates, setTierTemplates] = useState<TierTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTierTemplates = useCallback(async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setTierTemplates(await fetchTierTemplates(userId));
+    } catch (err) {
+      console.error('Error loading tier templates:', err);
+      setError('Erro ao carregar modelos de faixas');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadTierTemplates();
+  }, [loadTierTemplates]);
+
+  const upsertTierTemplate = useCallback(async (template: TierTemplateInput, templateId?: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      const saved = await saveTierTemplate(userId, template, templateId);
+
+      setTierTemplates(prev => templateId
+        ? prev.map(item => (item.id === templateId ? saved : item))
+        : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+
+      toast.success(templateId
+        ? 'Modelo atualizado. Os produtos vinculados já usam as novas faixas'
+        : 'Modelo criado com sucesso');
+      return true;
+    } catch {
+      toast.error('Erro ao salvar modelo');
+      return false;
+    }
+  }, [userId]);
+
+  const removeTierTemplate = useCallback(async (templateId: string): Promise<boolean> => {
+    const success = await deleteTierTemplate(templateId);
+
+    if (success) {
+      setTierTemplates(prev => prev.filter(template => template.id !== templateId));
+      toast.success('Modelo excluído com sucesso');
+    } else {
+      toast.error('Erro ao excluir modelo');
+    }
+
+    return success;
+  }, []);
+
+  return {
+    tierTemplates,
+    loading,
+    error,
+    refreshTierTemplates: loadTierTemplates,
+    upsertTierTemplate,
+    removeTierTemplate,
+  };
+}
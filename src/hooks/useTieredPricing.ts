@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { fetchProductPriceTiers, calculateApplicablePrice } from '@/lib/tieredPricingUtils';
+import { applyPriceListToTiers } from '@/lib/priceListUtils';
 import type { PriceTier } from '@/types';
 
 interface UseTieredPricingResult {
@@ -21,7 +22,8 @@ export function useTieredPricing(
   productId: string | undefined,
   basePrice: number,
   baseDiscountedPrice?: number,
-  hasTieredPricing?: boolean
+  hasTieredPricing?: boolean,
+  priceListFactor?: number
 ): UseTieredPricingResult {
   const [tiers, setTiers] = useState<PriceTier[]>([]);
   const [loading, setLoading] = useState(false);
@@ -38,14 +40,14 @@ export function useTieredPricing(
 
     try {
       const fetchedTiers = await fetchProductPriceTiers(productId);
-      setTiers(fetchedTiers);
+      setTiers(applyPriceListToTiers(fetchedTiers, priceListFactor));
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to load price tiers'));
       console.error('Error loading price tiers:', err);
     } finally {
       setLoading(false);
     }
-  }, [productId, hasTieredPricing]);
+  }, [productId, hasTieredPricing, priceListFactor]);
 
   useEffect(() => {
     loadTiers();
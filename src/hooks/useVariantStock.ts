@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  fetchProductInventory,
+  buildVariantStockMap,
+  getAvailableStock,
+  isColorInStock,
+  isSizeInStock,
+  type VariantStockMap,
+} from '@/lib/inventoryUtils';
+
+interface UseVariantStockReturn {
+  trackInventory: boolean;
+  loading: boolean;
+  /** Units available for a combination, or null when stock is not tracked */
+  getStock: (color?: string, size?: string) => number | null;
+  isColorAvailable: (color: string, size?: string) => boolean;
+  isSizeAvailable: (size: string, color?: string) => boolean;
+}
+
+/**
+ * Load per-variant stock of a product for the storefront selectors
+ */
+export function useVariantStock(productId?: string, enabled: boolean = true): UseVariantStockReturn {
+  const [trackInventory, setTrackInventory] = useState(false);
+  const [stockMap, setStockMap] = useState<VariantStockMap>(new Map());
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!productId || !enabled) return;
+
+    let cancelled = false;
+
+    const loadStock = async () => {
+      setLoading(true);
+      const inventory = await fetchProductInventory(productId);
+      if (!cancelled) {
+        setTrackInventory(inventory.trackInventory);
+        setStockMap(buildVariantStockMap(inventory.stock));
+        setLoading(false);
+      }
+    };
+
+    loadStock();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productId, enabled]);
+
+  const getStock = useCallback((color?: string, size?: string): number | null => {
+    if (!trackInventory) return null;
+    return getAvailableStock(stockMap, color, size);
+  }, [trackInventory, stockMap]);
+
+  const isColorAvailable = useCallback((color: string, size?: string): boolean => {
+    if (!trackInventory) return true;
+    return isColorInStock(stockMap, color, size);
+  }, [trackInventory, stockMap]);
+
+  const isSizeAvailable = useCallback((size: string, color?: string): boolean => {
+    if (!trackInventory) return true;
+    return isSizeInStock(stockMap, size, color);
+  }, [trackInventory, stockMap]);
+
+  return {
+    trackInventory,
+    loading,
+    getStock,
+    isColorAvailable,
+    isSizeAvailable,
+  };
+}
@@ -0,0 +1,206 @@
+import { supabase } from './supabase';
+import { formatCurrency } from './utils';
+import { getViewerId } from './tracking';
+import { buildSharedCartSnapshot } from './sharedCartUtils';
+import type { AbandonedCart, AbandonedCartStatus, CartItem, CartDistribution } from '@/types';
+
+/**
+ * Minutes without changes before an open cart is listed as abandoned
+ */
+export const ABANDONED_AFTER_MINUTES = 60;
+
+const MIN_PHONE_DIGITS = 10;
+
+/**
+ * Contact typed by the visitor in the checkout form
+ */
+export interface AbandonedCartContact {
+  name?: string;
+  phone?: string;
+}
+
+/**
+ * Whether the contact has a phone number the seller can call back on WhatsApp
+ */
+export function hasFollowUpPhone(contact: AbandonedCartContact): boolean {
+  return (contact.phone || '').replace(/\D/g, '').length >= MIN_PHONE_DIGITS;
+}
+
+/**
+ * Store or refresh the cart snapshot of the current visitor; an empty cart
+ * removes it. The contact is only stored once it has a valid phone number.
+ */
+export async function saveAbandonedCart(
+  sellerId: string,
+  contact: AbandonedCartContact,
+  items: CartItem[],
+  distributions: CartDistribution[]
+): Promise<void> {
+  const hasPhone = hasFollowUpPhone(contact);
+  const snapshot = buildSharedCartSnapshot(items, distributions);
+  const subtotal =
+    snapshot.items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0) +
+    snapshot.distributions.reduce((sum, dist) => sum + dist.unit_price * dist.total_quantity, 0);
+  const itemCount =
+    snapshot.items.reduce((sum, item) => sum + item.quantity, 0) +
+    snapshot.distributions.reduce((sum, dist) => sum + dist.total_quantity, 0);
+
+  try {
+    const { error } = await supabase.rpc('save_abandoned_cart', {
+      p_user_id: sellerId,
+      p_viewer_id: getViewerId(),
+      p_customer_name: hasPhone ? contact.name?.trim() || '' : '',
+      p_customer_phone: hasPhone ? (contact.phone || '').replace(/\D/g, '') : '',
+      p_items: snapshot.items,
+      p_distributions: snapshot.distributions,
+      p_subtotal: subtotal,
+      p_item_count: itemCount,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error saving abandoned cart:', error);
+  }
+}
+
+/**
+ * Close the snapshot of the current visitor once the order is sent
+ */
+export async function markAbandonedCartConverted(sellerId: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('mark_abandoned_cart_converted', {
+      p_user_id: sellerId,
+      p_viewer_id: getViewerId(),
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error marking abandoned cart as converted:', error);
+  }
+}
+
+/**
+ * Fetch the abandoned carts of a seller, most recent first. Open carts are
+ * only listed once they have been idle for ABANDONED_AFTER_MINUTES
+ */
+export async function fetchAbandonedCarts(
+  userId: string,
+  status: AbandonedCartStatus = 'open'
+): Promise<AbandonedCart[]> {
+  try {
+    let query = supabase
+      .from('abandoned_carts')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', status)
+      .order('updated_at', { ascending: false });
+
+    if (status === 'open') {
+      const idleSince = new Date(Date.now() - ABANDONED_AFTER_MINUTES * 60 * 1000);
+      query = query.lt('updated_at', idleSince.toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Abandoned carts table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizeAbandonedCart);
+  } catch (error) {
+    console.error('Error fetching abandoned carts:', error);
+    return [];
+  }
+}
+
+/**
+ * Record that the seller sent a follow-up message
+ */
+export async function markAbandonedCartContacted(cartId: string): Promise<string | null> {
+  try {
+    const contactedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('abandoned_carts')
+      .update({ contacted_at: contactedAt })
+      .eq('id', cartId);
+
+    if (error) throw error;
+    return contactedAt;
+  } catch (error) {
+    console.error('Error marking abandoned cart as contacted:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete an abandoned cart
+ */
+export async function deleteAbandonedCart(cartId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('abandoned_carts')
+      .delete()
+      .eq('id', cartId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting abandoned cart:', error);
+    return false;
+  }
+}
+
+/**
+ * Short list of the products in the cart, e.g. "Camiseta (3), Calça (2)"
+ */
+export function summarizeAbandonedCart(cart: AbandonedCart): string {
+  const quantities = new Map<string, number>();
+
+  cart.items.forEach(item => {
+    quantities.set(item.title, (quantities.get(item.title) || 0) + item.quantity);
+  });
+  cart.distributions.forEach(dist => {
+    quantities.set(dist.title, (quantities.get(dist.title) || 0) + dist.total_quantity);
+  });
+
+  return Array.from(quantities.entries())
+    .map(([title, quantity]) => `${title} (${quantity})`)
+    .join(', ');
+}
+
+/**
+ * WhatsApp follow-up sent by the seller with the link to the restored cart
+ */
+export function generateAbandonedCartFollowUpMessage(
+  cart: AbandonedCart,
+  sellerName: string,
+  cartUrl: string
+): string {
+  const firstName = cart.customer_name?.trim().split(/\s+/)[0];
+  const lines = [
+    `Olá${firstName ? `, ${firstName}` : ''}! Aqui é ${sellerName}.`,
+    '',
+    `Vi que você montou um carrinho na nossa vitrine com ${cart.item_count} ${cart.item_count === 1 ? 'peça' : 'peças'} (${formatCurrency(cart.subtotal)}) e não finalizou o pedido.`,
+    '',
+    'Separei ele para você, é só abrir o link para continuar de onde parou:',
+    cartUrl,
+    '',
+    'Se tiver alguma dúvida, é só me chamar por aqui!',
+  ];
+
+  return lines.join('\n');
+}
+
+function normalizeAbandonedCart(cart: AbandonedCart): AbandonedCart {
+  return {
+    ...cart,
+    items: cart.items || [],
+    distributions: cart.distributions || [],
+    subtotal: Number(cart.subtotal) || 0,
+    item_count: Number(cart.item_count) || 0,
+  };
+}
@@ -0,0 +1,332 @@
+import { supabase } from './supabase';
+import type { AttendantRoutingSettings, AttendantWorkingHours, StoreAttendant } from '@/types';
+
+export interface AttendantConfig {
+  settings: AttendantRoutingSettings | null;
+  attendants: StoreAttendant[];
+}
+
+export type StoreAttendantInput = Omit<StoreAttendant, 'id' | 'user_id' | 'last_assigned_at' | 'created_at' | 'updated_at'>;
+export type AttendantRoutingSettingsInput = Omit<AttendantRoutingSettings, 'user_id' | 'created_at' | 'updated_at'>;
+
+export const WEEKDAY_LABELS = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+export const WEEKDAY_SHORT_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+export const ATTENDANT_TIMEZONES: Record<string, string> = {
+  'America/Sao_Paulo': 'Horário de Brasília',
+  'America/Manaus': 'Horário do Amazonas',
+  'America/Cuiaba': 'Horário de Mato Grosso',
+  'America/Rio_Branco': 'Horário do Acre',
+  'America/Noronha': 'Horário de Fernando de Noronha',
+};
+
+export const DEFAULT_ATTENDANT_TIMEZONE = 'America/Sao_Paulo';
+
+export const DEFAULT_WORKING_HOURS: AttendantWorkingHours[] = [1, 2, 3, 4, 5].map(day => ({
+  day,
+  start: '08:00',
+  end: '18:00',
+}));
+
+const ATTENDANT_STORAGE_PREFIX = 'store_attendant_';
+
+/**
+ * Minutes since midnight of a HH:MM time
+ */
+export function parseTimeToMinutes(time: string): number {
+  const [hours, minutes] = (time || '').split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Weekday and minutes since midnight of a date in the given timezone
+ */
+export function getZonedWeekdayAndMinutes(timezone: string, now: Date = new Date()): { day: number; minutes: number } {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+
+    const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+    const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'));
+
+    return { day, minutes: Number(get('hour')) * 60 + Number(get('minute')) };
+  } catch {
+    // Unknown timezone: use the visitor clock
+    return { day: now.getDay(), minutes: now.getHours() * 60 + now.getMinutes() };
+  }
+}
+
+/**
+ * Check whether an attendant is working right now; no hours means always
+ */
+export function isAttendantWorking(
+  attendant: StoreAttendant,
+  timezone: string = DEFAULT_ATTENDANT_TIMEZONE,
+  now: Date = new Date()
+): boolean {
+  if (attendant.working_hours.length === 0) return true;
+
+  const { day, minutes } = getZonedWeekdayAndMinutes(timezone, now);
+
+  return attendant.working_hours.some(hours =>
+    hours.day === day &&
+    minutes >= parseTimeToMinutes(hours.start) &&
+    minutes < parseTimeToMinutes(hours.end)
+  );
+}
+
+/**
+ * Attendants that may receive a contact. Each rule narrows the list only when
+ * someone matches it, so a contact is never left without an attendant
+ */
+export function getEligibleAttendants(
+  attendants: StoreAttendant[],
+  settings: AttendantRoutingSettings,
+  categories: string[] = [],
+  now: Date = new Date()
+): StoreAttendant[] {
+  const active = attendants.filter(attendant => attendant.is_active && attendant.whatsapp);
+  let eligible = active;
+
+  if (settings.route_by_category) {
+    const specialists = categories.length > 0
+      ? active.filter(attendant => attendant.categories.some(category => categories.includes(category)))
+      : [];
+    const generalists = active.filter(attendant => attendant.categories.length === 0);
+
+    if (specialists.length > 0) {
+      eligible = specialists;
+    } else if (generalists.length > 0) {
+      eligible = generalists;
+    }
+  }
+
+  if (settings.route_by_business_hours) {
+    const working = eligible.filter(attendant => isAttendantWorking(attendant, settings.timezone, now));
+    if (working.length > 0) {
+      eligible = working;
+    }
+  }
+
+  return eligible;
+}
+
+/**
+ * Working hours grouped by time, e.g. "Seg, Ter, Qua 08:00–18:00 • Sáb 08:00–12:00"
+ */
+export function formatWorkingHours(workingHours: AttendantWorkingHours[]): string {
+  if (workingHours.length === 0) return 'Sempre disponível';
+
+  const groups = new Map<string, number[]>();
+  [...workingHours]
+    .sort((a, b) => a.day - b.day)
+    .forEach(hours => {
+      const key = `${hours.start}–${hours.end}`;
+      groups.set(key, [...(groups.get(key) || []), hours.day]);
+    });
+
+  return Array.from(groups.entries())
+    .map(([time, days]) => `${days.map(day => WEEKDAY_SHORT_LABELS[day]).join(', ')} ${time}`)
+    .join(' • ');
+}
+
+/**
+ * Pick the attendant for a storefront contact. The visitor keeps the same
+ * attendant while they are eligible; otherwise the next one in the
+ * round-robin is claimed. Returns null when routing is disabled
+ */
+export async function resolveStoreAttendant(
+  sellerId: string,
+  categories: string[] = []
+): Promise<StoreAttendant | null> {
+  const { settings, attendants } = await fetchAttendantConfig(sellerId);
+  if (!settings?.is_enabled) return null;
+
+  const eligible = getEligibleAttendants(attendants, settings, categories);
+  if (eligible.length === 0) return null;
+
+  const storageKey = `${ATTENDANT_STORAGE_PREFIX}${sellerId}`;
+  const current = eligible.find(attendant => attendant.id === localStorage.getItem(storageKey));
+  if (current) return current;
+
+  let attendant = eligible[Math.floor(Math.random() * eligible.length)];
+
+  try {
+    const { data, error } = await supabase.rpc('claim_store_attendant', {
+      p_user_id: sellerId,
+      p_attendant_ids: eligible.map(item => item.id),
+    });
+
+    if (error) throw error;
+
+    attendant = eligible.find(item => item.id === data) || attendant;
+  } catch (error) {
+    console.error('Error claiming store attendant:', error);
+  }
+
+  localStorage.setItem(storageKey, attendant.id);
+  return attendant;
+}
+
+/**
+ * Fetch the routing settings and attendants of a seller
+ */
+export async function fetchAttendantConfig(userId: string): Promise<AttendantConfig> {
+  try {
+    const [{ data: settings, error: settingsError }, { data: attendants, error: attendantsError }] = await Promise.all([
+      supabase
+        .from('attendant_routing_settings')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      supabase
+        .from('store_attendants')
+        .select('*')
+        .eq('user_id', userId)
+        .order('display_order')
+        .order('created_at'),
+    ]);
+
+    const error = settingsError || attendantsError;
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Store attendant tables not found. Please apply database migrations.');
+        return { settings: null, attendants: [] };
+      }
+      throw error;
+    }
+
+    return {
+      settings,
+      attendants: (attendants || []).map(normalizeStoreAttendant),
+    };
+  } catch (error) {
+    console.error('Error fetching attendant config:', error);
+    return { settings: null, attendants: [] };
+  }
+}
+
+/**
+ * Create or update the attendant routing settings of a seller
+ */
+export async function saveAttendantRoutingSettings(
+  userId: string,
+  settings: AttendantRoutingSettingsInput
+): Promise<AttendantRoutingSettings> {
+  const { data, error } = await supabase
+    .from('attendant_routing_settings')
+    .upsert({
+      ...settings,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving attendant routing settings:', error);
+    throw new Error('Failed to save attendant routing settings');
+  }
+
+  return data;
+}
+
+/**
+ * Create or update an attendant
+ */
+export async function saveStoreAttendant(
+  userId: string,
+  attendant: StoreAttendantInput,
+  attendantId?: string
+): Promise<StoreAttendant> {
+  const payload = {
+    ...attendant,
+    user_id: userId,
+    updated_at: new Date().toISOString(),
+  };
+
+  const query = attendantId
+    ? supabase.from('store_attendants').update(payload).eq('id', attendantId).eq('user_id', userId)
+    : supabase.from('store_attendants').insert(payload);
+
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    console.error('Error saving store attendant:', error);
+    throw new Error('Failed to save store attendant');
+  }
+
+  return normalizeStoreAttendant(data);
+}
+
+/**
+ * Enable or disable an attendant
+ */
+export async function setStoreAttendantActive(attendantId: string, isActive: boolean): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('store_attendants')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', attendantId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error updating store attendant:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete an attendant; their leads are kept without attendant
+ */
+export async function deleteStoreAttendant(attendantId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('store_attendants')
+      .delete()
+      .eq('id', attendantId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting store attendant:', error);
+    return false;
+  }
+}
+
+/**
+ * WhatsApp leads sent to each attendant of the current seller since a date
+ */
+export async function fetchAttendantLeadCounts(since: Date): Promise<Record<string, number>> {
+  try {
+    const { data, error } = await supabase.rpc('get_attendant_lead_counts', {
+      p_since: since.toISOString(),
+    });
+
+    if (error) throw error;
+
+    return ((data || []) as Array<{ attendant_id: string; lead_count: number | string }>).reduce(
+      (counts, row) => ({ ...counts, [row.attendant_id]: Number(row.lead_count) || 0 }),
+      {} as Record<string, number>
+    );
+  } catch (error) {
+    console.error('Error fetching attendant lead counts:', error);
+    return {};
+  }
+}
+
+function normalizeStoreAttendant(attendant: StoreAttendant): StoreAttendant {
+  return {
+    ...attendant,
+    categories: attendant.categories || [],
+    working_hours: attendant.working_hours || [],
+  };
+}
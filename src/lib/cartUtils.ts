@@ -1,5 +1,44 @@
-import type { CartItem, CartDistribution } from '@/types';
+import type { CartItem, CartDistribution, CheckoutCustomer } from '@/types';
 import { formatCurrencyI18n, generateWhatsAppMessage, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
+import { formatCpf, formatCustomerAddress, hasCustomerData, PAYMENT_METHOD_LABELS } from '@/lib/checkoutUtils';
+import { formatPhone } from '@/lib/utils';
+import { formatDistributionForWhatsApp, formatVariantLabel } from '@/lib/distributionUtils';
+import { formatKitComponentLabel } from '@/lib/kitUtils';
+import { renderMessageTemplate } from '@/lib/messageTemplateUtils';
+
+/**
+ * Base URL for links sent to customers: production domain in production,
+ * otherwise the current origin
+ */
+export function getStorefrontBaseUrl(): string {
+  const isProduction = typeof window !== 'undefined' &&
+    (window.location.hostname === 'vitrineturbo.com' ||
+     window.location.hostname.includes('netlify.app') ||
+     window.location.hostname.includes('vercel.app'));
+  return isProduction ? 'https://vitrineturbo.com' :
+    (typeof window !== 'undefined' ? window.location.origin : 'https://vitrineturbo.com');
+}
+
+/**
+ * Extra order details appended to the cart WhatsApp message
+ */
+export interface CartOrderMessageOptions {
+  orderCode?: string;
+  /** Sum of the lines before discounts and shipping */
+  subtotal?: number;
+  coupon?: { code: string; discount: number };
+  shipping?: { label: string; price: number; cep?: string; details?: string };
+  /** Answers of the checkout form */
+  customer?: CheckoutCustomer;
+  /** PIX "copia e cola" code for the order total */
+  pixPayload?: string;
+  /** Installment plan chosen by the customer, e.g. "10x de R$ 39,90 sem juros" */
+  installment?: string;
+  /** Custom template of the store, replacing the default layout */
+  template?: string;
+  /** Custom template for each distribution in the items list */
+  distributionTemplate?: string;
+}
 
 /**
  * Generate a formatted WhatsApp message for a cart order
@@ -11,10 +50,16 @@ export function generateCartOrderMessage(
   corretorSlug: string,
   currency: SupportedCurrency = 'BRL',
   language: SupportedLanguage = 'pt-BR',
-  distributions: CartDistribution[] = []
+  distributions: CartDistribution[] = [],
+  options: CartOrderMessageOptions = {}
 ): string {
   if (cartItems.length === 0 && distributions.length === 0) return '';
 
+  const { orderCode, coupon, shipping, customer, pixPayload, installment, template, distributionTemplate } = options;
+  const orderUrl = orderCode && corretorSlug
+    ? `${getStorefrontBaseUrl()}/${corretorSlug}/pedido/${orderCode}`
+    : '';
+
   // Simplified greeting for cart orders
   const greeting = `Olá ${sellerName}, gostaria de realizar um pedido com os itens abaixo.`;
   
@@ -28,31 +73,57 @@ export function generateCartOrderMessage(
   };
   
   orderMessage += `*${orderTitles[language] || orderTitles['pt-BR']}*\n`;
+
+  if (orderCode) {
+    const orderCodeLabels = {
+      'pt-BR': 'Código do pedido',
+      'en-US': 'Order code',
+      'es-ES': 'Código del pedido',
+    };
+    orderMessage += `${orderCodeLabels[language] || orderCodeLabels['pt-BR']}: *${orderCode}*\n`;
+
+    if (orderUrl) {
+      const trackingLabels = {
+        'pt-BR': 'Acompanhe seu pedido',
+        'en-US': 'Track your order',
+        'es-ES': 'Siga su pedido',
+      };
+      orderMessage += `${trackingLabels[language] || trackingLabels['pt-BR']}: ${orderUrl}\n`;
+    }
+  }
+
   orderMessage += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
 
+  let itemsMessage = '';
   let itemNumber = 1;
 
   // Add distribution groups first
   distributions.forEach((dist) => {
+    if (distributionTemplate) {
+      itemsMessage += `${formatDistributionForWhatsApp(dist.product, dist.distribution, dist.items, {
+        template: distributionTemplate,
+        currency,
+        language,
+        productUrl: corretorSlug ? `${getStorefrontBaseUrl()}/${corretorSlug}/produtos/${dist.product.id}` : undefined,
+        number: itemNumber,
+      })}\n\n`;
+      itemNumber++;
+      return;
+    }
+
     const price = dist.distribution.applied_tier_price;
     const totalPrice = price * dist.distribution.total_quantity;
 
-    orderMessage += `${itemNumber}. *${dist.product.title.trim()}*\n`;
-    orderMessage += `   📦 Distribuição de Variações\n`;
+    itemsMessage += `${itemNumber}. *${dist.product.title.trim()}*\n`;
+    itemsMessage += `   📦 Distribuição de Variações\n`;
 
     // Add product link
     if (corretorSlug) {
       try {
-        const isProduction = typeof window !== 'undefined' &&
-          (window.location.hostname === 'vitrineturbo.com' ||
-           window.location.hostname.includes('netlify.app') ||
-           window.location.hostname.includes('vercel.app'));
-        const baseUrl = isProduction ? 'https://vitrineturbo.com' :
-          (typeof window !== 'undefined' ? window.location.origin : 'https://vitrineturbo.com');
-        const productUrl = `${baseUrl}/${corretorSlug}/produtos/${dist.product.id}`;
-        orderMessage += `${productUrl}\n`;
+        const productUrl = `${getStorefrontBaseUrl()}/${corretorSlug}/produtos/${dist.product.id}`;
+        itemsMessage += `${productUrl}\n`;
       } catch {
-        orderMessage += `Ver produto\n`;
+        itemsMessage += `Ver produto\n`;
       }
     }
 
@@ -80,19 +151,18 @@ export function generateCartOrderMessage(
       'es-ES': 'Distribución',
     };
 
-    orderMessage += `   ${quantityLabels[language] || quantityLabels['pt-BR']}: ${dist.distribution.total_quantity}\n`;
-    orderMessage += `   ${unitPriceLabels[language] || unitPriceLabels['pt-BR']}: ${formatCurrencyI18n(price, currency, language)}\n`;
-    orderMessage += `   ${subtotalLabels[language] || subtotalLabels['pt-BR']}: ${formatCurrencyI18n(totalPrice, currency, language)}\n`;
+    itemsMessage += `   ${quantityLabels[language] || quantityLabels['pt-BR']}: ${dist.distribution.total_quantity}\n`;
+    itemsMessage += `   ${unitPriceLabels[language] || unitPriceLabels['pt-BR']}: ${formatCurrencyI18n(price, currency, language)}\n`;
+    itemsMessage += `   ${subtotalLabels[language] || subtotalLabels['pt-BR']}: ${formatCurrencyI18n(totalPrice, currency, language)}\n`;
 
     if (dist.items.length > 0) {
-      orderMessage += `\n   ${distributionLabels[language] || distributionLabels['pt-BR']}:\n`;
+      itemsMessage += `\n   ${distributionLabels[language] || distributionLabels['pt-BR']}:\n`;
       dist.items.forEach((item) => {
-        const variantInfo = [item.color, item.size].filter(Boolean).join(' • ');
-        orderMessage += `   • ${item.quantity}x ${variantInfo || 'Padrão'}\n`;
+        itemsMessage += `   • ${item.quantity}x ${formatVariantLabel(item, ' • ') || 'Padrão'}\n`;
       });
     }
 
-    orderMessage += `\n`;
+    itemsMessage += `\n`;
     itemNumber++;
   });
 
@@ -101,7 +171,7 @@ export function generateCartOrderMessage(
     const price = item.applied_tier_price || item.discounted_price || item.price;
     const itemTotal = price * item.quantity;
 
-    orderMessage += `${itemNumber}. *${item.title.trim()}*\n`;
+    itemsMessage += `${itemNumber}. *${item.title.trim()}*\n`;
 
     // Add variant information if available - show color and size separately for clarity
     if (item.selectedColor || item.selectedSize) {
@@ -111,7 +181,7 @@ export function generateCartOrderMessage(
           'en-US': 'Color',
           'es-ES': 'Color',
         };
-        orderMessage += `   ${colorLabels[language] || colorLabels['pt-BR']}: ${item.selectedColor}\n`;
+        itemsMessage += `   ${colorLabels[language] || colorLabels['pt-BR']}: ${item.selectedColor}\n`;
       }
       if (item.selectedSize) {
         const sizeLabels = {
@@ -119,25 +189,36 @@ export function generateCartOrderMessage(
           'en-US': 'Size',
           'es-ES': 'Tamaño',
         };
-        orderMessage += `   ${sizeLabels[language] || sizeLabels['pt-BR']}: ${item.selectedSize}\n`;
+        itemsMessage += `   ${sizeLabels[language] || sizeLabels['pt-BR']}: ${item.selectedSize}\n`;
       }
     }
 
+    // SKU of the chosen variant, so the seller can find it in stock
+    if (item.sku) {
+      itemsMessage += `   SKU: ${item.sku}\n`;
+    }
+
+    // Pieces of a kit, one per line
+    if (item.kit_components && item.kit_components.length > 0) {
+      const kitLabels = {
+        'pt-BR': 'Itens do kit',
+        'en-US': 'Kit items',
+        'es-ES': 'Artículos del kit',
+      };
+      itemsMessage += `   ${kitLabels[language] || kitLabels['pt-BR']}:\n`;
+      item.kit_components.forEach((component) => {
+        itemsMessage += `   • ${formatKitComponentLabel(component)}\n`;
+      });
+    }
+
     // Add product link for easy access to full details
     if (corretorSlug) {
       try {
-        // Use production domain in production, otherwise use current origin
-        const isProduction = typeof window !== 'undefined' &&
-          (window.location.hostname === 'vitrineturbo.com' ||
-           window.location.hostname.includes('netlify.app') ||
-           window.location.hostname.includes('vercel.app'));
-        const baseUrl = isProduction ? 'https://vitrineturbo.com' :
-          (typeof window !== 'undefined' ? window.location.origin : 'https://vitrineturbo.com');
-        const productUrl = `${baseUrl}/${corretorSlug}/produtos/${item.id}`;
-        orderMessage += `${productUrl}\n`;
+        const productUrl = `${getStorefrontBaseUrl()}/${corretorSlug}/produtos/${item.id}`;
+        itemsMessage += `${productUrl}\n`;
       } catch {
         // Fallback if URL generation fails
-        orderMessage += `Ver produto\n`;
+        itemsMessage += `Ver produto\n`;
       }
     }
 
@@ -159,9 +240,9 @@ export function generateCartOrderMessage(
       'es-ES': 'Subtotal',
     };
 
-    orderMessage += `   ${quantityLabels[language] || quantityLabels['pt-BR']}: ${item.quantity}\n`;
-    orderMessage += `   ${unitPriceLabels[language] || unitPriceLabels['pt-BR']}: ${formatCurrencyI18n(price, currency, language)}\n`;
-    orderMessage += `   ${subtotalLabels[language] || subtotalLabels['pt-BR']}: ${formatCurrencyI18n(itemTotal, currency, language)}\n`;
+    itemsMessage += `   ${quantityLabels[language] || quantityLabels['pt-BR']}: ${item.quantity}\n`;
+    itemsMessage += `   ${unitPriceLabels[language] || unitPriceLabels['pt-BR']}: ${formatCurrencyI18n(price, currency, language)}\n`;
+    itemsMessage += `   ${subtotalLabels[language] || subtotalLabels['pt-BR']}: ${formatCurrencyI18n(itemTotal, currency, language)}\n`;
 
     // Add notes if they exist
     if (item.notes && item.notes.trim()) {
@@ -170,15 +251,107 @@ export function generateCartOrderMessage(
         'en-US': 'Notes',
         'es-ES': 'Observación',
       };
-      orderMessage += `   ${notesLabels[language] || notesLabels['pt-BR']}: ${item.notes}\n`;
+      itemsMessage += `   ${notesLabels[language] || notesLabels['pt-BR']}: ${item.notes}\n`;
     }
 
-    orderMessage += `\n`;
+    itemsMessage += `\n`;
     itemNumber++;
   });
 
+  const hasCoupon = !!coupon && coupon.discount > 0;
+  const subtotal = options.subtotal ?? total + (coupon?.discount || 0) - (shipping?.price || 0);
+
+  const freeLabels = {
+    'pt-BR': 'Grátis',
+    'en-US': 'Free',
+    'es-ES': 'Gratis',
+  };
+  const shippingPrice = shipping && shipping.price > 0
+    ? formatCurrencyI18n(shipping.price, currency, language)
+    : freeLabels[language] || freeLabels['pt-BR'];
+
+  const customerBlock = formatCustomerBlock(customer, language);
+
+  let pixBlock = '';
+  if (pixPayload) {
+    const pixLabels = {
+      'pt-BR': { title: 'PAGAMENTO VIA PIX', hint: 'Copie o código abaixo e cole no app do seu banco (PIX copia e cola):' },
+      'en-US': { title: 'PIX PAYMENT', hint: 'Copy the code below and paste it in your bank app (PIX copy and paste):' },
+      'es-ES': { title: 'PAGO CON PIX', hint: 'Copie el código de abajo y péguelo en la app de su banco (PIX copia y pega):' },
+    };
+    const labels = pixLabels[language] || pixLabels['pt-BR'];
+
+    pixBlock = `*${labels.title}*\n${labels.hint}\n${pixPayload}\n`;
+  }
+
+  if (template) {
+    const itemCount =
+      cartItems.reduce((sum, item) => sum + item.quantity, 0) +
+      distributions.reduce((sum, dist) => sum + dist.distribution.total_quantity, 0);
+
+    return renderMessageTemplate(template, {
+      vendedor: sellerName,
+      cliente: customer?.name,
+      codigo: orderCode,
+      link_pedido: orderUrl,
+      itens: itemsMessage.trim(),
+      quantidade: itemCount,
+      subtotal: formatCurrencyI18n(subtotal, currency, language),
+      cupom: hasCoupon ? `${coupon.code} (-${formatCurrencyI18n(coupon.discount, currency, language)})` : '',
+      frete: shipping ? `${shipping.label}: ${shippingPrice}` : '',
+      total: formatCurrencyI18n(total, currency, language),
+      parcelamento: installment,
+      dados_cliente: customerBlock.trim(),
+      pix: pixBlock.trim(),
+    });
+  }
+
+  orderMessage += itemsMessage;
+
   // Order footer
   orderMessage += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+
+  if (hasCoupon || shipping) {
+    const subtotalLabels = {
+      'pt-BR': 'Subtotal',
+      'en-US': 'Subtotal',
+      'es-ES': 'Subtotal',
+    };
+    orderMessage += `${subtotalLabels[language] || subtotalLabels['pt-BR']}: ${formatCurrencyI18n(subtotal, currency, language)}\n`;
+  }
+
+  if (hasCoupon) {
+    const couponLabels = {
+      'pt-BR': 'Cupom',
+      'en-US': 'Coupon',
+      'es-ES': 'Cupón',
+    };
+    const discountLabels = {
+      'pt-BR': 'Desconto',
+      'en-US': 'Discount',
+      'es-ES': 'Descuento',
+    };
+
+    orderMessage += `${couponLabels[language] || couponLabels['pt-BR']}: *${coupon.code}*\n`;
+    orderMessage += `${discountLabels[language] || discountLabels['pt-BR']}: -${formatCurrencyI18n(coupon.discount, currency, language)}\n`;
+  }
+
+  if (shipping) {
+    const shippingLabels = {
+      'pt-BR': 'Frete',
+      'en-US': 'Shipping',
+      'es-ES': 'Envío',
+    };
+
+    orderMessage += `${shippingLabels[language] || shippingLabels['pt-BR']} (${shipping.label}): ${shippingPrice}\n`;
+
+    if (shipping.details) {
+      orderMessage += `   ${shipping.details}\n`;
+    }
+    if (shipping.cep) {
+      orderMessage += `   CEP: ${shipping.cep}\n`;
+    }
+  }
   
   const totalLabels = {
     'pt-BR': 'TOTAL',
@@ -186,7 +359,26 @@ export function generateCartOrderMessage(
     'es-ES': 'TOTAL',
   };
   
-  orderMessage += `*${totalLabels[language] || totalLabels['pt-BR']}: ${formatCurrencyI18n(total, currency, language)}*\n\n`;
+  orderMessage += `*${totalLabels[language] || totalLabels['pt-BR']}: ${formatCurrencyI18n(total, currency, language)}*\n`;
+
+  if (installment) {
+    const installmentLabels = {
+      'pt-BR': 'Parcelamento',
+      'en-US': 'Installments',
+      'es-ES': 'Cuotas',
+    };
+    orderMessage += `${installmentLabels[language] || installmentLabels['pt-BR']}: ${installment}\n`;
+  }
+
+  orderMessage += '\n';
+
+  if (customerBlock) {
+    orderMessage += `${customerBlock}\n`;
+  }
+
+  if (pixBlock) {
+    orderMessage += `${pixBlock}\n`;
+  }
   
   const footerMessages = {
     'pt-BR': 'Aguardo retorno com informações sobre pagamento e entrega.',
@@ -199,6 +391,35 @@ export function generateCartOrderMessage(
   return orderMessage;
 }
 
+/**
+ * Checkout form answers as a WhatsApp message block, or '' without data
+ */
+export function formatCustomerBlock(
+  customer: CheckoutCustomer | undefined,
+  language: SupportedLanguage = 'pt-BR'
+): string {
+  if (!hasCustomerData(customer)) return '';
+
+  const customerLabels = {
+    'pt-BR': { title: 'DADOS DO CLIENTE', name: 'Nome', phone: 'Telefone', cpf: 'CPF', address: 'Endereço', payment: 'Pagamento', notes: 'Observações de entrega' },
+    'en-US': { title: 'CUSTOMER DETAILS', name: 'Name', phone: 'Phone', cpf: 'CPF', address: 'Address', payment: 'Payment', notes: 'Delivery notes' },
+    'es-ES': { title: 'DATOS DEL CLIENTE', name: 'Nombre', phone: 'Teléfono', cpf: 'CPF', address: 'Dirección', payment: 'Pago', notes: 'Observaciones de entrega' },
+  };
+  const labels = customerLabels[language] || customerLabels['pt-BR'];
+
+  let customerBlock = `*${labels.title}*\n`;
+  if (customer.name) customerBlock += `${labels.name}: ${customer.name}\n`;
+  if (customer.phone) customerBlock += `${labels.phone}: ${formatPhone(customer.phone)}\n`;
+  if (customer.cpf) customerBlock += `${labels.cpf}: ${formatCpf(customer.cpf)}\n`;
+  if (customer.address) customerBlock += `${labels.address}: ${formatCustomerAddress(customer.address)}\n`;
+  if (customer.payment_method) {
+    customerBlock += `${labels.payment}: ${PAYMENT_METHOD_LABELS[customer.payment_method] || customer.payment_method}\n`;
+  }
+  if (customer.delivery_notes) customerBlock += `${labels.notes}: ${customer.delivery_notes}\n`;
+
+  return customerBlock;
+}
+
 /**
  * Calculate cart statistics
  */
@@ -0,0 +1,81 @@
+import { normalizeCep } from './shippingUtils';
+
+/**
+ * A CEP range, compared by the first 5 digits
+ */
+interface CepRange {
+  start: number;
+  end: number;
+}
+
+interface CepRegion {
+  state: string;
+  capital: string;
+  ranges: CepRange[];
+  capitalRanges: CepRange[];
+}
+
+/**
+ * Result of a local CEP lookup
+ */
+export interface CepLookupResult {
+  state: string;
+  city?: string;
+}
+
+// Correios CEP ranges per state and for each state capital
+const CEP_REGIONS: CepRegion[] = [
+  { state: 'SP', capital: 'São Paulo', ranges: [{ start: 1000, end: 19999 }], capitalRanges: [{ start: 1000, end: 5999 }, { start: 8000, end: 8499 }] },
+  { state: 'RJ', capital: 'Rio de Janeiro', ranges: [{ start: 20000, end: 28999 }], capitalRanges: [{ start: 20000, end: 23799 }] },
+  { state: 'ES', capital: 'Vitória', ranges: [{ start: 29000, end: 29999 }], capitalRanges: [{ start: 29000, end: 29099 }] },
+  { state: 'MG', capital: 'Belo Horizonte', ranges: [{ start: 30000, end: 39999 }], capitalRanges: [{ start: 30000, end: 31999 }] },
+  { state: 'BA', capital: 'Salvador', ranges: [{ start: 40000, end: 48999 }], capitalRanges: [{ start: 40000, end: 42599 }] },
+  { state: 'SE', capital: 'Aracaju', ranges: [{ start: 49000, end: 49999 }], capitalRanges: [{ start: 49000, end: 49098 }] },
+  { state: 'PE', capital: 'Recife', ranges: [{ start: 50000, end: 56999 }], capitalRanges: [{ start: 50000, end: 52999 }] },
+  { state: 'AL', capital: 'Maceió', ranges: [{ start: 57000, end: 57999 }], capitalRanges: [{ start: 57000, end: 57099 }] },
+  { state: 'PB', capital: 'João Pessoa', ranges: [{ start: 58000, end: 58999 }], capitalRanges: [{ start: 58000, end: 58099 }] },
+  { state: 'RN', capital: 'Natal', ranges: [{ start: 59000, end: 59999 }], capitalRanges: [{ start: 59000, end: 59139 }] },
+  { state: 'CE', capital: 'Fortaleza', ranges: [{ start: 60000, end: 63999 }], capitalRanges: [{ start: 60000, end: 61599 }] },
+  { state: 'PI', capital: 'Teresina', ranges: [{ start: 64000, end: 64999 }], capitalRanges: [{ start: 64000, end: 64099 }] },
+  { state: 'MA', capital: 'São Luís', ranges: [{ start: 65000, end: 65999 }], capitalRanges: [{ start: 65000, end: 65109 }] },
+  { state: 'PA', capital: 'Belém', ranges: [{ start: 66000, end: 68899 }], capitalRanges: [{ start: 66000, end: 66999 }] },
+  { state: 'AP', capital: 'Macapá', ranges: [{ start: 68900, end: 68999 }], capitalRanges: [{ start: 68900, end: 68914 }] },
+  { state: 'AM', capital: 'Manaus', ranges: [{ start: 69000, end: 69299 }, { start: 69400, end: 69899 }], capitalRanges: [{ start: 69000, end: 69099 }] },
+  { state: 'RR', capital: 'Boa Vista', ranges: [{ start: 69300, end: 69399 }], capitalRanges: [{ start: 69300, end: 69339 }] },
+  { state: 'AC', capital: 'Rio Branco', ranges: [{ start: 69900, end: 69999 }], capitalRanges: [{ start: 69900, end: 69923 }] },
+  { state: 'DF', capital: 'Brasília', ranges: [{ start: 70000, end: 72799 }, { start: 73000, end: 73699 }], capitalRanges: [{ start: 70000, end: 72799 }, { start: 73000, end: 73699 }] },
+  { state: 'GO', capital: 'Goiânia', ranges: [{ start: 72800, end: 72999 }, { start: 73700, end: 76799 }], capitalRanges: [{ start: 74000, end: 74899 }] },
+  { state: 'RO', capital: 'Porto Velho', ranges: [{ start: 76800, end: 76999 }], capitalRanges: [{ start: 76800, end: 76834 }] },
+  { state: 'TO', capital: 'Palmas', ranges: [{ start: 77000, end: 77999 }], capitalRanges: [{ start: 77000, end: 77249 }] },
+  { state: 'MT', capital: 'Cuiabá', ranges: [{ start: 78000, end: 78899 }], capitalRanges: [{ start: 78000, end: 78109 }] },
+  { state: 'MS', capital: 'Campo Grande', ranges: [{ start: 79000, end: 79999 }], capitalRanges: [{ start: 79000, end: 79124 }] },
+  { state: 'PR', capital: 'Curitiba', ranges: [{ start: 80000, end: 87999 }], capitalRanges: [{ start: 80000, end: 82999 }] },
+  { state: 'SC', capital: 'Florianópolis', ranges: [{ start: 88000, end: 89999 }], capitalRanges: [{ start: 88000, end: 88099 }] },
+  { state: 'RS', capital: 'Porto Alegre', ranges: [{ start: 90000, end: 99999 }], capitalRanges: [{ start: 90000, end: 91999 }] },
+];
+
+/**
+ * Brazilian state abbreviations, in alphabetical order
+ */
+export const BRAZILIAN_STATES = CEP_REGIONS.map(region => region.state).sort();
+
+const isInRanges = (prefix: number, ranges: CepRange[]) =>
+  ranges.some(range => prefix >= range.start && prefix <= range.end);
+
+/**
+ * Find the state of a CEP, and the city when it belongs to a state capital.
+ * The lookup runs offline, so streets and other cities are left for the customer.
+ */
+export function lookupCep(cep: string): CepLookupResult | null {
+  const digits = normalizeCep(cep);
+  if (digits.length !== 8) return null;
+
+  const prefix = Number(digits.slice(0, 5));
+  const region = CEP_REGIONS.find(item => isInRanges(prefix, item.ranges));
+  if (!region) return null;
+
+  return {
+    state: region.state,
+    city: isInRanges(prefix, region.capitalRanges) ? region.capital : undefined,
+  };
+}
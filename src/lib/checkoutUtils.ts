@@ -0,0 +1,241 @@
+import { supabase } from './supabase';
+import { formatCep, isValidCep, normalizeCep } from './shippingUtils';
+import type { CheckoutCustomer, CheckoutSettings, CustomerAddress, PaymentMethod } from '@/types';
+
+export type CheckoutSettingsInput = Omit<CheckoutSettings, 'user_id' | 'created_at' | 'updated_at'>;
+
+export type CheckoutField =
+  | 'name'
+  | 'phone'
+  | 'cpf'
+  | 'cep'
+  | 'street'
+  | 'number'
+  | 'city'
+  | 'state'
+  | 'payment_method';
+
+export type CheckoutFieldErrors = Partial<Record<CheckoutField, string>>;
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: 'PIX',
+  cartao_credito: 'Cartão de crédito',
+  cartao_debito: 'Cartão de débito',
+  dinheiro: 'Dinheiro',
+  boleto: 'Boleto',
+  transferencia: 'Transferência bancária',
+};
+
+export const PAYMENT_METHODS = Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[];
+
+export const DEFAULT_CHECKOUT_SETTINGS: CheckoutSettingsInput = {
+  is_enabled: false,
+  collect_name: true,
+  collect_phone: true,
+  collect_cpf: false,
+  collect_address: false,
+  collect_payment_method: false,
+  collect_delivery_notes: false,
+  payment_methods: ['pix', 'cartao_credito', 'dinheiro'],
+};
+
+/**
+ * Check whether the checkout form has any field to show
+ */
+export function isCheckoutFormEnabled(settings: CheckoutSettingsInput | null): settings is CheckoutSettingsInput {
+  return !!settings && settings.is_enabled && (
+    settings.collect_name ||
+    settings.collect_phone ||
+    settings.collect_cpf ||
+    settings.collect_address ||
+    (settings.collect_payment_method && settings.payment_methods.length > 0) ||
+    settings.collect_delivery_notes
+  );
+}
+
+/**
+ * Keep only the digits of a CPF
+ */
+export function normalizeCpf(cpf: string): string {
+  return (cpf || '').replace(/\D/g, '').slice(0, 11);
+}
+
+/**
+ * Format a CPF as 000.000.000-00
+ */
+export function formatCpf(cpf: string): string {
+  const digits = normalizeCpf(cpf);
+  return digits
+    .replace(/^(\d{3})(\d)/, '$1.$2')
+    .replace(/^(\d{3})\.(\d{3})(\d)/, '$1.$2.$3')
+    .replace(/\.(\d{3})(\d{1,2})$/, '.$1-$2');
+}
+
+/**
+ * Check the CPF check digits
+ */
+export function isValidCpf(cpf: string): boolean {
+  const digits = normalizeCpf(cpf);
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+  const getCheckDigit = (length: number) => {
+    const sum = digits
+      .slice(0, length)
+      .split('')
+      .reduce((total, digit, index) => total + Number(digit) * (length + 1 - index), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return getCheckDigit(9) === Number(digits[9]) && getCheckDigit(10) === Number(digits[10]);
+}
+
+/**
+ * Single-line address, as shown in messages and order details
+ */
+export function formatCustomerAddress(address: CustomerAddress): string {
+  const street = [address.street, address.number].filter(Boolean).join(', ');
+  const cityState = [address.city, address.state].filter(Boolean).join('/');
+
+  return [
+    street,
+    address.complement,
+    address.neighborhood,
+    cityState,
+    address.cep ? `CEP ${formatCep(address.cep)}` : '',
+  ].filter(Boolean).join(' - ');
+}
+
+/**
+ * Check whether any customer data was collected
+ */
+export function hasCustomerData(customer?: CheckoutCustomer | null): customer is CheckoutCustomer {
+  return !!customer && Object.values(customer).some(Boolean);
+}
+
+/**
+ * Validate the checkout form; every collected field is required except the
+ * address complement, neighborhood and delivery notes
+ */
+export function validateCheckoutCustomer(
+  customer: CheckoutCustomer,
+  settings: CheckoutSettingsInput
+): CheckoutFieldErrors {
+  const errors: CheckoutFieldErrors = {};
+
+  if (settings.collect_name && (customer.name || '').trim().length < 2) {
+    errors.name = 'Informe seu nome';
+  }
+
+  if (settings.collect_phone) {
+    const phone = (customer.phone || '').replace(/\D/g, '');
+    if (phone.length < 10) errors.phone = 'Informe um telefone com DDD';
+  }
+
+  if (settings.collect_cpf && !isValidCpf(customer.cpf || '')) {
+    errors.cpf = 'CPF inválido';
+  }
+
+  if (settings.collect_address) {
+    const address = customer.address;
+    if (!isValidCep(address?.cep || '')) errors.cep = 'CEP inválido';
+    if (!address?.street?.trim()) errors.street = 'Informe a rua';
+    if (!address?.number?.trim()) errors.number = 'Informe o número';
+    if (!address?.city?.trim()) errors.city = 'Informe a cidade';
+    if (!address?.state?.trim()) errors.state = 'Informe o estado';
+  }
+
+  if (settings.collect_payment_method && settings.payment_methods.length > 0 && !customer.payment_method) {
+    errors.payment_method = 'Escolha a forma de pagamento';
+  }
+
+  return errors;
+}
+
+/**
+ * Keep only the fields the seller collects, trimmed and with digits-only documents
+ */
+export function buildCheckoutCustomer(
+  customer: CheckoutCustomer,
+  settings: CheckoutSettingsInput
+): CheckoutCustomer {
+  const address = customer.address;
+
+  return {
+    name: settings.collect_name ? customer.name?.trim() || undefined : undefined,
+    phone: settings.collect_phone ? (customer.phone || '').replace(/\D/g, '') || undefined : undefined,
+    cpf: settings.collect_cpf ? normalizeCpf(customer.cpf || '') || undefined : undefined,
+    address: settings.collect_address && address
+      ? {
+          cep: normalizeCep(address.cep),
+          street: address.street.trim(),
+          number: address.number.trim(),
+          complement: address.complement?.trim() || undefined,
+          neighborhood: address.neighborhood?.trim() || undefined,
+          city: address.city.trim(),
+          state: address.state.trim().toUpperCase(),
+        }
+      : undefined,
+    payment_method: settings.collect_payment_method ? customer.payment_method : undefined,
+    delivery_notes: settings.collect_delivery_notes ? customer.delivery_notes?.trim() || undefined : undefined,
+  };
+}
+
+/**
+ * Fetch the checkout form settings of a seller
+ */
+export async function fetchCheckoutSettings(userId: string): Promise<CheckoutSettings | null> {
+  try {
+    const { data, error } = await supabase
+      .from('checkout_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Checkout settings table not found. Please apply database migrations.');
+        return null;
+      }
+      throw error;
+    }
+
+    return data ? normalizeCheckoutSettings(data) : null;
+  } catch (error) {
+    console.error('Error fetching checkout settings:', error);
+    return null;
+  }
+}
+
+/**
+ * Create or update the checkout form settings of a seller
+ */
+export async function saveCheckoutSettings(
+  userId: string,
+  settings: CheckoutSettingsInput
+): Promise<CheckoutSettings> {
+  const { data, error } = await supabase
+    .from('checkout_settings')
+    .upsert({
+      ...settings,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving checkout settings:', error);
+    throw new Error('Failed to save checkout settings');
+  }
+
+  return normalizeCheckoutSettings(data);
+}
+
+// Drop payment methods that are no longer offered
+function normalizeCheckoutSettings(settings: CheckoutSettings): CheckoutSettings {
+  return {
+    ...settings,
+    payment_methods: (settings.payment_methods || []).filter(method => method in PAYMENT_METHOD_LABELS),
+  };
+}
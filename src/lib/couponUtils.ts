@@ -0,0 +1,252 @@
+import { supabase } from './supabase';
+import { formatCurrency } from './utils';
+import type { CartItem, CartDistribution, Coupon, CouponDiscountType } from '@/types';
+
+export const COUPON_DISCOUNT_TYPE_LABELS: Record<CouponDiscountType, string> = {
+  percentage: 'Porcentagem',
+  fixed: 'Valor fixo',
+};
+
+/**
+ * A cart line as seen by the coupon engine
+ */
+export interface CouponLine {
+  productId: string;
+  categories: string[];
+  subtotal: number;
+}
+
+export interface CouponValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+export type CouponInput = Omit<Coupon, 'id' | 'user_id' | 'usage_count' | 'created_at' | 'updated_at'>;
+
+/**
+ * Codes are matched case insensitively and without surrounding spaces
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Build coupon lines from the cart, using tiered prices when applied
+ */
+export function buildCouponLines(items: CartItem[], distributions: CartDistribution[]): CouponLine[] {
+  const distributionLines = distributions.map(dist => ({
+    productId: dist.product.id,
+    categories: dist.product.category || [],
+    subtotal: dist.distribution.applied_tier_price * dist.distribution.total_quantity,
+  }));
+
+  const itemLines = items.map(item => ({
+    productId: item.id,
+    categories: item.category || [],
+    subtotal: (item.applied_tier_price || item.discounted_price || item.price) * item.quantity,
+  }));
+
+  return [...distributionLines, ...itemLines];
+}
+
+/**
+ * Check whether a cart line is covered by the coupon restrictions
+ */
+export function isLineEligibleForCoupon(coupon: Coupon, line: CouponLine): boolean {
+  const productRestrictions = coupon.product_restrictions || [];
+  const categoryRestrictions = coupon.category_restrictions || [];
+
+  if (productRestrictions.length === 0 && categoryRestrictions.length === 0) return true;
+
+  return productRestrictions.includes(line.productId) ||
+    line.categories.some(category => categoryRestrictions.includes(category));
+}
+
+/**
+ * Validate a coupon against the cart, returning the reason when it cannot be used
+ */
+export function validateCoupon(
+  coupon: Coupon,
+  lines: CouponLine[],
+  now: Date = new Date()
+): CouponValidationResult {
+  if (!coupon.is_active) {
+    return { valid: false, error: 'Cupom inválido ou inativo' };
+  }
+
+  if (coupon.starts_at && new Date(coupon.starts_at) > now) {
+    return { valid: false, error: 'Este cupom ainda não está válido' };
+  }
+
+  if (coupon.expires_at && new Date(coupon.expires_at) < now) {
+    return { valid: false, error: 'Este cupom expirou' };
+  }
+
+  if (coupon.usage_limit && coupon.usage_count >= coupon.usage_limit) {
+    return { valid: false, error: 'Este cupom atingiu o limite de usos' };
+  }
+
+  const eligibleLines = lines.filter(line => isLineEligibleForCoupon(coupon, line));
+  if (eligibleLines.length === 0) {
+    return { valid: false, error: 'Nenhum produto do carrinho é elegível para este cupom' };
+  }
+
+  // The minimum only counts the products covered by the coupon
+  const eligibleSubtotal = eligibleLines.reduce((sum, line) => sum + line.subtotal, 0);
+  if (coupon.min_order_value && eligibleSubtotal < coupon.min_order_value) {
+    const scope = eligibleLines.length < lines.length ? ' em produtos elegíveis' : '';
+    return { valid: false, error: `Pedido mínimo de ${formatCurrency(coupon.min_order_value)}${scope} para este cupom` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Discount granted by a coupon, limited to the eligible lines. Returns 0 when
+ * the coupon cannot be used with the current cart.
+ */
+export function calculateCouponDiscount(coupon: Coupon, lines: CouponLine[]): number {
+  if (!validateCoupon(coupon, lines).valid) return 0;
+
+  const eligibleSubtotal = lines
+    .filter(line => isLineEligibleForCoupon(coupon, line))
+    .reduce((sum, line) => sum + line.subtotal, 0);
+
+  const discount = coupon.discount_type === 'percentage'
+    ? eligibleSubtotal * (coupon.discount_value / 100)
+    : coupon.discount_value;
+
+  return Math.round(Math.min(discount, eligibleSubtotal) * 100) / 100;
+}
+
+/**
+ * Human readable discount (e.g. "10%" or "R$ 15,00")
+ */
+export function formatCouponDiscount(coupon: Pick<Coupon, 'discount_type' | 'discount_value'>): string {
+  return coupon.discount_type === 'percentage'
+    ? `${coupon.discount_value}%`
+    : formatCurrency(coupon.discount_value);
+}
+
+/**
+ * Look up an active coupon of a seller by code (storefront)
+ */
+export async function fetchStorefrontCoupon(sellerId: string, code: string): Promise<Coupon | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_storefront_coupon', {
+      p_user_id: sellerId,
+      p_code: normalizeCouponCode(code),
+    });
+
+    if (error) throw error;
+
+    return data ? normalizeCoupon(data) : null;
+  } catch (error) {
+    console.error('Error fetching storefront coupon:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch all coupons of a seller, newest first
+ */
+export async function fetchUserCoupons(userId: string): Promise<Coupon[]> {
+  try {
+    const { data, error } = await supabase
+      .from('coupons')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Coupons table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizeCoupon);
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    return [];
+  }
+}
+
+/**
+ * Create or update a coupon
+ */
+export async function saveCoupon(userId: string, coupon: CouponInput, couponId?: string): Promise<Coupon> {
+  const payload = {
+    ...coupon,
+    code: normalizeCouponCode(coupon.code),
+    user_id: userId,
+    updated_at: new Date().toISOString(),
+  };
+
+  const query = couponId
+    ? supabase.from('coupons').update(payload).eq('id', couponId).eq('user_id', userId)
+    : supabase.from('coupons').insert(payload);
+
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    console.error('Error saving coupon:', error);
+    if (error.code === '23505') {
+      throw new Error('Já existe um cupom com este código');
+    }
+    throw new Error('Erro ao salvar cupom');
+  }
+
+  return normalizeCoupon(data);
+}
+
+/**
+ * Enable or disable a coupon
+ */
+export async function setCouponActive(couponId: string, isActive: boolean): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('coupons')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', couponId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error updating coupon:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a coupon
+ */
+export async function deleteCoupon(couponId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('coupons')
+      .delete()
+      .eq('id', couponId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting coupon:', error);
+    return false;
+  }
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizeCoupon(coupon: Coupon): Coupon {
+  return {
+    ...coupon,
+    discount_value: Number(coupon.discount_value) || 0,
+    min_order_value: coupon.min_order_value != null ? Number(coupon.min_order_value) : null,
+    category_restrictions: coupon.category_restrictions || [],
+    product_restrictions: coupon.product_restrictions || [],
+    usage_count: Number(coupon.usage_count) || 0,
+  };
+}
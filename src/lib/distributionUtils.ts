@@ -1,6 +1,8 @@
 import { supabase } from './supabase';
 import type { VariantDistribution, DistributionItem, Product, PriceTier } from '@/types';
 import { calculateApplicablePrice } from './tieredPricingUtils';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from './i18n';
+import { renderMessageTemplate } from './messageTemplateUtils';
 
 export interface CreateDistributionParams {
   product_id: string;
@@ -294,24 +296,59 @@ export function calculateDistributionTotal(
   return distribution.applied_tier_price * distribution.total_quantity;
 }
 
+export function formatVariantLabel(
+  variant: { color?: string; size?: string },
+  separator: string = ', '
+): string {
+  return [variant.color, variant.size].filter(Boolean).join(separator);
+}
+
+export interface DistributionMessageOptions {
+  /** Custom template of the store, see MESSAGE_TEMPLATE_PLACEHOLDERS.distribution */
+  template?: string;
+  currency?: SupportedCurrency;
+  language?: SupportedLanguage;
+  productUrl?: string;
+  /** Position of the distribution in the order */
+  number?: number;
+}
+
 export function formatDistributionForWhatsApp(
   product: Product,
   distribution: VariantDistribution,
-  items: DistributionItem[]
+  items: DistributionItem[],
+  options: DistributionMessageOptions = {}
 ): string {
+  const { template, currency = 'BRL', language = 'pt-BR', productUrl, number = 1 } = options;
+  const formatPrice = (value: number) => formatCurrencyI18n(value, currency, language);
+  const subtotal = distribution.applied_tier_price * distribution.total_quantity;
+
+  if (template) {
+    return renderMessageTemplate(template, {
+      numero: number,
+      produto: product.title.trim(),
+      link_produto: productUrl,
+      quantidade: distribution.total_quantity,
+      preco_unitario: formatPrice(distribution.applied_tier_price),
+      subtotal: formatPrice(subtotal),
+      variacoes: items
+        .map(item => `• ${item.quantity}x ${formatVariantLabel(item, ' • ') || 'Padrão'}`)
+        .join('\n'),
+    });
+  }
+
   const lines: string[] = [];
 
   lines.push(`*${product.title}*`);
   lines.push(`Quantidade Total: ${distribution.total_quantity} unidades`);
-  lines.push(`Preço Unitário: R$ ${distribution.applied_tier_price.toFixed(2)}`);
-  lines.push(`Subtotal: R$ ${(distribution.applied_tier_price * distribution.total_quantity).toFixed(2)}`);
+  lines.push(`Preço Unitário: ${formatPrice(distribution.applied_tier_price)}`);
+  lines.push(`Subtotal: ${formatPrice(subtotal)}`);
 
   if (items.length > 0) {
     lines.push('');
     lines.push('Distribuição:');
     items.forEach(item => {
-      const variant = [item.color, item.size].filter(Boolean).join(', ');
-      lines.push(`  • ${item.quantity}x ${variant || 'Sem variação'}`);
+      lines.push(`  • ${item.quantity}x ${formatVariantLabel(item) || 'Sem variação'}`);
     });
   }
 
@@ -51,6 +51,7 @@ export const translations = {
     'product.starting_from': 'A partir de',
     'product.discount_off': 'OFF',
     'product.special_offer': 'Oferta Especial',
+    'product.promotion_ends_in': 'Termina em',
     'product.down_payment': 'Entrada de',
     'product.installments': 'Parcelas de',
     'product.description': 'Descrição',
@@ -150,6 +151,7 @@ export const translations = {
     'product.starting_from': 'Starting from',
     'product.discount_off': 'OFF',
     'product.special_offer': 'Special Offer',
+    'product.promotion_ends_in': 'Ends in',
     'product.down_payment': 'Down payment of',
     'product.installments': 'Installments of',
     'product.description': 'Description',
@@ -249,6 +251,7 @@ export const translations = {
     'product.starting_from': 'Desde',
     'product.discount_off': 'DESC',
     'product.special_offer': 'Oferta Especial',
+    'product.promotion_ends_in': 'Termina en',
     'product.down_payment': 'Entrada de',
     'product.installments': 'Cuotas de',
     'product.description': 'Descripción',
@@ -0,0 +1,181 @@
+import { supabase } from './supabase';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from './i18n';
+import type { InstallmentSettings } from '@/types';
+
+export type InstallmentSettingsInput = Omit<InstallmentSettings, 'user_id' | 'created_at' | 'updated_at'>;
+
+export const MAX_INSTALLMENTS_LIMIT = 24;
+
+export const DEFAULT_INSTALLMENT_SETTINGS: InstallmentSettingsInput = {
+  is_enabled: false,
+  max_installments: 12,
+  interest_free_installments: 1,
+  min_installment_value: 0,
+  interest_rates: {},
+};
+
+export interface InstallmentPlan {
+  installments: number;
+  installmentValue: number;
+  total: number;
+  /** Monthly interest rate in percent, 0 for interest-free plans */
+  monthlyRate: number;
+  interestFree: boolean;
+}
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Whether the store shows installment plans on the storefront
+ */
+export function isInstallmentsEnabled(settings: InstallmentSettings | null | undefined): settings is InstallmentSettings {
+  return !!settings && settings.is_enabled && settings.max_installments > 1;
+}
+
+/**
+ * Monthly interest rate (%) charged for a number of installments
+ */
+export function getInstallmentRate(
+  settings: Pick<InstallmentSettings, 'interest_free_installments' | 'interest_rates'>,
+  installments: number
+): number {
+  if (installments <= settings.interest_free_installments) return 0;
+  return Math.max(0, Number(settings.interest_rates[String(installments)]) || 0);
+}
+
+/**
+ * Value of each installment, using the Price table when there is interest
+ */
+export function calculateInstallmentValue(amount: number, installments: number, monthlyRate: number): number {
+  if (installments <= 1) return roundPrice(amount);
+  if (monthlyRate <= 0) return roundPrice(amount / installments);
+
+  const rate = monthlyRate / 100;
+  return roundPrice((amount * rate) / (1 - Math.pow(1 + rate, -installments)));
+}
+
+/**
+ * Every plan available for an amount, from 1x up to the largest number of
+ * installments that respects the minimum installment value
+ */
+export function calculateInstallmentPlans(
+  amount: number,
+  settings: InstallmentSettings | null | undefined
+): InstallmentPlan[] {
+  if (!isInstallmentsEnabled(settings) || amount <= 0) return [];
+
+  const plans: InstallmentPlan[] = [];
+
+  for (let installments = 1; installments <= settings.max_installments; installments++) {
+    const monthlyRate = getInstallmentRate(settings, installments);
+    const installmentValue = calculateInstallmentValue(amount, installments, monthlyRate);
+
+    // Installments only get smaller from here on
+    if (installments > 1 && installmentValue < settings.min_installment_value) break;
+
+    plans.push({
+      installments,
+      installmentValue,
+      total: roundPrice(installmentValue * installments),
+      monthlyRate,
+      interestFree: monthlyRate === 0,
+    });
+  }
+
+  return plans;
+}
+
+/**
+ * Plan highlighted next to the price: the largest interest-free plan, or the
+ * largest plan when every option above 1x has interest
+ */
+export function getFeaturedInstallmentPlan(
+  amount: number,
+  settings: InstallmentSettings | null | undefined
+): InstallmentPlan | null {
+  const plans = calculateInstallmentPlans(amount, settings).filter(plan => plan.installments > 1);
+  if (plans.length === 0) return null;
+
+  const interestFree = plans.filter(plan => plan.interestFree);
+  return interestFree.length > 0 ? interestFree[interestFree.length - 1] : plans[plans.length - 1];
+}
+
+/**
+ * Format a plan as "10x de R$ 39,90 sem juros"
+ */
+export function formatInstallmentPlan(
+  plan: InstallmentPlan,
+  currency: SupportedCurrency = 'BRL',
+  language: SupportedLanguage = 'pt-BR'
+): string {
+  const labels = {
+    'pt-BR': { of: 'de', free: 'sem juros', interest: 'com juros' },
+    'en-US': { of: 'of', free: 'interest-free', interest: 'with interest' },
+    'es-ES': { of: 'de', free: 'sin interés', interest: 'con interés' },
+  }[language] || { of: 'de', free: 'sem juros', interest: 'com juros' };
+
+  const value = formatCurrencyI18n(plan.installmentValue, currency, language);
+  return `${plan.installments}x ${labels.of} ${value} ${plan.interestFree ? labels.free : labels.interest}`;
+}
+
+/**
+ * Fetch the installment settings of a store
+ */
+export async function fetchInstallmentSettings(userId: string): Promise<InstallmentSettings | null> {
+  try {
+    const { data, error } = await supabase
+      .from('installment_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Installment settings table not found. Please apply database migrations.');
+        return null;
+      }
+      throw error;
+    }
+
+    return data ? normalizeInstallmentSettings(data) : null;
+  } catch (error) {
+    console.error('Error fetching installment settings:', error);
+    return null;
+  }
+}
+
+/**
+ * Create or update the installment settings of a store
+ */
+export async function saveInstallmentSettings(
+  userId: string,
+  settings: InstallmentSettingsInput
+): Promise<InstallmentSettings> {
+  const { data, error } = await supabase
+    .from('installment_settings')
+    .upsert({
+      ...settings,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving installment settings:', error);
+    throw new Error('Failed to save installment settings');
+  }
+
+  return normalizeInstallmentSettings(data);
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizeInstallmentSettings(settings: InstallmentSettings): InstallmentSettings {
+  return {
+    ...settings,
+    min_installment_value: Number(settings.min_installment_value) || 0,
+    interest_rates: Object.fromEntries(
+      Object.entries(settings.interest_rates || {}).map(([installments, rate]) => [installments, Number(rate) || 0])
+    ),
+  };
+}
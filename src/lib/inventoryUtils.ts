@@ -0,0 +1,186 @@
+import { supabase } from './supabase';
+import type { ProductVariantStock } from '@/types';
+
+/**
+ * Stock per color×size combination, keyed by getVariantStockKey
+ */
+export type VariantStockMap = Map<string, number>;
+
+export interface ProductInventory {
+  trackInventory: boolean;
+  stock: ProductVariantStock[];
+}
+
+/**
+ * Key used for a color×size combination. Products without colors or sizes
+ * store an empty string for the missing option.
+ */
+export function getVariantStockKey(color?: string, size?: string): string {
+  return `${color || ''}::${size || ''}`;
+}
+
+/**
+ * Build a lookup map from stock rows
+ */
+export function buildVariantStockMap(stock: ProductVariantStock[]): VariantStockMap {
+  const map: VariantStockMap = new Map();
+  stock.forEach(entry => {
+    map.set(getVariantStockKey(entry.color, entry.size), entry.quantity);
+  });
+  return map;
+}
+
+/**
+ * Units available for a combination (combinations without a row have no stock)
+ */
+export function getAvailableStock(map: VariantStockMap, color?: string, size?: string): number {
+  return map.get(getVariantStockKey(color, size)) || 0;
+}
+
+/**
+ * Check whether any size of a color still has stock
+ */
+export function isColorInStock(map: VariantStockMap, color: string, size?: string): boolean {
+  if (size) return getAvailableStock(map, color, size) > 0;
+
+  for (const [key, quantity] of map) {
+    if (key.startsWith(`${color}::`) && quantity > 0) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether a size still has stock, optionally for a given color
+ */
+export function isSizeInStock(map: VariantStockMap, size: string, color?: string): boolean {
+  if (color) return getAvailableStock(map, color, size) > 0;
+
+  for (const [key, quantity] of map) {
+    if (key.endsWith(`::${size}`) && quantity > 0) return true;
+  }
+  return false;
+}
+
+/**
+ * Total units in stock across all combinations
+ */
+export function getTotalStock(stock: ProductVariantStock[]): number {
+  return stock.reduce((sum, entry) => sum + entry.quantity, 0);
+}
+
+/**
+ * Build the full color×size matrix for the product form, keeping existing quantities
+ */
+export function buildVariantStockMatrix(
+  colors: string[] = [],
+  sizes: string[] = [],
+  existing: ProductVariantStock[] = []
+): ProductVariantStock[] {
+  const existingMap = buildVariantStockMap(existing);
+  const colorOptions = colors.length > 0 ? colors : [''];
+  const sizeOptions = sizes.length > 0 ? sizes : [''];
+
+  return colorOptions.flatMap(color =>
+    sizeOptions.map(size => ({
+      color,
+      size,
+      quantity: existingMap.get(getVariantStockKey(color, size)) || 0,
+    }))
+  );
+}
+
+/**
+ * Fetch the inventory settings and stock of a product
+ */
+export async function fetchProductInventory(productId: string): Promise<ProductInventory> {
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select('track_inventory, variant_stock:product_variant_stock(color, size, quantity)')
+      .eq('id', productId)
+      .maybeSingle();
+
+    if (error) {
+      // Column or table missing before migrations - behave as untracked
+      if (error.code === '42P01' || error.code === '42703' || error.code === 'PGRST200') {
+        return { trackInventory: false, stock: [] };
+      }
+      throw error;
+    }
+
+    return {
+      trackInventory: Boolean(data?.track_inventory),
+      stock: data?.variant_stock || [],
+    };
+  } catch (error) {
+    console.error('Error fetching product inventory:', error);
+    return { trackInventory: false, stock: [] };
+  }
+}
+
+/**
+ * Fetch inventory for several products at once
+ */
+export async function fetchInventoryForProducts(productIds: string[]): Promise<Map<string, ProductInventory>> {
+  const inventory = new Map<string, ProductInventory>();
+  if (productIds.length === 0) return inventory;
+
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, track_inventory, variant_stock:product_variant_stock(color, size, quantity)')
+      .in('id', productIds);
+
+    if (error) {
+      if (error.code === '42P01' || error.code === '42703' || error.code === 'PGRST200') {
+        return inventory;
+      }
+      throw error;
+    }
+
+    (data || []).forEach(product => {
+      inventory.set(product.id, {
+        trackInventory: Boolean(product.track_inventory),
+        stock: product.variant_stock || [],
+      });
+    });
+  } catch (error) {
+    console.error('Error fetching inventory for products:', error);
+  }
+
+  return inventory;
+}
+
+/**
+ * Replace the stock rows of a product
+ */
+export async function saveProductVariantStock(
+  productId: string,
+  stock: ProductVariantStock[]
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('product_variant_stock')
+    .delete()
+    .eq('product_id', productId);
+
+  if (deleteError) {
+    console.error('Error deleting variant stock:', deleteError);
+    throw new Error('Failed to delete variant stock');
+  }
+
+  if (stock.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from('product_variant_stock')
+    .insert(stock.map(entry => ({
+      product_id: productId,
+      color: entry.color || '',
+      size: entry.size || '',
+      quantity: Math.max(0, Math.floor(entry.quantity || 0)),
+    })));
+
+  if (insertError) {
+    console.error('Error saving variant stock:', insertError);
+    throw new Error('Failed to save variant stock');
+  }
+}
@@ -0,0 +1,250 @@
+import { supabase } from './supabase';
+import { formatVariantLabel } from './distributionUtils';
+import type { KitComponent, Product, ProductKitItem } from '@/types';
+
+export interface KitVariantSelection {
+  color?: string;
+  size?: string;
+}
+
+/**
+ * One choice the customer makes on a kit. Items the customer picks the
+ * variant of are split into one slot per unit, so "kit 3 cuecas" can have
+ * three different colors.
+ */
+export interface KitSelectionSlot {
+  key: string;
+  item: ProductKitItem;
+  quantity: number;
+  // Position of the unit (1-based) when the item is split, null otherwise
+  unit: number | null;
+  colors: string[];
+  sizes: string[];
+}
+
+const KIT_COMPONENT_FIELDS = `
+  id,
+  title,
+  price,
+  discounted_price,
+  featured_image_url,
+  colors,
+  sizes,
+  status,
+  has_tiered_pricing,
+  track_inventory,
+  variant_stock:product_variant_stock(color, size, quantity)
+`;
+
+/**
+ * Fetch the items of a kit with the products they refer to
+ */
+export async function fetchKitItems(kitId: string): Promise<ProductKitItem[]> {
+  try {
+    const { data, error } = await supabase
+      .from('product_kit_items')
+      .select(`
+        id,
+        kit_id,
+        component_id,
+        quantity,
+        color,
+        size,
+        display_order,
+        component:products!product_kit_items_component_id_fkey(${KIT_COMPONENT_FIELDS})
+      `)
+      .eq('kit_id', kitId)
+      .order('display_order', { ascending: true });
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Product kit items table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(item => normalizeKitItem(item as unknown as ProductKitItem));
+  } catch (error) {
+    console.error('Error fetching kit items:', error);
+    return [];
+  }
+}
+
+/**
+ * Products of a seller that can go inside a kit (kits cannot contain kits)
+ */
+export async function fetchKitComponentCandidates(userId: string, kitId?: string): Promise<Product[]> {
+  try {
+    let query = supabase
+      .from('products')
+      .select(KIT_COMPONENT_FIELDS)
+      .eq('user_id', userId)
+      .neq('product_type', 'kit')
+      .order('title', { ascending: true });
+
+    if (kitId) {
+      query = query.neq('id', kitId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []) as unknown as Product[];
+  } catch (error) {
+    console.error('Error fetching kit component candidates:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace the items of a kit. The database refreshes the kit price when it
+ * uses a discount over the items.
+ */
+export async function saveKitItems(kitId: string, items: ProductKitItem[]): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('product_kit_items')
+    .delete()
+    .eq('kit_id', kitId);
+
+  if (deleteError) {
+    console.error('Error clearing kit items:', deleteError);
+    throw new Error('Failed to save kit items');
+  }
+
+  if (items.length === 0) return;
+
+  const { error } = await supabase
+    .from('product_kit_items')
+    .insert(items.map((item, index) => ({
+      kit_id: kitId,
+      component_id: item.component_id,
+      quantity: item.quantity,
+      color: item.color || null,
+      size: item.size || null,
+      display_order: index,
+    })));
+
+  if (error) {
+    console.error('Error saving kit items:', error);
+    throw new Error('Failed to save kit items');
+  }
+}
+
+/**
+ * Unit price of a kit item, its promotional price when it has one
+ */
+export function getKitItemUnitPrice(product?: Pick<Product, 'price' | 'discounted_price'>): number {
+  return product?.discounted_price || product?.price || 0;
+}
+
+/**
+ * Price of a kit priced with a discount over the sum of its items
+ */
+export function calculateKitPrice(
+  items: ProductKitItem[],
+  discountPercent: number
+): { price: number; discounted_price: number | null } {
+  const total = items.reduce((sum, item) => sum + getKitItemUnitPrice(item.component) * item.quantity, 0);
+  const price = Math.round(total * 100) / 100;
+
+  return {
+    price,
+    discounted_price: discountPercent > 0 ? Math.round(total * (1 - discountPercent / 100) * 100) / 100 : null,
+  };
+}
+
+/**
+ * Choices the customer has to make before adding a kit to the cart
+ */
+export function buildKitSelectionSlots(items: ProductKitItem[]): KitSelectionSlot[] {
+  return items.flatMap((item, index): KitSelectionSlot[] => {
+    const colors = item.color ? [] : (item.component?.colors || []).filter(Boolean);
+    const sizes = item.size ? [] : (item.component?.sizes || []).filter(Boolean);
+    const itemKey = item.id || `${item.component_id}-${index}`;
+
+    if (colors.length === 0 && sizes.length === 0) {
+      return [{ key: itemKey, item, quantity: item.quantity, unit: null, colors, sizes }];
+    }
+
+    return Array.from({ length: item.quantity }, (_, unit) => ({
+      key: `${itemKey}:${unit}`,
+      item,
+      quantity: 1,
+      unit: unit + 1,
+      colors,
+      sizes,
+    }));
+  });
+}
+
+/**
+ * Check whether every slot has its color and size chosen
+ */
+export function isKitSelectionComplete(
+  slots: KitSelectionSlot[],
+  selections: Record<string, KitVariantSelection>
+): boolean {
+  return slots.every(slot =>
+    (slot.colors.length === 0 || !!selections[slot.key]?.color) &&
+    (slot.sizes.length === 0 || !!selections[slot.key]?.size)
+  );
+}
+
+/**
+ * Pieces of one kit from the customer choices, merging equal variants
+ */
+export function buildKitComponents(
+  slots: KitSelectionSlot[],
+  selections: Record<string, KitVariantSelection>
+): KitComponent[] {
+  const components: KitComponent[] = [];
+
+  slots.forEach(slot => {
+    const color = slot.item.color || selections[slot.key]?.color || undefined;
+    const size = slot.item.size || selections[slot.key]?.size || undefined;
+    const existing = components.find(component =>
+      component.product_id === slot.item.component_id &&
+      component.color === color &&
+      component.size === size
+    );
+
+    if (existing) {
+      existing.quantity += slot.quantity;
+    } else {
+      components.push({
+        product_id: slot.item.component_id,
+        title: slot.item.component?.title?.trim() || '',
+        quantity: slot.quantity,
+        color,
+        size,
+      });
+    }
+  });
+
+  return components;
+}
+
+/**
+ * Label of a kit piece, e.g. "2x Cueca boxer (Preto • M)"
+ */
+export function formatKitComponentLabel(component: KitComponent): string {
+  const variant = formatVariantLabel(component, ' • ');
+  return `${component.quantity}x ${component.title}${variant ? ` (${variant})` : ''}`;
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizeKitItem(item: ProductKitItem): ProductKitItem {
+  return {
+    ...item,
+    quantity: Number(item.quantity),
+    component: item.component
+      ? {
+          ...item.component,
+          price: item.component.price != null ? Number(item.component.price) : undefined,
+          discounted_price: item.component.discounted_price != null ? Number(item.component.discounted_price) : undefined,
+        }
+      : undefined,
+  };
+}
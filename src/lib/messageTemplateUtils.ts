@@ -0,0 +1,196 @@
+import { supabase } from './supabase';
+import type { WhatsAppMessageTemplates } from '@/types';
+
+export type WhatsAppMessageTemplatesInput = Omit<WhatsAppMessageTemplates, 'user_id' | 'created_at' | 'updated_at'>;
+
+export type MessageTemplateType = 'cart_order' | 'product_inquiry' | 'distribution';
+
+export type MessageTemplateValues = Record<string, string | number | null | undefined>;
+
+export interface MessageTemplatePlaceholder {
+  key: string;
+  description: string;
+}
+
+export const MESSAGE_TEMPLATE_MAX_LENGTH = 2000;
+
+export const MESSAGE_TEMPLATE_LABELS: Record<MessageTemplateType, string> = {
+  cart_order: 'Pedido do carrinho',
+  product_inquiry: 'Dúvida sobre produto',
+  distribution: 'Distribuição no pedido',
+};
+
+const MESSAGE_TEMPLATE_COLUMNS: Record<MessageTemplateType, keyof WhatsAppMessageTemplatesInput> = {
+  cart_order: 'cart_order_template',
+  product_inquiry: 'product_inquiry_template',
+  distribution: 'distribution_template',
+};
+
+export const MESSAGE_TEMPLATE_PLACEHOLDERS: Record<MessageTemplateType, MessageTemplatePlaceholder[]> = {
+  cart_order: [
+    { key: 'vendedor', description: 'Nome da loja' },
+    { key: 'cliente', description: 'Nome do cliente (checkout)' },
+    { key: 'codigo', description: 'Código do pedido' },
+    { key: 'link_pedido', description: 'Link de acompanhamento do pedido' },
+    { key: 'itens', description: 'Lista de produtos' },
+    { key: 'quantidade', description: 'Total de peças' },
+    { key: 'subtotal', description: 'Valor dos produtos' },
+    { key: 'cupom', description: 'Cupom e desconto aplicados' },
+    { key: 'frete', description: 'Forma de entrega e valor' },
+    { key: 'total', description: 'Total do pedido' },
+    { key: 'parcelamento', description: 'Parcelamento escolhido pelo cliente' },
+    { key: 'dados_cliente', description: 'Dados do formulário de checkout' },
+    { key: 'pix', description: 'Código PIX copia e cola' },
+  ],
+  product_inquiry: [
+    { key: 'vendedor', description: 'Nome da loja' },
+    { key: 'produto', description: 'Nome do produto' },
+    { key: 'referencia', description: 'Referência do produto' },
+    { key: 'link_produto', description: 'Link do produto' },
+    { key: 'imagem', description: 'Link da imagem do produto' },
+  ],
+  distribution: [
+    { key: 'numero', description: 'Posição no pedido' },
+    { key: 'produto', description: 'Nome do produto' },
+    { key: 'link_produto', description: 'Link do produto' },
+    { key: 'quantidade', description: 'Quantidade total' },
+    { key: 'preco_unitario', description: 'Preço unitário' },
+    { key: 'subtotal', description: 'Subtotal da distribuição' },
+    { key: 'variacoes', description: 'Quantidade por cor e tamanho' },
+  ],
+};
+
+/**
+ * Starting point of the editor, matching the default pt-BR messages
+ */
+export const DEFAULT_MESSAGE_TEMPLATES: Record<MessageTemplateType, string> = {
+  cart_order: [
+    'Olá {vendedor}, gostaria de realizar um pedido com os itens abaixo.',
+    '',
+    '*PEDIDO DE COMPRA*',
+    'Código do pedido: *{codigo}*',
+    'Acompanhe seu pedido: {link_pedido}',
+    '━━━━━━━━━━━━━━━━━━━━━━━━━━',
+    '',
+    '{itens}',
+    '',
+    '━━━━━━━━━━━━━━━━━━━━━━━━━━',
+    'Subtotal: {subtotal}',
+    'Cupom: {cupom}',
+    'Frete: {frete}',
+    '*TOTAL: {total}*',
+    'Parcelamento: {parcelamento}',
+    '',
+    '{dados_cliente}',
+    '',
+    '{pix}',
+    '',
+    'Aguardo retorno com informações sobre pagamento e entrega.',
+  ].join('\n'),
+  product_inquiry: [
+    'Olá {vendedor}, estou interessado no produto "{produto}" (Ref: {referencia}). Pode me enviar mais informações?',
+    '',
+    'Imagem do produto: {imagem}',
+  ].join('\n'),
+  distribution: [
+    '{numero}. *{produto}*',
+    '📦 Distribuição de Variações',
+    '{link_produto}',
+    'Quantidade Total: {quantidade}',
+    'Preço unitário: {preco_unitario}',
+    'Subtotal: {subtotal}',
+    '',
+    'Distribuição:',
+    '{variacoes}',
+  ].join('\n'),
+};
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Fill the placeholders of a template. Lines whose placeholders are all empty
+ * are dropped (e.g. "Cupom: {cupom}" without a coupon), and unknown
+ * placeholders are kept as typed so mistakes are visible in the preview
+ */
+export function renderMessageTemplate(template: string, values: MessageTemplateValues): string {
+  const lines = template.replace(/\r\n/g, '\n').split('\n').flatMap((line) => {
+    let hasPlaceholder = false;
+    let hasValue = false;
+
+    const rendered = line.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+      if (!(key in values)) return match;
+
+      hasPlaceholder = true;
+      const value = values[key];
+      if (value === null || value === undefined || value === '') return '';
+
+      hasValue = true;
+      return String(value);
+    });
+
+    return hasPlaceholder && !hasValue ? [] : [rendered];
+  });
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Custom template of a store, or undefined when the default message is used
+ */
+export function getCustomMessageTemplate(
+  templates: WhatsAppMessageTemplates | WhatsAppMessageTemplatesInput | null | undefined,
+  type: MessageTemplateType
+): string | undefined {
+  return templates?.[MESSAGE_TEMPLATE_COLUMNS[type]]?.trim() || undefined;
+}
+
+/**
+ * Fetch the WhatsApp message templates of a store
+ */
+export async function fetchWhatsAppMessageTemplates(userId: string): Promise<WhatsAppMessageTemplates | null> {
+  try {
+    const { data, error } = await supabase
+      .from('whatsapp_message_templates')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('WhatsApp message templates table not found. Please apply database migrations.');
+        return null;
+      }
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching WhatsApp message templates:', error);
+    return null;
+  }
+}
+
+/**
+ * Create or update the WhatsApp message templates of a store
+ */
+export async function saveWhatsAppMessageTemplates(
+  userId: string,
+  templates: WhatsAppMessageTemplatesInput
+): Promise<WhatsAppMessageTemplates> {
+  const { data, error } = await supabase
+    .from('whatsapp_message_templates')
+    .upsert({
+      ...templates,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving WhatsApp message templates:', error);
+    throw new Error('Failed to save WhatsApp message templates');
+  }
+
+  return data;
+}
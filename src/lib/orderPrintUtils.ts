@@ -0,0 +1,115 @@
+import { formatVariantLabel } from './distributionUtils';
+import type { OrderItem } from '@/types';
+
+export type OrderPrintLayout = 'customer' | 'picking';
+
+export const ORDER_PRINT_LAYOUT_LABELS: Record<OrderPrintLayout, string> = {
+  customer: 'Pedido do cliente',
+  picking: 'Romaneio de separação',
+};
+
+/**
+ * A color/size line of an order item, with distributions expanded
+ */
+export interface OrderVariantLine {
+  color?: string;
+  size?: string;
+  quantity: number;
+}
+
+/**
+ * A line of the picking list: one product variant with the quantities of
+ * every order item that asks for it
+ */
+export interface PickingListLine {
+  key: string;
+  title: string;
+  imageUrl?: string;
+  color?: string;
+  size?: string;
+  sku?: string;
+  quantity: number;
+  notes: string[];
+}
+
+/**
+ * Print page of an order in the dashboard
+ */
+export function getOrderPrintPath(orderId: string, layout: OrderPrintLayout = 'customer'): string {
+  return `/dashboard/orders/${orderId}/print?layout=${layout}`;
+}
+
+/**
+ * Read the print layout from a query string value
+ */
+export function parseOrderPrintLayout(value: string | null): OrderPrintLayout {
+  return value === 'picking' ? 'picking' : 'customer';
+}
+
+/**
+ * Color/size lines of an order item; distributions are expanded into their variants
+ */
+export function expandOrderItemVariants(item: OrderItem): OrderVariantLine[] {
+  if (item.item_type === 'distribution' && item.distribution_items && item.distribution_items.length > 0) {
+    return item.distribution_items;
+  }
+  return [{ color: item.color, size: item.size, quantity: item.quantity }];
+}
+
+/**
+ * Merge the order items into one line per product variant, sorted for picking
+ */
+export function buildPickingList(items: OrderItem[]): PickingListLine[] {
+  const lines = new Map<string, PickingListLine>();
+
+  const addLine = (
+    productKey: string,
+    title: string,
+    variant: OrderVariantLine,
+    imageUrl?: string,
+    note?: string,
+    sku?: string
+  ) => {
+    const key = `${productKey}-${variant.color || ''}-${variant.size || ''}`;
+    const line: PickingListLine = lines.get(key) || {
+      key,
+      title,
+      imageUrl,
+      color: variant.color,
+      size: variant.size,
+      quantity: 0,
+      notes: [],
+    };
+
+    line.quantity += variant.quantity;
+    line.sku = line.sku || sku;
+    if (note && !line.notes.includes(note)) {
+      line.notes.push(note);
+    }
+
+    lines.set(key, line);
+  };
+
+  items.forEach((item) => {
+    // Kits are picked piece by piece
+    if (item.kit_components && item.kit_components.length > 0) {
+      item.kit_components.forEach((component) => {
+        addLine(component.product_id, component.title, {
+          color: component.color,
+          size: component.size,
+          quantity: component.quantity * item.quantity,
+        }, undefined, `Kit ${item.title}`);
+      });
+      return;
+    }
+
+    expandOrderItemVariants(item).forEach((variant) => {
+      addLine(item.product_id || item.title, item.title, variant, item.featured_image_url, item.notes, item.sku || undefined);
+    });
+  });
+
+  return Array.from(lines.values()).sort((a, b) =>
+    a.title.localeCompare(b.title, 'pt-BR') ||
+    formatVariantLabel(a).localeCompare(formatVariantLabel(b), 'pt-BR')
+  );
+}
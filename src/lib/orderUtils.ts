@@ -0,0 +1,359 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from './supabase';
+import { getStorefrontBaseUrl } from './cartUtils';
+import { getViewerId } from './tracking';
+import type { CartItem, CartDistribution, CheckoutCustomer, Order, OrderItem, OrderStatus } from '@/types';
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes can be read over the phone
+const ORDER_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const ORDER_CODE_LENGTH = 6;
+
+// Statuses in the order a typical order moves through them
+export const ORDER_STATUS_FLOW: OrderStatus[] = [
+  'novo',
+  'confirmado',
+  'separando',
+  'enviado',
+  'entregue',
+  'cancelado',
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  novo: 'Novo',
+  confirmado: 'Confirmado',
+  separando: 'Separando',
+  enviado: 'Enviado',
+  entregue: 'Entregue',
+  cancelado: 'Cancelado',
+};
+
+export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
+  novo: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  confirmado: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
+  separando: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  enviado: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  entregue: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  cancelado: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+export interface CreateOrderParams {
+  orderId: string;
+  code: string;
+  sellerId: string;
+  items: CartItem[];
+  distributions: CartDistribution[];
+  total: number;
+  couponCode?: string;
+  discount?: number;
+  shippingMethod?: string;
+  shippingCost?: number;
+  shippingCep?: string;
+  customer?: CheckoutCustomer;
+  currency?: string;
+  language?: string;
+  message?: string;
+}
+
+export interface CreateOrderResult {
+  created: boolean;
+  // Why the database refused the coupon of the order, shown to the buyer
+  couponError?: string;
+}
+
+export interface OrderFilters {
+  search?: string;
+  status?: OrderStatus;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Generate a random code from unambiguous characters
+ */
+export function generateShortCode(length: number = ORDER_CODE_LENGTH): string {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += ORDER_CODE_ALPHABET[Math.floor(Math.random() * ORDER_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Generate a human readable order code (e.g. PED-7K2M9Q)
+ */
+export function generateOrderCode(): string {
+  return `PED-${generateShortCode()}`;
+}
+
+/**
+ * Generate the id and code for an order before it is persisted, so the
+ * WhatsApp message can reference the code
+ */
+export function createPendingOrderReference(): { orderId: string; code: string } {
+  return { orderId: uuidv4(), code: generateOrderCode() };
+}
+
+/**
+ * Public tracking page URL for an order
+ */
+export function generateOrderTrackingUrl(slug: string, code: string): string {
+  return `${getStorefrontBaseUrl()}/${slug}/pedido/${code}`;
+}
+
+/**
+ * Build the order item rows from the current cart state
+ */
+export function buildOrderItemsFromCart(
+  orderId: string,
+  items: CartItem[],
+  distributions: CartDistribution[]
+): Omit<OrderItem, 'id' | 'created_at'>[] {
+  const distributionRows = distributions.map((dist) => ({
+    order_id: orderId,
+    product_id: dist.product.id,
+    item_type: 'distribution' as const,
+    title: dist.product.title.trim(),
+    featured_image_url: dist.product.featured_image_url,
+    quantity: dist.distribution.total_quantity,
+    unit_price: dist.product.discounted_price || dist.product.price || dist.distribution.applied_tier_price,
+    applied_tier_price: dist.distribution.applied_tier_price,
+    subtotal: dist.distribution.applied_tier_price * dist.distribution.total_quantity,
+    distribution_items: dist.items.map((item) => ({
+      color: item.color,
+      size: item.size,
+      quantity: item.quantity,
+    })),
+  }));
+
+  const itemRows = items.map((item) => {
+    const price = item.applied_tier_price || item.discounted_price || item.price;
+    return {
+      order_id: orderId,
+      product_id: item.id,
+      item_type: 'item' as const,
+      title: item.title.trim(),
+      featured_image_url: item.featured_image_url,
+      color: item.selectedColor,
+      size: item.selectedSize,
+      notes: item.notes?.trim() || undefined,
+      quantity: item.quantity,
+      unit_price: item.discounted_price || item.price,
+      applied_tier_price: item.applied_tier_price ?? null,
+      subtotal: price * item.quantity,
+      distribution_items: [],
+      kit_components: item.kit_components || [],
+      sku: item.sku || null,
+    };
+  });
+
+  return [...distributionRows, ...itemRows];
+}
+
+/**
+ * Persist a storefront cart submission as an order. The order and its items
+ * are inserted by a single function so a failure never leaves a partial order;
+ * the function also validates the coupon and recalculates its discount.
+ */
+export async function createOrderFromCart(params: CreateOrderParams): Promise<CreateOrderResult> {
+  try {
+    const orderItems = buildOrderItemsFromCart(params.orderId, params.items, params.distributions);
+    const subtotal = orderItems.reduce((sum, item) => sum + item.subtotal, 0);
+    const itemCount = orderItems.reduce((sum, item) => sum + item.quantity, 0);
+
+    const { data, error } = await supabase.rpc('create_storefront_order', {
+      p_order: {
+        id: params.orderId,
+        user_id: params.sellerId,
+        code: params.code,
+        viewer_id: getViewerId(),
+        subtotal,
+        coupon_code: params.couponCode || null,
+        discount_amount: params.discount || 0,
+        shipping_method: params.shippingMethod || null,
+        shipping_cost: params.shippingCost || 0,
+        shipping_cep: params.shippingCep || null,
+        customer_name: params.customer?.name || null,
+        customer_phone: params.customer?.phone || null,
+        customer_cpf: params.customer?.cpf || null,
+        customer_address: params.customer?.address || null,
+        payment_method: params.customer?.payment_method || null,
+        delivery_notes: params.customer?.delivery_notes || null,
+        total: params.total,
+        item_count: itemCount,
+        currency: params.currency,
+        language: params.language,
+        message: params.message,
+      },
+      p_items: orderItems,
+    });
+
+    if (error) {
+      if (error.hint === 'coupon_rejected') {
+        return { created: false, couponError: error.message };
+      }
+      throw error;
+    }
+
+    return { created: data === true };
+  } catch (error) {
+    console.error('Error creating order:', error);
+    return { created: false };
+  }
+}
+
+/**
+ * Fetch the orders of a seller, newest first
+ */
+export async function fetchUserOrders(userId: string, filters: OrderFilters = {}): Promise<Order[]> {
+  try {
+    let query = supabase
+      .from('orders')
+      .select('*, items:order_items(*), status_history:order_status_history(*)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.search?.trim()) {
+      // Commas and parentheses would break the PostgREST or() filter
+      const search = filters.search.trim().replace(/[,()]/g, ' ');
+      query = query.or(`code.ilike.%${search}%,customer_name.ilike.%${search}%`);
+    }
+
+    if (filters.startDate) {
+      query = query.gte('created_at', filters.startDate);
+    }
+
+    if (filters.endDate) {
+      query = query.lte('created_at', filters.endDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Orders table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizeOrder);
+  } catch (error) {
+    console.error('Error fetching orders:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch a single order with its items
+ */
+export async function fetchOrderById(orderId: string): Promise<Order | null> {
+  try {
+    const { data, error } = await supabase
+      .from('orders')
+      .select('*, items:order_items(*), status_history:order_status_history(*)')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? normalizeOrder(data) : null;
+  } catch (error) {
+    console.error('Error fetching order:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch an order for the public tracking page, which does not include the order id
+ */
+export async function fetchPublicOrder(slug: string, code: string): Promise<Order | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_public_order', {
+      p_slug: slug,
+      p_code: code,
+    });
+
+    if (error) throw error;
+
+    return data ? normalizeOrder(data) : null;
+  } catch (error) {
+    console.error('Error fetching public order:', error);
+    return null;
+  }
+}
+
+/**
+ * Move an order to a new status and record the change in its history
+ */
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  note?: string
+): Promise<boolean> {
+  try {
+    const { error: orderError } = await supabase
+      .from('orders')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', orderId);
+
+    if (orderError) throw orderError;
+
+    const { error: historyError } = await supabase
+      .from('order_status_history')
+      .insert({
+        order_id: orderId,
+        status,
+        note: note?.trim() || null,
+      });
+
+    if (historyError) throw historyError;
+
+    return true;
+  } catch (error) {
+    console.error('Error updating order status:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete an order and its items
+ */
+export async function deleteOrder(orderId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('orders')
+      .delete()
+      .eq('id', orderId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting order:', error);
+    return false;
+  }
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizeOrder(order: Order): Order {
+  return {
+    ...order,
+    subtotal: Number(order.subtotal) || 0,
+    discount_amount: Number(order.discount_amount) || 0,
+    shipping_cost: Number(order.shipping_cost) || 0,
+    total: Number(order.total) || 0,
+    items: (order.items || []).map((item) => ({
+      ...item,
+      unit_price: Number(item.unit_price) || 0,
+      applied_tier_price: item.applied_tier_price != null ? Number(item.applied_tier_price) : null,
+      subtotal: Number(item.subtotal) || 0,
+    })),
+    status_history: [...(order.status_history || [])].sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    ),
+  };
+}
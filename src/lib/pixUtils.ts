@@ -0,0 +1,208 @@
+import { supabase } from './supabase';
+import { validatePixKey } from './referralUtils';
+import type { StorePixSettings, UserPixKey } from '@/types';
+
+export type StorePixSettingsInput = Omit<StorePixSettings, 'user_id' | 'created_at' | 'updated_at'>;
+export type PixKeyType = StorePixSettings['pix_key_type'];
+
+export const PIX_KEY_TYPE_LABELS: Record<PixKeyType, string> = {
+  cpf: 'CPF',
+  cnpj: 'CNPJ',
+  email: 'E-mail',
+  phone: 'Telefone',
+  random: 'Chave Aleatória',
+};
+
+// Limits of the BR Code fields, from the BCB PIX specification
+export const PIX_MERCHANT_NAME_MAX_LENGTH = 25;
+export const PIX_MERCHANT_CITY_MAX_LENGTH = 15;
+const PIX_TXID_MAX_LENGTH = 25;
+
+/**
+ * Parameters of a static PIX BR Code
+ */
+export interface PixPayloadParams {
+  key: string;
+  keyType: PixKeyType;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number;
+  /** Reference shown in the bank statement, letters and digits only */
+  txid?: string;
+}
+
+/**
+ * Check whether the store has a usable PIX key
+ */
+export function isStorePixEnabled(settings: StorePixSettingsInput | null): settings is StorePixSettingsInput {
+  return !!settings &&
+    settings.is_enabled &&
+    validatePixKey(settings.pix_key, settings.pix_key_type) &&
+    !!sanitizePixText(settings.merchant_name, PIX_MERCHANT_NAME_MAX_LENGTH) &&
+    !!sanitizePixText(settings.merchant_city, PIX_MERCHANT_CITY_MAX_LENGTH);
+}
+
+/**
+ * Write a PIX key the way the DICT registers it (+55 phones, digits-only documents)
+ */
+export function normalizePixKey(key: string, type: PixKeyType): string {
+  const digits = key.replace(/\D/g, '');
+
+  switch (type) {
+    case 'cpf':
+    case 'cnpj':
+      return digits;
+    case 'phone':
+      return digits.length > 11 ? `+${digits}` : `+55${digits}`;
+    case 'email':
+      return key.trim().toLowerCase();
+    default:
+      return key.trim();
+  }
+}
+
+/**
+ * Keep only the characters accepted in BR Code text fields
+ */
+export function sanitizePixText(text: string, maxLength: number): string {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 .-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength)
+    .trim();
+}
+
+/**
+ * CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF) used by the BR Code
+ */
+export function calculatePixCrc16(payload: string): string {
+  let crc = 0xffff;
+
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+const emvField = (id: string, value: string) => `${id}${String(value.length).padStart(2, '0')}${value}`;
+
+/**
+ * Build a static PIX "copia e cola" payload (EMV BR Code)
+ */
+export function generatePixPayload(params: PixPayloadParams): string {
+  const txid = (params.txid || '').replace(/[^A-Za-z0-9]/g, '').slice(0, PIX_TXID_MAX_LENGTH) || '***';
+
+  const merchantAccount = emvField('00', 'br.gov.bcb.pix') + emvField('01', normalizePixKey(params.key, params.keyType));
+
+  const payload = [
+    emvField('00', '01'),
+    emvField('26', merchantAccount),
+    emvField('52', '0000'),
+    emvField('53', '986'),
+    params.amount && params.amount > 0 ? emvField('54', params.amount.toFixed(2)) : '',
+    emvField('58', 'BR'),
+    emvField('59', sanitizePixText(params.merchantName, PIX_MERCHANT_NAME_MAX_LENGTH)),
+    emvField('60', sanitizePixText(params.merchantCity, PIX_MERCHANT_CITY_MAX_LENGTH)),
+    emvField('62', emvField('05', txid)),
+    '6304',
+  ].join('');
+
+  return `${payload}${calculatePixCrc16(payload)}`;
+}
+
+/**
+ * PIX payload for an order of the store
+ */
+export function generateOrderPixPayload(
+  settings: StorePixSettingsInput,
+  amount: number,
+  orderCode?: string
+): string {
+  return generatePixPayload({
+    key: settings.pix_key,
+    keyType: settings.pix_key_type,
+    merchantName: settings.merchant_name,
+    merchantCity: settings.merchant_city,
+    amount,
+    txid: orderCode,
+  });
+}
+
+/**
+ * Fetch the PIX settings of a store
+ */
+export async function fetchStorePixSettings(userId: string): Promise<StorePixSettings | null> {
+  try {
+    const { data, error } = await supabase
+      .from('store_pix_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Store PIX settings table not found. Please apply database migrations.');
+        return null;
+      }
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching store PIX settings:', error);
+    return null;
+  }
+}
+
+/**
+ * Latest PIX key registered for referral withdrawals, used to prefill the store key
+ */
+export async function fetchLatestUserPixKey(userId: string): Promise<UserPixKey | null> {
+  const { data, error } = await supabase
+    .from('user_pix_keys')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching PIX keys:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Create or update the PIX settings of a store
+ */
+export async function saveStorePixSettings(
+  userId: string,
+  settings: StorePixSettingsInput
+): Promise<StorePixSettings> {
+  const { data, error } = await supabase
+    .from('store_pix_settings')
+    .upsert({
+      ...settings,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving store PIX settings:', error);
+    throw new Error('Failed to save store PIX settings');
+  }
+
+  return data;
+}
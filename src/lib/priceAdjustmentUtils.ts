@@ -0,0 +1,265 @@
+import { supabase } from './supabase';
+import type { PriceTier, Product } from '@/types';
+
+export type PriceAdjustmentMode = 'percentage' | 'fixed';
+
+export type PriceRounding = 'none' | 'integer' | '90' | '99';
+
+export interface PriceAdjustment {
+  mode: PriceAdjustmentMode;
+  /** Positive values raise prices, negative values lower them */
+  value: number;
+  rounding: PriceRounding;
+  applyToDiscountedPrice: boolean;
+  applyToTiers: boolean;
+}
+
+export interface PriceChange {
+  before: number;
+  after: number;
+}
+
+export interface TierPriceAdjustment {
+  tierId: string;
+  min_quantity: number;
+  unit_price?: PriceChange;
+  discounted_unit_price?: PriceChange;
+}
+
+export interface ProductPriceAdjustment {
+  productId: string;
+  title: string;
+  price?: PriceChange;
+  discounted_price?: PriceChange;
+  tiers: TierPriceAdjustment[];
+  /** Why the adjustment cannot be applied to this product, it is skipped */
+  issue?: string;
+}
+
+export interface PriceAdjustmentResult {
+  /** Changes that were written, only these are reverted by an undo */
+  applied: ProductPriceAdjustment[];
+  /** Prices that could not be written */
+  failedCount: number;
+}
+
+export const PRICE_ROUNDING_OPTIONS: { value: PriceRounding; label: string }[] = [
+  { value: 'none', label: 'Sem arredondamento' },
+  { value: 'integer', label: 'Valor inteiro (R$ 40,00)' },
+  { value: '90', label: 'Terminar em ,90' },
+  { value: '99', label: 'Terminar em ,99' },
+];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Round a price following the rounding rule, to the nearest value with the
+ * chosen ending
+ */
+export function roundPrice(value: number, rounding: PriceRounding): number {
+  if (rounding === 'none') return roundCents(value);
+  if (rounding === 'integer') return Math.round(value);
+
+  const ending = rounding === '90' ? 0.9 : 0.99;
+  return roundCents(Math.round(value - ending) + ending);
+}
+
+/**
+ * New value of a price after the adjustment. It can be zero or negative, the
+ * preview flags those products instead of saving them.
+ */
+export function adjustPrice(value: number, adjustment: Pick<PriceAdjustment, 'mode' | 'value' | 'rounding'>): number {
+  const adjusted = adjustment.mode === 'percentage'
+    ? value * (1 + adjustment.value / 100)
+    : value + adjustment.value;
+
+  return roundPrice(adjusted, adjustment.rounding);
+}
+
+const buildChange = (
+  value: number | null | undefined,
+  adjustment: PriceAdjustment
+): PriceChange | undefined => {
+  if (value === null || value === undefined || value <= 0) return undefined;
+
+  const after = adjustPrice(value, adjustment);
+  return after !== value ? { before: value, after } : undefined;
+};
+
+// Value after the adjustment, or the current one when it does not change
+const finalValue = (value: number | null | undefined, change?: PriceChange) =>
+  change ? change.after : value ?? null;
+
+const isInvalidPair = (price: number | null, discountedPrice: number | null) =>
+  (price !== null && price <= 0) ||
+  (discountedPrice !== null && discountedPrice <= 0) ||
+  (price !== null && discountedPrice !== null && discountedPrice >= price);
+
+/**
+ * Reason the adjustment cannot be saved for a product: a price would drop to
+ * zero or below, or a promotional price would not be lower than its price
+ */
+function getAdjustmentIssue(
+  product: Pick<Product, 'price' | 'discounted_price'>,
+  change: Omit<ProductPriceAdjustment, 'issue'>,
+  tiers: PriceTier[]
+): string | undefined {
+  const changes = [
+    change.price,
+    change.discounted_price,
+    ...change.tiers.flatMap(tier => [tier.unit_price, tier.discounted_unit_price]),
+  ];
+  if (changes.some(item => item && item.after <= 0)) {
+    return 'O novo preço ficaria zerado ou negativo';
+  }
+
+  const productInvalid = isInvalidPair(
+    finalValue(product.price, change.price),
+    finalValue(product.discounted_price, change.discounted_price)
+  );
+  const tierInvalid = change.tiers.some(tierChange => {
+    const tier = tiers.find(item => item.id === tierChange.tierId);
+    return isInvalidPair(
+      finalValue(tier?.unit_price, tierChange.unit_price),
+      finalValue(tier?.discounted_unit_price, tierChange.discounted_unit_price)
+    );
+  });
+
+  return productInvalid || tierInvalid
+    ? 'O preço promocional ficaria maior ou igual ao preço'
+    : undefined;
+}
+
+/**
+ * Preview of every price changed by the adjustment. Products without any
+ * change are left out; products the adjustment would leave with an invalid
+ * price are flagged with the issue.
+ */
+export function buildPriceAdjustmentPreview(
+  products: Pick<Product, 'id' | 'title' | 'price' | 'discounted_price'>[],
+  tiers: PriceTier[],
+  adjustment: PriceAdjustment
+): ProductPriceAdjustment[] {
+  return products
+    .map((product) => ({
+      productId: product.id,
+      title: product.title,
+      price: buildChange(product.price, adjustment),
+      discounted_price: adjustment.applyToDiscountedPrice
+        ? buildChange(product.discounted_price, adjustment)
+        : undefined,
+      tiers: adjustment.applyToTiers
+        ? tiers
+            .filter(tier => tier.product_id === product.id && tier.id)
+            .map((tier) => ({
+              tierId: tier.id as string,
+              min_quantity: tier.min_quantity,
+              unit_price: buildChange(tier.unit_price, adjustment),
+              discounted_unit_price: adjustment.applyToDiscountedPrice
+                ? buildChange(tier.discounted_unit_price, adjustment)
+                : undefined,
+            }))
+            .filter(tier => tier.unit_price || tier.discounted_unit_price)
+        : [],
+    }))
+    .filter(change => change.price || change.discounted_price || change.tiers.length > 0)
+    .map((change) => {
+      const product = products.find(item => item.id === change.productId);
+      const issue = product ? getAdjustmentIssue(product, change, tiers) : undefined;
+      return issue ? { ...change, issue } : change;
+    });
+}
+
+/**
+ * Fetch the price tiers of several products at once
+ */
+export async function fetchPriceTiersForProducts(productIds: string[]): Promise<PriceTier[]> {
+  if (productIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('product_price_tiers')
+    .select('*')
+    .in('product_id', productIds)
+    .order('min_quantity', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching price tiers:', error);
+    return [];
+  }
+
+  return (data || []).map((tier) => ({
+    ...tier,
+    unit_price: Number(tier.unit_price),
+    discounted_unit_price: tier.discounted_unit_price === null ? null : Number(tier.discounted_unit_price),
+  }));
+}
+
+/**
+ * Write the adjusted prices, or the previous ones when undoing an adjustment.
+ * Flagged products are skipped, and undoing only reverts the prices that
+ * still have the adjusted value (prices edited since then are kept). Each
+ * price is a separate update, so the result lists the changes that were
+ * written, which is what an undo has to revert when some of them fail.
+ */
+export async function applyPriceAdjustments(
+  userId: string,
+  adjustments: ProductPriceAdjustment[],
+  direction: 'apply' | 'undo' = 'apply'
+): Promise<PriceAdjustmentResult> {
+  let failedCount = 0;
+
+  const updatePrice = async (
+    table: 'products' | 'product_price_tiers',
+    field: 'price' | 'discounted_price' | 'unit_price' | 'discounted_unit_price',
+    change: PriceChange | undefined,
+    match: Record<string, string>
+  ): Promise<PriceChange | undefined> => {
+    if (!change) return undefined;
+
+    const query = supabase
+      .from(table)
+      .update({ [field]: direction === 'apply' ? change.after : change.before })
+      .match(match);
+
+    const { error } = await (direction === 'undo' ? query.eq(field, change.after) : query);
+    if (error) {
+      console.error('Error applying price adjustment:', error);
+      failedCount++;
+      return undefined;
+    }
+
+    return change;
+  };
+
+  const written = await Promise.all(adjustments
+    .filter(adjustment => !adjustment.issue)
+    .map(async (adjustment): Promise<ProductPriceAdjustment> => {
+      const productMatch = { id: adjustment.productId, user_id: userId };
+      const [price, discountedPrice, tiers] = await Promise.all([
+        updatePrice('products', 'price', adjustment.price, productMatch),
+        updatePrice('products', 'discounted_price', adjustment.discounted_price, productMatch),
+        Promise.all(adjustment.tiers.map(async (tier) => {
+          const tierMatch = { id: tier.tierId, product_id: adjustment.productId };
+          const [unitPrice, discountedUnitPrice] = await Promise.all([
+            updatePrice('product_price_tiers', 'unit_price', tier.unit_price, tierMatch),
+            updatePrice('product_price_tiers', 'discounted_unit_price', tier.discounted_unit_price, tierMatch),
+          ]);
+          return { ...tier, unit_price: unitPrice, discounted_unit_price: discountedUnitPrice };
+        })),
+      ]);
+
+      return {
+        ...adjustment,
+        price,
+        discounted_price: discountedPrice,
+        tiers: tiers.filter(tier => tier.unit_price || tier.discounted_unit_price),
+      };
+    }));
+
+  return {
+    applied: written.filter(adjustment =>
+      adjustment.price || adjustment.discounted_price || adjustment.tiers.length > 0
+    ),
+    failedCount,
+  };
+}
@@ -0,0 +1,141 @@
+import { supabase } from './supabase';
+import type { LowestProductPrice, Product, ProductPriceHistoryEntry } from '@/types';
+
+export const LOWEST_PRICE_PERIOD_DAYS = 30;
+
+/**
+ * Fetch the price changes of a product, newest first
+ */
+export async function fetchProductPriceHistory(productId: string): Promise<ProductPriceHistoryEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from('product_price_history')
+      .select('*, changed_by_user:users!product_price_history_changed_by_fkey(name)')
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Product price history table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizePriceHistoryEntry);
+  } catch (error) {
+    console.error('Error fetching product price history:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch the lowest and highest effective prices of the last days for the
+ * storefront badge
+ */
+export async function fetchLowestProductPrices(
+  productIds: string[],
+  days: number = LOWEST_PRICE_PERIOD_DAYS
+): Promise<LowestProductPrice[]> {
+  if (productIds.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase.rpc('get_lowest_product_prices', {
+      p_product_ids: productIds,
+      p_days: days,
+    });
+
+    if (error) throw error;
+
+    return (data || []).map((row: LowestProductPrice) => ({
+      product_id: row.product_id,
+      lowest_price: Number(row.lowest_price),
+      highest_price: Number(row.highest_price),
+    }));
+  } catch (error) {
+    console.error('Error fetching lowest product prices:', error);
+    return [];
+  }
+}
+
+/**
+ * Whether the store shows the lowest price badge on the storefront
+ */
+export async function fetchLowestPriceBadgeEnabled(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_storefront_settings')
+    .select('settings')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching storefront settings:', error);
+    return false;
+  }
+
+  return !!data?.settings?.showLowestPriceBadge;
+}
+
+/**
+ * Turn the lowest price badge on or off, keeping the other storefront settings
+ */
+export async function saveLowestPriceBadgeEnabled(userId: string, enabled: boolean): Promise<void> {
+  const { data: current } = await supabase
+    .from('user_storefront_settings')
+    .select('settings')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const { error } = await supabase
+    .from('user_storefront_settings')
+    .upsert({
+      user_id: userId,
+      settings: { ...current?.settings, showLowestPriceBadge: enabled },
+    }, {
+      onConflict: 'user_id'
+    });
+
+  if (error) {
+    console.error('Error saving lowest price badge setting:', error);
+    throw new Error('Failed to save lowest price badge setting');
+  }
+}
+
+/**
+ * Effective price of a product: the discounted price when it is lower than
+ * the regular price
+ */
+export function getEffectivePrice(price?: number | null, discountedPrice?: number | null): number | null {
+  if (discountedPrice && price && discountedPrice > 0 && discountedPrice < price) return discountedPrice;
+  return price ?? null;
+}
+
+/**
+ * Flag the products whose current price is the lowest of the period after
+ * going down from a higher price
+ */
+export function applyLowestPriceBadges<T extends Product>(products: T[], lowestPrices: LowestProductPrice[]): T[] {
+  if (lowestPrices.length === 0) return products;
+
+  return products.map(product => {
+    const lowest = lowestPrices.find(entry => entry.product_id === product.id);
+    const current = getEffectivePrice(product.price, product.discounted_price);
+    if (!lowest || !current) return product;
+
+    const isLowest = current <= lowest.lowest_price && lowest.highest_price > current;
+    return isLowest ? { ...product, is_lowest_price: true } : product;
+  });
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizePriceHistoryEntry(entry: ProductPriceHistoryEntry): ProductPriceHistoryEntry {
+  const toNumber = (value?: number | null) => value === null || value === undefined ? null : Number(value);
+
+  return {
+    ...entry,
+    old_price: toNumber(entry.old_price),
+    new_price: toNumber(entry.new_price),
+    old_discounted_price: toNumber(entry.old_discounted_price),
+    new_discounted_price: toNumber(entry.new_discounted_price),
+  };
+}
@@ -0,0 +1,516 @@
+import { supabase } from './supabase';
+import type {
+  CartItem,
+  PriceList,
+  PriceListCustomer,
+  PriceListCustomerStatus,
+  PriceListItem,
+  PriceTier,
+  Product,
+  ProductVariant,
+  StorefrontPriceList,
+} from '@/types';
+
+export const PRICE_LIST_CUSTOMER_STATUS_LABELS: Record<PriceListCustomerStatus, string> = {
+  pendente: 'Aguardando aprovação',
+  aprovado: 'Aprovado',
+  recusado: 'Recusado',
+};
+
+export const PRICE_LIST_CUSTOMER_STATUS_COLORS: Record<PriceListCustomerStatus, string> = {
+  pendente: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  aprovado: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  recusado: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+export type PriceListInput = Omit<PriceList, 'id' | 'user_id' | 'items' | 'created_at' | 'updated_at'>;
+
+/**
+ * Credentials a storefront visitor keeps to unlock a price list
+ */
+export interface PriceListAccess {
+  accessCode?: string;
+  accessToken?: string;
+}
+
+export interface StorefrontPriceListState {
+  // Whether the seller has any active price list to unlock
+  available: boolean;
+  status: PriceListCustomerStatus | null;
+  priceList: StorefrontPriceList | null;
+}
+
+export interface PriceListAccessRequest {
+  name: string;
+  companyName: string;
+  cnpj: string;
+  phone: string;
+  email: string;
+}
+
+export type PriceListProduct = Pick<Product, 'id' | 'title'> & { price: number };
+
+const ACCESS_STORAGE_KEY = 'vitrineturbo_price_list_access';
+
+const EMPTY_STOREFRONT_STATE: StorefrontPriceListState = {
+  available: false,
+  status: null,
+  priceList: null,
+};
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Keep only the digits of a CNPJ
+ */
+export function normalizeCnpj(cnpj: string): string {
+  return (cnpj || '').replace(/\D/g, '').slice(0, 14);
+}
+
+/**
+ * Format a CNPJ as 00.000.000/0000-00
+ */
+export function formatCnpj(cnpj: string): string {
+  return normalizeCnpj(cnpj)
+    .replace(/^(\d{2})(\d)/, '$1.$2')
+    .replace(/^(\d{2})\.(\d{3})(\d)/, '$1.$2.$3')
+    .replace(/\.(\d{3})(\d)/, '.$1/$2')
+    .replace(/(\d{4})(\d{1,2})$/, '$1-$2');
+}
+
+/**
+ * Check the CNPJ check digits
+ */
+export function isValidCnpj(cnpj: string): boolean {
+  const digits = normalizeCnpj(cnpj);
+  if (digits.length !== 14 || /^(\d)\1{13}$/.test(digits)) return false;
+
+  const getCheckDigit = (length: number) => {
+    const weights = length === 12
+      ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+      : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const sum = weights.reduce((total, weight, index) => total + Number(digits[index]) * weight, 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+
+  return getCheckDigit(12) === Number(digits[12]) && getCheckDigit(13) === Number(digits[13]);
+}
+
+/**
+ * Human readable percentage rule of a price list
+ */
+export function formatPriceListRule(priceList: Pick<PriceList, 'adjustment_percentage'>): string {
+  const percentage = priceList.adjustment_percentage;
+  if (percentage === 0) return 'Preço normal';
+  return percentage < 0
+    ? `${Math.abs(percentage)}% de desconto`
+    : `${percentage}% de acréscimo`;
+}
+
+/**
+ * Proportion between the list price and the regular price of a product. A
+ * product priced in the list uses its own price, the others follow the
+ * percentage rule.
+ */
+export function getPriceListFactor(product: Pick<Product, 'id' | 'price'>, priceList: StorefrontPriceList): number {
+  const item = priceList.items.find(listItem => listItem.product_id === product.id);
+  if (item && product.price) return item.price / product.price;
+  return 1 + priceList.adjustment_percentage / 100;
+}
+
+/**
+ * Apply an unlocked price list to storefront products. Only the loaded copy
+ * is changed; the factor is kept so tier prices follow the same proportion.
+ */
+export function applyPriceList<T extends Product>(products: T[], priceList: StorefrontPriceList | null | undefined): T[] {
+  if (!priceList) return products;
+
+  return products.map(product => {
+    const factor = getPriceListFactor(product, priceList);
+    if (factor === 1) return product;
+
+    return {
+      ...product,
+      price: product.price ? roundPrice(product.price * factor) : product.price,
+      discounted_price: product.discounted_price ? roundPrice(product.discounted_price * factor) : product.discounted_price,
+      variants: scaleVariantPrices(product.variants, factor),
+      price_list_factor: factor,
+    };
+  });
+}
+
+/**
+ * Scale the tier prices of a product by its price list factor
+ */
+export function applyPriceListToTiers(tiers: PriceTier[], factor?: number): PriceTier[] {
+  if (!factor || factor === 1) return tiers;
+
+  return tiers.map(tier => ({
+    ...tier,
+    unit_price: roundPrice(tier.unit_price * factor),
+    discounted_unit_price: tier.discounted_unit_price != null
+      ? roundPrice(tier.discounted_unit_price * factor)
+      : tier.discounted_unit_price,
+  }));
+}
+
+/**
+ * Move cart items to another price list (or back to the regular prices)
+ */
+export function repriceCartItems(items: CartItem[], priceList: StorefrontPriceList | null): CartItem[] {
+  return items.map(item => {
+    const currentFactor = item.price_list_factor || 1;
+    // Lines of a variant with its own price keep the product price for the factor
+    const basePrice = (item.product_price ?? item.price) / currentFactor;
+    const factor = priceList ? getPriceListFactor({ id: item.id, price: basePrice }, priceList) : 1;
+    if (factor === currentFactor) return item;
+
+    const reprice = (value?: number) => (value ? roundPrice((value / currentFactor) * factor) : value);
+
+    return {
+      ...item,
+      price: roundPrice((item.price / currentFactor) * factor),
+      discounted_price: reprice(item.discounted_price),
+      applied_tier_price: reprice(item.applied_tier_price),
+      product_price: reprice(item.product_price),
+      product_discounted_price: reprice(item.product_discounted_price),
+      variants: scaleVariantPrices(item.variants, factor / currentFactor),
+      price_list_factor: factor === 1 ? undefined : factor,
+    };
+  });
+}
+
+/**
+ * Price list credentials stored in this browser for a seller
+ */
+export function getStoredPriceListAccess(sellerId: string): PriceListAccess {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ACCESS_STORAGE_KEY) || '{}');
+    return stored[sellerId] || {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Remember (or forget, when null) the price list credentials for a seller
+ */
+export function storePriceListAccess(sellerId: string, access: PriceListAccess | null): void {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ACCESS_STORAGE_KEY) || '{}');
+    if (access) {
+      stored[sellerId] = access;
+    } else {
+      delete stored[sellerId];
+    }
+    localStorage.setItem(ACCESS_STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Error saving price list access:', error);
+  }
+}
+
+/**
+ * Resolve the price list a storefront visitor unlocked (storefront)
+ */
+export async function fetchStorefrontPriceList(
+  sellerId: string,
+  access: PriceListAccess = getStoredPriceListAccess(sellerId)
+): Promise<StorefrontPriceListState> {
+  try {
+    const { data, error } = await supabase.rpc('get_storefront_price_list', {
+      p_user_id: sellerId,
+      p_access_code: access.accessCode || null,
+      p_access_token: access.accessToken || null,
+    });
+
+    if (error) throw error;
+    if (!data) return EMPTY_STOREFRONT_STATE;
+
+    return {
+      available: !!data.available,
+      status: data.status || null,
+      priceList: data.price_list
+        ? {
+          id: data.price_list.id,
+          name: data.price_list.name,
+          adjustment_percentage: Number(data.price_list.adjustment_percentage) || 0,
+          items: normalizePriceListItems(data.price_list.items),
+        }
+        : null,
+    };
+  } catch (error) {
+    console.error('Error fetching storefront price list:', error);
+    return EMPTY_STOREFRONT_STATE;
+  }
+}
+
+/**
+ * Load the price list unlocked in this browser, if any (storefront)
+ */
+export async function loadStoredPriceList(sellerId: string): Promise<StorefrontPriceList | null> {
+  const access = getStoredPriceListAccess(sellerId);
+  if (!access.accessCode && !access.accessToken) return null;
+
+  return (await fetchStorefrontPriceList(sellerId, access)).priceList;
+}
+
+/**
+ * Register a customer for price list approval, returning the access token
+ */
+export async function requestPriceListAccess(sellerId: string, request: PriceListAccessRequest): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.rpc('request_price_list_access', {
+      p_user_id: sellerId,
+      p_name: request.name.trim(),
+      p_company_name: request.companyName.trim(),
+      p_cnpj: normalizeCnpj(request.cnpj),
+      p_phone: request.phone.trim(),
+      p_email: request.email.trim(),
+    });
+
+    if (error) throw error;
+
+    return data || null;
+  } catch (error) {
+    console.error('Error requesting price list access:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch all price lists of a seller with their product prices
+ */
+export async function fetchUserPriceLists(userId: string): Promise<PriceList[]> {
+  try {
+    const { data, error } = await supabase
+      .from('price_lists')
+      .select('*, items:price_list_items(product_id, price)')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Price lists table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizePriceList);
+  } catch (error) {
+    console.error('Error fetching price lists:', error);
+    return [];
+  }
+}
+
+/**
+ * Products of a seller offered in the price list editor
+ */
+export async function fetchPriceListProducts(userId: string): Promise<PriceListProduct[]> {
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, title, price')
+      .eq('user_id', userId)
+      .order('title', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(product => ({ ...product, price: Number(product.price) || 0 }));
+  } catch (error) {
+    console.error('Error fetching price list products:', error);
+    return [];
+  }
+}
+
+/**
+ * Create or update a price list, replacing its product prices
+ */
+export async function savePriceList(
+  userId: string,
+  priceList: PriceListInput,
+  items: PriceListItem[],
+  priceListId?: string
+): Promise<PriceList> {
+  const payload = {
+    ...priceList,
+    name: priceList.name.trim(),
+    access_code: priceList.access_code?.trim().toUpperCase() || null,
+    user_id: userId,
+    updated_at: new Date().toISOString(),
+  };
+
+  const query = priceListId
+    ? supabase.from('price_lists').update(payload).eq('id', priceListId).eq('user_id', userId)
+    : supabase.from('price_lists').insert(payload);
+
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    console.error('Error saving price list:', error);
+    if (error.code === '23505') {
+      throw new Error('Access code already exists');
+    }
+    throw new Error('Failed to save price list');
+  }
+
+  const { error: deleteError } = await supabase
+    .from('price_list_items')
+    .delete()
+    .eq('price_list_id', data.id);
+
+  if (deleteError) {
+    console.error('Error clearing price list items:', deleteError);
+    throw new Error('Failed to save price list');
+  }
+
+  if (items.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('price_list_items')
+      .insert(items.map(item => ({
+        price_list_id: data.id,
+        product_id: item.product_id,
+        price: item.price,
+      })));
+
+    if (itemsError) {
+      console.error('Error saving price list items:', itemsError);
+      throw new Error('Failed to save price list');
+    }
+  }
+
+  return normalizePriceList({ ...data, items });
+}
+
+/**
+ * Enable or disable a price list
+ */
+export async function setPriceListActive(priceListId: string, isActive: boolean): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('price_lists')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', priceListId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error updating price list:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a price list
+ */
+export async function deletePriceList(priceListId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('price_lists')
+      .delete()
+      .eq('id', priceListId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting price list:', error);
+    return false;
+  }
+}
+
+/**
+ * Fetch the customers that registered for a seller's price lists, newest first
+ */
+export async function fetchPriceListCustomers(userId: string): Promise<PriceListCustomer[]> {
+  try {
+    const { data, error } = await supabase
+      .from('price_list_customers')
+      .select('id, user_id, price_list_id, name, company_name, cnpj, phone, email, status, created_at, updated_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Price list customers table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching price list customers:', error);
+    return [];
+  }
+}
+
+/**
+ * Approve a customer with a price list, or decline the registration
+ */
+export async function reviewPriceListCustomer(
+  customerId: string,
+  status: Exclude<PriceListCustomerStatus, 'pendente'>,
+  priceListId: string | null
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('price_list_customers')
+      .update({
+        status,
+        price_list_id: priceListId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', customerId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error reviewing price list customer:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a customer registration
+ */
+export async function deletePriceListCustomer(customerId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('price_list_customers')
+      .delete()
+      .eq('id', customerId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting price list customer:', error);
+    return false;
+  }
+}
+
+function scaleVariantPrices(variants: ProductVariant[] | undefined, factor: number): ProductVariant[] | undefined {
+  return variants?.map(variant => (
+    variant.price ? { ...variant, price: roundPrice(Number(variant.price) * factor) } : variant
+  ));
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizePriceListItems(items?: PriceListItem[] | null): PriceListItem[] {
+  return (items || []).map(item => ({
+    product_id: item.product_id,
+    price: Number(item.price) || 0,
+  }));
+}
+
+function normalizePriceList(priceList: PriceList): PriceList {
+  return {
+    ...priceList,
+    adjustment_percentage: Number(priceList.adjustment_percentage) || 0,
+    items: normalizePriceListItems(priceList.items),
+  };
+}
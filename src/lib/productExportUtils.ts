@@ -0,0 +1,118 @@
+import { supabase } from './supabase';
+import { buildCsv, buildXlsx, downloadBlob, type SpreadsheetCell } from './spreadsheetUtils';
+import { formatImportTiers, PRODUCT_IMPORT_FIELDS, type ProductImportField } from './productImportUtils';
+import type { Product } from '@/types';
+
+export type ProductExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const PRODUCT_EXPORT_FORMAT_LABELS: Record<ProductExportFormat, string> = {
+  csv: 'CSV (planilha)',
+  xlsx: 'XLSX (Excel)',
+  json: 'JSON (backup completo)',
+};
+
+// Keeps the request URL short when filtering by id
+const EXPORT_CHUNK_SIZE = 200;
+
+/**
+ * Fetch products with their price tiers and images, in the dashboard order
+ */
+export async function fetchProductsForExport(userId: string, productIds: string[]): Promise<Product[]> {
+  const products: Product[] = [];
+
+  for (let start = 0; start < productIds.length; start += EXPORT_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('products')
+      .select('*, product_images(*), price_tiers:product_price_tiers(*)')
+      .eq('user_id', userId)
+      .in('id', productIds.slice(start, start + EXPORT_CHUNK_SIZE));
+
+    if (error) {
+      console.error('Error fetching products for export:', error);
+      throw new Error('Failed to fetch products for export');
+    }
+
+    products.push(...(data || []));
+  }
+
+  // Keep the order of the ids, which is the order shown in the dashboard
+  const positions = new Map(productIds.map((id, index) => [id, index]));
+  return products.sort((a, b) => (positions.get(a.id) ?? 0) - (positions.get(b.id) ?? 0));
+}
+
+/**
+ * Spreadsheet rows of a product export, with the same columns the import
+ * reads plus the product id and status
+ */
+export function buildProductExportRows(products: Product[]): SpreadsheetCell[][] {
+  const header = [...PRODUCT_IMPORT_FIELDS.map(definition => definition.label), 'ID', 'Status'];
+
+  const rows = products.map(product => {
+    const values: Record<ProductImportField, SpreadsheetCell> = {
+      title: product.title,
+      description: product.description,
+      price: product.has_tiered_pricing ? null : Number(product.price ?? 0),
+      discounted_price: product.discounted_price != null ? Number(product.discounted_price) : null,
+      category: (product.category || []).join(', '),
+      brand: product.brand || '',
+      colors: (product.colors || []).join(', '),
+      sizes: (product.sizes || []).join(', '),
+      tiers: product.has_tiered_pricing ? formatImportTiers(normalizeTiers(product)) : '',
+      images: getImageUrls(product).join(', '),
+      is_visible_on_storefront: product.is_visible_on_storefront === false ? 'Não' : 'Sim',
+      display_order: product.display_order ?? null,
+    };
+
+    return [...PRODUCT_IMPORT_FIELDS.map(definition => values[definition.field]), product.id, product.status];
+  });
+
+  return [header, ...rows];
+}
+
+/**
+ * Download the products in the chosen format
+ */
+export function downloadProductExport(products: Product[], format: ProductExportFormat): void {
+  const fileName = `produtos-${new Date().toISOString().slice(0, 10)}`;
+
+  if (format === 'json') {
+    const backup = products.map(product => ({
+      ...product,
+      price_tiers: normalizeTiers(product),
+      product_images: [...(product.product_images || [])].sort(
+        (a, b) => (a.display_order ?? 0) - (b.display_order ?? 0)
+      ),
+    }));
+    downloadBlob(`${fileName}.json`, new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+    return;
+  }
+
+  const rows = buildProductExportRows(products);
+  if (format === 'xlsx') {
+    downloadBlob(`${fileName}.xlsx`, buildXlsx(rows, 'Produtos'));
+  } else {
+    downloadBlob(`${fileName}.csv`, new Blob([buildCsv(rows)], { type: 'text/csv;charset=utf-8' }));
+  }
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizeTiers(product: Product) {
+  return [...(product.price_tiers || [])]
+    .map(tier => ({
+      ...tier,
+      unit_price: Number(tier.unit_price),
+      discounted_unit_price: tier.discounted_unit_price != null ? Number(tier.discounted_unit_price) : null,
+    }))
+    .sort((a, b) => a.min_quantity - b.min_quantity);
+}
+
+function getImageUrls(product: Product): string[] {
+  const images = [...(product.product_images || [])]
+    .sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0))
+    .map(image => image.url);
+
+  if (images.length === 0 && product.featured_image_url) {
+    return [product.featured_image_url];
+  }
+  return images;
+}
@@ -0,0 +1,486 @@
+import { z } from 'zod';
+import { supabase } from './supabase';
+import { validateAndSanitizeCategories } from './categoryUtils';
+import { uploadProductImages, saveProductImages, type UploadedImage } from './productImageService';
+import { syncUserCategoriesWithStorefrontSettings } from './utils';
+import type { SpreadsheetData } from './spreadsheetUtils';
+import type { PriceTier } from '@/types';
+
+export type ProductImportField =
+  | 'title'
+  | 'description'
+  | 'price'
+  | 'discounted_price'
+  | 'category'
+  | 'brand'
+  | 'colors'
+  | 'sizes'
+  | 'tiers'
+  | 'images'
+  | 'is_visible_on_storefront'
+  | 'display_order';
+
+/** Spreadsheet column index of each product field */
+export type ProductImportMapping = Partial<Record<ProductImportField, number>>;
+
+export interface ProductImportFieldDefinition {
+  field: ProductImportField;
+  label: string;
+  required?: boolean;
+  hint?: string;
+  // Lowercase headers recognized when guessing the mapping
+  aliases: string[];
+}
+
+export interface ProductImportDraft {
+  title: string;
+  description: string;
+  price: number;
+  discounted_price: number | null;
+  category: string[];
+  brand: string;
+  colors: string[];
+  sizes: string[];
+  tiers: PriceTier[];
+  // Image URLs and file names, in display order
+  images: string[];
+  is_visible_on_storefront: boolean;
+  display_order: number | null;
+}
+
+export interface ProductImportRow {
+  // Line in the spreadsheet, counting the header
+  rowNumber: number;
+  values: string[];
+  product: ProductImportDraft | null;
+  errors: string[];
+}
+
+export interface ProductImportResult {
+  createdCount: number;
+  // Rows whose product could not be created, safe to import again
+  failedRows: ProductImportRow[];
+  // Rows whose product was created without all its tiers or images. They are
+  // kept out of the error report, importing them again would duplicate the product
+  pendingRows: ProductImportRow[];
+}
+
+export interface ListingCapacity {
+  limit: number | null;
+  used: number;
+}
+
+export const PRODUCT_IMPORT_FIELDS: ProductImportFieldDefinition[] = [
+  { field: 'title', label: 'Título', required: true, aliases: ['titulo', 'título', 'title', 'nome', 'produto', 'name'] },
+  { field: 'description', label: 'Descrição', required: true, aliases: ['descricao', 'descrição', 'description'] },
+  { field: 'price', label: 'Preço', hint: 'Obrigatório sem faixas de preço', aliases: ['preco', 'preço', 'price', 'valor'] },
+  { field: 'discounted_price', label: 'Preço promocional', aliases: ['preco promocional', 'preço promocional', 'promocao', 'promoção', 'discounted_price', 'sale price'] },
+  { field: 'category', label: 'Categorias', hint: 'Separadas por vírgula', aliases: ['categoria', 'categorias', 'category', 'categories'] },
+  { field: 'brand', label: 'Marca', aliases: ['marca', 'brand'] },
+  { field: 'colors', label: 'Cores', hint: 'Separadas por vírgula', aliases: ['cor', 'cores', 'color', 'colors'] },
+  { field: 'sizes', label: 'Tamanhos', hint: 'Separados por vírgula', aliases: ['tamanho', 'tamanhos', 'size', 'sizes'] },
+  { field: 'tiers', label: 'Faixas de preço', hint: 'Ex.: 10:45,90 | 50:40,00/38,00 (promocional após a barra)', aliases: ['faixas', 'faixas de preço', 'faixas de preco', 'atacado', 'tiers'] },
+  { field: 'images', label: 'Imagens', hint: 'URLs ou nomes de arquivo separados por vírgula', aliases: ['imagem', 'imagens', 'image', 'images', 'fotos', 'foto'] },
+  { field: 'is_visible_on_storefront', label: 'Visível na vitrine', hint: 'Sim ou Não, Sim quando vazio', aliases: ['visível na vitrine', 'visivel na vitrine', 'visível', 'visivel', 'visible'] },
+  { field: 'display_order', label: 'Ordem', hint: 'Posição do produto na vitrine', aliases: ['ordem', 'order', 'display_order'] },
+];
+
+export const IMPORT_BATCH_SIZE = 20;
+
+// Same rules as the product form
+const importProductSchema = z.object({
+  title: z.string().min(1, 'Título é obrigatório'),
+  description: z.string().min(1, 'Descrição é obrigatória'),
+  price: z.number().min(0, 'Preço deve ser maior ou igual a zero'),
+});
+
+/**
+ * Map spreadsheet headers to product fields by their names
+ */
+export function guessProductImportMapping(headers: string[]): ProductImportMapping {
+  const mapping: ProductImportMapping = {};
+  const normalizedHeaders = headers.map(header => header.trim().toLowerCase());
+
+  PRODUCT_IMPORT_FIELDS.forEach(definition => {
+    const index = normalizedHeaders.findIndex(header => definition.aliases.includes(header));
+    if (index >= 0 && !Object.values(mapping).includes(index)) {
+      mapping[definition.field] = index;
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Parse a spreadsheet number, accepting "R$ 1.234,56", "1234.56" and "45,9"
+ */
+export function parseImportNumber(value: string): number | null {
+  const cleaned = value.replace(/[^\d,.-]/g, '');
+  if (!cleaned) return null;
+
+  let normalized = cleaned;
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // The last separator is the decimal one
+    normalized = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    normalized = cleaned.replace(',', '.');
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(cleaned)) {
+    normalized = cleaned.replace(/\./g, '');
+  }
+
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Validate the spreadsheet rows without saving anything. Rows past the
+ * remaining listings of the seller are rejected.
+ */
+export function validateProductImportRows(
+  data: SpreadsheetData,
+  mapping: ProductImportMapping,
+  imageFiles: File[],
+  remainingListings: number | null
+): ProductImportRow[] {
+  const fileNames = new Set(imageFiles.map(file => file.name.toLowerCase()));
+  let acceptedCount = 0;
+
+  return data.rows.map((values, index) => {
+    const cell = (field: ProductImportField) => {
+      const column = mapping[field];
+      return column !== undefined ? values[column] || '' : '';
+    };
+    const errors: string[] = [];
+
+    const tiers = parseTiers(cell('tiers'), errors);
+    const priceCell = cell('price');
+    const price = priceCell ? parseImportNumber(priceCell) : 0;
+    if (price === null) {
+      errors.push(`Preço inválido: "${priceCell}"`);
+    } else if (!priceCell && tiers.length === 0) {
+      errors.push('Informe o preço ou as faixas de preço');
+    }
+
+    const discountedCell = cell('discounted_price');
+    const discountedPrice = discountedCell ? parseImportNumber(discountedCell) : null;
+    if (discountedCell && discountedPrice === null) {
+      errors.push(`Preço promocional inválido: "${discountedCell}"`);
+    } else if (discountedPrice !== null && priceCell && price !== null && discountedPrice >= price) {
+      errors.push('O preço promocional deve ser menor que o preço original');
+    }
+
+    const schemaResult = importProductSchema.safeParse({
+      title: cell('title'),
+      description: cell('description'),
+      price: price ?? 0,
+    });
+    if (!schemaResult.success) {
+      errors.push(...schemaResult.error.issues.map(issue => issue.message));
+    }
+
+    const categories = validateAndSanitizeCategories(splitList(cell('category')));
+    if (categories.invalid.length > 0) {
+      errors.push(`Categorias inválidas: ${categories.invalid.join(', ')}`);
+    }
+
+    const visibility = parseImportBoolean(cell('is_visible_on_storefront'));
+    if (visibility === null) {
+      errors.push(`Visibilidade inválida: "${cell('is_visible_on_storefront')}". Use Sim ou Não`);
+    }
+
+    const orderCell = cell('display_order');
+    const displayOrder = orderCell ? Number(orderCell) : null;
+    if (displayOrder !== null && (!Number.isInteger(displayOrder) || displayOrder < 0)) {
+      errors.push(`Ordem inválida: "${orderCell}"`);
+    }
+
+    const images = splitList(cell('images'));
+    if (images.length === 0) {
+      errors.push('Adicione pelo menos uma imagem do produto');
+    }
+    images
+      .filter(image => !isImageUrl(image) && !fileNames.has(image.toLowerCase()))
+      .forEach(image => errors.push(`Imagem não encontrada entre os arquivos enviados: ${image}`));
+
+    if (errors.length === 0 && remainingListings !== null && acceptedCount >= remainingListings) {
+      errors.push('Limite de anúncios do plano atingido');
+    }
+
+    if (errors.length > 0) {
+      return { rowNumber: index + 2, values, product: null, errors };
+    }
+
+    acceptedCount++;
+    return {
+      rowNumber: index + 2,
+      values,
+      errors,
+      product: {
+        title: cell('title'),
+        description: cell('description'),
+        price: price ?? 0,
+        discounted_price: tiers.length > 0 ? null : discountedPrice,
+        category: categories.valid,
+        brand: cell('brand'),
+        colors: splitList(cell('colors')),
+        sizes: splitList(cell('sizes')),
+        tiers,
+        images,
+        is_visible_on_storefront: visibility ?? true,
+        display_order: displayOrder,
+      },
+    };
+  });
+}
+
+/**
+ * Listing limit of the seller and how many products they already have
+ */
+export async function fetchListingCapacity(userId: string): Promise<ListingCapacity> {
+  const [{ data: userData, error: userError }, { count, error: countError }] = await Promise.all([
+    supabase.from('users').select('listing_limit').eq('id', userId).maybeSingle(),
+    supabase.from('products').select('id', { count: 'exact', head: true }).eq('user_id', userId),
+  ]);
+
+  if (userError || countError) {
+    console.error('Error fetching listing capacity:', userError || countError);
+    throw new Error('Failed to fetch listing capacity');
+  }
+
+  return {
+    limit: userData?.listing_limit ?? null,
+    used: count || 0,
+  };
+}
+
+/**
+ * Create the validated products in batches
+ */
+export async function importProducts(
+  userId: string,
+  rows: ProductImportRow[],
+  imageFiles: File[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ProductImportResult> {
+  const validRows = rows.filter(row => row.product);
+  const filesByName = new Map(imageFiles.map(file => [file.name.toLowerCase(), file]));
+  const failedRows: ProductImportRow[] = [];
+  const pendingRows: ProductImportRow[] = [];
+  let createdCount = 0;
+
+  for (let start = 0; start < validRows.length; start += IMPORT_BATCH_SIZE) {
+    const batch = validRows.slice(start, start + IMPORT_BATCH_SIZE);
+
+    const { data: created, error } = await supabase
+      .from('products')
+      .insert(batch.map(row => buildProductRecord(userId, row.product as ProductImportDraft)))
+      .select('id');
+
+    if (error || !created || created.length !== batch.length) {
+      console.error('Error importing product batch:', error);
+      batch.forEach(row => failedRows.push({
+        ...row,
+        errors: [`Erro ao salvar o produto${error?.message ? `: ${error.message}` : ''}`],
+      }));
+    } else {
+      createdCount += batch.length;
+      for (let i = 0; i < batch.length; i++) {
+        const rowErrors = await saveImportedProductDetails(
+          userId,
+          created[i].id,
+          batch[i].product as ProductImportDraft,
+          filesByName
+        );
+        if (rowErrors.length > 0) {
+          pendingRows.push({ ...batch[i], errors: rowErrors });
+        }
+      }
+    }
+
+    onProgress?.(Math.min(start + batch.length, validRows.length), validRows.length);
+  }
+
+  await syncUserCategoriesWithStorefrontSettings(userId);
+
+  return { createdCount, failedRows, pendingRows };
+}
+
+/**
+ * Spreadsheet with the rejected rows and their errors, for download
+ */
+export function buildImportErrorReport(headers: string[], rows: ProductImportRow[]): string[][] {
+  return [
+    ['Linha', ...headers, 'Erros'],
+    ...rows.map(row => [String(row.rowNumber), ...row.values, row.errors.join(' | ')]),
+  ];
+}
+
+// Tiers, then images. The product is already created when these fail, so the
+// errors are reported without rolling it back.
+async function saveImportedProductDetails(
+  userId: string,
+  productId: string,
+  product: ProductImportDraft,
+  filesByName: Map<string, File>
+): Promise<string[]> {
+  const errors: string[] = [];
+
+  if (product.tiers.length > 0) {
+    const { error } = await supabase
+      .from('product_price_tiers')
+      .insert(product.tiers.map(tier => ({ ...tier, product_id: productId })));
+
+    if (error) {
+      console.error('Error importing price tiers:', error);
+      errors.push('Produto criado, mas as faixas de preço não foram salvas');
+    }
+  }
+
+  try {
+    const files = product.images
+      .filter(image => !isImageUrl(image))
+      .map(image => filesByName.get(image.toLowerCase()) as File);
+    const uploaded = await uploadProductImages(files, userId, productId);
+
+    let uploadedIndex = 0;
+    const images = product.images
+      .map((image, index): UploadedImage => ({
+        id: `import-${index}`,
+        url: isImageUrl(image) ? image : uploaded[uploadedIndex++]?.url || '',
+        is_featured: false,
+        media_type: 'image',
+        display_order: 0,
+      }))
+      .filter(image => image.url)
+      .map((image, index) => ({ ...image, is_featured: index === 0, display_order: index }));
+
+    if (images.length < product.images.length) {
+      errors.push('Produto criado, mas algumas imagens não foram enviadas');
+    }
+
+    if (images.length > 0) {
+      await saveProductImages(productId, images, userId);
+      await supabase
+        .from('products')
+        .update({ featured_image_url: images[0].url })
+        .eq('id', productId);
+    }
+  } catch (error) {
+    console.error('Error importing product images:', error);
+    errors.push(`Produto criado, mas as imagens não foram salvas${error instanceof Error ? `: ${error.message}` : ''}`);
+  }
+
+  return errors;
+}
+
+function buildProductRecord(userId: string, product: ProductImportDraft) {
+  const hasTiers = product.tiers.length > 0;
+
+  return {
+    user_id: userId,
+    title: product.title,
+    description: product.description,
+    short_description: '',
+    price: hasTiers ? 0 : product.price,
+    discounted_price: product.discounted_price,
+    featured_offer_price: product.discounted_price,
+    status: 'disponivel',
+    category: product.category.length > 0 ? product.category : ['Sem Categoria'],
+    brand: product.brand,
+    model: '',
+    condition: 'novo',
+    featured_image_url: '',
+    is_visible_on_storefront: product.is_visible_on_storefront,
+    colors: product.colors,
+    sizes: product.sizes,
+    has_tiered_pricing: hasTiers,
+    ...(product.display_order !== null && { display_order: product.display_order }),
+  };
+}
+
+/**
+ * Price tiers in the spreadsheet format read by the import
+ */
+export function formatImportTiers(tiers: PriceTier[]): string {
+  const formatPrice = (value: number) => value.toFixed(2).replace('.', ',');
+
+  return [...tiers]
+    .sort((a, b) => a.min_quantity - b.min_quantity)
+    .map(tier => `${tier.min_quantity}:${formatPrice(tier.unit_price)}${
+      tier.discounted_unit_price ? `/${formatPrice(tier.discounted_unit_price)}` : ''
+    }`)
+    .join(' | ');
+}
+
+// "10:45,90 | 50:40/38" -> tiers with max quantities filled in
+function parseTiers(value: string, errors: string[]): PriceTier[] {
+  if (!value) return [];
+
+  const tiers: PriceTier[] = [];
+  const quantities = new Set<number>();
+
+  value.split(/[|;]/).map(part => part.trim()).filter(Boolean).forEach((part, index) => {
+    const [quantityText, pricesText = ''] = part.split(':').map(text => text.trim());
+    const [priceText, discountedText] = pricesText.split('/').map(text => text.trim());
+    const minQuantity = Number(quantityText);
+    const unitPrice = priceText ? parseImportNumber(priceText) : null;
+    const discountedUnitPrice = discountedText ? parseImportNumber(discountedText) : null;
+
+    if (!Number.isInteger(minQuantity) || minQuantity <= 0) {
+      errors.push(`Faixa ${index + 1}: Quantidade mínima deve ser maior que 0`);
+      return;
+    }
+    if (quantities.has(minQuantity)) {
+      errors.push(`Faixa ${index + 1}: Quantidade mínima ${minQuantity} duplicada`);
+      return;
+    }
+    if (unitPrice === null || unitPrice <= 0) {
+      errors.push(`Faixa ${index + 1}: Preço unitário deve ser maior que 0`);
+      return;
+    }
+    if (discountedText && (discountedUnitPrice === null || discountedUnitPrice <= 0)) {
+      errors.push(`Faixa ${index + 1}: Preço promocional deve ser maior que 0`);
+      return;
+    }
+    if (discountedUnitPrice !== null && discountedUnitPrice >= unitPrice) {
+      errors.push(`Faixa ${index + 1}: Preço promocional deve ser menor que o preço normal`);
+      return;
+    }
+
+    quantities.add(minQuantity);
+    tiers.push({
+      min_quantity: minQuantity,
+      max_quantity: null,
+      unit_price: unitPrice,
+      discounted_unit_price: discountedUnitPrice,
+    });
+  });
+
+  return tiers
+    .sort((a, b) => a.min_quantity - b.min_quantity)
+    .map((tier, index, sorted) => ({
+      ...tier,
+      max_quantity: index < sorted.length - 1 ? sorted[index + 1].min_quantity - 1 : null,
+    }));
+}
+
+// Empty cells count as true, unknown values as null
+function parseImportBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized || ['sim', 's', 'yes', 'true', '1', 'verdadeiro'].includes(normalized)) return true;
+  if (['não', 'nao', 'n', 'no', 'false', '0', 'falso'].includes(normalized)) return false;
+  return null;
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[,;|\n]/).map(item => item.trim()).filter(Boolean);
+}
+
+function isImageUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
@@ -0,0 +1,366 @@
+import { supabase } from './supabase';
+import { formatCurrency } from './utils';
+import { getVariantPricing } from './variantUtils';
+import { applyPriceList, loadStoredPriceList } from './priceListUtils';
+import type { CartItem, Product, Promotion, PromotionDiscountType } from '@/types';
+
+export type PromotionStatus = 'agendada' | 'ativa' | 'encerrada' | 'inativa';
+
+export const PROMOTION_DISCOUNT_TYPE_LABELS: Record<PromotionDiscountType, string> = {
+  percentage: 'Porcentagem',
+  fixed: 'Valor fixo',
+};
+
+export const PROMOTION_STATUS_LABELS: Record<PromotionStatus, string> = {
+  agendada: 'Agendada',
+  ativa: 'Em andamento',
+  encerrada: 'Encerrada',
+  inativa: 'Inativa',
+};
+
+export const PROMOTION_STATUS_COLORS: Record<PromotionStatus, string> = {
+  agendada: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  ativa: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  encerrada: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  inativa: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+};
+
+export type PromotionInput = Omit<Promotion, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+export interface PromotionCountdown {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+/**
+ * Whether the promotion is enabled and inside its scheduled period
+ */
+export function isPromotionRunning(promotion: Promotion, now: Date = new Date()): boolean {
+  return promotion.is_active &&
+    new Date(promotion.starts_at) <= now &&
+    new Date(promotion.ends_at) > now;
+}
+
+/**
+ * Dashboard status of a promotion at a given moment
+ */
+export function getPromotionStatus(promotion: Promotion, now: Date = new Date()): PromotionStatus {
+  if (new Date(promotion.ends_at) <= now) return 'encerrada';
+  if (!promotion.is_active) return 'inativa';
+  if (new Date(promotion.starts_at) > now) return 'agendada';
+  return 'ativa';
+}
+
+/**
+ * Check whether a product is covered by the promotion. A promotion without
+ * products and categories covers the whole store.
+ */
+export function isProductInPromotion(
+  promotion: Promotion,
+  product: Pick<Product, 'id' | 'category'>
+): boolean {
+  if (promotion.product_ids.length === 0 && promotion.categories.length === 0) return true;
+
+  return promotion.product_ids.includes(product.id) ||
+    (product.category || []).some(category => promotion.categories.includes(category));
+}
+
+/**
+ * Price of a product while the promotion runs, never below zero. A price of
+ * zero means the promotion cannot be applied to it.
+ */
+export function calculatePromotionPrice(price: number, promotion: Pick<Promotion, 'discount_type' | 'discount_value'>): number {
+  const discounted = promotion.discount_type === 'percentage'
+    ? price * (1 - promotion.discount_value / 100)
+    : price - promotion.discount_value;
+
+  return Math.max(0, Math.round(discounted * 100) / 100);
+}
+
+/**
+ * Apply the running promotions to storefront products. Only the loaded copy
+ * is changed, so the regular prices come back as soon as a promotion ends.
+ * The featured offer gets the same discount: a percentage off both the down
+ * payment and the installments, or a fixed value off the down payment.
+ * Products sold by quote or with tiered pricing keep their own prices.
+ */
+export function applyPromotions<T extends Product>(
+  products: T[],
+  promotions: Promotion[],
+  now: Date = new Date()
+): T[] {
+  const running = promotions.filter(promotion => isPromotionRunning(promotion, now));
+  if (running.length === 0) return products;
+
+  return products.map(product => {
+    if (product.quote_only || product.has_tiered_pricing || !product.price) return product;
+
+    const currentPrice = product.discounted_price && product.discounted_price < product.price
+      ? product.discounted_price
+      : product.price;
+
+    // The best promotion wins when several cover the same product
+    let best: { price: number; promotion: Promotion } | null = null;
+    for (const promotion of running) {
+      if (!isProductInPromotion(promotion, product)) continue;
+
+      const price = calculatePromotionPrice(product.price, promotion);
+      if (price > 0 && price < currentPrice && (!best || price < best.price)) {
+        best = { price, promotion };
+      }
+    }
+
+    if (!best) return product;
+
+    const { promotion } = best;
+    const featuredOfferPrice = product.featured_offer_price
+      ? calculatePromotionPrice(product.featured_offer_price, promotion)
+      : 0;
+    const featuredOffer = featuredOfferPrice > 0
+      ? {
+          featured_offer_price: featuredOfferPrice,
+          featured_offer_installment: product.featured_offer_installment && promotion.discount_type === 'percentage'
+            ? calculatePromotionPrice(product.featured_offer_installment, promotion)
+            : product.featured_offer_installment,
+        }
+      : {};
+
+    return {
+      ...product,
+      ...featuredOffer,
+      discounted_price: best.price,
+      promotion_ends_at: promotion.ends_at,
+    };
+  });
+}
+
+/**
+ * Reprice cart lines with the current product prices, the price list unlocked
+ * in this browser and the running promotions, in the same order as the
+ * storefront. Promotions are applied on the client, so a cart stored in the
+ * browser keeps a promotional price after the promotion ends until it is
+ * repriced. Lines sold by quote or with tiered pricing keep their prices; on
+ * error the lines are returned unchanged.
+ */
+export async function refreshCartPromotionPrices(items: CartItem[]): Promise<CartItem[]> {
+  const productIds = Array.from(new Set(
+    items.filter(item => !item.quote_only && !item.has_tiered_pricing).map(item => item.id)
+  ));
+  if (productIds.length === 0) return items;
+
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, user_id, price, discounted_price, category, quote_only, has_tiered_pricing, variants:product_variants(color, size, sku, price, image_id)')
+      .in('id', productIds);
+
+    if (error) throw error;
+
+    const sellerIds = Array.from(new Set((data || []).map(product => product.user_id)));
+    const sellerProducts = await Promise.all(sellerIds.map(async (sellerId) => {
+      const [priceList, promotions] = await Promise.all([
+        loadStoredPriceList(sellerId),
+        fetchActivePromotions(sellerId),
+      ]);
+      const products = ((data || []) as Product[]).filter(product => product.user_id === sellerId);
+      return applyPromotions(applyPriceList(products, priceList), promotions);
+    }));
+    const products = new Map(sellerProducts.flat().map(product => [product.id, product]));
+
+    return items.map(item => {
+      const product = products.get(item.id);
+      if (!product?.price || item.quote_only || item.has_tiered_pricing) return item;
+
+      const productPrice = Number(product.price);
+      const productDiscountedPrice = product.discounted_price ? Number(product.discounted_price) : undefined;
+      const priceListFactor = product.price_list_factor;
+
+      if (!item.variants) {
+        return {
+          ...item,
+          price: productPrice,
+          discounted_price: productDiscountedPrice,
+          price_list_factor: priceListFactor,
+        };
+      }
+
+      const pricing = getVariantPricing({ ...product, has_tiered_pricing: false }, item.selectedColor, item.selectedSize);
+
+      return {
+        ...item,
+        price: pricing.price,
+        discounted_price: pricing.discounted_price,
+        variants: product.variants,
+        product_price: productPrice,
+        product_discounted_price: productDiscountedPrice,
+        price_list_factor: priceListFactor,
+      };
+    });
+  } catch (error) {
+    console.error('Error refreshing cart prices:', error);
+    return items;
+  }
+}
+
+/**
+ * Time left until the promotion ends, or null when it already ended
+ */
+export function getPromotionCountdown(endsAt: string, now: Date = new Date()): PromotionCountdown | null {
+  const remaining = Math.floor((new Date(endsAt).getTime() - now.getTime()) / 1000);
+  if (remaining <= 0) return null;
+
+  return {
+    days: Math.floor(remaining / 86400),
+    hours: Math.floor((remaining % 86400) / 3600),
+    minutes: Math.floor((remaining % 3600) / 60),
+    seconds: remaining % 60,
+  };
+}
+
+/**
+ * Compact countdown (e.g. "2d 04:15:09" or "04:15:09")
+ */
+export function formatPromotionCountdown(countdown: PromotionCountdown): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const clock = `${pad(countdown.hours)}:${pad(countdown.minutes)}:${pad(countdown.seconds)}`;
+  return countdown.days > 0 ? `${countdown.days}d ${clock}` : clock;
+}
+
+/**
+ * Human readable discount (e.g. "10%" or "R$ 15,00")
+ */
+export function formatPromotionDiscount(promotion: Pick<Promotion, 'discount_type' | 'discount_value'>): string {
+  return promotion.discount_type === 'percentage'
+    ? `${promotion.discount_value}%`
+    : formatCurrency(promotion.discount_value);
+}
+
+/**
+ * Fetch the promotions of a seller that are running right now (storefront)
+ */
+export async function fetchActivePromotions(userId: string): Promise<Promotion[]> {
+  try {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('promotions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .lte('starts_at', now)
+      .gt('ends_at', now);
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Promotions table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizePromotion);
+  } catch (error) {
+    console.error('Error fetching active promotions:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch all promotions of a seller, latest start first
+ */
+export async function fetchUserPromotions(userId: string): Promise<Promotion[]> {
+  try {
+    const { data, error } = await supabase
+      .from('promotions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('starts_at', { ascending: false });
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Promotions table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizePromotion);
+  } catch (error) {
+    console.error('Error fetching promotions:', error);
+    return [];
+  }
+}
+
+/**
+ * Create or update a promotion
+ */
+export async function savePromotion(userId: string, promotion: PromotionInput, promotionId?: string): Promise<Promotion> {
+  const payload = {
+    ...promotion,
+    name: promotion.name.trim(),
+    user_id: userId,
+    updated_at: new Date().toISOString(),
+  };
+
+  const query = promotionId
+    ? supabase.from('promotions').update(payload).eq('id', promotionId).eq('user_id', userId)
+    : supabase.from('promotions').insert(payload);
+
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    console.error('Error saving promotion:', error);
+    throw new Error('Failed to save promotion');
+  }
+
+  return normalizePromotion(data);
+}
+
+/**
+ * Enable or disable a promotion
+ */
+export async function setPromotionActive(promotionId: string, isActive: boolean): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('promotions')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', promotionId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error updating promotion:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a promotion
+ */
+export async function deletePromotion(promotionId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('promotions')
+      .delete()
+      .eq('id', promotionId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting promotion:', error);
+    return false;
+  }
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizePromotion(promotion: Promotion): Promotion {
+  return {
+    ...promotion,
+    discount_value: Number(promotion.discount_value) || 0,
+    product_ids: promotion.product_ids || [],
+    categories: promotion.categories || [],
+  };
+}
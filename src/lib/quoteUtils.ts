@@ -0,0 +1,682 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from './supabase';
+import { formatCustomerBlock, generateCartOrderMessage, getStorefrontBaseUrl, type CartOrderMessageOptions } from './cartUtils';
+import { generateOrderCode, generateShortCode } from './orderUtils';
+import { formatVariantLabel } from './distributionUtils';
+import { getViewerId } from './tracking';
+import type { SupportedCurrency, SupportedLanguage } from './i18n';
+import type {
+  CartItem,
+  CartDistribution,
+  CheckoutCustomer,
+  Product,
+  PublicQuote,
+  Quote,
+  QuoteItem,
+  QuoteSettings,
+  QuoteStatus,
+} from '@/types';
+
+// Longer than order codes: the public link shows the quoted prices
+const QUOTE_CODE_LENGTH = 8;
+
+export const QUOTE_PRICE_LABEL = 'Sob consulta';
+
+export type QuoteSettingsInput = Omit<QuoteSettings, 'user_id' | 'created_at' | 'updated_at'>;
+
+/**
+ * Status shown to people; answered quotes past their validity are expired
+ */
+export type QuoteDisplayStatus = QuoteStatus | 'expirado';
+
+export const QUOTE_STATUS_LABELS: Record<QuoteDisplayStatus, string> = {
+  pendente: 'Aguardando resposta',
+  respondido: 'Respondido',
+  aceito: 'Aceito',
+  recusado: 'Recusado',
+  expirado: 'Expirado',
+};
+
+export const QUOTE_STATUS_COLORS: Record<QuoteDisplayStatus, string> = {
+  pendente: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  respondido: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  aceito: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  recusado: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  expirado: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
+};
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 7;
+
+export interface CreateQuoteParams {
+  quoteId: string;
+  code: string;
+  sellerId: string;
+  items: CartItem[];
+  distributions: CartDistribution[];
+  customer?: CheckoutCustomer;
+  currency?: string;
+  language?: string;
+}
+
+export interface QuoteAnswer {
+  /** Unit price of each quote line, by line id */
+  prices: Record<string, number>;
+  validUntil: string;
+  sellerNotes?: string;
+}
+
+/**
+ * Check whether a product is sold by quote, by itself or because of the store
+ */
+export function isQuoteProduct(
+  product: Pick<Product, 'quote_only'>,
+  settings: Pick<QuoteSettings, 'is_enabled'> | null | undefined
+): boolean {
+  return !!settings?.is_enabled || !!product.quote_only;
+}
+
+/**
+ * Mark the products of a store in quote mode as sold by quote
+ */
+export function applyQuoteSettings<T extends Pick<Product, 'quote_only'>>(
+  products: T[],
+  settings: Pick<QuoteSettings, 'is_enabled'> | null | undefined
+): T[] {
+  if (!settings?.is_enabled) return products;
+  return products.map(product => ({ ...product, quote_only: true }));
+}
+
+/**
+ * A cart with any product sold by quote is sent as a quote request as a whole
+ */
+export function isQuoteCart(
+  items: CartItem[],
+  distributions: CartDistribution[],
+  settings: Pick<QuoteSettings, 'is_enabled'> | null | undefined
+): boolean {
+  return !!settings?.is_enabled ||
+    items.some(item => item.quote_only) ||
+    distributions.some(dist => dist.product.quote_only);
+}
+
+/**
+ * Generate a human readable quote code (e.g. ORC-7K2M9Q4P)
+ */
+export function generateQuoteCode(): string {
+  return `ORC-${generateShortCode(QUOTE_CODE_LENGTH)}`;
+}
+
+/**
+ * Generate the id and code for a quote before it is persisted, so the
+ * WhatsApp message can reference the code
+ */
+export function createPendingQuoteReference(): { quoteId: string; code: string } {
+  return { quoteId: uuidv4(), code: generateQuoteCode() };
+}
+
+/**
+ * Public page URL where the buyer follows and accepts a quote
+ */
+export function generateQuoteUrl(slug: string, code: string): string {
+  return `${getStorefrontBaseUrl()}/${slug}/orcamento/${code}`;
+}
+
+/**
+ * Today in the YYYY-MM-DD format of the `valid_until` column
+ */
+export function getTodayDateString(now: Date = new Date()): string {
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Default validity date of a new answer
+ */
+export function getDefaultValidUntil(days: number = DEFAULT_QUOTE_VALIDITY_DAYS, now: Date = new Date()): string {
+  const date = new Date(now);
+  date.setDate(date.getDate() + days);
+  return getTodayDateString(date);
+}
+
+/**
+ * Format a `valid_until` date as DD/MM/YYYY without timezone shifts
+ */
+export function formatQuoteDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+/**
+ * Check whether an answered quote is past its validity
+ */
+export function isQuoteExpired(quote: Pick<Quote, 'status' | 'valid_until'>, now: Date = new Date()): boolean {
+  return quote.status === 'respondido' && !!quote.valid_until && quote.valid_until < getTodayDateString(now);
+}
+
+/**
+ * Status of a quote including expiration
+ */
+export function getQuoteDisplayStatus(quote: Pick<Quote, 'status' | 'valid_until'>): QuoteDisplayStatus {
+  return isQuoteExpired(quote) ? 'expirado' : quote.status;
+}
+
+/**
+ * Customer data of a quote in the checkout form shape
+ */
+export function getQuoteCustomer(quote: PublicQuote): CheckoutCustomer {
+  return {
+    name: quote.customer_name || undefined,
+    phone: quote.customer_phone || undefined,
+    cpf: quote.customer_cpf || undefined,
+    address: quote.customer_address || undefined,
+    payment_method: quote.payment_method || undefined,
+    delivery_notes: quote.delivery_notes || undefined,
+  };
+}
+
+/**
+ * Build the quote line rows from the current cart state; prices are left
+ * for the seller
+ */
+export function buildQuoteItemsFromCart(
+  quoteId: string,
+  items: CartItem[],
+  distributions: CartDistribution[]
+): Omit<QuoteItem, 'id' | 'created_at'>[] {
+  const distributionRows = distributions.map((dist) => ({
+    quote_id: quoteId,
+    product_id: dist.product.id,
+    item_type: 'distribution' as const,
+    title: dist.product.title.trim(),
+    featured_image_url: dist.product.featured_image_url,
+    quantity: dist.distribution.total_quantity,
+    distribution_items: dist.items.map((item) => ({
+      color: item.color,
+      size: item.size,
+      quantity: item.quantity,
+    })),
+  }));
+
+  const itemRows = items.map((item) => ({
+    quote_id: quoteId,
+    product_id: item.id,
+    item_type: 'item' as const,
+    title: item.title.trim(),
+    featured_image_url: item.featured_image_url,
+    color: item.selectedColor,
+    size: item.selectedSize,
+    notes: item.notes?.trim() || undefined,
+    quantity: item.quantity,
+    distribution_items: [],
+  }));
+
+  return [...distributionRows, ...itemRows];
+}
+
+/**
+ * Generate the WhatsApp message of a quote request, without prices
+ */
+export function generateQuoteRequestMessage(
+  items: CartItem[],
+  distributions: CartDistribution[],
+  sellerName: string,
+  slug: string,
+  quoteCode: string,
+  language: SupportedLanguage = 'pt-BR',
+  customer?: CheckoutCustomer
+): string {
+  if (items.length === 0 && distributions.length === 0) return '';
+
+  const allLabels = {
+    'pt-BR': {
+      greeting: `Olá ${sellerName}, gostaria de solicitar um orçamento dos itens abaixo.`,
+      title: 'SOLICITAÇÃO DE ORÇAMENTO',
+      code: 'Código do orçamento',
+      link: 'Acompanhe o orçamento',
+      distribution: 'Distribuição de Variações',
+      color: 'Cor',
+      size: 'Tamanho',
+      quantity: 'Quantidade',
+      notes: 'Observação',
+      total: 'Total de peças',
+      footer: 'Aguardo os preços e condições.',
+    },
+    'en-US': {
+      greeting: `Hello ${sellerName}, I would like to request a quote for the items below.`,
+      title: 'QUOTE REQUEST',
+      code: 'Quote code',
+      link: 'Follow the quote',
+      distribution: 'Variant Distribution',
+      color: 'Color',
+      size: 'Size',
+      quantity: 'Quantity',
+      notes: 'Notes',
+      total: 'Total units',
+      footer: 'I await the prices and conditions.',
+    },
+    'es-ES': {
+      greeting: `Hola ${sellerName}, me gustaría solicitar un presupuesto de los artículos abajo.`,
+      title: 'SOLICITUD DE PRESUPUESTO',
+      code: 'Código del presupuesto',
+      link: 'Siga el presupuesto',
+      distribution: 'Distribución de Variaciones',
+      color: 'Color',
+      size: 'Tamaño',
+      quantity: 'Cantidad',
+      notes: 'Observación',
+      total: 'Total de piezas',
+      footer: 'Espero los precios y condiciones.',
+    },
+  };
+  const labels = allLabels[language] || allLabels['pt-BR'];
+
+  let message = `${labels.greeting}\n\n`;
+  message += `*${labels.title}*\n`;
+  message += `${labels.code}: *${quoteCode}*\n`;
+  if (slug) {
+    message += `${labels.link}: ${generateQuoteUrl(slug, quoteCode)}\n`;
+  }
+  message += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+  let itemNumber = 1;
+
+  distributions.forEach((dist) => {
+    message += `${itemNumber}. *${dist.product.title.trim()}*\n`;
+    message += `   📦 ${labels.distribution}\n`;
+    message += `   ${labels.quantity}: ${dist.distribution.total_quantity}\n`;
+    dist.items.forEach((item) => {
+      message += `   • ${item.quantity}x ${formatVariantLabel(item, ' • ') || 'Padrão'}\n`;
+    });
+    message += `\n`;
+    itemNumber++;
+  });
+
+  items.forEach((item) => {
+    message += `${itemNumber}. *${item.title.trim()}*\n`;
+    if (item.selectedColor) message += `   ${labels.color}: ${item.selectedColor}\n`;
+    if (item.selectedSize) message += `   ${labels.size}: ${item.selectedSize}\n`;
+    message += `   ${labels.quantity}: ${item.quantity}\n`;
+    if (item.notes?.trim()) message += `   ${labels.notes}: ${item.notes.trim()}\n`;
+    message += `\n`;
+    itemNumber++;
+  });
+
+  const itemCount =
+    items.reduce((sum, item) => sum + item.quantity, 0) +
+    distributions.reduce((sum, dist) => sum + dist.distribution.total_quantity, 0);
+
+  message += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+  message += `*${labels.total}: ${itemCount}*\n\n`;
+
+  const customerBlock = formatCustomerBlock(customer, language);
+  if (customerBlock) {
+    message += `${customerBlock}\n`;
+  }
+
+  message += labels.footer;
+
+  return message;
+}
+
+/**
+ * Message the seller sends to the buyer with the answered quote
+ */
+export function generateQuoteAnswerMessage(quote: Quote, sellerName: string, quoteUrl: string): string {
+  const greeting = quote.customer_name ? `Olá ${quote.customer_name.split(' ')[0]}!` : 'Olá!';
+  const validity = quote.valid_until ? ` Ele é válido até ${formatQuoteDate(quote.valid_until)}.` : '';
+
+  return [
+    `${greeting} Aqui é da ${sellerName}.`,
+    '',
+    `Seu orçamento *${quote.code}* está pronto.${validity}`,
+    '',
+    `Veja os preços e aceite por aqui: ${quoteUrl}`,
+  ].join('\n');
+}
+
+/**
+ * Rebuild the cart lines of an answered quote with the quoted prices
+ */
+export function buildCartFromQuote(quote: PublicQuote, sellerId: string): { items: CartItem[]; distributions: CartDistribution[] } {
+  const lines = quote.items || [];
+
+  const items = lines
+    .filter(line => line.item_type === 'item')
+    .map((line): CartItem => ({
+      id: line.product_id || line.id,
+      variantId: line.id,
+      title: line.title,
+      price: line.unit_price || 0,
+      quantity: line.quantity,
+      featured_image_url: line.featured_image_url,
+      notes: line.notes,
+      selectedColor: line.color,
+      selectedSize: line.size,
+    }));
+
+  const distributions = lines
+    .filter(line => line.item_type === 'distribution')
+    .map((line): CartDistribution => ({
+      product: {
+        id: line.product_id || line.id,
+        user_id: sellerId,
+        title: line.title,
+        description: '',
+        price: line.unit_price || 0,
+        status: 'disponivel',
+        category: [],
+        condition: 'novo',
+        featured_image_url: line.featured_image_url,
+        created_at: quote.created_at,
+      },
+      distribution: {
+        id: line.id,
+        user_id: sellerId,
+        product_id: line.product_id || line.id,
+        total_quantity: line.quantity,
+        applied_tier_price: line.unit_price || 0,
+      },
+      items: (line.distribution_items || []).map((item, index) => ({
+        id: `${line.id}-${index}`,
+        distribution_id: line.id,
+        color: item.color,
+        size: item.size,
+        quantity: item.quantity,
+      })),
+    }));
+
+  return { items, distributions };
+}
+
+/**
+ * Persist a storefront cart submission as a quote request. The quote and its
+ * lines are inserted by a single function so a failure never leaves a partial quote.
+ */
+export async function createQuoteFromCart(params: CreateQuoteParams): Promise<boolean> {
+  try {
+    const quoteItems = buildQuoteItemsFromCart(params.quoteId, params.items, params.distributions);
+    const itemCount = quoteItems.reduce((sum, item) => sum + item.quantity, 0);
+
+    const { data, error } = await supabase.rpc('create_storefront_quote', {
+      p_quote: {
+        id: params.quoteId,
+        user_id: params.sellerId,
+        code: params.code,
+        viewer_id: getViewerId(),
+        customer_name: params.customer?.name || null,
+        customer_phone: params.customer?.phone || null,
+        customer_cpf: params.customer?.cpf || null,
+        customer_address: params.customer?.address || null,
+        payment_method: params.customer?.payment_method || null,
+        delivery_notes: params.customer?.delivery_notes || null,
+        item_count: itemCount,
+        currency: params.currency,
+        language: params.language,
+      },
+      p_items: quoteItems,
+    });
+
+    if (error) throw error;
+
+    return data === true;
+  } catch (error) {
+    console.error('Error creating quote:', error);
+    return false;
+  }
+}
+
+/**
+ * Fetch the quote settings of a store
+ */
+export async function fetchQuoteSettings(userId: string): Promise<QuoteSettings | null> {
+  try {
+    const { data, error } = await supabase
+      .from('quote_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Quote settings table not found. Please apply database migrations.');
+        return null;
+      }
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error fetching quote settings:', error);
+    return null;
+  }
+}
+
+/**
+ * Create or update the quote settings of a store
+ */
+export async function saveQuoteSettings(
+  userId: string,
+  settings: QuoteSettingsInput
+): Promise<QuoteSettings> {
+  const { data, error } = await supabase
+    .from('quote_settings')
+    .upsert({
+      ...settings,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving quote settings:', error);
+    throw new Error('Failed to save quote settings');
+  }
+
+  return data;
+}
+
+/**
+ * Fetch the quotes of a seller, newest first
+ */
+export async function fetchUserQuotes(userId: string, status?: QuoteStatus): Promise<Quote[]> {
+  try {
+    let query = supabase
+      .from('quotes')
+      .select('*, items:quote_items(*)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Quotes table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizeQuote);
+  } catch (error) {
+    console.error('Error fetching quotes:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch a quote for the public acceptance page, without the customer contact
+ * and address
+ */
+export async function fetchPublicQuote(slug: string, code: string): Promise<PublicQuote | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_public_quote', {
+      p_slug: slug,
+      p_code: code,
+    });
+
+    if (error) throw error;
+
+    return data ? normalizeQuote(data) : null;
+  } catch (error) {
+    console.error('Error fetching public quote:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the seller prices of every line and mark the quote as answered
+ */
+export async function answerQuote(quote: Quote, answer: QuoteAnswer): Promise<Quote> {
+  const lines = (quote.items || []).map(line => {
+    const unitPrice = Math.max(0, answer.prices[line.id] || 0);
+    return { ...line, unit_price: unitPrice, subtotal: unitPrice * line.quantity };
+  });
+
+  const results = await Promise.all(lines.map(line =>
+    supabase
+      .from('quote_items')
+      .update({ unit_price: line.unit_price, subtotal: line.subtotal })
+      .eq('id', line.id)
+  ));
+
+  const itemsError = results.find(result => result.error)?.error;
+  if (itemsError) {
+    console.error('Error saving quote prices:', itemsError);
+    throw new Error('Failed to answer quote');
+  }
+
+  const now = new Date().toISOString();
+  const changes = {
+    status: 'respondido' as const,
+    total: lines.reduce((sum, line) => sum + line.subtotal, 0),
+    valid_until: answer.validUntil,
+    seller_notes: answer.sellerNotes?.trim() || null,
+    answered_at: now,
+    updated_at: now,
+  };
+
+  const { error } = await supabase
+    .from('quotes')
+    .update(changes)
+    .eq('id', quote.id);
+
+  if (error) {
+    console.error('Error answering quote:', error);
+    throw new Error('Failed to answer quote');
+  }
+
+  return { ...quote, ...changes, items: lines };
+}
+
+/**
+ * Decline a quote; the buyer sees it as declined on the public page
+ */
+export async function declineQuote(quoteId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('quotes')
+      .update({ status: 'recusado', updated_at: new Date().toISOString() })
+      .eq('id', quoteId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error declining quote:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a quote and its lines
+ */
+export async function deleteQuote(quoteId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('quotes')
+      .delete()
+      .eq('id', quoteId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting quote:', error);
+    return false;
+  }
+}
+
+/**
+ * Accept an answered quote: the quoted lines become an order and the order
+ * message is returned for the WhatsApp redirect. The order is created by
+ * `accept_quote` together with the status change, from the stored quote.
+ * Returns null when the quote could not be accepted
+ */
+export async function acceptQuote(
+  quote: PublicQuote,
+  seller: { id: string; name: string; slug: string },
+  options: Pick<CartOrderMessageOptions, 'template' | 'distributionTemplate'> = {}
+): Promise<string | null> {
+  if (quote.status !== 'respondido' || isQuoteExpired(quote)) return null;
+
+  const { items, distributions } = buildCartFromQuote(quote, seller.id);
+  const code = generateOrderCode();
+  const total = quote.total || 0;
+  const customer = getQuoteCustomer(quote);
+  const currency = (quote.currency || 'BRL') as SupportedCurrency;
+  const language = (quote.language || 'pt-BR') as SupportedLanguage;
+
+  const message = generateCartOrderMessage(
+    items,
+    total,
+    seller.name,
+    seller.slug,
+    currency,
+    language,
+    distributions,
+    {
+      orderCode: code,
+      subtotal: total,
+      customer,
+      template: options.template,
+      distributionTemplate: options.distributionTemplate,
+    }
+  );
+
+  try {
+    const { data, error } = await supabase.rpc('accept_quote', {
+      p_slug: seller.slug,
+      p_code: quote.code,
+      p_order_code: code,
+      p_message: message,
+    });
+
+    if (error) throw error;
+
+    return data ? message : null;
+  } catch (error) {
+    console.error('Error accepting quote:', error);
+    return null;
+  }
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizeQuote<T extends PublicQuote>(quote: T): T {
+  return {
+    ...quote,
+    total: quote.total != null ? Number(quote.total) : null,
+    items: [...(quote.items || [])]
+      .sort((a, b) => new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime())
+      .map((item) => ({
+        ...item,
+        unit_price: item.unit_price != null ? Number(item.unit_price) : null,
+        subtotal: item.subtotal != null ? Number(item.subtotal) : null,
+      })),
+  };
+}
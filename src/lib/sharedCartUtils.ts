@@ -0,0 +1,311 @@
+import { supabase } from './supabase';
+import { formatCurrency } from './utils';
+import { getStorefrontBaseUrl } from './cartUtils';
+import { generateShortCode } from './orderUtils';
+import { buildVariantStockMap, getAvailableStock } from './inventoryUtils';
+import { calculateApplicablePrice } from './tieredPricingUtils';
+import { getVariantPricing } from './variantUtils';
+import type {
+  CartItem,
+  CartDistribution,
+  KitComponent,
+  Product,
+  SharedCart,
+  SharedCartItem,
+  SharedCartDistribution,
+} from '@/types';
+
+const SHARED_CART_CODE_LENGTH = 8;
+const MAX_CODE_ATTEMPTS = 3;
+
+export type SharedCartChangeType = 'unavailable' | 'price' | 'stock';
+
+/**
+ * Something that changed since the cart was shared
+ */
+export interface SharedCartChange {
+  type: SharedCartChangeType;
+  title: string;
+  message: string;
+}
+
+/**
+ * A shared cart line checked against the current product
+ */
+export interface SharedCartReviewItem {
+  product: Product;
+  color?: string;
+  size?: string;
+  quantity: number;
+  notes?: string;
+  unitPrice: number;
+  appliedTierPrice?: number;
+  kitComponents?: KitComponent[];
+}
+
+export interface SharedCartReviewDistribution {
+  product: Product;
+  totalQuantity: number;
+  unitPrice: number;
+  items: Array<{ color?: string; size?: string; quantity: number }>;
+}
+
+/**
+ * A shared cart rebuilt with current prices and availability
+ */
+export interface SharedCartReview {
+  items: SharedCartReviewItem[];
+  distributions: SharedCartReviewDistribution[];
+  changes: SharedCartChange[];
+}
+
+/**
+ * Public link of a shared cart
+ */
+export function generateSharedCartUrl(slug: string, code: string): string {
+  return `${getStorefrontBaseUrl()}/${slug}/carrinho/${code}`;
+}
+
+/**
+ * Snapshot the cart lines that are stored in a shared cart
+ */
+export function buildSharedCartSnapshot(
+  items: CartItem[],
+  distributions: CartDistribution[]
+): Pick<SharedCart, 'items' | 'distributions'> {
+  return {
+    items: items.map((item): SharedCartItem => ({
+      product_id: item.id,
+      title: item.title,
+      color: item.selectedColor,
+      size: item.selectedSize,
+      quantity: item.quantity,
+      notes: item.notes || undefined,
+      unit_price: item.applied_tier_price || item.discounted_price || item.price,
+      kit_components: item.kit_components,
+    })),
+    distributions: distributions.map((dist): SharedCartDistribution => ({
+      product_id: dist.product.id,
+      title: dist.product.title,
+      total_quantity: dist.distribution.total_quantity,
+      unit_price: dist.distribution.applied_tier_price,
+      items: dist.items.map(item => ({
+        color: item.color,
+        size: item.size,
+        quantity: item.quantity,
+      })),
+    })),
+  };
+}
+
+/**
+ * Store a snapshot of the cart and return its code
+ */
+export async function createSharedCart(
+  sellerId: string,
+  items: CartItem[],
+  distributions: CartDistribution[]
+): Promise<string | null> {
+  return createSharedCartFromSnapshot(sellerId, buildSharedCartSnapshot(items, distributions));
+}
+
+/**
+ * Store an existing cart snapshot (e.g. an abandoned cart) and return its code
+ */
+export async function createSharedCartFromSnapshot(
+  sellerId: string,
+  snapshot: Pick<SharedCart, 'items' | 'distributions'>
+): Promise<string | null> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    // Visitors cannot read shared carts back, so the code is generated here
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const code = generateShortCode(SHARED_CART_CODE_LENGTH);
+
+      const { error } = await supabase
+        .from('shared_carts')
+        .insert({
+          user_id: sellerId,
+          code,
+          items: snapshot.items,
+          distributions: snapshot.distributions,
+          created_by: session?.user.id ?? null,
+        });
+
+      if (!error) return code;
+      if (error.code !== '23505') throw error;
+    }
+
+    throw new Error('Could not generate a unique shared cart code');
+  } catch (error) {
+    console.error('Error creating shared cart:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch a shared cart by store slug and code
+ */
+export async function fetchSharedCart(slug: string, code: string): Promise<SharedCart | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_shared_cart', {
+      p_slug: slug,
+      p_code: code,
+    });
+
+    if (error) throw error;
+
+    return data
+      ? { ...data, items: data.items || [], distributions: data.distributions || [] }
+      : null;
+  } catch (error) {
+    console.error('Error fetching shared cart:', error);
+    return null;
+  }
+}
+
+const isSamePrice = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+const getVariantLabel = (title: string, color?: string, size?: string) => {
+  const variantText = [color, size].filter(Boolean).join(', ');
+  return `${title}${variantText ? ` (${variantText})` : ''}`;
+};
+
+/**
+ * Rebuild a shared cart with the current products, dropping what is no longer
+ * available and flagging price and stock changes
+ */
+export async function reviewSharedCart(sharedCart: SharedCart): Promise<SharedCartReview> {
+  const productIds = Array.from(new Set([
+    ...sharedCart.items.map(item => item.product_id),
+    ...sharedCart.distributions.map(dist => dist.product_id),
+  ]));
+
+  const review: SharedCartReview = { items: [], distributions: [], changes: [] };
+  if (productIds.length === 0) return review;
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('*, price_tiers:product_price_tiers(*), variant_stock:product_variant_stock(color, size, quantity), variants:product_variants(*)')
+    .in('id', productIds);
+
+  if (error) {
+    console.error('Error loading shared cart products:', error);
+    throw new Error('Failed to load shared cart products');
+  }
+
+  const products = new Map<string, Product>((data || []).map((product: Product) => [product.id, product]));
+
+  const isAvailable = (product?: Product): product is Product =>
+    !!product && product.status === 'disponivel' && product.is_visible_on_storefront !== false;
+
+  const getCurrentUnitPrice = (product: Product, quantity: number, color?: string, size?: string) => {
+    if (product.has_tiered_pricing && product.price_tiers && product.price_tiers.length > 0) {
+      return calculateApplicablePrice(quantity, product.price_tiers, product.price || 0, product.discounted_price).unitPrice;
+    }
+    const pricing = getVariantPricing(product, color, size);
+    return pricing.discounted_price || pricing.price || 0;
+  };
+
+  const getStock = (product: Product, color?: string, size?: string) =>
+    product.track_inventory
+      ? getAvailableStock(buildVariantStockMap(product.variant_stock || []), color, size)
+      : null;
+
+  sharedCart.items.forEach(item => {
+    const product = products.get(item.product_id);
+    const label = getVariantLabel(item.title, item.color, item.size);
+
+    const variantRemoved = isAvailable(product) && (
+      (item.color && !(product.colors || []).includes(item.color)) ||
+      (item.size && !(product.sizes || []).includes(item.size))
+    );
+
+    if (!isAvailable(product) || variantRemoved) {
+      review.changes.push({ type: 'unavailable', title: label, message: 'Não está mais disponível e foi removido' });
+      return;
+    }
+
+    let quantity = item.quantity;
+    const available = getStock(product, item.color, item.size);
+    if (available !== null && available < quantity) {
+      if (available === 0) {
+        review.changes.push({ type: 'stock', title: label, message: 'Esgotado e foi removido' });
+        return;
+      }
+      review.changes.push({
+        type: 'stock',
+        title: label,
+        message: `Quantidade ajustada de ${quantity} para ${available} (estoque disponível)`,
+      });
+      quantity = available;
+    }
+
+    // Tiered prices depend on the quantity of every variant of the product
+    const productQuantity = sharedCart.items
+      .filter(other => other.product_id === item.product_id)
+      .reduce((sum, other) => sum + other.quantity, 0);
+    const unitPrice = getCurrentUnitPrice(product, productQuantity, item.color, item.size);
+
+    if (!isSamePrice(unitPrice, item.unit_price)) {
+      review.changes.push({
+        type: 'price',
+        title: label,
+        message: `Preço alterado de ${formatCurrency(item.unit_price)} para ${formatCurrency(unitPrice)}`,
+      });
+    }
+
+    review.items.push({
+      product,
+      color: item.color,
+      size: item.size,
+      quantity,
+      notes: item.notes,
+      unitPrice,
+      appliedTierPrice: product.has_tiered_pricing ? unitPrice : undefined,
+      kitComponents: item.kit_components,
+    });
+  });
+
+  sharedCart.distributions.forEach(dist => {
+    const product = products.get(dist.product_id);
+
+    if (!isAvailable(product)) {
+      review.changes.push({ type: 'unavailable', title: dist.title, message: 'Não está mais disponível e foi removido' });
+      return;
+    }
+
+    const outOfStock = dist.items.find(item => {
+      const available = getStock(product, item.color, item.size);
+      return available !== null && available < item.quantity;
+    });
+
+    if (outOfStock) {
+      review.changes.push({
+        type: 'stock',
+        title: getVariantLabel(dist.title, outOfStock.color, outOfStock.size),
+        message: 'Estoque insuficiente para a distribuição, que foi removida',
+      });
+      return;
+    }
+
+    const unitPrice = getCurrentUnitPrice(product, dist.total_quantity);
+    if (!isSamePrice(unitPrice, dist.unit_price)) {
+      review.changes.push({
+        type: 'price',
+        title: dist.title,
+        message: `Preço alterado de ${formatCurrency(dist.unit_price)} para ${formatCurrency(unitPrice)}`,
+      });
+    }
+
+    review.distributions.push({
+      product,
+      totalQuantity: dist.total_quantity,
+      unitPrice,
+      items: dist.items,
+    });
+  });
+
+  return review;
+}
@@ -0,0 +1,270 @@
+import { supabase } from './supabase';
+import type { ShippingOption, ShippingRule, ShippingRuleMatchType, ShippingSettings } from '@/types';
+
+export interface ShippingConfig {
+  settings: ShippingSettings | null;
+  rules: ShippingRule[];
+}
+
+export type ShippingRuleInput = Omit<ShippingRule, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+export type ShippingSettingsInput = Omit<ShippingSettings, 'user_id' | 'created_at' | 'updated_at'>;
+
+export const LOCAL_PICKUP_OPTION_ID = 'pickup';
+
+export const SHIPPING_MATCH_TYPE_LABELS: Record<ShippingRuleMatchType, string> = {
+  prefix: 'Início do CEP',
+  range: 'Faixa de CEP',
+};
+
+/**
+ * Keep only the digits of a CEP
+ */
+export function normalizeCep(cep: string): string {
+  return (cep || '').replace(/\D/g, '').slice(0, 8);
+}
+
+/**
+ * Check whether a CEP has the 8 required digits
+ */
+export function isValidCep(cep: string): boolean {
+  return normalizeCep(cep).length === 8;
+}
+
+/**
+ * Format a CEP as 00000-000
+ */
+export function formatCep(cep: string): string {
+  const digits = normalizeCep(cep);
+  return digits.length > 5 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : digits;
+}
+
+/**
+ * Check whether a shipping rule covers a CEP
+ */
+export function doesRuleMatchCep(rule: ShippingRule, cep: string): boolean {
+  const digits = normalizeCep(cep);
+  if (digits.length !== 8) return false;
+
+  if (rule.match_type === 'prefix') {
+    return !!rule.cep_prefix && digits.startsWith(rule.cep_prefix);
+  }
+
+  // Fixed-length numeric strings compare correctly as text
+  return !!rule.cep_start && !!rule.cep_end && digits >= rule.cep_start && digits <= rule.cep_end;
+}
+
+/**
+ * Human readable CEP coverage of a rule (e.g. "01000-000 a 05999-999")
+ */
+export function formatShippingRuleCoverage(rule: ShippingRule): string {
+  if (rule.match_type === 'prefix') return `${rule.cep_prefix || ''}*`;
+  return `${formatCep(rule.cep_start || '')} a ${formatCep(rule.cep_end || '')}`;
+}
+
+/**
+ * Human readable delivery time (e.g. "2 a 5 dias úteis")
+ */
+export function formatDeliveryTime(min?: number | null, max?: number | null): string {
+  if (min != null && max != null && min !== max) return `${min} a ${max} dias úteis`;
+
+  const days = max ?? min;
+  if (days == null) return '';
+  if (days === 0) return 'Entrega no mesmo dia';
+
+  const prefix = max != null && min == null ? 'até ' : '';
+  return `${prefix}${days} ${days === 1 ? 'dia útil' : 'dias úteis'}`;
+}
+
+/**
+ * Secondary line shown under a shipping option (delivery time or pickup address)
+ */
+export function getShippingOptionDetails(option: ShippingOption): string {
+  if (option.type === 'pickup') return option.description || '';
+  return formatDeliveryTime(option.deliveryDaysMin, option.deliveryDaysMax);
+}
+
+/**
+ * Shipping options available for a CEP. Delivery options become free when the
+ * order value reaches the free shipping threshold.
+ */
+export function calculateShippingOptions(
+  cep: string,
+  rules: ShippingRule[],
+  settings: ShippingSettings | null,
+  orderValue: number
+): ShippingOption[] {
+  const qualifiesForFreeShipping = settings?.free_shipping_threshold != null &&
+    orderValue >= settings.free_shipping_threshold;
+
+  const deliveryOptions: ShippingOption[] = rules
+    .filter(rule => rule.is_active && doesRuleMatchCep(rule, cep))
+    .map(rule => ({
+      id: rule.id,
+      type: 'delivery' as const,
+      label: rule.name,
+      price: qualifiesForFreeShipping ? 0 : rule.price,
+      isFree: qualifiesForFreeShipping || rule.price === 0,
+      deliveryDaysMin: rule.delivery_days_min,
+      deliveryDaysMax: rule.delivery_days_max,
+    }))
+    .sort((a, b) => a.price - b.price);
+
+  if (settings?.local_pickup_enabled) {
+    deliveryOptions.push({
+      id: LOCAL_PICKUP_OPTION_ID,
+      type: 'pickup',
+      label: 'Retirar no local',
+      price: 0,
+      isFree: true,
+      description: settings.local_pickup_address,
+    });
+  }
+
+  return deliveryOptions;
+}
+
+/**
+ * Fetch the shipping settings and rules of a seller
+ */
+export async function fetchShippingConfig(userId: string): Promise<ShippingConfig> {
+  try {
+    const [{ data: settings, error: settingsError }, { data: rules, error: rulesError }] = await Promise.all([
+      supabase
+        .from('shipping_settings')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      supabase
+        .from('shipping_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .order('display_order')
+        .order('created_at'),
+    ]);
+
+    const error = settingsError || rulesError;
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Shipping tables not found. Please apply database migrations.');
+        return { settings: null, rules: [] };
+      }
+      throw error;
+    }
+
+    return {
+      settings: settings ? normalizeShippingSettings(settings) : null,
+      rules: (rules || []).map(normalizeShippingRule),
+    };
+  } catch (error) {
+    console.error('Error fetching shipping config:', error);
+    return { settings: null, rules: [] };
+  }
+}
+
+/**
+ * Create or update the shipping settings of a seller
+ */
+export async function saveShippingSettings(
+  userId: string,
+  settings: ShippingSettingsInput
+): Promise<ShippingSettings> {
+  const { data, error } = await supabase
+    .from('shipping_settings')
+    .upsert({
+      ...settings,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving shipping settings:', error);
+    throw new Error('Failed to save shipping settings');
+  }
+
+  return normalizeShippingSettings(data);
+}
+
+/**
+ * Create or update a shipping rule
+ */
+export async function saveShippingRule(
+  userId: string,
+  rule: ShippingRuleInput,
+  ruleId?: string
+): Promise<ShippingRule> {
+  const payload = {
+    ...rule,
+    user_id: userId,
+    updated_at: new Date().toISOString(),
+  };
+
+  const query = ruleId
+    ? supabase.from('shipping_rules').update(payload).eq('id', ruleId).eq('user_id', userId)
+    : supabase.from('shipping_rules').insert(payload);
+
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    console.error('Error saving shipping rule:', error);
+    throw new Error('Failed to save shipping rule');
+  }
+
+  return normalizeShippingRule(data);
+}
+
+/**
+ * Enable or disable a shipping rule
+ */
+export async function setShippingRuleActive(ruleId: string, isActive: boolean): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('shipping_rules')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', ruleId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error updating shipping rule:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a shipping rule
+ */
+export async function deleteShippingRule(ruleId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('shipping_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting shipping rule:', error);
+    return false;
+  }
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizeShippingRule(rule: ShippingRule): ShippingRule {
+  return {
+    ...rule,
+    price: Number(rule.price) || 0,
+  };
+}
+
+function normalizeShippingSettings(settings: ShippingSettings): ShippingSettings {
+  return {
+    ...settings,
+    free_shipping_threshold: settings.free_shipping_threshold != null
+      ? Number(settings.free_shipping_threshold)
+      : null,
+  };
+}
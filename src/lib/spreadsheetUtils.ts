@@ -0,0 +1,391 @@
+export type SpreadsheetCell = string | number | null | undefined;
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Read the first sheet of a CSV or XLSX file. The first row is taken as the
+ * header and fully empty rows are dropped.
+ */
+export async function parseSpreadsheetFile(file: File): Promise<SpreadsheetData> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  let table: string[][];
+  if (extension === 'xlsx') {
+    table = await parseXlsx(await file.arrayBuffer());
+  } else if (extension === 'csv' || extension === 'txt') {
+    table = parseCsv(await file.text());
+  } else {
+    throw new Error('Formato de arquivo não suportado. Use CSV ou XLSX.');
+  }
+
+  const nonEmpty = table.filter(row => row.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    throw new Error('A planilha está vazia');
+  }
+
+  const [headerRow, ...rows] = nonEmpty;
+  const width = headerRow.length;
+
+  return {
+    headers: headerRow.map((header, index) => header.trim() || `Coluna ${index + 1}`),
+    rows: rows.map(row => Array.from({ length: width }, (_, index) => (row[index] ?? '').trim())),
+  };
+}
+
+/**
+ * Parse CSV text, detecting whether cells are separated by ";" (the Excel
+ * default in pt-BR) or ","
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Build CSV text with ";" separators, with a BOM so Excel opens accents correctly
+ */
+export function buildCsv(rows: SpreadsheetCell[][]): string {
+  const escapeCell = (value: SpreadsheetCell) => {
+    // Decimal comma, as Excel expects in pt-BR
+    const text = value == null ? '' : typeof value === 'number' ? String(value).replace('.', ',') : value;
+    return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return '\uFEFF' + rows.map(row => row.map(escapeCell).join(';')).join('\r\n');
+}
+
+/**
+ * Build an XLSX workbook with a single sheet
+ */
+export function buildXlsx(rows: SpreadsheetCell[][], sheetName = 'Planilha'): Blob {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      const reference = `${columnReference(columnIndex)}${rowIndex + 1}`;
+      if (value == null || value === '') return '';
+      if (typeof value === 'number') return `<c r="${reference}"><v>${value}</v></c>`;
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  const files: Record<string, string> = {
+    '[Content_Types].xml': `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+    '_rels/.rels': `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    'xl/workbook.xml': `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    'xl/worksheets/sheet1.xml': `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`,
+  };
+
+  return new Blob([buildZip(files)], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}
+
+/**
+ * Offer a file for download in the browser
+ */
+export function downloadBlob(fileName: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Offer a CSV file for download in the browser
+ */
+export function downloadCsv(fileName: string, rows: SpreadsheetCell[][]): void {
+  downloadBlob(fileName, new Blob([buildCsv(rows)], { type: 'text/csv;charset=utf-8' }));
+}
+
+// XLSX files are zip archives of XML parts; read only the parts needed for
+// the first sheet
+async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = readZipEntries(buffer);
+  const readPart = async (path: string) => {
+    const entry = entries.get(path);
+    return entry ? parseXml(await inflateEntry(buffer, entry)) : null;
+  };
+
+  const sharedStringsDoc = await readPart('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsDoc
+    ? getElements(sharedStringsDoc, 'si').map(si => getElements(si, 't').map(t => t.textContent || '').join(''))
+    : [];
+
+  const sheetDoc = await readPart(await resolveFirstSheetPath(readPart));
+  if (!sheetDoc) {
+    throw new Error('Não foi possível ler a planilha');
+  }
+
+  const rows: string[][] = [];
+  getElements(sheetDoc, 'row').forEach((rowElement, rowPosition) => {
+    const rowIndex = Number(rowElement.getAttribute('r') || rowPosition + 1) - 1;
+    const row: string[] = [];
+
+    getElements(rowElement, 'c').forEach((cellElement, cellPosition) => {
+      const reference = cellElement.getAttribute('r');
+      const columnIndex = reference ? columnIndexFromReference(reference) : cellPosition;
+      const type = cellElement.getAttribute('t');
+      const value = getElements(cellElement, 'v')[0]?.textContent || '';
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] || '';
+      } else if (type === 'inlineStr') {
+        text = getElements(cellElement, 't').map(t => t.textContent || '').join('');
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        text = value;
+      }
+
+      row[columnIndex] = text;
+    });
+
+    rows[rowIndex] = Array.from(row, cell => cell ?? '');
+  });
+
+  return Array.from(rows, row => row ?? []);
+}
+
+async function resolveFirstSheetPath(readPart: (path: string) => Promise<Document | null>): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbook = await readPart('xl/workbook.xml');
+  const relationships = await readPart('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook ? getElements(workbook, 'sheet')[0] : undefined;
+  if (!firstSheet || !relationships) return fallback;
+
+  const relationshipId = Array.from(firstSheet.attributes).find(attribute => attribute.localName === 'id')?.value;
+  const target = getElements(relationships, 'Relationship')
+    .find(relationship => relationship.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target');
+  if (!target) return fallback;
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(buffer: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  // The end of central directory record sits at the end, before an optional comment
+  let endOffset = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Arquivo XLSX inválido');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function inflateEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(buffer);
+  const nameLength = view.getUint16(entry.localHeaderOffset + 26, true);
+  const extraLength = view.getUint16(entry.localHeaderOffset + 28, true);
+  const dataOffset = entry.localHeaderOffset + 30 + nameLength + extraLength;
+  const data = new Uint8Array(buffer, dataOffset, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+function getElements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+// "AB12" -> 27
+function columnIndexFromReference(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function columnReference(index: number): string {
+  let reference = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    reference = String.fromCharCode(65 + ((n - 1) % 26)) + reference;
+  }
+  return reference;
+}
+
+function escapeXml(value: string): string {
+  // Control characters other than tab and line breaks are not allowed in XML 1.0
+  const allowed = Array.from(value)
+    .filter(char => char.charCodeAt(0) >= 32 || char === '\t' || char === '\n' || char === '\r')
+    .join('');
+
+  return allowed
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Uncompressed zip archive, enough for the small XML parts of a workbook
+function buildZip(files: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, 0x0800, true); // UTF-8 names
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centralParts.length, true);
+  endView.setUint16(10, centralParts.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+
+  return zip;
+}
+
+let crcTable: number[] | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      return c >>> 0;
+    });
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,196 @@
+import { supabase } from './supabase';
+import type { CartDistribution, CartItem, TierGroup } from '@/types';
+
+export type TierGroupInput = Omit<TierGroup, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+// Cart items and products both identify the group members
+type TierGroupMember = Pick<CartItem, 'id' | 'category'>;
+
+export interface TierQuantity {
+  quantity: number;
+  group: TierGroup | null;
+}
+
+/**
+ * Check whether a product belongs to the group, by id or by category
+ */
+export function isProductInTierGroup(
+  group: TierGroup,
+  product: TierGroupMember
+): boolean {
+  return group.product_ids.includes(product.id) ||
+    (product.category || []).some(category => group.categories.includes(category));
+}
+
+/**
+ * Combined quantity of the group members in the cart, distributions included
+ */
+export function getTierGroupQuantity(
+  group: TierGroup,
+  items: CartItem[],
+  distributions: CartDistribution[]
+): number {
+  const itemsQuantity = items
+    .filter(item => isProductInTierGroup(group, item))
+    .reduce((sum, item) => sum + item.quantity, 0);
+
+  const distributionsQuantity = distributions
+    .filter(dist => isProductInTierGroup(group, dist.product))
+    .reduce((sum, dist) => sum + dist.distribution.total_quantity, 0);
+
+  return itemsQuantity + distributionsQuantity;
+}
+
+/**
+ * Quantity that decides the price tier of a cart line. Products in a tier
+ * group use the combined quantity of the group when it is larger than their own.
+ */
+export function getTierQuantity(
+  product: TierGroupMember,
+  ownQuantity: number,
+  groups: TierGroup[],
+  items: CartItem[],
+  distributions: CartDistribution[]
+): TierQuantity {
+  return groups
+    .filter(group => group.is_active && isProductInTierGroup(group, product))
+    .reduce<TierQuantity>((best, group) => {
+      const quantity = getTierGroupQuantity(group, items, distributions);
+      return quantity > best.quantity ? { quantity, group } : best;
+    }, { quantity: ownQuantity, group: null });
+}
+
+/**
+ * Fetch the active tier groups of the sellers of the given products (storefront cart)
+ */
+export async function fetchTierGroupsForProducts(productIds: string[]): Promise<TierGroup[]> {
+  if (productIds.length === 0) return [];
+
+  try {
+    const { data: products, error: productsError } = await supabase
+      .from('products')
+      .select('user_id')
+      .in('id', productIds);
+
+    if (productsError) throw productsError;
+
+    const userIds = Array.from(new Set((products || []).map(product => product.user_id)));
+    if (userIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('tier_groups')
+      .select('*')
+      .in('user_id', userIds)
+      .eq('is_active', true);
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Tier groups table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizeTierGroup);
+  } catch (error) {
+    console.error('Error fetching tier groups:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch all tier groups of a seller, by name
+ */
+export async function fetchUserTierGroups(userId: string): Promise<TierGroup[]> {
+  try {
+    const { data, error } = await supabase
+      .from('tier_groups')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Tier groups table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizeTierGroup);
+  } catch (error) {
+    console.error('Error fetching tier groups:', error);
+    return [];
+  }
+}
+
+/**
+ * Create or update a tier group
+ */
+export async function saveTierGroup(userId: string, group: TierGroupInput, groupId?: string): Promise<TierGroup> {
+  const payload = {
+    ...group,
+    name: group.name.trim(),
+    user_id: userId,
+    updated_at: new Date().toISOString(),
+  };
+
+  const query = groupId
+    ? supabase.from('tier_groups').update(payload).eq('id', groupId).eq('user_id', userId)
+    : supabase.from('tier_groups').insert(payload);
+
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    console.error('Error saving tier group:', error);
+    throw new Error('Failed to save tier group');
+  }
+
+  return normalizeTierGroup(data);
+}
+
+/**
+ * Enable or disable a tier group
+ */
+export async function setTierGroupActive(groupId: string, isActive: boolean): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('tier_groups')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', groupId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error updating tier group:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a tier group
+ */
+export async function deleteTierGroup(groupId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('tier_groups')
+      .delete()
+      .eq('id', groupId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting tier group:', error);
+    return false;
+  }
+}
+
+function normalizeTierGroup(group: TierGroup): TierGroup {
+  return {
+    ...group,
+    product_ids: group.product_ids || [],
+    categories: group.categories || [],
+  };
+}
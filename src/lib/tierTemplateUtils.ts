@@ -0,0 +1,175 @@
+import { supabase } from './supabase';
+import type { PriceTier, Product, TierTemplate, TierTemplatePricingType } from '@/types';
+
+export type TierTemplateInput = Omit<TierTemplate, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+export const TIER_TEMPLATE_PRICING_LABELS: Record<TierTemplatePricingType, string> = {
+  fixed: 'Preços fixos',
+  percentage: 'Desconto sobre o preço base',
+};
+
+/**
+ * Price tiers of a product built from a template. Percentage templates
+ * discount the base price of the product.
+ */
+export function buildTiersFromTemplate(
+  template: Pick<TierTemplate, 'pricing_type' | 'tiers'>,
+  basePrice: number = 0
+): PriceTier[] {
+  const steps = [...template.tiers].sort((a, b) => a.min_quantity - b.min_quantity);
+
+  return steps.map((step, index) => {
+    const nextStep = steps[index + 1];
+    const unitPrice = template.pricing_type === 'percentage'
+      ? basePrice * (1 - step.value / 100)
+      : step.value;
+
+    return {
+      min_quantity: step.min_quantity,
+      max_quantity: nextStep ? nextStep.min_quantity - 1 : null,
+      unit_price: Math.round(unitPrice * 100) / 100,
+      discounted_unit_price: null,
+    };
+  });
+}
+
+/**
+ * Base price used when a percentage template is applied to a product: its
+ * saved base price, its regular price or the price of its first tier
+ */
+export function getTierTemplateBasePrice(
+  product: Pick<Product, 'id' | 'price' | 'tier_base_price'>,
+  tiers: PriceTier[] = []
+): number {
+  if (product.tier_base_price) return product.tier_base_price;
+  if (product.price) return product.price;
+
+  const firstTier = tiers
+    .filter(tier => tier.product_id === product.id)
+    .sort((a, b) => a.min_quantity - b.min_quantity)[0];
+
+  return firstTier?.unit_price || 0;
+}
+
+/**
+ * Fetch all tier templates of a seller, by name
+ */
+export async function fetchTierTemplates(userId: string): Promise<TierTemplate[]> {
+  try {
+    const { data, error } = await supabase
+      .from('tier_templates')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Tier templates table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizeTierTemplate);
+  } catch (error) {
+    console.error('Error fetching tier templates:', error);
+    return [];
+  }
+}
+
+/**
+ * Create or update a tier template. Linked products are updated by the
+ * database when the steps change.
+ */
+export async function saveTierTemplate(
+  userId: string,
+  template: TierTemplateInput,
+  templateId?: string
+): Promise<TierTemplate> {
+  const payload = {
+    ...template,
+    name: template.name.trim(),
+    tiers: [...template.tiers].sort((a, b) => a.min_quantity - b.min_quantity),
+    user_id: userId,
+    updated_at: new Date().toISOString(),
+  };
+
+  const query = templateId
+    ? supabase.from('tier_templates').update(payload).eq('id', templateId).eq('user_id', userId)
+    : supabase.from('tier_templates').insert(payload);
+
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    console.error('Error saving tier template:', error);
+    throw new Error('Failed to save tier template');
+  }
+
+  return normalizeTierTemplate(data);
+}
+
+/**
+ * Delete a tier template. Linked products keep their current tiers.
+ */
+export async function deleteTierTemplate(templateId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('tier_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting tier template:', error);
+    return false;
+  }
+}
+
+/**
+ * Link products to a template and rewrite their tiers
+ */
+export async function applyTierTemplateToProducts(
+  userId: string,
+  templateId: string,
+  basePrices: Record<string, number>
+): Promise<void> {
+  const productIds = Object.keys(basePrices);
+  if (productIds.length === 0) return;
+
+  const results = await Promise.all(productIds.map(productId =>
+    supabase
+      .from('products')
+      .update({ tier_template_id: templateId, tier_base_price: basePrices[productId] || null })
+      .eq('id', productId)
+      .eq('user_id', userId)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) {
+    console.error('Error linking products to tier template:', failed.error);
+    throw new Error('Failed to apply tier template');
+  }
+
+  const { error } = await supabase.rpc('apply_tier_template', {
+    p_template_id: templateId,
+    p_product_ids: productIds,
+  });
+
+  if (error) {
+    console.error('Error applying tier template:', error);
+    throw new Error('Failed to apply tier template');
+  }
+}
+
+// Numeric values may come back as strings from the jsonb column
+function normalizeTierTemplate(template: TierTemplate): TierTemplate {
+  return {
+    ...template,
+    tiers: (template.tiers || []).map(step => ({
+      min_quantity: Number(step.min_quantity),
+      value: Number(step.value),
+    })),
+  };
+}
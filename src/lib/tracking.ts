@@ -4,6 +4,13 @@ import { v4 as uuidv4 } from 'uuid';
 // Dedicated UUID for storefront tracking to avoid UUID type mismatch
 export const STOREFRONT_UUID = '00000000-0000-0000-0000-000000000001';
 
+// Generate or get the anonymous ID of this browser
+export const getViewerId = () => {
+  const viewerId = localStorage.getItem('viewer_id') || uuidv4();
+  localStorage.setItem('viewer_id', viewerId);
+  return viewerId;
+};
+
 export const loadTrackingSettings = async (userIdOrSlug: string) => {
   // If it looks like a slug, get the user ID first
   let userId = userIdOrSlug;
@@ -101,9 +108,7 @@ export const trackGoogleEvent = (event: string, data?: any) => {
 
 export const trackView = async (itemId: string, type: 'product' = 'product') => {
   try {
-    // Generate or get viewer ID
-    const viewerId = localStorage.getItem('viewer_id') || uuidv4();
-    localStorage.setItem('viewer_id', viewerId);
+    const viewerId = getViewerId();
 
     // Get current date for unique daily views
     const viewDate = new Date().toISOString().split('T')[0]; // Format as YYYY-MM-DD
@@ -181,28 +186,35 @@ export const trackLead = async (data: {
   }
 };
 
-export const trackWhatsAppClick = async (itemId: string, itemType: 'product' = 'product', source: string = 'whatsapp') => {
+export const trackWhatsAppClick = async (
+  itemId: string,
+  itemType: 'product' = 'product',
+  source: string = 'whatsapp',
+  contact?: { name?: string; phone?: string; email?: string; message?: string },
+  attendantId?: string
+) => {
   try {
-    // Generate or get viewer ID
-    const viewerId = localStorage.getItem('viewer_id') || uuidv4();
-    localStorage.setItem('viewer_id', viewerId);
+    const viewerId = getViewerId();
 
     // Use STOREFRONT_UUID for general storefront tracking
     const propertyId = itemId === 'storefront' ? STOREFRONT_UUID : itemId;
 
-    console.log('Tracking WhatsApp click for:', { itemId, propertyId, itemType, source, viewerId });
+    console.log('Tracking WhatsApp click for:', { itemId, propertyId, itemType, source, viewerId, attendantId });
 
     const { data, error } = await supabase
       .from('leads')
       .insert({
         property_id: propertyId,
         listing_type: itemType,
-        name: 'WhatsApp Contact',
-        email: 'whatsapp@contact.com',
-        phone: '',
-        message: `WhatsApp click from ${source}`,
+        // Placeholder contact when the visitor did not fill the checkout form
+        name: contact?.name || 'WhatsApp Contact',
+        email: contact ? contact.email || '' : 'whatsapp@contact.com',
+        phone: contact?.phone || '',
+        message: contact?.message || `WhatsApp click from ${source}`,
         source: source,
-        status: 'new'
+        status: 'new',
+        // Only sent when the store routes contacts to attendants
+        ...(attendantId ? { attendant_id: attendantId } : {})
       })
       .select();
 
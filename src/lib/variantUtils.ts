@@ -0,0 +1,218 @@
+import { supabase } from './supabase';
+import { getVariantStockKey } from './inventoryUtils';
+import type { Product, ProductVariant } from '@/types';
+
+/**
+ * Price and SKU of a color×size combination
+ */
+export interface VariantPricing {
+  price: number;
+  discounted_price?: number;
+  sku?: string;
+}
+
+/**
+ * Fetch the variant overrides of a product
+ */
+export async function fetchProductVariants(productId: string): Promise<ProductVariant[]> {
+  try {
+    const { data, error } = await supabase
+      .from('product_variants')
+      .select('*')
+      .eq('product_id', productId);
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Product variants table not found. Please apply database migrations.');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data || []).map(normalizeVariant);
+  } catch (error) {
+    console.error('Error fetching product variants:', error);
+    return [];
+  }
+}
+
+/**
+ * Save the variants of a product: combinations with an override are upserted
+ * and the stored ones that no longer have any are deleted afterwards, so a
+ * failed save never loses the current overrides
+ */
+export async function saveProductVariants(productId: string, variants: ProductVariant[]): Promise<void> {
+  const duplicateSku = findDuplicateVariantSku(variants);
+  if (duplicateSku) {
+    throw new Error(`O SKU ${duplicateSku} está em mais de uma variação`);
+  }
+
+  const rows = variants.filter(hasVariantOverrides);
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('product_variants')
+      .upsert(rows.map(variant => ({
+        product_id: productId,
+        color: variant.color || '',
+        size: variant.size || '',
+        sku: variant.sku?.trim() || null,
+        barcode: variant.barcode?.trim() || null,
+        price: variant.price || null,
+        weight: variant.weight ?? null,
+        image_id: variant.image_id || null,
+        updated_at: new Date().toISOString(),
+      })), { onConflict: 'product_id,color,size' });
+
+    if (error) {
+      console.error('Error saving product variants:', error);
+      throw new Error(error.code === '23505'
+        ? 'Já existe outra variação com um destes SKUs'
+        : 'Erro ao salvar as variações do produto');
+    }
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('product_variants')
+    .select('id, color, size')
+    .eq('product_id', productId);
+
+  if (existingError) {
+    console.error('Error fetching product variants:', existingError);
+    throw new Error('Erro ao salvar as variações do produto');
+  }
+
+  const keptKeys = new Set(rows.map(variant => getVariantStockKey(variant.color, variant.size)));
+  const removedIds = (existing || [])
+    .filter(variant => !keptKeys.has(getVariantStockKey(variant.color, variant.size)))
+    .map(variant => variant.id);
+
+  if (removedIds.length === 0) return;
+
+  const { error: deleteError } = await supabase
+    .from('product_variants')
+    .delete()
+    .in('id', removedIds);
+
+  if (deleteError) {
+    console.error('Error removing product variants:', deleteError);
+    throw new Error('Erro ao salvar as variações do produto');
+  }
+}
+
+/**
+ * First SKU used by more than one combination, ignoring case and spaces
+ */
+export function findDuplicateVariantSku(variants: ProductVariant[]): string | null {
+  const seen = new Set<string>();
+
+  for (const variant of variants) {
+    const sku = variant.sku?.trim();
+    if (!sku) continue;
+
+    const key = sku.toUpperCase();
+    if (seen.has(key)) return sku;
+    seen.add(key);
+  }
+
+  return null;
+}
+
+/**
+ * Whether a variant overrides anything, rows without overrides are not stored
+ */
+export function hasVariantOverrides(variant: ProductVariant): boolean {
+  return Boolean(
+    variant.sku?.trim() ||
+    variant.barcode?.trim() ||
+    variant.price ||
+    variant.weight != null ||
+    variant.image_id
+  );
+}
+
+/**
+ * Build the full color×size matrix for the product form, keeping existing overrides
+ */
+export function buildProductVariantMatrix(
+  colors: string[] = [],
+  sizes: string[] = [],
+  existing: ProductVariant[] = []
+): ProductVariant[] {
+  const colorOptions = colors.length > 0 ? colors : [''];
+  const sizeOptions = sizes.length > 0 ? sizes : [''];
+
+  return colorOptions.flatMap(color =>
+    sizeOptions.map(size => findProductVariant(existing, color, size) || { color, size })
+  );
+}
+
+/**
+ * Overrides of a combination, if the product has any
+ */
+export function findProductVariant(
+  variants: ProductVariant[] | undefined,
+  color?: string,
+  size?: string
+): ProductVariant | undefined {
+  const key = getVariantStockKey(color, size);
+  const variant = variants?.find(entry => getVariantStockKey(entry.color, entry.size) === key);
+  return variant ? normalizeVariant(variant) : undefined;
+}
+
+/**
+ * Price and SKU of a combination. The variant price replaces the product
+ * price and keeps the discount of a promotional price; products with tiered
+ * pricing are priced by quantity, so only the SKU applies to them.
+ */
+export function getVariantPricing(
+  product: Pick<Product, 'price' | 'discounted_price' | 'has_tiered_pricing' | 'variants'>,
+  color?: string,
+  size?: string
+): VariantPricing {
+  const variant = findProductVariant(product.variants, color, size);
+  const sku = variant?.sku || undefined;
+
+  if (!variant?.price || product.has_tiered_pricing) {
+    return { price: product.price || 0, discounted_price: product.discounted_price, sku };
+  }
+
+  const discountRatio = product.discounted_price && product.price
+    ? product.discounted_price / product.price
+    : null;
+
+  return {
+    price: variant.price,
+    discounted_price: discountRatio ? Math.round(variant.price * discountRatio * 100) / 100 : undefined,
+    sku,
+  };
+}
+
+/**
+ * Photo of a combination. With only the color chosen, the first photo set
+ * for one of its sizes is used.
+ */
+export function getVariantImageUrl(
+  product: Pick<Product, 'variants' | 'product_images'>,
+  color?: string,
+  size?: string
+): string | undefined {
+  const exact = findProductVariant(product.variants, color, size);
+  const variant = exact?.image_id || !color || size
+    ? exact
+    : product.variants?.find(entry => entry.color === color && entry.image_id);
+
+  if (!variant?.image_id) return undefined;
+  return variant.image?.url || product.product_images?.find(image => image.id === variant.image_id)?.url;
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizeVariant(variant: ProductVariant): ProductVariant {
+  return {
+    ...variant,
+    color: variant.color || '',
+    size: variant.size || '',
+    price: variant.price != null ? Number(variant.price) : null,
+    weight: variant.weight != null ? Number(variant.weight) : null,
+  };
+}
@@ -0,0 +1,193 @@
+import { supabase } from './supabase';
+import { formatCurrency } from './utils';
+import type { CartItem, CartDistribution, Product, WholesaleSettings } from '@/types';
+
+/**
+ * Quantity rules of a product; 1 means no restriction
+ */
+export interface ProductQuantityRules {
+  minQuantity: number;
+  multiple: number;
+}
+
+/**
+ * A wholesale rule the cart does not meet yet
+ */
+export interface WholesaleViolation {
+  productId?: string;
+  message: string;
+}
+
+export type WholesaleSettingsInput = Omit<WholesaleSettings, 'user_id' | 'created_at' | 'updated_at'>;
+
+/**
+ * Read the quantity rules of a product or cart item
+ */
+export function getProductQuantityRules(
+  product: Pick<Product, 'min_quantity' | 'quantity_multiple'>
+): ProductQuantityRules {
+  return {
+    minQuantity: Math.max(1, product.min_quantity || 1),
+    multiple: Math.max(1, product.quantity_multiple || 1),
+  };
+}
+
+/**
+ * Check whether a product has any quantity restriction
+ */
+export function hasQuantityRules(rules: ProductQuantityRules): boolean {
+  return rules.minQuantity > 1 || rules.multiple > 1;
+}
+
+/**
+ * Short description of the quantity rules (e.g. "Mínimo 12 un. • Múltiplos de 6")
+ */
+export function formatQuantityRules(rules: ProductQuantityRules): string {
+  const parts: string[] = [];
+  if (rules.minQuantity > 1) parts.push(`Mínimo ${rules.minQuantity} un.`);
+  if (rules.multiple > 1) parts.push(`Múltiplos de ${rules.multiple}`);
+  return parts.join(' • ');
+}
+
+/**
+ * Total units of a product in the cart, across variants and distributions
+ */
+export function getProductCartQuantity(
+  productId: string,
+  items: CartItem[],
+  distributions: CartDistribution[]
+): number {
+  const itemsQuantity = items
+    .filter(item => item.id === productId)
+    .reduce((sum, item) => sum + item.quantity, 0);
+
+  const distributionsQuantity = distributions
+    .filter(dist => dist.product.id === productId)
+    .reduce((sum, dist) => sum + dist.distribution.total_quantity, 0);
+
+  return itemsQuantity + distributionsQuantity;
+}
+
+/**
+ * Explain why a product quantity breaks its rules, or null when it is valid
+ */
+export function getQuantityRuleMessage(
+  title: string,
+  quantity: number,
+  rules: ProductQuantityRules
+): string | null {
+  if (quantity < rules.minQuantity) {
+    return `${title}: pedido mínimo de ${rules.minQuantity} unidades (faltam ${rules.minQuantity - quantity})`;
+  }
+
+  const remainder = quantity % rules.multiple;
+  if (remainder !== 0) {
+    return `${title}: vendido em múltiplos de ${rules.multiple} unidades (adicione mais ${rules.multiple - remainder})`;
+  }
+
+  return null;
+}
+
+/**
+ * Every wholesale rule the cart does not meet. The order minimum is checked
+ * against the products subtotal, before coupons and shipping.
+ */
+export function validateWholesaleRules(
+  items: CartItem[],
+  distributions: CartDistribution[],
+  settings: WholesaleSettings | null,
+  subtotal: number
+): WholesaleViolation[] {
+  const violations: WholesaleViolation[] = [];
+  const products = new Map<string, { title: string; rules: ProductQuantityRules }>();
+
+  distributions.forEach(dist => {
+    products.set(dist.product.id, { title: dist.product.title, rules: getProductQuantityRules(dist.product) });
+  });
+  items.forEach(item => {
+    products.set(item.id, { title: item.title, rules: getProductQuantityRules(item) });
+  });
+
+  products.forEach(({ title, rules }, productId) => {
+    const message = getQuantityRuleMessage(title, getProductCartQuantity(productId, items, distributions), rules);
+    if (message) {
+      violations.push({ productId, message });
+    }
+  });
+
+  const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0) +
+    distributions.reduce((sum, dist) => sum + dist.distribution.total_quantity, 0);
+
+  if (settings?.min_order_quantity && totalQuantity < settings.min_order_quantity) {
+    violations.push({
+      message: `Pedido mínimo de ${settings.min_order_quantity} unidades (faltam ${settings.min_order_quantity - totalQuantity})`,
+    });
+  }
+
+  if (settings?.min_order_value && subtotal < settings.min_order_value) {
+    violations.push({
+      message: `Pedido mínimo de ${formatCurrency(settings.min_order_value)} (faltam ${formatCurrency(settings.min_order_value - subtotal)})`,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Fetch the wholesale settings of a seller
+ */
+export async function fetchWholesaleSettings(userId: string): Promise<WholesaleSettings | null> {
+  try {
+    const { data, error } = await supabase
+      .from('wholesale_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '42P01') {
+        console.warn('Wholesale settings table not found. Please apply database migrations.');
+        return null;
+      }
+      throw error;
+    }
+
+    return data ? normalizeWholesaleSettings(data) : null;
+  } catch (error) {
+    console.error('Error fetching wholesale settings:', error);
+    return null;
+  }
+}
+
+/**
+ * Create or update the wholesale settings of a seller
+ */
+export async function saveWholesaleSettings(
+  userId: string,
+  settings: WholesaleSettingsInput
+): Promise<WholesaleSettings> {
+  const { data, error } = await supabase
+    .from('wholesale_settings')
+    .upsert({
+      ...settings,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving wholesale settings:', error);
+    throw new Error('Failed to save wholesale settings');
+  }
+
+  return normalizeWholesaleSettings(data);
+}
+
+// Numeric columns come back as strings from PostgREST
+function normalizeWholesaleSettings(settings: WholesaleSettings): WholesaleSettings {
+  return {
+    ...settings,
+    min_order_value: settings.min_order_value != null ? Number(settings.min_order_value) : null,
+  };
+}
@@ -7,8 +7,10 @@ import { Card, CardContent } from '@/components/ui/card';
 import { useCorretorData } from '@/hooks/useCorretorData';
 import { useProductData } from '@/hooks/useProductData';
 import { useProductSearch } from '@/hooks/useProductSearch';
+import { useStorefrontPriceList } from '@/hooks/useStorefrontPriceList';
 import CorretorHeader from '@/components/corretor/CorretorHeader';
 import PromotionalBanner from '@/components/corretor/PromotionalBanner';
+import PriceListAccess from '@/components/corretor/PriceListAccess';
 import ProductSearch from '@/components/product/ProductSearch';
 import { ProductCard } from '@/components/product/ProductCard';
 import { groupProductsByCategory } from '@/utils/productDisplayUtils';
@@ -30,6 +32,17 @@ export default function CorretorPage() {
   
   const { t } = useTranslation(language);
 
+  // Price list unlocked by this visitor (wholesale, resellers...)
+  const {
+    available: priceListAvailable,
+    status: priceListStatus,
+    priceList,
+    loading: priceListLoading,
+    unlockWithCode,
+    requestAccess,
+    leavePriceList,
+  } = useStorefrontPriceList(corretor?.id);
+
   // Load product data with pagination
   const {
     allProducts,
@@ -38,9 +51,11 @@ export default function CorretorPage() {
     loading: productsLoading,
     error: productsError,
     sizeTypeMapping,
+    installmentSettings,
   } = useProductData({
     userId: corretor?.id || '',
-    language
+    language,
+    priceList
   });
 
   // Handle product search and filtering
@@ -71,7 +86,7 @@ export default function CorretorPage() {
   }, [corretor, language]);
 
   // Loading state
-  if (corretorLoading || productsLoading) {
+  if (corretorLoading || productsLoading || (corretor && priceListLoading)) {
     return (
       <div className="flex-1 flex items-center justify-center min-h-screen">
         <div className="text-center">
@@ -117,6 +132,16 @@ export default function CorretorPage() {
         currency={currency}
       />
 
+      {/* Price List Access */}
+      <PriceListAccess
+        available={priceListAvailable}
+        status={priceListStatus}
+        priceList={priceList}
+        onUnlockWithCode={unlockWithCode}
+        onRequestAccess={requestAccess}
+        onLeave={leavePriceList}
+      />
+
       {/* Promotional Banner */}
       {/* Product Search */}
       <div className="container mx-auto px-4 py-1">
@@ -193,6 +218,7 @@ export default function CorretorPage() {
                         corretorSlug={corretor.slug || ''}
                         currency={currency}
                         language={language}
+                        installmentSettings={installmentSettings}
                       />
                     ))}
                   </div>
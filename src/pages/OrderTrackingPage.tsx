@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowLeft, Loader, Package, Palette, Ruler, MessageCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { supabase } from '@/lib/supabase';
+import { fetchPublicOrder, ORDER_STATUS_FLOW, ORDER_STATUS_LABELS } from '@/lib/orderUtils';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { generateWhatsAppUrl, cn } from '@/lib/utils';
+import { formatKitComponentLabel } from '@/lib/kitUtils';
+import OrderStatusBadge from '@/components/orders/OrderStatusBadge';
+import OrderStatusTimeline from '@/components/orders/OrderStatusTimeline';
+import type { Order, OrderStatus, User } from '@/types';
+
+// Progress steps shown on top of the page (cancelado is shown as a badge instead)
+const PROGRESS_STEPS: OrderStatus[] = ORDER_STATUS_FLOW.filter(status => status !== 'cancelado');
+
+export default function OrderTrackingPage() {
+  const { slug, code } = useParams<{ slug: string; code: string }>();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [corretor, setCorretor] = useState<Pick<User, 'name' | 'whatsapp'> | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadOrder = async () => {
+      if (!slug || !code) return;
+
+      try {
+        setLoading(true);
+
+        const [orderData, { data: corretorData }] = await Promise.all([
+          fetchPublicOrder(slug, code),
+          supabase
+            .from('users')
+            .select('name, whatsapp')
+            .eq('slug', slug)
+            .maybeSingle(),
+        ]);
+
+        setOrder(orderData);
+        setCorretor(corretorData);
+        document.title = orderData ? `Pedido ${orderData.code}` : 'Pedido não encontrado';
+      } catch (error) {
+        console.error('Error loading order tracking:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadOrder();
+  }, [slug, code]);
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center py-24">
+        <Loader className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-4 py-24 px-4 text-center">
+        <Package className="h-12 w-12 text-muted-foreground" />
+        <p className="text-lg text-muted-foreground">
+          Não encontramos o pedido {code?.toUpperCase()}
+        </p>
+        <Button asChild>
+          <Link to={slug ? `/${slug}` : '/'}>Voltar para a vitrine</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const currency = (order.currency || 'BRL') as SupportedCurrency;
+  const language = (order.language || 'pt-BR') as SupportedLanguage;
+  const formatPrice = (value: number) => formatCurrencyI18n(value, currency, language);
+  const currentStepIndex = PROGRESS_STEPS.indexOf(order.status);
+  const isCancelled = order.status === 'cancelado';
+
+  return (
+    <div className="flex-1">
+      <div className="container mx-auto px-4 py-4 max-w-3xl">
+        <Button variant="ghost" asChild className="pl-0 hover:pl-1 transition-all">
+          <Link to={`/${slug}`} className="flex items-center">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Voltar para a vitrine
+          </Link>
+        </Button>
+      </div>
+
+      <section className="container mx-auto px-4 pb-12 max-w-3xl space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div>
+            <h1 className="text-2xl font-bold">Pedido {order.code}</h1>
+            <p className="text-muted-foreground">
+              {corretor?.name ? `${corretor.name} • ` : ''}
+              Realizado em {format(new Date(order.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+            </p>
+          </div>
+          <OrderStatusBadge status={order.status} className="self-start sm:self-auto text-sm" />
+        </div>
+
+        {/* Progress */}
+        {!isCancelled && (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center">
+                {PROGRESS_STEPS.map((status, index) => (
+                  <div key={status} className="flex-1 flex flex-col items-center text-center relative">
+                    {index > 0 && (
+                      <span
+                        className={cn(
+                          'absolute top-2 right-1/2 w-full h-0.5',
+                          index <= currentStepIndex ? 'bg-primary' : 'bg-border'
+                        )}
+                      />
+                    )}
+                    <span
+                      className={cn(
+                        'relative z-10 h-4 w-4 rounded-full border-2',
+                        index <= currentStepIndex
+                          ? 'border-primary bg-primary'
+                          : 'border-muted-foreground/40 bg-background'
+                      )}
+                    />
+                    <span
+                      className={cn(
+                        'mt-2 text-xs',
+                        index === currentStepIndex ? 'font-semibold' : 'text-muted-foreground'
+                      )}
+                    >
+                      {ORDER_STATUS_LABELS[status]}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Atualizações</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <OrderStatusTimeline history={order.status_history || []} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Itens do pedido</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {(order.items || []).map((item) => (
+              <div key={item.id} className="flex gap-3">
+                <div className="w-14 h-14 bg-white rounded-lg overflow-hidden border border-gray-200 flex-shrink-0">
+                  <img
+                    src={item.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                    alt={item.title}
+                    className="w-full h-full object-cover"
+                  />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-sm line-clamp-2">{item.title}</p>
+                  {(item.color || item.size) && (
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      {item.color && (
+                        <span className="flex items-center gap-1 capitalize">
+                          <Palette className="h-3 w-3" />
+                          {item.color}
+                        </span>
+                      )}
+                      {item.size && (
+                        <span className="flex items-center gap-1">
+                          <Ruler className="h-3 w-3" />
+                          {item.size}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {item.distribution_items && item.distribution_items.length > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      {item.distribution_items.map((variant, index) => (
+                        <div key={index}>
+                          • {variant.quantity}x {[variant.color, variant.size].filter(Boolean).join(' • ') || 'Padrão'}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {item.kit_components && item.kit_components.length > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      {item.kit_components.map((component, index) => (
+                        <div key={index}>• {formatKitComponentLabel(component)}</div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {item.quantity} x {formatPrice(item.applied_tier_price || item.unit_price)}
+                    </span>
+                    <span className="font-semibold">{formatPrice(item.subtotal)}</span>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <Separator />
+
+            {!!order.discount_amount && (
+              <div className="flex justify-between text-sm text-green-600">
+                <span>Cupom {order.coupon_code}</span>
+                <span>-{formatPrice(order.discount_amount)}</span>
+              </div>
+            )}
+            {order.shipping_method && (
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>Frete ({order.shipping_method})</span>
+                <span>{order.shipping_cost ? formatPrice(order.shipping_cost) : 'Grátis'}</span>
+              </div>
+            )}
+
+            <div className="flex justify-between items-center">
+              <span className="font-semibold">Total</span>
+              <span className="text-lg font-bold text-primary">{formatPrice(order.total)}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {corretor?.whatsapp && (
+          <Button asChild className="w-full" size="lg">
+            <a
+              href={generateWhatsAppUrl(corretor.whatsapp, `Olá ${corretor.name}, gostaria de saber sobre o pedido ${order.code}.`)}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <MessageCircle className="h-4 w-4 mr-2" />
+              Falar com o vendedor
+            </a>
+          </Button>
+        )}
+      </section>
+    </div>
+  );
+}
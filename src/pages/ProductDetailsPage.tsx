@@ -13,6 +13,11 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { formatCurrency, getColorValue } from '@/lib/utils';
 import { loadTrackingSettings, injectMetaPixel, injectGoogleAnalytics, trackView } from '@/lib/tracking';
+import { applyQuoteSettings, fetchQuoteSettings, QUOTE_PRICE_LABEL } from '@/lib/quoteUtils';
+import { applyPromotions, fetchActivePromotions } from '@/lib/promotionUtils';
+import { applyPriceList, loadStoredPriceList } from '@/lib/priceListUtils';
+import { fetchInstallmentSettings, formatInstallmentPlan, getFeaturedInstallmentPlan } from '@/lib/installmentUtils';
+import { applyLowestPriceBadges, fetchLowestPriceBadgeEnabled, fetchLowestProductPrices } from '@/lib/priceHistoryUtils';
 import { useTheme } from '@/contexts/ThemeContext';
 import { toast } from 'sonner';
 import { useTranslation, getPageTitle, formatCurrencyI18n, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
@@ -25,6 +30,17 @@ import TieredPricingSkeleton from '@/components/details/TieredPricingSkeleton';
 import { useTieredPricing } from '@/hooks/useTieredPricing';
 import { useCart } from '@/contexts/CartContext';
 import ProductVariantModal from '@/components/product/ProductVariantModal';
+import PromotionCountdown from '@/components/product/PromotionCountdown';
+import InstallmentTable from '@/components/product/InstallmentTable';
+import KitComponentsSelector from '@/components/product/KitComponentsSelector';
+import {
+  buildKitComponents,
+  buildKitSelectionSlots,
+  fetchKitItems,
+  isKitSelectionComplete,
+  type KitVariantSelection,
+} from '@/lib/kitUtils';
+import type { InstallmentSettings } from '@/types';
 
 export default function ProductDetailsPage() {
   const { slug, productId } = useParams();
@@ -34,17 +50,21 @@ export default function ProductDetailsPage() {
   const [error, setError] = useState<string | null>(null);
   const [shareSupported, setShareSupported] = useState(false);
   const [showVariantModal, setShowVariantModal] = useState(false);
+  const [installmentSettings, setInstallmentSettings] = useState<InstallmentSettings | null>(null);
+  const [showInstallmentTable, setShowInstallmentTable] = useState(false);
+  const [kitSelections, setKitSelections] = useState<Record<string, KitVariantSelection>>({});
   const { theme } = useTheme();
   const [language, setLanguage] = useState<SupportedLanguage>('pt-BR');
   const [currency, setCurrency] = useState<SupportedCurrency>('BRL');
   const { t } = useTranslation(language);
-  const { addToCart, getItemQuantity } = useCart();
+  const { addToCart, addKitToCart, getItemQuantity } = useCart();
 
   const { tiers: priceTiers, loading: loadingTiers } = useTieredPricing(
     product?.id,
     product?.price || 0,
     product?.discounted_price,
-    product?.has_tiered_pricing
+    product?.has_tiered_pricing,
+    product?.price_list_factor
   );
 
   useEffect(() => {
@@ -68,7 +88,8 @@ export default function ProductDetailsPage() {
               is_featured,
               media_type,
               display_order
-            )
+            ),
+            variants:product_variants(*, image:product_images(url))
           `)
           .eq('id', productId)
           .order('is_featured', { referencedTable: 'product_images', ascending: false })
@@ -91,7 +112,22 @@ export default function ProductDetailsPage() {
           sizesType: typeof productData.sizes,
           allKeys: Object.keys(productData)
         });
-        setProduct(productData);
+        const [quoteSettings, promotions, priceList, installmentSettingsData, showLowestPriceBadge, kitItems] = await Promise.all([
+          fetchQuoteSettings(productData.user_id),
+          fetchActivePromotions(productData.user_id),
+          loadStoredPriceList(productData.user_id),
+          fetchInstallmentSettings(productData.user_id),
+          fetchLowestPriceBadgeEnabled(productData.user_id),
+          productData.product_type === 'kit' ? fetchKitItems(productData.id) : Promise.resolve([]),
+        ]);
+        const lowestPrices = showLowestPriceBadge ? await fetchLowestProductPrices([productData.id]) : [];
+        const pricedProduct = applyPromotions(
+          applyQuoteSettings(applyPriceList(applyLowestPriceBadges([productData], lowestPrices), priceList), quoteSettings),
+          promotions
+        )[0];
+        setProduct({ ...pricedProduct, kit_items: kitItems });
+        setKitSelections({});
+        setInstallmentSettings(installmentSettingsData);
 
         // Fetch corretor details
         const { data: corretorData, error: corretorError } = await supabase
@@ -266,8 +302,18 @@ export default function ProductDetailsPage() {
     ? Math.round(((product.price - product.discounted_price) / product.price) * 100)
     : null;
 
-  const isAvailable = product.status === 'disponivel';
-  const hasPrice = (product.price && product.price > 0) || (product.has_tiered_pricing && priceTiers.length > 0);
+  const isKit = product.product_type === 'kit';
+  const kitSlots = isKit ? buildKitSelectionSlots(product.kit_items || []) : [];
+  // A kit cannot be ordered while one of its pieces is unavailable
+  const hasUnavailableKitItem = kitSlots.some(slot => slot.item.component && slot.item.component.status !== 'disponivel');
+
+  const isAvailable = product.status === 'disponivel' && !hasUnavailableKitItem;
+  const isQuote = !!product.quote_only;
+  // Tiered prices depend on the quantity, so the table is only shown for fixed prices
+  const installmentPlan = !isQuote && !isTieredPricing && displayPrice
+    ? getFeaturedInstallmentPlan(displayPrice, installmentSettings)
+    : null;
+  const hasPrice = isQuote || (product.price && product.price > 0) || (product.has_tiered_pricing && priceTiers.length > 0);
 
   // Check if product has color or size options
   const hasColors = product.colors && 
@@ -287,6 +333,15 @@ export default function ProductDetailsPage() {
   const handleAddToCart = () => {
     if (!isAvailable || !hasPrice) return;
 
+    if (isKit) {
+      if (!isKitSelectionComplete(kitSlots, kitSelections)) {
+        toast.error('Escolha a cor e o tamanho de cada item do kit');
+        return;
+      }
+      addKitToCart(product, buildKitComponents(kitSlots, kitSelections));
+      return;
+    }
+
     // If product has options (colors/sizes) OR tiered pricing, show variant modal
     if (hasOptions || product.has_tiered_pricing) {
       setShowVariantModal(true);
@@ -342,7 +397,18 @@ export default function ProductDetailsPage() {
               
               {/* Price information */}
               <div className="mt-6 mb-8">
-                {loadingTiers && product.has_tiered_pricing ? (
+                {isQuote ? (
+                  <div className="space-y-2">
+                    <div className="text-3xl font-bold text-primary">
+                      {QUOTE_PRICE_LABEL}
+                    </div>
+                    {product.short_description && (
+                      <div className="text-sm text-green-600 font-medium">
+                        {product.short_description}
+                      </div>
+                    )}
+                  </div>
+                ) : loadingTiers && product.has_tiered_pricing ? (
                   <div className="text-lg font-bold text-muted-foreground animate-pulse">
                     Carregando preços...
                   </div>
@@ -374,6 +440,10 @@ export default function ProductDetailsPage() {
                       {product.is_starting_price ? t('product.starting_from') + ' ' : ''}
                       {formatCurrencyI18n(displayPrice!, currency, language)}
                     </div>
+                    {/* Countdown while a scheduled promotion is running */}
+                    {product.promotion_ends_at && (
+                      <PromotionCountdown endsAt={product.promotion_ends_at} language={language} className="text-sm" />
+                    )}
                     {/* Promotional message instead of savings */}
                     {product.short_description && (
                       <div className="text-sm text-green-600 font-medium">
@@ -396,8 +466,43 @@ export default function ProductDetailsPage() {
                   </div>
                 )}
 
+                {/* Lowest price of the last 30 days */}
+                {!isQuote && product.is_lowest_price && (
+                  <Badge className="mt-2 bg-blue-600 hover:bg-blue-700 text-white border-transparent">
+                    Menor preço dos últimos 30 dias
+                  </Badge>
+                )}
+
+                {/* Installment Plans */}
+                {installmentPlan && (
+                  <div className="mt-3 space-y-2">
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                      <span className="text-base font-medium">
+                        {formatInstallmentPlan(installmentPlan, currency, language)}
+                      </span>
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0"
+                        onClick={() => setShowInstallmentTable(!showInstallmentTable)}
+                      >
+                        {showInstallmentTable ? 'Ocultar parcelas' : 'Ver parcelas'}
+                      </Button>
+                    </div>
+                    {showInstallmentTable && (
+                      <InstallmentTable
+                        amount={displayPrice}
+                        settings={installmentSettings}
+                        currency={currency}
+                        language={language}
+                        className="max-w-md"
+                      />
+                    )}
+                  </div>
+                )}
+
                 {/* Featured Offer */}
-                {product.featured_offer_price && product.featured_offer_installment && (
+                {!isQuote && product.featured_offer_price && product.featured_offer_installment && (
                   <div className="mt-4 p-4 bg-primary/10 rounded-lg">
                     <h3 className="text-lg font-semibold text-primary mb-2">
                       {t('product.special_offer')}
@@ -426,7 +531,7 @@ export default function ProductDetailsPage() {
               />
 
               {/* Tiered Pricing Table - Moved right after gallery */}
-              {product.has_tiered_pricing && (
+              {product.has_tiered_pricing && !isQuote && (
                 <div className="mt-8">
                   {loadingTiers ? (
                     <TieredPricingSkeleton />
@@ -546,6 +651,24 @@ export default function ProductDetailsPage() {
               )}
 
 
+              {/* Kit pieces, each with its own color and size */}
+              {isKit && kitSlots.length > 0 && (
+                <div className="mt-8">
+                  <KitComponentsSelector
+                    slots={kitSlots}
+                    selections={kitSelections}
+                    onSelectionChange={(slotKey, selection) =>
+                      setKitSelections(prev => ({ ...prev, [slotKey]: selection }))
+                    }
+                  />
+                  {hasUnavailableKitItem && (
+                    <p className="mt-2 text-sm text-destructive">
+                      Um dos itens deste kit está indisponível no momento
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* External Checkout Button - Always show if configured */}
               {isAvailable && product.external_checkout_url && (
                 <div className="mt-4">
@@ -602,6 +725,7 @@ export default function ProductDetailsPage() {
                 itemType="produto"
                 createdAt={product.created_at}
                 itemImageUrl={product.featured_image_url}
+                itemCategories={product.category}
                 language={language}
               />
             </motion.div>
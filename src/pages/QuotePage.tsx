@@ -0,0 +1,277 @@
+import { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { ArrowLeft, Loader, Loader2, FileText, Palette, Ruler, MessageCircle, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { supabase } from '@/lib/supabase';
+import {
+  fetchPublicQuote,
+  acceptQuote,
+  isQuoteExpired,
+  formatQuoteDate,
+  QUOTE_PRICE_LABEL,
+} from '@/lib/quoteUtils';
+import { fetchWhatsAppMessageTemplates, getCustomMessageTemplate } from '@/lib/messageTemplateUtils';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { generateWhatsAppUrl } from '@/lib/utils';
+import { formatVariantLabel } from '@/lib/distributionUtils';
+import { useStoreAttendant } from '@/hooks/useStoreAttendant';
+import QuoteStatusBadge from '@/components/quotes/QuoteStatusBadge';
+import type { PublicQuote, User, WhatsAppMessageTemplates } from '@/types';
+
+export default function QuotePage() {
+  const { slug, code } = useParams<{ slug: string; code: string }>();
+  const [quote, setQuote] = useState<PublicQuote | null>(null);
+  const [corretor, setCorretor] = useState<Pick<User, 'id' | 'name' | 'whatsapp'> | null>(null);
+  const [messageTemplates, setMessageTemplates] = useState<WhatsAppMessageTemplates | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const { whatsapp } = useStoreAttendant(
+    { id: corretor?.id || '', whatsapp: corretor?.whatsapp },
+    [],
+    !!corretor
+  );
+
+  useEffect(() => {
+    const loadQuote = async () => {
+      if (!slug || !code) return;
+
+      try {
+        setLoading(true);
+
+        const [quoteData, { data: corretorData }] = await Promise.all([
+          fetchPublicQuote(slug, code),
+          supabase
+            .from('users')
+            .select('id, name, whatsapp')
+            .eq('slug', slug)
+            .maybeSingle(),
+        ]);
+
+        setQuote(quoteData);
+        setCorretor(corretorData);
+        document.title = quoteData ? `Orçamento ${quoteData.code}` : 'Orçamento não encontrado';
+
+        if (corretorData?.id) {
+          setMessageTemplates(await fetchWhatsAppMessageTemplates(corretorData.id));
+        }
+      } catch (error) {
+        console.error('Error loading quote:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQuote();
+  }, [slug, code]);
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center py-24">
+        <Loader className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-4 py-24 px-4 text-center">
+        <FileText className="h-12 w-12 text-muted-foreground" />
+        <p className="text-lg text-muted-foreground">
+          Não encontramos o orçamento {code?.toUpperCase()}
+        </p>
+        <Button asChild>
+          <Link to={slug ? `/${slug}` : '/'}>Voltar para a vitrine</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const currency = (quote.currency || 'BRL') as SupportedCurrency;
+  const language = (quote.language || 'pt-BR') as SupportedLanguage;
+  const formatPrice = (value: number) => formatCurrencyI18n(value, currency, language);
+  const isAnswered = quote.status === 'respondido' || quote.status === 'aceito';
+  const isExpired = isQuoteExpired(quote);
+  const canAccept = quote.status === 'respondido' && !isExpired && !!corretor && !!whatsapp;
+
+  const handleAccept = async () => {
+    if (!canAccept || !corretor || !slug || !whatsapp) return;
+
+    // Opened before any await so the browser does not block the popup
+    const whatsappWindow = window.open('', '_blank');
+
+    setAccepting(true);
+    const message = await acceptQuote(
+      quote,
+      { id: corretor.id, name: corretor.name, slug },
+      {
+        template: getCustomMessageTemplate(messageTemplates, 'cart_order'),
+        distributionTemplate: getCustomMessageTemplate(messageTemplates, 'distribution'),
+      }
+    );
+    setAccepting(false);
+
+    if (!message) {
+      whatsappWindow?.close();
+      toast.error('Não foi possível aceitar o orçamento. Ele pode ter expirado ou sido alterado pelo vendedor.');
+      return;
+    }
+
+    setQuote({ ...quote, status: 'aceito', accepted_at: new Date().toISOString() });
+    toast.success('Orçamento aceito! Envie o pedido pelo WhatsApp.');
+
+    const whatsappUrl = generateWhatsAppUrl(whatsapp, message);
+    if (whatsappWindow) {
+      whatsappWindow.location.href = whatsappUrl;
+    } else {
+      window.location.href = whatsappUrl;
+    }
+  };
+
+  return (
+    <div className="flex-1">
+      <div className="container mx-auto px-4 py-4 max-w-3xl">
+        <Button variant="ghost" asChild className="pl-0 hover:pl-1 transition-all">
+          <Link to={`/${slug}`} className="flex items-center">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Voltar para a vitrine
+          </Link>
+        </Button>
+      </div>
+
+      <section className="container mx-auto px-4 pb-12 max-w-3xl space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div>
+            <h1 className="text-2xl font-bold">Orçamento {quote.code}</h1>
+            <p className="text-muted-foreground">
+              {corretor?.name ? `${corretor.name} • ` : ''}
+              Solicitado em {format(new Date(quote.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+            </p>
+          </div>
+          <QuoteStatusBadge quote={quote} className="self-start sm:self-auto text-sm" />
+        </div>
+
+        {quote.status === 'pendente' && (
+          <Card>
+            <CardContent className="pt-6 text-sm text-muted-foreground">
+              O vendedor ainda está preparando os preços. Você receberá o orçamento pelo WhatsApp e poderá aceitá-lo por esta página.
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Itens do orçamento</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {(quote.items || []).map((item) => (
+              <div key={item.id} className="flex gap-3">
+                <div className="w-14 h-14 bg-white rounded-lg overflow-hidden border border-gray-200 flex-shrink-0">
+                  <img
+                    src={item.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                    alt={item.title}
+                    className="w-full h-full object-cover"
+                  />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-sm line-clamp-2">{item.title}</p>
+                  {(item.color || item.size) && (
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      {item.color && (
+                        <span className="flex items-center gap-1 capitalize">
+                          <Palette className="h-3 w-3" />
+                          {item.color}
+                        </span>
+                      )}
+                      {item.size && (
+                        <span className="flex items-center gap-1">
+                          <Ruler className="h-3 w-3" />
+                          {item.size}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {item.distribution_items && item.distribution_items.length > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      {item.distribution_items.map((variant, index) => (
+                        <div key={index}>
+                          • {variant.quantity}x {formatVariantLabel(variant, ' • ') || 'Padrão'}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {item.notes && (
+                    <p className="text-xs text-muted-foreground">Obs.: {item.notes}</p>
+                  )}
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {item.quantity} x {isAnswered && item.unit_price != null ? formatPrice(item.unit_price) : QUOTE_PRICE_LABEL}
+                    </span>
+                    {isAnswered && item.subtotal != null && (
+                      <span className="font-semibold">{formatPrice(item.subtotal)}</span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <Separator />
+
+            <div className="flex justify-between items-center">
+              <span className="font-semibold">Total</span>
+              <span className="text-lg font-bold text-primary">
+                {isAnswered && quote.total != null ? formatPrice(quote.total) : QUOTE_PRICE_LABEL}
+              </span>
+            </div>
+
+            {isAnswered && quote.valid_until && (
+              <p className={`text-sm ${isExpired ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {isExpired ? 'Expirou em' : 'Válido até'} {formatQuoteDate(quote.valid_until)}
+              </p>
+            )}
+
+            {quote.seller_notes && (
+              <div className="p-3 bg-muted rounded-lg text-sm">
+                <p className="font-medium">Condições do vendedor</p>
+                <p className="text-muted-foreground whitespace-pre-line">{quote.seller_notes}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {quote.status === 'aceito' && (
+          <div className="flex items-center gap-2 p-3 border border-green-200 rounded-lg bg-green-50 dark:bg-green-950 dark:border-green-900 text-sm text-green-800 dark:text-green-200">
+            <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+            Orçamento aceito{quote.accepted_at ? ` em ${format(new Date(quote.accepted_at), 'dd/MM/yyyy', { locale: ptBR })}` : ''}. O pedido foi enviado ao vendedor.
+          </div>
+        )}
+
+        {canAccept ? (
+          <Button className="w-full" size="lg" onClick={handleAccept} disabled={accepting}>
+            {accepting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+            )}
+            Aceitar orçamento e enviar pedido
+          </Button>
+        ) : whatsapp && (
+          <Button asChild className="w-full" size="lg" variant={quote.status === 'aceito' ? 'outline' : 'default'}>
+            <a
+              href={generateWhatsAppUrl(whatsapp, `Olá ${corretor?.name || ''}, gostaria de falar sobre o orçamento ${quote.code}.`)}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <MessageCircle className="h-4 w-4 mr-2" />
+              {isExpired ? 'Pedir um novo orçamento' : 'Falar com o vendedor'}
+            </a>
+          </Button>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { AlertCircle, ArrowLeft, Loader, Loader2, Package, ShoppingCart } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { useCart } from '@/contexts/CartContext';
+import { supabase } from '@/lib/supabase';
+import { fetchSharedCart, reviewSharedCart, type SharedCartReview } from '@/lib/sharedCartUtils';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import type { SharedCart, User } from '@/types';
+
+export default function SharedCartPage() {
+  const { slug, code } = useParams<{ slug: string; code: string }>();
+  const navigate = useNavigate();
+  const { cart, loadSharedCart } = useCart();
+  const [sharedCart, setSharedCart] = useState<SharedCart | null>(null);
+  const [review, setReview] = useState<SharedCartReview | null>(null);
+  const [corretor, setCorretor] = useState<Pick<User, 'name' | 'currency' | 'language'> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    const loadSharedCartData = async () => {
+      if (!slug || !code) return;
+
+      try {
+        setLoading(true);
+
+        const [cartData, { data: corretorData }] = await Promise.all([
+          fetchSharedCart(slug, code),
+          supabase
+            .from('users')
+            .select('name, currency, language')
+            .eq('slug', slug)
+            .maybeSingle(),
+        ]);
+
+        setSharedCart(cartData);
+        setCorretor(corretorData);
+        document.title = cartData ? 'Carrinho compartilhado' : 'Carrinho não encontrado';
+
+        if (cartData) {
+          setReview(await reviewSharedCart(cartData));
+        }
+      } catch (error) {
+        console.error('Error loading shared cart:', error);
+        toast.error('Erro ao carregar carrinho compartilhado');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSharedCartData();
+  }, [slug, code]);
+
+  const handleLoadCart = async () => {
+    if (!review) return;
+
+    try {
+      setApplying(true);
+      await loadSharedCart(review);
+      toast.success('Carrinho carregado');
+      navigate(`/${slug}`);
+    } catch (error) {
+      console.error('Error loading shared cart into cart:', error);
+      toast.error('Erro ao carregar carrinho');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center py-24">
+        <Loader className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!sharedCart || !review) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-4 py-24 px-4 text-center">
+        <ShoppingCart className="h-12 w-12 text-muted-foreground" />
+        <p className="text-lg text-muted-foreground">
+          Não encontramos o carrinho {code?.toUpperCase()}
+        </p>
+        <Button asChild>
+          <Link to={slug ? `/${slug}` : '/'}>Voltar para a vitrine</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const currency = (corretor?.currency || 'BRL') as SupportedCurrency;
+  const language = (corretor?.language || 'pt-BR') as SupportedLanguage;
+  const formatPrice = (value: number) => formatCurrencyI18n(value, currency, language);
+  const total = review.items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0) +
+    review.distributions.reduce((sum, dist) => sum + dist.unitPrice * dist.totalQuantity, 0);
+  const isEmpty = review.items.length === 0 && review.distributions.length === 0;
+  const hasCurrentCart = cart.items.length > 0 || cart.distributions.length > 0;
+
+  return (
+    <div className="flex-1">
+      <div className="container mx-auto px-4 py-4 max-w-3xl">
+        <Button variant="ghost" asChild className="pl-0 hover:pl-1 transition-all">
+          <Link to={`/${slug}`} className="flex items-center">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Voltar para a vitrine
+          </Link>
+        </Button>
+      </div>
+
+      <section className="container mx-auto px-4 pb-12 max-w-3xl space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Carrinho compartilhado</h1>
+          <p className="text-muted-foreground">
+            {corretor?.name ? `${corretor.name} • ` : ''}
+            Montado em {format(new Date(sharedCart.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+          </p>
+        </div>
+
+        {review.changes.length > 0 && (
+          <Card className="border-amber-200 bg-amber-50 dark:bg-amber-950 dark:border-amber-900">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base text-amber-800 dark:text-amber-200">
+                <AlertCircle className="h-4 w-4" />
+                Mudanças desde que o carrinho foi compartilhado
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-1 text-sm text-amber-800 dark:text-amber-200">
+                {review.changes.map((change, index) => (
+                  <li key={`${change.title}-${index}`}>
+                    <span className="font-medium">{change.title}:</span> {change.message}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Itens</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isEmpty && (
+              <p className="text-sm text-muted-foreground">
+                Nenhum item deste carrinho está disponível no momento.
+              </p>
+            )}
+
+            {review.distributions.map((dist, index) => (
+              <div key={`${dist.product.id}-${index}`} className="flex gap-3">
+                <div className="w-16 h-16 bg-white rounded-lg overflow-hidden border flex-shrink-0">
+                  {dist.product.featured_image_url ? (
+                    <img src={dist.product.featured_image_url} alt={dist.product.title} className="w-full h-full object-cover" />
+                  ) : (
+                    <Package className="h-6 w-6 m-5 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-medium text-sm">{dist.product.title}</h4>
+                    <Badge variant="outline" className="text-xs">Distribuição</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {dist.items.map(item => `${item.quantity}x ${[item.color, item.size].filter(Boolean).join(' / ')}`).join(' • ')}
+                  </p>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {dist.totalQuantity} x {formatPrice(dist.unitPrice)}
+                    </span>
+                    <span className="font-semibold">{formatPrice(dist.unitPrice * dist.totalQuantity)}</span>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            {review.items.map((item, index) => (
+              <div key={`${item.product.id}-${item.color}-${item.size}-${index}`} className="flex gap-3">
+                <div className="w-16 h-16 bg-white rounded-lg overflow-hidden border flex-shrink-0">
+                  {item.product.featured_image_url ? (
+                    <img src={item.product.featured_image_url} alt={item.product.title} className="w-full h-full object-cover" />
+                  ) : (
+                    <Package className="h-6 w-6 m-5 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <h4 className="font-medium text-sm">{item.product.title}</h4>
+                  {(item.color || item.size) && (
+                    <p className="text-xs text-muted-foreground capitalize">
+                      {[item.color, item.size].filter(Boolean).join(' / ')}
+                    </p>
+                  )}
+                  {item.notes && (
+                    <p className="text-xs text-muted-foreground">Obs: {item.notes}</p>
+                  )}
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {item.quantity} x {formatPrice(item.unitPrice)}
+                    </span>
+                    <span className="font-semibold">{formatPrice(item.unitPrice * item.quantity)}</span>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <Separator />
+
+            <div className="flex justify-between items-center">
+              <span className="font-semibold">Total</span>
+              <span className="text-lg font-bold text-primary">{formatPrice(total)}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {hasCurrentCart && !isEmpty && (
+          <p className="text-sm text-muted-foreground text-center">
+            Os itens que já estão no seu carrinho serão substituídos por este carrinho.
+          </p>
+        )}
+
+        <Button className="w-full" size="lg" onClick={handleLoadCart} disabled={isEmpty || applying}>
+          {applying ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <ShoppingCart className="h-4 w-4 mr-2" />
+          )}
+          Usar este carrinho
+        </Button>
+      </section>
+    </div>
+  );
+}
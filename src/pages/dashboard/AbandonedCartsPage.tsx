@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ShoppingCart, MessageCircle, Trash2, RefreshCw, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAbandonedCarts } from '@/hooks/useAbandonedCarts';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatCurrency, formatPhone } from '@/lib/utils';
+import { ABANDONED_AFTER_MINUTES, summarizeAbandonedCart } from '@/lib/abandonedCartUtils';
+import type { AbandonedCart, AbandonedCartStatus } from '@/types';
+
+const formatAge = (value: string) =>
+  formatDistanceToNow(new Date(value), { addSuffix: true, locale: ptBR });
+
+export default function AbandonedCartsPage() {
+  const { user } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<AbandonedCartStatus>('open');
+  const { carts, loading, refreshCarts, sendFollowUp, removeCart } = useAbandonedCarts(user, statusFilter);
+  const [sendingCartId, setSendingCartId] = useState<string | null>(null);
+  const [cartToDelete, setCartToDelete] = useState<AbandonedCart | null>(null);
+
+  const handleFollowUp = async (cart: AbandonedCart) => {
+    setSendingCartId(cart.id);
+    await sendFollowUp(cart);
+    setSendingCartId(null);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!cartToDelete) return;
+    await removeCart(cartToDelete.id);
+    setCartToDelete(null);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Carrinhos Abandonados</h1>
+          <p className="text-muted-foreground">
+            Clientes que informaram o telefone no carrinho e não enviaram o pedido
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as AbandonedCartStatus)}>
+            <SelectTrigger className="w-full sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Abandonados</SelectItem>
+              <SelectItem value="converted">Recuperados</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={refreshCarts} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Atualizar
+          </Button>
+        </div>
+      </div>
+
+      {/* Carts List */}
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : carts.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <ShoppingCart className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold">
+              {statusFilter === 'open' ? 'Nenhum carrinho abandonado' : 'Nenhum carrinho recuperado'}
+            </h3>
+            <p className="text-muted-foreground max-w-md">
+              {statusFilter === 'open'
+                ? `Um carrinho aparece aqui ${ABANDONED_AFTER_MINUTES} minutos depois da última alteração, quando o cliente informou o telefone e não enviou o pedido.`
+                : 'Carrinhos que viraram pedido depois de abandonados aparecem aqui.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Cliente</TableHead>
+                <TableHead>Produtos</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+                <TableHead>{statusFilter === 'open' ? 'Abandonado' : 'Recuperado'}</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {carts.map((cart) => (
+                <TableRow key={cart.id}>
+                  <TableCell>
+                    <div className="font-medium">
+                      {cart.customer_name || (cart.customer_phone ? 'Cliente sem nome' : 'Visitante sem contato')}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {cart.customer_phone ? formatPhone(cart.customer_phone) : 'Não preencheu o formulário'}
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <div className="text-sm truncate" title={summarizeAbandonedCart(cart)}>
+                      {summarizeAbandonedCart(cart)}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {cart.item_count} {cart.item_count === 1 ? 'peça' : 'peças'}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(cart.subtotal)}</TableCell>
+                  <TableCell className="text-sm">
+                    <div>{formatAge(cart.status === 'converted' && cart.converted_at ? cart.converted_at : cart.updated_at)}</div>
+                    {cart.contacted_at && (
+                      <Badge variant="secondary" className="mt-1">
+                        Contatado {formatAge(cart.contacted_at)}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      {cart.status === 'open' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleFollowUp(cart)}
+                          disabled={sendingCartId === cart.id || !user?.slug || !cart.customer_phone}
+                        >
+                          {sendingCartId === cart.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <MessageCircle className="h-4 w-4 mr-2" />
+                          )}
+                          Chamar no WhatsApp
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                        onClick={() => setCartToDelete(cart)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <AlertDialog open={!!cartToDelete} onOpenChange={(open) => !open && setCartToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir carrinho</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir o carrinho de {cartToDelete?.customer_name || (cartToDelete?.customer_phone ? formatPhone(cartToDelete.customer_phone) : 'visitante sem contato')}?
+              Se o cliente voltar a alterar o carrinho, ele será registrado novamente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
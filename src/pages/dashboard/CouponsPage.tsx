@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Ticket, Plus, Pencil, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCoupons } from '@/hooks/useCoupons';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatCurrency } from '@/lib/utils';
+import { formatCouponDiscount } from '@/lib/couponUtils';
+import CouponFormDialog from '@/components/coupons/CouponFormDialog';
+import type { Coupon } from '@/types';
+
+const formatDate = (value: string) => format(new Date(value), 'dd/MM/yyyy', { locale: ptBR });
+
+const getValidityLabel = (coupon: Coupon) => {
+  if (coupon.starts_at && coupon.expires_at) {
+    return `${formatDate(coupon.starts_at)} a ${formatDate(coupon.expires_at)}`;
+  }
+  if (coupon.expires_at) return `Até ${formatDate(coupon.expires_at)}`;
+  if (coupon.starts_at) return `A partir de ${formatDate(coupon.starts_at)}`;
+  return 'Sem validade';
+};
+
+const getRestrictionLabel = (coupon: Coupon) => {
+  const parts: string[] = [];
+  if (coupon.category_restrictions.length > 0) {
+    parts.push(`${coupon.category_restrictions.length} categoria${coupon.category_restrictions.length > 1 ? 's' : ''}`);
+  }
+  if (coupon.product_restrictions.length > 0) {
+    parts.push(`${coupon.product_restrictions.length} produto${coupon.product_restrictions.length > 1 ? 's' : ''}`);
+  }
+  return parts.length > 0 ? parts.join(' • ') : 'Todo o carrinho';
+};
+
+export default function CouponsPage() {
+  const { user } = useAuth();
+  const { coupons, loading, upsertCoupon, toggleCoupon, removeCoupon } = useCoupons(user?.id);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [couponToDelete, setCouponToDelete] = useState<Coupon | null>(null);
+
+  const openCreateForm = () => {
+    setEditingCoupon(null);
+    setFormOpen(true);
+  };
+
+  const openEditForm = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setFormOpen(true);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!couponToDelete) return;
+    await removeCoupon(couponToDelete.id);
+    setCouponToDelete(null);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Cupons</h1>
+          <p className="text-muted-foreground">
+            Códigos de desconto aceitos no carrinho da sua vitrine
+          </p>
+        </div>
+        <Button onClick={openCreateForm}>
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Cupom
+        </Button>
+      </div>
+
+      {/* Coupons List */}
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : coupons.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <Ticket className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold">Nenhum cupom cadastrado</h3>
+            <p className="text-muted-foreground max-w-md">
+              Crie cupons de porcentagem ou valor fixo para suas promoções.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Código</TableHead>
+                <TableHead>Desconto</TableHead>
+                <TableHead>Aplica-se a</TableHead>
+                <TableHead>Validade</TableHead>
+                <TableHead className="text-center">Usos</TableHead>
+                <TableHead className="text-center">Ativo</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {coupons.map((coupon) => (
+                <TableRow key={coupon.id}>
+                  <TableCell>
+                    <div className="font-medium">{coupon.code}</div>
+                    {coupon.description && (
+                      <div className="text-xs text-muted-foreground">{coupon.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{formatCouponDiscount(coupon)}</Badge>
+                    {coupon.min_order_value ? (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Mínimo {formatCurrency(coupon.min_order_value)}
+                      </div>
+                    ) : null}
+                  </TableCell>
+                  <TableCell className="text-sm">{getRestrictionLabel(coupon)}</TableCell>
+                  <TableCell className="text-sm">{getValidityLabel(coupon)}</TableCell>
+                  <TableCell className="text-center">
+                    {coupon.usage_count}{coupon.usage_limit ? ` / ${coupon.usage_limit}` : ''}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={coupon.is_active}
+                      onCheckedChange={(checked) => toggleCoupon(coupon.id, checked)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => openEditForm(coupon)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                        onClick={() => setCouponToDelete(coupon)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <CouponFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        coupon={editingCoupon}
+        userId={user?.id}
+        onSave={upsertCoupon}
+      />
+
+      <AlertDialog open={!!couponToDelete} onOpenChange={(open) => !open && setCouponToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir cupom</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir o cupom {couponToDelete?.code}? Pedidos anteriores continuam registrando o desconto.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
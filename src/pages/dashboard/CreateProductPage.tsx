@@ -17,15 +17,22 @@ import { CategorySelector } from '@/components/ui/category-selector';
 import { GenderSelector } from '@/components/ui/gender-selector';
 import { SizesColorsSelector } from '@/components/ui/sizes-colors-selector';
 import { TieredPricingManager } from '@/components/ui/tiered-pricing-manager';
+import { VariantStockManager } from '@/components/ui/variant-stock-manager';
 import { PricingModeToggle } from '@/components/ui/pricing-mode-toggle';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ChevronDown, ArrowLeft } from 'lucide-react';
 import { toast } from 'sonner';
-import type { PriceTier } from '@/types';
+import type { PriceTier, ProductKitItem, ProductVariant, ProductVariantStock } from '@/types';
 import { ProductImageManager } from '@/components/product/ProductImageManager';
+import { TierTemplateSelector } from '@/components/product/TierTemplateSelector';
+import { KitComponentsManager } from '@/components/product/KitComponentsManager';
+import { ProductVariantsManager } from '@/components/product/ProductVariantsManager';
 import { uploadProductImages, saveProductImages } from '@/lib/productImageService';
+import { saveProductVariantStock, buildVariantStockMatrix } from '@/lib/inventoryUtils';
+import { calculateKitPrice, saveKitItems } from '@/lib/kitUtils';
+import { buildProductVariantMatrix, findDuplicateVariantSku, hasVariantOverrides, saveProductVariants } from '@/lib/variantUtils';
 import { PromotionalPhraseSelector } from '@/components/ui/promotional-phrase-selector';
 
 const productSchema = z.object({
@@ -47,7 +54,13 @@ const productSchema = z.object({
   colors: z.array(z.string()).default([]),
   sizes: z.array(z.string()).default([]),
   has_tiered_pricing: z.boolean().default(false),
-});
+  min_quantity: z.number().int('Use um número inteiro').min(1, 'A quantidade mínima deve ser pelo menos 1').optional(),
+  quantity_multiple: z.number().int('Use um número inteiro').min(1, 'O múltiplo deve ser pelo menos 1').optional(),
+  quote_only: z.boolean().default(false),
+}).refine(
+  (data) => !data.min_quantity || !data.quantity_multiple || data.min_quantity % data.quantity_multiple === 0,
+  { message: 'A quantidade mínima deve ser um múltiplo da embalagem', path: ['min_quantity'] }
+);
 
 type ProductFormData = z.infer<typeof productSchema>;
 
@@ -69,7 +82,16 @@ export default function CreateProductPage() {
   const [pricingMode, setPricingMode] = useState<'simple' | 'tiered'>('simple');
   const [priceTiers, setPriceTiers] = useState<PriceTier[]>([]);
   const [isPriceTiersValid, setIsPriceTiersValid] = useState(true);
+  const [tierTemplateId, setTierTemplateId] = useState<string | null>(null);
+  const [tierBasePrice, setTierBasePrice] = useState<number | null>(null);
+  const [isKit, setIsKit] = useState(false);
+  const [kitItems, setKitItems] = useState<ProductKitItem[]>([]);
+  const [kitDiscountPercent, setKitDiscountPercent] = useState<number | null>(null);
   const [isSizesColorsOpen, setIsSizesColorsOpen] = useState(false);
+  const [trackInventory, setTrackInventory] = useState(false);
+  const [variantStock, setVariantStock] = useState<ProductVariantStock[]>([]);
+  const [isVariantsOpen, setIsVariantsOpen] = useState(false);
+  const [productVariants, setProductVariants] = useState<ProductVariant[]>([]);
   const [images, setImages] = useState<MediaItem[]>([]);
   const [uploadingImages, setUploadingImages] = useState(false);
 
@@ -94,10 +116,24 @@ export default function CreateProductPage() {
       colors: [],
       sizes: [],
       has_tiered_pricing: false,
+      min_quantity: undefined,
+      quantity_multiple: undefined,
+      quote_only: false,
     },
   });
 
 
+  const detachTierTemplate = () => {
+    setTierTemplateId(null);
+    setTierBasePrice(null);
+  };
+
+  // Tiers edited by hand no longer follow the template
+  const handleManualTiersChange = (tiers: PriceTier[]) => {
+    detachTierTemplate();
+    setPriceTiers(tiers);
+  };
+
   const onSubmit = async (data: ProductFormData) => {
     if (!user?.id) {
       toast.error('Usuário não autenticado');
@@ -114,20 +150,43 @@ export default function CreateProductPage() {
       return;
     }
 
+    if (pricingMode === 'tiered' && tierTemplateId && tierBasePrice !== null && tierBasePrice <= 0) {
+      toast.error('Informe o preço base do modelo de faixas');
+      return;
+    }
+
     if (pricingMode === 'tiered' && !isPriceTiersValid) {
       toast.error('Por favor, corrija os erros nos níveis de preço antes de salvar');
       return;
     }
 
+    if (isKit && kitItems.length === 0) {
+      toast.error('Adicione pelo menos um item ao kit');
+      return;
+    }
+
+    const duplicateSku = isKit
+      ? null
+      : findDuplicateVariantSku(buildProductVariantMatrix(data.colors, data.sizes, productVariants));
+    if (duplicateSku) {
+      toast.error(`O SKU ${duplicateSku} está em mais de uma variação`);
+      return;
+    }
+
     setLoading(true);
     try {
+      // Kits priced by their items get the price the database would compute
+      const kitPrice = isKit && kitDiscountPercent !== null
+        ? calculateKitPrice(kitItems, kitDiscountPercent)
+        : null;
+
       const productData = {
         user_id: user.id,
         title: data.title,
         description: data.description,
         short_description: data.short_description || '',
-        price: pricingMode === 'simple' ? data.price : 0,
-        discounted_price: data.featured_offer_price || null,
+        price: kitPrice ? kitPrice.price : pricingMode === 'simple' ? data.price : 0,
+        discounted_price: kitPrice ? kitPrice.discounted_price : data.featured_offer_price || null,
         is_starting_price: data.is_starting_price,
         featured_offer_price: data.featured_offer_price || null,
         featured_offer_installment: data.featured_offer_installment || null,
@@ -143,6 +202,14 @@ export default function CreateProductPage() {
         colors: data.colors,
         sizes: data.sizes,
         has_tiered_pricing: pricingMode === 'tiered',
+        tier_template_id: pricingMode === 'tiered' ? tierTemplateId : null,
+        tier_base_price: pricingMode === 'tiered' && tierTemplateId ? tierBasePrice : null,
+        track_inventory: trackInventory,
+        min_quantity: data.min_quantity || null,
+        quantity_multiple: data.quantity_multiple && data.quantity_multiple > 1 ? data.quantity_multiple : null,
+        quote_only: data.quote_only,
+        product_type: isKit ? 'kit' : 'simple',
+        kit_discount_percent: isKit ? kitDiscountPercent : null,
       };
 
       const { data: product, error: productError } = await supabase
@@ -208,6 +275,22 @@ export default function CreateProductPage() {
         if (tiersError) throw tiersError;
       }
 
+      if (isKit) {
+        await saveKitItems(product.id, kitItems);
+      } else if (productVariants.some(hasVariantOverrides)) {
+        await saveProductVariants(
+          product.id,
+          buildProductVariantMatrix(data.colors, data.sizes, productVariants)
+        );
+      }
+
+      if (trackInventory) {
+        await saveProductVariantStock(
+          product.id,
+          buildVariantStockMatrix(data.colors, data.sizes, variantStock)
+        );
+      }
+
       toast.success('Produto criado com sucesso!');
       navigate('/dashboard/listings');
     } catch (error) {
@@ -335,63 +418,141 @@ export default function CreateProductPage() {
 
           <Card>
             <CardHeader>
-              <CardTitle>Preços</CardTitle>
+              <CardTitle>Estoque</CardTitle>
             </CardHeader>
-            <CardContent className="space-y-4">
-              <PricingModeToggle
-                isTieredPricing={pricingMode === 'tiered'}
-                onModeChange={(useTieredPricing) => {
-                  setPricingMode(useTieredPricing ? 'tiered' : 'simple');
-                  form.setValue('has_tiered_pricing', useTieredPricing);
+            <CardContent>
+              <VariantStockManager
+                colors={form.watch('colors')}
+                sizes={form.watch('sizes')}
+                enabled={trackInventory}
+                onEnabledChange={setTrackInventory}
+                stock={variantStock}
+                onChange={setVariantStock}
+              />
+            </CardContent>
+          </Card>
+
+          {!isKit && (
+            <Collapsible open={isVariantsOpen} onOpenChange={setIsVariantsOpen}>
+              <Card>
+                <CollapsibleTrigger className="w-full">
+                  <CardHeader className="cursor-pointer hover:bg-accent/50 transition-colors">
+                    <div className="flex items-center justify-between">
+                      <CardTitle>Variações (SKU, preço e foto)</CardTitle>
+                      <ChevronDown className={`h-5 w-5 transition-transform duration-200 ${isVariantsOpen ? 'transform rotate-180' : ''}`} />
+                    </div>
+                  </CardHeader>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <CardContent>
+                    <ProductVariantsManager
+                      colors={form.watch('colors')}
+                      sizes={form.watch('sizes')}
+                      variants={productVariants}
+                      onChange={setProductVariants}
+                      images={images.filter((img) => !img.file)}
+                      basePrice={form.watch('price')}
+                      hasTieredPricing={pricingMode === 'tiered'}
+                    />
+                  </CardContent>
+                </CollapsibleContent>
+              </Card>
+            </Collapsible>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Kit</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <KitComponentsManager
+                userId={user?.id}
+                enabled={isKit}
+                onEnabledChange={(enabled) => {
+                  setIsKit(enabled);
+                  // Kits have a single price, tiers are not supported
+                  if (enabled) {
+                    setPricingMode('simple');
+                    form.setValue('has_tiered_pricing', false);
+                  }
                 }}
-                hasSinglePriceData={form.watch('price') > 0}
-                hasTieredPriceData={priceTiers.length > 0}
+                items={kitItems}
+                onChange={setKitItems}
+                discountPercent={kitDiscountPercent}
+                onDiscountPercentChange={setKitDiscountPercent}
               />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preços</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!isKit && (
+                <PricingModeToggle
+                  isTieredPricing={pricingMode === 'tiered'}
+                  onModeChange={(useTieredPricing) => {
+                    setPricingMode(useTieredPricing ? 'tiered' : 'simple');
+                    form.setValue('has_tiered_pricing', useTieredPricing);
+                  }}
+                  hasSinglePriceData={form.watch('price') > 0}
+                  hasTieredPriceData={priceTiers.length > 0}
+                />
+              )}
 
               {pricingMode === 'simple' ? (
                 <div className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="price"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Preço original do produto *</FormLabel>
-                        <FormControl>
-                          <CurrencyInput
-                            value={field.value}
-                            onChange={field.onChange}
-                            placeholder="R$ 0,00"
-                          />
-                        </FormControl>
-                        <FormDescription>
-                          Preço de venda do produto
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  {isKit && kitDiscountPercent !== null ? (
+                    <p className="text-sm text-muted-foreground">
+                      O preço deste kit é calculado pela soma dos itens com o desconto informado acima
+                    </p>
+                  ) : (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="price"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Preço original do produto *</FormLabel>
+                            <FormControl>
+                              <CurrencyInput
+                                value={field.value}
+                                onChange={field.onChange}
+                                placeholder="R$ 0,00"
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Preço de venda do produto
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                  <FormField
-                    control={form.control}
-                    name="featured_offer_price"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Preço promocional (deve ser menor que o preço original)</FormLabel>
-                        <FormControl>
-                          <DiscountPriceInput
-                            value={field.value}
-                            onChange={field.onChange}
-                            originalPrice={form.watch('price')}
-                            placeholder="R$ 0,00"
-                          />
-                        </FormControl>
-                        <FormDescription className="text-muted-foreground">
-                          Preço promocional opcional. Se preenchido, será exibido como oferta especial.
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                      <FormField
+                        control={form.control}
+                        name="featured_offer_price"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Preço promocional (deve ser menor que o preço original)</FormLabel>
+                            <FormControl>
+                              <DiscountPriceInput
+                                value={field.value}
+                                onChange={field.onChange}
+                                originalPrice={form.watch('price')}
+                                placeholder="R$ 0,00"
+                              />
+                            </FormControl>
+                            <FormDescription className="text-muted-foreground">
+                              Preço promocional opcional. Se preenchido, será exibido como oferta especial.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
 
                   <FormField
                     control={form.control}
@@ -415,15 +576,108 @@ export default function CreateProductPage() {
                   />
                 </div>
               ) : (
-                <TieredPricingManager
-                  tiers={priceTiers}
-                  onChange={setPriceTiers}
-                  onValidationChange={setIsPriceTiersValid}
-                />
+                <div className="space-y-4">
+                  <TierTemplateSelector
+                    userId={user?.id}
+                    templateId={tierTemplateId}
+                    basePrice={tierBasePrice}
+                    tiers={priceTiers}
+                    onApply={(template, basePrice, tiers) => {
+                      setTierTemplateId(template.id);
+                      setTierBasePrice(basePrice);
+                      setPriceTiers(tiers);
+                      setIsPriceTiersValid(true);
+                    }}
+                    onDetach={detachTierTemplate}
+                  />
+                  <TieredPricingManager
+                    tiers={priceTiers}
+                    onChange={handleManualTiersChange}
+                    onValidationChange={setIsPriceTiersValid}
+                  />
+                </div>
               )}
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Venda no Atacado</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="min_quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quantidade mínima</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          placeholder="Sem mínimo"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : undefined)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Unidades do produto por pedido, somando cores e tamanhos
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="quantity_multiple"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Vender em múltiplos de</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          placeholder="Unidade"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : undefined)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Ex: 6 para vender apenas em pacotes de 6 unidades
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="quote_only"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4 mt-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">Preço sob consulta</FormLabel>
+                      <FormDescription>
+                        Esconde o preço na vitrine; o cliente pede um orçamento pelo carrinho
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Frase Promocional e Descrição</CardTitle>
@@ -17,14 +17,19 @@ import { CategorySelector } from '@/components/ui/category-selector';
 import { GenderSelector } from '@/components/ui/gender-selector';
 import { SizesColorsSelector } from '@/components/ui/sizes-colors-selector';
 import { TieredPricingManager } from '@/components/ui/tiered-pricing-manager';
+import { VariantStockManager } from '@/components/ui/variant-stock-manager';
 import { PricingModeToggle } from '@/components/ui/pricing-mode-toggle';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ChevronDown, ArrowLeft } from 'lucide-react';
 import { toast } from 'sonner';
-import type { PriceTier } from '@/types';
+import type { PriceTier, ProductKitItem, ProductVariant, ProductVariantStock } from '@/types';
 import { ProductImageManager } from '@/components/product/ProductImageManager';
+import PriceHistoryTimeline from '@/components/product/PriceHistoryTimeline';
+import { TierTemplateSelector } from '@/components/product/TierTemplateSelector';
+import { KitComponentsManager } from '@/components/product/KitComponentsManager';
+import { ProductVariantsManager } from '@/components/product/ProductVariantsManager';
 import {
   uploadProductImages,
   saveProductImages,
@@ -34,6 +39,9 @@ import {
   updateFeaturedImage,
   checkRemainingImagesCount,
 } from '@/lib/productImageService';
+import { fetchProductInventory, saveProductVariantStock, buildVariantStockMatrix } from '@/lib/inventoryUtils';
+import { calculateKitPrice, fetchKitItems, saveKitItems } from '@/lib/kitUtils';
+import { buildProductVariantMatrix, fetchProductVariants, findDuplicateVariantSku, saveProductVariants } from '@/lib/variantUtils';
 import { PromotionalPhraseSelector } from '@/components/ui/promotional-phrase-selector';
 
 const productSchema = z.object({
@@ -55,7 +63,13 @@ const productSchema = z.object({
   colors: z.array(z.string()).default([]),
   sizes: z.array(z.string()).default([]),
   has_tiered_pricing: z.boolean().default(false),
-});
+  min_quantity: z.number().int('Use um número inteiro').min(1, 'A quantidade mínima deve ser pelo menos 1').optional(),
+  quantity_multiple: z.number().int('Use um número inteiro').min(1, 'O múltiplo deve ser pelo menos 1').optional(),
+  quote_only: z.boolean().default(false),
+}).refine(
+  (data) => !data.min_quantity || !data.quantity_multiple || data.min_quantity % data.quantity_multiple === 0,
+  { message: 'A quantidade mínima deve ser um múltiplo da embalagem', path: ['min_quantity'] }
+);
 
 type ProductFormData = z.infer<typeof productSchema>;
 
@@ -85,7 +99,16 @@ export default function EditProductPage() {
   const [pricingMode, setPricingMode] = useState<'simple' | 'tiered'>('simple');
   const [priceTiers, setPriceTiers] = useState<PriceTier[]>([]);
   const [isPriceTiersValid, setIsPriceTiersValid] = useState(true);
+  const [tierTemplateId, setTierTemplateId] = useState<string | null>(null);
+  const [tierBasePrice, setTierBasePrice] = useState<number | null>(null);
+  const [isKit, setIsKit] = useState(false);
+  const [kitItems, setKitItems] = useState<ProductKitItem[]>([]);
+  const [kitDiscountPercent, setKitDiscountPercent] = useState<number | null>(null);
   const [isSizesColorsOpen, setIsSizesColorsOpen] = useState(false);
+  const [trackInventory, setTrackInventory] = useState(false);
+  const [variantStock, setVariantStock] = useState<ProductVariantStock[]>([]);
+  const [isVariantsOpen, setIsVariantsOpen] = useState(false);
+  const [productVariants, setProductVariants] = useState<ProductVariant[]>([]);
   const [images, setImages] = useState<MediaItem[]>([]);
   const [uploadingImages, setUploadingImages] = useState(false);
   const [initialImages, setInitialImages] = useState<MediaItem[]>([]);
@@ -111,6 +134,7 @@ export default function EditProductPage() {
       colors: [],
       sizes: [],
       has_tiered_pricing: false,
+      quote_only: false,
     },
   });
 
@@ -152,9 +176,14 @@ export default function EditProductPage() {
           colors: product.colors || [],
           sizes: product.sizes || [],
           has_tiered_pricing: product.has_tiered_pricing || false,
+          min_quantity: product.min_quantity ?? undefined,
+          quantity_multiple: product.quantity_multiple ?? undefined,
+          quote_only: product.quote_only ?? false,
         });
 
         setPricingMode(product.has_tiered_pricing ? 'tiered' : 'simple');
+        setTierTemplateId(product.tier_template_id ?? null);
+        setTierBasePrice(product.tier_base_price != null ? parseFloat(product.tier_base_price) : null);
 
         if (product.has_tiered_pricing) {
           const { data: tiers, error: tiersError } = await supabase
@@ -175,6 +204,17 @@ export default function EditProductPage() {
           }
         }
 
+        if (product.product_type === 'kit') {
+          setIsKit(true);
+          setKitDiscountPercent(product.kit_discount_percent != null ? parseFloat(product.kit_discount_percent) : null);
+          setKitItems(await fetchKitItems(id));
+        }
+
+        const inventory = await fetchProductInventory(id);
+        setTrackInventory(inventory.trackInventory);
+        setVariantStock(inventory.stock);
+        setProductVariants(await fetchProductVariants(id));
+
         const existingImages = await fetchProductImages(id);
         const mediaItems: MediaItem[] = existingImages.map((img) => ({
           id: img.id,
@@ -195,6 +235,17 @@ export default function EditProductPage() {
     fetchProduct();
   }, [id, user?.id, navigate, form]);
 
+  const detachTierTemplate = () => {
+    setTierTemplateId(null);
+    setTierBasePrice(null);
+  };
+
+  // Tiers edited by hand no longer follow the template
+  const handleManualTiersChange = (tiers: PriceTier[]) => {
+    detachTierTemplate();
+    setPriceTiers(tiers);
+  };
+
   const onSubmit = async (data: ProductFormData) => {
     console.log('onSubmit called with data:', data);
     if (!user?.id || !id) {
@@ -221,19 +272,42 @@ export default function EditProductPage() {
       return;
     }
 
+    if (pricingMode === 'tiered' && tierTemplateId && tierBasePrice !== null && tierBasePrice <= 0) {
+      toast.error('Informe o preço base do modelo de faixas');
+      return;
+    }
+
     if (pricingMode === 'tiered' && !isPriceTiersValid) {
       toast.error('Por favor, corrija os erros nos níveis de preço antes de salvar');
       return;
     }
 
+    if (isKit && kitItems.length === 0) {
+      toast.error('Adicione pelo menos um item ao kit');
+      return;
+    }
+
+    const duplicateSku = isKit
+      ? null
+      : findDuplicateVariantSku(buildProductVariantMatrix(data.colors, data.sizes, productVariants));
+    if (duplicateSku) {
+      toast.error(`O SKU ${duplicateSku} está em mais de uma variação`);
+      return;
+    }
+
     setLoading(true);
     try {
+      // Kits priced by their items get the price the database would compute
+      const kitPrice = isKit && kitDiscountPercent !== null
+        ? calculateKitPrice(kitItems, kitDiscountPercent)
+        : null;
+
       const productData = {
         title: data.title,
         description: data.description,
         short_description: data.short_description || '',
-        price: pricingMode === 'simple' ? data.price : 0,
-        discounted_price: data.featured_offer_price || null,
+        price: kitPrice ? kitPrice.price : pricingMode === 'simple' ? data.price : 0,
+        discounted_price: kitPrice ? kitPrice.discounted_price : data.featured_offer_price || null,
         is_starting_price: data.is_starting_price,
         featured_offer_price: data.featured_offer_price || null,
         featured_offer_installment: data.featured_offer_installment || null,
@@ -249,6 +323,14 @@ export default function EditProductPage() {
         colors: data.colors,
         sizes: data.sizes,
         has_tiered_pricing: pricingMode === 'tiered',
+        tier_template_id: pricingMode === 'tiered' ? tierTemplateId : null,
+        tier_base_price: pricingMode === 'tiered' && tierTemplateId ? tierBasePrice : null,
+        track_inventory: trackInventory,
+        min_quantity: data.min_quantity || null,
+        quantity_multiple: data.quantity_multiple && data.quantity_multiple > 1 ? data.quantity_multiple : null,
+        quote_only: data.quote_only,
+        product_type: isKit ? 'kit' : 'simple',
+        kit_discount_percent: isKit ? kitDiscountPercent : null,
       };
 
       const { error: productError } = await supabase
@@ -301,40 +383,62 @@ export default function EditProductPage() {
       }
 
       if (pricingMode === 'tiered') {
-        const { error: deleteOldTiersError } = await supabase
+        // Tiers are updated in place, matched by minimum quantity, so the
+        // price history only records the tiers that actually changed
+        const { data: existingTiers, error: existingTiersError } = await supabase
           .from('product_price_tiers')
-          .delete()
+          .select('id, min_quantity')
           .eq('product_id', id);
 
-        if (deleteOldTiersError) throw deleteOldTiersError;
+        if (existingTiersError) throw existingTiersError;
 
-        if (priceTiers.length > 0) {
-          const sortedTiers = [...priceTiers].sort((a, b) => a.min_quantity - b.min_quantity);
+        const sortedTiers = [...priceTiers].sort((a, b) => a.min_quantity - b.min_quantity);
 
-          const tierRecords = sortedTiers.map((tier, index, array) => {
-            const isLastTier = index === array.length - 1;
-            const nextTier = !isLastTier ? array[index + 1] : null;
+        const tierRecords = sortedTiers.map((tier, index, array) => {
+          const isLastTier = index === array.length - 1;
+          const nextTier = !isLastTier ? array[index + 1] : null;
 
-            const maxQuantity = isLastTier
-              ? null
-              : nextTier
-                ? nextTier.min_quantity - 1
-                : null;
+          const maxQuantity = isLastTier
+            ? null
+            : nextTier
+              ? nextTier.min_quantity - 1
+              : null;
 
-            return {
-              product_id: id,
-              min_quantity: tier.min_quantity,
-              max_quantity: maxQuantity,
-              unit_price: tier.unit_price,
-              discounted_unit_price: tier.discounted_unit_price,
-            };
-          });
+          return {
+            product_id: id,
+            min_quantity: tier.min_quantity,
+            max_quantity: maxQuantity,
+            unit_price: tier.unit_price,
+            discounted_unit_price: tier.discounted_unit_price,
+          };
+        });
+
+        const removedTierIds = (existingTiers || [])
+          .filter(existing => !tierRecords.some(record => record.min_quantity === existing.min_quantity))
+          .map(existing => existing.id);
 
-          const { error: tiersError } = await supabase
+        if (removedTierIds.length > 0) {
+          const { error: deleteOldTiersError } = await supabase
             .from('product_price_tiers')
-            .insert(tierRecords);
+            .delete()
+            .in('id', removedTierIds);
 
-          if (tiersError) throw tiersError;
+          if (deleteOldTiersError) throw deleteOldTiersError;
+        }
+
+        for (const record of tierRecords) {
+          const existing = existingTiers?.find(tier => tier.min_quantity === record.min_quantity);
+
+          const { error: tierError } = existing
+            ? await supabase
+                .from('product_price_tiers')
+                .update(record)
+                .eq('id', existing.id)
+            : await supabase
+                .from('product_price_tiers')
+                .insert(record);
+
+          if (tierError) throw tierError;
         }
       } else {
         const { error: deleteAllTiersError } = await supabase
@@ -345,6 +449,31 @@ export default function EditProductPage() {
         if (deleteAllTiersError) throw deleteAllTiersError;
       }
 
+      // Also clears the items of a product that stopped being a kit
+      if (isKit || kitItems.length > 0) {
+        await saveKitItems(id, isKit ? kitItems : []);
+      }
+
+      // Kits have no variants; photos removed above cannot be referenced anymore
+      if (productVariants.length > 0) {
+        const savedImageIds = new Set(images.filter((img) => !img.file).map((img) => img.id));
+        await saveProductVariants(
+          id,
+          isKit
+            ? []
+            : buildProductVariantMatrix(data.colors, data.sizes, productVariants).map((variant) => (
+                variant.image_id && !savedImageIds.has(variant.image_id) ? { ...variant, image_id: null } : variant
+              ))
+        );
+      }
+
+      if (trackInventory) {
+        await saveProductVariantStock(
+          id,
+          buildVariantStockMatrix(data.colors, data.sizes, variantStock)
+        );
+      }
+
       toast.success('Produto atualizado com sucesso!');
       navigate('/dashboard/listings');
     } catch (error) {
@@ -486,63 +615,142 @@ export default function EditProductPage() {
 
           <Card>
             <CardHeader>
-              <CardTitle>Preços</CardTitle>
+              <CardTitle>Estoque</CardTitle>
             </CardHeader>
-            <CardContent className="space-y-4">
-              <PricingModeToggle
-                isTieredPricing={pricingMode === 'tiered'}
-                onModeChange={(useTieredPricing) => {
-                  setPricingMode(useTieredPricing ? 'tiered' : 'simple');
-                  form.setValue('has_tiered_pricing', useTieredPricing);
+            <CardContent>
+              <VariantStockManager
+                colors={form.watch('colors')}
+                sizes={form.watch('sizes')}
+                enabled={trackInventory}
+                onEnabledChange={setTrackInventory}
+                stock={variantStock}
+                onChange={setVariantStock}
+              />
+            </CardContent>
+          </Card>
+
+          {!isKit && (
+            <Collapsible open={isVariantsOpen} onOpenChange={setIsVariantsOpen}>
+              <Card>
+                <CollapsibleTrigger className="w-full">
+                  <CardHeader className="cursor-pointer hover:bg-accent/50 transition-colors">
+                    <div className="flex items-center justify-between">
+                      <CardTitle>Variações (SKU, preço e foto)</CardTitle>
+                      <ChevronDown className={`h-5 w-5 transition-transform duration-200 ${isVariantsOpen ? 'transform rotate-180' : ''}`} />
+                    </div>
+                  </CardHeader>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <CardContent>
+                    <ProductVariantsManager
+                      colors={form.watch('colors')}
+                      sizes={form.watch('sizes')}
+                      variants={productVariants}
+                      onChange={setProductVariants}
+                      images={images.filter((img) => !img.file)}
+                      basePrice={form.watch('price')}
+                      hasTieredPricing={pricingMode === 'tiered'}
+                    />
+                  </CardContent>
+                </CollapsibleContent>
+              </Card>
+            </Collapsible>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Kit</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <KitComponentsManager
+                userId={user?.id}
+                kitId={id}
+                enabled={isKit}
+                onEnabledChange={(enabled) => {
+                  setIsKit(enabled);
+                  // Kits have a single price, tiers are not supported
+                  if (enabled) {
+                    setPricingMode('simple');
+                    form.setValue('has_tiered_pricing', false);
+                  }
                 }}
-                hasSinglePriceData={form.watch('price') > 0}
-                hasTieredPriceData={priceTiers.length > 0}
+                items={kitItems}
+                onChange={setKitItems}
+                discountPercent={kitDiscountPercent}
+                onDiscountPercentChange={setKitDiscountPercent}
               />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preços</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!isKit && (
+                <PricingModeToggle
+                  isTieredPricing={pricingMode === 'tiered'}
+                  onModeChange={(useTieredPricing) => {
+                    setPricingMode(useTieredPricing ? 'tiered' : 'simple');
+                    form.setValue('has_tiered_pricing', useTieredPricing);
+                  }}
+                  hasSinglePriceData={form.watch('price') > 0}
+                  hasTieredPriceData={priceTiers.length > 0}
+                />
+              )}
 
               {pricingMode === 'simple' ? (
                 <div className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="price"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Preço original do produto *</FormLabel>
-                        <FormControl>
-                          <CurrencyInput
-                            value={field.value}
-                            onChange={field.onChange}
-                            placeholder="R$ 0,00"
-                          />
-                        </FormControl>
-                        <FormDescription>
-                          Preço de venda do produto
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  {isKit && kitDiscountPercent !== null ? (
+                    <p className="text-sm text-muted-foreground">
+                      O preço deste kit é calculado pela soma dos itens com o desconto informado acima
+                    </p>
+                  ) : (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="price"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Preço original do produto *</FormLabel>
+                            <FormControl>
+                              <CurrencyInput
+                                value={field.value}
+                                onChange={field.onChange}
+                                placeholder="R$ 0,00"
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Preço de venda do produto
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                  <FormField
-                    control={form.control}
-                    name="featured_offer_price"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Preço promocional (deve ser menor que o preço original)</FormLabel>
-                        <FormControl>
-                          <DiscountPriceInput
-                            value={field.value}
-                            onChange={field.onChange}
-                            originalPrice={form.watch('price')}
-                            placeholder="R$ 0,00"
-                          />
-                        </FormControl>
-                        <FormDescription className="text-muted-foreground">
-                          Preço promocional opcional. Se preenchido, será exibido como oferta especial.
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                      <FormField
+                        control={form.control}
+                        name="featured_offer_price"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Preço promocional (deve ser menor que o preço original)</FormLabel>
+                            <FormControl>
+                              <DiscountPriceInput
+                                value={field.value}
+                                onChange={field.onChange}
+                                originalPrice={form.watch('price')}
+                                placeholder="R$ 0,00"
+                              />
+                            </FormControl>
+                            <FormDescription className="text-muted-foreground">
+                              Preço promocional opcional. Se preenchido, será exibido como oferta especial.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
 
                   <FormField
                     control={form.control}
@@ -566,15 +774,119 @@ export default function EditProductPage() {
                   />
                 </div>
               ) : (
-                <TieredPricingManager
-                  tiers={priceTiers}
-                  onChange={setPriceTiers}
-                  onValidationChange={setIsPriceTiersValid}
-                />
+                <div className="space-y-4">
+                  <TierTemplateSelector
+                    userId={user?.id}
+                    templateId={tierTemplateId}
+                    basePrice={tierBasePrice}
+                    tiers={priceTiers}
+                    onApply={(template, basePrice, tiers) => {
+                      setTierTemplateId(template.id);
+                      setTierBasePrice(basePrice);
+                      setPriceTiers(tiers);
+                      setIsPriceTiersValid(true);
+                    }}
+                    onDetach={detachTierTemplate}
+                  />
+                  <TieredPricingManager
+                    tiers={priceTiers}
+                    onChange={handleManualTiersChange}
+                    onValidationChange={setIsPriceTiersValid}
+                  />
+                </div>
               )}
             </CardContent>
           </Card>
 
+          {id && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Histórico de Preços</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PriceHistoryTimeline productId={id} userId={user?.id} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Venda no Atacado</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="min_quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quantidade mínima</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          placeholder="Sem mínimo"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : undefined)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Unidades do produto por pedido, somando cores e tamanhos
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="quantity_multiple"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Vender em múltiplos de</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          placeholder="Unidade"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : undefined)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Ex: 6 para vender apenas em pacotes de 6 unidades
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="quote_only"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4 mt-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">Preço sob consulta</FormLabel>
+                      <FormDescription>
+                        Esconde o preço na vitrine; o cliente pede um orçamento pelo carrinho
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Frase Promocional e Descrição</CardTitle>
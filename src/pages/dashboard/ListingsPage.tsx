@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
@@ -8,6 +8,8 @@ import { ListingsFilters } from '@/components/dashboard/ListingsFilters';
 import { ListingsStatusBar } from '@/components/dashboard/ListingsStatusBar';
 import { ProductGrid } from '@/components/dashboard/ProductGrid';
 import { BulkActionsPanel } from '@/components/dashboard/BulkActionsPanel';
+import { ProductImportDialog } from '@/components/dashboard/ProductImportDialog';
+import { ProductExportDialog } from '@/components/dashboard/ProductExportDialog';
 import { useProductListManagement } from '@/hooks/useProductListManagement';
 
 export default function ListingsPage() {
@@ -43,11 +45,22 @@ export default function ListingsPage() {
     handleBulkBrandChange,
     handleBulkDelete,
     handleBulkImageCompression,
+    handleBulkPromotionCreate,
+    previewBulkPriceAdjustment,
+    handleBulkPriceAdjustment,
+    handleBulkTierTemplateApply,
+    canUndoPriceAdjustment,
+    handleUndoPriceAdjustment,
     handleDragEnd,
     refreshProducts
   } = useProductListManagement({ userId: user?.id });
 
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const selectedProductIds = useMemo(() => Array.from(selectedProducts), [selectedProducts]);
+  const allProductIds = useMemo(() => products.map(product => product.id), [products]);
+  const filteredProductIds = useMemo(() => filteredProducts.map(product => product.id), [filteredProducts]);
 
   return (
     <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
@@ -59,6 +72,8 @@ export default function ListingsPage() {
         filteredProductsLength={filteredProducts.length}
         onToggleReorderMode={() => setIsReorderModeActive(!isReorderModeActive)}
         onSelectAll={handleSelectAll}
+        onImport={() => setImportOpen(true)}
+        onExport={() => setExportOpen(true)}
       />
 
       <ListingsFilters
@@ -77,16 +92,23 @@ export default function ListingsPage() {
         selectedCount={selectedProducts.size}
         allSelected={allSelected}
         onSelectAll={handleSelectAll}
+        onUndoPriceAdjustment={canUndoPriceAdjustment ? handleUndoPriceAdjustment : undefined}
+        undoDisabled={bulkActionLoading}
       />
 
       {selectedProducts.size > 0 && (
         <BulkActionsPanel
           selectedCount={selectedProducts.size}
+          selectedProductIds={selectedProductIds}
           onBulkVisibilityToggle={handleBulkVisibilityToggle}
           onBulkCategoryChange={handleBulkCategoryChange}
           onBulkBrandChange={handleBulkBrandChange}
           onBulkDelete={handleBulkDelete}
           onBulkImageCompression={handleBulkImageCompression}
+          onBulkPromotionCreate={handleBulkPromotionCreate}
+          onBulkPriceAdjustmentPreview={previewBulkPriceAdjustment}
+          onBulkPriceAdjustment={handleBulkPriceAdjustment}
+          onBulkTierTemplateApply={handleBulkTierTemplateApply}
           onClearSelection={() => setSelectedProducts(new Set())}
           loading={bulkActionLoading}
           userId={user?.id}
@@ -106,6 +128,22 @@ export default function ListingsPage() {
         onDragEnd={handleDragEnd}
       />
 
+      <ProductImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        userId={user?.id}
+        onImported={refreshProducts}
+      />
+
+      <ProductExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        userId={user?.id}
+        allProductIds={allProductIds}
+        filteredProductIds={filteredProductIds}
+        selectedProductIds={selectedProductIds}
+      />
+
       {!loading && filteredProducts.length === 0 && (
         <div className="text-center py-12">
           <p className="text-muted-foreground mb-4">Nenhum produto encontrado</p>
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchOrderById } from '@/lib/orderUtils';
+import {
+  ORDER_PRINT_LAYOUT_LABELS,
+  parseOrderPrintLayout,
+  type OrderPrintLayout,
+} from '@/lib/orderPrintUtils';
+import OrderPrintView from '@/components/orders/OrderPrintView';
+import type { Order } from '@/types';
+
+export default function OrderPrintPage() {
+  const { orderId } = useParams<{ orderId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(true);
+  const layout = parseOrderPrintLayout(searchParams.get('layout'));
+
+  useEffect(() => {
+    if (!orderId) return;
+
+    const loadOrder = async () => {
+      setLoading(true);
+      const data = await fetchOrderById(orderId);
+      setOrder(data);
+      setLoading(false);
+    };
+
+    loadOrder();
+  }, [orderId]);
+
+  useEffect(() => {
+    if (order) {
+      document.title = `${ORDER_PRINT_LAYOUT_LABELS[layout]} ${order.code}`;
+    }
+  }, [order, layout]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen gap-4">
+        <p className="text-muted-foreground">Pedido não encontrado</p>
+        <Button asChild variant="outline">
+          <Link to="/dashboard/orders">Voltar para pedidos</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-muted/40 print:bg-white">
+      <div className="print:hidden border-b bg-background">
+        <div className="container mx-auto max-w-4xl px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/dashboard/orders">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Pedidos
+            </Link>
+          </Button>
+
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(ORDER_PRINT_LAYOUT_LABELS) as OrderPrintLayout[]).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={layout === option ? 'default' : 'outline'}
+                onClick={() => setSearchParams({ layout: option }, { replace: true })}
+              >
+                {ORDER_PRINT_LAYOUT_LABELS[option]}
+              </Button>
+            ))}
+            <Button size="sm" variant="outline" onClick={() => window.print()}>
+              <Printer className="h-4 w-4 mr-2" />
+              Imprimir / Salvar PDF
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto max-w-4xl px-4 py-6 print:p-0 print:max-w-none">
+        <div className="bg-white rounded-lg shadow-sm p-8 print:shadow-none print:rounded-none print:p-0">
+          <OrderPrintView order={order} layout={layout} seller={user} />
+        </div>
+      </div>
+    </div>
+  );
+}
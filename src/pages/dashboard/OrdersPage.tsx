@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ClipboardList, Search, Eye, Trash2, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrders, type OrderPeriodFilter } from '@/hooks/useOrders';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { ORDER_STATUS_FLOW, ORDER_STATUS_LABELS } from '@/lib/orderUtils';
+import OrderDetailsDialog from '@/components/orders/OrderDetailsDialog';
+import OrderStatusBadge from '@/components/orders/OrderStatusBadge';
+import type { Order, OrderStatus } from '@/types';
+
+export default function OrdersPage() {
+  const { user } = useAuth();
+  const {
+    orders,
+    loading,
+    searchQuery,
+    setSearchQuery,
+    periodFilter,
+    setPeriodFilter,
+    statusFilter,
+    setStatusFilter,
+    refreshOrders,
+    changeOrderStatus,
+    removeOrder,
+  } = useOrders(user?.id);
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+  const [orderToDelete, setOrderToDelete] = useState<Order | null>(null);
+
+  const formatOrderTotal = (order: Order) =>
+    formatCurrencyI18n(
+      order.total,
+      (order.currency || 'BRL') as SupportedCurrency,
+      (order.language || 'pt-BR') as SupportedLanguage
+    );
+
+  // Derived from the list so status changes show up in the open dialog
+  const selectedOrder = orders.find(order => order.id === selectedOrderId) || null;
+
+  const handleConfirmDelete = async () => {
+    if (!orderToDelete) return;
+    await removeOrder(orderToDelete.id);
+    setOrderToDelete(null);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Pedidos</h1>
+          <p className="text-muted-foreground">
+            Pedidos enviados pelo carrinho da sua vitrine
+          </p>
+        </div>
+        <Button variant="outline" onClick={refreshOrders} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Atualizar
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Buscar por código ou nome do cliente..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as OrderStatus | 'todos')}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="todos">Todos os status</SelectItem>
+            {ORDER_STATUS_FLOW.map((status) => (
+              <SelectItem key={status} value={status}>
+                {ORDER_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={periodFilter} onValueChange={(value) => setPeriodFilter(value as OrderPeriodFilter)}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="Período" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="todos">Todo o período</SelectItem>
+            <SelectItem value="hoje">Hoje</SelectItem>
+            <SelectItem value="7dias">Últimos 7 dias</SelectItem>
+            <SelectItem value="30dias">Últimos 30 dias</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Orders List */}
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : orders.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <ClipboardList className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold">Nenhum pedido encontrado</h3>
+            <p className="text-muted-foreground max-w-md">
+              {searchQuery || periodFilter !== 'todos' || statusFilter !== 'todos'
+                ? 'Tente ajustar os filtros de busca.'
+                : 'Quando um cliente enviar um pedido pelo carrinho da vitrine, ele aparecerá aqui.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Código</TableHead>
+                <TableHead>Data</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-center">Itens</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order) => (
+                <TableRow
+                  key={order.id}
+                  className="cursor-pointer"
+                  onClick={() => setSelectedOrderId(order.id)}
+                >
+                  <TableCell>
+                    <div className="font-medium">{order.code}</div>
+                    {order.customer_name && (
+                      <div className="text-xs text-muted-foreground">{order.customer_name}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {format(new Date(order.created_at), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+                  </TableCell>
+                  <TableCell>
+                    <OrderStatusBadge status={order.status} />
+                  </TableCell>
+                  <TableCell className="text-center">{order.item_count}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatOrderTotal(order)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSelectedOrderId(order.id);
+                        }}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setOrderToDelete(order);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <OrderDetailsDialog
+        order={selectedOrder}
+        open={!!selectedOrder}
+        onOpenChange={(open) => !open && setSelectedOrderId(null)}
+        storeSlug={user?.slug}
+        onStatusChange={changeOrderStatus}
+      />
+
+      <AlertDialog open={!!orderToDelete} onOpenChange={(open) => !open && setOrderToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir pedido</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir o pedido {orderToDelete?.code}? Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
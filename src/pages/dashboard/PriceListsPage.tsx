@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { BadgePercent, Plus, Pencil, Trash2, Users, XCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePriceLists } from '@/hooks/usePriceLists';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatCnpj, formatPriceListRule } from '@/lib/priceListUtils';
+import PriceListFormDialog from '@/components/priceLists/PriceListFormDialog';
+import PriceListCustomerStatusBadge from '@/components/priceLists/PriceListCustomerStatusBadge';
+import type { PriceList, PriceListCustomer } from '@/types';
+
+const formatDate = (value: string) => format(new Date(value), 'dd/MM/yyyy', { locale: ptBR });
+
+export default function PriceListsPage() {
+  const { user } = useAuth();
+  const {
+    priceLists,
+    customers,
+    loading,
+    upsertPriceList,
+    togglePriceList,
+    removePriceList,
+    reviewCustomer,
+    removeCustomer
+  } = usePriceLists(user?.id);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingPriceList, setEditingPriceList] = useState<PriceList | null>(null);
+  const [priceListToDelete, setPriceListToDelete] = useState<PriceList | null>(null);
+  const [customerToDelete, setCustomerToDelete] = useState<PriceListCustomer | null>(null);
+
+  const openCreateForm = () => {
+    setEditingPriceList(null);
+    setFormOpen(true);
+  };
+
+  const openEditForm = (priceList: PriceList) => {
+    setEditingPriceList(priceList);
+    setFormOpen(true);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!priceListToDelete) return;
+    await removePriceList(priceListToDelete.id);
+    setPriceListToDelete(null);
+  };
+
+  const handleConfirmDeleteCustomer = async () => {
+    if (!customerToDelete) return;
+    await removeCustomer(customerToDelete.id);
+    setCustomerToDelete(null);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Tabelas de Preço</h1>
+          <p className="text-muted-foreground">
+            Preços de atacado e revenda liberados por código de acesso ou por cadastro aprovado
+          </p>
+        </div>
+        <Button onClick={openCreateForm}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Tabela
+        </Button>
+      </div>
+
+      {/* Price Lists */}
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : priceLists.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <BadgePercent className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold">Nenhuma tabela de preço cadastrada</h3>
+            <p className="text-muted-foreground max-w-md">
+              Crie tabelas como Atacado ou Revendedor com um percentual sobre o preço normal ou preços
+              próprios por produto. Sua vitrine passa a oferecer o acesso aos clientes.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tabela</TableHead>
+                <TableHead>Regra</TableHead>
+                <TableHead>Preços próprios</TableHead>
+                <TableHead>Código</TableHead>
+                <TableHead className="text-center">Ativa</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {priceLists.map((priceList) => (
+                <TableRow key={priceList.id}>
+                  <TableCell>
+                    <div className="font-medium">{priceList.name}</div>
+                    {priceList.description && (
+                      <div className="text-sm text-muted-foreground">{priceList.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{formatPriceListRule(priceList)}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {priceList.items.length > 0
+                      ? `${priceList.items.length} produto${priceList.items.length > 1 ? 's' : ''}`
+                      : '-'}
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{priceList.access_code || '-'}</TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={priceList.is_active}
+                      onCheckedChange={(checked) => togglePriceList(priceList.id, checked)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => openEditForm(priceList)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                        onClick={() => setPriceListToDelete(priceList)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      {/* Customer Registrations */}
+      {!loading && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Cadastros de clientes
+            </CardTitle>
+            <CardDescription>
+              Clientes que se cadastraram com CNPJ na vitrine. Aprove escolhendo a tabela que eles vão ver.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {customers.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                Nenhum cadastro recebido ainda
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Cliente</TableHead>
+                    <TableHead>CNPJ</TableHead>
+                    <TableHead>Contato</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Tabela</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {customers.map((customer) => (
+                    <TableRow key={customer.id}>
+                      <TableCell>
+                        <div className="font-medium">{customer.name}</div>
+                        {customer.company_name && (
+                          <div className="text-sm text-muted-foreground">{customer.company_name}</div>
+                        )}
+                        <div className="text-xs text-muted-foreground">{formatDate(customer.created_at)}</div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{formatCnpj(customer.cnpj)}</TableCell>
+                      <TableCell className="text-sm">
+                        {customer.phone && <div>{customer.phone}</div>}
+                        {customer.email && <div className="text-muted-foreground">{customer.email}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <PriceListCustomerStatusBadge status={customer.status} />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={customer.status === 'aprovado' ? customer.price_list_id || undefined : undefined}
+                          onValueChange={(priceListId) => reviewCustomer(customer.id, 'aprovado', priceListId)}
+                          disabled={priceLists.length === 0}
+                        >
+                          <SelectTrigger className="w-40 h-8">
+                            <SelectValue placeholder="Aprovar com..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {priceLists.map((priceList) => (
+                              <SelectItem key={priceList.id} value={priceList.id}>
+                                {priceList.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          {customer.status !== 'recusado' && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 w-8 p-0"
+                              title="Recusar"
+                              onClick={() => reviewCustomer(customer.id, 'recusado', null)}
+                            >
+                              <XCircle className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                            onClick={() => setCustomerToDelete(customer)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <PriceListFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        priceList={editingPriceList}
+        userId={user?.id}
+        onSave={upsertPriceList}
+      />
+
+      <AlertDialog open={!!priceListToDelete} onOpenChange={(open) => !open && setPriceListToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir tabela de preço</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir a tabela {priceListToDelete?.name}? Os clientes aprovados nela voltam a ver os preços normais.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!customerToDelete} onOpenChange={(open) => !open && setCustomerToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir cadastro</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir o cadastro de {customerToDelete?.name}? O cliente perde o acesso à tabela de preço.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDeleteCustomer}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Timer, Plus, Pencil, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePromotions } from '@/hooks/usePromotions';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatPromotionDiscount } from '@/lib/promotionUtils';
+import PromotionFormDialog from '@/components/promotions/PromotionFormDialog';
+import PromotionStatusBadge from '@/components/promotions/PromotionStatusBadge';
+import type { Promotion } from '@/types';
+
+const formatDateTime = (value: string) => format(new Date(value), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+
+const getScopeLabel = (promotion: Promotion) => {
+  const parts: string[] = [];
+  if (promotion.categories.length > 0) {
+    parts.push(`${promotion.categories.length} categoria${promotion.categories.length > 1 ? 's' : ''}`);
+  }
+  if (promotion.product_ids.length > 0) {
+    parts.push(`${promotion.product_ids.length} produto${promotion.product_ids.length > 1 ? 's' : ''}`);
+  }
+  return parts.length > 0 ? parts.join(' • ') : 'Loja inteira';
+};
+
+export default function PromotionsPage() {
+  const { user } = useAuth();
+  const { promotions, loading, upsertPromotion, togglePromotion, removePromotion } = usePromotions(user?.id);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [promotionToDelete, setPromotionToDelete] = useState<Promotion | null>(null);
+
+  const openCreateForm = () => {
+    setEditingPromotion(null);
+    setFormOpen(true);
+  };
+
+  const openEditForm = (promotion: Promotion) => {
+    setEditingPromotion(promotion);
+    setFormOpen(true);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!promotionToDelete) return;
+    await removePromotion(promotionToDelete.id);
+    setPromotionToDelete(null);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Promoções</h1>
+          <p className="text-muted-foreground">
+            Descontos agendados que mudam os preços da vitrine no início e voltam ao normal no fim
+          </p>
+        </div>
+        <Button onClick={openCreateForm}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Promoção
+        </Button>
+      </div>
+
+      {/* Promotions List */}
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : promotions.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <Timer className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold">Nenhuma promoção cadastrada</h3>
+            <p className="text-muted-foreground max-w-md">
+              Agende promoções por produto ou categoria, ou selecione vários produtos na lista de produtos
+              e use "Criar Promoção".
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Promoção</TableHead>
+                <TableHead>Desconto</TableHead>
+                <TableHead>Aplica-se a</TableHead>
+                <TableHead>Período</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-center">Ativa</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promotions.map((promotion) => (
+                <TableRow key={promotion.id}>
+                  <TableCell className="font-medium">{promotion.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{formatPromotionDiscount(promotion)}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{getScopeLabel(promotion)}</TableCell>
+                  <TableCell className="text-sm">
+                    <div>{formatDateTime(promotion.starts_at)}</div>
+                    <div className="text-muted-foreground">até {formatDateTime(promotion.ends_at)}</div>
+                  </TableCell>
+                  <TableCell>
+                    <PromotionStatusBadge promotion={promotion} />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={promotion.is_active}
+                      onCheckedChange={(checked) => togglePromotion(promotion.id, checked)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => openEditForm(promotion)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                        onClick={() => setPromotionToDelete(promotion)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <PromotionFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        promotion={editingPromotion}
+        userId={user?.id}
+        onSave={upsertPromotion}
+      />
+
+      <AlertDialog open={!!promotionToDelete} onOpenChange={(open) => !open && setPromotionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir promoção</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir a promoção {promotionToDelete?.name}? Os produtos voltam ao preço normal imediatamente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
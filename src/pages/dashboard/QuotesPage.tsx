@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { FileText, MessageCircle, Eye, Ban, Trash2, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuotes } from '@/hooks/useQuotes';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatCurrency, formatPhone } from '@/lib/utils';
+import { QUOTE_PRICE_LABEL, QUOTE_STATUS_LABELS, formatQuoteDate, isQuoteExpired } from '@/lib/quoteUtils';
+import QuoteStatusBadge from '@/components/quotes/QuoteStatusBadge';
+import QuoteAnswerDialog from '@/components/quotes/QuoteAnswerDialog';
+import type { Quote, QuoteStatus } from '@/types';
+
+const STATUS_FILTERS: QuoteStatus[] = ['pendente', 'respondido', 'aceito', 'recusado'];
+
+const formatAge = (value: string) =>
+  formatDistanceToNow(new Date(value), { addSuffix: true, locale: ptBR });
+
+export default function QuotesPage() {
+  const { user } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<QuoteStatus | 'todos'>('todos');
+  const {
+    quotes,
+    loading,
+    validityDays,
+    refreshQuotes,
+    respondQuote,
+    sendQuote,
+    rejectQuote,
+    removeQuote,
+  } = useQuotes(user, statusFilter === 'todos' ? undefined : statusFilter);
+  const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null);
+  const [quoteToDecline, setQuoteToDecline] = useState<Quote | null>(null);
+  const [quoteToDelete, setQuoteToDelete] = useState<Quote | null>(null);
+
+  const handleConfirmDecline = async () => {
+    if (!quoteToDecline) return;
+    await rejectQuote(quoteToDecline.id);
+    setQuoteToDecline(null);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!quoteToDelete) return;
+    await removeQuote(quoteToDelete.id);
+    setQuoteToDelete(null);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Orçamentos</h1>
+          <p className="text-muted-foreground">
+            Solicitações dos produtos sob consulta. Responda com os preços e o cliente aceita pelo link
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as QuoteStatus | 'todos')}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="todos">Todos</SelectItem>
+              {STATUS_FILTERS.map((status) => (
+                <SelectItem key={status} value={status}>{QUOTE_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={refreshQuotes} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Atualizar
+          </Button>
+        </div>
+      </div>
+
+      {/* Quotes List */}
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : quotes.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <FileText className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold">Nenhum orçamento encontrado</h3>
+            <p className="text-muted-foreground max-w-md">
+              Quando um cliente pedir orçamento de um produto sob consulta, a solicitação aparece aqui.
+              Ative em Configurações da vitrine ou no cadastro de cada produto.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Código</TableHead>
+                <TableHead>Cliente</TableHead>
+                <TableHead className="text-center">Peças</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Recebido</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quotes.map((quote) => {
+                const canAnswer = quote.status === 'pendente' || quote.status === 'respondido';
+
+                return (
+                  <TableRow key={quote.id}>
+                    <TableCell className="font-mono text-sm">{quote.code}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{quote.customer_name || 'Cliente sem nome'}</div>
+                      {quote.customer_phone && (
+                        <div className="text-xs text-muted-foreground">{formatPhone(quote.customer_phone)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">{quote.item_count}</TableCell>
+                    <TableCell className="text-right font-medium">
+                      {quote.total != null ? formatCurrency(quote.total) : QUOTE_PRICE_LABEL}
+                    </TableCell>
+                    <TableCell>
+                      <QuoteStatusBadge quote={quote} />
+                      {quote.status === 'respondido' && quote.valid_until && !isQuoteExpired(quote) && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Até {formatQuoteDate(quote.valid_until)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatAge(quote.created_at)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant={quote.status === 'pendente' ? 'default' : 'outline'}
+                          onClick={() => setSelectedQuote(quote)}
+                        >
+                          {canAnswer ? (
+                            <MessageCircle className="h-4 w-4 mr-2" />
+                          ) : (
+                            <Eye className="h-4 w-4 mr-2" />
+                          )}
+                          {quote.status === 'pendente' ? 'Responder' : canAnswer ? 'Editar' : 'Ver'}
+                        </Button>
+                        {quote.status === 'respondido' && quote.customer_phone && !isQuoteExpired(quote) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-8 w-8 p-0"
+                            title="Reenviar no WhatsApp"
+                            onClick={() => sendQuote(quote)}
+                          >
+                            <MessageCircle className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canAnswer && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-8 w-8 p-0"
+                            title="Recusar"
+                            onClick={() => setQuoteToDecline(quote)}
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          onClick={() => setQuoteToDelete(quote)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <QuoteAnswerDialog
+        quote={selectedQuote}
+        open={!!selectedQuote}
+        onOpenChange={(open) => !open && setSelectedQuote(null)}
+        validityDays={validityDays}
+        onAnswer={respondQuote}
+      />
+
+      <AlertDialog open={!!quoteToDecline} onOpenChange={(open) => !open && setQuoteToDecline(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Recusar orçamento</AlertDialogTitle>
+            <AlertDialogDescription>
+              O orçamento {quoteToDecline?.code} aparecerá como recusado para o cliente e não poderá mais ser aceito.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDecline}>
+              Recusar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!quoteToDelete} onOpenChange={(open) => !open && setQuoteToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir orçamento</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir o orçamento {quoteToDelete?.code}? O link enviado ao cliente deixará de funcionar.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
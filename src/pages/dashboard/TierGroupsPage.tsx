@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Layers, Plus, Pencil, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTierGroups } from '@/hooks/useTierGroups';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import TierGroupFormDialog from '@/components/tierGroups/TierGroupFormDialog';
+import type { TierGroup } from '@/types';
+
+const getScopeLabel = (group: TierGroup) => {
+  const parts: string[] = [];
+  if (group.categories.length > 0) {
+    parts.push(`${group.categories.length} categoria${group.categories.length > 1 ? 's' : ''}`);
+  }
+  if (group.product_ids.length > 0) {
+    parts.push(`${group.product_ids.length} produto${group.product_ids.length > 1 ? 's' : ''}`);
+  }
+  return parts.join(' • ');
+};
+
+export default function TierGroupsPage() {
+  const { user } = useAuth();
+  const { tierGroups, loading, upsertTierGroup, toggleTierGroup, removeTierGroup } = useTierGroups(user?.id);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<TierGroup | null>(null);
+  const [groupToDelete, setGroupToDelete] = useState<TierGroup | null>(null);
+
+  const openCreateForm = () => {
+    setEditingGroup(null);
+    setFormOpen(true);
+  };
+
+  const openEditForm = (group: TierGroup) => {
+    setEditingGroup(group);
+    setFormOpen(true);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!groupToDelete) return;
+    await removeTierGroup(groupToDelete.id);
+    setGroupToDelete(null);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Grupos de Quantidade</h1>
+          <p className="text-muted-foreground">
+            Some as peças de produtos diferentes para o cliente alcançar o preço por quantidade
+          </p>
+        </div>
+        <Button onClick={openCreateForm}>
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Grupo
+        </Button>
+      </div>
+
+      {/* Groups List */}
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : tierGroups.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <Layers className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold">Nenhum grupo cadastrado</h3>
+            <p className="text-muted-foreground max-w-md">
+              Com um grupo "Camisetas", quem leva 3 unidades de 4 modelos diferentes paga o preço da faixa de 12 peças.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Grupo</TableHead>
+                <TableHead>Produtos</TableHead>
+                <TableHead className="text-center">Ativo</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tierGroups.map((group) => (
+                <TableRow key={group.id}>
+                  <TableCell className="font-medium">{group.name}</TableCell>
+                  <TableCell className="text-sm">
+                    <div>{getScopeLabel(group)}</div>
+                    {group.categories.length > 0 && (
+                      <div className="text-muted-foreground">{group.categories.join(', ')}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={group.is_active}
+                      onCheckedChange={(checked) => toggleTierGroup(group.id, checked)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => openEditForm(group)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                        onClick={() => setGroupToDelete(group)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <TierGroupFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        group={editingGroup}
+        userId={user?.id}
+        onSave={upsertTierGroup}
+      />
+
+      <AlertDialog open={!!groupToDelete} onOpenChange={(open) => !open && setGroupToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir grupo</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir o grupo {groupToDelete?.name}? Cada produto volta a ter o preço pela própria quantidade.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
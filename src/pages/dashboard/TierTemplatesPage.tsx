@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { ListOrdered, Plus, Pencil, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTierTemplates } from '@/hooks/useTierTemplates';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import TierTemplateFormDialog from '@/components/tierTemplates/TierTemplateFormDialog';
+import { TIER_TEMPLATE_PRICING_LABELS } from '@/lib/tierTemplateUtils';
+import { formatCurrency } from '@/lib/utils';
+import type { TierTemplate } from '@/types';
+
+const getStepsLabel = (template: TierTemplate) =>
+  template.tiers
+    .map(step => `${step.min_quantity}+ un.: ${template.pricing_type === 'percentage'
+      ? `-${step.value}%`
+      : formatCurrency(step.value)}`)
+    .join(' • ');
+
+export default function TierTemplatesPage() {
+  const { user } = useAuth();
+  const { tierTemplates, loading, upsertTierTemplate, removeTierTemplate } = useTierTemplates(user?.id);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<TierTemplate | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<TierTemplate | null>(null);
+
+  const openCreateForm = () => {
+    setEditingTemplate(null);
+    setFormOpen(true);
+  };
+
+  const openEditForm = (template: TierTemplate) => {
+    setEditingTemplate(template);
+    setFormOpen(true);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!templateToDelete) return;
+    await removeTierTemplate(templateToDelete.id);
+    setTemplateToDelete(null);
+  };
+
+  return (
+    <div className="w-full px-4 sm:px-6 lg:px-8 xl:px-12 2xl:px-16 py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Modelos de Faixas</h1>
+          <p className="text-muted-foreground">
+            Cadastre as faixas de atacado uma vez e aplique em vários produtos
+          </p>
+        </div>
+        <Button onClick={openCreateForm}>
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Modelo
+        </Button>
+      </div>
+
+      {/* Templates List */}
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : tierTemplates.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <ListOrdered className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold">Nenhum modelo cadastrado</h3>
+            <p className="text-muted-foreground max-w-md">
+              Com um modelo "Atacado camisetas" de 10% a partir de 10 peças e 20% a partir de 50, basta aplicá-lo aos produtos em vez de digitar as faixas de cada um.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Modelo</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Faixas</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tierTemplates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell className="font-medium">{template.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{TIER_TEMPLATE_PRICING_LABELS[template.pricing_type]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{getStepsLabel(template)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => openEditForm(template)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                        onClick={() => setTemplateToDelete(template)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <TierTemplateFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        template={editingTemplate}
+        onSave={upsertTierTemplate}
+      />
+
+      <AlertDialog open={!!templateToDelete} onOpenChange={(open) => !open && setTemplateToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir modelo</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir o modelo {templateToDelete?.name}? Os produtos vinculados mantêm as faixas atuais e passam a ser editados individualmente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -48,6 +48,7 @@ export interface UserImageSettings {
 
 export type ProductStatus = 'disponivel' | 'vendido' | 'reservado';
 export type ProductGender = 'masculino' | 'feminino' | 'unissex';
+export type ProductType = 'simple' | 'kit';
 
 export type MediaType = 'image' | 'video';
 
@@ -70,6 +71,32 @@ export interface PriceTier {
   updated_at?: string;
 }
 
+export interface ProductVariantStock {
+  id?: string;
+  product_id?: string;
+  color: string;
+  size: string;
+  quantity: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Optional overrides of a color×size combination, combinations without a row use the product values
+export interface ProductVariant {
+  id?: string;
+  product_id?: string;
+  color: string;
+  size: string;
+  sku?: string | null;
+  barcode?: string | null;
+  price?: number | null;
+  weight?: number | null;
+  image_id?: string | null;
+  image?: Pick<ProductImage, 'url'> | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface Product {
   id: string;
   user_id: string;
@@ -91,6 +118,8 @@ export interface Product {
   is_starting_price?: boolean;
   short_description?: string;
   is_visible_on_storefront?: boolean;
+  // Position in the dashboard and on the storefront
+  display_order?: number | null;
   external_checkout_url?: string;
   has_tiered_pricing?: boolean;
   created_at: string;
@@ -99,6 +128,25 @@ export interface Product {
   colors?: string[];
   sizes?: string[];
   price_tiers?: PriceTier[];
+  track_inventory?: boolean;
+  variant_stock?: ProductVariantStock[];
+  variants?: ProductVariant[];
+  min_quantity?: number | null;
+  quantity_multiple?: number | null;
+  quote_only?: boolean;
+  // Set on the storefront while a scheduled promotion is running
+  promotion_ends_at?: string | null;
+  // Set on the storefront when an unlocked price list changes the price
+  price_list_factor?: number;
+  // Set on the storefront when the price is the lowest of the last 30 days
+  is_lowest_price?: boolean;
+  // Template the price tiers come from, null when edited by hand
+  tier_template_id?: string | null;
+  tier_base_price?: number | null;
+  product_type?: ProductType;
+  // Discount (%) over the sum of the kit items, null when the kit has its own price
+  kit_discount_percent?: number | null;
+  kit_items?: ProductKitItem[];
 }
 
 export interface ProductCategory {
@@ -195,6 +243,18 @@ export interface CartItem {
   variantId?: string;
   has_tiered_pricing?: boolean;
   applied_tier_price?: number;
+  category?: string[];
+  min_quantity?: number | null;
+  quantity_multiple?: number | null;
+  quote_only?: boolean;
+  price_list_factor?: number;
+  kit_components?: KitComponent[];
+  sku?: string;
+  // Variant overrides and product prices, to reprice the line when the
+  // customer changes the color or size in the cart
+  variants?: ProductVariant[];
+  product_price?: number;
+  product_discounted_price?: number;
 }
 
 export interface DistributionItem {
@@ -231,10 +291,511 @@ export interface CartDistribution {
 export interface CartState {
   items: CartItem[];
   distributions: CartDistribution[];
+  subtotal: number;
+  discount: number;
+  coupon?: Coupon | null;
+  shipping?: ShippingOption | null;
+  shippingCep?: string;
   total: number;
   itemCount: number;
 }
 
+// Coupon Types
+export type CouponDiscountType = 'percentage' | 'fixed';
+
+export interface Coupon {
+  id: string;
+  user_id: string;
+  code: string;
+  description?: string | null;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  min_order_value?: number | null;
+  category_restrictions: string[];
+  product_restrictions: string[];
+  starts_at?: string | null;
+  expires_at?: string | null;
+  usage_limit?: number | null;
+  usage_count: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Promotion Types
+export type PromotionDiscountType = 'percentage' | 'fixed';
+
+export interface Promotion {
+  id: string;
+  user_id: string;
+  name: string;
+  discount_type: PromotionDiscountType;
+  discount_value: number;
+  product_ids: string[];
+  categories: string[];
+  starts_at: string;
+  ends_at: string;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Price History Types
+export interface ProductPriceHistoryEntry {
+  id: string;
+  product_id: string;
+  user_id: string;
+  // Null for changes to the product price
+  price_tier_id?: string | null;
+  min_quantity?: number | null;
+  old_price?: number | null;
+  new_price?: number | null;
+  old_discounted_price?: number | null;
+  new_discounted_price?: number | null;
+  changed_by?: string | null;
+  created_at: string;
+  changed_by_user?: {
+    name: string;
+  } | null;
+}
+
+export interface LowestProductPrice {
+  product_id: string;
+  lowest_price: number;
+  highest_price: number;
+}
+
+// Installment Types
+export interface InstallmentSettings {
+  user_id: string;
+  is_enabled: boolean;
+  max_installments: number;
+  interest_free_installments: number;
+  min_installment_value: number;
+  // Monthly interest rate (%) by number of installments
+  interest_rates: Record<string, number>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Kit Types
+export interface ProductKitItem {
+  id?: string;
+  kit_id?: string;
+  component_id: string;
+  quantity: number;
+  // Fixed variant, null when the customer chooses it
+  color?: string | null;
+  size?: string | null;
+  display_order?: number;
+  component?: Product;
+}
+
+// Piece of a kit in the cart and in the order, quantity per kit
+export interface KitComponent {
+  product_id: string;
+  title: string;
+  quantity: number;
+  color?: string;
+  size?: string;
+}
+
+// Tier Template Types
+export type TierTemplatePricingType = 'fixed' | 'percentage';
+
+export interface TierTemplateStep {
+  min_quantity: number;
+  // Unit price, or discount (%) off the base price for percentage templates
+  value: number;
+}
+
+export interface TierTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  pricing_type: TierTemplatePricingType;
+  tiers: TierTemplateStep[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Tier Group Types
+export interface TierGroup {
+  id: string;
+  user_id: string;
+  name: string;
+  product_ids: string[];
+  categories: string[];
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Price List Types
+export type PriceListCustomerStatus = 'pendente' | 'aprovado' | 'recusado';
+
+export interface PriceListItem {
+  price_list_id?: string;
+  product_id: string;
+  price: number;
+}
+
+export interface PriceList {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+  adjustment_percentage: number;
+  access_code?: string | null;
+  is_active: boolean;
+  items: PriceListItem[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Price list as unlocked by a storefront visitor
+export type StorefrontPriceList = Pick<PriceList, 'id' | 'name' | 'adjustment_percentage' | 'items'>;
+
+export interface PriceListCustomer {
+  id: string;
+  user_id: string;
+  price_list_id?: string | null;
+  name: string;
+  company_name?: string | null;
+  cnpj: string;
+  phone?: string | null;
+  email?: string | null;
+  status: PriceListCustomerStatus;
+  created_at: string;
+  updated_at?: string;
+}
+
+// Wholesale Types
+export interface WholesaleSettings {
+  user_id: string;
+  min_order_value?: number | null;
+  min_order_quantity?: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Shipping Types
+export type ShippingRuleMatchType = 'prefix' | 'range';
+export type ShippingOptionType = 'delivery' | 'pickup';
+
+export interface ShippingRule {
+  id: string;
+  user_id: string;
+  name: string;
+  match_type: ShippingRuleMatchType;
+  cep_prefix?: string | null;
+  cep_start?: string | null;
+  cep_end?: string | null;
+  price: number;
+  delivery_days_min?: number | null;
+  delivery_days_max?: number | null;
+  is_active: boolean;
+  display_order: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ShippingSettings {
+  user_id: string;
+  is_enabled: boolean;
+  free_shipping_threshold?: number | null;
+  local_pickup_enabled: boolean;
+  local_pickup_address?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ShippingOption {
+  id: string;
+  type: ShippingOptionType;
+  label: string;
+  price: number;
+  isFree?: boolean;
+  deliveryDaysMin?: number | null;
+  deliveryDaysMax?: number | null;
+  description?: string | null;
+}
+
+// Shared Cart Types
+export interface SharedCartItem {
+  product_id: string;
+  title: string;
+  color?: string;
+  size?: string;
+  quantity: number;
+  notes?: string;
+  unit_price: number;
+  kit_components?: KitComponent[];
+}
+
+export interface SharedCartDistribution {
+  product_id: string;
+  title: string;
+  total_quantity: number;
+  unit_price: number;
+  items: Array<{ color?: string; size?: string; quantity: number }>;
+}
+
+export interface SharedCart {
+  id: string;
+  user_id: string;
+  code: string;
+  items: SharedCartItem[];
+  distributions: SharedCartDistribution[];
+  created_at: string;
+}
+
+// Checkout Types
+export type PaymentMethod =
+  | 'pix'
+  | 'cartao_credito'
+  | 'cartao_debito'
+  | 'dinheiro'
+  | 'boleto'
+  | 'transferencia';
+
+export interface CheckoutSettings {
+  user_id: string;
+  is_enabled: boolean;
+  collect_name: boolean;
+  collect_phone: boolean;
+  collect_cpf: boolean;
+  collect_address: boolean;
+  collect_payment_method: boolean;
+  collect_delivery_notes: boolean;
+  payment_methods: PaymentMethod[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CustomerAddress {
+  cep: string;
+  street: string;
+  number: string;
+  complement?: string;
+  neighborhood?: string;
+  city: string;
+  state: string;
+}
+
+export interface CheckoutCustomer {
+  name?: string;
+  phone?: string;
+  cpf?: string;
+  address?: CustomerAddress;
+  payment_method?: PaymentMethod;
+  delivery_notes?: string;
+}
+
+// Store PIX Types
+export interface StorePixSettings {
+  user_id: string;
+  is_enabled: boolean;
+  pix_key: string;
+  pix_key_type: 'cpf' | 'cnpj' | 'email' | 'phone' | 'random';
+  merchant_name: string;
+  merchant_city: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Abandoned Cart Types
+export type AbandonedCartStatus = 'open' | 'converted';
+
+export interface AbandonedCart {
+  id: string;
+  user_id: string;
+  viewer_id: string;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  items: SharedCartItem[];
+  distributions: SharedCartDistribution[];
+  subtotal: number;
+  item_count: number;
+  status: AbandonedCartStatus;
+  contacted_at?: string | null;
+  converted_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// WhatsApp Message Template Types
+export interface WhatsAppMessageTemplates {
+  user_id: string;
+  cart_order_template?: string | null;
+  product_inquiry_template?: string | null;
+  distribution_template?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Store Attendant Types
+export interface AttendantWorkingHours {
+  /** 0 = Sunday ... 6 = Saturday */
+  day: number;
+  /** HH:MM */
+  start: string;
+  end: string;
+}
+
+export interface StoreAttendant {
+  id: string;
+  user_id: string;
+  name: string;
+  whatsapp: string;
+  categories: string[];
+  working_hours: AttendantWorkingHours[];
+  is_active: boolean;
+  display_order: number;
+  last_assigned_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface AttendantRoutingSettings {
+  user_id: string;
+  is_enabled: boolean;
+  route_by_category: boolean;
+  route_by_business_hours: boolean;
+  timezone: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Quote Types
+export type QuoteStatus = 'pendente' | 'respondido' | 'aceito' | 'recusado';
+
+export interface QuoteSettings {
+  user_id: string;
+  is_enabled: boolean;
+  default_validity_days: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface QuoteItem {
+  id: string;
+  quote_id: string;
+  product_id?: string | null;
+  item_type: OrderItemType;
+  title: string;
+  featured_image_url?: string;
+  color?: string;
+  size?: string;
+  notes?: string;
+  quantity: number;
+  /** Set by the seller when answering */
+  unit_price?: number | null;
+  subtotal?: number | null;
+  distribution_items?: Array<{
+    color?: string;
+    size?: string;
+    quantity: number;
+  }>;
+  created_at?: string;
+}
+
+export interface Quote {
+  id: string;
+  user_id: string;
+  code: string;
+  status: QuoteStatus;
+  viewer_id?: string;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  customer_cpf?: string | null;
+  customer_address?: CustomerAddress | null;
+  payment_method?: PaymentMethod | null;
+  delivery_notes?: string | null;
+  item_count: number;
+  total?: number | null;
+  valid_until?: string | null;
+  seller_notes?: string | null;
+  answered_at?: string | null;
+  accepted_at?: string | null;
+  order_id?: string | null;
+  currency?: string;
+  language?: string;
+  created_at: string;
+  updated_at?: string;
+  items?: QuoteItem[];
+}
+
+/** Quote returned by the public lookup, without the internal ids */
+export interface PublicQuote extends Omit<Quote, 'id' | 'user_id' | 'items'> {
+  items?: Omit<QuoteItem, 'quote_id'>[];
+}
+
+// Order Types
+export type OrderItemType = 'item' | 'distribution';
+export type OrderStatus = 'novo' | 'confirmado' | 'separando' | 'enviado' | 'entregue' | 'cancelado';
+
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id?: string;
+  status: OrderStatus;
+  note?: string | null;
+  created_at: string;
+}
+
+export interface OrderItem {
+  id: string;
+  order_id: string;
+  product_id?: string | null;
+  item_type: OrderItemType;
+  title: string;
+  featured_image_url?: string;
+  color?: string;
+  size?: string;
+  notes?: string;
+  quantity: number;
+  unit_price: number;
+  applied_tier_price?: number | null;
+  subtotal: number;
+  distribution_items?: Array<{
+    color?: string;
+    size?: string;
+    quantity: number;
+  }>;
+  kit_components?: KitComponent[];
+  sku?: string | null;
+  created_at?: string;
+}
+
+export interface Order {
+  id: string;
+  user_id: string;
+  code: string;
+  status: OrderStatus;
+  viewer_id?: string;
+  subtotal: number;
+  discount_amount?: number;
+  coupon_code?: string | null;
+  shipping_method?: string | null;
+  shipping_cost?: number;
+  shipping_cep?: string | null;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  customer_cpf?: string | null;
+  customer_address?: CustomerAddress | null;
+  payment_method?: PaymentMethod | null;
+  delivery_notes?: string | null;
+  total: number;
+  item_count: number;
+  currency?: string;
+  language?: string;
+  message?: string;
+  created_at: string;
+  updated_at?: string;
+  items?: OrderItem[];
+  status_history?: OrderStatusHistoryEntry[];
+}
+
 // Referral System Types
 export interface ReferralCommission {
   id: string;
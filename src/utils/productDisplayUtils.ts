@@ -318,11 +318,11 @@ export function sortProducts(
     case 'display-order':
       return sorted.sort((a, b) => {
         // Products with display_order come first, sorted by order
-        if (a.display_order !== null && b.display_order !== null) {
+        if (a.display_order != null && b.display_order != null) {
           return a.display_order - b.display_order;
         }
-        if (a.display_order !== null) return -1;
-        if (b.display_order !== null) return 1;
+        if (a.display_order != null) return -1;
+        if (b.display_order != null) return 1;
         
         // Then by creation date (newest first)
         return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
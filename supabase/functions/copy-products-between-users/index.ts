@@ -54,6 +54,14 @@ Deno.serve(async (req) => {
       }
     })
 
+    // Identify the caller, recorded as the author of the copied prices
+    let callerId: string | null = null
+    const authHeader = req.headers.get('Authorization')
+    if (authHeader) {
+      const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+      callerId = user?.id ?? null
+    }
+
     // Parse request body
     let requestData: CopyProductsRequest
     try {
@@ -299,6 +307,21 @@ Deno.serve(async (req) => {
       }
     }
 
+    // The price history triggers can't see who called the function, since it
+    // uses the service role, so the copied prices are attributed here
+    const copiedProductIds = Array.from(productIdMapping.values())
+    if (callerId && copiedProductIds.length > 0) {
+      const { error: historyError } = await supabase
+        .from('product_price_history')
+        .update({ changed_by: callerId })
+        .in('product_id', copiedProductIds)
+        .is('changed_by', null)
+
+      if (historyError) {
+        console.error('Error attributing price history:', historyError)
+      }
+    }
+
     console.log('Copy operation completed:', stats)
 
     return new Response(
@@ -0,0 +1,148 @@
+/*
+  # Create orders and order items tables
+
+  Until now a storefront cart submission only opened WhatsApp with a formatted
+  message and then cleared the cart, so the seller had no record of the order.
+  These tables persist every cart submission so sellers can list, filter and
+  open past orders from the dashboard.
+
+  1. New Tables
+    - `orders`
+      - `id` (uuid, primary key) - Generated by the storefront before insert
+      - `user_id` (uuid, foreign key) - Seller that owns the storefront
+      - `code` (text, unique) - Human readable order code (e.g. PED-7K2M9Q)
+      - `viewer_id` (text) - Anonymous storefront visitor identifier
+      - `subtotal` (numeric) - Sum of all line subtotals
+      - `total` (numeric) - Final order total
+      - `item_count` (integer) - Total number of units in the order
+      - `currency` / `language` (text) - Storefront locale at checkout
+      - `message` (text) - WhatsApp message sent to the seller
+      - `created_at` / `updated_at` (timestamptz)
+    - `order_items`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, foreign key) - References orders, cascade delete
+      - `product_id` (uuid) - Product reference, kept null-safe if the product is deleted
+      - `item_type` (text) - 'item' for regular cart lines, 'distribution' for variant distributions
+      - `title`, `featured_image_url` - Snapshot of the product at checkout
+      - `color`, `size`, `notes` - Selected variant for regular items
+      - `quantity` (integer)
+      - `unit_price` (numeric) - Base unit price at checkout
+      - `applied_tier_price` (numeric) - Tiered price applied, when any
+      - `subtotal` (numeric)
+      - `distribution_items` (jsonb) - Color/size/quantity breakdown for distributions
+
+  2. Security
+    - Enable RLS on both tables
+    - Storefront visitors (anon and authenticated) can insert orders and items
+    - Sellers can view, update and delete their own orders and items
+
+  3. Indexes
+    - orders(user_id, created_at) for the dashboard listing
+    - orders(code) for lookups by code
+    - order_items(order_id)
+
+  4. Important Notes
+    - The storefront generates the order id and code on the client, so inserts
+      never need to read the row back (visitors cannot select orders)
+    - Line data is a snapshot; later product edits do not change past orders
+*/
+
+CREATE TABLE IF NOT EXISTS public.orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE,
+  viewer_id text,
+  subtotal numeric(10,2) NOT NULL DEFAULT 0 CHECK (subtotal >= 0),
+  total numeric(10,2) NOT NULL DEFAULT 0 CHECK (total >= 0),
+  item_count integer NOT NULL DEFAULT 0 CHECK (item_count >= 0),
+  currency text DEFAULT 'BRL',
+  language text DEFAULT 'pt-BR',
+  message text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  item_type text NOT NULL DEFAULT 'item' CHECK (item_type IN ('item', 'distribution')),
+  title text NOT NULL,
+  featured_image_url text,
+  color text,
+  size text,
+  notes text,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_price numeric(10,2) NOT NULL DEFAULT 0,
+  applied_tier_price numeric(10,2),
+  subtotal numeric(10,2) NOT NULL DEFAULT 0,
+  distribution_items jsonb DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_orders_user_id_created_at ON public.orders(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_code ON public.orders(code);
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON public.order_items(order_id);
+
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for orders table
+CREATE POLICY "Storefront visitors can create orders" ON public.orders
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = orders.user_id
+    )
+  );
+
+CREATE POLICY "Users can view their own orders" ON public.orders
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own orders" ON public.orders
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own orders" ON public.orders
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for order_items table
+CREATE POLICY "Storefront visitors can create order items" ON public.order_items
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Users can view their own order items" ON public.order_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_items.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own order items" ON public.order_items
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_items.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+GRANT INSERT ON public.orders TO anon;
+GRANT INSERT ON public.order_items TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.orders TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.order_items TO authenticated;
@@ -0,0 +1,155 @@
+/*
+  # Add order status workflow and public order tracking
+
+  Sellers move stored orders through a fixed set of statuses and customers
+  follow the progress on a public tracking page under the store slug.
+
+  1. Changes
+    - `orders.status` (text, default 'novo')
+      - One of: novo, confirmado, separando, enviado, entregue, cancelado
+
+  2. New Tables
+    - `order_status_history`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, foreign key) - References orders, cascade delete
+      - `status` (text) - Status the order moved to
+      - `note` (text, optional) - Note shown to the customer on the tracking page
+      - `created_at` (timestamptz) - When the change happened
+
+  3. Functions
+    - `record_initial_order_status()` trigger: logs the 'novo' status when an order is created
+    - `get_public_order(p_slug, p_code)`: returns the order, items and status
+      history for the tracking page. SECURITY DEFINER because storefront
+      visitors cannot read the orders table directly.
+
+  4. Security
+    - Enable RLS on order_status_history
+    - Sellers can view and add history entries for their own orders
+    - Anonymous access only through get_public_order
+
+  5. Important Notes
+    - Existing orders are backfilled with a 'novo' history entry
+*/
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'novo'
+  CHECK (status IN ('novo', 'confirmado', 'separando', 'enviado', 'entregue', 'cancelado'));
+
+CREATE INDEX IF NOT EXISTS idx_orders_user_id_status ON public.orders(user_id, status);
+
+CREATE TABLE IF NOT EXISTS public.order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('novo', 'confirmado', 'separando', 'enviado', 'entregue', 'cancelado')),
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON public.order_status_history(order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own order status history" ON public.order_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_status_history.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add status history to their own orders" ON public.order_status_history
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_status_history.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT, INSERT ON public.order_status_history TO authenticated;
+
+-- Log the initial status of every new order
+CREATE OR REPLACE FUNCTION public.record_initial_order_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.order_status_history (order_id, status)
+  VALUES (NEW.id, NEW.status);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_record_initial_order_status ON public.orders;
+CREATE TRIGGER trigger_record_initial_order_status
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_initial_order_status();
+
+-- Backfill history for orders created before this migration
+INSERT INTO public.order_status_history (order_id, status, created_at)
+SELECT o.id, o.status, o.created_at
+FROM public.orders o
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.order_status_history h WHERE h.order_id = o.id
+);
+
+-- Public order lookup used by the tracking page
+CREATE OR REPLACE FUNCTION public.get_public_order(p_slug text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT o.* INTO v_order
+  FROM public.orders o
+  JOIN public.users u ON u.id = o.user_id
+  WHERE u.slug = p_slug
+  AND upper(o.code) = upper(p_code);
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_order.id,
+    'code', v_order.code,
+    'status', v_order.status,
+    'subtotal', v_order.subtotal,
+    'total', v_order.total,
+    'item_count', v_order.item_count,
+    'currency', v_order.currency,
+    'language', v_order.language,
+    'created_at', v_order.created_at,
+    'updated_at', v_order.updated_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(to_jsonb(i) ORDER BY i.created_at)
+      FROM public.order_items i
+      WHERE i.order_id = v_order.id
+    ), '[]'::jsonb),
+    'status_history', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', h.id,
+        'status', h.status,
+        'note', h.note,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = v_order.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_order(text, text) TO anon, authenticated;
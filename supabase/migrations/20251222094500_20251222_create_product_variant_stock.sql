@@ -0,0 +1,199 @@
+/*
+  # Create per-variant inventory
+
+  Products only had a manual status (disponivel/vendido/reservado), so sellers
+  could not say that a single color x size combination was out of stock. This
+  migration adds an optional stock quantity for every color x size combination.
+
+  1. Changes
+    - `products.track_inventory` (boolean, default false)
+      - When false the product behaves as before (unlimited stock)
+
+  2. New Tables
+    - `product_variant_stock`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key) - References products, cascade delete
+      - `color` (text, default '') - Empty string when the product has no colors
+      - `size` (text, default '') - Empty string when the product has no sizes
+      - `quantity` (integer, >= 0) - Units available
+      - `created_at` / `updated_at` (timestamptz)
+
+  3. Functions
+    - `sync_product_status_from_stock()` trigger: flips a tracked product to
+      'vendido' when every variant reaches zero, and back to 'disponivel' when
+      stock is added to a product that was sold out
+    - `decrement_variant_stock_for_order_item()` trigger: consumes stock when a
+      storefront order item is stored (regular items and distribution breakdowns)
+
+  4. Security
+    - Enable RLS on product_variant_stock
+    - Stock is publicly readable (the storefront disables unavailable variants)
+    - Sellers can manage stock of their own products
+
+  5. Important Notes
+    - Stock never goes below zero; orders above the available stock are
+      blocked by the storefront cart before they reach the database
+*/
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS track_inventory boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.product_variant_stock (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  color text NOT NULL DEFAULT '',
+  size text NOT NULL DEFAULT '',
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(product_id, color, size)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variant_stock_product_id ON public.product_variant_stock(product_id);
+
+ALTER TABLE public.product_variant_stock ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for product_variant_stock table
+CREATE POLICY "Variant stock is publicly readable" ON public.product_variant_stock
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can insert stock for their products" ON public.product_variant_stock
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variant_stock.product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update stock for their products" ON public.product_variant_stock
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variant_stock.product_id
+      AND products.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variant_stock.product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete stock for their products" ON public.product_variant_stock
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variant_stock.product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON public.product_variant_stock TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.product_variant_stock TO authenticated;
+
+-- Keep product status in sync with the remaining stock
+CREATE OR REPLACE FUNCTION public.sync_product_status_from_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id uuid;
+  v_total integer;
+  v_variants integer;
+BEGIN
+  v_product_id := COALESCE(NEW.product_id, OLD.product_id);
+
+  SELECT COALESCE(SUM(quantity), 0), COUNT(*)
+  INTO v_total, v_variants
+  FROM public.product_variant_stock
+  WHERE product_id = v_product_id;
+
+  IF v_variants = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_total = 0 THEN
+    UPDATE public.products
+    SET status = 'vendido', updated_at = now()
+    WHERE id = v_product_id
+    AND track_inventory = true
+    AND status = 'disponivel';
+  ELSE
+    UPDATE public.products
+    SET status = 'disponivel', updated_at = now()
+    WHERE id = v_product_id
+    AND track_inventory = true
+    AND status = 'vendido';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_product_status_from_stock ON public.product_variant_stock;
+CREATE TRIGGER trigger_sync_product_status_from_stock
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_variant_stock
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_product_status_from_stock();
+
+-- Consume stock when a storefront order item is stored
+CREATE OR REPLACE FUNCTION public.decrement_variant_stock_for_order_item()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_variant jsonb;
+BEGIN
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = NEW.product_id AND track_inventory = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.item_type = 'distribution' THEN
+    FOR v_variant IN SELECT * FROM jsonb_array_elements(COALESCE(NEW.distribution_items, '[]'::jsonb))
+    LOOP
+      UPDATE public.product_variant_stock
+      SET quantity = GREATEST(quantity - COALESCE((v_variant->>'quantity')::integer, 0), 0),
+          updated_at = now()
+      WHERE product_id = NEW.product_id
+      AND color = COALESCE(v_variant->>'color', '')
+      AND size = COALESCE(v_variant->>'size', '');
+    END LOOP;
+  ELSE
+    UPDATE public.product_variant_stock
+    SET quantity = GREATEST(quantity - NEW.quantity, 0),
+        updated_at = now()
+    WHERE product_id = NEW.product_id
+    AND color = COALESCE(NEW.color, '')
+    AND size = COALESCE(NEW.size, '');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_decrement_variant_stock_for_order_item ON public.order_items;
+CREATE TRIGGER trigger_decrement_variant_stock_for_order_item
+  AFTER INSERT ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.decrement_variant_stock_for_order_item();
@@ -0,0 +1,209 @@
+/*
+  # Create coupons
+
+  Sellers run promotions constantly but the storefront cart had no way to
+  accept a discount code. This migration adds seller-managed coupon codes and
+  records the coupon applied to each order.
+
+  1. New Tables
+    - `coupons`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key) - Seller that owns the coupon
+      - `code` (text) - Code typed by the customer, unique per seller (case insensitive)
+      - `description` (text) - Internal note shown in the dashboard
+      - `discount_type` (text) - 'percentage' or 'fixed'
+      - `discount_value` (numeric) - Percentage (0-100) or fixed amount
+      - `min_order_value` (numeric) - Minimum cart subtotal, null for no minimum
+      - `category_restrictions` (text[]) - Categories the discount applies to
+      - `product_restrictions` (uuid[]) - Products the discount applies to
+      - `starts_at` / `expires_at` (timestamptz) - Validity window, null for open ended
+      - `usage_limit` (integer) - Maximum number of orders, null for unlimited
+      - `usage_count` (integer) - Orders that used the coupon
+      - `is_active` (boolean)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - `orders.coupon_code` (text) - Coupon applied at checkout
+    - `orders.discount_amount` (numeric, default 0) - Discount deducted from the subtotal
+
+  3. Functions
+    - `get_storefront_coupon(p_user_id, p_code)`: returns an active coupon of a
+      seller by code. SECURITY DEFINER so visitors can redeem a code without
+      being able to list the seller's coupons
+    - `increment_coupon_usage()` trigger: counts an order towards the coupon
+      usage cap
+    - `get_public_order(p_slug, p_code)`: now also returns the coupon and discount
+
+  4. Security
+    - Enable RLS on coupons
+    - Sellers can manage their own coupons
+    - Anonymous access only through get_storefront_coupon
+
+  5. Indexes
+    - coupons(user_id, upper(code)) unique
+
+  6. Important Notes
+    - When both restriction lists are empty the coupon applies to the whole cart
+    - The discount is calculated on top of tiered prices
+*/
+
+CREATE TABLE IF NOT EXISTS public.coupons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  description text,
+  discount_type text NOT NULL DEFAULT 'percentage' CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value numeric(10,2) NOT NULL CHECK (discount_value > 0),
+  min_order_value numeric(10,2) CHECK (min_order_value >= 0),
+  category_restrictions text[] NOT NULL DEFAULT '{}',
+  product_restrictions uuid[] NOT NULL DEFAULT '{}',
+  starts_at timestamptz,
+  expires_at timestamptz,
+  usage_limit integer CHECK (usage_limit > 0),
+  usage_count integer NOT NULL DEFAULT 0 CHECK (usage_count >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (expires_at IS NULL OR starts_at IS NULL OR expires_at > starts_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coupons_user_id_code ON public.coupons(user_id, upper(code));
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS coupon_code text,
+ADD COLUMN IF NOT EXISTS discount_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for coupons table
+CREATE POLICY "Users can view their own coupons" ON public.coupons
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own coupons" ON public.coupons
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own coupons" ON public.coupons
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own coupons" ON public.coupons
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.coupons TO authenticated;
+
+-- Coupon lookup for the storefront cart
+CREATE OR REPLACE FUNCTION public.get_storefront_coupon(p_user_id uuid, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_coupon public.coupons%ROWTYPE;
+BEGIN
+  SELECT c.* INTO v_coupon
+  FROM public.coupons c
+  WHERE c.user_id = p_user_id
+  AND upper(c.code) = upper(trim(p_code))
+  AND c.is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN to_jsonb(v_coupon) - 'description';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_storefront_coupon(uuid, text) TO anon, authenticated;
+
+-- Count orders towards the coupon usage cap
+CREATE OR REPLACE FUNCTION public.increment_coupon_usage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.coupon_code IS NULL OR NEW.coupon_code = '' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.coupons
+  SET usage_count = usage_count + 1,
+      updated_at = now()
+  WHERE user_id = NEW.user_id
+  AND upper(code) = upper(NEW.coupon_code);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_increment_coupon_usage ON public.orders;
+CREATE TRIGGER trigger_increment_coupon_usage
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.increment_coupon_usage();
+
+-- Expose the coupon and discount on the tracking page
+CREATE OR REPLACE FUNCTION public.get_public_order(p_slug text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT o.* INTO v_order
+  FROM public.orders o
+  JOIN public.users u ON u.id = o.user_id
+  WHERE u.slug = p_slug
+  AND upper(o.code) = upper(p_code);
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_order.id,
+    'code', v_order.code,
+    'status', v_order.status,
+    'subtotal', v_order.subtotal,
+    'discount_amount', v_order.discount_amount,
+    'coupon_code', v_order.coupon_code,
+    'total', v_order.total,
+    'item_count', v_order.item_count,
+    'currency', v_order.currency,
+    'language', v_order.language,
+    'created_at', v_order.created_at,
+    'updated_at', v_order.updated_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(to_jsonb(i) ORDER BY i.created_at)
+      FROM public.order_items i
+      WHERE i.order_id = v_order.id
+    ), '[]'::jsonb),
+    'status_history', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', h.id,
+        'status', h.status,
+        'note', h.note,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = v_order.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
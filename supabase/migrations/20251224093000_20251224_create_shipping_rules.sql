@@ -0,0 +1,182 @@
+/*
+  # Create shipping rules
+
+  The WhatsApp order had no shipping cost, so every order started with a
+  back-and-forth about frete. This migration lets sellers configure shipping
+  prices by CEP, free shipping above a threshold and local pickup, and stores
+  the option chosen by the customer on the order.
+
+  1. New Tables
+    - `shipping_settings` (one row per seller)
+      - `user_id` (uuid, primary key) - Seller that owns the storefront
+      - `is_enabled` (boolean) - Ask for the CEP in the storefront cart
+      - `free_shipping_threshold` (numeric) - Order value for free delivery, null to disable
+      - `local_pickup_enabled` (boolean)
+      - `local_pickup_address` (text) - Shown to the customer when pickup is chosen
+      - `created_at` / `updated_at` (timestamptz)
+    - `shipping_rules`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `name` (text) - Shown to the customer (e.g. "Capital", "Interior SP")
+      - `match_type` (text) - 'prefix' or 'range'
+      - `cep_prefix` (text) - Leading CEP digits when match_type is 'prefix'
+      - `cep_start` / `cep_end` (text) - 8 digit CEP range when match_type is 'range'
+      - `price` (numeric)
+      - `delivery_days_min` / `delivery_days_max` (integer) - Delivery time in business days
+      - `is_active` (boolean)
+      - `display_order` (integer)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - `orders.shipping_method` (text) - Label of the chosen option
+    - `orders.shipping_cost` (numeric, default 0)
+    - `orders.shipping_cep` (text)
+    - `get_public_order(p_slug, p_code)`: now also returns the shipping fields
+
+  3. Security
+    - Enable RLS on both tables
+    - Shipping configuration is publicly readable (the storefront quotes it)
+    - Sellers can manage their own configuration
+
+  4. Important Notes
+    - When several rules match a CEP, every match is offered to the customer
+    - Free shipping is checked against the subtotal after coupon discounts
+*/
+
+CREATE TABLE IF NOT EXISTS public.shipping_settings (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  is_enabled boolean NOT NULL DEFAULT false,
+  free_shipping_threshold numeric(10,2) CHECK (free_shipping_threshold >= 0),
+  local_pickup_enabled boolean NOT NULL DEFAULT false,
+  local_pickup_address text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.shipping_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  match_type text NOT NULL DEFAULT 'prefix' CHECK (match_type IN ('prefix', 'range')),
+  cep_prefix text CHECK (cep_prefix ~ '^[0-9]{1,8}$'),
+  cep_start text CHECK (cep_start ~ '^[0-9]{8}$'),
+  cep_end text CHECK (cep_end ~ '^[0-9]{8}$'),
+  price numeric(10,2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  delivery_days_min integer CHECK (delivery_days_min >= 0),
+  delivery_days_max integer CHECK (delivery_days_max >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (
+    (match_type = 'prefix' AND cep_prefix IS NOT NULL) OR
+    (match_type = 'range' AND cep_start IS NOT NULL AND cep_end IS NOT NULL AND cep_end >= cep_start)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rules_user_id ON public.shipping_rules(user_id, display_order);
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS shipping_method text,
+ADD COLUMN IF NOT EXISTS shipping_cost numeric(10,2) NOT NULL DEFAULT 0 CHECK (shipping_cost >= 0),
+ADD COLUMN IF NOT EXISTS shipping_cep text;
+
+ALTER TABLE public.shipping_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for shipping_settings table
+CREATE POLICY "Shipping settings are publicly readable" ON public.shipping_settings
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create their own shipping settings" ON public.shipping_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own shipping settings" ON public.shipping_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- RLS Policies for shipping_rules table
+CREATE POLICY "Shipping rules are publicly readable" ON public.shipping_rules
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create their own shipping rules" ON public.shipping_rules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own shipping rules" ON public.shipping_rules
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own shipping rules" ON public.shipping_rules
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.shipping_settings TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.shipping_settings TO authenticated;
+GRANT SELECT ON public.shipping_rules TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.shipping_rules TO authenticated;
+
+-- Expose the shipping option on the tracking page
+CREATE OR REPLACE FUNCTION public.get_public_order(p_slug text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT o.* INTO v_order
+  FROM public.orders o
+  JOIN public.users u ON u.id = o.user_id
+  WHERE u.slug = p_slug
+  AND upper(o.code) = upper(p_code);
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_order.id,
+    'code', v_order.code,
+    'status', v_order.status,
+    'subtotal', v_order.subtotal,
+    'discount_amount', v_order.discount_amount,
+    'coupon_code', v_order.coupon_code,
+    'shipping_method', v_order.shipping_method,
+    'shipping_cost', v_order.shipping_cost,
+    'total', v_order.total,
+    'item_count', v_order.item_count,
+    'currency', v_order.currency,
+    'language', v_order.language,
+    'created_at', v_order.created_at,
+    'updated_at', v_order.updated_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(to_jsonb(i) ORDER BY i.created_at)
+      FROM public.order_items i
+      WHERE i.order_id = v_order.id
+    ), '[]'::jsonb),
+    'status_history', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', h.id,
+        'status', h.status,
+        'note', h.note,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = v_order.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
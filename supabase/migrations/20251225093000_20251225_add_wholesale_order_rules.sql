@@ -0,0 +1,63 @@
+/*
+  # Add wholesale order rules
+
+  Atacado sellers need minimums that do not fit into price tiers: a minimum
+  order per store, a minimum quantity per product and products sold only in
+  multiples (packs). The storefront cart enforces these rules before the
+  order can be sent.
+
+  1. New Tables
+    - `wholesale_settings` (one row per seller)
+      - `user_id` (uuid, primary key) - Seller that owns the storefront
+      - `min_order_value` (numeric) - Minimum products value per order, null to disable
+      - `min_order_quantity` (integer) - Minimum number of units per order, null to disable
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - `products.min_quantity` (integer) - Minimum units of the product per order
+    - `products.quantity_multiple` (integer) - Product is sold in multiples of this quantity
+
+  3. Security
+    - Enable RLS on `wholesale_settings`
+    - Wholesale settings are publicly readable (the storefront cart checks them)
+    - Sellers can manage their own settings
+
+  4. Important Notes
+    - Product rules apply to the total quantity of the product in the cart,
+      so variants (colors, sizes) can be mixed to reach the minimum or the pack
+    - The order minimum is checked against the products subtotal, before
+      coupon discounts and shipping
+*/
+
+CREATE TABLE IF NOT EXISTS public.wholesale_settings (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  min_order_value numeric(10,2) CHECK (min_order_value >= 0),
+  min_order_quantity integer CHECK (min_order_quantity >= 1),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS min_quantity integer CHECK (min_quantity >= 1),
+ADD COLUMN IF NOT EXISTS quantity_multiple integer CHECK (quantity_multiple >= 1);
+
+ALTER TABLE public.wholesale_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for wholesale_settings table
+CREATE POLICY "Wholesale settings are publicly readable" ON public.wholesale_settings
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create their own wholesale settings" ON public.wholesale_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own wholesale settings" ON public.wholesale_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT ON public.wholesale_settings TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.wholesale_settings TO authenticated;
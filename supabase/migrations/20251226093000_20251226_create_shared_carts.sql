@@ -0,0 +1,103 @@
+/*
+  # Create shared carts
+
+  The cart only lived in the browser localStorage, so a buyer could not send
+  it to a partner and a seller could not assemble a cart for a client. A
+  shared cart is a snapshot of the cart stored under a short code and opened
+  through /:slug/carrinho/:code.
+
+  1. New Tables
+    - `shared_carts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key) - Seller that owns the storefront
+      - `code` (text, unique) - Short code used in the link
+      - `items` (jsonb) - Snapshot of the cart items (product, variant, quantity, notes, price)
+      - `distributions` (jsonb) - Snapshot of the variant distributions
+      - `created_by` (uuid) - Authenticated user that shared the cart, null for visitors
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `get_shared_cart(p_slug, p_code)`: returns a shared cart of the store
+      with that slug, so carts cannot be listed by visitors
+
+  3. Security
+    - Enable RLS on `shared_carts`
+    - Storefront visitors can create shared carts
+    - Sellers can view and delete the carts shared from their storefront
+
+  4. Important Notes
+    - Prices in the snapshot are only used to flag changes; the cart is
+      always rebuilt with the current prices
+*/
+
+CREATE TABLE IF NOT EXISTS public.shared_carts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  distributions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_carts_user_id ON public.shared_carts(user_id, created_at DESC);
+
+ALTER TABLE public.shared_carts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for shared_carts table
+CREATE POLICY "Storefront visitors can create shared carts" ON public.shared_carts
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = shared_carts.user_id
+    )
+  );
+
+CREATE POLICY "Users can view their own shared carts" ON public.shared_carts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own shared carts" ON public.shared_carts
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT INSERT ON public.shared_carts TO anon;
+GRANT SELECT, INSERT, DELETE ON public.shared_carts TO authenticated;
+
+-- Public lookup of a shared cart by store slug and code
+CREATE OR REPLACE FUNCTION public.get_shared_cart(p_slug text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cart public.shared_carts%ROWTYPE;
+BEGIN
+  SELECT c.* INTO v_cart
+  FROM public.shared_carts c
+  JOIN public.users u ON u.id = c.user_id
+  WHERE u.slug = p_slug
+  AND upper(c.code) = upper(p_code);
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_cart.id,
+    'user_id', v_cart.user_id,
+    'code', v_cart.code,
+    'items', v_cart.items,
+    'distributions', v_cart.distributions,
+    'created_at', v_cart.created_at
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_cart(text, text) TO anon, authenticated;
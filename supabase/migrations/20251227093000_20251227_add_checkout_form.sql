@@ -0,0 +1,77 @@
+/*
+  # Add checkout form
+
+  The only checkout step was the WhatsApp redirect, and the lead recorded for
+  it was a placeholder. Sellers can now turn on a checkout form in the
+  storefront cart and choose which fields to collect. The answers are stored
+  on the order and sent in the WhatsApp message.
+
+  1. New Tables
+    - `checkout_settings` (one row per seller)
+      - `user_id` (uuid, primary key) - Seller that owns the storefront
+      - `is_enabled` (boolean) - Show the checkout form before sending the order
+      - `collect_name` / `collect_phone` / `collect_cpf` / `collect_address` /
+        `collect_payment_method` / `collect_delivery_notes` (boolean) - Fields shown in the form
+      - `payment_methods` (text[]) - Payment options offered to the customer
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - `orders.customer_name` (text)
+    - `orders.customer_phone` (text)
+    - `orders.customer_cpf` (text)
+    - `orders.customer_address` (jsonb) - cep, street, number, complement, neighborhood, city, state
+    - `orders.payment_method` (text)
+    - `orders.delivery_notes` (text)
+
+  3. Security
+    - Enable RLS on `checkout_settings`
+    - Checkout settings are publicly readable (the storefront builds the form from them)
+    - Sellers can manage their own settings
+
+  4. Important Notes
+    - Customer data is not returned by `get_public_order`, so it never shows
+      on the public tracking page
+*/
+
+CREATE TABLE IF NOT EXISTS public.checkout_settings (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  is_enabled boolean NOT NULL DEFAULT false,
+  collect_name boolean NOT NULL DEFAULT true,
+  collect_phone boolean NOT NULL DEFAULT true,
+  collect_cpf boolean NOT NULL DEFAULT false,
+  collect_address boolean NOT NULL DEFAULT false,
+  collect_payment_method boolean NOT NULL DEFAULT false,
+  collect_delivery_notes boolean NOT NULL DEFAULT false,
+  payment_methods text[] NOT NULL DEFAULT ARRAY['pix', 'cartao_credito', 'dinheiro']::text[],
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS customer_name text,
+ADD COLUMN IF NOT EXISTS customer_phone text,
+ADD COLUMN IF NOT EXISTS customer_cpf text,
+ADD COLUMN IF NOT EXISTS customer_address jsonb,
+ADD COLUMN IF NOT EXISTS payment_method text,
+ADD COLUMN IF NOT EXISTS delivery_notes text;
+
+ALTER TABLE public.checkout_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for checkout_settings table
+CREATE POLICY "Checkout settings are publicly readable" ON public.checkout_settings
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create their own checkout settings" ON public.checkout_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own checkout settings" ON public.checkout_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT ON public.checkout_settings TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.checkout_settings TO authenticated;
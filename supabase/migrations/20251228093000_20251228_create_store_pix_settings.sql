@@ -0,0 +1,58 @@
+/*
+  # Create store PIX settings
+
+  Sellers only had PIX keys for referral withdrawals (`user_pix_keys`). This
+  adds the PIX key the store receives payments with, so the cart can show a
+  static PIX BR Code ("copia e cola") and QR code for the order total.
+
+  1. New Tables
+    - `store_pix_settings` (one row per seller)
+      - `user_id` (uuid, primary key) - Seller that owns the storefront
+      - `is_enabled` (boolean) - Show the PIX code in the cart
+      - `pix_key` (text) - Receiving key
+      - `pix_key_type` (text) - cpf, cnpj, email, phone or random
+      - `merchant_name` (text) - Receiver name shown by the bank app (up to 25 characters)
+      - `merchant_city` (text) - Receiver city (up to 15 characters)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `store_pix_settings`
+    - PIX settings are publicly readable (the storefront builds the code from them)
+    - Sellers can manage their own settings
+
+  3. Important Notes
+    - The BR Code is generated in the browser; no payment is confirmed
+      automatically, the seller still checks the payment in their bank
+*/
+
+CREATE TABLE IF NOT EXISTS public.store_pix_settings (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  is_enabled boolean NOT NULL DEFAULT false,
+  pix_key text NOT NULL,
+  pix_key_type text NOT NULL CHECK (pix_key_type IN ('cpf', 'cnpj', 'email', 'phone', 'random')),
+  merchant_name text NOT NULL CHECK (char_length(merchant_name) BETWEEN 1 AND 25),
+  merchant_city text NOT NULL CHECK (char_length(merchant_city) BETWEEN 1 AND 15),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.store_pix_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for store_pix_settings table
+CREATE POLICY "Store PIX settings are publicly readable" ON public.store_pix_settings
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create their own store PIX settings" ON public.store_pix_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own store PIX settings" ON public.store_pix_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT ON public.store_pix_settings TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.store_pix_settings TO authenticated;
@@ -0,0 +1,152 @@
+/*
+  # Create abandoned carts
+
+  The cart only lived in the visitor's localStorage, so sellers could not see
+  carts that were filled but never sent. Once a visitor types a phone number
+  in the checkout form, the cart snapshot is stored here, keyed by the
+  anonymous `viewer_id` the storefront tracking already uses.
+
+  1. New Tables
+    - `abandoned_carts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key) - Seller that owns the storefront
+      - `viewer_id` (text) - Anonymous browser ID from the storefront tracking
+      - `customer_name` / `customer_phone` (text) - Contact typed in the checkout form
+      - `items` / `distributions` (jsonb) - Cart snapshot, same format as `shared_carts`
+      - `subtotal` (numeric) - Value of the items when the snapshot was taken
+      - `item_count` (integer) - Number of units
+      - `status` (text) - open or converted (the order was sent)
+      - `contacted_at` (timestamptz) - Last WhatsApp follow-up from the seller
+      - `converted_at` (timestamptz)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Functions
+    - `save_abandoned_cart(...)`: creates or refreshes the snapshot of a
+      visitor; an empty cart removes it
+    - `mark_abandoned_cart_converted(p_user_id, p_viewer_id)`: called when
+      the visitor sends the order
+
+  3. Security
+    - Enable RLS on `abandoned_carts`
+    - Visitors only write through the functions above
+    - Sellers can view, update and delete their own abandoned carts
+
+  4. Important Notes
+    - A visitor has one snapshot per store; it is reopened when they fill the
+      cart again after sending an order
+*/
+
+CREATE TABLE IF NOT EXISTS public.abandoned_carts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  viewer_id text NOT NULL,
+  customer_name text,
+  customer_phone text NOT NULL,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  distributions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  subtotal numeric(10,2) NOT NULL DEFAULT 0,
+  item_count integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'converted')),
+  contacted_at timestamptz,
+  converted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, viewer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_abandoned_carts_user_status ON public.abandoned_carts(user_id, status, updated_at DESC);
+
+ALTER TABLE public.abandoned_carts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for abandoned_carts table
+CREATE POLICY "Users can view their own abandoned carts" ON public.abandoned_carts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own abandoned carts" ON public.abandoned_carts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own abandoned carts" ON public.abandoned_carts
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT, UPDATE, DELETE ON public.abandoned_carts TO authenticated;
+
+-- Store or refresh the cart snapshot of a storefront visitor
+CREATE OR REPLACE FUNCTION public.save_abandoned_cart(
+  p_user_id uuid,
+  p_viewer_id text,
+  p_customer_name text,
+  p_customer_phone text,
+  p_items jsonb,
+  p_distributions jsonb,
+  p_subtotal numeric,
+  p_item_count integer
+)
+RETURNS void
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(p_viewer_id, '') = '' OR coalesce(p_customer_phone, '') = '' THEN
+    RETURN;
+  END IF;
+
+  IF jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0
+    AND jsonb_array_length(coalesce(p_distributions, '[]'::jsonb)) = 0 THEN
+    DELETE FROM public.abandoned_carts
+    WHERE user_id = p_user_id
+    AND viewer_id = p_viewer_id
+    AND status = 'open';
+    RETURN;
+  END IF;
+
+  INSERT INTO public.abandoned_carts (
+    user_id, viewer_id, customer_name, customer_phone,
+    items, distributions, subtotal, item_count
+  )
+  SELECT
+    u.id, p_viewer_id, nullif(p_customer_name, ''), p_customer_phone,
+    p_items, coalesce(p_distributions, '[]'::jsonb), coalesce(p_subtotal, 0), coalesce(p_item_count, 0)
+  FROM public.users u
+  WHERE u.id = p_user_id
+  ON CONFLICT (user_id, viewer_id) DO UPDATE
+  SET customer_name = EXCLUDED.customer_name,
+      customer_phone = EXCLUDED.customer_phone,
+      items = EXCLUDED.items,
+      distributions = EXCLUDED.distributions,
+      subtotal = EXCLUDED.subtotal,
+      item_count = EXCLUDED.item_count,
+      status = 'open',
+      contacted_at = CASE WHEN abandoned_carts.status = 'open' THEN abandoned_carts.contacted_at END,
+      converted_at = NULL,
+      updated_at = now();
+END;
+$$;
+
+-- Close the snapshot once the visitor sends the order
+CREATE OR REPLACE FUNCTION public.mark_abandoned_cart_converted(p_user_id uuid, p_viewer_id text)
+RETURNS void
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.abandoned_carts
+  SET status = 'converted',
+      converted_at = now(),
+      updated_at = now()
+  WHERE user_id = p_user_id
+  AND viewer_id = p_viewer_id
+  AND status = 'open';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_abandoned_cart(uuid, text, text, text, jsonb, jsonb, numeric, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_abandoned_cart_converted(uuid, text) TO anon, authenticated;
@@ -0,0 +1,54 @@
+/*
+  # Create WhatsApp message templates
+
+  The WhatsApp messages sent from the storefront had fixed wording. Sellers can
+  now write their own templates with placeholders (e.g. `{cliente}`, `{itens}`,
+  `{total}`), which the storefront fills in before opening WhatsApp.
+
+  1. New Tables
+    - `whatsapp_message_templates` (one row per seller)
+      - `user_id` (uuid, primary key) - Seller that owns the storefront
+      - `cart_order_template` (text) - Message of orders sent from the cart
+      - `product_inquiry_template` (text) - Message of the product page contact button
+      - `distribution_template` (text) - Block of each variant distribution in a cart order
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `whatsapp_message_templates`
+    - Templates are publicly readable (the storefront renders the messages)
+    - Sellers can manage their own templates
+
+  3. Important Notes
+    - An empty template keeps the default message, translated to the
+      storefront language
+*/
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_message_templates (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  cart_order_template text,
+  product_inquiry_template text,
+  distribution_template text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.whatsapp_message_templates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for whatsapp_message_templates table
+CREATE POLICY "WhatsApp message templates are publicly readable" ON public.whatsapp_message_templates
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create their own WhatsApp message templates" ON public.whatsapp_message_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own WhatsApp message templates" ON public.whatsapp_message_templates
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT ON public.whatsapp_message_templates TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.whatsapp_message_templates TO authenticated;
@@ -0,0 +1,175 @@
+/*
+  # Create store attendants
+
+  Every WhatsApp button of a storefront went to the single `users.whatsapp`
+  number. Larger shops have several salespeople, so stores can now register
+  attendants and route each customer to one of them by round-robin, product
+  category and business hours. The chosen attendant is stored on the lead.
+
+  1. New Tables
+    - `attendant_routing_settings` (one row per seller)
+      - `user_id` (uuid, primary key) - Seller that owns the storefront
+      - `is_enabled` (boolean) - Route WhatsApp contacts to the attendants
+      - `route_by_category` (boolean) - Prefer attendants of the product categories
+      - `route_by_business_hours` (boolean) - Prefer attendants working right now
+      - `timezone` (text) - IANA timezone of the working hours
+      - `created_at` / `updated_at` (timestamptz)
+    - `store_attendants`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `name` (text)
+      - `whatsapp` (text) - Number with DDD
+      - `categories` (text[]) - Product categories handled, empty for all
+      - `working_hours` (jsonb) - List of { day (0 = Sunday), start, end } in HH:MM, empty for always
+      - `is_active` (boolean)
+      - `display_order` (integer)
+      - `last_assigned_at` (timestamptz) - Used by the round-robin
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - `leads.attendant_id` (uuid) - Attendant the WhatsApp contact was sent to
+
+  3. Functions
+    - `claim_store_attendant(p_user_id, p_attendant_ids)`: returns the
+      eligible attendant that was assigned least recently and marks it as
+      assigned (round-robin shared by every visitor)
+    - `get_attendant_lead_counts(p_since)`: leads per attendant of the
+      current seller
+
+  4. Security
+    - Enable RLS on both tables
+    - Routing settings and active attendants are publicly readable (the
+      storefront picks the number)
+    - Sellers can manage their own settings and attendants
+
+  5. Important Notes
+    - When no attendant matches the rules, the storefront falls back to the
+      other attendants and then to `users.whatsapp`
+*/
+
+CREATE TABLE IF NOT EXISTS public.attendant_routing_settings (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  is_enabled boolean NOT NULL DEFAULT false,
+  route_by_category boolean NOT NULL DEFAULT false,
+  route_by_business_hours boolean NOT NULL DEFAULT false,
+  timezone text NOT NULL DEFAULT 'America/Sao_Paulo',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.store_attendants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  whatsapp text NOT NULL,
+  categories text[] NOT NULL DEFAULT '{}',
+  working_hours jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  display_order integer NOT NULL DEFAULT 0,
+  last_assigned_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_attendants_user_id ON public.store_attendants(user_id, display_order);
+
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS attendant_id uuid REFERENCES public.store_attendants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_attendant_id ON public.leads(attendant_id, created_at) WHERE attendant_id IS NOT NULL;
+
+ALTER TABLE public.attendant_routing_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.store_attendants ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for attendant_routing_settings table
+CREATE POLICY "Attendant routing settings are publicly readable" ON public.attendant_routing_settings
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create their own attendant routing settings" ON public.attendant_routing_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own attendant routing settings" ON public.attendant_routing_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- RLS Policies for store_attendants table
+CREATE POLICY "Active attendants are publicly readable" ON public.store_attendants
+  FOR SELECT
+  USING (is_active = true OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own attendants" ON public.store_attendants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own attendants" ON public.store_attendants
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own attendants" ON public.store_attendants
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.attendant_routing_settings TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.attendant_routing_settings TO authenticated;
+GRANT SELECT ON public.store_attendants TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.store_attendants TO authenticated;
+
+-- Round-robin: hand out the eligible attendant that waited the longest
+CREATE OR REPLACE FUNCTION public.claim_store_attendant(p_user_id uuid, p_attendant_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attendant_id uuid;
+BEGIN
+  SELECT a.id INTO v_attendant_id
+  FROM public.store_attendants a
+  WHERE a.user_id = p_user_id
+  AND a.is_active = true
+  AND a.id = ANY(p_attendant_ids)
+  ORDER BY a.last_assigned_at NULLS FIRST, a.display_order
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_attendant_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.store_attendants
+  SET last_assigned_at = now()
+  WHERE id = v_attendant_id;
+
+  RETURN v_attendant_id;
+END;
+$$;
+
+-- Leads per attendant of the current seller
+CREATE OR REPLACE FUNCTION public.get_attendant_lead_counts(p_since timestamptz)
+RETURNS TABLE (attendant_id uuid, lead_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.attendant_id, count(*)
+  FROM public.leads l
+  JOIN public.store_attendants a ON a.id = l.attendant_id
+  WHERE a.user_id = auth.uid()
+  AND l.created_at >= p_since
+  GROUP BY l.attendant_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_store_attendant(uuid, uuid[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_attendant_lead_counts(timestamptz) TO authenticated;
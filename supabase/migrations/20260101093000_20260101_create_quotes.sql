@@ -0,0 +1,309 @@
+/*
+  # Create quote requests (orçamentos)
+
+  B2B sellers do not want buyers to see a final price. Products (or the whole
+  store) can now be in quote mode: prices are shown as "Sob consulta", the
+  cart collects the requested quantities and variants and creates a quote
+  request. The seller answers it from the dashboard with a price per line and
+  a validity date, and the buyer accepts it through a public link, which turns
+  the quote into a normal order.
+
+  1. New Tables
+    - `quote_settings` (one row per seller)
+      - `user_id` (uuid, primary key) - Seller that owns the storefront
+      - `is_enabled` (boolean) - Every product of the store is sold by quote
+      - `default_validity_days` (integer) - Suggested validity of an answer
+      - `created_at` / `updated_at` (timestamptz)
+    - `quotes`
+      - `id` (uuid, primary key) - Generated by the storefront before insert
+      - `user_id` (uuid, foreign key) - Seller that owns the storefront
+      - `code` (text, unique) - Human readable code (e.g. ORC-7K2M9Q4P)
+      - `viewer_id` (text) - Anonymous storefront visitor identifier
+      - `status` (text) - pendente, respondido, aceito or recusado
+      - `customer_*`, `payment_method`, `delivery_notes` - Checkout form answers
+      - `item_count` (integer) - Total number of units requested
+      - `total` (numeric) - Sum of the quoted lines, set when answered
+      - `valid_until` (date) - Last day the answer can be accepted
+      - `seller_notes` (text) - Conditions sent with the answer
+      - `answered_at` / `accepted_at` (timestamptz)
+      - `order_id` (uuid) - Order created when the buyer accepted
+      - `currency` / `language` (text) - Storefront locale
+      - `created_at` / `updated_at` (timestamptz)
+    - `quote_items`
+      - Same snapshot columns as `order_items`, with `unit_price` and
+        `subtotal` null until the seller answers
+
+  2. Changes
+    - `products.quote_only` (boolean) - Product is sold by quote
+
+  3. Functions
+    - `get_public_quote(p_slug, p_code)`: quote and lines for the public page
+    - `accept_quote(p_slug, p_code, p_order_id)`: marks an answered, valid
+      quote as accepted and links the order created from it
+
+  4. Security
+    - Enable RLS on the three tables
+    - Quote settings are publicly readable (the storefront hides the prices)
+    - Storefront visitors can create quotes and their lines
+    - Sellers can view, answer and delete their own quotes
+    - Visitors read and accept quotes only through the functions above
+
+  5. Important Notes
+    - The public link returns the customer data so accepting the quote can
+      build the order message, so quote codes are longer than order codes
+    - Expiration is not stored: an answered quote past `valid_until` is
+      shown as expired and can no longer be accepted
+*/
+
+CREATE TABLE IF NOT EXISTS public.quote_settings (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  is_enabled boolean NOT NULL DEFAULT false,
+  default_validity_days integer NOT NULL DEFAULT 7 CHECK (default_validity_days >= 1),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS quote_only boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE,
+  viewer_id text,
+  status text NOT NULL DEFAULT 'pendente'
+    CHECK (status IN ('pendente', 'respondido', 'aceito', 'recusado')),
+  customer_name text,
+  customer_phone text,
+  customer_cpf text,
+  customer_address jsonb,
+  payment_method text,
+  delivery_notes text,
+  item_count integer NOT NULL DEFAULT 0 CHECK (item_count >= 0),
+  total numeric(10,2) CHECK (total >= 0),
+  valid_until date,
+  seller_notes text,
+  answered_at timestamptz,
+  accepted_at timestamptz,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  currency text DEFAULT 'BRL',
+  language text DEFAULT 'pt-BR',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.quote_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id uuid NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  item_type text NOT NULL DEFAULT 'item' CHECK (item_type IN ('item', 'distribution')),
+  title text NOT NULL,
+  featured_image_url text,
+  color text,
+  size text,
+  notes text,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_price numeric(10,2) CHECK (unit_price >= 0),
+  subtotal numeric(10,2) CHECK (subtotal >= 0),
+  distribution_items jsonb DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotes_user_id_created_at ON public.quotes(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quotes_user_id_status ON public.quotes(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_quote_items_quote_id ON public.quote_items(quote_id);
+
+ALTER TABLE public.quote_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quote_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for quote_settings table
+CREATE POLICY "Quote settings are publicly readable" ON public.quote_settings
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create their own quote settings" ON public.quote_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own quote settings" ON public.quote_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- RLS Policies for quotes table
+CREATE POLICY "Storefront visitors can create quotes" ON public.quotes
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    status = 'pendente'
+    AND EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = quotes.user_id
+    )
+  );
+
+CREATE POLICY "Users can view their own quotes" ON public.quotes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own quotes" ON public.quotes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own quotes" ON public.quotes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for quote_items table
+CREATE POLICY "Storefront visitors can create quote items" ON public.quote_items
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Users can view their own quote items" ON public.quote_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.quotes
+      WHERE quotes.id = quote_items.quote_id
+      AND quotes.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own quote items" ON public.quote_items
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.quotes
+      WHERE quotes.id = quote_items.quote_id
+      AND quotes.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own quote items" ON public.quote_items
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.quotes
+      WHERE quotes.id = quote_items.quote_id
+      AND quotes.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON public.quote_settings TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.quote_settings TO authenticated;
+GRANT INSERT ON public.quotes TO anon;
+GRANT INSERT ON public.quote_items TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.quotes TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.quote_items TO authenticated;
+
+-- Public quote lookup used by the acceptance page
+CREATE OR REPLACE FUNCTION public.get_public_quote(p_slug text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_answered boolean;
+BEGIN
+  SELECT q.* INTO v_quote
+  FROM public.quotes q
+  JOIN public.users u ON u.id = q.user_id
+  WHERE u.slug = p_slug
+  AND upper(q.code) = upper(p_code);
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Prices typed while the quote is still pending are not shown yet
+  v_answered := v_quote.status IN ('respondido', 'aceito');
+
+  RETURN jsonb_build_object(
+    'id', v_quote.id,
+    'user_id', v_quote.user_id,
+    'code', v_quote.code,
+    'status', v_quote.status,
+    'customer_name', v_quote.customer_name,
+    'customer_phone', v_quote.customer_phone,
+    'customer_cpf', v_quote.customer_cpf,
+    'customer_address', v_quote.customer_address,
+    'payment_method', v_quote.payment_method,
+    'delivery_notes', v_quote.delivery_notes,
+    'item_count', v_quote.item_count,
+    'total', CASE WHEN v_answered THEN v_quote.total END,
+    'valid_until', v_quote.valid_until,
+    'seller_notes', CASE WHEN v_answered THEN v_quote.seller_notes END,
+    'answered_at', v_quote.answered_at,
+    'accepted_at', v_quote.accepted_at,
+    'currency', v_quote.currency,
+    'language', v_quote.language,
+    'created_at', v_quote.created_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(
+        CASE WHEN v_answered THEN to_jsonb(i)
+        ELSE to_jsonb(i) - 'unit_price' - 'subtotal'
+        END ORDER BY i.created_at
+      )
+      FROM public.quote_items i
+      WHERE i.quote_id = v_quote.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Accept an answered quote that is still valid
+CREATE OR REPLACE FUNCTION public.accept_quote(p_slug text, p_code text, p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote_id uuid;
+BEGIN
+  SELECT q.id INTO v_quote_id
+  FROM public.quotes q
+  JOIN public.users u ON u.id = q.user_id
+  WHERE u.slug = p_slug
+  AND upper(q.code) = upper(p_code)
+  AND q.status = 'respondido'
+  AND (q.valid_until IS NULL OR q.valid_until >= current_date)
+  AND EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = p_order_id
+    AND o.user_id = q.user_id
+  )
+  FOR UPDATE OF q;
+
+  IF v_quote_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.quotes
+  SET status = 'aceito',
+      accepted_at = now(),
+      order_id = p_order_id,
+      updated_at = now()
+  WHERE id = v_quote_id;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_quote(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_quote(text, text, uuid) TO anon, authenticated;
@@ -0,0 +1,86 @@
+/*
+  # Create promotions
+
+  Sellers used to run flash sales by editing the promotional price of every
+  product by hand and then remembering to undo it when the sale ended. This
+  migration adds scheduled promotions: a discount over a set of products or
+  categories that is only valid between a start and an end date.
+
+  1. New Tables
+    - `promotions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key) - Seller that owns the promotion
+      - `name` (text) - Internal name shown in the dashboard
+      - `discount_type` (text) - 'percentage' or 'fixed'
+      - `discount_value` (numeric) - Percentage (0-100) or amount off the price
+      - `product_ids` (uuid[]) - Products covered by the promotion
+      - `categories` (text[]) - Categories covered by the promotion
+      - `starts_at` / `ends_at` (timestamptz) - Period the promotional price is valid
+      - `is_active` (boolean)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on promotions
+    - Active promotions are publicly readable so the storefront can price products
+    - Sellers can manage their own promotions
+
+  3. Indexes
+    - promotions(user_id, ends_at)
+
+  4. Important Notes
+    - Product prices are never changed: the storefront applies the running
+      promotions when it loads the products, so the original prices come back
+      by themselves when a promotion ends
+    - When both lists are empty the promotion applies to the whole store
+*/
+
+CREATE TABLE IF NOT EXISTS public.promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  discount_type text NOT NULL DEFAULT 'percentage' CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value numeric(10,2) NOT NULL CHECK (discount_value > 0),
+  product_ids uuid[] NOT NULL DEFAULT '{}',
+  categories text[] NOT NULL DEFAULT '{}',
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_user_id_ends_at ON public.promotions(user_id, ends_at);
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for promotions table
+CREATE POLICY "Active promotions are publicly readable" ON public.promotions
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = true);
+
+CREATE POLICY "Users can view their own promotions" ON public.promotions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own promotions" ON public.promotions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own promotions" ON public.promotions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own promotions" ON public.promotions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.promotions TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.promotions TO authenticated;
@@ -0,0 +1,271 @@
+/*
+  # Create price lists
+
+  Sellers that sell retail and wholesale from the same catalog only had one
+  price per product plus tiers. This migration adds named price lists
+  (e.g. Varejo, Atacado, Revendedor) with per-product prices or a percentage
+  rule. Storefront visitors unlock a list with an access code or by
+  registering their CNPJ for the seller to approve.
+
+  1. New Tables
+    - `price_lists`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key) - Seller that owns the list
+      - `name` (text) - Name shown to the customer (e.g. Atacado)
+      - `description` (text) - Internal note shown in the dashboard
+      - `adjustment_percentage` (numeric) - Percentage applied to the regular
+        price of products without their own price (e.g. -20 for 20% off)
+      - `access_code` (text) - Code that unlocks the list, unique per seller
+      - `is_active` (boolean)
+      - `created_at` / `updated_at` (timestamptz)
+    - `price_list_items`
+      - `price_list_id` (uuid, foreign key)
+      - `product_id` (uuid, foreign key)
+      - `price` (numeric) - Price of the product in the list
+    - `price_list_customers`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key) - Seller the customer registered with
+      - `price_list_id` (uuid, foreign key) - List granted on approval
+      - `name`, `company_name`, `cnpj`, `phone`, `email` (text)
+      - `status` (text) - 'pendente', 'aprovado' or 'recusado'
+      - `access_token` (uuid) - Secret kept by the customer's browser
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Functions
+    - `get_storefront_price_list(p_user_id, p_access_code, p_access_token)`:
+      tells the storefront whether the seller has price lists, the status of
+      the customer registration and the unlocked list with its prices
+    - `request_price_list_access(...)`: registers a customer for approval and
+      returns the access token
+
+  3. Security
+    - Enable RLS on all tables
+    - Sellers can manage their own lists, prices and customers
+    - Anonymous access only through the functions above, so list prices are
+      never exposed without a code or an approved registration
+
+  4. Indexes
+    - price_lists(user_id, upper(access_code)) unique
+    - price_list_customers(user_id, status)
+
+  5. Important Notes
+    - Tier prices of a product are scaled by the same proportion as its price
+*/
+
+CREATE TABLE IF NOT EXISTS public.price_lists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  adjustment_percentage numeric(6,2) NOT NULL DEFAULT 0 CHECK (adjustment_percentage > -100 AND adjustment_percentage <= 1000),
+  access_code text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_lists_user_id_access_code
+  ON public.price_lists(user_id, upper(access_code))
+  WHERE access_code IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.price_list_items (
+  price_list_id uuid NOT NULL REFERENCES public.price_lists(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  price numeric(10,2) NOT NULL CHECK (price >= 0),
+  PRIMARY KEY (price_list_id, product_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.price_list_customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  price_list_id uuid REFERENCES public.price_lists(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  company_name text,
+  cnpj text NOT NULL CHECK (cnpj ~ '^[0-9]{14}$'),
+  phone text,
+  email text,
+  status text NOT NULL DEFAULT 'pendente' CHECK (status IN ('pendente', 'aprovado', 'recusado')),
+  access_token uuid NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_list_customers_user_id_status ON public.price_list_customers(user_id, status);
+
+ALTER TABLE public.price_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_list_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_list_customers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for price_lists table
+CREATE POLICY "Users can view their own price lists" ON public.price_lists
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own price lists" ON public.price_lists
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own price lists" ON public.price_lists
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own price lists" ON public.price_lists
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for price_list_items table
+CREATE POLICY "Users can manage their own price list items" ON public.price_list_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.price_lists pl
+      WHERE pl.id = price_list_id
+      AND pl.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.price_lists pl
+      WHERE pl.id = price_list_id
+      AND pl.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policies for price_list_customers table
+CREATE POLICY "Users can view their own price list customers" ON public.price_list_customers
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own price list customers" ON public.price_list_customers
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own price list customers" ON public.price_list_customers
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.price_lists TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.price_list_items TO authenticated;
+GRANT SELECT, UPDATE, DELETE ON public.price_list_customers TO authenticated;
+
+-- Price list unlocked by a storefront visitor
+CREATE OR REPLACE FUNCTION public.get_storefront_price_list(
+  p_user_id uuid,
+  p_access_code text DEFAULT NULL,
+  p_access_token uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_price_list_id uuid;
+BEGIN
+  IF p_access_token IS NOT NULL THEN
+    SELECT c.status, c.price_list_id INTO v_status, v_price_list_id
+    FROM public.price_list_customers c
+    WHERE c.user_id = p_user_id
+    AND c.access_token = p_access_token;
+
+    IF v_status <> 'aprovado' THEN
+      v_price_list_id := NULL;
+    END IF;
+  END IF;
+
+  -- An access code takes precedence over the registration
+  IF p_access_code IS NOT NULL AND trim(p_access_code) <> '' THEN
+    SELECT pl.id INTO v_price_list_id
+    FROM public.price_lists pl
+    WHERE pl.user_id = p_user_id
+    AND upper(pl.access_code) = upper(trim(p_access_code))
+    AND pl.is_active = true;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'available', EXISTS (
+      SELECT 1 FROM public.price_lists pl
+      WHERE pl.user_id = p_user_id
+      AND pl.is_active = true
+    ),
+    'status', v_status,
+    'price_list', (
+      SELECT jsonb_build_object(
+        'id', pl.id,
+        'name', pl.name,
+        'adjustment_percentage', pl.adjustment_percentage,
+        'items', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object('product_id', i.product_id, 'price', i.price))
+          FROM public.price_list_items i
+          WHERE i.price_list_id = pl.id
+        ), '[]'::jsonb)
+      )
+      FROM public.price_lists pl
+      WHERE pl.id = v_price_list_id
+      AND pl.is_active = true
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_storefront_price_list(uuid, text, uuid) TO anon, authenticated;
+
+-- Customer registration for a price list, approved by the seller
+CREATE OR REPLACE FUNCTION public.request_price_list_access(
+  p_user_id uuid,
+  p_name text,
+  p_company_name text,
+  p_cnpj text,
+  p_phone text,
+  p_email text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cnpj text := regexp_replace(coalesce(p_cnpj, ''), '\D', '', 'g');
+  v_token uuid;
+BEGIN
+  IF trim(coalesce(p_name, '')) = '' OR length(v_cnpj) <> 14 THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.price_lists pl
+    WHERE pl.user_id = p_user_id
+    AND pl.is_active = true
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.price_list_customers (user_id, name, company_name, cnpj, phone, email)
+  VALUES (
+    p_user_id,
+    trim(p_name),
+    NULLIF(trim(coalesce(p_company_name, '')), ''),
+    v_cnpj,
+    NULLIF(trim(coalesce(p_phone, '')), ''),
+    NULLIF(trim(coalesce(p_email, '')), '')
+  )
+  RETURNING access_token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_price_list_access(uuid, text, text, text, text, text) TO anon, authenticated;
@@ -0,0 +1,79 @@
+/*
+  # Create tier groups
+
+  Tiered prices used to look at the quantity of a single product only, so a
+  customer buying 3 units each of 10 different t-shirts never reached the
+  "10+ pieces" price. This migration adds tier groups: a set of products,
+  defined by category or picked one by one, whose quantities are added up in
+  the cart to decide the tier of every member product.
+
+  1. New Tables
+    - `tier_groups`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key) - Seller that owns the group
+      - `name` (text) - Name shown to the customer (e.g. Camisetas)
+      - `product_ids` (uuid[]) - Products in the group
+      - `categories` (text[]) - Categories in the group
+      - `is_active` (boolean)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on tier_groups
+    - Active groups are publicly readable so the storefront cart can price products
+    - Sellers can manage their own groups
+
+  3. Indexes
+    - tier_groups(user_id)
+
+  4. Important Notes
+    - Each member product keeps its own price tiers; the group only changes
+      the quantity used to pick the tier
+    - A product in more than one group uses the group with the largest
+      quantity in the cart
+*/
+
+CREATE TABLE IF NOT EXISTS public.tier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  product_ids uuid[] NOT NULL DEFAULT '{}',
+  categories text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (cardinality(product_ids) > 0 OR cardinality(categories) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tier_groups_user_id ON public.tier_groups(user_id);
+
+ALTER TABLE public.tier_groups ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for tier_groups table
+CREATE POLICY "Active tier groups are publicly readable" ON public.tier_groups
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = true);
+
+CREATE POLICY "Users can view their own tier groups" ON public.tier_groups
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tier groups" ON public.tier_groups
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tier groups" ON public.tier_groups
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tier groups" ON public.tier_groups
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.tier_groups TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.tier_groups TO authenticated;
@@ -0,0 +1,63 @@
+/*
+  # Create installment settings
+
+  Products only had a free-text installment value in the featured offer, so
+  every seller calculated installments by hand. This migration adds the
+  installment rules of a store, used by the storefront to show lines like
+  "10x de R$ 39,90 sem juros" and the full table with interest.
+
+  1. New Tables
+    - `installment_settings` (one row per seller)
+      - `user_id` (uuid, primary key) - Seller that owns the storefront
+      - `is_enabled` (boolean) - Show installment plans on the storefront
+      - `max_installments` (integer) - Largest number of installments (1-24)
+      - `interest_free_installments` (integer) - Installments without interest
+      - `min_installment_value` (numeric) - Smallest value of one installment
+      - `interest_rates` (jsonb) - Monthly interest rate (%) by number of
+        installments, e.g. {"11": 1.99, "12": 2.49}
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on installment_settings
+    - Settings are publicly readable so the storefront can calculate plans
+    - Sellers can manage their own settings
+
+  3. Important Notes
+    - Plans with interest use the Price table (fixed installments)
+    - Installment counts above the interest-free limit without a rate are
+      shown without interest
+*/
+
+CREATE TABLE IF NOT EXISTS public.installment_settings (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  is_enabled boolean NOT NULL DEFAULT false,
+  max_installments integer NOT NULL DEFAULT 12 CHECK (max_installments BETWEEN 1 AND 24),
+  interest_free_installments integer NOT NULL DEFAULT 1 CHECK (interest_free_installments >= 1),
+  min_installment_value numeric(10,2) NOT NULL DEFAULT 0 CHECK (min_installment_value >= 0),
+  interest_rates jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (interest_free_installments <= max_installments)
+);
+
+ALTER TABLE public.installment_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for installment_settings table
+CREATE POLICY "Installment settings are publicly readable" ON public.installment_settings
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Users can create their own installment settings" ON public.installment_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own installment settings" ON public.installment_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT ON public.installment_settings TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.installment_settings TO authenticated;
@@ -0,0 +1,208 @@
+/*
+  # Create product price history
+
+  Sellers could not tell what a product cost last week when a customer
+  disputed a price. This migration records every change to the price,
+  discounted price and price tiers of a product, with the old and new
+  values, who made the change and when.
+
+  1. New Tables
+    - `product_price_history`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key) - Product whose price changed
+      - `user_id` (uuid, foreign key) - Seller that owns the product
+      - `price_tier_id` (uuid) - Tier that changed, null for the product
+        price. Kept without a foreign key so deleted tiers keep their history
+      - `min_quantity` (integer) - Minimum quantity of the tier
+      - `old_price` / `new_price` (numeric) - Price, or tier unit price
+      - `old_discounted_price` / `new_discounted_price` (numeric) - Discounted
+        price, or tier discounted unit price
+      - `changed_by` (uuid, foreign key) - User that made the change, null
+        for changes made by the system
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `record_product_price_change()`: trigger on products
+    - `record_price_tier_change()`: trigger on product_price_tiers
+    - `get_lowest_product_prices(p_product_ids, p_days)`: lowest effective
+      price of each product in the last days, for the storefront badge
+
+  3. Security
+    - Enable RLS on product_price_history
+    - Sellers can view the history of their own products
+    - Rows are only written by the triggers, so the history can't be edited
+
+  4. Indexes
+    - product_price_history(product_id, created_at)
+
+  5. Important Notes
+    - Creating a product or tier records its first prices with empty old
+      values, so copied products start their history with the copy
+    - The effective price is the discounted price when it is lower than the
+      regular price
+*/
+
+CREATE TABLE IF NOT EXISTS public.product_price_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  price_tier_id uuid,
+  min_quantity integer,
+  old_price numeric(10,2),
+  new_price numeric(10,2),
+  old_discounted_price numeric(10,2),
+  new_discounted_price numeric(10,2),
+  changed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_price_history_product_created
+  ON public.product_price_history(product_id, created_at DESC);
+
+ALTER TABLE public.product_price_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for product_price_history table
+CREATE POLICY "Users can view their own price history" ON public.product_price_history
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.product_price_history TO authenticated;
+
+-- Records the product price and discounted price when they change
+CREATE OR REPLACE FUNCTION public.record_product_price_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.price IS NOT DISTINCT FROM OLD.price
+    AND NEW.discounted_price IS NOT DISTINCT FROM OLD.discounted_price THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.price IS NULL AND NEW.discounted_price IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.product_price_history (
+    product_id, user_id, old_price, new_price, old_discounted_price, new_discounted_price, changed_by
+  ) VALUES (
+    NEW.id,
+    NEW.user_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.price END,
+    NEW.price,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.discounted_price END,
+    NEW.discounted_price,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_product_price_change ON public.products;
+CREATE TRIGGER record_product_price_change
+  AFTER INSERT OR UPDATE OF price, discounted_price ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_product_price_change();
+
+-- Records tier prices when a tier is created, changed or removed
+CREATE OR REPLACE FUNCTION public.record_price_tier_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tier public.product_price_tiers%ROWTYPE;
+  v_user_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_tier := OLD;
+  ELSE
+    v_tier := NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.unit_price IS NOT DISTINCT FROM OLD.unit_price
+    AND NEW.discounted_unit_price IS NOT DISTINCT FROM OLD.discounted_unit_price THEN
+    RETURN NEW;
+  END IF;
+
+  -- Tiers removed together with their product have nobody left to audit
+  SELECT p.user_id INTO v_user_id
+  FROM public.products p
+  WHERE p.id = v_tier.product_id;
+
+  IF v_user_id IS NULL THEN
+    RETURN v_tier;
+  END IF;
+
+  INSERT INTO public.product_price_history (
+    product_id, user_id, price_tier_id, min_quantity,
+    old_price, new_price, old_discounted_price, new_discounted_price, changed_by
+  ) VALUES (
+    v_tier.product_id,
+    v_user_id,
+    v_tier.id,
+    v_tier.min_quantity,
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.unit_price END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.unit_price END,
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.discounted_unit_price END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.discounted_unit_price END,
+    auth.uid()
+  );
+
+  RETURN v_tier;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_price_tier_change ON public.product_price_tiers;
+CREATE TRIGGER record_price_tier_change
+  AFTER INSERT OR UPDATE OF unit_price, discounted_unit_price OR DELETE ON public.product_price_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_price_tier_change();
+
+-- Lowest effective price of each product in the last days, together with the
+-- highest price it had in that period, so the storefront only shows the badge
+-- for prices that actually went down
+CREATE OR REPLACE FUNCTION public.get_lowest_product_prices(
+  p_product_ids uuid[],
+  p_days integer DEFAULT 30
+)
+RETURNS TABLE (product_id uuid, lowest_price numeric, highest_price numeric)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH changes AS (
+    SELECT
+      h.product_id,
+      CASE WHEN h.old_discounted_price > 0 AND h.old_discounted_price < h.old_price
+        THEN h.old_discounted_price ELSE h.old_price END AS old_effective,
+      CASE WHEN h.new_discounted_price > 0 AND h.new_discounted_price < h.new_price
+        THEN h.new_discounted_price ELSE h.new_price END AS new_effective
+    FROM public.product_price_history h
+    WHERE h.product_id = ANY(p_product_ids)
+    AND h.price_tier_id IS NULL
+    AND h.created_at >= now() - make_interval(days => p_days)
+  ),
+  prices AS (
+    SELECT c.product_id, c.old_effective AS price FROM changes c
+    UNION ALL
+    SELECT c.product_id, c.new_effective FROM changes c
+  )
+  SELECT
+    pr.product_id,
+    min(pr.price) AS lowest_price,
+    max(pr.price) AS highest_price
+  FROM prices pr
+  WHERE pr.price > 0
+  GROUP BY pr.product_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_lowest_product_prices(uuid[], integer) TO anon, authenticated;
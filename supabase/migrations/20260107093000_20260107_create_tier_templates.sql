@@ -0,0 +1,189 @@
+/*
+  # Create tier templates
+
+  Most of a catalog shares the same three or four wholesale steps, but every
+  product with tiered pricing needed its tiers typed again. This migration
+  adds named tier templates per store (e.g. Atacado camisetas), with absolute
+  prices or percentage discounts off a base price. Products linked to a
+  template have their tiers rewritten whenever the template changes.
+
+  1. New Tables
+    - `tier_templates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key) - Seller that owns the template
+      - `name` (text) - Internal name (e.g. Atacado camisetas)
+      - `pricing_type` (text) - 'fixed' for unit prices, 'percentage' for
+        discounts off the base price of each product
+      - `tiers` (jsonb) - Steps as [{"min_quantity": 10, "value": 15}]
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - `products.tier_template_id` (uuid) - Template the tiers come from, null
+      when the tiers are edited by hand
+    - `products.tier_base_price` (numeric) - Base price used by percentage
+      templates
+
+  3. Functions
+    - `apply_tier_template(p_template_id, p_product_ids)`: rewrites the tiers
+      of the linked products, or only of the given ones
+    - Trigger on tier_templates calling it when the steps change
+
+  4. Security
+    - Enable RLS on tier_templates
+    - Sellers can manage their own templates
+    - apply_tier_template runs with the permissions of the caller
+
+  5. Indexes
+    - tier_templates(user_id)
+    - products(tier_template_id)
+
+  6. Important Notes
+    - Tiers are matched by minimum quantity, so unchanged steps keep their
+      rows and the price history only records real changes
+    - Deleting a template detaches its products and keeps their tiers
+*/
+
+CREATE TABLE IF NOT EXISTS public.tier_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  pricing_type text NOT NULL DEFAULT 'fixed' CHECK (pricing_type IN ('fixed', 'percentage')),
+  tiers jsonb NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(tiers) = 'array' AND jsonb_array_length(tiers) > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tier_templates_user_id ON public.tier_templates(user_id);
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS tier_template_id uuid REFERENCES public.tier_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tier_base_price numeric(10,2) CHECK (tier_base_price IS NULL OR tier_base_price >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_products_tier_template_id
+  ON public.products(tier_template_id)
+  WHERE tier_template_id IS NOT NULL;
+
+ALTER TABLE public.tier_templates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for tier_templates table
+CREATE POLICY "Users can view their own tier templates" ON public.tier_templates
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tier templates" ON public.tier_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tier templates" ON public.tier_templates
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tier templates" ON public.tier_templates
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.tier_templates TO authenticated;
+
+-- Rewrites the tiers of the products linked to a template
+CREATE OR REPLACE FUNCTION public.apply_tier_template(
+  p_template_id uuid,
+  p_product_ids uuid[] DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_template public.tier_templates%ROWTYPE;
+BEGIN
+  SELECT * INTO v_template
+  FROM public.tier_templates
+  WHERE id = p_template_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Steps removed from the template
+  DELETE FROM public.product_price_tiers t
+  USING public.products p
+  WHERE t.product_id = p.id
+  AND p.tier_template_id = p_template_id
+  AND (p_product_ids IS NULL OR p.id = ANY(p_product_ids))
+  AND t.min_quantity NOT IN (
+    SELECT (step->>'min_quantity')::integer
+    FROM jsonb_array_elements(v_template.tiers) step
+  );
+
+  WITH steps AS (
+    SELECT
+      (step->>'min_quantity')::integer AS min_quantity,
+      (step->>'value')::numeric AS value,
+      lead((step->>'min_quantity')::integer) OVER (ORDER BY (step->>'min_quantity')::integer) - 1 AS max_quantity
+    FROM jsonb_array_elements(v_template.tiers) step
+  ),
+  targets AS (
+    SELECT
+      p.id AS product_id,
+      s.min_quantity,
+      s.max_quantity,
+      CASE WHEN v_template.pricing_type = 'percentage'
+        THEN round(coalesce(p.tier_base_price, 0) * (1 - s.value / 100), 2)
+        ELSE s.value
+      END AS unit_price
+    FROM public.products p
+    CROSS JOIN steps s
+    WHERE p.tier_template_id = p_template_id
+    AND (p_product_ids IS NULL OR p.id = ANY(p_product_ids))
+  ),
+  updated AS (
+    UPDATE public.product_price_tiers t
+    SET
+      max_quantity = tg.max_quantity,
+      unit_price = tg.unit_price,
+      discounted_unit_price = NULL
+    FROM targets tg
+    WHERE t.product_id = tg.product_id
+    AND t.min_quantity = tg.min_quantity
+    RETURNING t.product_id, t.min_quantity
+  )
+  INSERT INTO public.product_price_tiers (product_id, min_quantity, max_quantity, unit_price)
+  SELECT tg.product_id, tg.min_quantity, tg.max_quantity, tg.unit_price
+  FROM targets tg
+  WHERE NOT EXISTS (
+    SELECT 1 FROM updated u
+    WHERE u.product_id = tg.product_id
+    AND u.min_quantity = tg.min_quantity
+  );
+
+  UPDATE public.products p
+  SET has_tiered_pricing = true
+  WHERE p.tier_template_id = p_template_id
+  AND (p_product_ids IS NULL OR p.id = ANY(p_product_ids))
+  AND p.has_tiered_pricing IS DISTINCT FROM true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_tier_template(uuid, uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_tier_template_products()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.apply_tier_template(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_tier_template_products ON public.tier_templates;
+CREATE TRIGGER sync_tier_template_products
+  AFTER UPDATE OF tiers, pricing_type ON public.tier_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_tier_template_products();
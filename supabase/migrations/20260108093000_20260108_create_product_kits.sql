@@ -0,0 +1,316 @@
+/*
+  # Create product kits
+
+  Combos like "kit 3 cuecas" or "look completo" had to be registered as
+  standalone products, so the order did not say which pieces went in the kit
+  and their stock was never consumed. This migration lets a product be a kit
+  made of other products, optionally pinned to a color and size, priced either
+  with its own price or with a discount over the sum of its items.
+
+  1. Changes
+    - `products.product_type` (text, default 'simple') - 'kit' for bundles
+    - `products.kit_discount_percent` (numeric) - Discount over the sum of the
+      kit items, null when the kit has its own price
+    - `order_items.kit_components` (jsonb) - Pieces of an ordered kit as
+      [{"product_id": "...", "title": "...", "color": "Preto", "size": "M", "quantity": 1}]
+
+  2. New Tables
+    - `product_kit_items`
+      - `id` (uuid, primary key)
+      - `kit_id` (uuid, foreign key) - Kit product, cascade delete
+      - `component_id` (uuid, foreign key) - Product inside the kit, cascade delete
+      - `quantity` (integer, > 0) - Units of the product in one kit
+      - `color` / `size` (text) - Fixed variant, null when the customer chooses
+      - `display_order` (integer)
+      - `created_at` (timestamptz)
+
+  3. Functions
+    - `refresh_kit_price(p_kit_id)`: sets price to the sum of the items and
+      discounted_price to the sum minus the kit discount
+    - Triggers refreshing the kit price when its items, its discount or the
+      price or tiers of one of its items change
+    - `decrement_variant_stock_for_order_item()` now also consumes the stock
+      of every piece of an ordered kit
+
+  4. Security
+    - Enable RLS on product_kit_items
+    - Kit items are publicly readable (the storefront lists the pieces)
+    - Sellers can manage the items of their own kits
+
+  5. Indexes
+    - product_kit_items(kit_id)
+    - product_kit_items(component_id)
+
+  6. Important Notes
+    - Kits cannot contain other kits
+    - Items are priced at their promotional price when they have one, or at
+      their first tier when they use tiered pricing
+*/
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS product_type text NOT NULL DEFAULT 'simple' CHECK (product_type IN ('simple', 'kit')),
+  ADD COLUMN IF NOT EXISTS kit_discount_percent numeric(5,2) CHECK (kit_discount_percent IS NULL OR (kit_discount_percent >= 0 AND kit_discount_percent < 100));
+
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS kit_components jsonb NOT NULL DEFAULT '[]';
+
+CREATE TABLE IF NOT EXISTS public.product_kit_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kit_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  component_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  color text,
+  size text,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK (kit_id <> component_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_kit_items_kit_id ON public.product_kit_items(kit_id);
+CREATE INDEX IF NOT EXISTS idx_product_kit_items_component_id ON public.product_kit_items(component_id);
+
+ALTER TABLE public.product_kit_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for product_kit_items table
+CREATE POLICY "Kit items are publicly readable" ON public.product_kit_items
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can insert items for their kits" ON public.product_kit_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_kit_items.kit_id
+      AND products.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_kit_items.component_id
+      AND products.user_id = auth.uid()
+      AND products.product_type = 'simple'
+    )
+  );
+
+CREATE POLICY "Users can update items for their kits" ON public.product_kit_items
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_kit_items.kit_id
+      AND products.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_kit_items.kit_id
+      AND products.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_kit_items.component_id
+      AND products.user_id = auth.uid()
+      AND products.product_type = 'simple'
+    )
+  );
+
+CREATE POLICY "Users can delete items for their kits" ON public.product_kit_items
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_kit_items.kit_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON public.product_kit_items TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.product_kit_items TO authenticated;
+
+-- Price a kit from its items when it uses a discount instead of its own price
+CREATE OR REPLACE FUNCTION public.refresh_kit_price(p_kit_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_discount numeric;
+  v_total numeric;
+BEGIN
+  SELECT kit_discount_percent INTO v_discount
+  FROM public.products
+  WHERE id = p_kit_id
+  AND product_type = 'kit';
+
+  IF v_discount IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(ki.quantity * COALESCE(
+    NULLIF(p.discounted_price, 0),
+    NULLIF(p.price, 0),
+    (
+      SELECT t.unit_price FROM public.product_price_tiers t
+      WHERE t.product_id = p.id
+      ORDER BY t.min_quantity
+      LIMIT 1
+    ),
+    0
+  )), 0)
+  INTO v_total
+  FROM public.product_kit_items ki
+  JOIN public.products p ON p.id = ki.component_id
+  WHERE ki.kit_id = p_kit_id;
+
+  -- Only write real changes, the update fires the products triggers again
+  UPDATE public.products
+  SET
+    price = round(v_total, 2),
+    discounted_price = CASE WHEN v_discount > 0 THEN round(v_total * (1 - v_discount / 100), 2) END,
+    updated_at = now()
+  WHERE id = p_kit_id
+  AND (
+    price IS DISTINCT FROM round(v_total, 2)
+    OR discounted_price IS DISTINCT FROM CASE WHEN v_discount > 0 THEN round(v_total * (1 - v_discount / 100), 2) END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_kit_prices_from_products()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_kit_id uuid;
+BEGIN
+  IF NEW.product_type = 'kit' THEN
+    PERFORM public.refresh_kit_price(NEW.id);
+    RETURN NULL;
+  END IF;
+
+  FOR v_kit_id IN
+    SELECT DISTINCT kit_id FROM public.product_kit_items WHERE component_id = NEW.id
+  LOOP
+    PERFORM public.refresh_kit_price(v_kit_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_kit_prices_from_products ON public.products;
+CREATE TRIGGER trigger_sync_kit_prices_from_products
+  AFTER UPDATE OF price, discounted_price, kit_discount_percent, product_type ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_kit_prices_from_products();
+
+CREATE OR REPLACE FUNCTION public.sync_kit_price_from_items()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_kit_price(COALESCE(NEW.kit_id, OLD.kit_id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_kit_price_from_items ON public.product_kit_items;
+CREATE TRIGGER trigger_sync_kit_price_from_items
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_kit_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_kit_price_from_items();
+
+CREATE OR REPLACE FUNCTION public.sync_kit_prices_from_tiers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_kit_id uuid;
+BEGIN
+  FOR v_kit_id IN
+    SELECT DISTINCT kit_id FROM public.product_kit_items
+    WHERE component_id = COALESCE(NEW.product_id, OLD.product_id)
+  LOOP
+    PERFORM public.refresh_kit_price(v_kit_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_kit_prices_from_tiers ON public.product_price_tiers;
+CREATE TRIGGER trigger_sync_kit_prices_from_tiers
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_price_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_kit_prices_from_tiers();
+
+-- Consume stock when a storefront order item is stored, including every
+-- piece of an ordered kit
+CREATE OR REPLACE FUNCTION public.decrement_variant_stock_for_order_item()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_variant jsonb;
+BEGIN
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(NEW.kit_components, '[]'::jsonb)) > 0 THEN
+    FOR v_variant IN SELECT * FROM jsonb_array_elements(NEW.kit_components)
+    LOOP
+      UPDATE public.product_variant_stock s
+      SET quantity = GREATEST(s.quantity - COALESCE((v_variant->>'quantity')::integer, 0) * NEW.quantity, 0),
+          updated_at = now()
+      FROM public.products p
+      WHERE p.id = s.product_id
+      AND p.track_inventory = true
+      AND s.product_id = (v_variant->>'product_id')::uuid
+      AND s.color = COALESCE(v_variant->>'color', '')
+      AND s.size = COALESCE(v_variant->>'size', '');
+    END LOOP;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = NEW.product_id AND track_inventory = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.item_type = 'distribution' THEN
+    FOR v_variant IN SELECT * FROM jsonb_array_elements(COALESCE(NEW.distribution_items, '[]'::jsonb))
+    LOOP
+      UPDATE public.product_variant_stock
+      SET quantity = GREATEST(quantity - COALESCE((v_variant->>'quantity')::integer, 0), 0),
+          updated_at = now()
+      WHERE product_id = NEW.product_id
+      AND color = COALESCE(v_variant->>'color', '')
+      AND size = COALESCE(v_variant->>'size', '');
+    END LOOP;
+  ELSE
+    UPDATE public.product_variant_stock
+    SET quantity = GREATEST(quantity - NEW.quantity, 0),
+        updated_at = now()
+    WHERE product_id = NEW.product_id
+    AND color = COALESCE(NEW.color, '')
+    AND size = COALESCE(NEW.size, '');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,115 @@
+/*
+  # Create product variants
+
+  Colors and sizes were plain text arrays on the product, so a color×size
+  combination could not have its own SKU, barcode, price or photo (a GG size
+  that costs more, or a red model with its own picture). This migration adds
+  a row per combination holding those optional overrides. Combinations
+  without a row simply use the product values.
+
+  1. Changes
+    - `order_items.sku` (text) - SKU of the ordered variant at the time of the order
+
+  2. New Tables
+    - `product_variants`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key) - Product, cascade delete
+      - `color` / `size` (text) - Combination, empty string when the product
+        has no colors or no sizes (same convention as product_variant_stock)
+      - `sku` (text) - Stock keeping unit of the combination
+      - `barcode` (text) - EAN/GTIN of the combination
+      - `price` (numeric) - Price of the combination, null to use the product price
+      - `weight` (numeric) - Weight of one unit in kg, for packing and shipping
+      - `image_id` (uuid, foreign key) - Photo of the combination among the
+        product images, set to null when the image is deleted
+      - `created_at` / `updated_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on product_variants
+    - Variants are publicly readable (the storefront shows their price and photo)
+    - Sellers can manage the variants of their own products
+
+  4. Indexes
+    - Unique (product_id, color, size)
+    - product_variants(product_id)
+    - Unique (product_id, sku) when the SKU is set
+
+  5. Important Notes
+    - The variant price replaces the regular price of the product; a
+      promotional price of the product is applied to it with the same discount
+    - Products with tiered pricing keep pricing by quantity, the variant price
+      is ignored for them
+*/
+
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS sku text;
+
+CREATE TABLE IF NOT EXISTS public.product_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  color text NOT NULL DEFAULT '',
+  size text NOT NULL DEFAULT '',
+  sku text,
+  barcode text,
+  price numeric(10,2) CHECK (price IS NULL OR price > 0),
+  weight numeric(10,3) CHECK (weight IS NULL OR weight >= 0),
+  image_id uuid REFERENCES public.product_images(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (product_id, color, size)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON public.product_variants(product_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_product_sku
+  ON public.product_variants(product_id, sku)
+  WHERE sku IS NOT NULL;
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for product_variants table
+CREATE POLICY "Product variants are publicly readable" ON public.product_variants
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can insert variants for their products" ON public.product_variants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variants.product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update variants for their products" ON public.product_variants
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variants.product_id
+      AND products.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variants.product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete variants for their products" ON public.product_variants
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_variants.product_id
+      AND products.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON public.product_variants TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.product_variants TO authenticated;
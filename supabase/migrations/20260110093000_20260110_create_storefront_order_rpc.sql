@@ -0,0 +1,118 @@
+/*
+  # Create storefront orders through a single function
+
+  Storefront visitors inserted the order and its items with two separate
+  requests. The order items insert policy accepted any row, so anyone could
+  add items to any order (and decrement the stock of any product through the
+  stock trigger), and a failed items insert left an order without items.
+  Orders are now created by one function that inserts the order and its items
+  in the same transaction.
+
+  1. Functions
+    - `create_storefront_order(p_order jsonb, p_items jsonb)` - Inserts the
+      order and its items, rejecting items of products from another seller.
+      Returns false when the seller does not exist
+
+  2. Security
+    - Drop the "Storefront visitors can create orders" and "Storefront visitors
+      can create order items" policies and revoke the anon insert grants;
+      storefront orders can only be created through the function
+
+  3. Important Notes
+    - Status, history and stock are still handled by the existing triggers
+    - Items without a product (deleted products) are not accepted from the storefront
+*/
+
+DROP POLICY IF EXISTS "Storefront visitors can create orders" ON public.orders;
+DROP POLICY IF EXISTS "Storefront visitors can create order items" ON public.order_items;
+
+REVOKE INSERT ON public.orders FROM anon;
+REVOKE INSERT ON public.order_items FROM anon;
+REVOKE INSERT ON public.order_items FROM authenticated;
+
+-- Insert a storefront order and its items atomically
+CREATE OR REPLACE FUNCTION public.create_storefront_order(p_order jsonb, p_items jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid := (p_order->>'id')::uuid;
+  v_user_id uuid := (p_order->>'user_id')::uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = v_user_id) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.products p
+      WHERE p.id = (item->>'product_id')::uuid
+      AND p.user_id = v_user_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Order items must belong to the seller of the order';
+  END IF;
+
+  INSERT INTO public.orders (
+    id, user_id, code, viewer_id, subtotal, coupon_code, discount_amount,
+    shipping_method, shipping_cost, shipping_cep, customer_name, customer_phone,
+    customer_cpf, customer_address, payment_method, delivery_notes, total,
+    item_count, currency, language, message
+  )
+  VALUES (
+    v_order_id,
+    v_user_id,
+    p_order->>'code',
+    p_order->>'viewer_id',
+    COALESCE((p_order->>'subtotal')::numeric, 0),
+    p_order->>'coupon_code',
+    COALESCE((p_order->>'discount_amount')::numeric, 0),
+    p_order->>'shipping_method',
+    COALESCE((p_order->>'shipping_cost')::numeric, 0),
+    p_order->>'shipping_cep',
+    p_order->>'customer_name',
+    p_order->>'customer_phone',
+    p_order->>'customer_cpf',
+    CASE WHEN jsonb_typeof(p_order->'customer_address') = 'object' THEN p_order->'customer_address' END,
+    p_order->>'payment_method',
+    p_order->>'delivery_notes',
+    COALESCE((p_order->>'total')::numeric, 0),
+    COALESCE((p_order->>'item_count')::integer, 0),
+    COALESCE(p_order->>'currency', 'BRL'),
+    COALESCE(p_order->>'language', 'pt-BR'),
+    p_order->>'message'
+  );
+
+  INSERT INTO public.order_items (
+    order_id, product_id, item_type, title, featured_image_url, color, size,
+    notes, quantity, unit_price, applied_tier_price, subtotal,
+    distribution_items, kit_components, sku
+  )
+  SELECT
+    v_order_id,
+    item.product_id,
+    COALESCE(item.item_type, 'item'),
+    item.title,
+    item.featured_image_url,
+    item.color,
+    item.size,
+    item.notes,
+    item.quantity,
+    COALESCE(item.unit_price, 0),
+    item.applied_tier_price,
+    COALESCE(item.subtotal, 0),
+    COALESCE(item.distribution_items, '[]'::jsonb),
+    COALESCE(item.kit_components, '[]'::jsonb),
+    item.sku
+  FROM jsonb_populate_recordset(NULL::public.order_items, COALESCE(p_items, '[]'::jsonb)) AS item;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_storefront_order(jsonb, jsonb) TO anon, authenticated;
@@ -0,0 +1,64 @@
+/*
+  # Hide the order id from the public tracking lookup
+
+  `get_public_order` returned the order uuid (and every item carried it as
+  `order_id`). The tracking page only needs the code, and the uuid is the key
+  used by the seller tools, so it is no longer exposed to visitors.
+
+  1. Functions
+    - `get_public_order(p_slug, p_code)` - Same payload without `id` and
+      without `order_id` on the items
+*/
+
+CREATE OR REPLACE FUNCTION public.get_public_order(p_slug text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT o.* INTO v_order
+  FROM public.orders o
+  JOIN public.users u ON u.id = o.user_id
+  WHERE u.slug = p_slug
+  AND upper(o.code) = upper(p_code);
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'code', v_order.code,
+    'status', v_order.status,
+    'subtotal', v_order.subtotal,
+    'discount_amount', v_order.discount_amount,
+    'coupon_code', v_order.coupon_code,
+    'shipping_method', v_order.shipping_method,
+    'shipping_cost', v_order.shipping_cost,
+    'total', v_order.total,
+    'item_count', v_order.item_count,
+    'currency', v_order.currency,
+    'language', v_order.language,
+    'created_at', v_order.created_at,
+    'updated_at', v_order.updated_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(to_jsonb(i) - 'order_id' ORDER BY i.created_at)
+      FROM public.order_items i
+      WHERE i.order_id = v_order.id
+    ), '[]'::jsonb),
+    'status_history', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', h.id,
+        'status', h.status,
+        'note', h.note,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at)
+      FROM public.order_status_history h
+      WHERE h.order_id = v_order.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
@@ -0,0 +1,129 @@
+/*
+  # Consume kit stock from the stored kit items
+
+  The kit branch of `decrement_variant_stock_for_order_item()` consumed the
+  stock of whatever products, variants and quantities came in the
+  `kit_components` JSON sent by the storefront, so a crafted order item could
+  decrement the stock of any product. The pieces of a kit now come from
+  `product_kit_items`: the component, its quantity and its fixed color and
+  size are read from the table, and the JSON is only used for the color and
+  size the customer chose for pieces without a fixed variant.
+
+  1. Functions
+    - `decrement_variant_stock_for_order_item()` - Kit branch driven by
+      `product_kit_items` joined on `kit_id = NEW.product_id`
+
+  2. Important Notes
+    - A chosen variant only counts up to the stored quantity of its kit item;
+      choices for products outside the kit or conflicting with a fixed color
+      or size are ignored
+    - Pieces whose variant was not chosen only consume stock when the
+      component has no colors or sizes
+*/
+
+CREATE OR REPLACE FUNCTION public.decrement_variant_stock_for_order_item()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_variant jsonb;
+  v_kit_item record;
+  v_choices jsonb;
+  v_left integer[];
+  v_remaining integer;
+  v_take integer;
+  v_index integer;
+BEGIN
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = NEW.product_id AND product_type = 'kit'
+  ) THEN
+    v_choices := CASE
+      WHEN jsonb_typeof(NEW.kit_components) = 'array' THEN NEW.kit_components
+      ELSE '[]'::jsonb
+    END;
+
+    -- Units of every customer choice not yet assigned to a kit item
+    SELECT COALESCE(array_agg(GREATEST(COALESCE((c.value->>'quantity')::integer, 0), 0) ORDER BY c.ordinality), '{}')
+    INTO v_left
+    FROM jsonb_array_elements(v_choices) WITH ORDINALITY AS c(value, ordinality);
+
+    -- Fixed pieces first, so choices are only spent on open variants
+    FOR v_kit_item IN
+      SELECT ki.component_id, ki.quantity, ki.color, ki.size
+      FROM public.product_kit_items ki
+      JOIN public.products p ON p.id = ki.component_id
+      WHERE ki.kit_id = NEW.product_id
+      AND p.track_inventory = true
+      ORDER BY (ki.color IS NULL)::integer + (ki.size IS NULL)::integer, ki.display_order
+    LOOP
+      v_remaining := v_kit_item.quantity;
+
+      FOR v_index IN 1 .. COALESCE(array_length(v_left, 1), 0)
+      LOOP
+        EXIT WHEN v_remaining = 0;
+        v_variant := v_choices->(v_index - 1);
+
+        CONTINUE WHEN v_left[v_index] = 0
+          OR v_variant->>'product_id' IS DISTINCT FROM v_kit_item.component_id::text
+          OR (v_kit_item.color IS NOT NULL AND COALESCE(v_variant->>'color', '') <> v_kit_item.color)
+          OR (v_kit_item.size IS NOT NULL AND COALESCE(v_variant->>'size', '') <> v_kit_item.size);
+
+        v_take := LEAST(v_left[v_index], v_remaining);
+        v_left[v_index] := v_left[v_index] - v_take;
+        v_remaining := v_remaining - v_take;
+
+        UPDATE public.product_variant_stock
+        SET quantity = GREATEST(quantity - v_take * NEW.quantity, 0),
+            updated_at = now()
+        WHERE product_id = v_kit_item.component_id
+        AND color = COALESCE(v_kit_item.color, v_variant->>'color', '')
+        AND size = COALESCE(v_kit_item.size, v_variant->>'size', '');
+      END LOOP;
+
+      IF v_remaining > 0 THEN
+        UPDATE public.product_variant_stock
+        SET quantity = GREATEST(quantity - v_remaining * NEW.quantity, 0),
+            updated_at = now()
+        WHERE product_id = v_kit_item.component_id
+        AND color = COALESCE(v_kit_item.color, '')
+        AND size = COALESCE(v_kit_item.size, '');
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = NEW.product_id AND track_inventory = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.item_type = 'distribution' THEN
+    FOR v_variant IN SELECT * FROM jsonb_array_elements(COALESCE(NEW.distribution_items, '[]'::jsonb))
+    LOOP
+      UPDATE public.product_variant_stock
+      SET quantity = GREATEST(quantity - COALESCE((v_variant->>'quantity')::integer, 0), 0),
+          updated_at = now()
+      WHERE product_id = NEW.product_id
+      AND color = COALESCE(v_variant->>'color', '')
+      AND size = COALESCE(v_variant->>'size', '');
+    END LOOP;
+  ELSE
+    UPDATE public.product_variant_stock
+    SET quantity = GREATEST(quantity - NEW.quantity, 0),
+        updated_at = now()
+    WHERE product_id = NEW.product_id
+    AND color = COALESCE(NEW.color, '')
+    AND size = COALESCE(NEW.size, '');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
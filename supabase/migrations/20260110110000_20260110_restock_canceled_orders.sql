@@ -0,0 +1,296 @@
+/*
+  # Restock canceled and deleted orders
+
+  Stock consumed by an order was never given back: canceling an order or
+  deleting it left the units out of stock. The stock trigger now records on
+  each order item exactly what it consumed, and that record is used to put
+  the units back when the order is canceled or its items are deleted.
+  Restocking never trusts the quantities sent by the storefront, only what
+  the trigger actually took (stock never goes below zero, so an item may
+  consume less than it asks for).
+
+  1. Changes
+    - `order_items.stock_consumed` (jsonb) - Units taken from
+      product_variant_stock when the item was created, as
+      [{"product_id": "...", "color": "Preto", "size": "M", "quantity": 2}]
+
+  2. Functions
+    - `take_variant_stock(p_product_id, p_color, p_size, p_quantity)` -
+      Decrements one stock row and returns what was actually taken
+    - `consume_order_item_stock(p_item)` - Consumes the stock of an order item
+      (kit pieces, distribution or single variant) and returns the record
+    - `restore_order_item_stock(p_consumed)` - Gives a record back to the stock
+    - `decrement_variant_stock_for_order_item()` - Now a BEFORE INSERT trigger
+      that fills `stock_consumed`
+    - `restock_order_on_status_change()` - Restocks the items when an order
+      moves to 'cancelado', and consumes them again when it is reopened
+    - `restock_order_item_on_delete()` - Restocks an item when it is deleted,
+      including through the cascade of an order delete
+
+  3. Important Notes
+    - Distribution lines consume at most the quantity of the line, whatever
+      the distribution breakdown says
+    - Items of canceled orders have an empty record, so deleting a canceled
+      order does not restock twice
+    - Orders created before this migration have no record and are not restocked
+*/
+
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS stock_consumed jsonb NOT NULL DEFAULT '[]';
+
+-- Decrement one variant, returning the units actually taken
+CREATE OR REPLACE FUNCTION public.take_variant_stock(
+  p_product_id uuid,
+  p_color text,
+  p_size text,
+  p_quantity integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock integer;
+  v_take integer;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  SELECT quantity INTO v_stock
+  FROM public.product_variant_stock
+  WHERE product_id = p_product_id
+  AND color = COALESCE(p_color, '')
+  AND size = COALESCE(p_size, '')
+  FOR UPDATE;
+
+  v_take := LEAST(COALESCE(v_stock, 0), p_quantity);
+  IF v_take <= 0 THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  UPDATE public.product_variant_stock
+  SET quantity = quantity - v_take,
+      updated_at = now()
+  WHERE product_id = p_product_id
+  AND color = COALESCE(p_color, '')
+  AND size = COALESCE(p_size, '');
+
+  RETURN jsonb_build_array(jsonb_build_object(
+    'product_id', p_product_id,
+    'color', COALESCE(p_color, ''),
+    'size', COALESCE(p_size, ''),
+    'quantity', v_take
+  ));
+END;
+$$;
+
+-- Consume the stock of an order item and return what was taken
+CREATE OR REPLACE FUNCTION public.consume_order_item_stock(p_item public.order_items)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_consumed jsonb := '[]'::jsonb;
+  v_variant jsonb;
+  v_kit_item record;
+  v_choices jsonb;
+  v_left integer[];
+  v_remaining integer;
+  v_take integer;
+  v_index integer;
+BEGIN
+  IF p_item.product_id IS NULL THEN
+    RETURN v_consumed;
+  END IF;
+
+  -- Kit pieces come from product_kit_items, the JSON only holds the
+  -- variants chosen for pieces without a fixed color or size
+  IF EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = p_item.product_id AND product_type = 'kit'
+  ) THEN
+    v_choices := CASE
+      WHEN jsonb_typeof(p_item.kit_components) = 'array' THEN p_item.kit_components
+      ELSE '[]'::jsonb
+    END;
+
+    SELECT COALESCE(array_agg(GREATEST(COALESCE((c.value->>'quantity')::integer, 0), 0) ORDER BY c.ordinality), '{}')
+    INTO v_left
+    FROM jsonb_array_elements(v_choices) WITH ORDINALITY AS c(value, ordinality);
+
+    FOR v_kit_item IN
+      SELECT ki.component_id, ki.quantity, ki.color, ki.size
+      FROM public.product_kit_items ki
+      JOIN public.products p ON p.id = ki.component_id
+      WHERE ki.kit_id = p_item.product_id
+      AND p.track_inventory = true
+      ORDER BY (ki.color IS NULL)::integer + (ki.size IS NULL)::integer, ki.display_order
+    LOOP
+      v_remaining := v_kit_item.quantity;
+
+      FOR v_index IN 1 .. COALESCE(array_length(v_left, 1), 0)
+      LOOP
+        EXIT WHEN v_remaining = 0;
+        v_variant := v_choices->(v_index - 1);
+
+        CONTINUE WHEN v_left[v_index] = 0
+          OR v_variant->>'product_id' IS DISTINCT FROM v_kit_item.component_id::text
+          OR (v_kit_item.color IS NOT NULL AND COALESCE(v_variant->>'color', '') <> v_kit_item.color)
+          OR (v_kit_item.size IS NOT NULL AND COALESCE(v_variant->>'size', '') <> v_kit_item.size);
+
+        v_take := LEAST(v_left[v_index], v_remaining);
+        v_left[v_index] := v_left[v_index] - v_take;
+        v_remaining := v_remaining - v_take;
+
+        v_consumed := v_consumed || public.take_variant_stock(
+          v_kit_item.component_id,
+          COALESCE(v_kit_item.color, v_variant->>'color'),
+          COALESCE(v_kit_item.size, v_variant->>'size'),
+          v_take * p_item.quantity
+        );
+      END LOOP;
+
+      IF v_remaining > 0 THEN
+        v_consumed := v_consumed || public.take_variant_stock(
+          v_kit_item.component_id,
+          v_kit_item.color,
+          v_kit_item.size,
+          v_remaining * p_item.quantity
+        );
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = p_item.product_id AND track_inventory = true
+  ) THEN
+    RETURN v_consumed;
+  END IF;
+
+  IF p_item.item_type = 'distribution' THEN
+    v_remaining := p_item.quantity;
+
+    FOR v_variant IN SELECT * FROM jsonb_array_elements(COALESCE(p_item.distribution_items, '[]'::jsonb))
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(GREATEST(COALESCE((v_variant->>'quantity')::integer, 0), 0), v_remaining);
+      v_remaining := v_remaining - v_take;
+
+      v_consumed := v_consumed || public.take_variant_stock(
+        p_item.product_id,
+        v_variant->>'color',
+        v_variant->>'size',
+        v_take
+      );
+    END LOOP;
+  ELSE
+    v_consumed := v_consumed || public.take_variant_stock(
+      p_item.product_id,
+      p_item.color,
+      p_item.size,
+      p_item.quantity
+    );
+  END IF;
+
+  RETURN v_consumed;
+END;
+$$;
+
+-- Give the units recorded on an order item back to the stock
+CREATE OR REPLACE FUNCTION public.restore_order_item_stock(p_consumed jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry jsonb;
+BEGIN
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_consumed, '[]'::jsonb))
+  LOOP
+    UPDATE public.product_variant_stock
+    SET quantity = quantity + (v_entry->>'quantity')::integer,
+        updated_at = now()
+    WHERE product_id = (v_entry->>'product_id')::uuid
+    AND color = v_entry->>'color'
+    AND size = v_entry->>'size';
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decrement_variant_stock_for_order_item()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.stock_consumed := public.consume_order_item_stock(NEW);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_decrement_variant_stock_for_order_item ON public.order_items;
+CREATE TRIGGER trigger_decrement_variant_stock_for_order_item
+  BEFORE INSERT ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.decrement_variant_stock_for_order_item();
+
+-- Restock on cancel, consume again when a canceled order is reopened
+CREATE OR REPLACE FUNCTION public.restock_order_on_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.order_items%ROWTYPE;
+BEGIN
+  IF NEW.status = 'cancelado' AND OLD.status <> 'cancelado' THEN
+    FOR v_item IN SELECT * FROM public.order_items WHERE order_id = NEW.id FOR UPDATE
+    LOOP
+      PERFORM public.restore_order_item_stock(v_item.stock_consumed);
+    END LOOP;
+
+    UPDATE public.order_items
+    SET stock_consumed = '[]'::jsonb
+    WHERE order_id = NEW.id;
+  ELSIF OLD.status = 'cancelado' AND NEW.status <> 'cancelado' THEN
+    UPDATE public.order_items i
+    SET stock_consumed = public.consume_order_item_stock(i)
+    WHERE i.order_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_restock_order_on_status_change ON public.orders;
+CREATE TRIGGER trigger_restock_order_on_status_change
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restock_order_on_status_change();
+
+-- Restock deleted items, order deletes reach them through the cascade
+CREATE OR REPLACE FUNCTION public.restock_order_item_on_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.restore_order_item_stock(OLD.stock_consumed);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_restock_order_item_on_delete ON public.order_items;
+CREATE TRIGGER trigger_restock_order_item_on_delete
+  BEFORE DELETE ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restock_order_item_on_delete();
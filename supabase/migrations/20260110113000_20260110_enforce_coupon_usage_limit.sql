@@ -0,0 +1,44 @@
+/*
+  # Enforce the coupon usage limit in the database
+
+  The usage limit of a coupon was only checked by the storefront when the
+  coupon was applied, so carts that applied it before the limit was reached
+  (or requests skipping the storefront) could keep using it. The usage
+  trigger now refuses the order once the limit is reached.
+
+  1. Functions
+    - `increment_coupon_usage()` - Only counts the order while the coupon is
+      below its usage limit and raises an exception otherwise, so the order
+      is not created
+*/
+
+CREATE OR REPLACE FUNCTION public.increment_coupon_usage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.coupon_code IS NULL OR NEW.coupon_code = '' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.coupons
+  SET usage_count = usage_count + 1,
+      updated_at = now()
+  WHERE user_id = NEW.user_id
+  AND upper(code) = upper(NEW.coupon_code)
+  AND (usage_limit IS NULL OR usage_count < usage_limit);
+
+  IF NOT FOUND AND EXISTS (
+    SELECT 1 FROM public.coupons
+    WHERE user_id = NEW.user_id
+    AND upper(code) = upper(NEW.coupon_code)
+  ) THEN
+    RAISE EXCEPTION 'Coupon % reached its usage limit', NEW.coupon_code
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,72 @@
+/*
+  # Capture abandoned carts without a contact
+
+  Carts were only captured once the visitor typed a phone number in the
+  checkout form, so stores with the form disabled never had abandoned carts.
+  Carts are now captured on cart activity, and the contact is added to the
+  snapshot when the visitor fills the form.
+
+  1. Changes
+    - `abandoned_carts.customer_phone` is now nullable; carts without a phone
+      are listed but cannot get a WhatsApp follow-up
+
+  2. Functions
+    - `save_abandoned_cart(...)` - Only requires the viewer id, and keeps the
+      contact already stored when the new one is empty
+*/
+
+ALTER TABLE public.abandoned_carts
+  ALTER COLUMN customer_phone DROP NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.save_abandoned_cart(
+  p_user_id uuid,
+  p_viewer_id text,
+  p_customer_name text,
+  p_customer_phone text,
+  p_items jsonb,
+  p_distributions jsonb,
+  p_subtotal numeric,
+  p_item_count integer
+)
+RETURNS void
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(p_viewer_id, '') = '' THEN
+    RETURN;
+  END IF;
+
+  IF jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0
+    AND jsonb_array_length(coalesce(p_distributions, '[]'::jsonb)) = 0 THEN
+    DELETE FROM public.abandoned_carts
+    WHERE user_id = p_user_id
+    AND viewer_id = p_viewer_id
+    AND status = 'open';
+    RETURN;
+  END IF;
+
+  INSERT INTO public.abandoned_carts (
+    user_id, viewer_id, customer_name, customer_phone,
+    items, distributions, subtotal, item_count
+  )
+  SELECT
+    u.id, p_viewer_id, nullif(p_customer_name, ''), nullif(p_customer_phone, ''),
+    p_items, coalesce(p_distributions, '[]'::jsonb), coalesce(p_subtotal, 0), coalesce(p_item_count, 0)
+  FROM public.users u
+  WHERE u.id = p_user_id
+  ON CONFLICT (user_id, viewer_id) DO UPDATE
+  SET customer_name = coalesce(EXCLUDED.customer_name, abandoned_carts.customer_name),
+      customer_phone = coalesce(EXCLUDED.customer_phone, abandoned_carts.customer_phone),
+      items = EXCLUDED.items,
+      distributions = EXCLUDED.distributions,
+      subtotal = EXCLUDED.subtotal,
+      item_count = EXCLUDED.item_count,
+      status = 'open',
+      contacted_at = CASE WHEN abandoned_carts.status = 'open' THEN abandoned_carts.contacted_at END,
+      converted_at = NULL,
+      updated_at = now();
+END;
+$$;
@@ -0,0 +1,110 @@
+/*
+  # Accept quotes atomically
+
+  Accepting a quote created the order from the browser first and only then
+  called `accept_quote`, so a failed or rejected acceptance (expired quote,
+  quote changed by the seller) left an order behind with its stock already
+  consumed. `accept_quote` now creates the order itself, from the stored
+  quote lines and customer data, in the same transaction as the status change.
+
+  1. Functions
+    - `accept_quote(p_slug, p_code, p_order_code, p_message)` - Replaces
+      `accept_quote(p_slug, p_code, p_order_id)`. Locks an answered, valid
+      quote, creates the order and its items from the quote and marks the
+      quote as accepted. Returns false when the quote cannot be accepted
+
+  2. Important Notes
+    - Prices, total and customer data come from the quote, the browser only
+      sends the order code and the WhatsApp message it shows to the buyer
+*/
+
+DROP FUNCTION IF EXISTS public.accept_quote(text, text, uuid);
+
+CREATE OR REPLACE FUNCTION public.accept_quote(
+  p_slug text,
+  p_code text,
+  p_order_code text,
+  p_message text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_order_id uuid := gen_random_uuid();
+BEGIN
+  SELECT q.* INTO v_quote
+  FROM public.quotes q
+  JOIN public.users u ON u.id = q.user_id
+  WHERE u.slug = p_slug
+  AND upper(q.code) = upper(p_code)
+  AND q.status = 'respondido'
+  AND (q.valid_until IS NULL OR q.valid_until >= current_date)
+  FOR UPDATE OF q;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.orders (
+    id, user_id, code, viewer_id, subtotal, total, item_count,
+    customer_name, customer_phone, customer_cpf, customer_address,
+    payment_method, delivery_notes, currency, language, message
+  )
+  VALUES (
+    v_order_id,
+    v_quote.user_id,
+    p_order_code,
+    v_quote.viewer_id,
+    COALESCE(v_quote.total, 0),
+    COALESCE(v_quote.total, 0),
+    v_quote.item_count,
+    v_quote.customer_name,
+    v_quote.customer_phone,
+    v_quote.customer_cpf,
+    v_quote.customer_address,
+    v_quote.payment_method,
+    v_quote.delivery_notes,
+    v_quote.currency,
+    v_quote.language,
+    p_message
+  );
+
+  -- Distribution lines keep the quoted price as their tier price, like the cart does
+  INSERT INTO public.order_items (
+    order_id, product_id, item_type, title, featured_image_url, color, size,
+    notes, quantity, unit_price, applied_tier_price, subtotal, distribution_items
+  )
+  SELECT
+    v_order_id,
+    i.product_id,
+    i.item_type,
+    i.title,
+    i.featured_image_url,
+    i.color,
+    i.size,
+    i.notes,
+    i.quantity,
+    COALESCE(i.unit_price, 0),
+    CASE WHEN i.item_type = 'distribution' THEN COALESCE(i.unit_price, 0) END,
+    COALESCE(i.subtotal, 0),
+    COALESCE(i.distribution_items, '[]'::jsonb)
+  FROM public.quote_items i
+  WHERE i.quote_id = v_quote.id
+  ORDER BY i.created_at;
+
+  UPDATE public.quotes
+  SET status = 'aceito',
+      accepted_at = now(),
+      order_id = v_order_id,
+      updated_at = now()
+  WHERE id = v_quote.id;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_quote(text, text, text, text) TO anon, authenticated;
@@ -0,0 +1,153 @@
+/*
+  # Protect quote customer data and quote creation
+
+  The public quote lookup returned the customer CPF, phone, address and
+  delivery notes to anyone holding the link, and the quote items insert
+  policy accepted any row, so anyone could add lines to any quote. The
+  customer data now stays on the server (accepting a quote builds the order
+  from it), and quotes are created with their lines by a single function.
+
+  1. Functions
+    - `get_public_quote(p_slug, p_code)` - No longer returns `customer_phone`,
+      `customer_cpf`, `customer_address` or `delivery_notes`
+    - `create_storefront_quote(p_quote jsonb, p_items jsonb)` - Inserts a
+      pending quote and its lines, rejecting lines of products from another
+      seller. Prices are never taken from the storefront. Returns false when
+      the seller does not exist
+
+  2. Security
+    - Drop the "Storefront visitors can create quotes" and "Storefront
+      visitors can create quote items" policies and revoke the anon insert
+      grants; storefront quotes can only be created through the function
+*/
+
+DROP POLICY IF EXISTS "Storefront visitors can create quotes" ON public.quotes;
+DROP POLICY IF EXISTS "Storefront visitors can create quote items" ON public.quote_items;
+
+REVOKE INSERT ON public.quotes FROM anon;
+REVOKE INSERT ON public.quote_items FROM anon;
+
+-- Public quote lookup used by the acceptance page
+CREATE OR REPLACE FUNCTION public.get_public_quote(p_slug text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_answered boolean;
+BEGIN
+  SELECT q.* INTO v_quote
+  FROM public.quotes q
+  JOIN public.users u ON u.id = q.user_id
+  WHERE u.slug = p_slug
+  AND upper(q.code) = upper(p_code);
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Prices typed while the quote is still pending are not shown yet
+  v_answered := v_quote.status IN ('respondido', 'aceito');
+
+  RETURN jsonb_build_object(
+    'id', v_quote.id,
+    'user_id', v_quote.user_id,
+    'code', v_quote.code,
+    'status', v_quote.status,
+    'customer_name', v_quote.customer_name,
+    'payment_method', v_quote.payment_method,
+    'item_count', v_quote.item_count,
+    'total', CASE WHEN v_answered THEN v_quote.total END,
+    'valid_until', v_quote.valid_until,
+    'seller_notes', CASE WHEN v_answered THEN v_quote.seller_notes END,
+    'answered_at', v_quote.answered_at,
+    'accepted_at', v_quote.accepted_at,
+    'currency', v_quote.currency,
+    'language', v_quote.language,
+    'created_at', v_quote.created_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(
+        CASE WHEN v_answered THEN to_jsonb(i)
+        ELSE to_jsonb(i) - 'unit_price' - 'subtotal'
+        END ORDER BY i.created_at
+      )
+      FROM public.quote_items i
+      WHERE i.quote_id = v_quote.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Insert a storefront quote request and its lines atomically
+CREATE OR REPLACE FUNCTION public.create_storefront_quote(p_quote jsonb, p_items jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote_id uuid := (p_quote->>'id')::uuid;
+  v_user_id uuid := (p_quote->>'user_id')::uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = v_user_id) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.products p
+      WHERE p.id = (item->>'product_id')::uuid
+      AND p.user_id = v_user_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Quote items must belong to the seller of the quote';
+  END IF;
+
+  INSERT INTO public.quotes (
+    id, user_id, code, viewer_id, customer_name, customer_phone, customer_cpf,
+    customer_address, payment_method, delivery_notes, item_count, currency, language
+  )
+  VALUES (
+    v_quote_id,
+    v_user_id,
+    p_quote->>'code',
+    p_quote->>'viewer_id',
+    p_quote->>'customer_name',
+    p_quote->>'customer_phone',
+    p_quote->>'customer_cpf',
+    CASE WHEN jsonb_typeof(p_quote->'customer_address') = 'object' THEN p_quote->'customer_address' END,
+    p_quote->>'payment_method',
+    p_quote->>'delivery_notes',
+    COALESCE((p_quote->>'item_count')::integer, 0),
+    COALESCE(p_quote->>'currency', 'BRL'),
+    COALESCE(p_quote->>'language', 'pt-BR')
+  );
+
+  INSERT INTO public.quote_items (
+    quote_id, product_id, item_type, title, featured_image_url, color, size,
+    notes, quantity, distribution_items
+  )
+  SELECT
+    v_quote_id,
+    item.product_id,
+    COALESCE(item.item_type, 'item'),
+    item.title,
+    item.featured_image_url,
+    item.color,
+    item.size,
+    item.notes,
+    item.quantity,
+    COALESCE(item.distribution_items, '[]'::jsonb)
+  FROM jsonb_populate_recordset(NULL::public.quote_items, COALESCE(p_items, '[]'::jsonb)) AS item;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_storefront_quote(jsonb, jsonb) TO anon, authenticated;
@@ -0,0 +1,109 @@
+/*
+  # Skip products without a base price in percentage tier templates
+
+  Percentage templates compute the tiers as a discount off the base price of
+  each product, and a linked product without a base price got every tier
+  priced at zero (coalesce(tier_base_price, 0)). Those products now keep their
+  current tiers until a base price is set.
+
+  1. Functions
+    - `apply_tier_template(p_template_id, p_product_ids)` - Percentage
+      templates only rewrite the tiers of products with a base price above zero
+
+  2. Important Notes
+    - Fixed price templates do not use the base price and are unchanged
+    - Setting a base price of zero is no longer allowed, null means no base price
+*/
+
+UPDATE public.products
+SET tier_base_price = NULL
+WHERE tier_base_price = 0;
+
+ALTER TABLE public.products
+  DROP CONSTRAINT IF EXISTS products_tier_base_price_check;
+
+ALTER TABLE public.products
+  ADD CONSTRAINT products_tier_base_price_check CHECK (tier_base_price IS NULL OR tier_base_price > 0);
+
+-- Rewrites the tiers of the products linked to a template
+CREATE OR REPLACE FUNCTION public.apply_tier_template(
+  p_template_id uuid,
+  p_product_ids uuid[] DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_template public.tier_templates%ROWTYPE;
+  v_product_ids uuid[];
+BEGIN
+  SELECT * INTO v_template
+  FROM public.tier_templates
+  WHERE id = p_template_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Linked products the template can price
+  SELECT coalesce(array_agg(p.id), '{}') INTO v_product_ids
+  FROM public.products p
+  WHERE p.tier_template_id = p_template_id
+  AND (p_product_ids IS NULL OR p.id = ANY(p_product_ids))
+  AND (v_template.pricing_type <> 'percentage' OR p.tier_base_price > 0);
+
+  -- Steps removed from the template
+  DELETE FROM public.product_price_tiers t
+  WHERE t.product_id = ANY(v_product_ids)
+  AND t.min_quantity NOT IN (
+    SELECT (step->>'min_quantity')::integer
+    FROM jsonb_array_elements(v_template.tiers) step
+  );
+
+  WITH steps AS (
+    SELECT
+      (step->>'min_quantity')::integer AS min_quantity,
+      (step->>'value')::numeric AS value,
+      lead((step->>'min_quantity')::integer) OVER (ORDER BY (step->>'min_quantity')::integer) - 1 AS max_quantity
+    FROM jsonb_array_elements(v_template.tiers) step
+  ),
+  targets AS (
+    SELECT
+      p.id AS product_id,
+      s.min_quantity,
+      s.max_quantity,
+      CASE WHEN v_template.pricing_type = 'percentage'
+        THEN round(p.tier_base_price * (1 - s.value / 100), 2)
+        ELSE s.value
+      END AS unit_price
+    FROM public.products p
+    CROSS JOIN steps s
+    WHERE p.id = ANY(v_product_ids)
+  ),
+  updated AS (
+    UPDATE public.product_price_tiers t
+    SET
+      max_quantity = tg.max_quantity,
+      unit_price = tg.unit_price,
+      discounted_unit_price = NULL
+    FROM targets tg
+    WHERE t.product_id = tg.product_id
+    AND t.min_quantity = tg.min_quantity
+    RETURNING t.product_id, t.min_quantity
+  )
+  INSERT INTO public.product_price_tiers (product_id, min_quantity, max_quantity, unit_price)
+  SELECT tg.product_id, tg.min_quantity, tg.max_quantity, tg.unit_price
+  FROM targets tg
+  WHERE NOT EXISTS (
+    SELECT 1 FROM updated u
+    WHERE u.product_id = tg.product_id
+    AND u.min_quantity = tg.min_quantity
+  );
+
+  UPDATE public.products p
+  SET has_tiered_pricing = true
+  WHERE p.id = ANY(v_product_ids)
+  AND p.has_tiered_pricing IS DISTINCT FROM true;
+END;
+$$;
@@ -0,0 +1,85 @@
+/*
+  # Protect the stock helpers and restock deleted orders by status
+
+  The stock helpers added with the restock of canceled orders are SECURITY
+  DEFINER functions in the public schema, and functions can be executed by
+  PUBLIC by default, so anyone could call them through the API and empty or
+  inflate the variant stock of any seller. They are only meant to be called
+  by the order triggers.
+
+  Deleting an order also gave back the stock of every item, even when the
+  goods were already shipped or delivered.
+
+  1. Security
+    - Revoke EXECUTE on `take_variant_stock`, `consume_order_item_stock` and
+      `restore_order_item_stock` from PUBLIC, anon and authenticated; the
+      triggers run as the function owner and keep calling them
+
+  2. Functions
+    - `restock_order_on_delete()` - BEFORE DELETE trigger on orders: restocks
+      the items only when the order was not shipped, delivered or canceled
+      (canceled orders were restocked on the status change), then clears
+      their record so the cascade does not restock them again
+    - `restock_order_item_on_delete()` - Restocks a deleted item only while
+      its order is not shipped or delivered
+
+  3. Important Notes
+    - During the cascade of an order delete the order is no longer visible,
+      which is why the order trigger handles its own items first
+*/
+
+REVOKE EXECUTE ON FUNCTION public.take_variant_stock(uuid, text, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_order_item_stock(public.order_items) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.restore_order_item_stock(jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Restock the items of a deleted order that never left the store
+CREATE OR REPLACE FUNCTION public.restock_order_on_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.order_items%ROWTYPE;
+BEGIN
+  IF OLD.status NOT IN ('enviado', 'entregue', 'cancelado') THEN
+    FOR v_item IN SELECT * FROM public.order_items WHERE order_id = OLD.id FOR UPDATE
+    LOOP
+      PERFORM public.restore_order_item_stock(v_item.stock_consumed);
+    END LOOP;
+  END IF;
+
+  UPDATE public.order_items
+  SET stock_consumed = '[]'::jsonb
+  WHERE order_id = OLD.id
+  AND stock_consumed <> '[]'::jsonb;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_restock_order_on_delete ON public.orders;
+CREATE TRIGGER trigger_restock_order_on_delete
+  BEFORE DELETE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restock_order_on_delete();
+
+-- Restock an item removed from an order that was not shipped yet
+CREATE OR REPLACE FUNCTION public.restock_order_item_on_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE id = OLD.order_id
+    AND status NOT IN ('enviado', 'entregue')
+  ) THEN
+    PERFORM public.restore_order_item_stock(OLD.stock_consumed);
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
@@ -0,0 +1,174 @@
+/*
+  # Validate coupons when a storefront order is created
+
+  The coupon of an order was only validated by the storefront, against the
+  copy of the coupon saved in the visitor's browser, so a deactivated or
+  expired coupon kept giving its discount, and the discount amount was taken
+  from the request. The order function now validates the coupon and
+  recalculates the discount itself, refusing the order when they do not match
+  what the storefront shows.
+
+  1. Functions
+    - `create_storefront_order(p_order jsonb, p_items jsonb)` - Locks the
+      coupon of the order and checks that it is active, inside its validity
+      period, below its usage limit, covers at least one item and reaches its
+      minimum on the covered items. The discount is recalculated from the
+      items and must match the one of the order
+
+  2. Important Notes
+    - Coupon rejections are raised with the hint 'coupon_rejected' and a
+      message the storefront shows to the buyer
+    - The usage limit is still enforced by the usage trigger as well
+*/
+
+-- Insert a storefront order and its items atomically
+CREATE OR REPLACE FUNCTION public.create_storefront_order(p_order jsonb, p_items jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid := (p_order->>'id')::uuid;
+  v_user_id uuid := (p_order->>'user_id')::uuid;
+  v_coupon_code text := NULLIF(trim(COALESCE(p_order->>'coupon_code', '')), '');
+  v_coupon public.coupons%ROWTYPE;
+  v_line_count integer;
+  v_eligible_count integer;
+  v_eligible_subtotal numeric := 0;
+  v_discount numeric := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = v_user_id) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.products p
+      WHERE p.id = (item->>'product_id')::uuid
+      AND p.user_id = v_user_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Order items must belong to the seller of the order';
+  END IF;
+
+  IF v_coupon_code IS NOT NULL THEN
+    SELECT * INTO v_coupon
+    FROM public.coupons
+    WHERE user_id = v_user_id
+    AND upper(code) = upper(v_coupon_code)
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_coupon.is_active THEN
+      RAISE EXCEPTION 'Cupom inválido ou inativo' USING HINT = 'coupon_rejected';
+    ELSIF v_coupon.starts_at IS NOT NULL AND v_coupon.starts_at > now() THEN
+      RAISE EXCEPTION 'Este cupom ainda não está válido' USING HINT = 'coupon_rejected';
+    ELSIF v_coupon.expires_at IS NOT NULL AND v_coupon.expires_at < now() THEN
+      RAISE EXCEPTION 'Este cupom expirou' USING HINT = 'coupon_rejected';
+    ELSIF v_coupon.usage_limit IS NOT NULL AND v_coupon.usage_count >= v_coupon.usage_limit THEN
+      RAISE EXCEPTION 'Este cupom atingiu o limite de usos' USING HINT = 'coupon_rejected';
+    END IF;
+
+    -- Same rules as the storefront: an empty restriction list covers every item
+    SELECT
+      count(*),
+      count(*) FILTER (WHERE eligible),
+      COALESCE(sum(subtotal) FILTER (WHERE eligible), 0)
+    INTO v_line_count, v_eligible_count, v_eligible_subtotal
+    FROM (
+      SELECT
+        COALESCE((item->>'subtotal')::numeric, 0) AS subtotal,
+        (
+          (cardinality(v_coupon.product_restrictions) = 0 AND cardinality(v_coupon.category_restrictions) = 0)
+          OR p.id = ANY(v_coupon.product_restrictions)
+          OR COALESCE(to_jsonb(p.category) ?| v_coupon.category_restrictions, false)
+        ) AS eligible
+      FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+      JOIN public.products p ON p.id = (item->>'product_id')::uuid
+    ) lines;
+
+    IF v_eligible_count = 0 THEN
+      RAISE EXCEPTION 'Nenhum produto do carrinho é elegível para este cupom' USING HINT = 'coupon_rejected';
+    ELSIF v_coupon.min_order_value IS NOT NULL AND v_eligible_subtotal < v_coupon.min_order_value THEN
+      RAISE EXCEPTION '%', format(
+        'Pedido mínimo de R$ %s%s para este cupom',
+        replace(to_char(v_coupon.min_order_value, 'FM999999990.00'), '.', ','),
+        CASE WHEN v_eligible_count < v_line_count THEN ' em produtos elegíveis' ELSE '' END
+      ) USING HINT = 'coupon_rejected';
+    END IF;
+
+    v_discount := round(LEAST(
+      CASE WHEN v_coupon.discount_type = 'percentage'
+        THEN v_eligible_subtotal * v_coupon.discount_value / 100
+        ELSE v_coupon.discount_value
+      END,
+      v_eligible_subtotal
+    ), 2);
+  END IF;
+
+  IF abs(v_discount - COALESCE((p_order->>'discount_amount')::numeric, 0)) > 0.01 THEN
+    RAISE EXCEPTION 'O desconto do cupom mudou. Confira o carrinho antes de enviar o pedido'
+      USING HINT = 'coupon_rejected';
+  END IF;
+
+  INSERT INTO public.orders (
+    id, user_id, code, viewer_id, subtotal, coupon_code, discount_amount,
+    shipping_method, shipping_cost, shipping_cep, customer_name, customer_phone,
+    customer_cpf, customer_address, payment_method, delivery_notes, total,
+    item_count, currency, language, message
+  )
+  VALUES (
+    v_order_id,
+    v_user_id,
+    p_order->>'code',
+    p_order->>'viewer_id',
+    COALESCE((p_order->>'subtotal')::numeric, 0),
+    CASE WHEN v_coupon_code IS NOT NULL THEN v_coupon.code END,
+    v_discount,
+    p_order->>'shipping_method',
+    COALESCE((p_order->>'shipping_cost')::numeric, 0),
+    p_order->>'shipping_cep',
+    p_order->>'customer_name',
+    p_order->>'customer_phone',
+    p_order->>'customer_cpf',
+    CASE WHEN jsonb_typeof(p_order->'customer_address') = 'object' THEN p_order->'customer_address' END,
+    p_order->>'payment_method',
+    p_order->>'delivery_notes',
+    COALESCE((p_order->>'total')::numeric, 0),
+    COALESCE((p_order->>'item_count')::integer, 0),
+    COALESCE(p_order->>'currency', 'BRL'),
+    COALESCE(p_order->>'language', 'pt-BR'),
+    p_order->>'message'
+  );
+
+  INSERT INTO public.order_items (
+    order_id, product_id, item_type, title, featured_image_url, color, size,
+    notes, quantity, unit_price, applied_tier_price, subtotal,
+    distribution_items, kit_components, sku
+  )
+  SELECT
+    v_order_id,
+    item.product_id,
+    COALESCE(item.item_type, 'item'),
+    item.title,
+    item.featured_image_url,
+    item.color,
+    item.size,
+    item.notes,
+    item.quantity,
+    COALESCE(item.unit_price, 0),
+    item.applied_tier_price,
+    COALESCE(item.subtotal, 0),
+    COALESCE(item.distribution_items, '[]'::jsonb),
+    COALESCE(item.kit_components, '[]'::jsonb),
+    item.sku
+  FROM jsonb_populate_recordset(NULL::public.order_items, COALESCE(p_items, '[]'::jsonb)) AS item;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_storefront_order(jsonb, jsonb) TO anon, authenticated;
@@ -0,0 +1,63 @@
+/*
+  # Hide the internal ids from the public quote lookup
+
+  The public quote lookup still returned the quote id and the seller user
+  id to anyone holding the link. The acceptance page only needs the code
+  and the seller slug, which are already in the link.
+
+  1. Functions
+    - `get_public_quote(p_slug, p_code)` - No longer returns `id` or
+      `user_id`, and the lines no longer carry `quote_id`
+*/
+
+-- Public quote lookup used by the acceptance page
+CREATE OR REPLACE FUNCTION public.get_public_quote(p_slug text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_answered boolean;
+BEGIN
+  SELECT q.* INTO v_quote
+  FROM public.quotes q
+  JOIN public.users u ON u.id = q.user_id
+  WHERE u.slug = p_slug
+  AND upper(q.code) = upper(p_code);
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Prices typed while the quote is still pending are not shown yet
+  v_answered := v_quote.status IN ('respondido', 'aceito');
+
+  RETURN jsonb_build_object(
+    'code', v_quote.code,
+    'status', v_quote.status,
+    'customer_name', v_quote.customer_name,
+    'payment_method', v_quote.payment_method,
+    'item_count', v_quote.item_count,
+    'total', CASE WHEN v_answered THEN v_quote.total END,
+    'valid_until', v_quote.valid_until,
+    'seller_notes', CASE WHEN v_answered THEN v_quote.seller_notes END,
+    'answered_at', v_quote.answered_at,
+    'accepted_at', v_quote.accepted_at,
+    'currency', v_quote.currency,
+    'language', v_quote.language,
+    'created_at', v_quote.created_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(
+        CASE WHEN v_answered THEN to_jsonb(i) - 'quote_id'
+        ELSE to_jsonb(i) - 'quote_id' - 'unit_price' - 'subtotal'
+        END ORDER BY i.created_at
+      )
+      FROM public.quote_items i
+      WHERE i.quote_id = v_quote.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;